@@ -45,23 +45,48 @@ export type Database = {
           owner: string | null
           name: string | null
           shortcode: string | null
+          notebook_id: string | null
+          is_anonymous: boolean
+          password_hash: string | null
+          expires_at: string | null
+          view_count: number
           created_at: string
+          updated_at: string
         }
         Insert: {
           id?: string
           owner?: string | null
           name?: string | null
           shortcode?: string | null
+          notebook_id?: string | null
+          is_anonymous?: boolean
+          password_hash?: string | null
+          expires_at?: string | null
+          view_count?: number
           created_at?: string
+          updated_at?: string
         }
         Update: {
           id?: string
           owner?: string | null
           name?: string | null
           shortcode?: string | null
+          notebook_id?: string | null
+          is_anonymous?: boolean
+          password_hash?: string | null
+          expires_at?: string | null
+          view_count?: number
           created_at?: string
+          updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "collections_notebook_id_fkey"
+            columns: ["notebook_id"]
+            isOneToOne: true
+            referencedRelation: "notebooks"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "collections_owner_fkey"
             columns: ["owner"]
@@ -76,16 +101,22 @@ export type Database = {
           id: number
           collection_id: string
           note_id: string | null
+          view_count: number
+          last_viewed_at: string | null
         }
         Insert: {
           id?: number
           collection_id?: string
           note_id?: string | null
+          view_count?: number
+          last_viewed_at?: string | null
         }
         Update: {
           id?: number
           collection_id?: string
           note_id?: string | null
+          view_count?: number
+          last_viewed_at?: string | null
         }
         Relationships: [
           {
@@ -104,6 +135,220 @@ export type Database = {
           },
         ]
       }
+      note_attachments: {
+        Row: {
+          id: string
+          owner: string
+          note_id: string | null
+          path: string
+          file_name: string
+          mime_type: string
+          size_bytes: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          owner: string
+          note_id?: string | null
+          path: string
+          file_name: string
+          mime_type: string
+          size_bytes?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          owner?: string
+          note_id?: string | null
+          path?: string
+          file_name?: string
+          mime_type?: string
+          size_bytes?: number
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_attachments_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      note_chunks: {
+        Row: {
+          id: string
+          note_id: string
+          author: string
+          chunk_index: number
+          content: string
+          content_hash: string
+          model: string
+          embedding: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          note_id: string
+          author: string
+          chunk_index: number
+          content: string
+          content_hash: string
+          model: string
+          embedding: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          note_id?: string
+          author?: string
+          chunk_index?: number
+          content?: string
+          content_hash?: string
+          model?: string
+          embedding?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      note_collaborators: {
+        Row: {
+          id: string
+          note_id: string
+          user_id: string
+          role: string
+          added_by: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          note_id: string
+          user_id: string
+          role?: string
+          added_by: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          note_id?: string
+          user_id?: string
+          role?: string
+          added_by?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_collaborators_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      note_comments: {
+        Row: {
+          id: string
+          shared_note: string
+          parent_id: string | null
+          kind: string
+          quote: string
+          context_before: string
+          context_after: string
+          body: string
+          suggested_text: string | null
+          status: string
+          author_id: string | null
+          author_name: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          shared_note: string
+          parent_id?: string | null
+          kind?: string
+          quote?: string
+          context_before?: string
+          context_after?: string
+          body?: string
+          suggested_text?: string | null
+          status?: string
+          author_id?: string | null
+          author_name: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          shared_note?: string
+          parent_id?: string | null
+          kind?: string
+          quote?: string
+          context_before?: string
+          context_after?: string
+          body?: string
+          suggested_text?: string | null
+          status?: string
+          author_id?: string | null
+          author_name?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_comments_shared_note_fkey"
+            columns: ["shared_note"]
+            isOneToOne: false
+            referencedRelation: "shared_notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "note_comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "note_comments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      note_encryption_keys: {
+        Row: {
+          user_id: string
+          kdf: string
+          kdf_iterations: number
+          passphrase_salt: string
+          recovery_salt: string
+          current_version: number
+          keys: Json
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          kdf?: string
+          kdf_iterations: number
+          passphrase_salt: string
+          recovery_salt: string
+          current_version?: number
+          keys: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          kdf?: string
+          kdf_iterations?: number
+          passphrase_salt?: string
+          recovery_salt?: string
+          current_version?: number
+          keys?: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       note_tags: {
         Row: {
           note_id: string
@@ -134,6 +379,36 @@ export type Database = {
           },
         ]
       }
+      note_templates: {
+        Row: {
+          id: string
+          owner: string
+          name: string
+          title: string
+          content: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          owner: string
+          name: string
+          title?: string
+          content?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          owner?: string
+          name?: string
+          title?: string
+          content?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       note_versions: {
         Row: {
           id: string
@@ -143,6 +418,8 @@ export type Database = {
           content: string | null
           content_format: string | null
           created_at: string
+          label: string | null
+          is_checkpoint: boolean
         }
         Insert: {
           id?: string
@@ -152,6 +429,8 @@ export type Database = {
           content?: string | null
           content_format?: string | null
           created_at?: string
+          label?: string | null
+          is_checkpoint?: boolean
         }
         Update: {
           id?: string
@@ -161,6 +440,8 @@ export type Database = {
           content?: string | null
           content_format?: string | null
           created_at?: string
+          label?: string | null
+          is_checkpoint?: boolean
         }
         Relationships: []
       }
@@ -235,6 +516,8 @@ export type Database = {
           created_at: string
           updated_at: string | null
           deleted_at: string | null
+          is_encrypted: boolean
+          search_vector: unknown | null
         }
         Insert: {
           id?: string
@@ -253,6 +536,7 @@ export type Database = {
           created_at?: string
           updated_at?: string | null
           deleted_at?: string | null
+          is_encrypted?: boolean
         }
         Update: {
           id?: string
@@ -271,6 +555,7 @@ export type Database = {
           created_at?: string
           updated_at?: string | null
           deleted_at?: string | null
+          is_encrypted?: boolean
         }
         Relationships: [
           {
@@ -291,6 +576,8 @@ export type Database = {
           shortcode: string
           is_public: boolean | null
           is_anonymous: boolean | null
+          allow_comments: boolean
+          allow_anonymous_comments: boolean
           password_hash: string | null
           storage: string | null
           view_count: number | null
@@ -306,6 +593,8 @@ export type Database = {
           shortcode: string
           is_public?: boolean | null
           is_anonymous?: boolean | null
+          allow_comments?: boolean
+          allow_anonymous_comments?: boolean
           password_hash?: string | null
           storage?: string | null
           view_count?: number | null
@@ -321,6 +610,8 @@ export type Database = {
           shortcode?: string
           is_public?: boolean | null
           is_anonymous?: boolean | null
+          allow_comments?: boolean
+          allow_anonymous_comments?: boolean
           password_hash?: string | null
           storage?: string | null
           view_count?: number | null
@@ -363,8 +654,10 @@ export type Database = {
         Row: {
           id: string
           shared_note: string
-          reader_username: string
+          reader_username: string | null
           reader_id: string | null
+          reader_email: string | null
+          invited_at: string | null
           view_count: number | null
           first_viewed_at: string | null
           last_viewed_at: string | null
@@ -373,8 +666,10 @@ export type Database = {
         Insert: {
           id?: string
           shared_note: string
-          reader_username: string
+          reader_username?: string | null
           reader_id?: string | null
+          reader_email?: string | null
+          invited_at?: string | null
           view_count?: number | null
           first_viewed_at?: string | null
           last_viewed_at?: string | null
@@ -383,8 +678,10 @@ export type Database = {
         Update: {
           id?: string
           shared_note?: string
-          reader_username?: string
+          reader_username?: string | null
           reader_id?: string | null
+          reader_email?: string | null
+          invited_at?: string | null
           view_count?: number | null
           first_viewed_at?: string | null
           last_viewed_at?: string | null
@@ -471,6 +768,136 @@ export type Database = {
           },
         ]
       }
+      user_preferences: {
+        Row: {
+          user_id: string
+          preferences: Json
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          preferences?: Json
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          preferences?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_preferences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      writing_activity: {
+        Row: {
+          id: string
+          user_id: string
+          note_id: string | null
+          notebook_id: string | null
+          started_at: string
+          ended_at: string
+          words_added: number
+          words_removed: number
+          active_seconds: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          note_id?: string | null
+          notebook_id?: string | null
+          started_at: string
+          ended_at: string
+          words_added?: number
+          words_removed?: number
+          active_seconds?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          note_id?: string | null
+          notebook_id?: string | null
+          started_at?: string
+          ended_at?: string
+          words_added?: number
+          words_removed?: number
+          active_seconds?: number
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "writing_activity_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      writing_goals: {
+        Row: {
+          id: string
+          user_id: string
+          scope: string
+          note_id: string | null
+          notebook_id: string | null
+          cadence: string
+          target_words: number
+          start_date: string
+          due_date: string | null
+          label: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          scope: string
+          note_id?: string | null
+          notebook_id?: string | null
+          cadence: string
+          target_words: number
+          start_date?: string
+          due_date?: string | null
+          label?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          scope?: string
+          note_id?: string | null
+          notebook_id?: string | null
+          cadence?: string
+          target_words?: number
+          start_date?: string
+          due_date?: string | null
+          label?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "writing_goals_notebook_id_fkey"
+            columns: ["notebook_id"]
+            isOneToOne: false
+            referencedRelation: "notebooks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "writing_goals_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       writing_sessions: {
         Row: {
           id: string
@@ -513,6 +940,19 @@ export type Database = {
     Views: {
     }
     Functions: {
+      add_writing_session_totals: {
+        Args: {
+          p_date: string
+          p_words: number
+          p_seconds: number
+          p_max_seconds: number
+        }
+        Returns: undefined
+      }
+      attachment_storage_used: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
       create_author_with_random_username: {
         Args: {
           user_id: string
@@ -529,6 +969,89 @@ export type Database = {
         }
         Returns: number
       }
+      is_note_owner: {
+        Args: {
+          p_note_id: string
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      merge_user_preferences: {
+        Args: {
+          p_patch: Json
+        }
+        Returns: Json
+      }
+      note_collaborator_role: {
+        Args: {
+          p_note_id: string
+          p_user_id: string
+        }
+        Returns: string | null
+      }
+      note_search_text: {
+        Args: {
+          p_content: string
+        }
+        Returns: string
+      }
+      record_collection_view: {
+        Args: {
+          p_collection_id: string
+          p_note_id: string | null
+        }
+        Returns: undefined
+      }
+      related_notes: {
+        Args: {
+          p_note_id: string
+          p_limit?: number
+        }
+        Returns: {
+          id: string
+          title: string | null
+          notebook_id: string | null
+          similarity: number
+        }[]
+      }
+      search_notes: {
+        Args: {
+          p_query: string
+          p_limit?: number
+          p_offset?: number
+        }
+        Returns: {
+          id: string
+          title: string | null
+          notebook_id: string | null
+          is_pinned: boolean | null
+          updated_at: string | null
+          rank: number
+          snippet: string
+          total_count: number
+        }[]
+      }
+      search_notes_by_meaning: {
+        Args: {
+          p_embedding: string
+          p_limit?: number
+        }
+        Returns: {
+          id: string
+          title: string | null
+          notebook_id: string | null
+          is_pinned: boolean | null
+          updated_at: string | null
+          similarity: number
+          snippet: string
+        }[]
+      }
+      stale_attachment_uploads: {
+        Args: {
+          p_older_than?: unknown
+        }
+        Returns: string[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,215 @@
+"use server";
+
+import { createClient, createServiceRoleClient } from "@/utils/supabase/server";
+import { getSubscriptionLimits } from "@/utils/supabase/subscription";
+import {
+  getAttachmentStorageUsed,
+  removeUnconfirmedUploads,
+} from "@/utils/supabase/attachments";
+import {
+  ATTACHMENT_BUCKET,
+  ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_SIZE,
+  NoteAttachment,
+  NoteAttachmentRow,
+  attachmentRowToAttachment,
+  isAttachmentType,
+} from "@/types/attachment";
+
+// ===========================
+// AUTHENTICATION HELPER
+// ===========================
+async function getAuthenticatedUser() {
+  const supabase = await createClient();
+  const { data: authData, error } = await supabase.auth.getUser();
+
+  if (error || !authData.user?.id) {
+    throw new Error("User not authenticated");
+  }
+
+  return { supabase, userId: authData.user.id };
+}
+
+async function ownsNote(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  userId: string,
+  noteId: string,
+): Promise<boolean> {
+  const { data } = await supabase
+    .from("notes")
+    .select("id")
+    .eq("id", noteId)
+    .eq("author", userId)
+    .maybeSingle();
+  return !!data;
+}
+
+function formatStorage(bytes: number): string {
+  return bytes >= 1024 * 1024 * 1024
+    ? `${(bytes / (1024 * 1024 * 1024)).toFixed(0)} GB`
+    : `${(bytes / (1024 * 1024)).toFixed(0)} MB`;
+}
+
+// ===========================
+// ATTACHMENT OPERATIONS
+// ===========================
+
+/**
+ * Creates a signed URL for uploading an attachment straight to storage,
+ * after checking the file type, size and the user's storage quota.
+ */
+export async function createAttachmentUpload(
+  noteId: string,
+  fileType: string,
+  fileSize: number,
+): Promise<{
+  success: boolean;
+  signedUrl?: string;
+  token?: string;
+  path?: string;
+  error?: string;
+}> {
+  try {
+    const { supabase, userId } = await getAuthenticatedUser();
+
+    if (!isAttachmentType(fileType)) {
+      return {
+        success: false,
+        error: "Invalid file type. Allowed: PNG, JPEG, GIF, WebP, PDF",
+      };
+    }
+    if (fileSize > MAX_ATTACHMENT_SIZE) {
+      return {
+        success: false,
+        error: `Files must be under ${formatStorage(MAX_ATTACHMENT_SIZE)}`,
+      };
+    }
+
+    if (!(await ownsNote(supabase, userId, noteId))) {
+      return { success: false, error: "Note not found or access denied" };
+    }
+
+    // Abandoned uploads would otherwise count against the quota forever
+    await removeUnconfirmedUploads(supabase).catch((e) =>
+      console.error("Failed to remove unconfirmed uploads:", e),
+    );
+
+    const { maxAttachmentStorage } = await getSubscriptionLimits(supabase, userId);
+    const used = await getAttachmentStorageUsed(supabase);
+    if (used + fileSize > maxAttachmentStorage) {
+      return {
+        success: false,
+        error: `You've used your ${formatStorage(maxAttachmentStorage)} of attachment storage. Upgrade for more.`,
+      };
+    }
+
+    const path = `${userId}/${noteId}/${crypto.randomUUID()}.${ATTACHMENT_TYPES[fileType]}`;
+
+    // Users can't write to the bucket themselves; the signed URL is their
+    // only way in, so it's issued with the service role
+    const { data, error } = await createServiceRoleClient()
+      .storage.from(ATTACHMENT_BUCKET)
+      .createSignedUploadUrl(path);
+
+    if (error) {
+      console.error("Failed to create signed URL:", error);
+      return {
+        success: false,
+        error: `Failed to create upload URL: ${error.message}`,
+      };
+    }
+
+    return { success: true, signedUrl: data.signedUrl, token: data.token, path };
+  } catch (error) {
+    console.error("Failed to create attachment upload:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      error: `Failed to create upload URL: ${errorMessage}`,
+    };
+  }
+}
+
+/**
+ * Records an uploaded attachment. The stored object's real size and type are
+ * checked again here, since the client could have uploaded something other
+ * than what it asked to.
+ */
+export async function confirmAttachmentUpload(
+  noteId: string,
+  path: string,
+  fileName: string,
+): Promise<{
+  success: boolean;
+  attachment?: NoteAttachment;
+  error?: string;
+}> {
+  try {
+    const { supabase, userId } = await getAuthenticatedUser();
+
+    const folder = `${userId}/${noteId}`;
+    if (!path.startsWith(`${folder}/`) || !(await ownsNote(supabase, userId, noteId))) {
+      return { success: false, error: "Note not found or access denied" };
+    }
+
+    const objectName = path.slice(folder.length + 1);
+    const { data: objects } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .list(folder, { search: objectName });
+    const object = objects?.find((o) => o.name === objectName);
+    if (!object) {
+      return { success: false, error: "Upload not found" };
+    }
+
+    const size = Number(object.metadata?.size ?? 0);
+    const mimeType = String(object.metadata?.mimetype ?? "");
+    // `used` already includes this object, and anything else sitting in
+    // the user's folder whether confirmed or not
+    const { maxAttachmentStorage } = await getSubscriptionLimits(supabase, userId);
+    const used = await getAttachmentStorageUsed(supabase);
+
+    if (
+      !isAttachmentType(mimeType) ||
+      size > MAX_ATTACHMENT_SIZE ||
+      used > maxAttachmentStorage
+    ) {
+      await supabase.storage.from(ATTACHMENT_BUCKET).remove([path]);
+      return { success: false, error: "Attachment rejected: wrong type or over the limit" };
+    }
+
+    const { data, error } = await supabase
+      .from("note_attachments")
+      .insert({
+        owner: userId,
+        note_id: noteId,
+        path,
+        file_name: fileName.slice(0, 255) || objectName,
+        mime_type: mimeType,
+        size_bytes: size,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Failed to record attachment:", error);
+      await supabase.storage.from(ATTACHMENT_BUCKET).remove([path]);
+      return { success: false, error: `Database error: ${error.message}` };
+    }
+
+    const {
+      data: { publicUrl },
+    } = supabase.storage.from(ATTACHMENT_BUCKET).getPublicUrl(path);
+
+    return {
+      success: true,
+      attachment: attachmentRowToAttachment(data as NoteAttachmentRow, publicUrl),
+    };
+  } catch (error) {
+    console.error("Failed to confirm attachment upload:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      error: `Failed to confirm upload: ${errorMessage}`,
+    };
+  }
+}
@@ -0,0 +1,414 @@
+"use server";
+
+import { createClient, createServiceRoleClient } from "@/utils/supabase/server";
+import { getSubscriptionLimits } from "@/utils/supabase/subscription";
+import { CombinedNote, supabaseToCombi } from "@/types/combined-notes";
+import {
+  CollaborationSession,
+  CollaboratorRole,
+  NoteCollaborator,
+} from "@/types/subscription";
+import { isValidUUID, validateNoteTitle, validateNoteTitleLength } from "@/utils/validation";
+
+type InvitableRole = Exclude<CollaboratorRole, "owner">;
+
+const INVITABLE_ROLES: InvitableRole[] = ["viewer", "editor"];
+
+async function getAuthenticatedUser() {
+  const supabase = await createClient();
+  const { data: authData, error } = await supabase.auth.getUser();
+  if (error || !authData.user?.id) {
+    throw new Error("User not authenticated");
+  }
+  return { supabase, userId: authData.user.id };
+}
+
+/**
+ * Returns the caller's role on a note: "owner" for the author, the
+ * collaborator role when shared, or null when they have no access.
+ */
+async function resolveRole(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  noteId: string,
+  userId: string,
+): Promise<CollaboratorRole | null> {
+  const { data: note } = await supabase
+    .from("notes")
+    .select("author")
+    .eq("id", noteId)
+    .maybeSingle();
+
+  if (!note) return null;
+  if (note.author === userId) return "owner";
+
+  const { data: membership } = await supabase
+    .from("note_collaborators")
+    .select("role")
+    .eq("note_id", noteId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  return (membership?.role as InvitableRole) || null;
+}
+
+/**
+ * Look up usernames and avatars for a set of users. The authors table is only
+ * readable for the caller's own row, so this goes through the service role.
+ */
+async function fetchAuthorProfiles(
+  userIds: string[],
+): Promise<Map<string, { username: string; avatarUrl: string | null }>> {
+  const profiles = new Map<string, { username: string; avatarUrl: string | null }>();
+  if (userIds.length === 0) return profiles;
+
+  const serviceClient = createServiceRoleClient();
+  const { data } = await serviceClient
+    .from("authors")
+    .select("id, username, avatar_url")
+    .in("id", userIds);
+
+  for (const row of data || []) {
+    profiles.set(row.id, {
+      username: row.username || "Unknown",
+      avatarUrl: row.avatar_url,
+    });
+  }
+  return profiles;
+}
+
+export async function getCollaborationSession(noteId: string): Promise<{
+  success: boolean;
+  session?: CollaborationSession;
+  error?: string;
+}> {
+  try {
+    if (!isValidUUID(noteId)) {
+      return { success: false, error: "Invalid note ID" };
+    }
+
+    const { supabase, userId } = await getAuthenticatedUser();
+    const role = await resolveRole(supabase, noteId, userId);
+    if (!role) {
+      return { success: false, error: "Note not found" };
+    }
+
+    const { data: note } = await supabase
+      .from("notes")
+      .select("author")
+      .eq("id", noteId)
+      .maybeSingle();
+    if (!note) {
+      return { success: false, error: "Note not found" };
+    }
+    const ownerId: string = note.author;
+
+    const { data: rows, error } = await supabase
+      .from("note_collaborators")
+      .select("note_id, user_id, role, added_by, created_at")
+      .eq("note_id", noteId)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+
+    const profiles = await fetchAuthorProfiles([
+      ownerId,
+      userId,
+      ...(rows || []).map((r: any) => r.user_id),
+    ]);
+
+    const collaborators: NoteCollaborator[] = (rows || []).map((row: any) => ({
+      noteId: row.note_id,
+      odId: row.user_id,
+      displayName: profiles.get(row.user_id)?.username,
+      avatarUrl: profiles.get(row.user_id)?.avatarUrl ?? null,
+      role: row.role as CollaboratorRole,
+      addedAt: new Date(row.created_at).getTime(),
+      addedBy: row.added_by,
+    }));
+
+    // The limit that matters is the owner's, not the viewer's. RLS hides
+    // another user's subscription, so read it with the service role.
+    const limits = await getSubscriptionLimits(createServiceRoleClient(), ownerId);
+
+    return {
+      success: true,
+      session: {
+        noteId,
+        role,
+        ownerId,
+        self: {
+          userId,
+          displayName: profiles.get(userId)?.username || "You",
+          avatarUrl: profiles.get(userId)?.avatarUrl ?? null,
+        },
+        collaborators,
+        maxCollaborators: limits.canCollaborate ? limits.maxCollaborators : 0,
+      },
+    };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+}
+
+export async function addCollaborator(
+  noteId: string,
+  username: string,
+  role: InvitableRole,
+): Promise<{ success: boolean; collaborator?: NoteCollaborator; error?: string }> {
+  try {
+    if (!INVITABLE_ROLES.includes(role)) {
+      return { success: false, error: "Invalid role" };
+    }
+
+    const { supabase, userId } = await getAuthenticatedUser();
+    if ((await resolveRole(supabase, noteId, userId)) !== "owner") {
+      return { success: false, error: "Only the note owner can invite collaborators" };
+    }
+
+    const { data: note } = await supabase
+      .from("notes")
+      .select("is_encrypted")
+      .eq("id", noteId)
+      .maybeSingle();
+    if (note?.is_encrypted) {
+      return { success: false, error: "Encrypted notes can't be shared" };
+    }
+
+    const limits = await getSubscriptionLimits(supabase, userId);
+    if (!limits.canCollaborate) {
+      return { success: false, error: "Upgrade to Pro to collaborate on notes" };
+    }
+
+    if (limits.maxCollaborators !== -1) {
+      const { count } = await supabase
+        .from("note_collaborators")
+        .select("*", { count: "exact", head: true })
+        .eq("note_id", noteId);
+
+      if ((count || 0) >= limits.maxCollaborators) {
+        return {
+          success: false,
+          error: `Your plan allows up to ${limits.maxCollaborators} collaborators per note`,
+        };
+      }
+    }
+
+    const serviceClient = createServiceRoleClient();
+    const { data: invitee } = await serviceClient
+      .from("authors")
+      .select("id, username, avatar_url")
+      .eq("username", username.trim())
+      .maybeSingle();
+
+    if (!invitee) {
+      return { success: false, error: "Username not found" };
+    }
+    if (invitee.id === userId) {
+      return { success: false, error: "You already own this note" };
+    }
+
+    const { data, error } = await supabase
+      .from("note_collaborators")
+      .insert({
+        note_id: noteId,
+        user_id: invitee.id,
+        role,
+        added_by: userId,
+      })
+      .select("note_id, user_id, role, added_by, created_at")
+      .single();
+
+    if (error) {
+      if (error.code === "23505") {
+        return { success: false, error: "That user is already a collaborator" };
+      }
+      throw error;
+    }
+
+    return {
+      success: true,
+      collaborator: {
+        noteId: data.note_id,
+        odId: data.user_id,
+        displayName: invitee.username,
+        avatarUrl: invitee.avatar_url,
+        role: data.role,
+        addedAt: new Date(data.created_at).getTime(),
+        addedBy: data.added_by,
+      },
+    };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+}
+
+export async function updateCollaboratorRole(
+  noteId: string,
+  collaboratorId: string,
+  role: InvitableRole,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (!INVITABLE_ROLES.includes(role)) {
+      return { success: false, error: "Invalid role" };
+    }
+
+    const { supabase, userId } = await getAuthenticatedUser();
+    if ((await resolveRole(supabase, noteId, userId)) !== "owner") {
+      return { success: false, error: "Only the note owner can change roles" };
+    }
+
+    const { error } = await supabase
+      .from("note_collaborators")
+      .update({ role })
+      .eq("note_id", noteId)
+      .eq("user_id", collaboratorId);
+
+    if (error) throw error;
+    return { success: true };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+}
+
+/**
+ * Owners can remove anyone; collaborators can only remove themselves
+ * (i.e. leave the note).
+ */
+export async function removeCollaborator(
+  noteId: string,
+  collaboratorId: string,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { supabase, userId } = await getAuthenticatedUser();
+    const role = await resolveRole(supabase, noteId, userId);
+    if (role !== "owner" && collaboratorId !== userId) {
+      return { success: false, error: "Not allowed" };
+    }
+
+    const { error } = await supabase
+      .from("note_collaborators")
+      .delete()
+      .eq("note_id", noteId)
+      .eq("user_id", collaboratorId);
+
+    if (error) throw error;
+    return { success: true };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+}
+
+/**
+ * Notes other users have shared with the caller. They're returned detached
+ * from the owner's notebooks so they never leak into the caller's own tree.
+ */
+export async function getSharedWithMeNotes(): Promise<{
+  success: boolean;
+  notes?: CombinedNote[];
+  error?: string;
+}> {
+  try {
+    const { supabase, userId } = await getAuthenticatedUser();
+
+    const { data: memberships, error: membershipError } = await supabase
+      .from("note_collaborators")
+      .select("note_id, role")
+      .eq("user_id", userId);
+
+    if (membershipError) throw membershipError;
+    if (!memberships || memberships.length === 0) {
+      return { success: true, notes: [] };
+    }
+
+    const roleByNote = new Map<string, InvitableRole>(
+      memberships.map((m: any) => [m.note_id, m.role]),
+    );
+
+    const { data, error } = await supabase
+      .from("notes")
+      .select("*")
+      .in("id", Array.from(roleByNote.keys()))
+      .is("deleted_at", null)
+      // Encrypted after being shared: only the owner can read it now
+      .eq("is_encrypted", false);
+
+    if (error) throw error;
+
+    return {
+      success: true,
+      notes: (data || []).map((row: any) => ({
+        ...supabaseToCombi(row),
+        notebookId: null,
+        isPinned: false,
+        collaboratorRole: roleByNote.get(row.id),
+      })),
+    };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+}
+
+/**
+ * Persist content for a note the caller edits as a collaborator. The live
+ * document is already merged over the collab channel, so this only needs to
+ * write the converged markdown; RLS restricts the update to editors.
+ */
+export async function updateSharedNoteContent(
+  noteId: string,
+  content: string,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { supabase, userId } = await getAuthenticatedUser();
+    if ((await resolveRole(supabase, noteId, userId)) !== "editor") {
+      return { success: false, error: "You don't have edit access to this note" };
+    }
+
+    const { error } = await supabase
+      .from("notes")
+      .update({
+        content,
+        content_format: "markdown",
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", noteId);
+
+    if (error) throw error;
+    return { success: true };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+}
+
+/** Rename a note the caller edits as a collaborator; RLS restricts it to editors. */
+export async function updateSharedNoteTitle(
+  noteId: string,
+  title: string,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (!validateNoteTitle(title)) {
+      return { success: false, error: "Invalid title: Title cannot be empty" };
+    }
+    const length = validateNoteTitleLength(title.trim());
+    if (!length.valid) {
+      return { success: false, error: length.error };
+    }
+
+    const { supabase, userId } = await getAuthenticatedUser();
+    if ((await resolveRole(supabase, noteId, userId)) !== "editor") {
+      return { success: false, error: "You don't have edit access to this note" };
+    }
+
+    const { error } = await supabase
+      .from("notes")
+      .update({
+        title: title.trim(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", noteId);
+
+    if (error) throw error;
+    return { success: true };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+}
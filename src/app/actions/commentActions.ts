@@ -0,0 +1,353 @@
+"use server";
+
+import { headers } from "next/headers";
+import { createClient, createServiceRoleClient } from "@/utils/supabase/server";
+import { checkShareAccess } from "@/utils/share-access";
+import { checkRateLimit } from "@/utils/rate-limit";
+import { isValidUUID } from "@/utils/validation";
+import {
+  COMMENT_LIMITS,
+  CommentStatus,
+  NewShareComment,
+  NoteComment,
+  NoteCommentRow,
+  commentRowToComment,
+} from "@/types/comments";
+
+// ===========================
+// AUTHENTICATION HELPER
+// ===========================
+async function getAuthenticatedUser() {
+  const supabase = await createClient();
+  const { data: authData, error } = await supabase.auth.getUser();
+
+  if (error || !authData.user?.id) {
+    throw new Error("User not authenticated");
+  }
+
+  return { supabase, userId: authData.user.id };
+}
+
+// Signed-in reader, if any. Reading a share never requires an account.
+async function getViewerId(): Promise<string | null> {
+  const supabase = await createClient();
+  const { data } = await supabase.auth.getUser();
+  return data.user?.id || null;
+}
+
+async function getUsername(userId: string): Promise<string | null> {
+  const { data } = await createServiceRoleClient()
+    .from("authors")
+    .select("username")
+    .eq("id", userId)
+    .maybeSingle();
+  return data?.username || null;
+}
+
+const COMMENT_RATE_LIMIT = 30;
+const COMMENT_RATE_WINDOW_MS = 60 * 60 * 1000;
+
+const RESOLVABLE_STATUSES: CommentStatus[] = ["open", "resolved", "accepted", "rejected"];
+
+// ===========================
+// READER OPERATIONS
+// ===========================
+
+/**
+ * Open threads on a shared note, for its readers. Resolved threads and
+ * settled suggestions are only shown to the owner.
+ */
+export async function getShareComments(
+  shortcode: string,
+  password: string | null = null,
+): Promise<{
+  success: boolean;
+  comments?: NoteComment[];
+  allowComments?: boolean;
+  /** The reader may post (signed in, or the owner allows anonymous comments) */
+  canComment?: boolean;
+  error?: string;
+}> {
+  try {
+    const viewerId = await getViewerId();
+    const access = await checkShareAccess(shortcode, password, viewerId);
+    if (!access.share) {
+      return { success: false, error: access.error };
+    }
+
+    const { share } = access;
+    if (!share.allow_comments) {
+      return { success: true, comments: [], allowComments: false, canComment: false };
+    }
+
+    const { data, error } = await createServiceRoleClient()
+      .from("note_comments")
+      .select("*")
+      .eq("shared_note", share.id)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+
+    const rows = (data || []) as NoteCommentRow[];
+    const openThreads = new Set(
+      rows.filter((row) => !row.parent_id && row.status === "open").map((row) => row.id),
+    );
+
+    return {
+      success: true,
+      comments: rows
+        .filter((row) => openThreads.has(row.parent_id || row.id))
+        .map((row) => commentRowToComment(row, share.note_owner_id)),
+      allowComments: true,
+      canComment: !!viewerId || share.allow_anonymous_comments,
+    };
+  } catch (error) {
+    console.error("Failed to get share comments:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { success: false, error: `Failed to load comments: ${errorMessage}` };
+  }
+}
+
+/** Start a thread (comment or suggested edit) on a shared note, or reply to one. */
+export async function addShareComment(
+  shortcode: string,
+  password: string | null,
+  input: NewShareComment,
+): Promise<{ success: boolean; comment?: NoteComment; error?: string }> {
+  try {
+    const viewerId = await getViewerId();
+    const access = await checkShareAccess(shortcode, password, viewerId);
+    if (!access.share) {
+      return { success: false, error: access.error };
+    }
+
+    const { share } = access;
+    if (!share.allow_comments) {
+      return { success: false, error: "Comments are turned off for this note" };
+    }
+    if (!viewerId && !share.allow_anonymous_comments) {
+      return { success: false, error: "Sign in to comment on this note" };
+    }
+
+    const hdrs = await headers();
+    const ip =
+      (hdrs.get("x-forwarded-for") || "").split(",")[0].trim() ||
+      hdrs.get("x-real-ip") ||
+      "unknown";
+    const rl = await checkRateLimit(
+      viewerId || ip,
+      "share-comment",
+      COMMENT_RATE_LIMIT,
+      COMMENT_RATE_WINDOW_MS,
+    );
+    if (!rl.allowed) {
+      return { success: false, error: "Too many comments. Please try again later." };
+    }
+
+    const body = (input.body || "").trim();
+    const isSuggestion = !input.parentId && input.kind === "suggestion";
+    const suggestedText = isSuggestion ? (input.suggestedText ?? "") : null;
+
+    if (!body && !isSuggestion) {
+      return { success: false, error: "Comment can't be empty" };
+    }
+    if (body.length > COMMENT_LIMITS.body) {
+      return { success: false, error: `Comments are limited to ${COMMENT_LIMITS.body} characters` };
+    }
+    if (suggestedText !== null && suggestedText.length > COMMENT_LIMITS.suggestedText) {
+      return { success: false, error: "Suggested text is too long" };
+    }
+
+    const client = createServiceRoleClient();
+    let anchor = { quote: "", context_before: "", context_after: "" };
+
+    if (input.parentId) {
+      if (!isValidUUID(input.parentId)) {
+        return { success: false, error: "Comment not found" };
+      }
+      const { data: parent } = await client
+        .from("note_comments")
+        .select("id, parent_id, status")
+        .eq("id", input.parentId)
+        .eq("shared_note", share.id)
+        .maybeSingle();
+
+      if (!parent || parent.parent_id || parent.status !== "open") {
+        return { success: false, error: "This thread is closed" };
+      }
+    } else {
+      // Stored as selected, since anchoring matches the exact text
+      const quote = input.anchor?.quote || "";
+      if (!quote.trim()) {
+        return { success: false, error: "Select a passage to comment on" };
+      }
+      if (quote.length > COMMENT_LIMITS.quote) {
+        return { success: false, error: "Select a shorter passage" };
+      }
+      anchor = {
+        quote,
+        context_before: (input.anchor!.contextBefore || "").slice(-COMMENT_LIMITS.context),
+        context_after: (input.anchor!.contextAfter || "").slice(0, COMMENT_LIMITS.context),
+      };
+    }
+
+    const authorName = viewerId
+      ? (await getUsername(viewerId)) || "Reader"
+      : (input.guestName || "").trim().slice(0, COMMENT_LIMITS.name) || "Guest";
+
+    const { data, error } = await client
+      .from("note_comments")
+      .insert({
+        shared_note: share.id,
+        parent_id: input.parentId || null,
+        kind: isSuggestion ? "suggestion" : "comment",
+        ...anchor,
+        body,
+        suggested_text: suggestedText,
+        author_id: viewerId,
+        author_name: authorName,
+      })
+      .select("*")
+      .single();
+
+    if (error) throw error;
+
+    return { success: true, comment: commentRowToComment(data as NoteCommentRow, share.note_owner_id) };
+  } catch (error) {
+    console.error("Failed to add share comment:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { success: false, error: `Failed to add comment: ${errorMessage}` };
+  }
+}
+
+// ===========================
+// OWNER OPERATIONS
+// ===========================
+
+/** Every comment readers have left on the user's shared note, settled ones included. */
+export async function getNoteComments(noteId: string): Promise<{
+  success: boolean;
+  comments?: NoteComment[];
+  error?: string;
+}> {
+  try {
+    const { supabase, userId } = await getAuthenticatedUser();
+
+    const { data: share } = await supabase
+      .from("shared_notes")
+      .select("id")
+      .eq("note_id", noteId)
+      .eq("note_owner_id", userId)
+      .maybeSingle();
+
+    if (!share) return { success: true, comments: [] };
+
+    const { data, error } = await supabase
+      .from("note_comments")
+      .select("*")
+      .eq("shared_note", share.id)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+
+    return {
+      success: true,
+      comments: ((data || []) as NoteCommentRow[]).map((row) => commentRowToComment(row, userId)),
+    };
+  } catch (error) {
+    console.error("Failed to get note comments:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { success: false, error: `Failed to load comments: ${errorMessage}` };
+  }
+}
+
+export async function replyToNoteComment(
+  commentId: string,
+  body: string,
+): Promise<{ success: boolean; comment?: NoteComment; error?: string }> {
+  try {
+    const { supabase, userId } = await getAuthenticatedUser();
+
+    const text = body.trim();
+    if (!text) return { success: false, error: "Reply can't be empty" };
+    if (text.length > COMMENT_LIMITS.body) {
+      return { success: false, error: `Replies are limited to ${COMMENT_LIMITS.body} characters` };
+    }
+
+    // RLS only returns comments on the user's own shares
+    const { data: parent } = await supabase
+      .from("note_comments")
+      .select("id, shared_note, parent_id")
+      .eq("id", commentId)
+      .maybeSingle();
+
+    if (!parent) return { success: false, error: "Comment not found" };
+
+    const { data, error } = await supabase
+      .from("note_comments")
+      .insert({
+        shared_note: parent.shared_note,
+        parent_id: parent.parent_id || parent.id,
+        kind: "comment",
+        body: text,
+        author_id: userId,
+        author_name: (await getUsername(userId)) || "Author",
+      })
+      .select("*")
+      .single();
+
+    if (error) throw error;
+    return { success: true, comment: commentRowToComment(data as NoteCommentRow, userId) };
+  } catch (error) {
+    console.error("Failed to reply to comment:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { success: false, error: `Failed to reply: ${errorMessage}` };
+  }
+}
+
+/**
+ * Resolve or reopen a thread, or mark a suggestion accepted / rejected. The
+ * note itself is edited by the caller before accepting.
+ */
+export async function setNoteCommentStatus(
+  commentId: string,
+  status: CommentStatus,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { supabase } = await getAuthenticatedUser();
+
+    if (!RESOLVABLE_STATUSES.includes(status)) {
+      return { success: false, error: "Invalid status" };
+    }
+
+    const { error } = await supabase
+      .from("note_comments")
+      .update({ status, updated_at: new Date().toISOString() })
+      .eq("id", commentId)
+      .is("parent_id", null);
+
+    if (error) throw error;
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to update comment status:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { success: false, error: `Failed to update comment: ${errorMessage}` };
+  }
+}
+
+export async function deleteNoteComment(
+  commentId: string,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { supabase } = await getAuthenticatedUser();
+
+    const { error } = await supabase.from("note_comments").delete().eq("id", commentId);
+
+    if (error) throw error;
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to delete comment:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { success: false, error: `Failed to delete comment: ${errorMessage}` };
+  }
+}
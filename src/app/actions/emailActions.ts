@@ -3,6 +3,7 @@
 import { z } from "zod";
 import { headers } from "next/headers";
 import { checkRateLimit } from "@/utils/rate-limit";
+import { EMAIL_CONFIG, escapeHtml, getResendApiKey, sendEmail } from "@/utils/email";
 
 // ===========================
 // VALIDATION SCHEMA
@@ -38,16 +39,6 @@ function getRandomErrorMessage(): string {
   return FUNNY_ERRORS[Math.floor(Math.random() * FUNNY_ERRORS.length)];
 }
 
-// ===========================
-// EMAIL CONFIGURATION
-// ===========================
-
-const EMAIL_CONFIG = {
-  FROM: "Just Noted <hello@justnoted.app>",
-  TO_ADMIN: "hello@justnoted.app",
-  NO_REPLY: "Just Noted <no-reply@justnoted.app>",
-} as const;
-
 // ===========================
 // EMAIL TEMPLATES (HTML)
 // ===========================
@@ -145,17 +136,6 @@ function getUserConfirmationHtml(email: string): string {
   `;
 }
 
-function escapeHtml(text: string): string {
-  const map: Record<string, string> = {
-    '&': '&amp;',
-    '<': '&lt;',
-    '>': '&gt;',
-    '"': '&quot;',
-    "'": '&#039;',
-  };
-  return text.replace(/[&<>"']/g, (char) => map[char]);
-}
-
 // ===========================
 // MAIN SUBMIT FUNCTION
 // ===========================
@@ -187,16 +167,13 @@ export async function submitContactForm(formData: FormData) {
     }
 
     // 3. Check API key
-    // Accept either RESEND_API_KEY or the shorter RESEND env var name.
-    const apiKey = process.env.RESEND_API_KEY || process.env.RESEND;
-    if (!apiKey) {
+    if (!getResendApiKey()) {
       console.error("RESEND_API_KEY / RESEND is missing");
       return { success: false, error: getRandomErrorMessage() };
     }
 
     // 4. Send admin notification (critical)
     const adminResult = await sendAdminEmail(
-      apiKey,
       validatedData.name || "Anonymous",
       validatedData.email,
       recaptchaResult.score,
@@ -209,7 +186,7 @@ export async function submitContactForm(formData: FormData) {
     }
 
     // 5. Send user confirmation (non-critical)
-    await sendUserEmail(apiKey, validatedData.email).catch((error) => {
+    await sendUserEmail(validatedData.email).catch((error) => {
       console.error("User confirmation email failed (non-critical):", error);
     });
 
@@ -230,66 +207,38 @@ export async function submitContactForm(formData: FormData) {
 // ===========================
 
 async function sendAdminEmail(
-  apiKey: string,
   name: string,
   email: string,
   score: number | undefined,
   message: string,
 ): Promise<{ success: boolean; error?: string }> {
-  try {
-    const response = await fetch("https://api.resend.com/emails", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        from: EMAIL_CONFIG.FROM,
-        to: [EMAIL_CONFIG.TO_ADMIN],
-        reply_to: email,
-        subject: `Just Noted Contact: ${name}`,
-        html: getAdminEmailHtml(name, email, score, message),
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      console.error("Resend API error:", errorData);
-      return {
-        success: false,
-        error: "Failed to send admin notification",
-      };
-    }
+  const result = await sendEmail({
+    to: EMAIL_CONFIG.TO_ADMIN,
+    replyTo: email,
+    subject: `Just Noted Contact: ${name}`,
+    html: getAdminEmailHtml(name, email, score, message),
+  });
 
-    return { success: true };
-  } catch (error) {
-    console.error("❌ Admin email failed:", error);
+  if (!result.success) {
     return {
       success: false,
       error: "Failed to send admin notification",
     };
   }
+
+  return { success: true };
 }
 
-async function sendUserEmail(apiKey: string, userEmail: string): Promise<void> {
-  const response = await fetch("https://api.resend.com/emails", {
-    method: "POST",
-    headers: {
-      "Authorization": `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      from: EMAIL_CONFIG.FROM,
-      to: [userEmail],
-      reply_to: "no-reply@justnoted.app",
-      subject: "Thank you for contacting Just Noted!",
-      html: getUserConfirmationHtml(userEmail),
-    }),
+async function sendUserEmail(userEmail: string): Promise<void> {
+  const result = await sendEmail({
+    to: userEmail,
+    replyTo: "no-reply@justnoted.app",
+    subject: "Thank you for contacting Just Noted!",
+    html: getUserConfirmationHtml(userEmail),
   });
 
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(`Resend API error: ${JSON.stringify(errorData)}`);
+  if (!result.success) {
+    throw new Error(result.error);
   }
 }
 
@@ -0,0 +1,139 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { getEmbeddingProvider } from "@/utils/ai/provider";
+import { consumeAIQuota } from "@/utils/ai/quota";
+import { indexNoteEmbeddings } from "@/utils/supabase/note-embeddings";
+import { stripMarkdownToText } from "@/utils/html-utils";
+import { isValidUUID } from "@/utils/validation";
+import type { NoteSearchHit, RelatedNote } from "@/types/combined-notes";
+
+// ===========================
+// AUTHENTICATION HELPER
+// ===========================
+async function getAuthenticatedUser() {
+  const supabase = await createClient();
+  const { data: authData, error } = await supabase.auth.getUser();
+
+  if (error || !authData.user?.id) {
+    throw new Error("User not authenticated");
+  }
+
+  return { supabase, userId: authData.user.id };
+}
+
+const RELATED_NOTES_LIMIT = 5;
+const MAX_MEANING_QUERY_LENGTH = 500;
+
+/**
+ * Cloud notes closest in meaning to this one. A note saved before
+ * embeddings were switched on is indexed here the first time it's opened.
+ * `enabled` is false when no embedding provider is configured.
+ */
+export async function getRelatedNotes(noteId: string) {
+  try {
+    if (!isValidUUID(noteId)) {
+      return { success: true, enabled: true, notes: [] as RelatedNote[] };
+    }
+
+    const embedder = getEmbeddingProvider();
+    if (!embedder) return { success: true, enabled: false, notes: [] as RelatedNote[] };
+
+    const { supabase, userId } = await getAuthenticatedUser();
+
+    const { count } = await supabase
+      .from("note_chunks")
+      .select("id", { count: "exact", head: true })
+      .eq("note_id", noteId)
+      .eq("author", userId);
+
+    if (!count) {
+      const { data: note } = await supabase
+        .from("notes")
+        .select("content, is_encrypted")
+        .eq("id", noteId)
+        .eq("author", userId)
+        .maybeSingle();
+
+      if (!note || note.is_encrypted || !note.content?.trim()) {
+        return { success: true, enabled: true, notes: [] as RelatedNote[] };
+      }
+      await indexNoteEmbeddings(supabase, userId, noteId, note.content, embedder);
+    }
+
+    const { data, error } = await supabase.rpc("related_notes", {
+      p_note_id: noteId,
+      p_limit: RELATED_NOTES_LIMIT,
+    });
+
+    if (error) throw error;
+
+    const notes: RelatedNote[] = ((data || []) as any[]).map((row) => ({
+      id: row.id,
+      title: row.title || "",
+      notebookId: row.notebook_id,
+      similarity: row.similarity,
+    }));
+
+    return { success: true, enabled: true, notes };
+  } catch (error) {
+    console.error("Failed to get related notes:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      error: `Failed to get related notes: ${errorMessage}`,
+    };
+  }
+}
+
+/**
+ * Cloud notes about the same thing as the query, whether or not they use
+ * its words. Each query costs one embedding, so it counts against the
+ * user's daily AI quota.
+ */
+export async function searchNotesByMeaning(query: string, limit: number = 20) {
+  try {
+    const trimmed = query.trim().slice(0, MAX_MEANING_QUERY_LENGTH);
+    if (!trimmed) return { success: true, results: [] as NoteSearchHit[] };
+
+    const embedder = getEmbeddingProvider();
+    if (!embedder) {
+      return { success: false, error: "Search by meaning isn't set up on this server" };
+    }
+
+    const { supabase, userId } = await getAuthenticatedUser();
+
+    const quota = await consumeAIQuota(supabase, userId, "search");
+    if (!quota.allowed) {
+      return { success: false, error: "Daily search-by-meaning limit reached. Try again tomorrow." };
+    }
+
+    const [embedding] = await embedder.embed([trimmed]);
+
+    const { data, error } = await supabase.rpc("search_notes_by_meaning", {
+      p_embedding: JSON.stringify(embedding),
+      p_limit: limit,
+    });
+
+    if (error) throw error;
+
+    const results: NoteSearchHit[] = ((data || []) as any[]).map((row) => ({
+      id: row.id,
+      title: row.title || "",
+      notebookId: row.notebook_id,
+      isPinned: !!row.is_pinned,
+      updatedAt: row.updated_at ? new Date(row.updated_at).getTime() : 0,
+      rank: row.similarity,
+      snippet: { text: stripMarkdownToText(row.snippet || ""), highlights: [] },
+    }));
+
+    return { success: true, results };
+  } catch (error) {
+    console.error("Failed to search notes by meaning:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      error: `Failed to search notes by meaning: ${errorMessage}`,
+    };
+  }
+}
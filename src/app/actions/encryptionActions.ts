@@ -0,0 +1,156 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import {
+  MAX_WRAPPED_KEYS,
+  NoteKeyring,
+  NoteKeyringRow,
+  keyringRowToKeyring,
+} from "@/types/encryption";
+
+// ===========================
+// AUTHENTICATION HELPER
+// ===========================
+async function getAuthenticatedUser() {
+  const supabase = await createClient();
+  const { data: authData, error } = await supabase.auth.getUser();
+
+  if (error || !authData.user?.id) {
+    throw new Error("User not authenticated");
+  }
+
+  return { supabase, userId: authData.user.id };
+}
+
+// Keys arrive already wrapped, so this only checks the shape is sane
+function isValidKeyring(keyring: NoteKeyring): boolean {
+  const isWrapped = (value: unknown) =>
+    typeof value === "string" && value.length > 0 && value.length <= 200;
+
+  return (
+    Number.isInteger(keyring.kdfIterations) &&
+    keyring.kdfIterations >= 100_000 &&
+    keyring.kdfIterations <= 10_000_000 &&
+    isWrapped(keyring.passphraseSalt) &&
+    isWrapped(keyring.recoverySalt) &&
+    Array.isArray(keyring.keys) &&
+    keyring.keys.length > 0 &&
+    keyring.keys.length <= MAX_WRAPPED_KEYS &&
+    keyring.keys.every(
+      (entry) =>
+        Number.isInteger(entry.version) &&
+        entry.version > 0 &&
+        isWrapped(entry.passphrase) &&
+        isWrapped(entry.recovery),
+    ) &&
+    keyring.keys.some((entry) => entry.version === keyring.currentVersion)
+  );
+}
+
+function keyringToRow(keyring: NoteKeyring) {
+  return {
+    kdf_iterations: keyring.kdfIterations,
+    passphrase_salt: keyring.passphraseSalt,
+    recovery_salt: keyring.recoverySalt,
+    current_version: keyring.currentVersion,
+    keys: keyring.keys.map(({ version, passphrase, recovery }) => ({
+      version,
+      passphrase,
+      recovery,
+    })),
+  };
+}
+
+// ===========================
+// KEYRING OPERATIONS
+// ===========================
+
+/** The user's wrapped note keys, or null if they haven't set up encryption. */
+export async function getNoteKeyring(): Promise<{
+  success: boolean;
+  keyring?: NoteKeyring | null;
+  error?: string;
+}> {
+  try {
+    const { supabase, userId } = await getAuthenticatedUser();
+
+    const { data, error } = await supabase
+      .from("note_encryption_keys")
+      .select("*")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return {
+      success: true,
+      keyring: data ? keyringRowToKeyring(data as NoteKeyringRow) : null,
+    };
+  } catch (error) {
+    console.error("Failed to get keyring:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { success: false, error: `Failed to load encryption keys: ${errorMessage}` };
+  }
+}
+
+export async function createNoteKeyring(
+  keyring: NoteKeyring,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { supabase, userId } = await getAuthenticatedUser();
+
+    if (!isValidKeyring(keyring)) {
+      return { success: false, error: "Invalid encryption keys" };
+    }
+
+    const { error } = await supabase
+      .from("note_encryption_keys")
+      .insert({ user_id: userId, ...keyringToRow(keyring) });
+
+    if (error) {
+      if (error.code === "23505") {
+        return {
+          success: false,
+          error: "Encryption is already set up for your account. Unlock it instead.",
+        };
+      }
+      throw error;
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to create keyring:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { success: false, error: `Failed to save encryption keys: ${errorMessage}` };
+  }
+}
+
+/** Replace the keyring after a passphrase change, recovery or key rotation. */
+export async function updateNoteKeyring(
+  keyring: NoteKeyring,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { supabase, userId } = await getAuthenticatedUser();
+
+    if (!isValidKeyring(keyring)) {
+      return { success: false, error: "Invalid encryption keys" };
+    }
+
+    const { data, error } = await supabase
+      .from("note_encryption_keys")
+      .update({ ...keyringToRow(keyring), updated_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .select("user_id");
+
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      return { success: false, error: "Encryption isn't set up for your account" };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to update keyring:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { success: false, error: `Failed to save encryption keys: ${errorMessage}` };
+  }
+}
@@ -1,6 +1,7 @@
 ﻿"use server";
 
 import redis from "@/utils/redis";
+import { deleteRedisVersions } from "@/utils/redis/note-versions";
 import { headers } from "next/headers";
 import { createClient } from "@/utils/supabase/server";
 // Note: revalidatePath removed - client-side state is managed by Zustand
@@ -352,6 +353,7 @@ async function handleRedisOperation(params: NoteOperationParams) {
         const updatedNotes = currentNotes.filter((note) => note.id !== noteId);
         await setNotesWithRetry(userId, updatedNotes);
         // revalidatePath("/"); // Removed - causes unnecessary re-renders during editing
+        await deleteRedisVersions(userId, noteId).catch(() => {});
 
         return {
           success: true,
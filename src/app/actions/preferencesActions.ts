@@ -0,0 +1,68 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { normalizePreferences, UserPreferences } from "@/types/preferences";
+
+async function getAuthenticatedUser() {
+  const supabase = await createClient();
+  const { data: authData, error } = await supabase.auth.getUser();
+  if (error || !authData.user?.id) {
+    throw new Error("User not authenticated");
+  }
+  return { supabase, userId: authData.user.id };
+}
+
+/**
+ * The user's stored preferences. `preferences` is null when nothing has
+ * been stored yet, so the client can seed the row from its local copy.
+ */
+export async function getPreferences(): Promise<{
+  success: boolean;
+  preferences?: Partial<UserPreferences> | null;
+  error?: string;
+}> {
+  try {
+    const { supabase, userId } = await getAuthenticatedUser();
+    const { data, error } = await supabase
+      .from("user_preferences")
+      .select("preferences")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return {
+      success: true,
+      preferences: data ? normalizePreferences(data.preferences) : null,
+    };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+}
+
+/**
+ * Merge changed settings into the stored ones. Only the keys in `changes`
+ * are written, so two devices changing different settings don't clobber
+ * each other.
+ */
+export async function updatePreferences(changes: Partial<UserPreferences>): Promise<{
+  success: boolean;
+  preferences?: Partial<UserPreferences>;
+  error?: string;
+}> {
+  try {
+    const { supabase } = await getAuthenticatedUser();
+
+    const patch = normalizePreferences(changes);
+    if (Object.keys(patch).length === 0) {
+      return { success: false, error: "No valid preferences to save" };
+    }
+
+    // Merged in the database so concurrent saves can't overwrite each other
+    const { data, error } = await supabase.rpc("merge_user_preferences", { p_patch: patch });
+
+    if (error) throw error;
+    return { success: true, preferences: normalizePreferences(data) };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+}
@@ -0,0 +1,406 @@
+"use server";
+
+import bcrypt from "bcryptjs";
+import { createClient, createServiceRoleClient } from "@/utils/supabase/server";
+import {
+  CollectionRow,
+  NotebookPublication,
+  PublishNotebookInput,
+  PublishedPage,
+  PublishedSection,
+  PublishedSite,
+  flattenPublishedPages,
+} from "@/types/publishing";
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+// ===========================
+// AUTHENTICATION HELPER
+// ===========================
+async function getAuthenticatedUser() {
+  const supabase = await createClient();
+  const { data: authData, error } = await supabase.auth.getUser();
+
+  if (error || !authData.user?.id) {
+    throw new Error("User not authenticated");
+  }
+
+  return { supabase, userId: authData.user.id };
+}
+
+// ===========================
+// UTILITIES
+// ===========================
+
+// Same alphabet and length as single-note share links
+function generateShortcode(length = 9): string {
+  const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+  const randomArray = new Uint8Array(length);
+  crypto.getRandomValues(randomArray);
+
+  let result = "";
+  for (let i = 0; i < length; i++) {
+    result += chars.charAt(randomArray[i] % chars.length);
+  }
+  return result;
+}
+
+/**
+ * The notebook and its visible sub-notebooks, each with its publishable
+ * notes in note order. Private, encrypted and trashed notes never appear,
+ * and neither do hidden notebooks - a notebook hidden after publishing
+ * simply stops being found.
+ */
+async function loadSections(
+  client: SupabaseClient,
+  ownerId: string,
+  notebookId: string,
+): Promise<PublishedSection[] | null> {
+  const { data: notebook } = await client
+    .from("notebooks")
+    .select("id, name")
+    .eq("id", notebookId)
+    .eq("owner", ownerId)
+    .eq("is_hidden", false)
+    .maybeSingle();
+
+  if (!notebook) return null;
+
+  const { data: children } = await client
+    .from("notebooks")
+    .select("id, name")
+    .eq("parent_id", notebookId)
+    .eq("owner", ownerId)
+    .eq("is_hidden", false)
+    .order("display_order", { ascending: true });
+
+  const sections: PublishedSection[] = [notebook, ...(children || [])].map((nb) => ({
+    id: nb.id,
+    name: nb.name,
+    pages: [],
+  }));
+
+  const { data: notes, error } = await client
+    .from("notes")
+    .select("id, title, notebook_id")
+    .eq("author", ownerId)
+    .in("notebook_id", sections.map((section) => section.id))
+    .is("deleted_at", null)
+    .eq("is_private", false)
+    .eq("is_encrypted", false)
+    .order("order", { ascending: true });
+
+  if (error) throw error;
+
+  const byId = new Map(sections.map((section) => [section.id, section]));
+  for (const note of notes || []) {
+    byId.get(note.notebook_id!)?.pages.push({ id: note.id, title: note.title || "Untitled" });
+  }
+
+  return sections;
+}
+
+/**
+ * Look up a published notebook and check it may be viewed: not expired, and
+ * the password (if any) matches. Mirrors getByShortcode for single notes.
+ */
+async function resolveCollection(
+  client: SupabaseClient,
+  shortcode: string,
+  password: string | null | undefined,
+): Promise<
+  | { collection: CollectionRow; error?: undefined; requiresPassword?: undefined }
+  | { collection?: undefined; error: string; requiresPassword?: boolean }
+> {
+  const { data } = await client
+    .from("collections")
+    .select("*")
+    .eq("shortcode", shortcode)
+    .not("notebook_id", "is", null)
+    .maybeSingle();
+
+  const collection = data as CollectionRow | null;
+  if (!collection || !collection.owner) {
+    return { error: "Published notebook not found" };
+  }
+
+  if (collection.expires_at && new Date(collection.expires_at) < new Date()) {
+    return { error: "This shared link has expired" };
+  }
+
+  if (collection.password_hash) {
+    if (!password) {
+      return { error: "PASSWORD_REQUIRED", requiresPassword: true };
+    }
+    if (!(await bcrypt.compare(password, collection.password_hash))) {
+      return { error: "Incorrect password", requiresPassword: true };
+    }
+  }
+
+  return { collection };
+}
+
+async function recordView(client: SupabaseClient, collectionId: string, noteId: string | null) {
+  await client
+    .rpc("record_collection_view", { p_collection_id: collectionId, p_note_id: noteId })
+    .then(undefined, (e: unknown) => console.error("record_collection_view failed:", e));
+}
+
+// ===========================
+// OWNER OPERATIONS
+// ===========================
+
+export async function getNotebookPublication(notebookId: string): Promise<{
+  success: boolean;
+  publication?: NotebookPublication | null;
+  error?: string;
+}> {
+  try {
+    const { supabase, userId } = await getAuthenticatedUser();
+
+    const { data, error } = await supabase
+      .from("collections")
+      .select("*")
+      .eq("notebook_id", notebookId)
+      .eq("owner", userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return { success: true, publication: null };
+
+    const collection = data as CollectionRow;
+    const { data: pages } = await supabase
+      .from("collections_notes")
+      .select("note_id, view_count, notes(title)")
+      .eq("collection_id", collection.id)
+      .order("view_count", { ascending: false });
+
+    return {
+      success: true,
+      publication: {
+        shortcode: collection.shortcode!,
+        isAnonymous: collection.is_anonymous,
+        hasPassword: !!collection.password_hash,
+        expiresAt: collection.expires_at,
+        viewCount: collection.view_count,
+        pageViews: (pages || [])
+          .filter((page) => page.note_id)
+          .map((page) => ({
+            noteId: page.note_id!,
+            title: (page.notes as unknown as { title: string | null } | null)?.title || "Untitled",
+            viewCount: page.view_count,
+          })),
+        createdAt: collection.created_at,
+      },
+    };
+  } catch (error) {
+    console.error("Failed to get notebook publication:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { success: false, error: `Failed to load publishing settings: ${errorMessage}` };
+  }
+}
+
+/** Publish a notebook, or update the options of one that already is. */
+export async function publishNotebook(
+  notebookId: string,
+  input: PublishNotebookInput,
+): Promise<{ success: boolean; shortcode?: string; error?: string }> {
+  try {
+    const { supabase, userId } = await getAuthenticatedUser();
+
+    const { data: notebook } = await supabase
+      .from("notebooks")
+      .select("id, name, is_hidden")
+      .eq("id", notebookId)
+      .eq("owner", userId)
+      .maybeSingle();
+
+    if (!notebook) {
+      return { success: false, error: "Notebook not found" };
+    }
+    if (notebook.is_hidden) {
+      return { success: false, error: "Hidden notebooks can't be published" };
+    }
+
+    const options: Record<string, unknown> = {
+      name: notebook.name,
+      is_anonymous: input.isAnonymous,
+      expires_at: input.expiresAt,
+      updated_at: new Date().toISOString(),
+    };
+    if (input.password !== undefined) {
+      options.password_hash = input.password ? await bcrypt.hash(input.password, 10) : null;
+    }
+
+    const { data: existing } = await supabase
+      .from("collections")
+      .select("id, shortcode")
+      .eq("notebook_id", notebookId)
+      .eq("owner", userId)
+      .maybeSingle();
+
+    if (existing) {
+      const { error } = await supabase
+        .from("collections")
+        .update(options)
+        .eq("id", existing.id)
+        .eq("owner", userId);
+
+      if (error) throw error;
+      return { success: true, shortcode: existing.shortcode! };
+    }
+
+    const shortcode = generateShortcode();
+    const { error } = await supabase.from("collections").insert({
+      ...options,
+      owner: userId,
+      notebook_id: notebookId,
+      shortcode,
+    });
+
+    if (error) throw error;
+    return { success: true, shortcode };
+  } catch (error) {
+    console.error("Failed to publish notebook:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { success: false, error: `Failed to publish notebook: ${errorMessage}` };
+  }
+}
+
+export async function unpublishNotebook(
+  notebookId: string,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { supabase, userId } = await getAuthenticatedUser();
+
+    const { error } = await supabase
+      .from("collections")
+      .delete()
+      .eq("notebook_id", notebookId)
+      .eq("owner", userId);
+
+    if (error) throw error;
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to unpublish notebook:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { success: false, error: `Failed to unpublish notebook: ${errorMessage}` };
+  }
+}
+
+// ===========================
+// VIEWER OPERATIONS
+// ===========================
+
+/**
+ * A published notebook's contents. Viewers aren't the owner, so this reads
+ * with the service role once the link has been checked.
+ */
+export async function getPublishedSite(
+  shortcode: string,
+  { password = null, countView = true }: { password?: string | null; countView?: boolean } = {},
+): Promise<{
+  success: boolean;
+  site?: PublishedSite;
+  error?: string;
+  requiresPassword?: boolean;
+}> {
+  try {
+    const client = createServiceRoleClient() as SupabaseClient;
+    const resolved = await resolveCollection(client, shortcode, password);
+    if (!resolved.collection) {
+      return { success: false, error: resolved.error, requiresPassword: resolved.requiresPassword };
+    }
+
+    const { collection } = resolved;
+    const sections = await loadSections(client, collection.owner!, collection.notebook_id!);
+    if (!sections) {
+      return { success: false, error: "Published notebook not found" };
+    }
+
+    let author = { username: "Anonymous", avatar_url: null as string | null };
+    if (!collection.is_anonymous) {
+      const { data } = await client
+        .from("authors")
+        .select("username, avatar_url")
+        .eq("id", collection.owner!)
+        .single();
+      author = { username: data?.username || "Unknown", avatar_url: data?.avatar_url ?? null };
+    }
+
+    if (countView) await recordView(client, collection.id, null);
+
+    return {
+      success: true,
+      site: {
+        shortcode,
+        name: sections[0].name,
+        authorUsername: author.username,
+        authorAvatar: author.avatar_url,
+        isAnonymous: collection.is_anonymous,
+        sections,
+      },
+    };
+  } catch (error) {
+    console.error("Failed to get published notebook:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+/** One page of a published notebook, with its neighbours in reading order. */
+export async function getPublishedPage(
+  shortcode: string,
+  noteId: string,
+  { password = null, countView = true }: { password?: string | null; countView?: boolean } = {},
+): Promise<{
+  success: boolean;
+  page?: PublishedPage;
+  error?: string;
+  requiresPassword?: boolean;
+}> {
+  try {
+    const client = createServiceRoleClient() as SupabaseClient;
+    const resolved = await resolveCollection(client, shortcode, password);
+    if (!resolved.collection) {
+      return { success: false, error: resolved.error, requiresPassword: resolved.requiresPassword };
+    }
+
+    const { collection } = resolved;
+    const sections = await loadSections(client, collection.owner!, collection.notebook_id!);
+    const pages = sections ? flattenPublishedPages(sections) : [];
+    const index = pages.findIndex((page) => page.id === noteId);
+
+    // Only notes that are part of the site can be read through it
+    if (index === -1) {
+      return { success: false, error: "Page not found" };
+    }
+
+    const { data: note } = await client
+      .from("notes")
+      .select("id, title, content, content_format, updated_at")
+      .eq("id", noteId)
+      .single();
+
+    if (!note) {
+      return { success: false, error: "Page not found" };
+    }
+
+    if (countView) await recordView(client, collection.id, noteId);
+
+    return {
+      success: true,
+      page: {
+        id: note.id,
+        title: note.title || "Untitled",
+        content: note.content || "",
+        contentFormat: (note.content_format as "html" | "markdown" | null) || undefined,
+        updatedAt: note.updated_at || collection.updated_at,
+        prev: pages[index - 1] || null,
+        next: pages[index + 1] || null,
+      },
+    };
+  } catch (error) {
+    console.error("Failed to get published page:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
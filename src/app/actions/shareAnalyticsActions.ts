@@ -0,0 +1,95 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import {
+  SHARE_ANALYTICS_RANGES,
+  ShareAnalyticsRange,
+  ShareAnalyticsSummary,
+  ShareVisit,
+  ShareVisitAnalytics,
+  summarizeShareVisits,
+} from "@/types/share-analytics";
+
+// ===========================
+// AUTHENTICATION HELPER
+// ===========================
+async function getAuthenticatedUser() {
+  const supabase = await createClient();
+  const { data: authData, error } = await supabase.auth.getUser();
+
+  if (error || !authData.user?.id) {
+    throw new Error("User not authenticated");
+  }
+
+  return { supabase, userId: authData.user.id };
+}
+
+// Supabase caps a single select at 1000 rows
+const PAGE_SIZE = 1000;
+
+// ===========================
+// ANALYTICS OPERATIONS
+// ===========================
+
+/** Daily views, readers, referrers and read depth for one of the user's shares. */
+export async function getShareAnalytics(
+  sharedNoteId: string,
+  rangeDays: ShareAnalyticsRange = 30,
+): Promise<{ success: boolean; summary?: ShareAnalyticsSummary; error?: string }> {
+  try {
+    const { supabase, userId } = await getAuthenticatedUser();
+
+    if (!SHARE_ANALYTICS_RANGES.includes(rangeDays)) {
+      return { success: false, error: "Invalid range" };
+    }
+
+    const { data: share } = await supabase
+      .from("shared_notes")
+      .select("id")
+      .eq("id", sharedNoteId)
+      .eq("note_owner_id", userId)
+      .maybeSingle();
+
+    if (!share) {
+      return { success: false, error: "Shared note not found" };
+    }
+
+    const now = new Date();
+    const since = new Date(now.getTime() - (rangeDays - 1) * 24 * 60 * 60 * 1000);
+    since.setUTCHours(0, 0, 0, 0);
+
+    const visits: ShareVisit[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("shared_notes_analytics")
+        .select("id, analytics, created_at")
+        .eq("shared_note", sharedNoteId)
+        .gte("created_at", since.toISOString())
+        .order("created_at", { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      for (const row of data || []) {
+        const analytics = row.analytics as ShareVisitAnalytics | null;
+        if (!analytics || !row.created_at) continue;
+        visits.push({
+          id: row.id,
+          createdAt: new Date(row.created_at).toISOString(),
+          visitor: analytics.visitor,
+          referrer: analytics.referrer ?? null,
+          completion: analytics.completion || 0,
+          seconds: analytics.seconds || 0,
+        });
+      }
+
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return { success: true, summary: summarizeShareVisits(visits, rangeDays, now) };
+  } catch (error) {
+    console.error("Failed to get share analytics:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { success: false, error: `Failed to load analytics: ${errorMessage}` };
+  }
+}
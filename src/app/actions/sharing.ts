@@ -3,6 +3,12 @@
 import { revalidatePath } from "next/cache";
 import { createClient, createServiceRoleClient } from "@/utils/supabase/server";
 import { NOTES_KEY_PREFIX } from "@/constants/app";
+import { isEncryptedContent } from "@/types/encryption";
+import { recordShareVisit } from "@/utils/share-analytics";
+import { checkShareAccess } from "@/utils/share-access";
+import { createMagicLink, sendShareInviteEmail } from "@/utils/share-invites";
+import { checkRateLimit } from "@/utils/rate-limit";
+import { isValidEmail } from "@/utils/validation";
 
 // ===========================
 // TYPES
@@ -14,11 +20,16 @@ type SharingOperationParams =
       noteId: string;
       isPublic: boolean;
       username?: string | null;
+      /** Invite a reader by email address instead of username */
+      email?: string | null;
       currentUserId: string;
       storage: "redis" | "supabase";
       isAnonymous?: boolean;
       password?: string | null;
       expiresAt?: string | null;
+      /** Left as they are when omitted */
+      allowComments?: boolean;
+      allowAnonymousComments?: boolean;
     }
   | { operation: "getUsers"; noteId: string; currentUserId: string }
   | {
@@ -26,15 +37,23 @@ type SharingOperationParams =
       shortcode: string;
       currentUsername: string | null;
       password?: string | null;
+      /** Set by the viewer page (not metadata lookups) to log the visit */
+      trackVisit?: { referrer: string | null };
     }
   | {
       operation: "removeUser";
       noteId: string;
+      /** Username, or the email address of an invited reader */
       username: string;
       currentUserId: string;
     }
   | { operation: "stopSharing"; noteId: string; currentUserId: string };
 
+export interface ShareInvite {
+  email: string;
+  invitedAt: string | null;
+}
+
 interface NormalizedNote {
   id: string;
   title: string;
@@ -56,13 +75,6 @@ async function hashPassword(password: string): Promise<string> {
   return bcrypt.hash(password, 10);
 }
 
-async function verifyPassword(
-  password: string,
-  hash: string,
-): Promise<boolean> {
-  return bcrypt.compare(password, hash);
-}
-
 function generateShortcode(length = 9): string {
   const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
   const randomArray = new Uint8Array(length);
@@ -75,6 +87,9 @@ function generateShortcode(length = 9): string {
   return result;
 }
 
+const INVITE_RATE_LIMIT = 20;
+const INVITE_RATE_WINDOW_MS = 60 * 60 * 1000;
+
 // ===========================
 // NOTE VERIFICATION HELPERS
 // ===========================
@@ -94,6 +109,20 @@ async function verifySupabaseNoteOwnership(
   return !!data;
 }
 
+// Only the owner's browser can read an encrypted note, so there's nothing to share
+async function isEncryptedSupabaseNote(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  noteId: string,
+): Promise<boolean> {
+  const { data } = await supabase
+    .from("notes")
+    .select("is_encrypted")
+    .eq("id", noteId)
+    .single();
+
+  return !!data?.is_encrypted;
+}
+
 async function verifyRedisNoteOwnership(
   noteId: string,
   currentUserId: string,
@@ -214,11 +243,14 @@ export async function sharingOperation(params: SharingOperationParams) {
           noteId,
           isPublic,
           username = null,
+          email = null,
           currentUserId,
           storage = "supabase",
           isAnonymous = false,
           password = null,
           expiresAt = null,
+          allowComments,
+          allowAnonymousComments,
         } = params;
 
         // Use server-side auth for ownership — more reliable than client-passed ID
@@ -236,6 +268,13 @@ export async function sharingOperation(params: SharingOperationParams) {
           };
         }
 
+        if (storage === "supabase" && (await isEncryptedSupabaseNote(supabase, noteId))) {
+          return {
+            success: false,
+            error: "Encrypted notes can't be shared. Make the note public first.",
+          };
+        }
+
         // Check existing shares
         const { data: existingShares } = await supabase
           .from("shared_notes")
@@ -263,6 +302,8 @@ export async function sharingOperation(params: SharingOperationParams) {
               is_anonymous: isAnonymous,
               password_hash: passwordHash,
               expires_at: expiresAt,
+              allow_comments: allowComments ?? false,
+              allow_anonymous_comments: allowAnonymousComments ?? false,
             } as any)
             .select("id")
             .single();
@@ -294,6 +335,10 @@ export async function sharingOperation(params: SharingOperationParams) {
               ? await hashPassword(password)
               : null;
           }
+          if (allowComments !== undefined) updateData.allow_comments = allowComments;
+          if (allowAnonymousComments !== undefined) {
+            updateData.allow_anonymous_comments = allowAnonymousComments;
+          }
 
           const { error: updateError } = await supabase
             .from("shared_notes")
@@ -348,6 +393,88 @@ export async function sharingOperation(params: SharingOperationParams) {
           }
         }
 
+        // Invite by email address. The invitee gets a sign-in link that opens
+        // the note; they stay pending until they first open it.
+        if (!isPublic && email) {
+          const address = email.trim().toLowerCase();
+          if (!isValidEmail(address)) {
+            return { success: false, error: "Enter a valid email address" };
+          }
+
+          const rl = await checkRateLimit(ownerId, "share-invite", INVITE_RATE_LIMIT, INVITE_RATE_WINDOW_MS);
+          if (!rl.allowed) {
+            return { success: false, error: "Too many invites. Please try again later." };
+          }
+
+          const { data: existingInvite } = await supabase
+            .from("shared_notes_readers")
+            .select("id")
+            .eq("shared_note", shareId)
+            .eq("reader_email", address)
+            .maybeSingle();
+
+          if (existingInvite) {
+            return { success: true, shortcode, message: "Already invited" };
+          }
+
+          const magicLink = await createMagicLink(address, `/n/${shortcode}`);
+          if ("error" in magicLink) {
+            return { success: false, error: magicLink.error };
+          }
+          if (magicLink.userId === ownerId) {
+            return { success: false, error: "That's your own email address" };
+          }
+
+          const { data: existingReader } = await supabase
+            .from("shared_notes_readers")
+            .select("id")
+            .eq("shared_note", shareId)
+            .eq("reader_id", magicLink.userId)
+            .maybeSingle();
+
+          if (existingReader) {
+            return { success: true, shortcode, message: "User already has access" };
+          }
+
+          const serviceClient = createServiceRoleClient();
+          const { data: invitee } = await serviceClient
+            .from("authors")
+            .select("username")
+            .eq("id", magicLink.userId)
+            .maybeSingle();
+
+          const { data: invite, error: inviteError } = await supabase
+            .from("shared_notes_readers")
+            .insert({
+              shared_note: shareId,
+              reader_username: invitee?.username || null,
+              reader_id: magicLink.userId,
+              reader_email: address,
+              invited_at: new Date().toISOString(),
+            })
+            .select("id")
+            .single();
+
+          if (inviteError || !invite) {
+            return { success: false, error: "Failed to invite reader" };
+          }
+
+          const ownerName = isAnonymous
+            ? "Someone"
+            : (await fetchAuthorInfo(serviceClient, ownerId)).username;
+          const sent = await sendShareInviteEmail({
+            to: address,
+            ownerName,
+            share: { note_id: noteId, storage, shortcode },
+            signInLink: magicLink.link,
+          });
+
+          if (!sent.success) {
+            await supabase.from("shared_notes_readers").delete().eq("id", invite.id);
+            return { success: false, error: "Failed to send the invite email" };
+          }
+        }
+
         revalidatePath("/");
         return { success: true, shortcode };
       }
@@ -357,7 +484,7 @@ export async function sharingOperation(params: SharingOperationParams) {
 
         const { data: shareData } = await supabase
           .from("shared_notes")
-          .select("id, shortcode, is_public, storage, is_anonymous, password_hash, expires_at, view_count")
+          .select("id, shortcode, is_public, storage, is_anonymous, password_hash, expires_at, view_count, allow_comments, allow_anonymous_comments")
           .eq("note_id", noteId)
           .eq("note_owner_id", authenticatedUserId || currentUserId)
           .single();
@@ -373,16 +500,28 @@ export async function sharingOperation(params: SharingOperationParams) {
             hasPassword: false,
             expiresAt: null,
             viewCount: 0,
+            allowComments: false,
+            allowAnonymousComments: false,
+            invites: [],
           };
         }
 
         const { data: readersData } = await supabase
           .from("shared_notes_readers")
-          .select("reader_username")
+          .select("reader_username, reader_email, invited_at, first_viewed_at")
           .eq("shared_note", shareData.id);
 
-        const users =
-          readersData?.map((reader) => reader.reader_username) || [];
+        // Email invites stay pending until the reader first opens the note
+        const isPending = (reader: { reader_email: string | null; first_viewed_at: string | null }) =>
+          !!reader.reader_email && !reader.first_viewed_at;
+
+        const users = (readersData || [])
+          .filter((reader) => !isPending(reader))
+          .map((reader) => reader.reader_username || reader.reader_email || "")
+          .filter(Boolean);
+        const invites: ShareInvite[] = (readersData || [])
+          .filter(isPending)
+          .map((reader) => ({ email: reader.reader_email!, invitedAt: reader.invited_at }));
 
         return {
           success: true,
@@ -394,94 +533,20 @@ export async function sharingOperation(params: SharingOperationParams) {
           hasPassword: !!(shareData as any).password_hash,
           expiresAt: (shareData as any).expires_at,
           viewCount: (shareData as any).view_count || 0,
+          allowComments: (shareData as any).allow_comments || false,
+          allowAnonymousComments: (shareData as any).allow_anonymous_comments || false,
+          invites,
         };
       }
 
       case "getByShortcode": {
-        const { shortcode, password: providedPassword = null } = params;
-
-        // Use service role — viewers aren't the owner, RLS would block
-        const viewClient = createServiceRoleClient();
-        const { data: shareData, error: shareError } = await viewClient
-          .from("shared_notes")
-          .select("*")
-          .eq("shortcode", shortcode)
-          .single();
-
-        if (shareError || !shareData) {
-          return { success: false, error: "Shared note not found" };
-        }
-
-        // Check expiration
-        if ((shareData as any).expires_at) {
-          const expiresAt = new Date((shareData as any).expires_at);
-          if (expiresAt < new Date()) {
-            return { success: false, error: "This shared link has expired" };
-          }
-        }
-
-        // Check password
-        if ((shareData as any).password_hash) {
-          if (!providedPassword) {
-            return {
-              success: false,
-              error: "PASSWORD_REQUIRED",
-              requiresPassword: true,
-            };
-          }
-          const passwordValid = await verifyPassword(
-            providedPassword,
-            (shareData as any).password_hash,
-          );
-          if (!passwordValid) {
-            return {
-              success: false,
-              error: "Incorrect password",
-              requiresPassword: true,
-            };
-          }
-        }
-
-        // Check access permissions.
-        // Public shares are open to anyone with the link. Private (specific-user)
-        // shares are gated on the VIEWER'S authenticated identity, derived
-        // server-side — never on a client-supplied username, which could be forged.
-        if (!shareData.is_public) {
-          if (!authenticatedUserId) {
-            return {
-              success: false,
-              error: "You need to sign in to access this shared note",
-            };
-          }
-
-          const { data: viewerAuthor } = await viewClient
-            .from("authors")
-            .select("username")
-            .eq("id", authenticatedUserId)
-            .single();
-
-          const viewerUsername = viewerAuthor?.username;
-          if (!viewerUsername) {
-            return {
-              success: false,
-              error: "You don't have access to this note",
-            };
-          }
+        const { shortcode, password: providedPassword = null, trackVisit } = params;
 
-          const { data: readerData } = await viewClient
-            .from("shared_notes_readers")
-            .select("id")
-            .eq("shared_note", shareData.id)
-            .eq("reader_username", viewerUsername)
-            .single();
-
-          if (!readerData) {
-            return {
-              success: false,
-              error: "You don't have access to this note",
-            };
-          }
+        const access = await checkShareAccess(shortcode, providedPassword, authenticatedUserId);
+        if (!access.share) {
+          return { success: false, error: access.error, requiresPassword: access.requiresPassword };
         }
+        const shareData = access.share;
 
         const storage = shareData.storage || "supabase";
         // Use service role to bypass RLS — we've already verified access above
@@ -495,7 +560,12 @@ export async function sharingOperation(params: SharingOperationParams) {
           return { success: false, error: noteResult.error };
         }
 
-        const isAnonymous = (shareData as any).is_anonymous || false;
+        // Shared before it was encrypted — the server can no longer read it
+        if (isEncryptedContent(noteResult.note.content)) {
+          return { success: false, error: "This note is no longer shared" };
+        }
+
+        const isAnonymous = shareData.is_anonymous || false;
 
         let authorInfo: { username: string; avatar_url: string | null } = {
           username: "Anonymous",
@@ -507,12 +577,19 @@ export async function sharingOperation(params: SharingOperationParams) {
 
         // Fire-and-forget, but await so the promise can't reject unhandled and
         // the increment actually persists before the response returns.
-        await viewClient
+        await serviceClient
           .rpc("increment_view_count", { shortcode_param: shortcode })
           .then(undefined, (e: unknown) => console.error("increment_view_count failed:", e));
 
+        // The owner checking their own link isn't a reader
+        const visitId =
+          trackVisit && authenticatedUserId !== shareData.note_owner_id
+            ? await recordShareVisit(shareData.id, trackVisit.referrer)
+            : null;
+
         return {
           success: true,
+          visitId,
           note: {
             ...noteResult.note,
             authorUsername: authorInfo.username,
@@ -525,6 +602,8 @@ export async function sharingOperation(params: SharingOperationParams) {
               storage: shareData.storage,
               createdAt: shareData.created_at,
               viewCount: shareData.view_count || 0,
+              allowComments: shareData.allow_comments,
+              allowAnonymousComments: shareData.allow_anonymous_comments,
             },
           },
         };
@@ -547,11 +626,15 @@ export async function sharingOperation(params: SharingOperationParams) {
           };
         }
 
+        // Usernames can't contain "@", so anything that does is an invite address
         const { error } = await supabase
           .from("shared_notes_readers")
           .delete()
           .eq("shared_note", shareData.id)
-          .eq("reader_username", username);
+          .eq(
+            username.includes("@") ? "reader_email" : "reader_username",
+            username.includes("@") ? username.trim().toLowerCase() : username,
+          );
 
         if (error) {
           return { success: false, error: "Failed to remove user access" };
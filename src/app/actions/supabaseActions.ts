@@ -3,10 +3,18 @@
 import { createClient } from "@/utils/supabase/server";
 import {
   CombinedNote,
+  NoteSearchHit,
   combiToSupabase,
   supabaseToCombi,
 } from "@/types/combined-notes";
 import { validateGoalType, validateNoteTitle } from "@/utils/validation";
+import { parseHeadline } from "@/utils/search-index";
+import { noteLinkHref, renameNoteLinks } from "@/utils/note-links";
+import { removeOrphanedAttachments } from "@/utils/supabase/attachments";
+import { isEncryptedContent } from "@/types/encryption";
+import { after } from "next/server";
+import { getEmbeddingProvider } from "@/utils/ai/provider";
+import { clearNoteEmbeddings, indexNoteEmbeddings } from "@/utils/supabase/note-embeddings";
 
 // ===========================
 // AUTHENTICATION HELPER
@@ -70,11 +78,22 @@ export const updateNote = async (
 ) => {
   try {
     const { supabase, userId } = await getAuthenticatedUser();
+    const isEncrypted = isEncryptedContent(content);
+
+    const { data: previous } = isEncrypted
+      ? await supabase
+          .from("notes")
+          .select("is_encrypted")
+          .eq("id", noteId)
+          .eq("author", userId)
+          .maybeSingle()
+      : { data: null };
 
     const { error } = await supabase
       .from("notes")
       .update({
         content,
+        is_encrypted: isEncrypted,
         goal: wordCountGoal || 0,
         goal_type: validateGoalType(wordCountGoalType),
         updated_at: new Date().toISOString(),
@@ -87,6 +106,26 @@ export const updateNote = async (
       throw error;
     }
 
+    // Plaintext snapshots would outlive the note being encrypted
+    if (previous && !previous.is_encrypted) {
+      await supabase
+        .from("note_versions")
+        .delete()
+        .eq("note_id", noteId)
+        .eq("author", userId);
+      await clearNoteEmbeddings(supabase, userId, noteId);
+    }
+
+    // Re-embed changed passages once the response has gone
+    const embedder = isEncrypted ? null : getEmbeddingProvider();
+    if (embedder) {
+      after(() =>
+        indexNoteEmbeddings(supabase, userId, noteId, content, embedder).catch((error) =>
+          console.error("Failed to index note embeddings:", error),
+        ),
+      );
+    }
+
     return { success: true };
   } catch (error) {
     console.error("Failed to update note:", error);
@@ -98,6 +137,42 @@ export const updateNote = async (
   }
 };
 
+/**
+ * Rewrite the text of [[note links]] in the user's other notes so they keep
+ * reading as the target's title. Failures are logged, not surfaced: the
+ * links still resolve by id.
+ */
+async function renameLinksToNote(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  userId: string,
+  noteId: string,
+  oldTitle: string,
+  newTitle: string,
+) {
+  try {
+    const { data: linking, error } = await supabase
+      .from("notes")
+      .select("id, content")
+      .eq("author", userId)
+      .neq("id", noteId)
+      .like("content", `%${noteLinkHref(noteId)}%`);
+
+    if (error) throw error;
+
+    for (const row of linking || []) {
+      const content = renameNoteLinks(row.content || "", noteId, oldTitle, newTitle);
+      if (content === row.content) continue;
+      await supabase
+        .from("notes")
+        .update({ content, updated_at: new Date().toISOString() })
+        .eq("id", row.id)
+        .eq("author", userId);
+    }
+  } catch (error) {
+    console.error("Failed to update links to renamed note:", error);
+  }
+}
+
 export const updateNoteTitle = async (noteId: string, title: string) => {
   try {
     if (!validateNoteTitle(title)) {
@@ -109,6 +184,13 @@ export const updateNoteTitle = async (noteId: string, title: string) => {
 
     const { supabase, userId } = await getAuthenticatedUser();
 
+    const { data: existing } = await supabase
+      .from("notes")
+      .select("title")
+      .eq("id", noteId)
+      .eq("author", userId)
+      .maybeSingle();
+
     const { error } = await supabase
       .from("notes")
       .update({
@@ -120,6 +202,10 @@ export const updateNoteTitle = async (noteId: string, title: string) => {
 
     if (error) throw error;
 
+    if (existing?.title && existing.title !== title.trim()) {
+      await renameLinksToNote(supabase, userId, noteId, existing.title, title.trim());
+    }
+
     return { success: true };
   } catch (error) {
     console.error("Failed to update note title:", error);
@@ -352,6 +438,13 @@ export const permanentlyDeleteNote = async (noteId: string) => {
   try {
     const { supabase, userId } = await getAuthenticatedUser();
 
+    // Looked up first: deleting the note clears their note_id
+    const { data: attachments } = await supabase
+      .from("note_attachments")
+      .select("id, path")
+      .eq("note_id", noteId)
+      .eq("owner", userId);
+
     const { error } = await supabase
       .from("notes")
       .delete()
@@ -359,6 +452,15 @@ export const permanentlyDeleteNote = async (noteId: string) => {
       .eq("author", userId);
 
     if (error) throw error;
+
+    if (attachments && attachments.length > 0) {
+      try {
+        await removeOrphanedAttachments(supabase, userId, attachments);
+      } catch (gcError) {
+        // The note is gone either way; leftovers only cost storage
+        console.error("Failed to remove note attachments:", gcError);
+      }
+    }
     return { success: true };
   } catch (error) {
     console.error("Failed to permanently delete note:", error);
@@ -391,7 +493,7 @@ export const getNoteMetadataByUserId = async () => {
 
     const { data, error } = await supabase
       .from("notes")
-      .select("id, title, author, is_pinned, is_private, is_collapsed, order, goal, goal_type, notebook_id, created_at, updated_at")
+      .select("id, title, author, is_pinned, is_private, is_collapsed, is_encrypted, order, goal, goal_type, notebook_id, created_at, updated_at")
       .eq("author", userId)
       .order("is_pinned", { ascending: false })
       .order("order", { ascending: true })
@@ -414,6 +516,63 @@ export const getNoteMetadataByUserId = async () => {
   }
 };
 
+const MAX_SEARCH_QUERY_LENGTH = 200;
+const MAX_SEARCH_PAGE_SIZE = 100;
+
+/**
+ * Ranked full-text search over the user's cloud notes, run in Postgres so
+ * note content never has to be loaded client-side. Supports websearch syntax
+ * ("quoted phrases", OR, -excluded).
+ */
+export const searchNotes = async (
+  query: string,
+  { limit = 20, offset = 0 }: { limit?: number; offset?: number } = {},
+) => {
+  try {
+    const { supabase } = await getAuthenticatedUser();
+
+    const trimmed = query.trim().slice(0, MAX_SEARCH_QUERY_LENGTH);
+    if (!trimmed) {
+      return { success: true, results: [] as NoteSearchHit[], total: 0, hasMore: false };
+    }
+
+    const pageSize = Math.min(Math.max(Math.floor(limit), 1), MAX_SEARCH_PAGE_SIZE);
+    const start = Math.max(Math.floor(offset), 0);
+
+    const { data, error } = await supabase.rpc("search_notes", {
+      p_query: trimmed,
+      p_limit: pageSize,
+      p_offset: start,
+    });
+
+    if (error) {
+      console.error("Supabase search query error:", error);
+      throw error;
+    }
+
+    const rows = (data || []) as any[];
+    const results: NoteSearchHit[] = rows.map((row) => ({
+      id: row.id,
+      title: row.title || "",
+      notebookId: row.notebook_id,
+      isPinned: !!row.is_pinned,
+      updatedAt: row.updated_at ? new Date(row.updated_at).getTime() : 0,
+      rank: row.rank,
+      snippet: parseHeadline(row.snippet || ""),
+    }));
+    const total = rows.length > 0 ? Number(rows[0].total_count) : 0;
+
+    return { success: true, results, total, hasMore: start + results.length < total };
+  } catch (error) {
+    console.error("Failed to search notes:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      error: `Failed to search notes: ${errorMessage}`,
+    };
+  }
+};
+
 export const getNoteContentsByUserId = async () => {
   try {
     const { supabase, userId } = await getAuthenticatedUser();
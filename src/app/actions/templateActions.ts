@@ -0,0 +1,151 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { getSubscriptionLimits } from "@/utils/supabase/subscription";
+import { NoteTemplate, NoteTemplateRow, templateRowToTemplate } from "@/types/template";
+
+async function getAuthenticatedUser() {
+  const supabase = await createClient();
+  const { data: authData, error } = await supabase.auth.getUser();
+  if (error || !authData.user?.id) {
+    throw new Error("User not authenticated");
+  }
+  return { supabase, userId: authData.user.id };
+}
+
+const MAX_NAME_LENGTH = 80;
+const MAX_TITLE_LENGTH = 200;
+const MAX_CONTENT_LENGTH = 100_000;
+
+function validateTemplate(input: {
+  name?: string;
+  title?: string;
+  content?: string;
+}): string | null {
+  if (input.name !== undefined) {
+    const name = input.name.trim();
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      return `Template name must be 1-${MAX_NAME_LENGTH} characters`;
+    }
+  }
+  if (input.title !== undefined && input.title.length > MAX_TITLE_LENGTH) {
+    return `Template title must be at most ${MAX_TITLE_LENGTH} characters`;
+  }
+  if (input.content !== undefined && input.content.length > MAX_CONTENT_LENGTH) {
+    return "Template content is too long";
+  }
+  return null;
+}
+
+export async function getTemplates(): Promise<{
+  success: boolean;
+  templates?: NoteTemplate[];
+  error?: string;
+}> {
+  try {
+    const { supabase } = await getAuthenticatedUser();
+    const { data, error } = await supabase
+      .from("note_templates")
+      .select("*")
+      .order("name", { ascending: true });
+
+    if (error) throw error;
+    return {
+      success: true,
+      templates: (data as NoteTemplateRow[]).map(templateRowToTemplate),
+    };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+}
+
+export async function createTemplate(input: {
+  name: string;
+  title?: string;
+  content: string;
+}): Promise<{ success: boolean; template?: NoteTemplate; error?: string }> {
+  try {
+    const { supabase, userId } = await getAuthenticatedUser();
+
+    const { canUseTemplates } = await getSubscriptionLimits(supabase, userId);
+    if (!canUseTemplates) {
+      return { success: false, error: "Templates are not available on your plan" };
+    }
+
+    const invalid = validateTemplate(input);
+    if (invalid) return { success: false, error: invalid };
+
+    const { data, error } = await supabase
+      .from("note_templates")
+      .insert({
+        owner: userId,
+        name: input.name.trim(),
+        title: (input.title || "").trim(),
+        content: input.content,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === "23505") {
+        return { success: false, error: "A template with this name already exists" };
+      }
+      throw error;
+    }
+    return { success: true, template: templateRowToTemplate(data as NoteTemplateRow) };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+}
+
+export async function updateTemplate(
+  id: string,
+  updates: { name?: string; title?: string; content?: string },
+): Promise<{ success: boolean; template?: NoteTemplate; error?: string }> {
+  try {
+    const { supabase, userId } = await getAuthenticatedUser();
+
+    const invalid = validateTemplate(updates);
+    if (invalid) return { success: false, error: invalid };
+
+    const updateData: Record<string, string> = { updated_at: new Date().toISOString() };
+    if (updates.name !== undefined) updateData.name = updates.name.trim();
+    if (updates.title !== undefined) updateData.title = updates.title.trim();
+    if (updates.content !== undefined) updateData.content = updates.content;
+
+    const { data, error } = await supabase
+      .from("note_templates")
+      .update(updateData)
+      .eq("id", id)
+      .eq("owner", userId)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === "23505") {
+        return { success: false, error: "A template with this name already exists" };
+      }
+      throw error;
+    }
+    return { success: true, template: templateRowToTemplate(data as NoteTemplateRow) };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+}
+
+export async function deleteTemplate(
+  id: string,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { supabase, userId } = await getAuthenticatedUser();
+    const { error } = await supabase
+      .from("note_templates")
+      .delete()
+      .eq("id", id)
+      .eq("owner", userId);
+    if (error) throw error;
+    return { success: true };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+}
@@ -1,6 +1,20 @@
 "use server";
 
 import { createClient } from "@/utils/supabase/server";
+import { getSubscriptionLimits } from "@/utils/supabase/subscription";
+import { selectVersionsToPrune } from "@/utils/version-retention";
+import { isValidUUID, validateNoteContentLength } from "@/utils/validation";
+import {
+  getRedisVersions,
+  redisNoteExists,
+  setRedisVersions,
+} from "@/utils/redis/note-versions";
+import {
+  LegacyNoteVersion,
+  NoteVersion,
+  NoteVersionSummary,
+  VersionTarget,
+} from "@/types/note-versions";
 
 async function getAuthenticatedUser() {
   const supabase = await createClient();
@@ -9,25 +23,99 @@ async function getAuthenticatedUser() {
   return { supabase, userId: data.user.id };
 }
 
-export async function saveVersion(noteId: string, title: string, content: string, contentFormat: string = "markdown") {
-  try {
-    const { supabase, userId } = await getAuthenticatedUser();
+/**
+ * Redis notes belong to whoever holds the (unguessable) user id, as with
+ * the notes themselves; the note must exist under that id.
+ */
+async function checkRedisTarget(target: VersionTarget) {
+  if (!isValidUUID(target.userId)) throw new Error("Invalid user ID format");
+  if (!(await redisNoteExists(target.userId, target.noteId))) throw new Error("Note not found");
+}
 
-    // Only keep last 50 versions per note
-    const { data: existing } = await supabase
-      .from("note_versions")
-      .select("id")
-      .eq("note_id", noteId)
-      .eq("author", userId)
-      .order("created_at", { ascending: false });
+const MAX_CHECKPOINT_LABEL_LENGTH = 100;
+const MAX_IMPORTED_VERSIONS = 50;
+const MAX_LISTED_VERSIONS = 50;
+
+const VERSION_SUMMARY_COLUMNS = "id, title, content_format, created_at, label, is_checkpoint";
+const VERSION_COLUMNS = `${VERSION_SUMMARY_COLUMNS}, content`;
+
+function toSummary({ content: _content, ...summary }: NoteVersion): NoteVersionSummary {
+  return summary;
+}
+
+/**
+ * Thin a note's automatic snapshots by age and cap them at the author's
+ * tier limit. Checkpoints are left alone.
+ */
+async function pruneVersions(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  userId: string,
+  noteId: string,
+) {
+  const { data: existing } = await supabase
+    .from("note_versions")
+    .select("id, created_at, is_checkpoint")
+    .eq("note_id", noteId)
+    .eq("author", userId);
+
+  if (!existing || existing.length === 0) return;
 
-    if (existing && existing.length >= 50) {
-      const toDelete = existing.slice(49).map((v: any) => v.id);
-      await supabase.from("note_versions").delete().in("id", toDelete);
+  const { maxVersionHistory } = await getSubscriptionLimits(supabase, userId);
+  const toDelete = selectVersionsToPrune(existing, maxVersionHistory);
+
+  if (toDelete.length > 0) {
+    await supabase.from("note_versions").delete().in("id", toDelete);
+  }
+}
+
+function normaliseLabel(label: string): string | null {
+  const trimmed = label.trim().slice(0, MAX_CHECKPOINT_LABEL_LENGTH);
+  return trimmed || null;
+}
+
+function newRedisVersion(
+  title: string,
+  content: string,
+  contentFormat: string,
+  label: string | null = null,
+  createdAt: string = new Date().toISOString(),
+): NoteVersion {
+  return {
+    id: crypto.randomUUID(),
+    title,
+    content,
+    content_format: contentFormat,
+    created_at: createdAt,
+    label,
+    is_checkpoint: label !== null,
+  };
+}
+
+export async function saveVersion(
+  target: VersionTarget,
+  title: string,
+  content: string,
+  contentFormat: string = "markdown",
+) {
+  try {
+    if (!validateNoteContentLength(content).valid) throw new Error("Content too long");
+
+    if (target.source === "redis") {
+      await checkRedisTarget(target);
+      const versions = await getRedisVersions(target.userId, target.noteId);
+      // Nothing changed since the last snapshot
+      if (versions[0]?.content === content && versions[0]?.title === title) return { success: true };
+      await setRedisVersions(target.userId, target.noteId, [
+        newRedisVersion(title, content, contentFormat),
+        ...versions,
+      ]);
+      return { success: true };
     }
 
+    const { supabase, userId } = await getAuthenticatedUser();
+
     const { error } = await supabase.from("note_versions").insert({
-      note_id: noteId,
+      note_id: target.noteId,
       author: userId,
       title,
       content,
@@ -35,6 +123,8 @@ export async function saveVersion(noteId: string, title: string, content: string
     });
 
     if (error) throw error;
+
+    await pruneVersions(supabase, userId, target.noteId);
     return { success: true };
   } catch (error) {
     console.error("Failed to save version:", error);
@@ -42,22 +132,208 @@ export async function saveVersion(noteId: string, title: string, content: string
   }
 }
 
-export async function getVersions(noteId: string) {
+export async function createCheckpoint(
+  target: VersionTarget,
+  label: string,
+  title: string,
+  content: string,
+  contentFormat: string = "markdown",
+): Promise<{ success: boolean; version?: NoteVersion; error?: string }> {
+  try {
+    const name = normaliseLabel(label);
+    if (!name) return { success: false, error: "Checkpoint name is required" };
+    if (!validateNoteContentLength(content).valid) throw new Error("Content too long");
+
+    if (target.source === "redis") {
+      await checkRedisTarget(target);
+      const version = newRedisVersion(title, content, contentFormat, name);
+      const versions = await getRedisVersions(target.userId, target.noteId);
+      await setRedisVersions(target.userId, target.noteId, [version, ...versions]);
+      return { success: true, version };
+    }
+
+    const { supabase, userId } = await getAuthenticatedUser();
+
+    const { data, error } = await supabase
+      .from("note_versions")
+      .insert({
+        note_id: target.noteId,
+        author: userId,
+        title,
+        content,
+        content_format: contentFormat,
+        label: name,
+        is_checkpoint: true,
+      })
+      .select(VERSION_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return { success: true, version: data as NoteVersion };
+  } catch (error) {
+    console.error("Failed to create checkpoint:", error);
+    return { success: false, error: "Failed to create checkpoint" };
+  }
+}
+
+/**
+ * Name an existing version, turning it into a checkpoint. Passing an empty
+ * label turns it back into an automatic snapshot, eligible for pruning on
+ * the next save.
+ */
+export async function setVersionLabel(target: VersionTarget, versionId: string, label: string) {
+  try {
+    const name = normaliseLabel(label);
+
+    if (target.source === "redis") {
+      await checkRedisTarget(target);
+      const versions = await getRedisVersions(target.userId, target.noteId);
+      if (!versions.some((v) => v.id === versionId)) {
+        return { success: false, error: "Version not found" };
+      }
+      await setRedisVersions(
+        target.userId,
+        target.noteId,
+        versions.map((v) => (v.id === versionId ? { ...v, label: name, is_checkpoint: name !== null } : v)),
+      );
+      return { success: true };
+    }
+
+    const { supabase, userId } = await getAuthenticatedUser();
+
+    const { data, error } = await supabase
+      .from("note_versions")
+      .update({ label: name, is_checkpoint: name !== null })
+      .eq("id", versionId)
+      .eq("author", userId)
+      .select("id")
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return { success: false, error: "Version not found" };
+
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to update version label:", error);
+    return { success: false, error: "Failed to update version" };
+  }
+}
+
+/** The newest versions of a note, without their content. */
+export async function getVersions(
+  target: VersionTarget,
+): Promise<{ success: boolean; versions: NoteVersionSummary[] }> {
   try {
+    if (target.source === "redis") {
+      await checkRedisTarget(target);
+      const versions = await getRedisVersions(target.userId, target.noteId);
+      return { success: true, versions: versions.slice(0, MAX_LISTED_VERSIONS).map(toSummary) };
+    }
+
     const { supabase, userId } = await getAuthenticatedUser();
 
     const { data, error } = await supabase
       .from("note_versions")
-      .select("id, title, content, content_format, created_at")
-      .eq("note_id", noteId)
+      .select(VERSION_SUMMARY_COLUMNS)
+      .eq("note_id", target.noteId)
       .eq("author", userId)
       .order("created_at", { ascending: false })
-      .limit(50);
+      .limit(MAX_LISTED_VERSIONS);
 
     if (error) throw error;
-    return { success: true, versions: data || [] };
+    return { success: true, versions: (data || []) as NoteVersionSummary[] };
   } catch (error) {
     console.error("Failed to get versions:", error);
     return { success: true, versions: [] };
   }
 }
+
+/** One version in full, for previewing, comparing or restoring. */
+export async function getVersion(
+  target: VersionTarget,
+  versionId: string,
+): Promise<{ success: boolean; version?: NoteVersion; error?: string }> {
+  try {
+    if (target.source === "redis") {
+      await checkRedisTarget(target);
+      const versions = await getRedisVersions(target.userId, target.noteId);
+      const version = versions.find((v) => v.id === versionId);
+      return version ? { success: true, version } : { success: false, error: "Version not found" };
+    }
+
+    const { supabase, userId } = await getAuthenticatedUser();
+
+    const { data, error } = await supabase
+      .from("note_versions")
+      .select(VERSION_COLUMNS)
+      .eq("id", versionId)
+      .eq("note_id", target.noteId)
+      .eq("author", userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return { success: false, error: "Version not found" };
+    return { success: true, version: data as NoteVersion };
+  } catch (error) {
+    console.error("Failed to get version:", error);
+    return { success: false, error: "Failed to load version" };
+  }
+}
+
+/**
+ * Move versions that NoteBlock kept in localStorage into the note's
+ * history, keeping their original times. They're thinned like any other
+ * snapshots afterwards.
+ */
+export async function importLegacyVersions(target: VersionTarget, legacy: LegacyNoteVersion[]) {
+  try {
+    const versions = legacy
+      .filter(
+        (v) =>
+          typeof v?.content === "string" &&
+          validateNoteContentLength(v.content).valid &&
+          Number.isFinite(v.createdAt),
+      )
+      .slice(0, MAX_IMPORTED_VERSIONS)
+      .map((v) =>
+        newRedisVersion(
+          String(v.title || "").slice(0, 500),
+          v.content,
+          // Older notes were HTML; the stored copies don't say which
+          v.content.trimStart().startsWith("<") ? "html" : "markdown",
+          null,
+          new Date(v.createdAt).toISOString(),
+        ),
+      );
+
+    if (versions.length === 0) return { success: true, imported: 0 };
+
+    if (target.source === "redis") {
+      await checkRedisTarget(target);
+      const existing = await getRedisVersions(target.userId, target.noteId);
+      await setRedisVersions(target.userId, target.noteId, [...existing, ...versions]);
+      return { success: true, imported: versions.length };
+    }
+
+    const { supabase, userId } = await getAuthenticatedUser();
+
+    const { error } = await supabase.from("note_versions").insert(
+      versions.map((v) => ({
+        note_id: target.noteId,
+        author: userId,
+        title: v.title,
+        content: v.content,
+        content_format: v.content_format,
+        created_at: v.created_at,
+      })),
+    );
+
+    if (error) throw error;
+
+    await pruneVersions(supabase, userId, target.noteId);
+    return { success: true, imported: versions.length };
+  } catch (error) {
+    console.error("Failed to import versions:", error);
+    return { success: false, imported: 0 };
+  }
+}
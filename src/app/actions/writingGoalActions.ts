@@ -0,0 +1,270 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { loadWritingActivity } from "@/utils/supabase/writing-activity";
+import { isValidUUID } from "@/utils/validation";
+import {
+  addDays,
+  computeGoalProgress,
+  GoalCadence,
+  GoalScope,
+  goalPeriod,
+  MAX_GOAL_WORDS,
+  MAX_WRITING_GOALS,
+  RECENT_PACE_DAYS,
+  toUTCDateKey,
+  WritingGoal,
+  WritingGoalRow,
+  writingGoalRowToGoal,
+  WritingGoalStatus,
+} from "@/types/writing-goals";
+
+async function getAuthenticatedUser() {
+  const supabase = await createClient();
+  const { data: authData, error } = await supabase.auth.getUser();
+  if (error || !authData.user?.id) {
+    throw new Error("User not authenticated");
+  }
+  return { supabase, userId: authData.user.id };
+}
+
+const MAX_LABEL_LENGTH = 80;
+const MAX_NOTE_ID_LENGTH = 100;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface WritingGoalInput {
+  scope: GoalScope;
+  noteId?: string | null;
+  notebookId?: string | null;
+  cadence: GoalCadence;
+  targetWords: number;
+  startDate?: string;
+  dueDate?: string | null;
+  label?: string;
+}
+
+function validateGoal(input: WritingGoalInput): string | null {
+  if (!["all", "notebook", "note"].includes(input.scope)) return "Invalid goal scope";
+  if (!["deadline", "daily", "weekly"].includes(input.cadence)) return "Invalid goal cadence";
+  if (input.scope === "note" && (!input.noteId || input.noteId.length > MAX_NOTE_ID_LENGTH)) {
+    return "Choose a note for this goal";
+  }
+  if (input.scope === "notebook" && (!input.notebookId || !isValidUUID(input.notebookId))) {
+    return "Choose a notebook for this goal";
+  }
+  if (
+    !Number.isInteger(input.targetWords) ||
+    input.targetWords < 1 ||
+    input.targetWords > MAX_GOAL_WORDS
+  ) {
+    return "Target must be a whole number of words";
+  }
+  if (input.startDate !== undefined && !DATE_PATTERN.test(input.startDate)) {
+    return "Invalid start date";
+  }
+  if (input.cadence === "deadline") {
+    if (!input.dueDate || !DATE_PATTERN.test(input.dueDate)) return "Choose a date to finish by";
+    if (input.dueDate < (input.startDate || toUTCDateKey(new Date()))) {
+      return "The finish date must be after the start date";
+    }
+  }
+  if (input.label !== undefined && input.label.length > MAX_LABEL_LENGTH) {
+    return `Goal name must be at most ${MAX_LABEL_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * The user's goals with their progress. Words for "all" goals come from the
+ * daily totals in writing_sessions (which go back further); note and
+ * notebook goals use per-note writing_activity.
+ */
+export async function getWritingGoals(): Promise<{
+  success: boolean;
+  goals?: WritingGoalStatus[];
+  error?: string;
+}> {
+  try {
+    const { supabase, userId } = await getAuthenticatedUser();
+
+    const { data, error } = await supabase
+      .from("writing_goals")
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+
+    const goals = (data as WritingGoalRow[]).map(writingGoalRowToGoal);
+    if (goals.length === 0) return { success: true, goals: [] };
+
+    const today = toUTCDateKey(new Date());
+    const paceStart = addDays(today, -(RECENT_PACE_DAYS - 1));
+    const from = goals.reduce(
+      (earliest, goal) => {
+        const { start } = goalPeriod(goal, today);
+        return start < earliest ? start : earliest;
+      },
+      paceStart,
+    );
+
+    const { data: sessions, error: sessionsError } = await supabase
+      .from("writing_sessions")
+      .select("date, words_written")
+      .eq("user_id", userId)
+      .gte("date", from)
+      .lte("date", today);
+
+    if (sessionsError) throw sessionsError;
+
+    const needsActivity = goals.some((goal) => goal.scope !== "all");
+    const activity = needsActivity
+      ? await loadWritingActivity(supabase, userId, `${from}T00:00:00Z`)
+      : [];
+
+    // Words per day within a goal's scope
+    const dailyWords = (goal: WritingGoal) => {
+      const byDate = new Map<string, number>();
+      if (goal.scope === "all") {
+        for (const session of sessions || []) {
+          byDate.set(session.date, (byDate.get(session.date) || 0) + session.words_written);
+        }
+        return byDate;
+      }
+      for (const entry of activity) {
+        const matches =
+          goal.scope === "note" ? entry.noteId === goal.noteId : entry.notebookId === goal.notebookId;
+        if (!matches) continue;
+        const date = entry.startedAt.split("T")[0];
+        byDate.set(date, (byDate.get(date) || 0) + entry.wordsAdded);
+      }
+      return byDate;
+    };
+
+    const sumBetween = (byDate: Map<string, number>, start: string, end: string) => {
+      let total = 0;
+      for (const [date, words] of byDate) {
+        if (date >= start && date <= end) total += words;
+      }
+      return total;
+    };
+
+    return {
+      success: true,
+      goals: goals.map((goal) => {
+        const byDate = dailyWords(goal);
+        const { start, end } = goalPeriod(goal, today);
+        const written = sumBetween(byDate, start, end < today ? end : today);
+        const recentPace = Math.round(sumBetween(byDate, paceStart, today) / RECENT_PACE_DAYS);
+        return { ...goal, progress: computeGoalProgress(goal, written, recentPace, today) };
+      }),
+    };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+}
+
+export async function createWritingGoal(
+  input: WritingGoalInput,
+): Promise<{ success: boolean; goal?: WritingGoal; error?: string }> {
+  try {
+    const { supabase, userId } = await getAuthenticatedUser();
+
+    const invalid = validateGoal(input);
+    if (invalid) return { success: false, error: invalid };
+
+    const { count } = await supabase
+      .from("writing_goals")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId);
+
+    if ((count || 0) >= MAX_WRITING_GOALS) {
+      return { success: false, error: `You can have up to ${MAX_WRITING_GOALS} goals` };
+    }
+
+    const { data, error } = await supabase
+      .from("writing_goals")
+      .insert({
+        user_id: userId,
+        scope: input.scope,
+        note_id: input.scope === "note" ? input.noteId : null,
+        notebook_id: input.scope === "notebook" ? input.notebookId : null,
+        cadence: input.cadence,
+        target_words: input.targetWords,
+        start_date: input.startDate || toUTCDateKey(new Date()),
+        due_date: input.cadence === "deadline" ? input.dueDate : null,
+        label: (input.label || "").trim(),
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { success: true, goal: writingGoalRowToGoal(data as WritingGoalRow) };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+}
+
+export async function updateWritingGoal(
+  id: string,
+  updates: { targetWords?: number; dueDate?: string; label?: string },
+): Promise<{ success: boolean; goal?: WritingGoal; error?: string }> {
+  try {
+    const { supabase, userId } = await getAuthenticatedUser();
+
+    const { data: existing, error: readError } = await supabase
+      .from("writing_goals")
+      .select("*")
+      .eq("id", id)
+      .eq("user_id", userId)
+      .single();
+
+    if (readError) throw readError;
+
+    const current = writingGoalRowToGoal(existing as WritingGoalRow);
+    const invalid = validateGoal({
+      ...current,
+      targetWords: updates.targetWords ?? current.targetWords,
+      dueDate: updates.dueDate ?? current.dueDate,
+      label: updates.label ?? current.label,
+    });
+    if (invalid) return { success: false, error: invalid };
+
+    const updateData: Record<string, string | number> = {};
+    if (updates.targetWords !== undefined) updateData.target_words = updates.targetWords;
+    if (updates.dueDate !== undefined && current.cadence === "deadline") {
+      updateData.due_date = updates.dueDate;
+    }
+    if (updates.label !== undefined) updateData.label = updates.label.trim();
+
+    const { data, error } = await supabase
+      .from("writing_goals")
+      .update(updateData)
+      .eq("id", id)
+      .eq("user_id", userId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { success: true, goal: writingGoalRowToGoal(data as WritingGoalRow) };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+}
+
+export async function deleteWritingGoal(id: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { supabase, userId } = await getAuthenticatedUser();
+
+    const { error } = await supabase
+      .from("writing_goals")
+      .delete()
+      .eq("id", id)
+      .eq("user_id", userId);
+
+    if (error) throw error;
+    return { success: true };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+}
@@ -1,6 +1,13 @@
 "use server";
 
 import { createClient } from "@/utils/supabase/server";
+import {
+  loadWritingActivity,
+  parseWritingActivity,
+  recordWritingActivity,
+} from "@/utils/supabase/writing-activity";
+import { isValidUUID } from "@/utils/validation";
+import type { WritingActivityEntry, WritingActivityLabels } from "@/types/writing-analytics";
 
 async function getAuthenticatedUser() {
   const supabase = await createClient();
@@ -92,6 +99,9 @@ export async function getTodaySession(): Promise<{
 
 export async function getWritingSessions(options?: {
   limit?: number;
+  /** Inclusive `YYYY-MM-DD` bounds */
+  from?: string;
+  to?: string;
 }): Promise<{
   success: boolean;
   sessions?: WritingSession[];
@@ -106,6 +116,12 @@ export async function getWritingSessions(options?: {
       .eq("user_id", userId)
       .order("date", { ascending: false });
 
+    if (options?.from) {
+      query = query.gte("date", options.from);
+    }
+    if (options?.to) {
+      query = query.lte("date", options.to);
+    }
     if (options?.limit) {
       query = query.limit(options.limit);
     }
@@ -179,3 +195,78 @@ export async function getWritingStreak(): Promise<{
     return { success: false, error: err.message };
   }
 }
+
+/** Record per-note writing since the last flush (see useWritingSession). */
+export async function saveWritingActivity(
+  entries: WritingActivityEntry[],
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { supabase, userId } = await getAuthenticatedUser();
+    await recordWritingActivity(supabase, userId, parseWritingActivity(entries));
+    return { success: true };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+}
+
+const NOTE_LOOKUP_BATCH = 100;
+
+/**
+ * Writing entries since `from` (an ISO timestamp), oldest first, with the
+ * titles and notebook names the dashboard shows for them.
+ */
+export async function getWritingActivity(from: string): Promise<{
+  success: boolean;
+  entries?: WritingActivityEntry[];
+  labels?: WritingActivityLabels;
+  error?: string;
+}> {
+  try {
+    const { supabase, userId } = await getAuthenticatedUser();
+
+    const entries = await loadWritingActivity(supabase, userId, from);
+
+    // Local notes have no row in `notes`, so they keep a generic label
+    const noteIds = [...new Set(entries.map((entry) => entry.noteId))].filter(
+      (id): id is string => !!id && isValidUUID(id),
+    );
+
+    // In batches, to keep the query string short
+    const notes: any[] = [];
+    for (let i = 0; i < noteIds.length; i += NOTE_LOOKUP_BATCH) {
+      const { data, error } = await supabase
+        .from("notes")
+        .select("id, title, notebook_id")
+        .eq("author", userId)
+        .in("id", noteIds.slice(i, i + NOTE_LOOKUP_BATCH));
+
+      if (error) throw error;
+      notes.push(...(data || []));
+    }
+
+    const { data: notebooks, error: notebooksError } = await supabase
+      .from("notebooks")
+      .select("id, name")
+      .eq("owner", userId);
+
+    if (notebooksError) throw notebooksError;
+
+    return {
+      success: true,
+      entries,
+      labels: {
+        notes: Object.fromEntries(
+          notes.map((note) => [
+            note.id,
+            { title: note.title || "", notebookId: note.notebook_id },
+          ]),
+        ),
+        notebooks: Object.fromEntries(
+          (notebooks || []).map((notebook) => [notebook.id, notebook.name]),
+        ),
+      },
+    };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+}
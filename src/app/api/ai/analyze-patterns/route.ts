@@ -1,10 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/utils/supabase/server";
-import { checkRateLimit, getRateLimitStatus } from "@/utils/rate-limit";
-
-const DAILY_LIMIT = 5; // 5 analyses per day per user
-const RATE_LIMIT_WINDOW = 24 * 60 * 60 * 1000; // 24 hours
-const FEATURE_NAME = "ai-analyze";
+import { htmlToPlainText } from "@/utils/html-utils";
+import { authorizeAIRequest, aiQuotaExceededResponse } from "@/utils/ai/route";
+import { consumeAIQuota, getAIQuotaStatus } from "@/utils/ai/quota";
 
 interface NoteForAnalysis {
   id: string;
@@ -14,27 +11,9 @@ interface NoteForAnalysis {
 
 export async function POST(request: NextRequest) {
   try {
-    // Verify authentication
-    const supabase = await createClient();
-    const { data: { user }, error: authError } = await supabase.auth.getUser();
-
-    if (authError || !user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
-    }
-
-    const userId = user.id;
-
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: "AI features are not configured." },
-        { status: 503 }
-      );
-    }
+    const auth = await authorizeAIRequest();
+    if ("response" in auth) return auth.response;
+    const { supabase, userId, provider } = auth;
 
     const body = await request.json();
     const { note } = body as {
@@ -45,40 +24,15 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Note content required for analysis" }, { status: 400 });
     }
 
-    // Check rate limit using Redis
-    const rateLimit = await checkRateLimit(userId, FEATURE_NAME, DAILY_LIMIT, RATE_LIMIT_WINDOW);
-    if (!rateLimit.allowed) {
-      const resetIn = Math.ceil((rateLimit.resetAt - Date.now()) / (60 * 60 * 1000));
-      return NextResponse.json(
-        {
-          error: `Daily AI analysis limit reached (${DAILY_LIMIT}/day). Resets in ${resetIn} hours.`,
-          rateLimitExceeded: true,
-          resetAt: rateLimit.resetAt,
-        },
-        { status: 429 }
-      );
+    const quota = await consumeAIQuota(supabase, userId, "analyze");
+    if (!quota.allowed) {
+      return aiQuotaExceededResponse("analyze", quota);
     }
 
-    // Strip HTML for analysis but preserve structure
-    const plainText = note.content
-      .replace(/<br\s*\/?>/gi, "\n")
-      .replace(/<\/p>/gi, "\n\n")
-      .replace(/<\/div>/gi, "\n")
-      .replace(/<h[1-6][^>]*>/gi, "\n")
-      .replace(/<\/h[1-6]>/gi, "\n")
-      .replace(/<li[^>]*>/gi, "\n• ")
-      .replace(/<[^>]*>/g, "")
-      .replace(/&nbsp;/g, " ")
-      .replace(/&amp;/g, "&")
-      .replace(/&lt;/g, "<")
-      .replace(/&gt;/g, ">")
-      .replace(/\n{3,}/g, "\n\n")
-      .trim();
-
-    // Limit content length for API
-    const contentForAnalysis = plainText.slice(0, 4000);
-
-    // Create the prompt for Claude Haiku - focused on pattern detection
+    // Limit content length for the model
+    const contentForAnalysis = htmlToPlainText(note.content).slice(0, 4000);
+
+    // Focused on pattern detection
     const systemPrompt = `You are a pattern detection assistant for a note-taking app. Your job is to find REPEATING PATTERNS within a single note.
 
 A pattern is when the note contains multiple entries that follow the same structure/template. For example:
@@ -126,38 +80,21 @@ Be strict about pattern detection - only return patternFound: true if there are
 
     const userPrompt = `Analyze this note for repeating patterns:\n\n${contentForAnalysis}`;
 
-    // Call Claude Haiku API
-    const response = await fetch("https://api.anthropic.com/v1/messages", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "x-api-key": apiKey,
-        "anthropic-version": "2023-06-01",
-      },
-      body: JSON.stringify({
-        model: "claude-3-haiku-20240307",
-        max_tokens: 2048,
-        messages: [
-          {
-            role: "user",
-            content: userPrompt,
-          },
-        ],
+    let assistantMessage: string;
+    try {
+      assistantMessage = await provider.complete({
         system: systemPrompt,
-      }),
-    });
-
-    if (!response.ok) {
-      console.error("Anthropic API error");
+        prompt: userPrompt,
+        maxTokens: 2048,
+      });
+    } catch (error) {
+      console.error("AI provider error:", error);
       return NextResponse.json(
         { error: "Failed to analyze note. Please try again later." },
         { status: 500 }
       );
     }
 
-    const data = await response.json();
-    const assistantMessage = data.content?.[0]?.text || "";
-
     // Parse the JSON response
     let analysis;
     try {
@@ -185,8 +122,8 @@ Be strict about pattern detection - only return patternFound: true if there are
     return NextResponse.json({
       success: true,
       analysis,
-      remaining: rateLimit.remaining,
-      resetAt: rateLimit.resetAt,
+      remaining: quota.remaining,
+      resetAt: quota.resetAt,
     });
   } catch (error) {
     console.error("AI analysis error:", error);
@@ -197,27 +134,17 @@ Be strict about pattern detection - only return patternFound: true if there are
   }
 }
 
-// GET endpoint to check rate limit status
-export async function GET(request: NextRequest) {
-  // Verify authentication
-  const supabase = await createClient();
-  const { data: { user }, error: authError } = await supabase.auth.getUser();
-
-  if (authError || !user) {
-    return NextResponse.json(
-      { error: "Authentication required" },
-      { status: 401 }
-    );
-  }
-
-  const userId = user.id;
+// GET endpoint to check quota status
+export async function GET() {
+  const auth = await authorizeAIRequest();
+  if ("response" in auth) return auth.response;
+  const { supabase, userId } = auth;
 
-  // Get rate limit status from Redis
-  const status = await getRateLimitStatus(userId, FEATURE_NAME, DAILY_LIMIT, RATE_LIMIT_WINDOW);
+  const status = await getAIQuotaStatus(supabase, userId, "analyze");
 
   return NextResponse.json({
     remaining: status.remaining,
-    limit: DAILY_LIMIT,
+    limit: status.limit,
     resetAt: status.resetAt,
   });
 }
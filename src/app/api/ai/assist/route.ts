@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeAIRequest, aiQuotaExceededResponse } from "@/utils/ai/route";
+import { consumeAIQuota } from "@/utils/ai/quota";
+import { buildAssistPrompt, validateAssistRequest } from "@/utils/ai/assist";
+
+/**
+ * Writing help on a selected passage. The reply streams back as plain text
+ * so the editor can preview it as it arrives; errors before the first chunk
+ * are JSON like the other AI routes.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeAIRequest();
+    if ("response" in auth) return auth.response;
+    const { supabase, userId, provider } = auth;
+
+    const validated = validateAssistRequest(await request.json());
+    if ("error" in validated) {
+      return NextResponse.json({ error: validated.error }, { status: 400 });
+    }
+
+    const quota = await consumeAIQuota(supabase, userId, "assist");
+    if (!quota.allowed) {
+      return aiQuotaExceededResponse("assist", quota);
+    }
+
+    const chunks = provider.stream({
+      ...buildAssistPrompt(validated.request),
+      signal: request.signal,
+    })[Symbol.asyncIterator]();
+
+    // Pull the first chunk before answering so a provider that's down gets a
+    // proper error response instead of an empty stream
+    let first: IteratorResult<string>;
+    try {
+      first = await chunks.next();
+    } catch (error) {
+      console.error("AI provider error:", error);
+      return NextResponse.json(
+        { error: "The writing assistant isn't responding. Please try again." },
+        { status: 502 }
+      );
+    }
+
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        if (first.done) controller.close();
+        else controller.enqueue(encoder.encode(first.value));
+      },
+      async pull(controller) {
+        try {
+          const { done, value } = await chunks.next();
+          if (done) controller.close();
+          else controller.enqueue(encoder.encode(value));
+        } catch (error) {
+          console.error("AI stream error:", error);
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await chunks.return?.();
+      },
+    });
+
+    return new Response(body, {
+      headers: {
+        "Content-Type": "text/plain; charset=utf-8",
+        "Cache-Control": "no-store",
+        "X-AI-Remaining": String(quota.remaining),
+      },
+    });
+  } catch (error) {
+    console.error("AI assist error:", error);
+    return NextResponse.json(
+      { error: "An unexpected error occurred" },
+      { status: 500 }
+    );
+  }
+}
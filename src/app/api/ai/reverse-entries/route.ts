@@ -1,10 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@/utils/supabase/server";
-import { checkRateLimit } from "@/utils/rate-limit";
-
-const DAILY_LIMIT = 5;
-const RATE_LIMIT_WINDOW = 24 * 60 * 60 * 1000;
-const FEATURE_NAME = "ai-reverse";
+import { htmlToPlainText } from "@/utils/html-utils";
+import { authorizeAIRequest, aiQuotaExceededResponse } from "@/utils/ai/route";
+import { consumeAIQuota } from "@/utils/ai/quota";
 
 interface ReverseRequest {
   noteContent: string;
@@ -14,27 +11,9 @@ interface ReverseRequest {
 
 export async function POST(request: NextRequest) {
   try {
-    // Verify authentication
-    const supabase = await createClient();
-    const { data: { user }, error: authError } = await supabase.auth.getUser();
-
-    if (authError || !user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
-    }
-
-    const userId = user.id;
-
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: "AI features are not configured." },
-        { status: 503 }
-      );
-    }
+    const auth = await authorizeAIRequest();
+    if ("response" in auth) return auth.response;
+    const { supabase, userId, provider } = auth;
 
     const body = await request.json();
     const { noteContent, patternName, entryCount } = body as ReverseRequest;
@@ -43,36 +22,12 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Note content required" }, { status: 400 });
     }
 
-    // Check rate limit using Redis
-    const rateLimit = await checkRateLimit(userId, FEATURE_NAME, DAILY_LIMIT, RATE_LIMIT_WINDOW);
-    if (!rateLimit.allowed) {
-      return NextResponse.json(
-        {
-          error: "Daily limit reached. Try again tomorrow.",
-          rateLimitExceeded: true,
-          resetAt: rateLimit.resetAt,
-        },
-        { status: 429 }
-      );
+    const quota = await consumeAIQuota(supabase, userId, "reverse");
+    if (!quota.allowed) {
+      return aiQuotaExceededResponse("reverse", quota);
     }
 
-    // Strip HTML for analysis but preserve structure
-    const plainText = noteContent
-      .replace(/<br\s*\/?>/gi, "\n")
-      .replace(/<\/p>/gi, "\n\n")
-      .replace(/<\/div>/gi, "\n")
-      .replace(/<h[1-6][^>]*>/gi, "\n")
-      .replace(/<\/h[1-6]>/gi, "\n")
-      .replace(/<li[^>]*>/gi, "\n• ")
-      .replace(/<[^>]*>/g, "")
-      .replace(/&nbsp;/g, " ")
-      .replace(/&amp;/g, "&")
-      .replace(/&lt;/g, "<")
-      .replace(/&gt;/g, ">")
-      .replace(/\n{3,}/g, "\n\n")
-      .trim();
-
-    const contentForAnalysis = plainText.slice(0, 6000);
+    const contentForAnalysis = htmlToPlainText(noteContent).slice(0, 6000);
 
     const systemPrompt = `You are a text manipulation assistant. Your task is to REVERSE the order of repeating entries in a note while preserving any content that comes before or after the entries.
 
@@ -87,37 +42,21 @@ Return ONLY the reversed content as plain text. Do not include any explanations
 
     const userPrompt = `Reverse the order of the repeating entries in this note:\n\n${contentForAnalysis}`;
 
-    const response = await fetch("https://api.anthropic.com/v1/messages", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "x-api-key": apiKey,
-        "anthropic-version": "2023-06-01",
-      },
-      body: JSON.stringify({
-        model: "claude-3-haiku-20240307",
-        max_tokens: 4096,
-        messages: [
-          {
-            role: "user",
-            content: userPrompt,
-          },
-        ],
+    let reversedContent: string;
+    try {
+      reversedContent = await provider.complete({
         system: systemPrompt,
-      }),
-    });
-
-    if (!response.ok) {
-      console.error("Anthropic API error");
+        prompt: userPrompt,
+        maxTokens: 4096,
+      });
+    } catch (error) {
+      console.error("AI provider error:", error);
       return NextResponse.json(
         { error: "Failed to reverse entries. Please try again." },
         { status: 500 }
       );
     }
 
-    const data = await response.json();
-    const reversedContent = data.content?.[0]?.text || "";
-
     if (!reversedContent) {
       return NextResponse.json(
         { error: "Failed to generate reversed content." },
@@ -142,8 +81,8 @@ Return ONLY the reversed content as plain text. Do not include any explanations
     return NextResponse.json({
       success: true,
       reversedContent: htmlContent,
-      remaining: rateLimit.remaining,
-      resetAt: rateLimit.resetAt,
+      remaining: quota.remaining,
+      resetAt: quota.resetAt,
     });
   } catch (error) {
     console.error("Reverse entries error:", error);
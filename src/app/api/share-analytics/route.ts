@@ -0,0 +1,58 @@
+import { createServiceRoleClient } from "@/utils/supabase/server";
+import { MAX_VISIT_SECONDS, ShareVisitAnalytics } from "@/types/share-analytics";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Visits can only be updated while the reader could plausibly still be reading
+const VISIT_UPDATE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Read progress for a shared-note visit, sent with navigator.sendBeacon when
+ * the reader leaves or hides the page. Progress only ever moves forward.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = JSON.parse(await request.text());
+    const { visitId, completion, seconds } = body;
+
+    if (
+      typeof visitId !== "string" ||
+      !UUID_PATTERN.test(visitId) ||
+      typeof completion !== "number" ||
+      typeof seconds !== "number" ||
+      !Number.isFinite(completion) ||
+      !Number.isFinite(seconds)
+    ) {
+      return Response.json({ error: "Invalid data" }, { status: 400 });
+    }
+
+    const supabase = createServiceRoleClient();
+    const { data: visit } = await supabase
+      .from("shared_notes_analytics")
+      .select("id, analytics, created_at")
+      .eq("id", visitId)
+      .maybeSingle();
+
+    if (
+      !visit ||
+      !visit.analytics ||
+      !visit.created_at ||
+      Date.now() - new Date(visit.created_at).getTime() > VISIT_UPDATE_WINDOW_MS
+    ) {
+      return Response.json({ error: "Visit not found" }, { status: 404 });
+    }
+
+    const current = visit.analytics as ShareVisitAnalytics;
+    const analytics: ShareVisitAnalytics = {
+      ...current,
+      completion: Math.max(current.completion || 0, Math.min(Math.max(0, completion), 1)),
+      seconds: Math.max(current.seconds || 0, Math.min(Math.max(0, Math.round(seconds)), MAX_VISIT_SECONDS)),
+    };
+
+    await supabase.from("shared_notes_analytics").update({ analytics }).eq("id", visitId);
+
+    return Response.json({ success: true });
+  } catch {
+    return Response.json({ error: "Internal error" }, { status: 500 });
+  }
+}
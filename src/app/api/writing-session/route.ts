@@ -1,4 +1,5 @@
 import { createClient } from "@/utils/supabase/server";
+import { parseWritingActivity, recordWritingActivity } from "@/utils/supabase/writing-activity";
 
 export async function POST(request: Request) {
   try {
@@ -13,6 +14,13 @@ export async function POST(request: Request) {
     }
 
     const body = await request.json();
+
+    // Per-note entries from useWritingSession's unload flush
+    if (Array.isArray(body?.entries)) {
+      await recordWritingActivity(supabase, user.id, parseWritingActivity(body.entries));
+      return Response.json({ success: true });
+    }
+
     const { wordsWritten, durationSeconds } = body;
 
     if (
@@ -0,0 +1,93 @@
+import { Suspense } from "react";
+import { Metadata } from "next";
+import { createClient } from "@/utils/supabase/server";
+
+import GlobalHeader from "@/components/global-header";
+import GlobalFooter from "@/components/global-footer";
+import { getPublishedPage, getPublishedSite } from "@/app/actions/publishingActions";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ shortcode: string; noteId: string }>;
+}): Promise<Metadata> {
+  const { shortcode, noteId } = await params;
+
+  // Metadata lookups aren't visits, so don't count them
+  const [siteResult, pageResult] = await Promise.all([
+    getPublishedSite(shortcode, { countView: false }),
+    getPublishedPage(shortcode, noteId, { countView: false }),
+  ]);
+  const siteName = siteResult.site?.name || "Published Notebook";
+  const title = pageResult.page ? `${pageResult.page.title} - ${siteName}` : siteName;
+  const description = pageResult.page
+    ? pageResult.page.content
+        .replace(/<[^>]*>/g, "")
+        .replace(/[#*_`>]/g, "")
+        .trim()
+        .substring(0, 150)
+    : "A published notebook on JustNoted - Distraction-Free Note Taking";
+
+  return {
+    title: `${title} - JustNoted`,
+    description,
+    openGraph: {
+      title: `${title} - JustNoted`,
+      description,
+      images: [
+        {
+          url: "/JustNoted_OG.jpg",
+          width: 1200,
+          height: 630,
+          alt: `${title} - JustNoted`,
+        },
+      ],
+      locale: "en_US",
+      type: "article",
+      siteName: "JustNoted",
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: `${title} - JustNoted`,
+      description,
+      images: ["/JustNoted_OG.jpg"],
+      creator: "@justnoted",
+    },
+  };
+}
+
+export default async function PublishedNotePageWrapper({
+  params,
+}: {
+  params: Promise<{ shortcode: string; noteId: string }>;
+}) {
+  const { shortcode, noteId } = await params;
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const PublishedNotebookPage = (await import("@/components/published-notebook-page")).default;
+
+  return (
+    <>
+      <GlobalHeader user={user} />
+      <Suspense
+        fallback={
+          <div className="min-h-screen flex items-center justify-center print:hidden">
+            <div className="text-[var(--color-text-secondary)] animate-pulse">
+              Loading page...
+            </div>
+          </div>
+        }
+      >
+        <PublishedNotebookPage shortcode={shortcode} noteId={noteId} />
+      </Suspense>
+      <GlobalFooter />
+    </>
+  );
+}
@@ -0,0 +1,86 @@
+import { Suspense } from "react";
+import { Metadata } from "next";
+import { createClient } from "@/utils/supabase/server";
+
+import GlobalHeader from "@/components/global-header";
+import GlobalFooter from "@/components/global-footer";
+import { getPublishedSite } from "@/app/actions/publishingActions";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ shortcode: string }>;
+}): Promise<Metadata> {
+  const { shortcode } = await params;
+
+  // Metadata lookups aren't visits, so don't count them
+  const result = await getPublishedSite(shortcode, { countView: false });
+  const title = result.success && result.site ? result.site.name : "Published Notebook";
+  const description =
+    result.success && result.site && !result.site.isAnonymous
+      ? `A notebook by ${result.site.authorUsername} on JustNoted`
+      : "A published notebook on JustNoted - Distraction-Free Note Taking";
+
+  return {
+    title: `${title} - JustNoted`,
+    description,
+    openGraph: {
+      title: `${title} - JustNoted`,
+      description,
+      images: [
+        {
+          url: "/JustNoted_OG.jpg",
+          width: 1200,
+          height: 630,
+          alt: `${title} - JustNoted`,
+        },
+      ],
+      locale: "en_US",
+      type: "website",
+      siteName: "JustNoted",
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: `${title} - JustNoted`,
+      description,
+      images: ["/JustNoted_OG.jpg"],
+      creator: "@justnoted",
+    },
+  };
+}
+
+export default async function PublishedNotebookPageWrapper({
+  params,
+}: {
+  params: Promise<{ shortcode: string }>;
+}) {
+  const { shortcode } = await params;
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const PublishedNotebookPage = (await import("@/components/published-notebook-page")).default;
+
+  return (
+    <>
+      <GlobalHeader user={user} />
+      <Suspense
+        fallback={
+          <div className="min-h-screen flex items-center justify-center print:hidden">
+            <div className="text-[var(--color-text-secondary)] animate-pulse">
+              Loading notebook...
+            </div>
+          </div>
+        }
+      >
+        <PublishedNotebookPage shortcode={shortcode} />
+      </Suspense>
+      <GlobalFooter />
+    </>
+  );
+}
@@ -0,0 +1,34 @@
+import { redirect } from "next/navigation";
+import WritingDashboard from "@/components/writing-dashboard";
+import GlobalHeader from "@/components/global-header";
+import GlobalFooter from "@/components/global-footer";
+import { createClient } from "@/utils/supabase/server";
+
+export const metadata = {
+  title: "Writing Stats - JustNoted",
+  robots: {
+    index: false,
+    follow: true,
+  },
+};
+
+export default async function Page() {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/get-access");
+  }
+
+  return (
+    <>
+      <GlobalHeader user={user} />
+      <main className="flex-grow w-full pt-14">
+        <div className="max-w-4xl mx-auto px-6 py-10">
+          <WritingDashboard />
+        </div>
+      </main>
+      <GlobalFooter />
+    </>
+  );
+}
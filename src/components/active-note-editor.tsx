@@ -1,10 +1,8 @@
 "use client";
 
 import React, { useCallback, useState, useRef, useEffect, useMemo } from "react";
-
-const LAST_NOTE_KEY = "justnoted_last_note";
 import LazyTextBlock from "@/components/lazy-text-block";
-import { useNotesStore, useNotebooks } from "@/stores/notes-store";
+import { useNotesStore, useNotebooks, useNoteConflict } from "@/stores/notes-store";
 import { useAutoSave } from "@/hooks/use-auto-save";
 import { useNoteStatistics } from "@/hooks/use-note-statistics";
 import { CombinedNote } from "@/types/combined-notes";
@@ -17,6 +15,7 @@ import {
   IconTrash,
   IconDots,
   IconSquareRoundedPlus,
+  IconTemplate,
   IconViewportWide,
   IconLayoutColumns,
   IconShare,
@@ -28,27 +27,41 @@ import {
   IconSelector,
   IconFileImport,
   IconMarkdown,
+  IconGitMerge,
+  IconMessageCircle,
 } from "@tabler/icons-react";
 import { useToast } from "@/components/ui/toast";
 import { readImportableFiles, IMPORT_ACCEPT } from "@/utils/import-file";
+import { uploadAttachment } from "@/utils/storage/attachment-upload";
+import { isAttachmentType } from "@/types/attachment";
 import { htmlToMarkdown } from "@/utils/html-to-markdown";
-import {
-  readWideDefault,
-  readWideOverride,
-  writeWideDefault,
-  writeWideOverride,
-  type WideLevel,
-} from "@/utils/wide-view";
+import { findTextRange } from "@/utils/html-utils";
+import BacklinksPanel from "@/components/backlinks-panel";
+import RelatedNotesPanel from "@/components/related-notes-panel";
+import { getWideLevel, withWideOverride } from "@/utils/wide-view";
 import { Dropdown, DropdownItem, DropdownSeparator } from "@/components/ds/dropdown";
 import NotebookMoveMenu from "@/components/notebook-move-menu";
 import { assignNoteToNotebook } from "@/app/actions/notebookActions";
 import { Modal, ConfirmModal } from "@/components/ds/modal";
 import VersionHistoryPanel from "@/components/version-history-panel";
 import GoalSuggestionsModal from "@/components/goal-suggestions-modal";
+import { describeGoalPace, GoalStatusBadge, refreshWritingGoals } from "@/components/writing-goals-panel";
+import { createWritingGoal } from "@/app/actions/writingGoalActions";
+import { addDays, toUTCDateKey } from "@/types/writing-goals";
 import SplitToolbar, { SplitToolbarMobile } from "@/components/editor/split-toolbar";
 import { saveVersion } from "@/app/actions/versionActions";
 import { IconButton } from "@/components/ds/icon-button";
 import ShareNoteButton from "@/components/share-note-button";
+import CollaboratorsButton from "@/components/collaborators-button";
+import PresenceAvatars from "@/components/editor/presence-avatars";
+import { useCollaboration } from "@/hooks/use-collaboration";
+import ConflictResolutionModal from "@/components/conflict-resolution-modal";
+import { deleteNoteConflict } from "@/utils/notes-idb-cache";
+import { EncryptionUnlockForm } from "@/components/encryption-modal";
+import { isLockedNote, shouldEncrypt } from "@/utils/note-encryption";
+import CommentsMargin from "@/components/comments-margin";
+import { useNoteComments } from "@/hooks/use-note-comments";
+import { NoteComment, applySuggestedEdit } from "@/types/comments";
 
 interface ActiveNoteEditorProps {
   userId: string;
@@ -68,6 +81,7 @@ export default function ActiveNoteEditor({
   const activeNoteId = useNotesStore((s) => s.activeNoteId);
   const notes = useNotesStore((s) => s.notes);
   const setActiveNoteId = useNotesStore((s) => s.setActiveNoteId);
+  const setPreferences = useNotesStore((s) => s.setPreferences);
   const isLoading = useNotesStore((s) => s.isLoading);
   const [splitNoteId, setSplitNoteId] = useState<string | null>(null);
 
@@ -75,7 +89,7 @@ export default function ActiveNoteEditor({
   useEffect(() => {
     if (activeNoteId || notes.length === 0) return;
 
-    const lastId = localStorage.getItem(LAST_NOTE_KEY);
+    const lastId = useNotesStore.getState().lastNoteId;
     if (lastId && notes.find((n) => n.id === lastId)) {
       setActiveNoteId(lastId);
     } else {
@@ -83,12 +97,12 @@ export default function ActiveNoteEditor({
     }
   }, [activeNoteId, notes, setActiveNoteId]);
 
-  // Persist active note to localStorage
+  // Remember the active note (synced, so other devices open it next time)
   useEffect(() => {
-    if (activeNoteId) {
-      localStorage.setItem(LAST_NOTE_KEY, activeNoteId);
+    if (activeNoteId && activeNoteId !== useNotesStore.getState().lastNoteId) {
+      setPreferences({ lastNoteId: activeNoteId });
     }
-  }, [activeNoteId]);
+  }, [activeNoteId, setPreferences]);
 
   const note = useMemo(
     () => notes.find((n) => n.id === activeNoteId) || null,
@@ -102,6 +116,33 @@ export default function ActiveNoteEditor({
   const rightPaneRef = useRef<HTMLDivElement>(null);
   const leftScrollRef = useRef<HTMLDivElement>(null);
   const rightScrollRef = useRef<HTMLDivElement>(null);
+  const searchJumpTarget = useNotesStore((s) => s.searchJumpTarget);
+
+  // Scroll to and select the passage picked in search. The editor mounts
+  // lazily, so keep trying briefly until its content is in the DOM.
+  useEffect(() => {
+    if (!searchJumpTarget || searchJumpTarget.noteId !== note?.id) return;
+
+    let attempts = 0;
+    let timer: ReturnType<typeof setTimeout>;
+    const tryJump = () => {
+      const editorRoot = leftPaneRef.current?.querySelector(".ProseMirror");
+      const range = editorRoot ? findTextRange(editorRoot, searchJumpTarget.text) : null;
+      if (range) {
+        const sel = window.getSelection();
+        sel?.removeAllRanges();
+        sel?.addRange(range);
+        range.startContainer.parentElement?.scrollIntoView({ behavior: "smooth", block: "center" });
+      } else if (++attempts < 20) {
+        timer = setTimeout(tryJump, 100);
+        return;
+      }
+      useNotesStore.getState().setSearchJumpTarget(null);
+    };
+
+    tryJump();
+    return () => clearTimeout(timer);
+  }, [searchJumpTarget, note?.id]);
 
   // Track text selection for split toolbar
   useEffect(() => {
@@ -188,29 +229,49 @@ export default function ActiveNoteEditor({
     setSplitNoteId(note.id);
   }, [note, splitNote, splitNoteId, setActiveNoteId]);
 
+  const handleOpenNoteLink = useCallback((noteId: string, beside: boolean) => {
+    if (!beside) {
+      setActiveNoteId(noteId);
+    } else if (noteId !== note?.id) {
+      setSplitNoteId(noteId);
+    }
+  }, [note?.id, setActiveNoteId]);
+
   if (isLoading && notes.length === 0) {
     return <LoadingSkeleton />;
   }
 
   if (!note) {
-    return <EmptyState onNewNote={() => notesOperations.addNote()} />;
+    return (
+      <EmptyState
+        onNewNote={() => notesOperations.addNote()}
+        onNewFromTemplate={
+          isAuthenticated ? () => useNotesStore.getState().setTemplatePickerOpen(true) : undefined
+        }
+      />
+    );
   }
 
   return (
     <div className="flex-1 flex h-full overflow-hidden relative">
       {/* Main editor */}
       <div ref={leftPaneRef} className={`flex-1 min-w-0 overflow-y-auto ${splitNote ? "border-r border-[var(--color-border-secondary)]" : ""}`}>
-        <NoteEditor
-          key={note.id}
-          note={note}
-          userId={userId}
-          isAuthenticated={isAuthenticated}
-          notesOperations={notesOperations}
-          registerNoteFlush={registerNoteFlush}
-          unregisterNoteFlush={unregisterNoteFlush}
-          onToggleSplit={() => setSplitNoteId(splitNoteId ? null : "pick")}
-          scrollRef={leftScrollRef}
-        />
+        {isLockedNote(note) ? (
+          <LockedNote note={note} />
+        ) : (
+          <NoteEditor
+            key={note.id}
+            note={note}
+            userId={userId}
+            isAuthenticated={isAuthenticated}
+            notesOperations={notesOperations}
+            registerNoteFlush={registerNoteFlush}
+            unregisterNoteFlush={unregisterNoteFlush}
+            onToggleSplit={() => setSplitNoteId(splitNoteId ? null : "pick")}
+            onOpenNoteLink={handleOpenNoteLink}
+            scrollRef={leftScrollRef}
+          />
+        )}
       </div>
 
       {/* Split toolbar */}
@@ -240,7 +301,9 @@ export default function ActiveNoteEditor({
       {/* Split pane */}
       {splitNoteId && (
         <div ref={rightPaneRef} className="flex-1 min-w-0 flex flex-col bg-[var(--color-bg-primary)] overflow-y-auto">
-          {splitNote ? (
+          {splitNote && isLockedNote(splitNote) ? (
+            <LockedNote note={splitNote} />
+          ) : splitNote ? (
             <NoteEditor
               key={splitNote.id}
               note={splitNote}
@@ -251,6 +314,7 @@ export default function ActiveNoteEditor({
               unregisterNoteFlush={unregisterNoteFlush}
               onToggleSplit={() => setSplitNoteId(null)}
               onChangeSplitNote={() => setSplitNoteId("pick")}
+              onOpenNoteLink={handleOpenNoteLink}
               scrollRef={rightScrollRef}
             />
           ) : (
@@ -314,7 +378,13 @@ function LoadingSkeleton() {
   );
 }
 
-function EmptyState({ onNewNote }: { onNewNote: () => void }) {
+function EmptyState({
+  onNewNote,
+  onNewFromTemplate,
+}: {
+  onNewNote: () => void;
+  onNewFromTemplate?: () => void;
+}) {
   return (
     <div className="flex-1 flex flex-col items-center justify-center text-center px-6 py-20">
       <div className="max-w-xs">
@@ -331,6 +401,34 @@ function EmptyState({ onNewNote }: { onNewNote: () => void }) {
           <IconSquareRoundedPlus size={16} />
           New Note
         </button>
+        {onNewFromTemplate && (
+          <button
+            onClick={onNewFromTemplate}
+            className="mt-3 flex items-center justify-center gap-1.5 mx-auto text-xs text-[var(--color-text-tertiary)] hover:text-[var(--color-text-secondary)] transition-colors"
+          >
+            <IconTemplate size={14} />
+            Start from a template
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/** Stands in for the editor until encrypted notes are unlocked for the session. */
+function LockedNote({ note }: { note: CombinedNote }) {
+  return (
+    <div className="flex-1 flex flex-col items-center justify-center px-6 py-20">
+      <div className="w-full max-w-sm">
+        <div className="flex items-center gap-2 mb-2 text-[var(--color-text-primary)]">
+          <IconLock size={18} />
+          <h2 className="text-lg font-semibold truncate">{note.title}</h2>
+        </div>
+        <p className="text-sm text-[var(--color-text-tertiary)] mb-6 leading-relaxed">
+          This note is encrypted. Enter your passphrase to unlock your encrypted notes for this
+          session.
+        </p>
+        <EncryptionUnlockForm />
       </div>
     </div>
   );
@@ -345,6 +443,7 @@ function NoteEditor({
   unregisterNoteFlush,
   onToggleSplit,
   onChangeSplitNote,
+  onOpenNoteLink,
   scrollRef,
 }: {
   note: CombinedNote;
@@ -355,24 +454,28 @@ function NoteEditor({
   unregisterNoteFlush: (noteId: string) => void;
   onToggleSplit?: () => void;
   onChangeSplitNote?: () => void;
+  onOpenNoteLink: (noteId: string, beside: boolean) => void;
   scrollRef?: React.RefObject<HTMLDivElement | null>;
 }) {
   const [title, setTitle] = useState(note.title);
   const [content, setContent] = useState(note.content);
   const [contentFormat, setContentFormat] = useState(note.contentFormat || "html");
   const [isSaving, setIsSaving] = useState(false);
-  // Wide view: global default + per-note override (read once on mount; the
-  // component is keyed by note.id so this re-reads per note).
-  const [wideDefault, setWideDefault] = useState(() => readWideDefault());
-  const [noteWide, setNoteWide] = useState(() => readWideOverride(note.id));
+  // Wide view: global default + per-note override, from synced preferences
+  const wideViewDefault = useNotesStore((s) => s.wideViewDefault);
+  const wideViewNotes = useNotesStore((s) => s.wideViewNotes);
+  const setPreferences = useNotesStore((s) => s.setPreferences);
   const [showPagePicker, setShowPagePicker] = useState(false);
   const [showGoalPicker, setShowGoalPicker] = useState(false);
   const [showHelp, setShowHelp] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [showVersions, setShowVersions] = useState(false);
   const [showGoalSuggestions, setShowGoalSuggestions] = useState(false);
+  const [showConflict, setShowConflict] = useState(false);
+  const [showComments, setShowComments] = useState(false);
   const lastVersionRef = useRef<number>(0);
   const [goalInput, setGoalInput] = useState(String(note.goal || ""));
+  const [goalDueDate, setGoalDueDate] = useState("");
   const [isDraggingFile, setIsDraggingFile] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
   const [editorRemountKey, setEditorRemountKey] = useState(0);
@@ -385,6 +488,21 @@ function NoteEditor({
   const toast = useToast();
 
   const noteSource = note.source;
+  // Notes shared with us by someone else: owner-only actions are hidden
+  const isSharedWithMe = !!note.collaboratorRole;
+  const collaboration = useCollaboration(note, isAuthenticated);
+  const encryptionStatus = useNotesStore((s) => s.encryptionStatus);
+  // Encrypted content never leaves the device in plaintext, so server-side
+  // extras (versions, sharing, attachments) are off for these notes
+  const isEncrypted = shouldEncrypt(note, encryptionStatus);
+  const conflict = useNoteConflict(note.id);
+  const noteComments = useNoteComments(note.id, isAuthenticated && !isSharedWithMe && !isEncrypted);
+  // Redis notes keep history under the device's user id, signed in or not
+  const hasVersionHistory = (noteSource === "redis" || isAuthenticated) && !isSharedWithMe && !isEncrypted;
+  const versionTarget = useMemo(
+    () => ({ noteId: note.id, source: noteSource, userId }),
+    [note.id, noteSource, userId],
+  );
   const notebooks = useNotebooks();
   const notebook = note.notebookId
     ? notebooks.find((nb) => nb.id === note.notebookId)
@@ -393,6 +511,18 @@ function NoteEditor({
   const [pageFormat, setPageFormat] = useState("novel");
   const [goalTarget, setGoalTarget] = useState(note.goal || 0);
   const [goalType, setGoalType] = useState<"" | "words" | "characters">(note.goal_type || "");
+  // A words-written goal on this note, or else a dated one on its notebook
+  const writingGoal = useNotesStore(
+    (s) =>
+      s.writingGoals.find((goal) => goal.scope === "note" && goal.noteId === note.id) ||
+      s.writingGoals.find(
+        (goal) =>
+          goal.scope === "notebook" &&
+          goal.cadence === "deadline" &&
+          !!note.notebookId &&
+          goal.notebookId === note.notebookId,
+      ),
+  );
 
   const { wordCount, charCount, readingTime, pageEstimate, progressPercentage } =
     useNoteStatistics(content, pageFormat, { target: goalTarget, type: goalType });
@@ -415,9 +545,9 @@ function NoteEditor({
 
         // Save version snapshot every 5 minutes
         const now = Date.now();
-        if (now - lastVersionRef.current > 300000 && isAuthenticated) {
+        if (now - lastVersionRef.current > 300000 && hasVersionHistory) {
           lastVersionRef.current = now;
-          saveVersion(note.id, title, newContent, "markdown").catch(() => {});
+          saveVersion(versionTarget, title, newContent, "markdown").catch(() => {});
         }
         return true;
       } catch {
@@ -426,7 +556,7 @@ function NoteEditor({
         setIsSaving(false);
       }
     },
-    [note.id, goalTarget, goalType, notesOperations],
+    [note.id, goalTarget, goalType, notesOperations, hasVersionHistory, versionTarget],
   );
 
   const { debouncedSave, flushSave } = useAutoSave(content, saveContent);
@@ -436,6 +566,55 @@ function NoteEditor({
     return () => unregisterNoteFlush(note.id);
   }, [note.id, flushSave, registerNoteFlush, unregisterNoteFlush]);
 
+  // Content replaced from outside the editor (e.g. an offline edit merged in
+  // from another device) — the editor only reads content on mount, so remount.
+  useEffect(() => {
+    if (collaboration.collab) return;
+    if (note.content === content || note.content === lastSavedContentRef.current) return;
+    if (useNotesStore.getState().isEditing.has(note.id)) return;
+    setContent(note.content);
+    setContentFormat(note.contentFormat || "markdown");
+    lastSavedContentRef.current = note.content;
+    setEditorRemountKey((k) => k + 1);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [note.content]);
+
+  const handleResolveConflict = useCallback(
+    (resolved: string) => {
+      setContent(resolved);
+      setContentFormat("markdown");
+      notesOperations.saveNoteContent(note.id, resolved, goalTarget, goalType);
+      useNotesStore.getState().removeConflict(note.id);
+      deleteNoteConflict(note.id).catch(() => {});
+      setEditorRemountKey((k) => k + 1);
+      setShowConflict(false);
+      toast.showSuccess("Conflict resolved");
+    },
+    [note.id, goalTarget, goalType, notesOperations, toast],
+  );
+
+  // Accepting a reader's suggested edit rewrites the passage in the source
+  const handleAcceptSuggestion = useCallback(
+    (comment: NoteComment) => {
+      const updated = applySuggestedEdit(content, comment);
+      if (updated === null) return false;
+      setContent(updated);
+      notesOperations.saveNoteContent(note.id, updated, goalTarget, goalType);
+      setEditorRemountKey((k) => k + 1);
+      return true;
+    },
+    [content, note.id, goalTarget, goalType, notesOperations],
+  );
+
+  // Every accepted AI change is undoable from version history
+  const handleBeforeAIEdit = useCallback(
+    (markdown: string) => {
+      if (!hasVersionHistory) return;
+      saveVersion(versionTarget, title, markdown, "markdown").catch(() => {});
+    },
+    [hasVersionHistory, versionTarget, title],
+  );
+
   const handleContentChange = useCallback(
     (value: string) => {
       setContent(value);
@@ -478,10 +657,43 @@ function NoteEditor({
     [goalInput, note.id, content, notesOperations],
   );
 
+  // Deadline goals count words written from their start date. Challenge
+  // presets follow the note's notebook, like a novel spread across chapters
+  const handleDatedGoal = useCallback(
+    async (
+      targetWords: number,
+      dates: { startDate?: string; dueDate: string },
+      label = "",
+      wholeNotebook = true,
+    ) => {
+      const inNotebook = wholeNotebook && !!note.notebookId;
+      const result = await createWritingGoal({
+        scope: inNotebook ? "notebook" : "note",
+        noteId: inNotebook ? null : note.id,
+        notebookId: inNotebook ? note.notebookId : null,
+        cadence: "deadline",
+        targetWords,
+        ...dates,
+        label,
+      });
+      if (!result.success) {
+        toast.showError(result.error || "Failed to set goal");
+        return;
+      }
+      toast.showSuccess(
+        `Goal set: ${targetWords.toLocaleString()} words${inNotebook && notebook ? ` in ${notebook.name}` : ""} by ${new Date(
+          `${dates.dueDate}T00:00:00Z`,
+        ).toLocaleDateString(undefined, { month: "short", day: "numeric", timeZone: "UTC" })}`,
+      );
+      await refreshWritingGoals();
+    },
+    [note.id, note.notebookId, notebook, toast],
+  );
+
   const isNoteEmpty = !content || content.trim() === "";
 
-  const isWide = wideDefault || noteWide;
-  const wideLevel: WideLevel = wideDefault ? "all" : noteWide ? "one" : "off";
+  const wideLevel = getWideLevel(wideViewDefault, wideViewNotes, note.id);
+  const isWide = wideLevel !== "off";
   const wideTooltip =
     wideLevel === "all"
       ? "Wide view: all notes (click to turn off)"
@@ -493,19 +705,17 @@ function NoteEditor({
   // clears this note's override so it lands genuinely off; other notes' overrides
   // are preserved (ignored while "all" is on, restored when it turns off).
   const cycleWide = useCallback(() => {
-    if (wideDefault) {
-      writeWideDefault(false);
-      writeWideOverride(note.id, false);
-      setWideDefault(false);
-      setNoteWide(false);
-    } else if (noteWide) {
-      writeWideDefault(true);
-      setWideDefault(true);
+    if (wideLevel === "all") {
+      setPreferences({
+        wideViewDefault: false,
+        wideViewNotes: withWideOverride(wideViewNotes, note.id, false),
+      });
+    } else if (wideLevel === "one") {
+      setPreferences({ wideViewDefault: true });
     } else {
-      writeWideOverride(note.id, true);
-      setNoteWide(true);
+      setPreferences({ wideViewNotes: withWideOverride(wideViewNotes, note.id, true) });
     }
-  }, [wideDefault, noteWide, note.id]);
+  }, [wideLevel, wideViewNotes, note.id, setPreferences]);
 
   // Toggle between the rendered (Milkdown) editor and a raw markdown textarea.
   const toggleViewMode = useCallback(() => {
@@ -544,7 +754,9 @@ function NoteEditor({
 
         // Fill the current note in place only when it's empty; otherwise every
         // imported file becomes its own new note (never overwrite existing text).
-        const fillCurrent = !content || content.trim() === "";
+        // A live collab doc can't be swapped out from under other editors.
+        const fillCurrent =
+          !collaboration.collab && (!content || content.trim() === "");
         let startIdx = 0;
 
         if (fillCurrent) {
@@ -576,20 +788,53 @@ function NoteEditor({
         setIsImporting(false);
       }
     },
-    [content, note.id, note.title, notesOperations, saveContent, toast],
+    [content, note.id, note.title, notesOperations, saveContent, toast, collaboration.collab],
+  );
+
+  // Images and PDFs pasted or dropped into the owner's cloud notes are
+  // uploaded as attachments by the editor itself.
+  const canAttach =
+    isAuthenticated &&
+    noteSource === "supabase" &&
+    !isSharedWithMe &&
+    !isEncrypted &&
+    !collaboration.readOnly &&
+    viewMode === "rendered";
+
+  // Writing help sends the selection to the AI provider, so never for
+  // encrypted notes; accepted changes are snapshotted like autosaves.
+  const canUseAIAssist = isAuthenticated && !isSharedWithMe && !isEncrypted;
+
+  const handleUploadAttachment = useCallback(
+    async (file: File) => {
+      const result = await uploadAttachment(note.id, file);
+      if (!result.success || !result.attachment) {
+        toast.showError(result.error || `Couldn't upload ${file.name}`);
+        return null;
+      }
+      return result.attachment;
+    },
+    [note.id, toast],
   );
 
   // Native, capture-phase drag listeners so file drops are handled here and
-  // never reach ProseMirror's own drop handling.
+  // never reach ProseMirror's own drop handling — except attachment drops,
+  // which are left for the editor to place where they land.
   const handleImportRef = useRef(handleImportFiles);
   handleImportRef.current = handleImportFiles;
+  const canAttachRef = useRef(canAttach);
+  canAttachRef.current = canAttach;
 
   useEffect(() => {
     const el = dropZoneRef.current;
     if (!el) return;
 
-    const hasFiles = (e: DragEvent) =>
-      Array.from(e.dataTransfer?.types || []).includes("Files");
+    const hasFiles = (e: DragEvent) => {
+      if (!Array.from(e.dataTransfer?.types || []).includes("Files")) return false;
+      if (!canAttachRef.current) return true;
+      const files = Array.from(e.dataTransfer?.items || []).filter((i) => i.kind === "file");
+      return !files.every((item) => isAttachmentType(item.type));
+    };
 
     const onDragEnter = (e: DragEvent) => {
       if (!hasFiles(e)) return;
@@ -646,6 +891,8 @@ function NoteEditor({
         </div>
 
         <div className="flex items-center">
+          <PresenceAvatars peers={collaboration.peers} />
+
           <IconButton
             label="Formatting help"
             size="sm"
@@ -654,7 +901,7 @@ function NoteEditor({
             <IconHelp size={14} />
           </IconButton>
 
-          {isAuthenticated && (
+          {hasVersionHistory && (
             <IconButton
               label="Version history"
               size="sm"
@@ -675,13 +922,15 @@ function NoteEditor({
               e.target.value = "";
             }}
           />
-          <IconButton
-            label="Open a .txt or .md file"
-            size="sm"
-            onClick={() => fileInputRef.current?.click()}
-          >
-            <IconFileImport size={14} />
-          </IconButton>
+          {!collaboration.readOnly && (
+            <IconButton
+              label="Open a .txt or .md file"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <IconFileImport size={14} />
+            </IconButton>
+          )}
 
           <div className="w-px h-3 bg-[var(--color-border-secondary)] mx-0.5" />
 
@@ -728,49 +977,90 @@ function NoteEditor({
             </span>
           )}
 
-          <IconButton
-            label={viewMode === "rendered" ? "View markdown source" : "View formatted"}
-            size="sm"
-            onClick={toggleViewMode}
-            className={viewMode === "source" ? "text-[var(--color-accent)]" : undefined}
-          >
-            <IconMarkdown size={14} />
-          </IconButton>
+          {/* Raw source edits can't be merged into the shared Yjs document */}
+          {!collaboration.collab && (
+            <IconButton
+              label={viewMode === "rendered" ? "View markdown source" : "View formatted"}
+              size="sm"
+              onClick={toggleViewMode}
+              className={viewMode === "source" ? "text-[var(--color-accent)]" : undefined}
+            >
+              <IconMarkdown size={14} />
+            </IconButton>
+          )}
 
           <div className="w-px h-3 bg-[var(--color-border-secondary)] mx-0.5" />
 
-          <IconButton
-            label={note.isPinned ? "Unpin" : "Pin"}
-            size="sm"
-            onClick={() => notesOperations.updatePinStatus(note.id, !note.isPinned)}
-          >
-            {note.isPinned ? (
-              <IconPinFilled size={14} className="text-[var(--color-accent)]" />
-            ) : (
-              <IconPin size={14} />
-            )}
-          </IconButton>
+          {!isSharedWithMe && (
+            <>
+              <IconButton
+                label={note.isPinned ? "Unpin" : "Pin"}
+                size="sm"
+                onClick={() => notesOperations.updatePinStatus(note.id, !note.isPinned)}
+              >
+                {note.isPinned ? (
+                  <IconPinFilled size={14} className="text-[var(--color-accent)]" />
+                ) : (
+                  <IconPin size={14} />
+                )}
+              </IconButton>
 
-          <IconButton
-            label={note.isPrivate ? "Public" : "Private"}
-            size="sm"
-            onClick={() => notesOperations.updatePrivacyStatus(note.id, !note.isPrivate)}
-          >
-            {note.isPrivate ? (
-              <IconLock size={14} />
-            ) : (
-              <IconLockOpen size={14} />
-            )}
-          </IconButton>
+              <IconButton
+                label={note.isPrivate ? "Public" : "Private"}
+                size="sm"
+                onClick={() => {
+                  // Either way the content would need re-encrypting or decrypting
+                  if (noteSource === "supabase" && encryptionStatus === "locked") {
+                    toast.showError("Unlock encrypted notes to change this note's privacy");
+                    return;
+                  }
+                  notesOperations.updatePrivacyStatus(note.id, !note.isPrivate);
+                }}
+              >
+                {note.isPrivate ? (
+                  <IconLock size={14} />
+                ) : (
+                  <IconLockOpen size={14} />
+                )}
+              </IconButton>
 
-          {isAuthenticated && (
-            <ShareNoteButton
-              noteId={note.id}
-              noteTitle={title}
-              noteSource={noteSource}
-              isPrivate={note.isPrivate}
-              isAuthenticated={isAuthenticated}
-              userId={userId}
+              {noteComments.comments.length > 0 && (
+                <IconButton
+                  label="Comments"
+                  size="sm"
+                  onClick={() => {
+                    if (!showComments) noteComments.reload();
+                    setShowComments((s) => !s);
+                  }}
+                  className={`relative ${showComments ? "text-[var(--color-accent)]" : ""}`}
+                >
+                  <IconMessageCircle size={14} />
+                  {noteComments.openCount > 0 && (
+                    <span className="absolute top-0.5 right-0.5 min-w-[14px] h-[14px] px-0.5 flex items-center justify-center text-[9px] font-semibold leading-none rounded-full bg-[var(--color-accent)] text-[var(--color-text-on-accent)]">
+                      {noteComments.openCount}
+                    </span>
+                  )}
+                </IconButton>
+              )}
+
+              {isAuthenticated && !isEncrypted && (
+                <ShareNoteButton
+                  noteId={note.id}
+                  noteTitle={title}
+                  noteSource={noteSource}
+                  isPrivate={note.isPrivate}
+                  isAuthenticated={isAuthenticated}
+                  userId={userId}
+                />
+              )}
+            </>
+          )}
+
+          {collaboration.session && (
+            <CollaboratorsButton
+              session={collaboration.session}
+              onChange={collaboration.refresh}
+              onLeave={() => useNotesStore.getState().optimisticDeleteNote(note.id)}
             />
           )}
 
@@ -782,45 +1072,47 @@ function NoteEditor({
             <IconPrinter size={14} />
           </IconButton>
 
-          <Dropdown
-            trigger={
-              <IconButton label="More" size="sm">
-                <IconDots size={14} />
-              </IconButton>
-            }
-          >
-            {isAuthenticated && notebooks.length > 0 && (
-              <>
-                <NotebookMoveMenu
-                  notebooks={notebooks}
-                  currentNotebookId={note.notebookId}
-                  onMove={async (notebookId) => {
-                    if (notebookId === note.notebookId) return;
-                    const { optimisticUpdateNote, recalculateNotebookCounts } = useNotesStore.getState();
-                    optimisticUpdateNote(note.id, { notebookId });
-                    try {
-                      const result = await assignNoteToNotebook(note.id, notebookId);
-                      if (result.success) {
-                        recalculateNotebookCounts();
-                      } else {
+          {!isSharedWithMe && (
+            <Dropdown
+              trigger={
+                <IconButton label="More" size="sm">
+                  <IconDots size={14} />
+                </IconButton>
+              }
+            >
+              {isAuthenticated && notebooks.length > 0 && (
+                <>
+                  <NotebookMoveMenu
+                    notebooks={notebooks}
+                    currentNotebookId={note.notebookId}
+                    onMove={async (notebookId) => {
+                      if (notebookId === note.notebookId) return;
+                      const { optimisticUpdateNote, recalculateNotebookCounts } = useNotesStore.getState();
+                      optimisticUpdateNote(note.id, { notebookId });
+                      try {
+                        const result = await assignNoteToNotebook(note.id, notebookId);
+                        if (result.success) {
+                          recalculateNotebookCounts();
+                        } else {
+                          optimisticUpdateNote(note.id, { notebookId: note.notebookId });
+                        }
+                      } catch {
                         optimisticUpdateNote(note.id, { notebookId: note.notebookId });
                       }
-                    } catch {
-                      optimisticUpdateNote(note.id, { notebookId: note.notebookId });
-                    }
-                  }}
-                />
-                <DropdownSeparator />
-              </>
-            )}
-            <DropdownItem
-              icon={<IconTrash size={14} />}
-              destructive
-              onClick={() => setShowDeleteConfirm(true)}
-            >
-              Delete
-            </DropdownItem>
-          </Dropdown>
+                    }}
+                  />
+                  <DropdownSeparator />
+                </>
+              )}
+              <DropdownItem
+                icon={<IconTrash size={14} />}
+                destructive
+                onClick={() => setShowDeleteConfirm(true)}
+              >
+                Delete
+              </DropdownItem>
+            </Dropdown>
+          )}
         </div>
       </div>
 
@@ -838,173 +1130,251 @@ function NoteEditor({
         destructive
       />
 
-      {/* Editor area */}
-      <div ref={scrollRef} className="flex-1 overflow-y-auto scrollbar-thin">
-        <div className={`mx-auto px-4 md:px-8 py-6 min-h-full flex flex-col transition-[max-width] duration-[var(--duration-slow)] ${isWide ? "max-w-none" : "max-w-[var(--content-width)]"}`}>
-          {/* Title */}
-          <input
-            ref={titleInputRef}
-            type="text"
-            value={title}
-            onChange={(e) => setTitle(e.target.value)}
-            onBlur={handleTitleBlur}
-            onKeyDown={handleTitleKeyDown}
-            placeholder="Untitled"
-            className="w-full text-2xl md:text-3xl font-bold text-[var(--color-text-primary)] placeholder:text-[var(--color-text-tertiary)] bg-transparent border-none outline-none mb-1"
-          />
-
-          {/* Notebook pill + stats */}
-          <div className="print:hidden flex items-center gap-2 flex-wrap">
-            {notebook && (
-              <span className="inline-flex items-center gap-0.5 px-1.5 py-px text-[9px] font-medium rounded-[var(--radius-sm)] bg-[var(--color-accent-subtle)] text-[var(--color-accent)]">
-                <IconNotebook size={8} className="shrink-0" />
-                {notebook.name}
-              </span>
-            )}
-            <span className="text-[10px] text-[var(--color-text-tertiary)] opacity-80">
-              <span title={`${wordCount} words`}>{wordCount}w</span> · <span title={`${charCount} characters`}>{charCount}c</span> · <span title="Estimated reading time">{readingTime}</span> ·{" "}
-              <button
-                onClick={() => setShowPagePicker((s) => !s)}
-                className="underline decoration-dotted underline-offset-2 hover:text-[var(--color-text-secondary)] transition-colors"
-              >
-                {pageEstimate}
-              </button>
-              {" "}·{" "}
-              <button
-                onClick={() => setShowGoalPicker((s) => !s)}
-                className="underline decoration-dotted underline-offset-2 hover:text-[var(--color-text-secondary)] transition-colors"
-              >
-                {goalTarget > 0 ? `${Math.round(progressPercentage)}% of ${goalTarget} ${goalType}` : "set goal"}
-              </button>
-            </span>
-            {goalTarget > 0 && (
-              <span
-                className="inline-block h-1 rounded-full bg-[var(--color-border-primary)] overflow-hidden"
-                style={{ width: 40 }}
-              >
-                <span
-                  className="block h-full rounded-full bg-[var(--color-accent)] transition-all duration-300"
-                  style={{ width: `${Math.min(progressPercentage, 100)}%` }}
-                />
-              </span>
-            )}
-          </div>
+      <div className="flex-1 flex min-h-0 relative">
+        {/* Editor area */}
+        <div ref={scrollRef} className="flex-1 min-w-0 overflow-y-auto scrollbar-thin">
+          <div className={`mx-auto px-4 md:px-8 py-6 min-h-full flex flex-col transition-[max-width] duration-[var(--duration-slow)] ${isWide ? "max-w-none" : "max-w-[var(--content-width)]"}`}>
+            {/* Title */}
+            <input
+              ref={titleInputRef}
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              onBlur={handleTitleBlur}
+              readOnly={collaboration.readOnly}
+              onKeyDown={handleTitleKeyDown}
+              placeholder="Untitled"
+              className="w-full text-2xl md:text-3xl font-bold text-[var(--color-text-primary)] placeholder:text-[var(--color-text-tertiary)] bg-transparent border-none outline-none mb-1"
+            />
 
-          {/* Page size picker */}
-          {showPagePicker && (
-            <div className="mb-4 flex items-center gap-2 animate-fade-in">
-              <label className="text-[10px] text-[var(--color-text-tertiary)] opacity-80">Page size:</label>
-              {(["novel", "a4", "a5"] as const).map((fmt) => (
+            {/* Notebook pill + stats */}
+            <div className="print:hidden flex items-center gap-2 flex-wrap">
+              {notebook && (
+                <span className="inline-flex items-center gap-0.5 px-1.5 py-px text-[9px] font-medium rounded-[var(--radius-sm)] bg-[var(--color-accent-subtle)] text-[var(--color-accent)]">
+                  <IconNotebook size={8} className="shrink-0" />
+                  {notebook.name}
+                </span>
+              )}
+              <span className="text-[10px] text-[var(--color-text-tertiary)] opacity-80">
+                <span title={`${wordCount} words`}>{wordCount}w</span> · <span title={`${charCount} characters`}>{charCount}c</span> · <span title="Estimated reading time">{readingTime}</span> ·{" "}
                 <button
-                  key={fmt}
-                  onClick={() => { setPageFormat(fmt); setShowPagePicker(false); }}
-                  className={`px-2 py-0.5 text-[10px] rounded-[var(--radius-sm)] transition-colors ${
-                    pageFormat === fmt
-                      ? "bg-[var(--color-accent)] text-[var(--color-text-on-accent)]"
-                      : "bg-[var(--color-bg-tertiary)] text-[var(--color-text-secondary)] hover:bg-[var(--color-hover)]"
-                  }`}
+                  onClick={() => setShowPagePicker((s) => !s)}
+                  className="underline decoration-dotted underline-offset-2 hover:text-[var(--color-text-secondary)] transition-colors"
                 >
-                  {fmt === "novel" ? "Novel" : fmt.toUpperCase()}
+                  {pageEstimate}
                 </button>
-              ))}
+                {" "}·{" "}
+                <button
+                  onClick={() => setShowGoalPicker((s) => !s)}
+                  className="underline decoration-dotted underline-offset-2 hover:text-[var(--color-text-secondary)] transition-colors"
+                >
+                  {goalTarget > 0 ? `${Math.round(progressPercentage)}% of ${goalTarget} ${goalType}` : "set goal"}
+                </button>
+                {writingGoal && writingGoal.progress.status !== "met" && (
+                  <span title={describeGoalPace(writingGoal)}>
+                    {" "}· {writingGoal.progress.requiredPace.toLocaleString()}/day
+                  </span>
+                )}
+              </span>
+              {writingGoal && (
+                <span title={describeGoalPace(writingGoal)}>
+                  <GoalStatusBadge goal={writingGoal} />
+                </span>
+              )}
+              {goalTarget > 0 && (
+                <span
+                  className="inline-block h-1 rounded-full bg-[var(--color-border-primary)] overflow-hidden"
+                  style={{ width: 40 }}
+                >
+                  <span
+                    className="block h-full rounded-full bg-[var(--color-accent)] transition-all duration-300"
+                    style={{ width: `${Math.min(progressPercentage, 100)}%` }}
+                  />
+                </span>
+              )}
             </div>
-          )}
 
-          {/* Goal picker */}
-          {showGoalPicker && (
-            <div className="mb-4 flex items-center gap-2 animate-fade-in">
-              <label className="text-[10px] text-[var(--color-text-tertiary)] opacity-80">Goal:</label>
-              <input
-                type="text"
-                inputMode="numeric"
-                placeholder="e.g. 50000"
-                value={goalInput}
-                onChange={(e) => {
-                  const v = e.target.value.replace(/[^0-9]/g, "");
-                  setGoalInput(v);
-                }}
-                onKeyDown={(e) => {
-                  if (e.key === "Enter") {
-                    handleGoalSave();
-                    setShowGoalPicker(false);
-                  }
-                }}
-                autoFocus
-                className="w-24 h-7 px-2.5 text-xs bg-[var(--color-bg-tertiary)] border border-[var(--color-border-primary)] rounded-[var(--radius-md)] text-[var(--color-text-primary)] focus:border-[var(--color-border-focus)] focus:outline-none"
-              />
-              {(["words", "characters"] as const).map((t) => (
+            {/* Unresolved edit conflict */}
+            {conflict && (
+              <div className="print:hidden mt-2 flex items-center gap-2 px-3 py-2 text-xs rounded-[var(--radius-md)] bg-[var(--color-warning)]/10 text-[var(--color-text-secondary)] animate-fade-in">
+                <IconGitMerge size={14} className="text-[var(--color-warning)] shrink-0" />
+                <span className="flex-1">
+                  This note was edited on another device while you were offline. Your version is kept until you choose.
+                </span>
                 <button
-                  key={t}
-                  onClick={() => {
-                    const target = parseInt(goalInput) || 0;
-                    setGoalTarget(target);
-                    setGoalType(t);
-                    notesOperations.saveNoteContent(note.id, content, target, t);
-                    setShowGoalPicker(false);
-                  }}
-                  className={`px-2 py-0.5 text-[10px] rounded-[var(--radius-sm)] transition-colors ${
-                    goalType === t
-                      ? "bg-[var(--color-accent)] text-[var(--color-text-on-accent)]"
-                      : "bg-[var(--color-bg-tertiary)] text-[var(--color-text-secondary)] hover:bg-[var(--color-hover)]"
-                  }`}
+                  onClick={() => setShowConflict(true)}
+                  className="shrink-0 font-medium text-[var(--color-accent)] hover:text-[var(--color-accent-hover)] transition-colors"
                 >
-                  {t}
+                  Resolve
                 </button>
-              ))}
-              <button
-                onClick={() => setShowGoalSuggestions(true)}
-                className="px-2 py-0.5 text-[10px] text-[var(--color-accent)] hover:text-[var(--color-accent-hover)] underline decoration-dotted underline-offset-2 transition-colors"
-              >
-                suggestions
-              </button>
-            </div>
-          )}
+              </div>
+            )}
 
-          {/* Content editor — grows to fill the remaining height */}
-          <div ref={dropZoneRef} className="jn-droppable relative flex-1 flex flex-col">
-            {isDraggingFile && (
-              <div className="absolute inset-0 z-20 flex items-center justify-center pointer-events-none rounded-[var(--radius-lg)] border-2 border-dashed border-[var(--color-accent)] bg-[var(--color-accent-subtle)]">
-                <div className="flex flex-col items-center gap-1.5 text-[var(--color-accent)]">
-                  <IconFileImport size={26} />
-                  <span className="text-sm font-medium">
-                    {isNoteEmpty
-                      ? "Drop to open in this note"
-                      : "Drop to open as a new note"}
-                  </span>
-                  <span className="text-[11px] opacity-70">.txt or .md</span>
-                </div>
+            {/* Page size picker */}
+            {showPagePicker && (
+              <div className="mb-4 flex items-center gap-2 animate-fade-in">
+                <label className="text-[10px] text-[var(--color-text-tertiary)] opacity-80">Page size:</label>
+                {(["novel", "a4", "a5"] as const).map((fmt) => (
+                  <button
+                    key={fmt}
+                    onClick={() => { setPageFormat(fmt); setShowPagePicker(false); }}
+                    className={`px-2 py-0.5 text-[10px] rounded-[var(--radius-sm)] transition-colors ${
+                      pageFormat === fmt
+                        ? "bg-[var(--color-accent)] text-[var(--color-text-on-accent)]"
+                        : "bg-[var(--color-bg-tertiary)] text-[var(--color-text-secondary)] hover:bg-[var(--color-hover)]"
+                    }`}
+                  >
+                    {fmt === "novel" ? "Novel" : fmt.toUpperCase()}
+                  </button>
+                ))}
               </div>
             )}
-            {isImporting && (
-              <div className="absolute inset-0 z-20 flex items-center justify-center rounded-[var(--radius-lg)] bg-[var(--color-bg-primary)]/70 backdrop-blur-[1px]">
-                <div className="flex items-center gap-2 text-[var(--color-text-secondary)]">
-                  <span className="size-4 rounded-full border-2 border-[var(--color-border-primary)] border-t-[var(--color-accent)] animate-spin" />
-                  <span className="text-sm font-medium">Opening file…</span>
-                </div>
+
+            {/* Goal picker */}
+            {showGoalPicker && (
+              <div className="mb-4 flex items-center gap-2 animate-fade-in">
+                <label className="text-[10px] text-[var(--color-text-tertiary)] opacity-80">Goal:</label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  placeholder="e.g. 50000"
+                  value={goalInput}
+                  onChange={(e) => {
+                    const v = e.target.value.replace(/[^0-9]/g, "");
+                    setGoalInput(v);
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      handleGoalSave();
+                      setShowGoalPicker(false);
+                    }
+                  }}
+                  autoFocus
+                  className="w-24 h-7 px-2.5 text-xs bg-[var(--color-bg-tertiary)] border border-[var(--color-border-primary)] rounded-[var(--radius-md)] text-[var(--color-text-primary)] focus:border-[var(--color-border-focus)] focus:outline-none"
+                />
+                {(["words", "characters"] as const).map((t) => (
+                  <button
+                    key={t}
+                    onClick={() => {
+                      const target = parseInt(goalInput) || 0;
+                      setGoalTarget(target);
+                      setGoalType(t);
+                      notesOperations.saveNoteContent(note.id, content, target, t);
+                      setShowGoalPicker(false);
+                    }}
+                    className={`px-2 py-0.5 text-[10px] rounded-[var(--radius-sm)] transition-colors ${
+                      goalType === t
+                        ? "bg-[var(--color-accent)] text-[var(--color-text-on-accent)]"
+                        : "bg-[var(--color-bg-tertiary)] text-[var(--color-text-secondary)] hover:bg-[var(--color-hover)]"
+                    }`}
+                  >
+                    {t}
+                  </button>
+                ))}
+                <button
+                  onClick={() => setShowGoalSuggestions(true)}
+                  className="px-2 py-0.5 text-[10px] text-[var(--color-accent)] hover:text-[var(--color-accent-hover)] underline decoration-dotted underline-offset-2 transition-colors"
+                >
+                  suggestions
+                </button>
+                {isAuthenticated && goalType !== "characters" && (
+                  <>
+                    <label className="text-[10px] text-[var(--color-text-tertiary)] opacity-80">by</label>
+                    <input
+                      type="date"
+                      value={goalDueDate}
+                      min={addDays(toUTCDateKey(new Date()), 1)}
+                      onChange={(e) => setGoalDueDate(e.target.value)}
+                      title="Finish by a date and track the daily pace"
+                      className="h-7 px-2 text-xs bg-[var(--color-bg-tertiary)] border border-[var(--color-border-primary)] rounded-[var(--radius-md)] text-[var(--color-text-primary)] focus:border-[var(--color-border-focus)] focus:outline-none"
+                    />
+                    {goalDueDate && (
+                      <button
+                        onClick={() => {
+                          const target = parseInt(goalInput) || 0;
+                          if (target <= 0) return;
+                          handleDatedGoal(target, { dueDate: goalDueDate }, "", false);
+                          setGoalDueDate("");
+                          setShowGoalPicker(false);
+                        }}
+                        disabled={!(parseInt(goalInput) > 0)}
+                        className="px-2 py-0.5 text-[10px] rounded-[var(--radius-sm)] bg-[var(--color-accent)] text-[var(--color-text-on-accent)] disabled:opacity-50 transition-colors"
+                      >
+                        track pace
+                      </button>
+                    )}
+                  </>
+                )}
               </div>
             )}
-            {viewMode === "source" ? (
-              <textarea
-                value={content}
-                onChange={(e) => handleContentChange(e.target.value)}
-                spellCheck={false}
-                placeholder="# Markdown source"
-                className="flex-1 w-full resize-none bg-transparent border-none outline-none font-mono text-sm leading-relaxed text-[var(--color-text-primary)] placeholder:text-[var(--color-text-tertiary)]"
-              />
-            ) : (
-              <LazyTextBlock
-                key={`${note.id}-${editorRemountKey}`}
-                noteId={note.id}
-                value={content}
-                contentFormat={contentFormat}
-                onChange={handleContentChange}
-                distractionFreeMode
-                placeholder="Start writing..."
-                className="flex-1 flex flex-col overflow-visible"
-              />
+
+            {/* Content editor — grows to fill the remaining height */}
+            <div ref={dropZoneRef} className="jn-droppable relative flex-1 flex flex-col">
+              {isDraggingFile && (
+                <div className="absolute inset-0 z-20 flex items-center justify-center pointer-events-none rounded-[var(--radius-lg)] border-2 border-dashed border-[var(--color-accent)] bg-[var(--color-accent-subtle)]">
+                  <div className="flex flex-col items-center gap-1.5 text-[var(--color-accent)]">
+                    <IconFileImport size={26} />
+                    <span className="text-sm font-medium">
+                      {isNoteEmpty
+                        ? "Drop to open in this note"
+                        : "Drop to open as a new note"}
+                    </span>
+                    <span className="text-[11px] opacity-70">.txt or .md</span>
+                  </div>
+                </div>
+              )}
+              {isImporting && (
+                <div className="absolute inset-0 z-20 flex items-center justify-center rounded-[var(--radius-lg)] bg-[var(--color-bg-primary)]/70 backdrop-blur-[1px]">
+                  <div className="flex items-center gap-2 text-[var(--color-text-secondary)]">
+                    <span className="size-4 rounded-full border-2 border-[var(--color-border-primary)] border-t-[var(--color-accent)] animate-spin" />
+                    <span className="text-sm font-medium">Opening file…</span>
+                  </div>
+                </div>
+              )}
+              {viewMode === "source" ? (
+                <textarea
+                  value={content}
+                  onChange={(e) => handleContentChange(e.target.value)}
+                  spellCheck={false}
+                  placeholder="# Markdown source"
+                  className="flex-1 w-full resize-none bg-transparent border-none outline-none font-mono text-sm leading-relaxed text-[var(--color-text-primary)] placeholder:text-[var(--color-text-tertiary)]"
+                />
+              ) : (
+                <LazyTextBlock
+                  key={`${note.id}-${editorRemountKey}-${collaboration.collab ? "live" : "solo"}`}
+                  noteId={note.id}
+                  value={content}
+                  contentFormat={contentFormat}
+                  onChange={handleContentChange}
+                  readOnly={collaboration.readOnly}
+                  collab={collaboration.collab}
+                  onOpenNoteLink={onOpenNoteLink}
+                  onUploadAttachment={canAttach ? handleUploadAttachment : undefined}
+                  onBeforeAIEdit={canUseAIAssist ? handleBeforeAIEdit : undefined}
+                  distractionFreeMode
+                  placeholder="Start writing..."
+                  className="flex-1 flex flex-col overflow-visible"
+                />
+              )}
+            </div>
+
+            <BacklinksPanel noteId={note.id} onOpenNote={onOpenNoteLink} />
+            {isAuthenticated && noteSource === "supabase" && !isSharedWithMe && !isEncrypted && (
+              <RelatedNotesPanel noteId={note.id} onOpenNote={onOpenNoteLink} />
             )}
           </div>
         </div>
+
+        {/* Reader comments on the shared note */}
+        {showComments && (
+          <CommentsMargin
+            comments={noteComments.comments}
+            setComments={noteComments.setComments}
+            editorRootRef={dropZoneRef}
+            onClose={() => setShowComments(false)}
+            onAcceptSuggestion={collaboration.collab ? undefined : handleAcceptSuggestion}
+          />
+        )}
       </div>
 
       {/* Formatting help modal */}
@@ -1029,6 +1399,7 @@ function NoteEditor({
             ["```", "Code block"],
             ["---", "Horizontal rule"],
             ["[text](url)", "Link"],
+            ["[[note", "Link to another note"],
             ["![alt](url)", "Image"],
           ].map(([syntax, desc]) => (
             <div key={syntax} className="flex items-center justify-between py-1.5 border-b border-[var(--color-border-secondary)] last:border-0">
@@ -1055,19 +1426,37 @@ function NoteEditor({
           notesOperations.saveNoteContent(note.id, content, value, type);
           setShowGoalPicker(false);
         }}
+        onSelectDated={isAuthenticated ? handleDatedGoal : undefined}
       />
 
+      {conflict && (
+        <ConflictResolutionModal
+          open={showConflict}
+          onClose={() => setShowConflict(false)}
+          conflict={conflict}
+          currentContent={content}
+          onResolve={handleResolveConflict}
+        />
+      )}
+
       {/* Version history */}
       <VersionHistoryPanel
         noteId={note.id}
+        source={noteSource}
+        userId={userId}
         open={showVersions}
         onClose={() => setShowVersions(false)}
+        currentContent={content}
+        currentContentFormat={contentFormat}
+        currentTitle={title}
         onRestore={(restoredContent, restoredTitle) => {
           setContent(restoredContent);
           setTitle(restoredTitle);
           setContentFormat("markdown");
           notesOperations.saveNoteContent(note.id, restoredContent, goalTarget, goalType);
           notesOperations.saveNoteTitle?.(note.id, restoredTitle);
+          // Editor reads content only on mount — remount it to show the restore.
+          setEditorRemountKey((k) => k + 1);
         }}
       />
     </div>
@@ -0,0 +1,64 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { IconLink, IconChevronDown, IconChevronRight, IconLayoutColumns } from "@tabler/icons-react";
+import { useNotesStore } from "@/stores/notes-store";
+import { findBacklinks } from "@/utils/note-links";
+
+interface BacklinksPanelProps {
+  noteId: string;
+  /** Opens a linking note; `beside` asks for the split-view reference pane */
+  onOpenNote: (noteId: string, beside: boolean) => void;
+}
+
+/** "Linked from" list: every note in the store that links to this one. */
+export default function BacklinksPanel({ noteId, onOpenNote }: BacklinksPanelProps) {
+  const notes = useNotesStore((s) => s.notes);
+  const [expanded, setExpanded] = useState(true);
+
+  const backlinks = useMemo(() => findBacklinks(notes, noteId), [notes, noteId]);
+
+  if (backlinks.length === 0) return null;
+
+  return (
+    <section className="mt-8 pt-3 border-t border-[var(--color-border-secondary)]">
+      <button
+        onClick={() => setExpanded((e) => !e)}
+        className="flex items-center gap-1.5 text-[11px] font-medium text-[var(--color-text-tertiary)] uppercase tracking-wider hover:text-[var(--color-text-secondary)] transition-colors"
+      >
+        {expanded ? <IconChevronDown size={12} /> : <IconChevronRight size={12} />}
+        <IconLink size={12} />
+        Linked from {backlinks.length} note{backlinks.length === 1 ? "" : "s"}
+      </button>
+
+      {expanded && (
+        <ul className="mt-2 flex flex-col gap-0.5">
+          {backlinks.map(({ note, context }) => (
+            <li key={note.id} className="group flex items-start gap-1">
+              <button
+                onClick={() => onOpenNote(note.id, false)}
+                className="flex-1 min-w-0 text-left px-2 py-1.5 rounded-[var(--radius-md)] hover:bg-[var(--color-hover)] transition-colors"
+              >
+                <p className="text-[13px] font-medium text-[var(--color-text-primary)] truncate">
+                  {note.title || "Untitled"}
+                </p>
+                {context && (
+                  <p className="text-[11px] text-[var(--color-text-tertiary)] line-clamp-2 mt-0.5">
+                    {context}
+                  </p>
+                )}
+              </button>
+              <button
+                onClick={() => onOpenNote(note.id, true)}
+                title="Open beside"
+                className="mt-1.5 p-1 text-[var(--color-text-tertiary)] hover:text-[var(--color-text-secondary)] hover:bg-[var(--color-hover)] rounded-[var(--radius-sm)] opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+              >
+                <IconLayoutColumns size={13} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,212 @@
+"use client";
+
+import React, { useState, useCallback } from "react";
+import { IconUsersGroup, IconUserPlus, IconX, IconLogout } from "@tabler/icons-react";
+import { Modal } from "@/components/ds/modal";
+import { IconButton } from "@/components/ds/icon-button";
+import { useToast } from "@/components/ui/toast";
+import {
+  addCollaborator,
+  updateCollaboratorRole,
+  removeCollaborator,
+} from "@/app/actions/collaborationActions";
+import type { CollaborationSession, CollaboratorRole } from "@/types/subscription";
+
+type InvitableRole = Exclude<CollaboratorRole, "owner">;
+
+interface CollaboratorsButtonProps {
+  session: CollaborationSession;
+  onChange: () => void;
+  /** Called after the current user leaves a note shared with them */
+  onLeave?: () => void;
+}
+
+export default function CollaboratorsButton({
+  session,
+  onChange,
+  onLeave,
+}: CollaboratorsButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [newUsername, setNewUsername] = useState("");
+  const [newRole, setNewRole] = useState<InvitableRole>("editor");
+
+  const toast = useToast();
+  const isOwner = session.role === "owner";
+  const atLimit =
+    session.maxCollaborators !== -1 &&
+    session.collaborators.length >= session.maxCollaborators;
+
+  const handleInvite = useCallback(async () => {
+    if (!newUsername.trim()) return;
+    setSaving(true);
+    try {
+      const result = await addCollaborator(session.noteId, newUsername.trim(), newRole);
+      if (result.success) {
+        setNewUsername("");
+        toast.showSuccess(`Invited ${result.collaborator?.displayName} as ${newRole}`);
+        onChange();
+      } else {
+        toast.showError(result.error || "Failed to invite collaborator");
+      }
+    } finally {
+      setSaving(false);
+    }
+  }, [session.noteId, newUsername, newRole, toast, onChange]);
+
+  const handleRoleChange = useCallback(
+    async (collaboratorId: string, role: InvitableRole) => {
+      const result = await updateCollaboratorRole(session.noteId, collaboratorId, role);
+      if (result.success) {
+        onChange();
+      } else {
+        toast.showError(result.error || "Failed to update role");
+      }
+    },
+    [session.noteId, toast, onChange],
+  );
+
+  const handleRemove = useCallback(
+    async (collaboratorId: string) => {
+      const result = await removeCollaborator(session.noteId, collaboratorId);
+      if (!result.success) {
+        toast.showError(result.error || "Failed to remove collaborator");
+        return;
+      }
+      if (collaboratorId === session.self.userId) {
+        setOpen(false);
+        toast.showSuccess("You left the note");
+        onLeave?.();
+      } else {
+        onChange();
+      }
+    },
+    [session.noteId, session.self.userId, toast, onChange, onLeave],
+  );
+
+  return (
+    <>
+      <IconButton label="Collaborators" size="sm" onClick={() => setOpen(true)}>
+        <IconUsersGroup
+          size={14}
+          className={session.collaborators.length > 0 ? "text-[var(--color-accent)]" : ""}
+        />
+      </IconButton>
+
+      <Modal open={open} onClose={() => setOpen(false)} title="Collaborators" size="sm">
+        <div className="space-y-4">
+          {isOwner && session.maxCollaborators === 0 ? (
+            <p className="text-xs text-[var(--color-text-tertiary)]">
+              Collaborative editing is available on Pro and Team plans.
+            </p>
+          ) : isOwner ? (
+            <div className="space-y-2">
+              <label className="text-[11px] font-medium text-[var(--color-text-tertiary)] uppercase tracking-wider">
+                Invite
+              </label>
+              <div className="flex gap-1.5">
+                <input
+                  type="text"
+                  placeholder="Username"
+                  value={newUsername}
+                  onChange={(e) => setNewUsername(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleInvite()}
+                  disabled={atLimit}
+                  className="flex-1 min-w-0 h-8 px-3 text-xs bg-[var(--color-bg-primary)] border border-[var(--color-border-primary)] rounded-[var(--radius-md)] text-[var(--color-text-primary)] placeholder:text-[var(--color-text-tertiary)] focus:border-[var(--color-border-focus)] focus:outline-none disabled:opacity-50"
+                />
+                <RoleSelect value={newRole} onChange={setNewRole} />
+                <button
+                  onClick={handleInvite}
+                  disabled={saving || atLimit || !newUsername.trim()}
+                  className="h-8 px-2.5 flex items-center gap-1 text-xs font-medium bg-[var(--color-bg-tertiary)] text-[var(--color-text-secondary)] rounded-[var(--radius-md)] hover:bg-[var(--color-active)] disabled:opacity-50 transition-colors"
+                >
+                  <IconUserPlus size={13} />
+                  Invite
+                </button>
+              </div>
+              {atLimit && (
+                <p className="text-[10px] text-[var(--color-text-tertiary)]">
+                  Your plan allows up to {session.maxCollaborators} collaborators per note.
+                </p>
+              )}
+            </div>
+          ) : (
+            <p className="text-xs text-[var(--color-text-tertiary)]">
+              You have {session.role} access to this note.
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <label className="text-[11px] font-medium text-[var(--color-text-tertiary)] uppercase tracking-wider">
+              People with access
+            </label>
+            {session.collaborators.length === 0 ? (
+              <p className="text-xs text-[var(--color-text-tertiary)]">
+                Only you can see this note.
+              </p>
+            ) : (
+              <ul className="space-y-1">
+                {session.collaborators.map((c) => {
+                  const isSelf = c.odId === session.self.userId;
+                  return (
+                    <li
+                      key={c.odId}
+                      className="flex items-center justify-between gap-2 px-2.5 py-1.5 text-xs bg-[var(--color-bg-tertiary)] rounded-[var(--radius-md)]"
+                    >
+                      <span className="truncate text-[var(--color-text-primary)]">
+                        {c.displayName || "Unknown"}
+                        {isSelf && (
+                          <span className="text-[var(--color-text-tertiary)]"> (you)</span>
+                        )}
+                      </span>
+                      <div className="flex items-center gap-1.5 shrink-0">
+                        {isOwner ? (
+                          <RoleSelect
+                            value={c.role as InvitableRole}
+                            onChange={(role) => handleRoleChange(c.odId, role)}
+                          />
+                        ) : (
+                          <span className="text-[10px] text-[var(--color-text-tertiary)]">
+                            {c.role}
+                          </span>
+                        )}
+                        {(isOwner || isSelf) && (
+                          <button
+                            onClick={() => handleRemove(c.odId)}
+                            title={isSelf ? "Leave note" : "Remove"}
+                            className="text-[var(--color-text-tertiary)] hover:text-[var(--color-danger)] transition-colors"
+                          >
+                            {isSelf ? <IconLogout size={12} /> : <IconX size={12} />}
+                          </button>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+      </Modal>
+    </>
+  );
+}
+
+function RoleSelect({
+  value,
+  onChange,
+}: {
+  value: InvitableRole;
+  onChange: (role: InvitableRole) => void;
+}) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as InvitableRole)}
+      className="h-8 px-2 text-xs bg-[var(--color-bg-primary)] border border-[var(--color-border-primary)] rounded-[var(--radius-md)] text-[var(--color-text-secondary)] focus:border-[var(--color-border-focus)] focus:outline-none"
+    >
+      <option value="editor">Editor</option>
+      <option value="viewer">Viewer</option>
+    </select>
+  );
+}
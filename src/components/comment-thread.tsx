@@ -0,0 +1,119 @@
+"use client";
+
+import { useState } from "react";
+import { IconArrowRight, IconPencil } from "@tabler/icons-react";
+import { COMMENT_LIMITS, CommentThread, NoteComment } from "@/types/comments";
+
+interface CommentThreadCardProps {
+  thread: CommentThread;
+  /** Jump to the passage the thread is anchored to */
+  onSelect?: () => void;
+  /** Returns whether the reply was posted, so the draft can be cleared */
+  onReply?: (body: string) => Promise<boolean>;
+  /** Status badge or owner actions, shown under the first comment */
+  actions?: React.ReactNode;
+}
+
+const formatTime = (date: string) =>
+  new Date(date).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+function CommentBody({ comment }: { comment: NoteComment }) {
+  return (
+    <div>
+      <div className="flex items-baseline gap-1.5 text-[11px]">
+        <span className="font-medium text-[var(--color-text-primary)]">{comment.authorName}</span>
+        {comment.isOwner && (
+          <span className="px-1 rounded-[var(--radius-sm)] bg-[var(--color-accent-subtle)] text-[var(--color-accent)]">
+            Author
+          </span>
+        )}
+        <span className="text-[var(--color-text-tertiary)]">{formatTime(comment.createdAt)}</span>
+      </div>
+      {comment.body && (
+        <p className="mt-0.5 text-xs text-[var(--color-text-secondary)] whitespace-pre-wrap break-words">
+          {comment.body}
+        </p>
+      )}
+    </div>
+  );
+}
+
+/** One anchored thread: the quoted passage, any suggested edit, and its replies. */
+export default function CommentThreadCard({ thread, onSelect, onReply, actions }: CommentThreadCardProps) {
+  const { comment, replies } = thread;
+  const [reply, setReply] = useState("");
+  const [sending, setSending] = useState(false);
+
+  const handleReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onReply || !reply.trim()) return;
+    setSending(true);
+    if (await onReply(reply)) setReply("");
+    setSending(false);
+  };
+
+  return (
+    <div className="p-3 space-y-2 bg-[var(--color-bg-primary)] border border-[var(--color-border-secondary)] rounded-[var(--radius-md)]">
+      {/* Anchored passage */}
+      <button
+        type="button"
+        onClick={onSelect}
+        disabled={!onSelect}
+        className="w-full text-left pl-2 border-l-2 border-[var(--color-accent)] text-[11px] text-[var(--color-text-tertiary)] line-clamp-2 hover:text-[var(--color-text-secondary)] disabled:hover:text-[var(--color-text-tertiary)] transition-colors"
+        title={onSelect ? "Show in note" : undefined}
+      >
+        {comment.kind === "suggestion" ? <del>{comment.quote}</del> : comment.quote}
+      </button>
+
+      {comment.kind === "suggestion" && (
+        <div className="flex items-start gap-1.5 text-xs">
+          <IconPencil size={12} className="mt-0.5 shrink-0 text-[var(--color-accent)]" />
+          <IconArrowRight size={12} className="mt-0.5 shrink-0 text-[var(--color-text-tertiary)]" />
+          {comment.suggestedText ? (
+            <ins className="no-underline text-[var(--color-text-primary)] bg-[var(--color-accent-subtle)] whitespace-pre-wrap break-words">
+              {comment.suggestedText}
+            </ins>
+          ) : (
+            <span className="italic text-[var(--color-text-tertiary)]">Remove this passage</span>
+          )}
+        </div>
+      )}
+
+      <CommentBody comment={comment} />
+      {actions}
+
+      {replies.length > 0 && (
+        <div className="space-y-2 pl-3 border-l border-[var(--color-border-secondary)]">
+          {replies.map((item) => (
+            <CommentBody key={item.id} comment={item} />
+          ))}
+        </div>
+      )}
+
+      {onReply && (
+        <form onSubmit={handleReply} className="flex gap-1.5">
+          <input
+            type="text"
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+            maxLength={COMMENT_LIMITS.body}
+            placeholder="Reply..."
+            className="flex-1 min-w-0 h-7 px-2 text-xs bg-[var(--color-bg-primary)] border border-[var(--color-border-primary)] rounded-[var(--radius-md)] text-[var(--color-text-primary)] placeholder:text-[var(--color-text-tertiary)] focus:border-[var(--color-border-focus)] focus:outline-none"
+          />
+          <button
+            type="submit"
+            disabled={sending || !reply.trim()}
+            className="h-7 px-2.5 text-xs font-medium bg-[var(--color-bg-tertiary)] text-[var(--color-text-secondary)] rounded-[var(--radius-md)] hover:bg-[var(--color-active)] disabled:opacity-50 transition-colors"
+          >
+            Reply
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
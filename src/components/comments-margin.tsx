@@ -0,0 +1,224 @@
+"use client";
+
+import { Dispatch, RefObject, SetStateAction, useMemo, useState } from "react";
+import { IconCheck, IconRefresh, IconTrash, IconX } from "@tabler/icons-react";
+import {
+  deleteNoteComment,
+  replyToNoteComment,
+  setNoteCommentStatus,
+} from "@/app/actions/commentActions";
+import { findAnchorRange } from "@/utils/html-utils";
+import { useCommentHighlights } from "@/hooks/use-comment-highlights";
+import { useToast } from "@/components/ui/toast";
+import { IconButton } from "@/components/ds/icon-button";
+import CommentThreadCard from "@/components/comment-thread";
+import { CommentStatus, NoteComment, buildCommentThreads } from "@/types/comments";
+
+interface CommentsMarginProps {
+  comments: NoteComment[];
+  setComments: Dispatch<SetStateAction<NoteComment[]>>;
+  /** Wraps the editor; passages are found in its .ProseMirror */
+  editorRootRef: RefObject<HTMLElement | null>;
+  onClose: () => void;
+  /**
+   * Apply a suggested edit to the note. Returns false when the passage can't
+   * be found any more; undefined while suggestions can't be applied (e.g. in
+   * a live collaboration session).
+   */
+  onAcceptSuggestion?: (comment: NoteComment) => boolean;
+}
+
+const STATUS_LABELS: Record<CommentStatus, string> = {
+  open: "Open",
+  resolved: "Resolved",
+  accepted: "Accepted",
+  rejected: "Rejected",
+};
+
+const actionClass =
+  "flex items-center gap-1 px-2 py-0.5 text-[11px] font-medium rounded-[var(--radius-sm)] transition-colors disabled:opacity-50";
+
+/**
+ * The note owner's view of reader comments, beside the editor: open threads
+ * are highlighted in the note, can be replied to and resolved, and suggested
+ * edits accepted into the note or rejected.
+ */
+export default function CommentsMargin({
+  comments,
+  setComments,
+  editorRootRef,
+  onClose,
+  onAcceptSuggestion,
+}: CommentsMarginProps) {
+  const [filter, setFilter] = useState<"open" | "settled">("open");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { showError } = useToast();
+
+  const threads = useMemo(() => buildCommentThreads(comments), [comments]);
+  const openThreads = useMemo(() => threads.filter((t) => t.comment.status === "open"), [threads]);
+  const visible = filter === "open" ? openThreads : threads.filter((t) => t.comment.status !== "open");
+  const anchors = useMemo(() => openThreads.map((t) => t.comment), [openThreads]);
+
+  useCommentHighlights(editorRootRef, anchors);
+
+  const selectPassage = (comment: NoteComment) => {
+    const editorRoot = editorRootRef.current?.querySelector(".ProseMirror");
+    const range = editorRoot ? findAnchorRange(editorRoot, comment) : null;
+    if (!range) {
+      showError("That passage is no longer in the note");
+      return;
+    }
+    const sel = window.getSelection();
+    sel?.removeAllRanges();
+    sel?.addRange(range);
+    range.startContainer.parentElement?.scrollIntoView({ behavior: "smooth", block: "center" });
+  };
+
+  const updateStatus = async (comment: NoteComment, status: CommentStatus) => {
+    setBusyId(comment.id);
+    const result = await setNoteCommentStatus(comment.id, status);
+    setBusyId(null);
+    if (!result.success) {
+      showError(result.error || "Failed to update comment");
+      return;
+    }
+    setComments((prev) => prev.map((c) => (c.id === comment.id ? { ...c, status } : c)));
+  };
+
+  const handleAccept = async (comment: NoteComment) => {
+    if (!onAcceptSuggestion) return;
+    if (!onAcceptSuggestion(comment)) {
+      showError("That passage has changed since the suggestion was made");
+      return;
+    }
+    await updateStatus(comment, "accepted");
+  };
+
+  const handleDelete = async (comment: NoteComment) => {
+    setBusyId(comment.id);
+    const result = await deleteNoteComment(comment.id);
+    setBusyId(null);
+    if (!result.success) {
+      showError(result.error || "Failed to delete comment");
+      return;
+    }
+    setComments((prev) => prev.filter((c) => c.id !== comment.id && c.parentId !== comment.id));
+  };
+
+  const handleReply = async (comment: NoteComment, body: string) => {
+    const result = await replyToNoteComment(comment.id, body);
+    if (!result.success || !result.comment) {
+      showError(result.error || "Failed to reply");
+      return false;
+    }
+    setComments((prev) => [...prev, result.comment!]);
+    return true;
+  };
+
+  return (
+    <aside className="print:hidden absolute md:static inset-y-0 right-0 z-30 w-80 max-w-[85vw] shrink-0 flex flex-col border-l border-[var(--color-border-secondary)] bg-[var(--color-bg-secondary)]">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-[var(--color-border-secondary)]">
+        <div className="flex gap-1">
+          {(["open", "settled"] as const).map((value) => (
+            <button
+              key={value}
+              onClick={() => setFilter(value)}
+              className={`px-2 py-0.5 text-[11px] font-medium rounded-[var(--radius-sm)] transition-colors ${
+                filter === value
+                  ? "bg-[var(--color-accent)] text-[var(--color-text-on-accent)]"
+                  : "text-[var(--color-text-secondary)] hover:bg-[var(--color-hover)]"
+              }`}
+            >
+              {value === "open" ? `Open (${openThreads.length})` : "Settled"}
+            </button>
+          ))}
+        </div>
+        <IconButton label="Close comments" size="sm" onClick={onClose}>
+          <IconX size={14} />
+        </IconButton>
+      </div>
+
+      <div className="flex-1 overflow-y-auto scrollbar-thin p-3 space-y-2">
+        {visible.length === 0 ? (
+          <p className="py-6 text-center text-xs text-[var(--color-text-tertiary)]">
+            {filter === "open" ? "No open comments." : "Nothing settled yet."}
+          </p>
+        ) : (
+          visible.map((thread) => {
+            const { comment } = thread;
+            const busy = busyId === comment.id;
+            const isOpen = comment.status === "open";
+
+            return (
+              <CommentThreadCard
+                key={comment.id}
+                thread={thread}
+                onSelect={isOpen ? () => selectPassage(comment) : undefined}
+                onReply={isOpen ? (body) => handleReply(comment, body) : undefined}
+                actions={
+                  <div className="flex items-center gap-1">
+                    {isOpen && comment.kind === "suggestion" ? (
+                      <>
+                        <button
+                          onClick={() => handleAccept(comment)}
+                          disabled={busy || !onAcceptSuggestion}
+                          title={onAcceptSuggestion ? undefined : "Can't apply edits during a live session"}
+                          className={`${actionClass} bg-[var(--color-accent)] text-[var(--color-text-on-accent)] hover:bg-[var(--color-accent-hover)]`}
+                        >
+                          <IconCheck size={12} />
+                          Accept
+                        </button>
+                        <button
+                          onClick={() => updateStatus(comment, "rejected")}
+                          disabled={busy}
+                          className={`${actionClass} bg-[var(--color-bg-tertiary)] text-[var(--color-text-secondary)] hover:bg-[var(--color-active)]`}
+                        >
+                          <IconX size={12} />
+                          Reject
+                        </button>
+                      </>
+                    ) : isOpen ? (
+                      <button
+                        onClick={() => updateStatus(comment, "resolved")}
+                        disabled={busy}
+                        className={`${actionClass} bg-[var(--color-bg-tertiary)] text-[var(--color-text-secondary)] hover:bg-[var(--color-active)]`}
+                      >
+                        <IconCheck size={12} />
+                        Resolve
+                      </button>
+                    ) : (
+                      <>
+                        <span className="text-[11px] text-[var(--color-text-tertiary)]">
+                          {STATUS_LABELS[comment.status]}
+                        </span>
+                        {comment.status !== "accepted" && (
+                          <button
+                            onClick={() => updateStatus(comment, "open")}
+                            disabled={busy}
+                            className={`${actionClass} text-[var(--color-text-secondary)] hover:bg-[var(--color-hover)]`}
+                          >
+                            <IconRefresh size={12} />
+                            Reopen
+                          </button>
+                        )}
+                      </>
+                    )}
+                    <button
+                      onClick={() => handleDelete(comment)}
+                      disabled={busy}
+                      aria-label="Delete thread"
+                      title="Delete thread"
+                      className="ml-auto p-1 text-[var(--color-text-tertiary)] hover:text-[var(--color-danger)] transition-colors disabled:opacity-50"
+                    >
+                      <IconTrash size={12} />
+                    </button>
+                  </div>
+                }
+              />
+            );
+          })
+        )}
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,192 @@
+"use client";
+
+import React, { useMemo, useState, useEffect } from "react";
+import { IconDeviceLaptop, IconCloud, IconArrowsJoin } from "@tabler/icons-react";
+import { Modal } from "@/components/ds/modal";
+import { Button } from "@/components/ds/button";
+import {
+  mergeThreeWay,
+  applyConflictChoices,
+  joinBlocks,
+  type ConflictChoice,
+} from "@/utils/three-way-merge";
+import type { NoteConflict } from "@/types/combined-notes";
+
+interface ConflictResolutionModalProps {
+  open: boolean;
+  onClose: () => void;
+  conflict: NoteConflict;
+  /** The note's current content; edits made since detection count as "other device" */
+  currentContent: string;
+  onResolve: (content: string) => void;
+}
+
+export default function ConflictResolutionModal({
+  open,
+  onClose,
+  conflict,
+  currentContent,
+  onResolve,
+}: ConflictResolutionModalProps) {
+  const { hunks } = useMemo(
+    () => mergeThreeWay(conflict.base, conflict.local, currentContent),
+    [conflict.base, conflict.local, currentContent],
+  );
+
+  const conflictCount = hunks.filter((h) => h.type === "conflict").length;
+  const [choices, setChoices] = useState<(ConflictChoice | undefined)[]>([]);
+
+  useEffect(() => {
+    if (open) setChoices([]);
+  }, [open, hunks]);
+
+  const allChosen =
+    choices.filter(Boolean).length === conflictCount;
+
+  const choose = (index: number, choice: ConflictChoice) => {
+    setChoices((prev) => {
+      const next = [...prev];
+      next[index] = choice;
+      return next;
+    });
+  };
+
+  const chooseAll = (choice: ConflictChoice) => {
+    setChoices(Array.from({ length: conflictCount }, () => choice));
+  };
+
+  let conflictIndex = -1;
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title="Resolve conflicting edits"
+      description="This note was changed on another device while this one was offline. Non-overlapping changes were combined; pick a version for each overlap."
+      size="xl"
+    >
+      <div className="space-y-3">
+        <div className="flex items-center gap-1.5 flex-wrap">
+          <span className="text-[11px] font-medium text-[var(--color-text-tertiary)] uppercase tracking-wider mr-1">
+            Use for all
+          </span>
+          <Button variant="outline" size="sm" onClick={() => chooseAll("local")}>
+            <IconDeviceLaptop size={13} />
+            This device
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => chooseAll("server")}>
+            <IconCloud size={13} />
+            Other device
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => chooseAll("both")}>
+            <IconArrowsJoin size={13} />
+            Keep both
+          </Button>
+        </div>
+
+        <div className="max-h-[60vh] overflow-y-auto scrollbar-thin space-y-2 pr-1">
+          {hunks.map((hunk, i) => {
+            if (hunk.type === "stable") {
+              return (
+                <pre
+                  key={i}
+                  className="px-3 py-2 text-xs whitespace-pre-wrap font-mono text-[var(--color-text-tertiary)] bg-[var(--color-bg-secondary)] rounded-[var(--radius-md)] line-clamp-4"
+                >
+                  {joinBlocks(hunk.blocks)}
+                </pre>
+              );
+            }
+
+            conflictIndex += 1;
+            const index = conflictIndex;
+            const choice = choices[index];
+
+            return (
+              <div
+                key={i}
+                className="grid grid-cols-1 md:grid-cols-2 gap-2 p-2 rounded-[var(--radius-md)] border border-[var(--color-warning)]/40"
+              >
+                <ConflictSide
+                  label="This device"
+                  icon={<IconDeviceLaptop size={12} />}
+                  blocks={hunk.local}
+                  selected={choice === "local" || choice === "both"}
+                  onSelect={() => choose(index, "local")}
+                />
+                <ConflictSide
+                  label="Other device"
+                  icon={<IconCloud size={12} />}
+                  blocks={hunk.server}
+                  selected={choice === "server" || choice === "both"}
+                  onSelect={() => choose(index, "server")}
+                />
+                <button
+                  onClick={() => choose(index, "both")}
+                  className={`md:col-span-2 text-[10px] py-1 rounded-[var(--radius-sm)] transition-colors ${
+                    choice === "both"
+                      ? "bg-[var(--color-accent)] text-[var(--color-text-on-accent)]"
+                      : "text-[var(--color-text-tertiary)] hover:bg-[var(--color-hover)]"
+                  }`}
+                >
+                  Keep both (this device first)
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center justify-between pt-2 border-t border-[var(--color-border-secondary)]">
+          <span className="text-[10px] text-[var(--color-text-tertiary)]">
+            {choices.filter(Boolean).length} of {conflictCount} overlap
+            {conflictCount === 1 ? "" : "s"} resolved
+          </span>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={onClose}>
+              Decide later
+            </Button>
+            <Button
+              size="sm"
+              disabled={!allChosen}
+              onClick={() => onResolve(applyConflictChoices(hunks, choices))}
+            >
+              Apply
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+function ConflictSide({
+  label,
+  icon,
+  blocks,
+  selected,
+  onSelect,
+}: {
+  label: string;
+  icon: React.ReactNode;
+  blocks: string[];
+  selected: boolean;
+  onSelect: () => void;
+}) {
+  return (
+    <button
+      onClick={onSelect}
+      className={`text-left flex flex-col gap-1 p-2 rounded-[var(--radius-md)] border transition-colors ${
+        selected
+          ? "border-[var(--color-accent)] bg-[var(--color-accent-subtle)]"
+          : "border-[var(--color-border-secondary)] hover:bg-[var(--color-hover)]"
+      }`}
+    >
+      <span className="inline-flex items-center gap-1 text-[10px] font-medium text-[var(--color-text-tertiary)] uppercase tracking-wider">
+        {icon}
+        {label}
+      </span>
+      <pre className="text-xs whitespace-pre-wrap font-mono text-[var(--color-text-primary)]">
+        {blocks.length > 0 ? joinBlocks(blocks) : <em className="text-[var(--color-text-tertiary)]">(removed)</em>}
+      </pre>
+    </button>
+  );
+}
@@ -3,10 +3,10 @@
 import React, { useEffect, useState } from "react";
 import { IconSun, IconMoon, IconDeviceDesktop } from "@tabler/icons-react";
 import { cn } from "@/lib/utils";
+import { useNotesStore } from "@/stores/notes-store";
+import type { ThemePreference } from "@/types/preferences";
 
-type Theme = "light" | "dark" | "system";
-
-const STORAGE_KEY = "justnoted_theme";
+type Theme = ThemePreference;
 
 function getSystemTheme(): "light" | "dark" {
   if (typeof window === "undefined") return "light";
@@ -28,31 +28,29 @@ function applyTheme(theme: Theme) {
 }
 
 export function useTheme() {
-  const [theme, setThemeState] = useState<Theme>("system");
+  const theme = useNotesStore((s) => s.theme);
+  const setPreferences = useNotesStore((s) => s.setPreferences);
+  // The store reads localStorage on load; render the server's default until mounted
+  const [mounted, setMounted] = useState(false);
 
   useEffect(() => {
-    const stored = localStorage.getItem(STORAGE_KEY) as Theme | null;
-    const initial = stored || "system";
-    setThemeState(initial);
-    applyTheme(initial);
+    setMounted(true);
+  }, []);
+
+  useEffect(() => {
+    applyTheme(theme);
+    if (theme !== "system") return;
 
     const mediaQuery = window.matchMedia("(prefers-color-scheme: dark)");
-    const handleChange = () => {
-      const current = localStorage.getItem(STORAGE_KEY) as Theme | null;
-      if (!current || current === "system") applyTheme("system");
-    };
+    const handleChange = () => applyTheme("system");
 
     mediaQuery.addEventListener("change", handleChange);
     return () => mediaQuery.removeEventListener("change", handleChange);
-  }, []);
+  }, [theme]);
 
-  const setTheme = (newTheme: Theme) => {
-    setThemeState(newTheme);
-    localStorage.setItem(STORAGE_KEY, newTheme);
-    applyTheme(newTheme);
-  };
+  const setTheme = (newTheme: Theme) => setPreferences({ theme: newTheme });
 
-  return { theme, setTheme };
+  return { theme: mounted ? theme : "system", setTheme };
 }
 
 export function ThemeToggle({ className }: { className?: string }) {
@@ -0,0 +1,357 @@
+"use client";
+
+import React, { useState, useEffect, useRef, useCallback } from "react";
+import { createPortal } from "react-dom";
+import type { Editor } from "@milkdown/core";
+import { editorViewCtx, serializerCtx } from "@milkdown/core";
+import { getMarkdown, replaceRange } from "@milkdown/utils";
+import {
+  IconSparkles,
+  IconChevronLeft,
+  IconChevronRight,
+  IconCheck,
+  IconX,
+  IconRefresh,
+  IconPlayerStop,
+} from "@tabler/icons-react";
+import { useAIAssist } from "@/hooks/use-ai-assist";
+import {
+  ASSIST_ACTIONS,
+  ASSIST_LANGUAGES,
+  ASSIST_TONES,
+  AssistAction,
+  AssistRequest,
+  MAX_ASSIST_TEXT_LENGTH,
+  assistReplacesSelection,
+} from "@/types/ai-assist";
+
+interface AIAssistMenuProps {
+  getEditor: () => Editor | undefined;
+  containerRef: React.RefObject<HTMLElement | null>;
+  /**
+   * Called with the note's Markdown just before an accepted change is
+   * applied, so the caller can snapshot it.
+   */
+  onBeforeApply: (markdown: string) => void;
+}
+
+interface CapturedSelection {
+  from: number;
+  to: number;
+  /** Plain text, to check the passage is unchanged when applying */
+  text: string;
+  /** What the model sees */
+  markdown: string;
+}
+
+type Phase = "idle" | "trigger" | "menu" | "preview";
+
+const PANEL_WIDTH = 360;
+
+function readSelection(editor: Editor): { selection: CapturedSelection; x: number; y: number } | null {
+  try {
+    return editor.action((ctx) => {
+      const view = ctx.get(editorViewCtx);
+      const { state } = view;
+      const { from, to, empty } = state.selection;
+      if (empty || !view.hasFocus()) return null;
+
+      const text = state.doc.textBetween(from, to, "\n\n");
+      if (!text.trim()) return null;
+
+      let markdown = text;
+      try {
+        const doc = state.schema.topNodeType.createAndFill(undefined, state.doc.slice(from, to).content);
+        if (doc) markdown = ctx.get(serializerCtx)(doc).trim() || text;
+      } catch {}
+
+      const coords = view.coordsAtPos(to);
+      return { selection: { from, to, text, markdown }, x: coords.left, y: coords.bottom + 6 };
+    });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Writing help on the selected text: a small button appears by the
+ * selection, offering summarize, rewrite, expand and so on. The reply
+ * streams into a preview and only reaches the note when accepted.
+ */
+export default function AIAssistMenu({ getEditor, containerRef, onBeforeApply }: AIAssistMenuProps) {
+  const [phase, setPhase] = useState<Phase>("idle");
+  const [submenu, setSubmenu] = useState<"rewrite" | "translate" | null>(null);
+  const [pos, setPos] = useState({ x: 0, y: 0 });
+  const [selection, setSelection] = useState<CapturedSelection | null>(null);
+  const [request, setRequest] = useState<AssistRequest | null>(null);
+  const [applyError, setApplyError] = useState<string | null>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const phaseRef = useRef(phase);
+  const assist = useAIAssist();
+  const { run: runAssist, reset: resetAssist } = assist;
+
+  phaseRef.current = phase;
+
+  const close = useCallback(() => {
+    resetAssist();
+    setPhase("idle");
+    setSubmenu(null);
+    setRequest(null);
+    setApplyError(null);
+  }, [resetAssist]);
+
+  // Follow the selection while nothing is in progress
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const handleSelectionChange = () => {
+      if (phaseRef.current === "menu" || phaseRef.current === "preview") return;
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        const sel = window.getSelection();
+        const editor = getEditor();
+        const found = editor && sel?.anchorNode && container.contains(sel.anchorNode)
+          ? readSelection(editor)
+          : null;
+
+        if (!found) {
+          setPhase("idle");
+          return;
+        }
+        setSelection(found.selection);
+        setPos({ x: found.x, y: found.y });
+        setPhase("trigger");
+      }, 200);
+    };
+
+    document.addEventListener("selectionchange", handleSelectionChange);
+    return () => {
+      document.removeEventListener("selectionchange", handleSelectionChange);
+      if (timer) clearTimeout(timer);
+    };
+  }, [containerRef, getEditor]);
+
+  // Keep the panel by the passage as the page scrolls
+  useEffect(() => {
+    if (phase === "idle" || !selection) return;
+
+    const handleScroll = () => {
+      try {
+        getEditor()?.action((ctx) => {
+          const coords = ctx.get(editorViewCtx).coordsAtPos(selection.to);
+          setPos({ x: coords.left, y: coords.bottom + 6 });
+        });
+      } catch {}
+    };
+
+    window.addEventListener("scroll", handleScroll, { capture: true, passive: true });
+    return () => window.removeEventListener("scroll", handleScroll, { capture: true });
+  }, [phase, selection, getEditor]);
+
+  // Escape or a click elsewhere closes the menu; a preview waits for a decision
+  useEffect(() => {
+    if (phase === "idle") return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") close();
+    };
+    const handleMouseDown = (e: MouseEvent) => {
+      if (phaseRef.current === "preview") return;
+      if (panelRef.current?.contains(e.target as Node)) return;
+      close();
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    document.addEventListener("mousedown", handleMouseDown);
+    return () => {
+      document.removeEventListener("keydown", handleKeyDown);
+      document.removeEventListener("mousedown", handleMouseDown);
+    };
+  }, [phase, close]);
+
+  const start = useCallback(
+    (action: AssistAction, option?: string) => {
+      if (!selection) return;
+      const next: AssistRequest = {
+        action,
+        text: selection.markdown.slice(0, MAX_ASSIST_TEXT_LENGTH),
+        ...(action === "rewrite" ? { tone: option as AssistRequest["tone"] } : {}),
+        ...(action === "translate" ? { language: option as AssistRequest["language"] } : {}),
+      };
+      setRequest(next);
+      setSubmenu(null);
+      setApplyError(null);
+      setPhase("preview");
+      runAssist(next);
+    },
+    [selection, runAssist],
+  );
+
+  const handleAccept = useCallback(() => {
+    const editor = getEditor();
+    const output = assist.output.trim();
+    if (!editor || !selection || !request || !output) return;
+
+    try {
+      const unchanged = editor.action((ctx) =>
+        ctx.get(editorViewCtx).state.doc.textBetween(selection.from, selection.to, "\n\n") === selection.text,
+      );
+      if (!unchanged) {
+        setApplyError("The selected text has changed since you asked. Select it again to retry.");
+        return;
+      }
+
+      onBeforeApply(editor.action(getMarkdown()));
+
+      const range = assistReplacesSelection(request.action)
+        ? { from: selection.from, to: selection.to }
+        : { from: selection.to, to: selection.to };
+      editor.action(replaceRange(output, range));
+      close();
+    } catch {
+      setApplyError("Couldn't apply the change");
+    }
+  }, [getEditor, assist.output, selection, request, onBeforeApply, close]);
+
+  if (phase === "idle") return null;
+
+  const left = Math.max(8, Math.min(pos.x, window.innerWidth - PANEL_WIDTH - 8));
+  const label = request
+    ? `${ASSIST_ACTIONS.find((a) => a.action === request.action)?.label}${
+        request.tone ? `: ${request.tone}` : request.language ? `: ${request.language}` : ""
+      }`
+    : "";
+
+  const menuItem =
+    "w-full flex items-center gap-2 px-3 py-1.5 text-left text-xs text-[var(--color-text-primary)] hover:bg-[var(--color-hover)] transition-colors";
+  const btn =
+    "flex items-center gap-1 px-2.5 py-1 text-xs font-medium rounded-[var(--radius-sm)] transition-colors disabled:opacity-50";
+
+  return createPortal(
+    <div
+      ref={panelRef}
+      className="fixed z-[9999] animate-fade-in"
+      style={{ left: `${phase === "trigger" ? pos.x : left}px`, top: `${pos.y}px` }}
+      // Keep the editor selection while using the menu
+      onMouseDown={(e) => {
+        if (!(e.target as HTMLElement).closest("[data-selectable]")) e.preventDefault();
+      }}
+    >
+      {phase === "trigger" && (
+        <button
+          onClick={() => setPhase("menu")}
+          className="flex items-center gap-1 px-2 py-1 text-[11px] font-medium text-[var(--color-accent)] bg-[var(--color-bg-elevated)] border border-[var(--color-border-primary)] rounded-[var(--radius-lg)] shadow-lg hover:bg-[var(--color-hover)] transition-colors"
+          title="Writing help"
+        >
+          <IconSparkles size={12} />
+          AI
+        </button>
+      )}
+
+      {phase === "menu" && (
+        <div className="min-w-[200px] max-h-[300px] overflow-y-auto py-1 bg-[var(--color-bg-elevated)] border border-[var(--color-border-primary)] rounded-[var(--radius-lg)] shadow-lg animate-scale-in">
+          {submenu ? (
+            <>
+              <button onClick={() => setSubmenu(null)} className={`${menuItem} text-[var(--color-text-tertiary)]`}>
+                <IconChevronLeft size={12} />
+                {submenu === "rewrite" ? "Tone" : "Language"}
+              </button>
+              {(submenu === "rewrite" ? ASSIST_TONES : ASSIST_LANGUAGES).map((option) => (
+                <button key={option} onClick={() => start(submenu, option)} className={menuItem}>
+                  {option}
+                </button>
+              ))}
+            </>
+          ) : (
+            ASSIST_ACTIONS.map(({ action, label }) => (
+              <button
+                key={action}
+                onClick={() =>
+                  action === "rewrite" || action === "translate" ? setSubmenu(action) : start(action)
+                }
+                className={menuItem}
+              >
+                <span className="flex-1">{label}</span>
+                {(action === "rewrite" || action === "translate") && (
+                  <IconChevronRight size={12} className="text-[var(--color-text-tertiary)]" />
+                )}
+              </button>
+            ))
+          )}
+        </div>
+      )}
+
+      {phase === "preview" && (
+        <div
+          className="flex flex-col bg-[var(--color-bg-elevated)] border border-[var(--color-border-primary)] rounded-[var(--radius-lg)] shadow-lg overflow-hidden"
+          style={{ width: `${PANEL_WIDTH}px`, maxWidth: "calc(100vw - 16px)" }}
+        >
+          <div className="flex items-center gap-1.5 px-3 py-2 border-b border-[var(--color-border-secondary)]">
+            <IconSparkles size={12} className="text-[var(--color-accent)]" />
+            <span className="flex-1 text-[11px] font-medium text-[var(--color-text-secondary)] truncate">{label}</span>
+            {assist.status === "streaming" && (
+              <span className="size-3 rounded-full border-2 border-[var(--color-border-primary)] border-t-[var(--color-accent)] animate-spin" />
+            )}
+          </div>
+
+          <div
+            data-selectable
+            className="max-h-60 overflow-y-auto scrollbar-thin px-3 py-2 text-sm leading-relaxed whitespace-pre-wrap text-[var(--color-text-primary)]"
+          >
+            {assist.output || (assist.status === "streaming" && (
+              <span className="text-[var(--color-text-tertiary)]">Writing…</span>
+            ))}
+            {assist.status === "error" && (
+              <p className="text-xs text-[var(--color-danger)]">{assist.error}</p>
+            )}
+          </div>
+
+          {applyError && (
+            <p className="px-3 pb-2 text-xs text-[var(--color-danger)]">{applyError}</p>
+          )}
+
+          <div className="flex items-center gap-1 px-2 py-1.5 border-t border-[var(--color-border-secondary)]">
+            {assist.status === "streaming" ? (
+              <button
+                onClick={assist.stop}
+                className={`${btn} text-[var(--color-text-secondary)] hover:bg-[var(--color-hover)]`}
+              >
+                <IconPlayerStop size={12} />
+                Stop
+              </button>
+            ) : (
+              <>
+                <button
+                  onClick={handleAccept}
+                  disabled={!assist.output.trim()}
+                  className={`${btn} bg-[var(--color-accent)] text-[var(--color-text-on-accent)] hover:bg-[var(--color-accent-hover)]`}
+                >
+                  <IconCheck size={12} />
+                  {request && assistReplacesSelection(request.action) ? "Replace" : "Insert"}
+                </button>
+                <button
+                  onClick={() => request && start(request.action, request.tone || request.language)}
+                  className={`${btn} text-[var(--color-text-secondary)] hover:bg-[var(--color-hover)]`}
+                >
+                  <IconRefresh size={12} />
+                  Try again
+                </button>
+              </>
+            )}
+            <button
+              onClick={close}
+              className={`${btn} ml-auto text-[var(--color-text-secondary)] hover:bg-[var(--color-hover)]`}
+            >
+              <IconX size={12} />
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+    </div>,
+    document.body,
+  );
+}
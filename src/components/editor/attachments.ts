@@ -0,0 +1,116 @@
+import { Plugin, PluginKey } from "@milkdown/prose/state";
+import type { EditorState } from "@milkdown/prose/state";
+import type { Schema, Node as ProseNode } from "@milkdown/prose/model";
+import { Decoration, DecorationSet } from "@milkdown/prose/view";
+import type { EditorView } from "@milkdown/prose/view";
+import { $prose } from "@milkdown/utils";
+import {
+  isAttachmentType,
+  isImageAttachment,
+  type NoteAttachment,
+} from "@/types/attachment";
+
+/** Uploads one file into the note; resolves null (after reporting why) on failure. */
+export type AttachmentUploader = (file: File) => Promise<NoteAttachment | null>;
+
+type UploadMeta =
+  | { add: { id: object; pos: number; name: string } }
+  | { remove: { id: object } };
+
+const uploadsKey = new PluginKey<DecorationSet>("attachment-uploads");
+
+export function attachableFiles(files: FileList | File[] | null | undefined): File[] {
+  return Array.from(files || []).filter((file) => isAttachmentType(file.type));
+}
+
+function attachmentNode(schema: Schema, attachment: NoteAttachment): ProseNode {
+  if (isImageAttachment(attachment.mimeType) && schema.nodes.image) {
+    return schema.nodes.image.create({ src: attachment.url, alt: attachment.fileName, title: "" });
+  }
+  return schema.text(attachment.fileName, [schema.marks.link.create({ href: attachment.url })]);
+}
+
+function findPlaceholder(state: EditorState, id: object): number | null {
+  const found = uploadsKey.getState(state)?.find(undefined, undefined, (spec) => spec.id === id);
+  return found && found.length > 0 ? found[0].from : null;
+}
+
+/**
+ * Upload `files` and insert each at `pos` as a markdown image (or a link for
+ * PDFs). An "Uploading…" placeholder marks the spot and follows later edits,
+ * so typing while a file uploads doesn't misplace it.
+ */
+export function uploadFiles(
+  view: EditorView,
+  files: File[],
+  upload: AttachmentUploader,
+  pos: number = view.state.selection.from,
+) {
+  for (const file of files) {
+    const id = {};
+    view.dispatch(
+      view.state.tr.setMeta(uploadsKey, { add: { id, pos, name: file.name } } satisfies UploadMeta),
+    );
+
+    upload(file).then((attachment) => {
+      if (view.isDestroyed) return;
+      const at = findPlaceholder(view.state, id);
+      const tr = view.state.tr.setMeta(uploadsKey, { remove: { id } } satisfies UploadMeta);
+      if (attachment && at !== null) {
+        tr.insert(at, attachmentNode(view.state.schema, attachment));
+      }
+      view.dispatch(tr);
+    });
+  }
+}
+
+/**
+ * Paste and drop handling for images and PDFs. `getUploader` returns null
+ * when the note can't take attachments (local notes, shared notes), which
+ * leaves paste and drop to the editor's defaults.
+ */
+export function attachmentPlugin(getUploader: () => AttachmentUploader | null | undefined) {
+  return $prose(
+    () =>
+      new Plugin<DecorationSet>({
+        key: uploadsKey,
+        state: {
+          init: () => DecorationSet.empty,
+          apply(tr, set) {
+            set = set.map(tr.mapping, tr.doc);
+            const meta = tr.getMeta(uploadsKey) as UploadMeta | undefined;
+            if (meta && "add" in meta) {
+              const widget = document.createElement("span");
+              widget.className =
+                "inline-block px-1.5 text-xs text-[var(--color-text-tertiary)] animate-pulse-subtle";
+              widget.textContent = `Uploading ${meta.add.name}…`;
+              set = set.add(tr.doc, [Decoration.widget(meta.add.pos, widget, { id: meta.add.id })]);
+            } else if (meta && "remove" in meta) {
+              set = set.remove(set.find(undefined, undefined, (spec) => spec.id === meta.remove.id));
+            }
+            return set;
+          },
+        },
+        props: {
+          decorations(state) {
+            return uploadsKey.getState(state);
+          },
+          handlePaste(view, event) {
+            const upload = getUploader();
+            const files = attachableFiles(event.clipboardData?.files);
+            if (!upload || files.length === 0) return false;
+            uploadFiles(view, files, upload);
+            return true;
+          },
+          handleDrop(view, event, _slice, moved) {
+            const upload = getUploader();
+            const files = attachableFiles(event.dataTransfer?.files);
+            if (moved || !upload || files.length === 0) return false;
+            const pos = view.posAtCoords({ left: event.clientX, top: event.clientY })?.pos;
+            uploadFiles(view, files, upload, pos ?? view.state.selection.from);
+            return true;
+          },
+        },
+      }),
+  );
+}
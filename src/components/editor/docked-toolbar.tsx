@@ -24,18 +24,20 @@ import {
   IconLink,
 } from "@tabler/icons-react";
 import { useFormatCommands } from "./use-format-commands";
+import type { AttachmentUploader } from "./attachments";
 
 interface DockedToolbarProps {
   getEditor: () => Editor | undefined;
   containerRef: React.RefObject<HTMLElement | null>;
+  onUploadAttachment?: AttachmentUploader;
 }
 
 /**
  * Persistent formatting bar docked to the bottom of the editor (desktop + mobile).
  * Reachable with no selection, and reflects the caret's current formatting.
  */
-export default function DockedToolbar({ getEditor, containerRef }: DockedToolbarProps) {
-  const { active, actions } = useFormatCommands(getEditor, containerRef);
+export default function DockedToolbar({ getEditor, containerRef, onUploadAttachment }: DockedToolbarProps) {
+  const { active, actions } = useFormatCommands(getEditor, containerRef, onUploadAttachment);
 
   const base =
     "flex items-center justify-center size-9 shrink-0 rounded-[var(--radius-sm)] transition-colors cursor-pointer [&_svg]:size-[18px] md:[&_svg]:size-4 md:size-8";
@@ -111,7 +113,7 @@ export default function DockedToolbar({ getEditor, containerRef }: DockedToolbar
         <button className={cls(false)} onClick={actions.table} title="Insert table" aria-label="Insert table">
           <IconTable />
         </button>
-        <button className={cls(false)} onClick={actions.image} title="Insert image" aria-label="Insert image">
+        <button className={cls(false)} onClick={actions.image} title={onUploadAttachment ? "Insert image or PDF" : "Insert image"} aria-label="Insert image">
           <IconPhoto />
         </button>
         <button className={cls(false)} onClick={actions.hr} title="Horizontal rule" aria-label="Horizontal rule">
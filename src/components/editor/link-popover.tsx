@@ -13,14 +13,20 @@ import {
   IconExternalLink,
   IconCheck,
   IconX,
+  IconFileText,
+  IconLayoutColumns,
 } from "@tabler/icons-react";
+import { useNotesStore } from "@/stores/notes-store";
+import { parseNoteLinkHref } from "@/utils/note-links";
 
 interface LinkPopoverProps {
   getEditor: () => Editor | undefined;
   containerRef: React.RefObject<HTMLElement | null>;
+  /** Opens a linked note; `beside` asks for the split-view reference pane */
+  onOpenNoteLink: (noteId: string, beside: boolean) => void;
 }
 
-export default function LinkPopover({ getEditor, containerRef }: LinkPopoverProps) {
+export default function LinkPopover({ getEditor, containerRef, onOpenNoteLink }: LinkPopoverProps) {
   const [visible, setVisible] = useState(false);
   const [editing, setEditing] = useState(false);
   const [href, setHref] = useState("");
@@ -28,6 +34,10 @@ export default function LinkPopover({ getEditor, containerRef }: LinkPopoverProp
   const [pos, setPos] = useState({ x: 0, y: 0 });
   const [anchorEl, setAnchorEl] = useState<HTMLAnchorElement | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const linkedNoteId = parseNoteLinkHref(href);
+  const linkedNote = useNotesStore((s) =>
+    linkedNoteId ? s.notes.find((n) => n.id === linkedNoteId && !n.deletedAt) : undefined,
+  );
 
   useEffect(() => {
     const container = containerRef.current;
@@ -152,6 +162,40 @@ export default function LinkPopover({ getEditor, containerRef }: LinkPopoverProp
               <IconX size={14} />
             </button>
           </div>
+        ) : linkedNoteId ? (
+          <div className="flex items-center gap-0.5 p-1">
+            <button
+              onClick={() => {
+                onOpenNoteLink(linkedNoteId, false);
+                setVisible(false);
+              }}
+              disabled={!linkedNote}
+              className="flex items-center gap-1 px-2 py-1 text-[10px] text-[var(--color-accent)] hover:text-[var(--color-accent-hover)] disabled:text-[var(--color-text-tertiary)] truncate max-w-[180px] transition-colors"
+              title={linkedNote ? "Open note" : "This note no longer exists"}
+            >
+              <IconFileText size={12} className="shrink-0" />
+              <span className="truncate">{linkedNote ? linkedNote.title || "Untitled" : "Missing note"}</span>
+            </button>
+            {linkedNote && (
+              <button
+                onClick={() => {
+                  onOpenNoteLink(linkedNoteId, true);
+                  setVisible(false);
+                }}
+                className="p-1.5 text-[var(--color-text-tertiary)] hover:text-[var(--color-text-secondary)] hover:bg-[var(--color-hover)] rounded-[var(--radius-sm)] transition-colors"
+                title="Open beside"
+              >
+                <IconLayoutColumns size={12} />
+              </button>
+            )}
+            <button
+              onClick={handleRemove}
+              className="p-1.5 text-[var(--color-text-tertiary)] hover:text-[var(--color-danger)] hover:bg-[var(--color-hover)] rounded-[var(--radius-sm)] transition-colors"
+              title="Remove link"
+            >
+              <IconTrash size={12} />
+            </button>
+          </div>
         ) : (
           <div className="flex items-center gap-0.5 p-1">
             <a
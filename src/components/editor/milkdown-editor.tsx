@@ -1,7 +1,7 @@
 "use client";
 
-import React, { useRef, useMemo, useCallback } from "react";
-import { Editor, rootCtx, defaultValueCtx, remarkStringifyOptionsCtx, editorViewCtx } from "@milkdown/core";
+import React, { useRef, useMemo, useCallback, useEffect } from "react";
+import { Editor, rootCtx, defaultValueCtx, remarkStringifyOptionsCtx, editorViewCtx, editorViewOptionsCtx } from "@milkdown/core";
 import { commonmark } from "@milkdown/preset-commonmark";
 import { gfm } from "@milkdown/preset-gfm";
 import { listener, listenerCtx } from "@milkdown/plugin-listener";
@@ -10,15 +10,23 @@ import { clipboard } from "@milkdown/plugin-clipboard";
 import { trailing } from "@milkdown/plugin-trailing";
 import { indent, indentConfig } from "@milkdown/plugin-indent";
 import { cursor } from "@milkdown/plugin-cursor";
+import { collab, collabServiceCtx } from "@milkdown/plugin-collab";
 import { Milkdown, MilkdownProvider, useEditor } from "@milkdown/react";
 import { $prose } from "@milkdown/utils";
 import { keymap } from "@milkdown/prose/keymap";
 import DockedToolbar from "./docked-toolbar";
 import SlashMenu from "./slash-menu";
 import LinkPopover from "./link-popover";
+import WikiLinkMenu from "./wiki-link-menu";
+import AIAssistMenu from "./ai-assist-menu";
+import { attachmentPlugin, type AttachmentUploader } from "./attachments";
 
 import type { ContentFormat } from "@/types/combined-notes";
 import { htmlToMarkdown } from "@/utils/html-to-markdown";
+import { parseNoteLinkHref } from "@/utils/note-links";
+import { useNotesStore } from "@/stores/notes-store";
+import type { Doc } from "yjs";
+import type { Awareness } from "y-protocols/awareness";
 
 const codeBlockEscape = $prose(() =>
   keymap({
@@ -60,6 +68,12 @@ export interface CursorInfo {
   marks: string[];
 }
 
+export interface CollabBinding {
+  doc: Doc;
+  awareness: Awareness;
+  whenSynced: () => Promise<void>;
+}
+
 interface MilkdownEditorProps {
   content: string;
   contentFormat: ContentFormat;
@@ -69,6 +83,23 @@ interface MilkdownEditorProps {
   placeholder?: string;
   readOnly?: boolean;
   className?: string;
+  /** When set, the document is driven by a shared Yjs doc instead of `content`. */
+  collab?: CollabBinding;
+  /** The note being edited; excluded from [[link]] suggestions */
+  noteId?: string;
+  /** Opens a linked note; `beside` asks for the split-view reference pane */
+  onOpenNoteLink?: (noteId: string, beside: boolean) => void;
+  /** Uploads pasted, dropped or picked images and PDFs; omit to disable attachments */
+  onUploadAttachment?: AttachmentUploader;
+  /**
+   * Enables AI writing help on selected text. Called with the note's
+   * Markdown just before an accepted change is applied.
+   */
+  onBeforeAIEdit?: (markdown: string) => void;
+}
+
+function openNoteInMainPane(noteId: string) {
+  useNotesStore.getState().setActiveNoteId(noteId);
 }
 
 function cleanCorruptedMarkdown(text: string): string {
@@ -105,8 +136,15 @@ function MilkdownEditorInner({
   placeholder = "Start writing...",
   readOnly = false,
   className,
+  collab: collabBinding,
+  noteId,
+  onOpenNoteLink = openNoteInMainPane,
+  onUploadAttachment,
+  onBeforeAIEdit,
 }: MilkdownEditorProps) {
   const onChangeRef = useRef(onChange);
+  const uploadRef = useRef(onUploadAttachment);
+  const readOnlyRef = useRef(readOnly);
   const onFocusRef = useRef(onFocus);
   const onBlurRef = useRef(onBlur);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -114,6 +152,8 @@ function MilkdownEditorInner({
   onChangeRef.current = onChange;
   onFocusRef.current = onFocus;
   onBlurRef.current = onBlur;
+  readOnlyRef.current = readOnly;
+  uploadRef.current = onUploadAttachment;
 
   const initialMarkdown = useMemo(() => {
     if (!content) return "";
@@ -124,11 +164,17 @@ function MilkdownEditorInner({
     return md;
   }, []);
 
-  const { get } = useEditor((root) => {
-    return Editor.make()
+  const { get, loading } = useEditor((root) => {
+    const editor = Editor.make()
       .config((ctx) => {
         ctx.set(rootCtx, root);
-        ctx.set(defaultValueCtx, initialMarkdown);
+        // In collab mode the Yjs doc is the source of truth; the template is
+        // applied only once we know the shared doc is empty
+        ctx.set(defaultValueCtx, collabBinding ? "" : initialMarkdown);
+        ctx.update(editorViewOptionsCtx, (prev) => ({
+          ...prev,
+          editable: () => !readOnlyRef.current,
+        }));
         ctx.set(remarkStringifyOptionsCtx, {
           bullet: "-",
           listItemIndent: "one",
@@ -153,15 +199,61 @@ function MilkdownEditorInner({
       .use(commonmark)
       .use(gfm)
       .use(listener)
-      .use(history)
       .use(clipboard)
       .use(trailing)
       .use(indent)
       .use(cursor)
-      .use(codeBlockEscape);
+      .use(codeBlockEscape)
+      .use(attachmentPlugin(() => (readOnlyRef.current ? null : uploadRef.current)));
+
+    // y-prosemirror brings its own undo manager
+    return collabBinding ? editor.use(collab) : editor.use(history);
   }, []);
 
+  useEffect(() => {
+    if (loading || !collabBinding) return;
+    const editor = get();
+    if (!editor) return;
+
+    let cancelled = false;
+    collabBinding.whenSynced().then(() => {
+      if (cancelled) return;
+      editor.action((ctx) => {
+        ctx
+          .get(collabServiceCtx)
+          .bindDoc(collabBinding.doc)
+          .setAwareness(collabBinding.awareness)
+          .applyTemplate(initialMarkdown)
+          .connect();
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      try {
+        editor.action((ctx) => {
+          ctx.get(collabServiceCtx).disconnect();
+        });
+      } catch {}
+    };
+  }, [loading, get]);
+
+  // Note links never navigate the browser. Editable notes open them from the
+  // link popover; read-only notes open them straight away.
+  const handleNoteLinkClick = useCallback((e: React.MouseEvent) => {
+    const link = (e.target as HTMLElement).closest("a") as HTMLAnchorElement | null;
+    const linkedId = parseNoteLinkHref(link?.getAttribute("href"));
+    if (!linkedId) return false;
+
+    e.preventDefault();
+    if (readOnlyRef.current) {
+      onOpenNoteLink(linkedId, e.shiftKey || e.metaKey || e.ctrlKey);
+    }
+    return true;
+  }, [onOpenNoteLink]);
+
   const handleTaskClick = useCallback((e: React.MouseEvent) => {
+    if (handleNoteLinkClick(e)) return;
     const target = e.target as HTMLElement;
     const li = target.closest("li[data-item-type='task']") as HTMLElement | null;
     if (!li) return;
@@ -199,7 +291,7 @@ function MilkdownEditorInner({
         }
       });
     } catch {}
-  }, [get]);
+  }, [get, handleNoteLinkClick]);
 
   return (
     <div
@@ -211,12 +303,22 @@ function MilkdownEditorInner({
     >
       {!readOnly && (
         <>
-          <SlashMenu getEditor={get} containerRef={containerRef} />
-          <LinkPopover getEditor={get} containerRef={containerRef} />
+          <SlashMenu getEditor={get} containerRef={containerRef} noteId={noteId} />
+          <WikiLinkMenu getEditor={get} containerRef={containerRef} noteId={noteId} />
+          <LinkPopover getEditor={get} containerRef={containerRef} onOpenNoteLink={onOpenNoteLink} />
+          {onBeforeAIEdit && (
+            <AIAssistMenu getEditor={get} containerRef={containerRef} onBeforeApply={onBeforeAIEdit} />
+          )}
         </>
       )}
       <Milkdown />
-      {!readOnly && <DockedToolbar getEditor={get} containerRef={containerRef} />}
+      {!readOnly && (
+        <DockedToolbar
+          getEditor={get}
+          containerRef={containerRef}
+          onUploadAttachment={onUploadAttachment}
+        />
+      )}
     </div>
   );
 }
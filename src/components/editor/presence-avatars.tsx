@@ -0,0 +1,37 @@
+"use client";
+
+import React from "react";
+import type { CollabPeer } from "@/utils/collab-provider";
+
+const MAX_VISIBLE = 4;
+
+export default function PresenceAvatars({ peers }: { peers: CollabPeer[] }) {
+  if (peers.length === 0) return null;
+
+  const visible = peers.slice(0, MAX_VISIBLE);
+  const overflow = peers.length - visible.length;
+
+  return (
+    <div className="flex items-center -space-x-1.5 mr-1">
+      {visible.map((peer) => (
+        <span
+          key={peer.odId}
+          title={`${peer.displayName}${peer.role === "viewer" ? " (viewing)" : ""}`}
+          className="relative inline-flex items-center justify-center size-6 rounded-full text-[10px] font-semibold text-white ring-2 ring-[var(--color-bg-primary)] overflow-hidden"
+          style={{ backgroundColor: peer.color }}
+        >
+          {peer.avatarUrl ? (
+            <img src={peer.avatarUrl} alt="" className="size-full object-cover" />
+          ) : (
+            (peer.displayName || "?").charAt(0).toUpperCase()
+          )}
+        </span>
+      ))}
+      {overflow > 0 && (
+        <span className="inline-flex items-center justify-center size-6 rounded-full text-[10px] font-medium bg-[var(--color-bg-tertiary)] text-[var(--color-text-secondary)] ring-2 ring-[var(--color-bg-primary)]">
+          +{overflow}
+        </span>
+      )}
+    </div>
+  );
+}
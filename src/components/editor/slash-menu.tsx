@@ -1,10 +1,10 @@
 "use client";
 
-import React, { useState, useEffect, useRef, useCallback } from "react";
+import React, { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { createPortal } from "react-dom";
 import type { Editor } from "@milkdown/core";
 import { editorViewCtx } from "@milkdown/core";
-import { callCommand } from "@milkdown/utils";
+import { callCommand, insert } from "@milkdown/utils";
 import {
   wrapInHeadingCommand,
   wrapInBulletListCommand,
@@ -25,11 +25,19 @@ import {
   IconMinus,
   IconCodeDots,
   IconTable,
+  IconTemplate,
 } from "@tabler/icons-react";
+import { Modal } from "@/components/ds/modal";
+import { TemplateFillForm } from "@/components/template-picker";
+import { useNotesStore } from "@/stores/notes-store";
+import { fillTemplate, getTemplatePrompts } from "@/utils/note-templates";
+import type { NoteTemplate } from "@/types/template";
 
 interface SlashMenuProps {
   getEditor: () => Editor | undefined;
   containerRef: React.RefObject<HTMLElement | null>;
+  /** The note being edited; its title fills {{title}} in templates */
+  noteId?: string;
 }
 
 interface SlashItem {
@@ -124,14 +132,47 @@ const SLASH_ITEMS: SlashItem[] = [
   },
 ];
 
-export default function SlashMenu({ getEditor, containerRef }: SlashMenuProps) {
+export default function SlashMenu({ getEditor, containerRef, noteId }: SlashMenuProps) {
   const [visible, setVisible] = useState(false);
   const [filter, setFilter] = useState("");
   const [pos, setPos] = useState({ x: 0, y: 0 });
   const [selectedIndex, setSelectedIndex] = useState(0);
+  const [pendingTemplate, setPendingTemplate] = useState<NoteTemplate | null>(null);
   const menuRef = useRef<HTMLDivElement>(null);
+  const templates = useNotesStore((s) => s.templates);
+  const noteTitle = useNotesStore((s) => s.notes.find((n) => n.id === noteId)?.title || "");
 
-  const filteredItems = SLASH_ITEMS.filter(
+  // Templates with prompts ask for answers first; the rest go straight in
+  const items = useMemo<SlashItem[]>(
+    () => [
+      ...SLASH_ITEMS,
+      ...templates.map((template) => ({
+        label: template.name,
+        description: "Insert template",
+        icon: <IconTemplate size={16} />,
+        action: (e: Editor) => {
+          if (getTemplatePrompts(template.content).length > 0) {
+            setPendingTemplate(template);
+          } else {
+            e.action(insert(fillTemplate(template.content, { title: noteTitle, answers: {} })));
+          }
+        },
+      })),
+    ],
+    [templates, noteTitle],
+  );
+
+  const insertPendingTemplate = useCallback(
+    (_title: string, content: string) => {
+      setPendingTemplate(null);
+      try {
+        getEditor()?.action(insert(content));
+      } catch {}
+    },
+    [getEditor],
+  );
+
+  const filteredItems = items.filter(
     (item) =>
       !filter ||
       item.label.toLowerCase().includes(filter.toLowerCase()) ||
@@ -236,6 +277,21 @@ export default function SlashMenu({ getEditor, containerRef }: SlashMenuProps) {
     };
   }, [containerRef, visible, filteredItems, selectedIndex, executeItem, close]);
 
+  if (pendingTemplate) {
+    return (
+      <Modal open onClose={() => setPendingTemplate(null)} title={pendingTemplate.name} size="md">
+        <TemplateFillForm
+          template={pendingTemplate}
+          noteTitle={noteTitle}
+          submitLabel="Insert"
+          cancelLabel="Cancel"
+          onSubmit={insertPendingTemplate}
+          onCancel={() => setPendingTemplate(null)}
+        />
+      </Modal>
+    );
+  }
+
   if (!visible || filteredItems.length === 0) return null;
 
   return createPortal(
@@ -246,7 +302,7 @@ export default function SlashMenu({ getEditor, containerRef }: SlashMenuProps) {
     >
       {filteredItems.map((item, i) => (
         <button
-          key={item.label}
+          key={`${item.description}:${item.label}`}
           onMouseDown={(e) => {
             e.preventDefault();
             executeItem(item);
@@ -26,6 +26,8 @@ import {
   toggleStrikethroughCommand,
   insertTableCommand,
 } from "@milkdown/preset-gfm";
+import { ATTACHMENT_ACCEPT } from "@/types/attachment";
+import { uploadFiles, type AttachmentUploader } from "./attachments";
 
 export interface ActiveState {
   strong: boolean;
@@ -105,10 +107,13 @@ export interface FormatActions {
  * Shared formatting command + active-state logic for the editor toolbars.
  * `active` reflects the current selection/cursor and updates on selectionchange,
  * so it works for an always-visible (docked) bar, not just an on-selection one.
+ * With `uploadAttachment`, the image command picks files to upload instead of
+ * asking for a URL.
  */
 export function useFormatCommands(
   getEditor: () => Editor | undefined,
   containerRef: React.RefObject<HTMLElement | null>,
+  uploadAttachment?: AttachmentUploader,
 ): { active: ActiveState; actions: FormatActions } {
   const [active, setActive] = useState<ActiveState>(EMPTY_ACTIVE);
 
@@ -172,9 +177,24 @@ export function useFormatCommands(
   }, [withView]);
 
   const image = useCallback(() => {
-    const src = prompt("Image URL:");
-    if (src) run(insertImageCommand.key, { src });
-  }, [run]);
+    if (!uploadAttachment) {
+      const src = prompt("Image URL:");
+      if (src) run(insertImageCommand.key, { src });
+      return;
+    }
+
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = ATTACHMENT_ACCEPT;
+    input.multiple = true;
+    input.onchange = () => {
+      const files = Array.from(input.files || []);
+      if (files.length > 0) {
+        withView((view) => uploadFiles(view, files, uploadAttachment));
+      }
+    };
+    input.click();
+  }, [run, withView, uploadAttachment]);
 
   const list = useCallback(
     (type: "bullet" | "ordered" | "task") => {
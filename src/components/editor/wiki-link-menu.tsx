@@ -0,0 +1,176 @@
+"use client";
+
+import React, { useState, useEffect, useCallback, useMemo } from "react";
+import { createPortal } from "react-dom";
+import type { Editor } from "@milkdown/core";
+import { editorViewCtx } from "@milkdown/core";
+import { IconFileText, IconCloud } from "@tabler/icons-react";
+import { useNotesStore } from "@/stores/notes-store";
+import { noteLinkHref } from "@/utils/note-links";
+import type { CombinedNote } from "@/types/combined-notes";
+
+interface WikiLinkMenuProps {
+  getEditor: () => Editor | undefined;
+  containerRef: React.RefObject<HTMLElement | null>;
+  /** The note being edited, left out of the suggestions */
+  noteId?: string;
+}
+
+const MAX_SUGGESTIONS = 8;
+const TRIGGER = /\[\[([^[\]\n]*)$/;
+
+export default function WikiLinkMenu({ getEditor, containerRef, noteId }: WikiLinkMenuProps) {
+  const [visible, setVisible] = useState(false);
+  const [filter, setFilter] = useState("");
+  const [pos, setPos] = useState({ x: 0, y: 0 });
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const notes = useNotesStore((s) => s.notes);
+
+  const suggestions = useMemo(() => {
+    if (!visible) return [];
+    const q = filter.trim().toLowerCase();
+    return notes
+      .filter((note) => note.id !== noteId && !note.deletedAt)
+      .filter((note) => !q || (note.title || "").toLowerCase().includes(q))
+      .sort((a, b) => {
+        // Titles starting with the query first, then most recently edited
+        const aPrefix = (a.title || "").toLowerCase().startsWith(q) ? 0 : 1;
+        const bPrefix = (b.title || "").toLowerCase().startsWith(q) ? 0 : 1;
+        return aPrefix - bPrefix || b.updatedAt - a.updatedAt;
+      })
+      .slice(0, MAX_SUGGESTIONS);
+  }, [visible, filter, notes, noteId]);
+
+  const close = useCallback(() => {
+    setVisible(false);
+    setFilter("");
+    setSelectedIndex(0);
+  }, []);
+
+  const insertLink = useCallback(
+    (target: CombinedNote) => {
+      const editor = getEditor();
+      if (!editor) return;
+
+      // Replace "[[query" with the note title carrying a note:// link
+      try {
+        editor.action((ctx) => {
+          const view = ctx.get(editorViewCtx) as any;
+          const { state } = view;
+          const { $from } = state.selection;
+          const before = $from.parent.textBetween(0, $from.parentOffset, undefined, "\ufffc");
+          const match = before.match(TRIGGER);
+          if (!match) return;
+
+          const from = $from.pos - match[0].length;
+          const linkMark = state.schema.marks.link.create({ href: noteLinkHref(target.id) });
+          const title = target.title || "Untitled";
+          const tr = state.tr
+            .replaceWith(from, $from.pos, state.schema.text(title, [linkMark]))
+            .insert(from + title.length, state.schema.text(" "));
+          view.dispatch(tr.scrollIntoView());
+          view.focus();
+        });
+      } catch {}
+
+      close();
+    },
+    [getEditor, close],
+  );
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleInput = () => {
+      const sel = window.getSelection();
+      if (!sel || sel.rangeCount === 0) return;
+
+      const anchor = sel.anchorNode;
+      if (!anchor || !container.contains(anchor) || anchor.nodeType !== Node.TEXT_NODE) {
+        close();
+        return;
+      }
+
+      const before = (anchor.textContent || "").slice(0, sel.anchorOffset);
+      const match = before.match(TRIGGER);
+      if (match) {
+        const rect = sel.getRangeAt(0).getBoundingClientRect();
+        setPos({ x: rect.left, y: rect.bottom + 4 });
+        setFilter(match[1]);
+        setSelectedIndex(0);
+        setVisible(true);
+      } else {
+        close();
+      }
+    };
+
+    // Capture phase so Enter/arrows are handled before ProseMirror sees them
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!visible || suggestions.length === 0) return;
+
+      if (e.key === "ArrowDown") {
+        e.preventDefault();
+        e.stopPropagation();
+        setSelectedIndex((i) => Math.min(i + 1, suggestions.length - 1));
+      } else if (e.key === "ArrowUp") {
+        e.preventDefault();
+        e.stopPropagation();
+        setSelectedIndex((i) => Math.max(i - 1, 0));
+      } else if ((e.key === "Enter" || e.key === "Tab") && suggestions[selectedIndex]) {
+        e.preventDefault();
+        e.stopPropagation();
+        insertLink(suggestions[selectedIndex]);
+      } else if (e.key === "Escape") {
+        e.preventDefault();
+        e.stopPropagation();
+        close();
+      }
+    };
+
+    container.addEventListener("input", handleInput);
+    container.addEventListener("keydown", handleKeyDown, true);
+
+    return () => {
+      container.removeEventListener("input", handleInput);
+      container.removeEventListener("keydown", handleKeyDown, true);
+    };
+  }, [containerRef, visible, suggestions, selectedIndex, insertLink, close]);
+
+  if (!visible || suggestions.length === 0) return null;
+
+  return createPortal(
+    <div
+      className="fixed z-[9999] w-[260px] max-h-[280px] overflow-y-auto py-1 bg-[var(--color-bg-elevated)] border border-[var(--color-border-primary)] rounded-[var(--radius-lg)] shadow-lg animate-scale-in"
+      style={{ left: `${pos.x}px`, top: `${pos.y}px` }}
+    >
+      <p className="px-3 pt-1 pb-1.5 text-[10px] font-medium text-[var(--color-text-tertiary)] uppercase tracking-wider">
+        Link to note
+      </p>
+      {suggestions.map((note, i) => (
+        <button
+          key={note.id}
+          onMouseDown={(e) => {
+            e.preventDefault();
+            insertLink(note);
+          }}
+          onMouseEnter={() => setSelectedIndex(i)}
+          className={`w-full flex items-center gap-2 px-3 py-1.5 text-left transition-colors ${
+            i === selectedIndex
+              ? "bg-[var(--color-selected)]"
+              : "hover:bg-[var(--color-hover)]"
+          }`}
+        >
+          <IconFileText size={14} className="text-[var(--color-text-tertiary)] shrink-0" />
+          <span className="flex-1 min-w-0 text-xs text-[var(--color-text-primary)] truncate">
+            {note.title || "Untitled"}
+          </span>
+          {note.source === "supabase" && (
+            <IconCloud size={11} className="text-[var(--color-text-tertiary)] shrink-0" />
+          )}
+        </button>
+      ))}
+    </div>,
+    document.body,
+  );
+}
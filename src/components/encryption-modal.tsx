@@ -0,0 +1,463 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import {
+  IconCopy,
+  IconKey,
+  IconLock,
+  IconLockOpen,
+  IconRefresh,
+  IconShieldLock,
+} from "@tabler/icons-react";
+import { Modal } from "@/components/ds/modal";
+import { Button } from "@/components/ds/button";
+import { Input } from "@/components/ds/input";
+import { useToast } from "@/components/ui/toast";
+import { useNoteEncryption } from "@/hooks/use-note-encryption";
+import { MIN_PASSPHRASE_LENGTH } from "@/types/encryption";
+
+interface EncryptionModalProps {
+  open: boolean;
+  onClose: () => void;
+  /** Flush debounced saves so nothing is still waiting to be encrypted when keys change */
+  flushPendingSaves?: () => void;
+}
+
+type EncryptionView =
+  | "overview"
+  | "setup"
+  | "recovery-code"
+  | "change-passphrase"
+  | "new-recovery-code"
+  | "rotate";
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "Something went wrong";
+}
+
+function passphraseProblem(passphrase: string, confirm: string): string | null {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    return `Use at least ${MIN_PASSPHRASE_LENGTH} characters`;
+  }
+  if (passphrase !== confirm) return "Passphrases don't match";
+  return null;
+}
+
+/**
+ * Unlock form, shown in the modal and in place of a locked note. "Use
+ * recovery code" swaps to the recovery form, which also sets a new passphrase.
+ */
+export function EncryptionUnlockForm({ onUnlocked }: { onUnlocked?: () => void }) {
+  const { unlock, recover } = useNoteEncryption();
+  const [useRecovery, setUseRecovery] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [newPassphrase, setNewPassphrase] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (useRecovery) {
+      const problem = passphraseProblem(newPassphrase, confirm);
+      if (problem) {
+        setError(problem);
+        return;
+      }
+    }
+
+    setBusy(true);
+    try {
+      if (useRecovery) {
+        await recover(recoveryCode, newPassphrase);
+      } else {
+        await unlock(passphrase);
+      }
+      onUnlocked?.();
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      {useRecovery ? (
+        <>
+          <Input
+            value={recoveryCode}
+            onChange={(e) => setRecoveryCode(e.target.value)}
+            placeholder="Recovery code"
+            autoComplete="off"
+            spellCheck={false}
+            className="font-mono"
+            autoFocus
+          />
+          <Input
+            type="password"
+            value={newPassphrase}
+            onChange={(e) => setNewPassphrase(e.target.value)}
+            placeholder="New passphrase"
+            autoComplete="new-password"
+          />
+          <Input
+            type="password"
+            value={confirm}
+            onChange={(e) => setConfirm(e.target.value)}
+            placeholder="Confirm new passphrase"
+            autoComplete="new-password"
+            error={error || undefined}
+          />
+        </>
+      ) : (
+        <Input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          autoComplete="current-password"
+          error={error || undefined}
+          autoFocus
+        />
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <Button
+          type="button"
+          variant="link"
+          size="sm"
+          onClick={() => {
+            setUseRecovery(!useRecovery);
+            setError(null);
+          }}
+        >
+          {useRecovery ? "Use passphrase" : "Use recovery code"}
+        </Button>
+        <Button
+          type="submit"
+          size="sm"
+          loading={busy}
+          disabled={useRecovery ? !recoveryCode || !newPassphrase : !passphrase}
+        >
+          <IconLockOpen size={14} />
+          Unlock
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+function RecoveryCodeDisplay({ code, onDone }: { code: string; onDone: () => void }) {
+  const toast = useToast();
+  const [saved, setSaved] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      toast.showSuccess("Recovery code copied");
+    } catch {
+      toast.showError("Couldn't copy — select the code and copy it instead");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-[var(--color-text-secondary)]">
+        This is the only way back in if you forget your passphrase. Store it
+        somewhere safe, away from this device. It won&apos;t be shown again.
+      </p>
+      <div className="flex items-center gap-2 p-3 rounded-[var(--radius-md)] bg-[var(--color-bg-tertiary)]">
+        <code className="flex-1 font-mono text-sm break-all select-all text-[var(--color-text-primary)]">
+          {code}
+        </code>
+        <Button variant="ghost" size="icon-sm" onClick={handleCopy} aria-label="Copy recovery code">
+          <IconCopy size={14} />
+        </Button>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-[var(--color-text-primary)]">
+        <input type="checkbox" checked={saved} onChange={(e) => setSaved(e.target.checked)} />
+        I&apos;ve saved my recovery code
+      </label>
+      <div className="flex justify-end">
+        <Button size="sm" disabled={!saved} onClick={onDone}>
+          Done
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Encrypted notes: set up, unlock and lock for the session, and manage the
+ * passphrase, recovery code and note key.
+ */
+export default function EncryptionModal({ open, onClose, flushPendingSaves }: EncryptionModalProps) {
+  const { status, setUp, lock, changePassphrase, newRecoveryCode, rotateKey } = useNoteEncryption();
+  const toast = useToast();
+
+  const [view, setView] = useState<EncryptionView>("overview");
+  const [recoveryCode, setRecoveryCode] = useState<string | null>(null);
+  const [passphrase, setPassphrase] = useState("");
+  const [nextPassphrase, setNextPassphrase] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setView("overview");
+      setRecoveryCode(null);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    setPassphrase("");
+    setNextPassphrase("");
+    setConfirm("");
+    setError(null);
+  }, [view]);
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    setBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const showRecoveryCode = (code: string) => {
+    setRecoveryCode(code);
+    setView("recovery-code");
+  };
+
+  const handleSetUp = (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = passphraseProblem(passphrase, confirm);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    run(async () => {
+      flushPendingSaves?.();
+      showRecoveryCode(await setUp(passphrase));
+    });
+  };
+
+  const handleChangePassphrase = (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = passphraseProblem(nextPassphrase, confirm);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    run(async () => {
+      await changePassphrase(passphrase, nextPassphrase);
+      toast.showSuccess("Passphrase changed");
+      setView("overview");
+    });
+  };
+
+  const handleNewRecoveryCode = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => showRecoveryCode(await newRecoveryCode(passphrase)));
+  };
+
+  const handleRotate = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      flushPendingSaves?.();
+      showRecoveryCode(await rotateKey(passphrase));
+    });
+  };
+
+  const handleLock = () =>
+    run(async () => {
+      flushPendingSaves?.();
+      await lock();
+      onClose();
+    });
+
+  const backButton = (
+    <Button type="button" variant="ghost" size="sm" onClick={() => setView("overview")} disabled={busy}>
+      Back
+    </Button>
+  );
+
+  const passphraseInput = (
+    <Input
+      type="password"
+      value={passphrase}
+      onChange={(e) => setPassphrase(e.target.value)}
+      placeholder={view === "setup" ? "Passphrase" : "Current passphrase"}
+      autoComplete={view === "setup" ? "new-password" : "current-password"}
+      error={view === "new-recovery-code" || view === "rotate" ? error || undefined : undefined}
+      autoFocus
+    />
+  );
+
+  const newPassphraseInputs = (
+    <>
+      <Input
+        type="password"
+        value={view === "setup" ? passphrase : nextPassphrase}
+        onChange={(e) => (view === "setup" ? setPassphrase : setNextPassphrase)(e.target.value)}
+        placeholder={view === "setup" ? "Passphrase" : "New passphrase"}
+        autoComplete="new-password"
+        autoFocus={view === "setup"}
+      />
+      <Input
+        type="password"
+        value={confirm}
+        onChange={(e) => setConfirm(e.target.value)}
+        placeholder="Confirm passphrase"
+        autoComplete="new-password"
+        error={error || undefined}
+      />
+    </>
+  );
+
+  return (
+    <Modal
+      open={open}
+      onClose={busy ? () => {} : onClose}
+      title="Encrypted notes"
+      description="Private cloud notes are encrypted on this device before they're saved."
+      size="md"
+    >
+      {view === "recovery-code" && recoveryCode && (
+        <RecoveryCodeDisplay
+          code={recoveryCode}
+          onDone={() => {
+            setRecoveryCode(null);
+            setView("overview");
+          }}
+        />
+      )}
+
+      {view === "overview" && (
+        <div className="space-y-4">
+          <ul className="space-y-1.5 text-xs text-[var(--color-text-secondary)] list-disc pl-4">
+            <li>Only note content is encrypted. Titles stay readable so your notes can be listed and found.</li>
+            <li>Encrypted notes can&apos;t be shared, edited together, analysed by AI or kept in version history.</li>
+            <li>Search matches their titles until you unlock, then their content on this device too.</li>
+            <li>
+              If you lose both your passphrase and your recovery code, your encrypted notes can&apos;t be
+              recovered. Not even by us.
+            </li>
+          </ul>
+
+          {status === "unknown" && (
+            <p className="text-sm text-[var(--color-text-tertiary)]">Checking encryption…</p>
+          )}
+
+          {status === "off" && (
+            <div className="flex justify-end">
+              <Button size="sm" onClick={() => setView("setup")}>
+                <IconShieldLock size={14} />
+                Set up encryption
+              </Button>
+            </div>
+          )}
+
+          {status === "locked" && <EncryptionUnlockForm onUnlocked={onClose} />}
+
+          {status === "unlocked" && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2 text-sm text-[var(--color-success)]">
+                <IconLockOpen size={16} />
+                Unlocked for this session
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                <Button variant="outline" size="sm" onClick={handleLock} loading={busy}>
+                  <IconLock size={14} />
+                  Lock now
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setView("change-passphrase")}>
+                  <IconKey size={14} />
+                  Change passphrase
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setView("new-recovery-code")}>
+                  <IconShieldLock size={14} />
+                  New recovery code
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setView("rotate")}>
+                  <IconRefresh size={14} />
+                  Rotate key
+                </Button>
+              </div>
+              {error && <p className="text-xs text-[var(--color-danger)]">{error}</p>}
+            </div>
+          )}
+        </div>
+      )}
+
+      {view === "setup" && (
+        <form onSubmit={handleSetUp} className="space-y-3">
+          <p className="text-sm text-[var(--color-text-secondary)]">
+            Choose a passphrase of at least {MIN_PASSPHRASE_LENGTH} characters. Your existing private
+            cloud notes are encrypted straight away, and you&apos;ll get a recovery code next.
+          </p>
+          {newPassphraseInputs}
+          <div className="flex justify-end gap-2">
+            {backButton}
+            <Button type="submit" size="sm" loading={busy}>
+              Encrypt private notes
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {view === "change-passphrase" && (
+        <form onSubmit={handleChangePassphrase} className="space-y-3">
+          {passphraseInput}
+          {newPassphraseInputs}
+          <div className="flex justify-end gap-2">
+            {backButton}
+            <Button type="submit" size="sm" loading={busy} disabled={!passphrase}>
+              Change passphrase
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {view === "new-recovery-code" && (
+        <form onSubmit={handleNewRecoveryCode} className="space-y-3">
+          <p className="text-sm text-[var(--color-text-secondary)]">
+            Your old recovery code will stop working.
+          </p>
+          {passphraseInput}
+          <div className="flex justify-end gap-2">
+            {backButton}
+            <Button type="submit" size="sm" loading={busy} disabled={!passphrase}>
+              Create new code
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {view === "rotate" && (
+        <form onSubmit={handleRotate} className="space-y-3">
+          <p className="text-sm text-[var(--color-text-secondary)]">
+            Every encrypted note, including those in the trash, is re-encrypted with a new key, and
+            you&apos;ll get a new recovery code. Keep this tab open until it finishes.
+          </p>
+          {passphraseInput}
+          <div className="flex justify-end gap-2">
+            {backButton}
+            <Button type="submit" size="sm" loading={busy} disabled={!passphrase}>
+              Rotate key
+            </Button>
+          </div>
+        </form>
+      )}
+    </Modal>
+  );
+}
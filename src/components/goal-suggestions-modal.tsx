@@ -3,11 +3,14 @@
 import React, { useState } from "react";
 import { Modal } from "@/components/ds/modal";
 import { IconTarget } from "@tabler/icons-react";
+import { GoalWindow, nextGoalWindow, toUTCDateKey } from "@/types/writing-goals";
 
 interface GoalSuggestionsModalProps {
   open: boolean;
   onClose: () => void;
   onSelect: (value: number, type: "words" | "characters") => void;
+  /** Called as well for presets tied to dates, to set up a goal with a deadline */
+  onSelectDated?: (value: number, dates: { startDate: string; dueDate: string }, label: string) => void;
 }
 
 interface Preset {
@@ -15,6 +18,8 @@ interface Preset {
   min: number;
   max?: number;
   description?: string;
+  /** Presets with a fixed window become a goal with a deadline */
+  window?: GoalWindow;
 }
 
 interface Category {
@@ -32,7 +37,12 @@ const WORD_CATEGORIES: Category[] = [
       { label: "Novel", min: 50000, max: 100000 },
       { label: "Epic Novel", min: 100000, max: 150000 },
       { label: "Single Chapter", min: 3000, max: 5000 },
-      { label: "NaNoWriMo", min: 50000, description: "November challenge" },
+      {
+        label: "NaNoWriMo",
+        min: 50000,
+        description: "November challenge",
+        window: { month: 11, firstDay: 1, lastDay: 30 },
+      },
     ],
   },
   {
@@ -120,7 +130,12 @@ const CHARACTER_CATEGORIES: Category[] = [
   },
 ];
 
-export default function GoalSuggestionsModal({ open, onClose, onSelect }: GoalSuggestionsModalProps) {
+export default function GoalSuggestionsModal({
+  open,
+  onClose,
+  onSelect,
+  onSelectDated,
+}: GoalSuggestionsModalProps) {
   const [tab, setTab] = useState<"words" | "characters">("words");
   const [activeCategory, setActiveCategory] = useState(0);
 
@@ -177,7 +192,12 @@ export default function GoalSuggestionsModal({ open, onClose, onSelect }: GoalSu
             <button
               key={preset.label}
               onClick={() => {
-                onSelect(preset.max || preset.min, tab);
+                const value = preset.max || preset.min;
+                onSelect(value, tab);
+                if (preset.window && onSelectDated) {
+                  const dates = nextGoalWindow(preset.window, toUTCDateKey(new Date()));
+                  onSelectDated(value, dates, `${preset.label} ${dates.dueDate.slice(0, 4)}`);
+                }
                 onClose();
               }}
               className="text-left px-3 py-2.5 rounded-[var(--radius-md)] border border-[var(--color-border-secondary)] hover:border-[var(--color-accent)] hover:bg-[var(--color-accent-subtle)] transition-colors group"
@@ -190,6 +210,7 @@ export default function GoalSuggestionsModal({ open, onClose, onSelect }: GoalSu
                   ? `${preset.min.toLocaleString()} – ${preset.max.toLocaleString()} ${tab}`
                   : `${preset.min.toLocaleString()} ${tab}`}
                 {preset.description && ` · ${preset.description}`}
+                {preset.window && onSelectDated && " · tracks your daily pace"}
               </p>
             </button>
           ))}
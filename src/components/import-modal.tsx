@@ -0,0 +1,516 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  IconFileImport,
+  IconFolderOpen,
+  IconNotebook,
+  IconTag,
+  IconAlertTriangle,
+  IconCircleCheck,
+} from "@tabler/icons-react";
+import { Modal } from "@/components/ds/modal";
+import { Button } from "@/components/ds/button";
+import { useToast } from "@/components/ui/toast";
+import { useNotesStore } from "@/stores/notes-store";
+import { createNote as createSupabaseNote } from "@/app/actions/supabaseActions";
+import { createNotebook } from "@/app/actions/notebookActions";
+import { createTag, assignTagToNote } from "@/app/actions/tagActions";
+import { createNote } from "@/types/combined-notes";
+import { generateNoteId } from "@/utils/general/notes";
+import {
+  BULK_IMPORT_ACCEPT,
+  planImport,
+  readImportSources,
+  type DuplicateStrategy,
+  type ImportFormat,
+  type ParsedImport,
+  type SkippedImport,
+} from "@/utils/bulk-import";
+
+interface ImportModalProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type ImportStep = "pick" | "preview" | "importing" | "done";
+
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+  markdown: "Markdown",
+  justnoted: "Just Noted export",
+  enex: "Evernote",
+  backup: "Just Noted backup",
+};
+
+// Long lists in the preview are cut off after this many rows
+const PREVIEW_LIMIT = 50;
+
+function plural(count: number, word: string): string {
+  return `${count.toLocaleString()} ${word}${count === 1 ? "" : "s"}`;
+}
+
+function SectionHeading({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="mb-1.5 flex items-center gap-1.5 text-[11px] font-medium uppercase tracking-wider text-[var(--color-text-tertiary)]">
+      {children}
+    </div>
+  );
+}
+
+function MoreRows({ total }: { total: number }) {
+  if (total <= PREVIEW_LIMIT) return null;
+  return (
+    <li className="text-[var(--color-text-tertiary)]">
+      …and {(total - PREVIEW_LIMIT).toLocaleString()} more
+    </li>
+  );
+}
+
+/**
+ * Bulk import: pick a ZIP, folder, ENEX or JSON backup, review a dry run of
+ * what will be created and what conflicts, then write it all to the cloud.
+ */
+export default function ImportModal({ open, onClose }: ImportModalProps) {
+  const userId = useNotesStore((s) => s.userId);
+  const notes = useNotesStore((s) => s.notes);
+  const notebooks = useNotesStore((s) => s.notebooks);
+  const tags = useNotesStore((s) => s.tags);
+  const addNotebook = useNotesStore((s) => s.addNotebook);
+  const addTag = useNotesStore((s) => s.addTag);
+  const optimisticAddNote = useNotesStore((s) => s.optimisticAddNote);
+  const assignTagToNoteInStore = useNotesStore((s) => s.assignTagToNoteInStore);
+  const recalculateNotebookCounts = useNotesStore((s) => s.recalculateNotebookCounts);
+
+  const [step, setStep] = useState<ImportStep>("pick");
+  const [reading, setReading] = useState(false);
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [duplicates, setDuplicates] = useState<DuplicateStrategy>("skip");
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [outcome, setOutcome] = useState<{ imported: number; failures: SkippedImport[] }>({
+    imported: 0,
+    failures: [],
+  });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const toast = useToast();
+
+  useEffect(() => {
+    if (!open) {
+      setStep("pick");
+      setParsed(null);
+      setDuplicates("skip");
+    }
+  }, [open]);
+
+  // React doesn't know the folder picker attribute
+  useEffect(() => {
+    folderInputRef.current?.setAttribute("webkitdirectory", "");
+  }, [open, step]);
+
+  const plan = useMemo(
+    () => (parsed ? planImport(parsed, { notes, notebooks, tags }, duplicates) : null),
+    [parsed, notes, notebooks, tags, duplicates],
+  );
+
+  const handleFiles = useCallback(
+    async (files: FileList | null) => {
+      if (!files || files.length === 0) return;
+      setReading(true);
+      try {
+        const result = await readImportSources(files);
+        if (result.notes.length === 0 && result.skipped.length === 0) {
+          toast.showError("No notes found in the selected files");
+          return;
+        }
+        setParsed(result);
+        setStep("preview");
+      } catch (error) {
+        console.error("Failed to read import:", error);
+        toast.showError("Couldn't read the selected files");
+      } finally {
+        setReading(false);
+        if (fileInputRef.current) fileInputRef.current.value = "";
+        if (folderInputRef.current) folderInputRef.current.value = "";
+      }
+    },
+    [toast],
+  );
+
+  const handleImport = useCallback(async () => {
+    if (!plan || !userId) return;
+
+    const toImport = plan.notes.filter((note) => !note.skip);
+    const failures: SkippedImport[] = [];
+    const usedIds = notes.map((note) => note.id);
+    let imported = 0;
+
+    setStep("importing");
+    setProgress({ done: 0, total: toImport.length });
+
+    // Each item is tried on its own, so a thrown request (a dropped
+    // connection, a body over the server action limit) fails only that item
+    const reasonOf = (error: unknown, fallback: string) =>
+      error instanceof Error && error.message ? error.message : fallback;
+
+    try {
+      // Parents are listed before children, so their ids are known in time.
+      // If a parent can't be created its children's notes stay loose.
+      const notebookIds = new Map<string, string | null>();
+      for (const notebook of plan.notebooks) {
+        if (notebook.existingId) {
+          notebookIds.set(notebook.key, notebook.existingId);
+          continue;
+        }
+        const parentId = notebook.parentKey ? notebookIds.get(notebook.parentKey) ?? null : null;
+        if (notebook.parentKey && !parentId) {
+          notebookIds.set(notebook.key, null);
+          continue;
+        }
+
+        let error: string | undefined;
+        try {
+          const result = await createNotebook({ name: notebook.name, parentId, ...notebook.cover });
+          if (result.success && result.notebook) {
+            addNotebook(result.notebook);
+            notebookIds.set(notebook.key, result.notebook.id);
+            continue;
+          }
+          error = result.error;
+        } catch (err) {
+          error = reasonOf(err, "request failed");
+        }
+        notebookIds.set(notebook.key, null);
+        failures.push({
+          source: notebook.key,
+          reason: `Notebook not created: ${error || "unknown error"}`,
+        });
+      }
+
+      const tagIds = new Map<string, string>();
+      for (const tag of plan.tags) {
+        if (tag.existingId) {
+          tagIds.set(tag.name.toLowerCase(), tag.existingId);
+          continue;
+        }
+        try {
+          const result = await createTag({ name: tag.name, color: tag.color });
+          if (result.success && result.tag) {
+            addTag(result.tag);
+            tagIds.set(tag.name.toLowerCase(), result.tag.id);
+          } else {
+            failures.push({ source: `#${tag.name}`, reason: result.error || "Tag not created" });
+          }
+        } catch (err) {
+          failures.push({ source: `#${tag.name}`, reason: reasonOf(err, "Tag not created") });
+        }
+      }
+
+      for (let i = 0; i < toImport.length; i++) {
+        const item = toImport[i];
+        const id = generateNoteId(usedIds);
+        usedIds.push(id);
+
+        const note = createNote(
+          {
+            id,
+            title: item.title,
+            content: item.content,
+            contentFormat: item.contentFormat,
+            pinned: item.isPinned,
+            isPrivate: item.isPrivate,
+            goal: item.goal,
+            goal_type: item.goalType,
+          },
+          "supabase",
+        );
+        note.author = userId;
+        note.notebookId = item.notebookKey ? notebookIds.get(item.notebookKey) ?? null : null;
+        if (item.createdAt) note.createdAt = item.createdAt;
+        note.updatedAt = item.updatedAt ?? item.createdAt ?? note.updatedAt;
+
+        try {
+          const result = await createSupabaseNote(note);
+          if (result.success && result.note) {
+            optimisticAddNote(result.note);
+            imported++;
+
+            for (const tagName of item.tags) {
+              const tagId = tagIds.get(tagName.toLowerCase());
+              if (!tagId) continue;
+              try {
+                const assigned = await assignTagToNote(result.note.id, tagId);
+                if (assigned.success) assignTagToNoteInStore(result.note.id, tagId);
+              } catch (err) {
+                failures.push({
+                  source: item.source,
+                  reason: `#${tagName} not added: ${reasonOf(err, "request failed")}`,
+                });
+              }
+            }
+          } else {
+            failures.push({ source: item.source, reason: result.error || "Failed to save note" });
+          }
+        } catch (err) {
+          failures.push({ source: item.source, reason: reasonOf(err, "Failed to save note") });
+        }
+
+        setProgress({ done: i + 1, total: toImport.length });
+      }
+    } catch (err) {
+      console.error("Import failed:", err);
+      failures.push({ source: "Import", reason: reasonOf(err, "Import stopped unexpectedly") });
+    } finally {
+      recalculateNotebookCounts();
+      setOutcome({ imported, failures });
+      setStep("done");
+    }
+  }, [
+    plan,
+    userId,
+    notes,
+    addNotebook,
+    addTag,
+    optimisticAddNote,
+    assignTagToNoteInStore,
+    recalculateNotebookCounts,
+  ]);
+
+  const importing = step === "importing";
+  const notesToImport = plan ? plan.notes.filter((note) => !note.skip) : [];
+  const conflicts = plan ? plan.notes.filter((note) => note.issues.length > 0) : [];
+  const duplicateCount = conflicts.filter((note) =>
+    note.issues.some((issue) => issue.includes("already")),
+  ).length;
+  const notImported = plan
+    ? [
+        ...plan.notes
+          .filter((note) => note.skip)
+          .map((note) => ({ source: note.source, reason: note.issues.join("; ") })),
+        ...plan.skipped,
+      ]
+    : [];
+  const newNotebooks = plan ? plan.notebooks.filter((nb) => !nb.existingId) : [];
+  const newTags = plan ? plan.tags.filter((tag) => !tag.existingId) : [];
+
+  return (
+    <Modal
+      open={open}
+      onClose={importing ? () => {} : onClose}
+      title="Import notes"
+      description={
+        step === "pick"
+          ? "Bring in an Obsidian vault, a Notion or Evernote export, or a Just Noted export or backup."
+          : undefined
+      }
+      size="lg"
+    >
+      {step === "pick" && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={reading}
+              className="flex flex-col items-center gap-2 p-5 rounded-[var(--radius-lg)] border border-dashed border-[var(--color-border-primary)] hover:bg-[var(--color-hover)] transition-colors disabled:opacity-50"
+            >
+              <IconFileImport size={24} className="text-[var(--color-accent)]" />
+              <span className="text-sm font-medium text-[var(--color-text-primary)]">Choose files</span>
+              <span className="text-[11px] text-[var(--color-text-tertiary)] text-center">
+                ZIP, ENEX, JSON, Markdown or HTML
+              </span>
+            </button>
+            <button
+              onClick={() => folderInputRef.current?.click()}
+              disabled={reading}
+              className="flex flex-col items-center gap-2 p-5 rounded-[var(--radius-lg)] border border-dashed border-[var(--color-border-primary)] hover:bg-[var(--color-hover)] transition-colors disabled:opacity-50"
+            >
+              <IconFolderOpen size={24} className="text-[var(--color-accent)]" />
+              <span className="text-sm font-medium text-[var(--color-text-primary)]">Choose a folder</span>
+              <span className="text-[11px] text-[var(--color-text-tertiary)] text-center">
+                e.g. an Obsidian vault
+              </span>
+            </button>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={BULK_IMPORT_ACCEPT}
+            className="hidden"
+            onChange={(e) => handleFiles(e.target.files)}
+          />
+          <input
+            ref={folderInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => handleFiles(e.target.files)}
+          />
+          <p className="text-xs text-[var(--color-text-tertiary)]">
+            {reading
+              ? "Reading files…"
+              : "Folders become notebooks and front matter tags become tags. You'll see a preview before anything is saved."}
+          </p>
+        </div>
+      )}
+
+      {step === "preview" && parsed && plan && (
+        <div className="space-y-4">
+          <div className="text-sm text-[var(--color-text-primary)]">
+            {parsed.formats.length > 0 && (
+              <span className="text-[var(--color-text-tertiary)]">
+                {parsed.formats.map((format) => FORMAT_LABELS[format]).join(", ")} ·{" "}
+              </span>
+            )}
+            <strong>{plural(notesToImport.length, "note")}</strong> to import,{" "}
+            {plural(newNotebooks.length, "new notebook")}, {plural(newTags.length, "new tag")}
+          </div>
+
+          <div className="max-h-[50vh] overflow-y-auto scrollbar-thin space-y-4 pr-1">
+            {plan.notebooks.length > 0 && (
+              <section>
+                <SectionHeading>
+                  <IconNotebook size={12} /> Notebooks
+                </SectionHeading>
+                <ul className="space-y-0.5 text-xs text-[var(--color-text-secondary)]">
+                  {plan.notebooks.slice(0, PREVIEW_LIMIT).map((nb) => (
+                    <li key={nb.key} className={nb.parentKey ? "pl-4" : ""}>
+                      {nb.name}
+                      <span className="ml-1.5 text-[var(--color-text-tertiary)]">
+                        {nb.existingId ? "existing" : "new"}
+                      </span>
+                    </li>
+                  ))}
+                  <MoreRows total={plan.notebooks.length} />
+                </ul>
+              </section>
+            )}
+
+            {plan.tags.length > 0 && (
+              <section>
+                <SectionHeading>
+                  <IconTag size={12} /> Tags
+                </SectionHeading>
+                <div className="flex flex-wrap gap-1">
+                  {plan.tags.map((tag) => (
+                    <span
+                      key={tag.name}
+                      className={`px-1.5 py-0.5 text-[11px] rounded-[var(--radius-sm)] ${
+                        tag.existingId
+                          ? "bg-[var(--color-bg-tertiary)] text-[var(--color-text-secondary)]"
+                          : "bg-[var(--color-accent-subtle)] text-[var(--color-accent)]"
+                      }`}
+                      title={tag.existingId ? "Existing tag" : "New tag"}
+                    >
+                      #{tag.name}
+                    </span>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            {conflicts.length > 0 && (
+              <section>
+                <SectionHeading>
+                  <IconAlertTriangle size={12} /> Conflicts
+                </SectionHeading>
+                {duplicateCount > 0 && (
+                  <div className="mb-2 flex flex-col gap-1 text-xs text-[var(--color-text-secondary)]">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        checked={duplicates === "skip"}
+                        onChange={() => setDuplicates("skip")}
+                      />
+                      Skip {plural(duplicateCount, "note")} that already exist
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        checked={duplicates === "keep"}
+                        onChange={() => setDuplicates("keep")}
+                      />
+                      Import them anyway as copies
+                    </label>
+                  </div>
+                )}
+                <ul className="space-y-1 text-xs">
+                  {conflicts.slice(0, PREVIEW_LIMIT).map((note, i) => (
+                    <li key={`${note.source}-${i}`}>
+                      <span className="text-[var(--color-text-primary)]">{note.source}</span>
+                      <span className="block text-[var(--color-text-tertiary)]">
+                        {note.issues.join("; ")}
+                        {note.skip && " — skipped"}
+                      </span>
+                    </li>
+                  ))}
+                  <MoreRows total={conflicts.length} />
+                </ul>
+              </section>
+            )}
+
+            {notImported.length > 0 && (
+              <section>
+                <SectionHeading>Not imported</SectionHeading>
+                <ul className="space-y-0.5 text-xs text-[var(--color-text-tertiary)]">
+                  {notImported.slice(0, PREVIEW_LIMIT).map((item, i) => (
+                    <li key={`${item.source}-${i}`}>
+                      {item.source} — {item.reason}
+                    </li>
+                  ))}
+                  <MoreRows total={notImported.length} />
+                </ul>
+              </section>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={() => setStep("pick")}>
+              Back
+            </Button>
+            <Button onClick={handleImport} disabled={notesToImport.length === 0}>
+              Import {plural(notesToImport.length, "note")}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {importing && (
+        <div className="space-y-3 py-2">
+          <div className="h-2 w-full overflow-hidden rounded-full bg-[var(--color-bg-tertiary)]">
+            <div
+              className="h-full bg-[var(--color-accent)] transition-all"
+              style={{
+                width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%`,
+              }}
+            />
+          </div>
+          <p className="text-sm text-[var(--color-text-secondary)]">
+            Importing {progress.done.toLocaleString()} of {plural(progress.total, "note")}… keep
+            this window open.
+          </p>
+        </div>
+      )}
+
+      {step === "done" && (
+        <div className="space-y-4">
+          <div className="flex items-center gap-2 text-sm text-[var(--color-text-primary)]">
+            <IconCircleCheck size={18} className="text-[var(--color-success)]" />
+            Imported {plural(outcome.imported, "note")}
+          </div>
+          {outcome.failures.length > 0 && (
+            <ul className="max-h-[40vh] overflow-y-auto scrollbar-thin space-y-0.5 text-xs text-[var(--color-text-tertiary)]">
+              {outcome.failures.map((item, i) => (
+                <li key={`${item.source}-${i}`}>
+                  {item.source} — {item.reason}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex justify-end">
+            <Button onClick={onClose}>Done</Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,226 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  IconChevronLeft,
+  IconChevronRight,
+  IconCalendarEvent,
+  IconSettings,
+} from "@tabler/icons-react";
+import { useNotesStore } from "@/stores/notes-store";
+import { getWritingSessions } from "@/app/actions/writingSessionActions";
+import {
+  JOURNAL_TITLE_FORMATS,
+  dailyNoteTitle,
+  getDailyNotesForMonth,
+  resolveJournalSettings,
+  toDateKey,
+} from "@/utils/daily-notes";
+
+interface JournalCalendarProps {
+  /** Opens (or creates) the daily note for a day */
+  onOpenDay: (date: Date) => void;
+}
+
+const WEEKDAY_LABELS = ["Mo", "Tu", "We", "Th", "Fr", "Sa", "Su"];
+
+function formatWords(words: number): string {
+  return words >= 1000 ? `${(words / 1000).toFixed(1).replace(/\.0$/, "")}k` : String(words);
+}
+
+/** Month grid of daily notes with each day's words written. */
+export default function JournalCalendar({ onOpenDay }: JournalCalendarProps) {
+  const notes = useNotesStore((s) => s.notes);
+  const notebooks = useNotesStore((s) => s.notebooks);
+  const templates = useNotesStore((s) => s.templates);
+  const isAuthenticated = useNotesStore((s) => s.isAuthenticated);
+  const storedSettings = useNotesStore((s) => s.journalSettings);
+  const setJournalSettings = useNotesStore((s) => s.setJournalSettings);
+
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+  const [wordsByDay, setWordsByDay] = useState<Map<string, number>>(new Map());
+  const [showSettings, setShowSettings] = useState(false);
+
+  const settings = useMemo(
+    () => resolveJournalSettings(storedSettings, notebooks),
+    [storedSettings, notebooks],
+  );
+  const dailyNotes = useMemo(
+    () => getDailyNotesForMonth(notes, month, settings),
+    [notes, month, settings],
+  );
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    let cancelled = false;
+
+    const lastDay = new Date(month.getFullYear(), month.getMonth() + 1, 0);
+    getWritingSessions({ from: toDateKey(month), to: toDateKey(lastDay) }).then((result) => {
+      if (cancelled || !result.success || !result.sessions) return;
+      setWordsByDay(new Map(result.sessions.map((s) => [s.date, s.wordsWritten])));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticated, month]);
+
+  // Leading blanks so the 1st lands on its weekday (Monday first)
+  const cells = useMemo(() => {
+    const leading = (month.getDay() + 6) % 7;
+    const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+    return [
+      ...Array.from({ length: leading }, () => null),
+      ...Array.from(
+        { length: daysInMonth },
+        (_, i) => new Date(month.getFullYear(), month.getMonth(), i + 1),
+      ),
+    ];
+  }, [month]);
+
+  const todayKey = toDateKey(new Date());
+  const shiftMonth = (delta: number) =>
+    setMonth((m) => new Date(m.getFullYear(), m.getMonth() + delta, 1));
+
+  return (
+    <div className="flex-1 overflow-y-auto scrollbar-thin px-3 py-3">
+      <button
+        onClick={() => onOpenDay(new Date())}
+        className="w-full flex items-center justify-center gap-2 px-3 py-2 mb-3 text-sm font-medium bg-[var(--color-accent)] text-[var(--color-text-on-accent)] hover:bg-[var(--color-accent-hover)] rounded-[var(--radius-md)] transition-colors"
+        title="Open today's note (Ctrl+Shift+D)"
+      >
+        <IconCalendarEvent size={16} />
+        Today
+      </button>
+
+      <div className="flex items-center justify-between mb-2">
+        <button
+          onClick={() => shiftMonth(-1)}
+          aria-label="Previous month"
+          className="p-1 rounded-[var(--radius-sm)] text-[var(--color-text-tertiary)] hover:bg-[var(--color-hover)] hover:text-[var(--color-text-primary)]"
+        >
+          <IconChevronLeft size={16} />
+        </button>
+        <span className="text-sm font-medium text-[var(--color-text-primary)]">
+          {month.toLocaleDateString(undefined, { month: "long", year: "numeric" })}
+        </span>
+        <button
+          onClick={() => shiftMonth(1)}
+          aria-label="Next month"
+          className="p-1 rounded-[var(--radius-sm)] text-[var(--color-text-tertiary)] hover:bg-[var(--color-hover)] hover:text-[var(--color-text-primary)]"
+        >
+          <IconChevronRight size={16} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-0.5 text-center">
+        {WEEKDAY_LABELS.map((label) => (
+          <span key={label} className="text-[10px] font-medium text-[var(--color-text-tertiary)] pb-1">
+            {label}
+          </span>
+        ))}
+        {cells.map((date, i) => {
+          if (!date) return <span key={`blank-${i}`} />;
+
+          const key = toDateKey(date);
+          const note = dailyNotes.get(key);
+          const words = wordsByDay.get(key) || 0;
+          const isToday = key === todayKey;
+
+          return (
+            <button
+              key={key}
+              onClick={() => onOpenDay(date)}
+              title={[
+                note ? note.title : `Create "${dailyNoteTitle(date, settings)}"`,
+                words > 0 ? `${words.toLocaleString()} words written` : "",
+              ].filter(Boolean).join(" · ")}
+              className={`relative flex flex-col items-center justify-center h-10 rounded-[var(--radius-md)] transition-colors ${
+                note
+                  ? "bg-[var(--color-accent-subtle)] text-[var(--color-accent)] font-medium hover:bg-[var(--color-selected)]"
+                  : "text-[var(--color-text-secondary)] hover:bg-[var(--color-hover)]"
+              } ${isToday ? "ring-1 ring-[var(--color-accent)]" : ""}`}
+            >
+              <span className="text-xs leading-none">{date.getDate()}</span>
+              {words > 0 && (
+                <span className="mt-0.5 text-[9px] leading-none text-[var(--color-text-tertiary)]">
+                  {formatWords(words)}
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      <p className="mt-2 text-[10px] text-[var(--color-text-tertiary)]">
+        {dailyNotes.size} entr{dailyNotes.size === 1 ? "y" : "ies"} this month
+        {isAuthenticated && " · numbers are words written that day"}
+      </p>
+
+      <button
+        onClick={() => setShowSettings((v) => !v)}
+        className="mt-4 flex items-center gap-1.5 text-[11px] font-medium text-[var(--color-text-tertiary)] uppercase tracking-wider hover:text-[var(--color-text-secondary)] transition-colors"
+      >
+        <IconSettings size={12} />
+        Journal settings
+      </button>
+
+      {showSettings && (
+        <div className="mt-2 space-y-2.5">
+          {isAuthenticated && (
+            <label className="block">
+              <span className="block mb-1 text-[11px] text-[var(--color-text-secondary)]">Notebook</span>
+              <select
+                value={settings.notebookId || ""}
+                onChange={(e) => setJournalSettings({ notebookId: e.target.value || null })}
+                className="w-full px-2 py-1.5 text-xs bg-[var(--color-bg-tertiary)] rounded-[var(--radius-md)] border border-transparent focus:border-[var(--color-border-focus)] focus:outline-none text-[var(--color-text-primary)]"
+              >
+                <option value="">No notebook</option>
+                {notebooks.map((nb) => (
+                  <option key={nb.id} value={nb.id}>{nb.name}</option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          {isAuthenticated && templates.length > 0 && (
+            <label className="block">
+              <span className="block mb-1 text-[11px] text-[var(--color-text-secondary)]">Template</span>
+              <select
+                value={settings.templateId || ""}
+                onChange={(e) => setJournalSettings({ templateId: e.target.value || null })}
+                className="w-full px-2 py-1.5 text-xs bg-[var(--color-bg-tertiary)] rounded-[var(--radius-md)] border border-transparent focus:border-[var(--color-border-focus)] focus:outline-none text-[var(--color-text-primary)]"
+              >
+                <option value="">Blank note</option>
+                {templates.map((t) => (
+                  <option key={t.id} value={t.id}>{t.name}</option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          <label className="block">
+            <span className="block mb-1 text-[11px] text-[var(--color-text-secondary)]">Title</span>
+            <select
+              value={settings.titleFormat}
+              onChange={(e) => setJournalSettings({ titleFormat: e.target.value })}
+              className="w-full px-2 py-1.5 text-xs bg-[var(--color-bg-tertiary)] rounded-[var(--radius-md)] border border-transparent focus:border-[var(--color-border-focus)] focus:outline-none text-[var(--color-text-primary)]"
+            >
+              {JOURNAL_TITLE_FORMATS.map((format) => (
+                <option key={format} value={format}>
+                  {dailyNoteTitle(new Date(), { ...settings, titleFormat: format })}
+                </option>
+              ))}
+            </select>
+          </label>
+          <p className="text-[10px] text-[var(--color-text-tertiary)]">
+            Existing notes with a matching title show up in the calendar.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -13,6 +13,8 @@ import { useNotesStore } from "@/stores/notes-store";
 import { getPlainTextPreview } from "@/utils/html-utils";
 import { SkeletonText } from "@/components/ds/skeleton";
 import type { ContentFormat } from "@/types/combined-notes";
+import type { CollabBinding } from "./editor/milkdown-editor";
+import type { AttachmentUploader } from "./editor/attachments";
 
 const MilkdownEditor = lazy(() => import("./editor/milkdown-editor"));
 
@@ -25,6 +27,11 @@ interface Props {
   distractionFreeMode?: boolean;
   className?: string;
   isCollapsed?: boolean;
+  readOnly?: boolean;
+  collab?: CollabBinding;
+  onOpenNoteLink?: (noteId: string, beside: boolean) => void;
+  onUploadAttachment?: AttachmentUploader;
+  onBeforeAIEdit?: (markdown: string) => void;
   [key: string]: any;
 }
 
@@ -77,6 +84,11 @@ export default function LazyTextBlock({
   distractionFreeMode = false,
   className = "",
   isCollapsed = false,
+  readOnly = false,
+  collab,
+  onOpenNoteLink,
+  onUploadAttachment,
+  onBeforeAIEdit,
 }: Props) {
   const [localValue, setLocalValue] = useState(value);
   const [localFormat, setLocalFormat] = useState<ContentFormat>(contentFormat);
@@ -164,6 +176,12 @@ export default function LazyTextBlock({
           contentFormat={localFormat}
           onChange={handleChange}
           placeholder={placeholder}
+          readOnly={readOnly}
+          collab={collab}
+          noteId={noteId}
+          onOpenNoteLink={onOpenNoteLink}
+          onUploadAttachment={onUploadAttachment}
+          onBeforeAIEdit={onBeforeAIEdit}
         />
       </Suspense>
     </div>
@@ -12,8 +12,11 @@ import {
   IconAlertCircle,
   IconUserPlus,
   IconRefresh,
+  IconChartBar,
+  IconMail,
 } from "@tabler/icons-react";
-import { sharingOperation } from "@/app/actions/sharing";
+import { sharingOperation, ShareInvite } from "@/app/actions/sharing";
+import ShareAnalyticsPanel from "@/components/share-analytics-panel";
 
 interface SharedNote {
   id: string;
@@ -22,6 +25,7 @@ interface SharedNote {
   shortcode: string;
   isPublic: boolean;
   sharedUsers: string[];
+  pendingInvites: ShareInvite[];
   viewCount: number;
   updatedAt: string;
   storage: string;
@@ -173,6 +177,7 @@ export default function ManageSharedNotes({ userId }: { userId: string }) {
     null,
   );
   const [addUserModal, setAddUserModal] = useState<string | null>(null);
+  const [analyticsOpen, setAnalyticsOpen] = useState<string | null>(null);
   const [newUsername, setNewUsername] = useState("");
   const [isProcessing, setIsProcessing] = useState(false);
 
@@ -212,6 +217,7 @@ export default function ManageSharedNotes({ userId }: { userId: string }) {
             isPublic: share.is_public,
             storage: share.storage || "supabase",
             sharedUsers: [],
+            pendingInvites: [],
             viewCount: share.view_count || 0,
             updatedAt: share.updated_at || share.created_at,
             title: "Untitled Note", // Default title
@@ -262,6 +268,7 @@ export default function ManageSharedNotes({ userId }: { userId: string }) {
             if (noteData) {
               noteData.isPublic = result.isPublic;
               noteData.sharedUsers = result.users || [];
+              noteData.pendingInvites = result.invites || [];
             }
           }
         } catch (err) {
@@ -327,7 +334,9 @@ export default function ManageSharedNotes({ userId }: { userId: string }) {
   };
 
   const handleAddUser = async (noteId: string) => {
-    if (!newUsername.trim()) return;
+    const reader = newUsername.trim();
+    if (!reader) return;
+    const isEmail = reader.includes("@");
 
     setIsProcessing(true);
 
@@ -339,7 +348,8 @@ export default function ManageSharedNotes({ userId }: { userId: string }) {
         operation: "share",
         noteId,
         isPublic: false,
-        username: newUsername.trim(),
+        username: isEmail ? null : reader,
+        email: isEmail ? reader : null,
         currentUserId: userId,
         storage: note.storage as "redis" | "supabase",
       });
@@ -348,10 +358,18 @@ export default function ManageSharedNotes({ userId }: { userId: string }) {
         setSharedNotes((prev) =>
           prev.map((n) => {
             if (n.noteId === noteId) {
-              return {
-                ...n,
-                sharedUsers: [...n.sharedUsers, newUsername.trim()],
-              };
+              return isEmail
+                ? {
+                    ...n,
+                    pendingInvites: [
+                      ...n.pendingInvites.filter((invite) => invite.email !== reader.toLowerCase()),
+                      { email: reader.toLowerCase(), invitedAt: new Date().toISOString() },
+                    ],
+                  }
+                : {
+                    ...n,
+                    sharedUsers: [...n.sharedUsers, reader],
+                  };
             }
             return n;
           }),
@@ -389,6 +407,9 @@ export default function ManageSharedNotes({ userId }: { userId: string }) {
                 sharedUsers: note.sharedUsers.filter(
                   (user) => user !== username,
                 ),
+                pendingInvites: note.pendingInvites.filter(
+                  (invite) => invite.email !== username,
+                ),
               };
             }
             return note;
@@ -519,6 +540,20 @@ export default function ManageSharedNotes({ userId }: { userId: string }) {
                   disabled={isProcessing}
                 />
 
+                <ActionButton
+                  onClick={() =>
+                    setAnalyticsOpen(analyticsOpen === note.noteId ? null : note.noteId)
+                  }
+                  icon={
+                    <IconChartBar
+                      size={18}
+                      className={analyticsOpen === note.noteId ? "text-[var(--color-accent)]" : ""}
+                    />
+                  }
+                  label="Analytics"
+                  disabled={isProcessing}
+                />
+
                 <ActionButton
                   onClick={() => setConfirmChangeType(note.noteId)}
                   icon={
@@ -617,6 +652,50 @@ export default function ManageSharedNotes({ userId }: { userId: string }) {
                 </ul>
               </div>
             )}
+
+            {/* Pending email invites */}
+            {!note.isPublic && note.pendingInvites.length > 0 && (
+              <div className="mt-4 border-t pt-4">
+                <h4 className="text-sm font-medium text-[var(--color-text-primary)] mb-2">
+                  Pending invites:
+                </h4>
+                <ul className="space-y-2">
+                  {note.pendingInvites.map((invite) => (
+                    <li
+                      key={invite.email}
+                      className="flex items-center justify-between text-sm bg-[var(--color-bg-secondary)] px-3 py-2 rounded-[var(--radius-md)] hover:bg-[var(--color-hover)] transition-colors"
+                    >
+                      <span className="flex items-center gap-1.5 text-[var(--color-text-secondary)]">
+                        <IconMail size={16} />
+                        {invite.email}
+                        {invite.invitedAt && (
+                          <span className="text-xs text-[var(--color-text-tertiary)]">
+                            · invited {formatDate(invite.invitedAt)}
+                          </span>
+                        )}
+                      </span>
+                      <button
+                        onClick={() =>
+                          setConfirmRemoveUser({
+                            noteId: note.noteId,
+                            username: invite.email,
+                          })
+                        }
+                        className="text-[var(--color-text-tertiary)] hover:text-[var(--color-danger)] p-1 rounded transition-colors"
+                        title="Revoke invite"
+                        disabled={isProcessing}
+                      >
+                        <IconUserX size={16} />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {analyticsOpen === note.noteId && (
+              <ShareAnalyticsPanel sharedNoteId={note.id} title={note.title} />
+            )}
           </div>
         ))}
       </div>
@@ -627,13 +706,15 @@ export default function ManageSharedNotes({ userId }: { userId: string }) {
           <div className="bg-[var(--color-bg-primary)] rounded-[var(--radius-lg)] p-4 w-full max-w-md">
             <h3 className="text-sm font-semibold mb-4">Add User</h3>
             <p className="text-[var(--color-text-secondary)] text-sm mb-4">
-              Enter the username of the person you want to share this note with.
+              Enter the email address or username of the person you want to share this
+              note with. People invited by email get a link that signs them in and opens
+              the note.
             </p>
             <input
               type="text"
               value={newUsername}
               onChange={(e) => setNewUsername(e.target.value)}
-              placeholder="Username"
+              placeholder="Email or username"
               className="w-full px-3 py-2 border border-[var(--color-border-primary)] rounded-[var(--radius-md)] focus:outline-none focus:ring-2 focus:ring-[var(--color-accent)] focus:border-transparent mb-4"
               disabled={isProcessing}
               onKeyDown={(e) => {
@@ -661,7 +742,7 @@ export default function ManageSharedNotes({ userId }: { userId: string }) {
                 {isProcessing && (
                   <div className="animate-spin h-4 w-4 border-2 border-white border-t-transparent rounded-full mr-2"></div>
                 )}
-                Add User
+                {newUsername.includes("@") ? "Send Invite" : "Add User"}
               </button>
             </div>
           </div>
@@ -0,0 +1,295 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { IconArrowDown, IconArrowUp, IconBook, IconLock } from "@tabler/icons-react";
+import { Modal } from "@/components/ds/modal";
+import { Button } from "@/components/ds/button";
+import { Input, Textarea } from "@/components/ds/input";
+import { useToast } from "@/components/ui/toast";
+import { CombinedNote } from "@/types/combined-notes";
+import { Notebook } from "@/types/notebook";
+import {
+  CHAPTER_NUMBERING_OPTIONS,
+  ChapterNumbering,
+  MANUSCRIPT_FORMATS,
+  ManuscriptFormat,
+  SCENE_BREAK_STYLES,
+  SceneBreakStyle,
+} from "@/types/manuscript";
+import { isLockedNote } from "@/utils/note-encryption";
+
+// Author details carry over between exports on this device
+const AUTHOR_DETAILS_KEY = "justnoted_manuscript_author";
+
+interface ManuscriptExportModalProps {
+  open: boolean;
+  onClose: () => void;
+  notebook: Notebook;
+  notes: CombinedNote[];
+}
+
+const selectClass =
+  "h-9 w-full px-2 text-sm bg-[var(--color-bg-primary)] border border-[var(--color-border-primary)] rounded-[var(--radius-md)] text-[var(--color-text-primary)] focus:border-[var(--color-border-focus)] focus:outline-none";
+
+const labelClass = "block text-xs font-medium text-[var(--color-text-secondary)] mb-1";
+
+export default function ManuscriptExportModal({
+  open,
+  onClose,
+  notebook,
+  notes,
+}: ManuscriptExportModalProps) {
+  const toast = useToast();
+
+  const sortedNotes = useMemo(() => [...notes].sort((a, b) => a.order - b.order), [notes]);
+
+  const [format, setFormat] = useState<ManuscriptFormat>("docx");
+  const [order, setOrder] = useState<string[]>([]);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [title, setTitle] = useState(notebook.name);
+  const [author, setAuthor] = useState("");
+  const [contact, setContact] = useState("");
+  const [chapterNumbering, setChapterNumbering] = useState<ChapterNumbering>("words");
+  const [includeChapterTitles, setIncludeChapterTitles] = useState(true);
+  const [sceneBreak, setSceneBreak] = useState<SceneBreakStyle>("#");
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Start each opening from the notebook's current notes
+  useEffect(() => {
+    if (!open) return;
+    setOrder(sortedNotes.map((note) => note.id));
+    setExcluded(new Set(sortedNotes.filter(isLockedNote).map((note) => note.id)));
+    setTitle(notebook.name);
+
+    try {
+      const saved = JSON.parse(localStorage.getItem(AUTHOR_DETAILS_KEY) || "{}");
+      setAuthor(typeof saved.author === "string" ? saved.author : "");
+      setContact(typeof saved.contact === "string" ? saved.contact : "");
+    } catch {
+      // Ignore unreadable saved details
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const notesById = useMemo(() => new Map(notes.map((note) => [note.id, note])), [notes]);
+  const orderedNotes = order.flatMap((id) => (notesById.has(id) ? [notesById.get(id)!] : []));
+  const includedIds = order.filter((id) => notesById.has(id) && !excluded.has(id));
+
+  const toggleNote = (id: string) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const moveNote = (index: number, offset: -1 | 1) => {
+    setOrder((prev) => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleExport = async () => {
+    if (includedIds.length === 0) return;
+
+    setIsExporting(true);
+    try {
+      localStorage.setItem(
+        AUTHOR_DETAILS_KEY,
+        JSON.stringify({ author: author.trim(), contact: contact.trim() }),
+      );
+
+      const { exportManuscript } = await import("@/utils/manuscript-export");
+      await exportManuscript({
+        notebook,
+        notes,
+        format,
+        compile: {
+          title,
+          author,
+          contact,
+          noteIds: includedIds,
+          chapterNumbering,
+          includeChapterTitles,
+          sceneBreak,
+        },
+      });
+      onClose();
+    } catch (error) {
+      console.error("Manuscript export failed:", error);
+      toast.showError("Failed to compile manuscript");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title="Compile manuscript"
+      description="Each included note becomes a chapter, in the order below"
+      size="lg"
+    >
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          {MANUSCRIPT_FORMATS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setFormat(option.value)}
+              className={`p-2 text-left rounded-[var(--radius-md)] border transition-colors ${
+                format === option.value
+                  ? "border-[var(--color-accent)] bg-[var(--color-accent-subtle)]"
+                  : "border-[var(--color-border-primary)] hover:bg-[var(--color-hover)]"
+              }`}
+            >
+              <div className="text-sm font-medium text-[var(--color-text-primary)]">{option.label}</div>
+              <div className="text-xs text-[var(--color-text-tertiary)]">{option.description}</div>
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <label className={labelClass}>Title</label>
+            <Input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Manuscript title" />
+          </div>
+          <div>
+            <label className={labelClass}>Author</label>
+            <Input value={author} onChange={(e) => setAuthor(e.target.value)} placeholder="Your name" />
+          </div>
+        </div>
+
+        {(format === "docx" || format === "pdf") && (
+          <div>
+            <label className={labelClass}>Contact details (title page)</label>
+            <Textarea
+              value={contact}
+              onChange={(e) => setContact(e.target.value)}
+              placeholder={"Street address\nCity, State ZIP\nemail@example.com"}
+              rows={3}
+              className="min-h-0"
+            />
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <label className={labelClass}>Chapter numbering</label>
+            <select
+              value={chapterNumbering}
+              onChange={(e) => setChapterNumbering(e.target.value as ChapterNumbering)}
+              className={selectClass}
+            >
+              {CHAPTER_NUMBERING_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Scene breaks</label>
+            <select
+              value={sceneBreak}
+              onChange={(e) => setSceneBreak(e.target.value as SceneBreakStyle)}
+              className={selectClass}
+            >
+              {SCENE_BREAK_STYLES.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-[var(--color-text-primary)]">
+          <input
+            type="checkbox"
+            checked={includeChapterTitles}
+            onChange={(e) => setIncludeChapterTitles(e.target.checked)}
+          />
+          Use note titles as chapter titles
+        </label>
+
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <span className={labelClass}>Chapters</span>
+            <span className="text-xs text-[var(--color-text-tertiary)]">
+              {includedIds.length} of {orderedNotes.length} included
+            </span>
+          </div>
+          <div className="max-h-56 overflow-y-auto rounded-[var(--radius-md)] border border-[var(--color-border-primary)] divide-y divide-[var(--color-border-secondary)]">
+            {orderedNotes.map((note, index) => {
+              const locked = isLockedNote(note);
+              return (
+                <div key={note.id} className="flex items-center gap-2 px-2 py-1.5">
+                  <input
+                    type="checkbox"
+                    checked={!excluded.has(note.id)}
+                    onChange={() => toggleNote(note.id)}
+                    disabled={locked}
+                    aria-label={`Include ${note.title || "Untitled"}`}
+                  />
+                  <span
+                    className={`flex-1 min-w-0 truncate text-sm ${
+                      excluded.has(note.id)
+                        ? "text-[var(--color-text-tertiary)]"
+                        : "text-[var(--color-text-primary)]"
+                    }`}
+                  >
+                    {note.title || "Untitled"}
+                  </span>
+                  {locked && (
+                    <span
+                      className="flex items-center gap-1 text-xs text-[var(--color-text-tertiary)]"
+                      title="Unlock encrypted notes to include this one"
+                    >
+                      <IconLock size={12} />
+                      Locked
+                    </span>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => moveNote(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] disabled:opacity-30"
+                    aria-label="Move up"
+                  >
+                    <IconArrowUp size={14} />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveNote(index, 1)}
+                    disabled={index === orderedNotes.length - 1}
+                    className="p-1 text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] disabled:opacity-30"
+                    aria-label="Move down"
+                  >
+                    <IconArrowDown size={14} />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-1">
+          <Button variant="ghost" size="sm" onClick={onClose} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleExport} loading={isExporting} disabled={includedIds.length === 0}>
+            <IconBook size={14} />
+            Compile
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
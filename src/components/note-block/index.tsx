@@ -30,7 +30,9 @@ import NoteStatistics from "./note-statistics";
 import NoteToolbar from "./note-toolbar";
 import PageEstimateModal from "@/components/page-estimate-modal";
 import WordCountGoalModal from "@/components/word-count-goal-modal";
-import VersionHistory, { useVersionHistory, NoteVersion } from "@/components/ui/version-history";
+import VersionHistoryPanel from "@/components/version-history-panel";
+import { saveVersion } from "@/app/actions/versionActions";
+import { shouldEncrypt } from "@/utils/note-encryption";
 import { noteOperation } from "@/app/actions/notes";
 
 import { useNotesStore, useNotebooks } from "@/stores/notes-store";
@@ -182,11 +184,13 @@ export default function NoteBlock({
     },
   );
 
-  // Version history
+  // Version history — same server-backed history as ActiveNoteEditor.
+  // Encrypted content never leaves the device in plaintext, so no snapshots.
   const [showVersionHistory, setShowVersionHistory] = useState(false);
-  const [versions, setVersions] = useState<NoteVersion[]>([]);
-  const versionHistory = useVersionHistory(details.id);
   const lastVersionSaveRef = useRef<number>(0);
+  const encryptionStatus = useNotesStore((s) => s.encryptionStatus);
+  const hasVersionHistory =
+    (noteSource === "redis" || isAuthenticated) && !shouldEncrypt(currentNote, encryptionStatus);
 
   // ========== DERIVED STATE (useMemo) ==========
   const isPinned = useMemo(
@@ -498,16 +502,10 @@ export default function NoteBlock({
   };
 
   // Version history handlers
-  const handleShowVersionHistory = () => {
-    const loadedVersions = versionHistory.getVersions();
-    setVersions(loadedVersions);
-    setShowVersionHistory(true);
-  };
-
-  const handleRestoreVersion = (version: NoteVersion) => {
-    setNoteContent(version.content);
-    setNoteTitle(version.title);
-    setShowVersionHistory(false);
+  const handleRestoreVersion = (content: string, title: string) => {
+    setNoteContent(content);
+    setNoteContentFormat("markdown");
+    setNoteTitle(title);
     setStatus(
       "Version restored",
       <IconCircleCheck className="text-[var(--color-accent)]" />,
@@ -515,20 +513,28 @@ export default function NoteBlock({
       2000,
     );
     // Trigger save of the restored content
-    saveContent(version.content, true);
+    saveContent(content, true);
   };
 
-  // Save version periodically (every 5 minutes or significant changes)
-  const saveVersionIfNeeded = useCallback(() => {
-    const now = Date.now();
-    const timeSinceLastSave = now - lastVersionSaveRef.current;
-    const MIN_INTERVAL = 5 * 60 * 1000; // 5 minutes
-
-    if (timeSinceLastSave >= MIN_INTERVAL) {
-      versionHistory.saveVersion(currentNote);
-      lastVersionSaveRef.current = now;
-    }
-  }, [currentNote, versionHistory]);
+  // Save version periodically (every 5 minutes)
+  const saveVersionIfNeeded = useCallback(
+    (content: string) => {
+      const now = Date.now();
+      const timeSinceLastSave = now - lastVersionSaveRef.current;
+      const MIN_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
+      if (hasVersionHistory && timeSinceLastSave >= MIN_INTERVAL) {
+        lastVersionSaveRef.current = now;
+        saveVersion(
+          { noteId: details.id, source: noteSource, userId },
+          noteTitle,
+          content,
+          noteContentFormat,
+        ).catch(() => {});
+      }
+    },
+    [hasVersionHistory, details.id, noteSource, userId, noteTitle, noteContentFormat],
+  );
 
   // Create a stable save function using refs
   const saveContentRef =
@@ -606,7 +612,7 @@ export default function NoteBlock({
           lastSavedContentRef.current = safeContent;
 
           // Save version periodically
-          saveVersionIfNeeded();
+          saveVersionIfNeeded(safeContent);
 
           setStatus(
             "Saved",
@@ -636,7 +642,7 @@ export default function NoteBlock({
         setIsPending(false);
       }
     },
-    [userId, details.id, noteSource, setStatus, saveNoteContent],
+    [userId, details.id, noteSource, setStatus, saveNoteContent, saveVersionIfNeeded],
   );
 
   const { debouncedSave, flushSave } = useAutoSave(
@@ -1022,7 +1028,7 @@ export default function NoteBlock({
           onTransfer={onTransferNote ? handleTransferNote : undefined}
           onManualSave={handleManualSave}
           onDelete={onDelete}
-          onShowVersionHistory={handleShowVersionHistory}
+          onShowVersionHistory={hasVersionHistory ? () => setShowVersionHistory(true) : undefined}
           onReplaceContent={handleReplaceContent}
         />
       )}
@@ -1046,14 +1052,17 @@ export default function NoteBlock({
           currentCharCount={charCount}
         />
       )}
-      {showVersionHistory && (
-        <VersionHistory
-          note={currentNote}
-          versions={versions}
-          onRestore={handleRestoreVersion}
-          onClose={() => setShowVersionHistory(false)}
-        />
-      )}
+      <VersionHistoryPanel
+        noteId={details.id}
+        source={noteSource}
+        userId={userId}
+        open={showVersionHistory}
+        onClose={() => setShowVersionHistory(false)}
+        currentContent={noteContent}
+        currentContentFormat={noteContentFormat}
+        currentTitle={noteTitle}
+        onRestore={handleRestoreVersion}
+      />
     </section>
   );
 }
@@ -1,15 +1,17 @@
 "use client";
 
-import React, { useState, useCallback, useMemo } from "react";
+import React, { useState, useCallback, useMemo, useEffect } from "react";
 
 import Sidebar from "@/components/sidebar";
 import ActiveNoteEditor from "@/components/active-note-editor";
 import GlobalHeader from "@/components/global-header";
 import SearchModal from "@/components/search-modal";
 import TrashView from "@/components/trash-view";
+import TemplatePicker from "@/components/template-picker";
 import DistractionFreeNoteBlock from "@/components/distraction-free-note-block";
 import NotebookBreadcrumb from "@/components/notebook-breadcrumb";
 import NotebookModal from "@/components/notebook-modal";
+import EncryptionModal from "@/components/encryption-modal";
 import UndoDeleteToast from "@/components/ui/undo-toast";
 import OfflineIndicator from "@/components/ui/offline-indicator";
 import { updateNotebook, deleteNotebook } from "@/app/actions/notebookActions";
@@ -30,6 +32,8 @@ import { useNotesOperations } from "@/hooks/use-notes-operations";
 import { useKeyboardShortcuts } from "@/hooks/use-keyboard-shortcuts";
 import { useNotesStore } from "@/stores/notes-store";
 import { SkipLinks } from "@/hooks/use-accessibility";
+import { useNoteEncryption } from "@/hooks/use-note-encryption";
+import { isLockedNote } from "@/utils/note-encryption";
 
 export default function NoteWrapper() {
   const {
@@ -56,6 +60,8 @@ export default function NoteWrapper() {
   const updateNotebookInStore = useNotesStore((s) => s.updateNotebook);
   const removeNotebook = useNotesStore((s) => s.removeNotebook);
   const recalculateNotebookCounts = useNotesStore((s) => s.recalculateNotebookCounts);
+  const templatePickerOpen = useNotesStore((s) => s.templatePickerOpen);
+  const setTemplatePickerOpen = useNotesStore((s) => s.setTemplatePickerOpen);
 
   const activeNotebook = useNotesStore((state) => {
     const { activeNotebookId, notebooks } = state;
@@ -74,8 +80,17 @@ export default function NoteWrapper() {
   const [showNotebookModal, setShowNotebookModal] = useState(false);
   const [showSearch, setShowSearch] = useState(false);
   const [showTrash, setShowTrash] = useState(false);
+  const [showEncryption, setShowEncryption] = useState(false);
+
+  const { loadStatus: loadEncryptionStatus } = useNoteEncryption();
+
+  useEffect(() => {
+    if (isAuthenticated) loadEncryptionStatus();
+  }, [isAuthenticated, loadEncryptionStatus]);
 
   const handleShowDistractionFree = useCallback((note: CombinedNote) => {
+    // Locked notes unlock in the main editor
+    if (isLockedNote(note)) return;
     setActiveNote(note);
     setShowDistractionFree(true);
     requestAnimationFrame(() => setIsAnimating(true));
@@ -156,6 +171,7 @@ export default function NoteWrapper() {
     },
     onToggleSplitView: undefined,
     onSearch: () => setShowSearch(true),
+    onOpenToday: () => notesOperations.openDailyNote(),
   });
 
   const widthButtonIcon = useMemo(
@@ -197,6 +213,8 @@ export default function NoteWrapper() {
           }}
           onOpenTrash={() => setShowTrash(true)}
           onNewNote={() => notesOperations.addNote()}
+          onOpenDailyNote={(date) => notesOperations.openDailyNote(date)}
+          onOpenEncryption={() => setShowEncryption(true)}
         />
 
         {/* Mobile: slim edge tab to reopen the sidebar when it's collapsed,
@@ -273,6 +291,18 @@ export default function NoteWrapper() {
       <OfflineIndicator />
       <SearchModal open={showSearch} onClose={() => setShowSearch(false)} />
       <TrashView open={showTrash} onClose={() => setShowTrash(false)} />
+      {isAuthenticated && (
+        <EncryptionModal
+          open={showEncryption}
+          onClose={() => setShowEncryption(false)}
+          flushPendingSaves={handleForceSave}
+        />
+      )}
+      <TemplatePicker
+        open={templatePickerOpen}
+        onClose={() => setTemplatePickerOpen(false)}
+        onCreateNote={(title, content) => notesOperations.addNote(content, title)}
+      />
 
       <NotebookModal
         isOpen={showNotebookModal}
@@ -12,14 +12,16 @@ import {
   IconChevronDown,
   IconLoader2,
   IconBook,
+  IconFileZip,
 } from "@tabler/icons-react";
+import ManuscriptExportModal from "@/components/manuscript-export-modal";
 
 interface NotebookExportButtonProps {
   notebookId: string;
   notebookName: string;
 }
 
-type ExportFormat = "txt" | "md" | "html" | "json";
+type ExportFormat = "txt" | "md" | "html" | "json" | "zip";
 
 export default function NotebookExportButton({
   notebookId,
@@ -27,16 +29,20 @@ export default function NotebookExportButton({
 }: NotebookExportButtonProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
+  const [showManuscript, setShowManuscript] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
 
   const notes = useNotesStore((state) => state.notes);
   const notebooks = useNotesStore((state) => state.notebooks);
+  const tags = useNotesStore((state) => state.tags);
+  const noteTagMap = useNotesStore((state) => state.noteTagMap);
 
   // Get notes in this notebook (including child notebooks)
   const childIds = notebooks
     .filter((nb) => nb.parentId === notebookId)
     .map((nb) => nb.id);
   const allNotebookIds = new Set([notebookId, ...childIds]);
+  const notebook = notebooks.find((nb) => nb.id === notebookId);
   const notebookNotes = notes.filter(
     (note) => note.source === "supabase" && note.notebookId && allNotebookIds.has(note.notebookId)
   );
@@ -136,6 +142,24 @@ export default function NotebookExportButton({
       const sanitizedName = notebookName.replace(/[^a-z0-9]/gi, "_").toLowerCase();
       const timestamp = new Date().toISOString().split("T")[0];
 
+      if (format === "zip") {
+        const { exportAsMarkdownZip } = await import("@/utils/export-notes");
+        exportAsMarkdownZip(
+          notebookNotes,
+          {
+            // The exported notebook becomes the archive's top-level folder
+            notebooks: notebooks
+              .filter((nb) => allNotebookIds.has(nb.id))
+              .map((nb) => (nb.id === notebookId ? { ...nb, parentId: null } : nb)),
+            tags,
+            noteTagMap,
+          },
+          `${sanitizedName}_${timestamp}.zip`,
+        );
+        setIsOpen(false);
+        return;
+      }
+
       let content: string;
       let mimeType: string;
       let extension: string;
@@ -230,24 +254,6 @@ export default function NotebookExportButton({
     }
   };
 
-  const handleManuscriptExport = async (format: "pdf" | "md") => {
-    setIsExporting(true);
-    try {
-      const { exportManuscript } = await import("@/utils/manuscript-export");
-      await exportManuscript({
-        notebookName,
-        notes: notebookNotes,
-        format,
-        includeTableOfContents: notebookNotes.length > 1,
-      });
-      setIsOpen(false);
-    } catch (error) {
-      console.error("Manuscript export failed:", error);
-    } finally {
-      setIsExporting(false);
-    }
-  };
-
   const menuItems = [
     {
       format: "txt" as ExportFormat,
@@ -273,6 +279,12 @@ export default function NotebookExportButton({
       icon: <IconFileText size={16} />,
       description: ".json - Data backup",
     },
+    {
+      format: "zip" as ExportFormat,
+      label: "ZIP Archive",
+      icon: <IconFileZip size={16} />,
+      description: ".zip - One markdown file per note",
+    },
   ];
 
   if (notebookNotes.length === 0) {
@@ -323,29 +335,30 @@ export default function NotebookExportButton({
             Compile as Document
           </div>
           <button
-            onClick={() => handleManuscriptExport("pdf")}
-            disabled={isExporting}
+            onClick={() => {
+              setIsOpen(false);
+              setShowManuscript(true);
+            }}
+            disabled={isExporting || !notebook}
             className="w-full px-3 py-2 text-left hover:bg-[var(--color-bg-secondary)] flex items-center gap-3 transition-colors disabled:opacity-50"
           >
             <span className="text-[var(--color-text-secondary)]"><IconBook size={16} /></span>
             <div>
-              <div className="text-sm font-medium">Manuscript PDF</div>
-              <div className="text-xs text-[var(--color-text-tertiary)]">.pdf - Title page + sections</div>
-            </div>
-          </button>
-          <button
-            onClick={() => handleManuscriptExport("md")}
-            disabled={isExporting}
-            className="w-full px-3 py-2 text-left hover:bg-[var(--color-bg-secondary)] flex items-center gap-3 transition-colors disabled:opacity-50"
-          >
-            <span className="text-[var(--color-text-secondary)]"><IconMarkdown size={16} /></span>
-            <div>
-              <div className="text-sm font-medium">Manuscript Markdown</div>
-              <div className="text-xs text-[var(--color-text-tertiary)]">.md - Single combined file</div>
+              <div className="text-sm font-medium">Compile Manuscript…</div>
+              <div className="text-xs text-[var(--color-text-tertiary)]">Word, EPUB, PDF or Markdown</div>
             </div>
           </button>
         </div>
       )}
+
+      {notebook && (
+        <ManuscriptExportModal
+          open={showManuscript}
+          onClose={() => setShowManuscript(false)}
+          notebook={notebook}
+          notes={notebookNotes}
+        />
+      )}
     </div>
   );
 }
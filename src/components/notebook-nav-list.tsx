@@ -16,16 +16,20 @@ import {
   IconFileOff,
   IconGripVertical,
   IconEyeOff,
+  IconWorld,
 } from "@tabler/icons-react";
 
 // Private / hidden notebooks are marked with rose rather than faded out.
 const PRIVATE_COLOR = "#F43F5E";
 import { countWordsInContent } from "@/utils/word-count";
+import { describeGoalPace, GoalStatusBadge } from "@/components/writing-goals-panel";
 
 interface NotebookNavListProps {
   onNewNotebook: () => void;
   onEditNotebook: (notebook: Notebook) => void;
   onDeleteNotebook: (notebook: Notebook) => void;
+  /** Opens publishing settings; hidden notebooks can't be published. */
+  onPublishNotebook?: (notebook: Notebook) => void;
   /** Called after a notebook / All Notes / Loose Notes is selected (e.g. to switch back to the notes view). */
   onSelected?: () => void;
 }
@@ -39,6 +43,7 @@ export default function NotebookNavList({
   onNewNotebook,
   onEditNotebook,
   onDeleteNotebook,
+  onPublishNotebook,
   onSelected,
 }: NotebookNavListProps) {
   const [draggedId, setDraggedId] = useState<string | null>(null);
@@ -54,6 +59,7 @@ export default function NotebookNavList({
     notes,
     notebooksLoading,
     setNotebooks,
+    writingGoals,
   } = useNotesStore();
 
   const getNotebookWordCount = (notebookId: string) =>
@@ -61,6 +67,12 @@ export default function NotebookNavList({
       .filter((n) => n.notebookId === notebookId)
       .reduce((total, n) => total + countWordsInContent(n.content), 0);
 
+  // A dated goal outranks a recurring one for the row's summary
+  const getNotebookGoal = (notebookId: string) =>
+    writingGoals
+      .filter((goal) => goal.scope === "notebook" && goal.notebookId === notebookId)
+      .sort((a, b) => Number(b.cadence === "deadline") - Number(a.cadence === "deadline"))[0];
+
   const totalNotesCount = notes.filter((n) => n.source === "supabase").length;
   const hiddenNotebookCount = notebooks.filter((nb) => nb.isHidden && !nb.parentId).length;
   const notebookLimitReached = notebooks.length >= NOTEBOOK_LIMITS.free;
@@ -171,7 +183,7 @@ export default function NotebookNavList({
                 <IconCheck size={14} className="text-[var(--color-accent)] flex-shrink-0" />
               )}
             </button>
-            {/* Line 2 — count + word goal, with edit / delete inline */}
+            {/* Line 2 — count + word goal or writing goal pace, with edit / delete inline */}
             <div className="flex items-center gap-2 mt-0.5 pl-1.5 pr-0.5">
               <span className="text-[11px] text-[var(--color-text-tertiary)] flex-shrink-0">
                 {(() => {
@@ -180,6 +192,27 @@ export default function NotebookNavList({
                 })()}
               </span>
               {(() => {
+                const goal = getNotebookGoal(notebook.id);
+                if (goal) {
+                  const pct = Math.min(100, Math.round((goal.progress.written / goal.targetWords) * 100));
+                  return (
+                    <span
+                      className="flex items-center gap-1 text-[10px] text-[var(--color-text-tertiary)] min-w-0"
+                      title={`${goal.progress.written.toLocaleString()} / ${goal.targetWords.toLocaleString()} words · ${describeGoalPace(goal)}`}
+                    >
+                      <span className="inline-block w-6 h-1 rounded-full bg-[var(--color-border-primary)] overflow-hidden flex-shrink-0">
+                        <span
+                          className="block h-full rounded-full bg-[var(--color-accent)]"
+                          style={{ width: `${pct}%` }}
+                        />
+                      </span>
+                      {goal.cadence === "deadline" && goal.progress.status !== "met"
+                        ? `${goal.progress.requiredPace.toLocaleString()}/day`
+                        : `${pct}%`}
+                      <GoalStatusBadge goal={goal} />
+                    </span>
+                  );
+                }
                 const wc = getNotebookWordCount(notebook.id);
                 if (notebook.wordGoal > 0) {
                   const pct = Math.min(100, Math.round((wc / notebook.wordGoal) * 100));
@@ -223,6 +256,19 @@ export default function NotebookNavList({
                 >
                   <IconSettings size={20} />
                 </button>
+                {onPublishNotebook && !effectivelyHidden && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onPublishNotebook(notebook);
+                    }}
+                    className="p-1.5 text-[var(--color-text-tertiary)] hover:text-[var(--color-text-secondary)] rounded transition-colors"
+                    title="Publish"
+                    aria-label="Publish notebook"
+                  >
+                    <IconWorld size={20} />
+                  </button>
+                )}
                 <button
                   onClick={(e) => {
                     e.stopPropagation();
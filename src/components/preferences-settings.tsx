@@ -0,0 +1,200 @@
+// src/components/preferences-settings.tsx
+"use client";
+
+import React from "react";
+import { ThemeToggle } from "@/components/ds/theme-toggle";
+import { useNotesStore } from "@/stores/notes-store";
+import { DEFAULT_PREFERENCES, NOTE_SORT_ORDERS, NoteSortOrder } from "@/types/preferences";
+
+/**
+ * Profile tab for the settings that follow the user between devices.
+ * Expects the page to run usePreferencesSync for the signed-in user.
+ */
+export default function PreferencesSettings() {
+  const sortBy = useNotesStore((s) => s.sortBy);
+  const tocVisible = useNotesStore((s) => s.tocVisible);
+  const wideViewDefault = useNotesStore((s) => s.wideViewDefault);
+  const wideViewNotes = useNotesStore((s) => s.wideViewNotes);
+  const splitViewDirection = useNotesStore((s) => s.splitViewDirection);
+  const splitPaneSizes = useNotesStore((s) => s.splitPaneSizes);
+  const referenceNoteEditable = useNotesStore((s) => s.referenceNoteEditable);
+  const setPreferences = useNotesStore((s) => s.setPreferences);
+
+  const wideNoteCount = Object.keys(wideViewNotes).length;
+  const paneSizesChanged =
+    splitPaneSizes[0] !== DEFAULT_PREFERENCES.splitPaneSizes[0] ||
+    splitPaneSizes[1] !== DEFAULT_PREFERENCES.splitPaneSizes[1];
+
+  return (
+    <section>
+      <h2 className="text-sm font-semibold mb-1 text-[var(--color-text-primary)]">
+        Preferences
+      </h2>
+      <p className="mb-6 text-xs text-[var(--color-text-tertiary)]">
+        Saved to your account, so they follow you to every device you sign in on.
+      </p>
+
+      <PreferenceGroup title="Appearance">
+        <PreferenceRow label="Theme">
+          <ThemeToggle />
+        </PreferenceRow>
+      </PreferenceGroup>
+
+      <PreferenceGroup title="Notes list">
+        <PreferenceRow label="Sort notes by">
+          <select
+            value={sortBy}
+            onChange={(e) => setPreferences({ sortBy: e.target.value as NoteSortOrder })}
+            className="h-8 px-2 text-xs bg-[var(--color-bg-primary)] border border-[var(--color-border-primary)] rounded-[var(--radius-md)] text-[var(--color-text-secondary)] focus:border-[var(--color-border-focus)] focus:outline-none"
+          >
+            {NOTE_SORT_ORDERS.map((order) => (
+              <option key={order.value} value={order.value}>
+                {order.label}
+              </option>
+            ))}
+          </select>
+        </PreferenceRow>
+      </PreferenceGroup>
+
+      <PreferenceGroup title="Editor">
+        <PreferenceRow label="Show table of contents">
+          <Switch
+            label="Show table of contents"
+            checked={tocVisible}
+            onChange={(value) => setPreferences({ tocVisible: value })}
+          />
+        </PreferenceRow>
+        <PreferenceRow
+          label="Wide view for all notes"
+          description={
+            wideNoteCount > 0
+              ? `${wideNoteCount} ${wideNoteCount === 1 ? "note is" : "notes are"} also set to wide on their own`
+              : undefined
+          }
+        >
+          <div className="flex items-center gap-3">
+            {wideNoteCount > 0 && (
+              <button
+                onClick={() => setPreferences({ wideViewNotes: {} })}
+                className="text-xs text-[var(--color-text-tertiary)] hover:text-[var(--color-text-secondary)] transition-colors"
+              >
+                Reset notes
+              </button>
+            )}
+            <Switch
+              label="Wide view for all notes"
+              checked={wideViewDefault}
+              onChange={(value) => setPreferences({ wideViewDefault: value })}
+            />
+          </div>
+        </PreferenceRow>
+      </PreferenceGroup>
+
+      <PreferenceGroup title="Split view">
+        <PreferenceRow label="Layout">
+          <div
+            className="inline-flex items-center gap-0.5 p-0.5 rounded-[var(--radius-lg)] bg-[var(--color-bg-tertiary)] border border-[var(--color-border-secondary)]"
+            role="radiogroup"
+            aria-label="Split view layout"
+          >
+            {(["horizontal", "vertical"] as const).map((direction) => (
+              <button
+                key={direction}
+                onClick={() => setPreferences({ splitViewDirection: direction })}
+                role="radio"
+                aria-checked={splitViewDirection === direction}
+                className={`px-2.5 py-1.5 text-xs font-medium rounded-[var(--radius-md)] transition-all duration-[var(--duration-fast)] ${
+                  splitViewDirection === direction
+                    ? "bg-[var(--color-bg-primary)] text-[var(--color-text-primary)] shadow-xs"
+                    : "text-[var(--color-text-tertiary)] hover:text-[var(--color-text-secondary)]"
+                }`}
+              >
+                {direction === "horizontal" ? "Side by side" : "Stacked"}
+              </button>
+            ))}
+          </div>
+        </PreferenceRow>
+        <PreferenceRow label="Allow editing the reference note">
+          <Switch
+            label="Allow editing the reference note"
+            checked={referenceNoteEditable}
+            onChange={(value) => setPreferences({ referenceNoteEditable: value })}
+          />
+        </PreferenceRow>
+        <PreferenceRow label="Pane sizes" description={`${Math.round(splitPaneSizes[0])}% / ${Math.round(splitPaneSizes[1])}%`}>
+          <button
+            onClick={() => setPreferences({ splitPaneSizes: DEFAULT_PREFERENCES.splitPaneSizes })}
+            disabled={!paneSizesChanged}
+            className="px-3 py-1.5 text-xs font-medium text-[var(--color-text-secondary)] border border-[var(--color-border-primary)] rounded-[var(--radius-md)] hover:bg-[var(--color-hover)] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Reset
+          </button>
+        </PreferenceRow>
+      </PreferenceGroup>
+    </section>
+  );
+}
+
+function PreferenceGroup({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="mb-6">
+      <h3 className="mb-2 text-[11px] font-medium text-[var(--color-text-tertiary)] uppercase tracking-wider">
+        {title}
+      </h3>
+      <div className="divide-y divide-[var(--color-border-secondary)] border border-[var(--color-border-secondary)] rounded-[var(--radius-md)]">
+        {children}
+      </div>
+    </div>
+  );
+}
+
+function PreferenceRow({
+  label,
+  description,
+  children,
+}: {
+  label: string;
+  description?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="flex items-center justify-between gap-4 px-3 py-2.5">
+      <div className="min-w-0">
+        <div className="text-sm text-[var(--color-text-primary)]">{label}</div>
+        {description && (
+          <div className="text-xs text-[var(--color-text-tertiary)]">{description}</div>
+        )}
+      </div>
+      {children}
+    </div>
+  );
+}
+
+function Switch({
+  label,
+  checked,
+  onChange,
+}: {
+  label: string;
+  checked: boolean;
+  onChange: (value: boolean) => void;
+}) {
+  return (
+    <button
+      type="button"
+      role="switch"
+      aria-checked={checked}
+      aria-label={label}
+      onClick={() => onChange(!checked)}
+      className={`relative shrink-0 w-9 h-5 rounded-full transition-colors ${
+        checked ? "bg-[var(--color-accent)]" : "bg-[var(--color-border-primary)]"
+      }`}
+    >
+      <span
+        className={`absolute top-0.5 left-0.5 w-4 h-4 rounded-full bg-white transition-transform ${
+          checked ? "translate-x-4" : ""
+        }`}
+      />
+    </button>
+  );
+}
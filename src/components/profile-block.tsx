@@ -6,6 +6,8 @@ import { createClient } from "@/utils/supabase/client";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import ManageSharedNotes from "./manage-shared-notes";
+import PreferencesSettings from "./preferences-settings";
+import { usePreferencesSync } from "@/hooks/use-preferences-sync";
 import { useToast } from "@/components/ui/toast";
 
 interface ProfileBlockProps {
@@ -13,6 +15,8 @@ interface ProfileBlockProps {
   authorData: any;
 }
 
+type ProfileTab = "profile" | "preferences" | "shared";
+
 // State type
 interface ProfileState {
   username: string;
@@ -22,7 +26,7 @@ interface ProfileState {
   avatarUrl: string;
   avatarFile: File | null;
   avatarPreview: string | null;
-  activeTab: "profile" | "shared";
+  activeTab: ProfileTab;
 }
 
 // Action types
@@ -34,7 +38,7 @@ type ProfileAction =
   | { type: "SET_AVATAR_URL"; payload: string }
   | { type: "SET_AVATAR_FILE"; payload: File | null }
   | { type: "SET_AVATAR_PREVIEW"; payload: string | null }
-  | { type: "SET_ACTIVE_TAB"; payload: "profile" | "shared" }
+  | { type: "SET_ACTIVE_TAB"; payload: ProfileTab }
   | {
       type: "LOAD_AUTHOR_DATA";
       payload: { username: string; avatarUrl: string };
@@ -125,6 +129,7 @@ export default function ProfileBlock({ user, authorData }: ProfileBlockProps) {
   };
 
   const [state, dispatch] = useReducer(profileReducer, initialState);
+  usePreferencesSync(user?.id ?? null);
   const { showSuccess, showError } = useToast();
   const supabase = createClient();
   const router = useRouter();
@@ -347,7 +352,7 @@ export default function ProfileBlock({ user, authorData }: ProfileBlockProps) {
   }, [supabase, router]);
 
   // Handle tab change
-  const handleTabChange = useCallback((tab: "profile" | "shared") => {
+  const handleTabChange = useCallback((tab: ProfileTab) => {
     dispatch({ type: "SET_ACTIVE_TAB", payload: tab });
   }, []);
 
@@ -394,6 +399,11 @@ export default function ProfileBlock({ user, authorData }: ProfileBlockProps) {
             isActive={state.activeTab === "profile"}
             onClick={() => handleTabChange("profile")}
           />
+          <TabButton
+            label="Preferences"
+            isActive={state.activeTab === "preferences"}
+            onClick={() => handleTabChange("preferences")}
+          />
           <TabButton
             label="Shared Notes"
             isActive={state.activeTab === "shared"}
@@ -560,6 +570,8 @@ export default function ProfileBlock({ user, authorData }: ProfileBlockProps) {
               </Link>
             </div>
           </section>
+        ) : state.activeTab === "preferences" ? (
+          <PreferencesSettings />
         ) : (
           <section className="bg-[var(--color-bg-primary)] rounded-[var(--radius-lg)] shadow-sm border border-[var(--color-border-secondary)] p-0">
             {user && <ManageSharedNotes userId={user.id} />}
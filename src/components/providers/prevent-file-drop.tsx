@@ -5,9 +5,10 @@ import { useEffect } from "react";
 /**
  * Stops the browser from navigating away to open a file when one is dropped
  * outside a real drop target (e.g. on the sidebar). The editor's own drop zone
- * handles file drops in the capture phase and stops propagation, so its drops
- * never reach these window-level listeners. Only acts on file drags, leaving
- * internal drag-and-drop (note/notebook reordering) untouched.
+ * handles file imports in the capture phase and stops propagation, and the
+ * editor consumes image/PDF attachment drops itself, so preventing the default
+ * here never blocks a real drop. Only acts on file drags, leaving internal
+ * drag-and-drop (note/notebook reordering) untouched.
  */
 export default function PreventFileDropNavigation() {
   useEffect(() => {
@@ -0,0 +1,272 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  IconCopy,
+  IconCheck,
+  IconEye,
+  IconEyeOff,
+  IconLock,
+  IconClock,
+  IconTrash,
+  IconExternalLink,
+} from "@tabler/icons-react";
+import { Modal } from "@/components/ds/modal";
+import { useToast } from "@/components/ui/toast";
+import { ToggleRow } from "@/components/share-note-button";
+import {
+  getNotebookPublication,
+  publishNotebook,
+  unpublishNotebook,
+} from "@/app/actions/publishingActions";
+import { Notebook } from "@/types/notebook";
+import { NotebookPublication } from "@/types/publishing";
+
+interface PublishNotebookModalProps {
+  /** The notebook being published; the modal is closed when null */
+  notebook: Notebook | null;
+  onClose: () => void;
+}
+
+export default function PublishNotebookModal({ notebook, onClose }: PublishNotebookModalProps) {
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [publication, setPublication] = useState<NotebookPublication | null>(null);
+
+  // Form state
+  const [isAnonymous, setIsAnonymous] = useState(false);
+  const [usePassword, setUsePassword] = useState(false);
+  const [password, setPassword] = useState("");
+  const [useExpiry, setUseExpiry] = useState(false);
+  const [expiresAt, setExpiresAt] = useState("");
+
+  const { showError, showSuccess } = useToast();
+  const notebookId = notebook?.id;
+
+  const loadPublication = useCallback(async () => {
+    if (!notebookId) return;
+    setLoading(true);
+    try {
+      const result = await getNotebookPublication(notebookId);
+      if (!result.success) {
+        showError(result.error || "Failed to load publishing settings");
+        return;
+      }
+
+      const data = result.publication ?? null;
+      setPublication(data);
+      setIsAnonymous(data?.isAnonymous ?? false);
+      setUsePassword(data?.hasPassword ?? false);
+      setPassword("");
+      setUseExpiry(!!data?.expiresAt);
+      setExpiresAt(data?.expiresAt ? data.expiresAt.split("T")[0] : "");
+    } finally {
+      setLoading(false);
+    }
+  }, [notebookId, showError]);
+
+  useEffect(() => {
+    loadPublication();
+  }, [loadPublication]);
+
+  const handlePublish = useCallback(async () => {
+    if (!notebookId) return;
+    if (usePassword && !password && !publication?.hasPassword) {
+      showError("Enter a password, or turn password protection off");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await publishNotebook(notebookId, {
+        isAnonymous,
+        // A blank password keeps the current one
+        password: !usePassword ? null : password || undefined,
+        expiresAt: useExpiry && expiresAt ? new Date(expiresAt).toISOString() : null,
+      });
+      if (result.success) {
+        showSuccess(publication ? "Publishing settings updated" : "Notebook published");
+        await loadPublication();
+      } else {
+        showError(result.error || "Failed to publish notebook");
+      }
+    } finally {
+      setSaving(false);
+    }
+  }, [notebookId, isAnonymous, usePassword, password, useExpiry, expiresAt, publication, showError, showSuccess, loadPublication]);
+
+  const handleUnpublish = useCallback(async () => {
+    if (!notebookId) return;
+    const result = await unpublishNotebook(notebookId);
+    if (result.success) {
+      setPublication(null);
+      showSuccess("Notebook unpublished");
+      onClose();
+    } else {
+      showError(result.error || "Failed to unpublish notebook");
+    }
+  }, [notebookId, showError, showSuccess, onClose]);
+
+  const siteUrl = publication
+    ? `${typeof window !== "undefined" ? window.location.origin : ""}/p/${publication.shortcode}`
+    : null;
+
+  const handleCopyLink = useCallback(() => {
+    if (!siteUrl) return;
+    navigator.clipboard.writeText(siteUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  }, [siteUrl]);
+
+  return (
+    <Modal
+      open={!!notebook}
+      onClose={onClose}
+      title={notebook ? `Publish "${notebook.name}"` : "Publish"}
+      size="sm"
+    >
+      {loading ? (
+        <div className="py-8 text-center text-sm text-[var(--color-text-tertiary)]">Loading...</div>
+      ) : (
+        <div className="space-y-4">
+          {/* Site link */}
+          {siteUrl ? (
+            <div className="flex items-center gap-2">
+              <input
+                readOnly
+                value={siteUrl}
+                className="flex-1 h-9 px-3 text-xs bg-[var(--color-bg-tertiary)] rounded-[var(--radius-md)] border border-[var(--color-border-secondary)] text-[var(--color-text-secondary)] truncate"
+              />
+              <a
+                href={siteUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="h-9 px-2.5 flex items-center text-[var(--color-text-secondary)] bg-[var(--color-bg-tertiary)] rounded-[var(--radius-md)] hover:bg-[var(--color-active)] transition-colors"
+                title="Open site"
+                aria-label="Open published site"
+              >
+                <IconExternalLink size={14} />
+              </a>
+              <button
+                onClick={handleCopyLink}
+                className="h-9 px-3 flex items-center gap-1.5 text-xs font-medium bg-[var(--color-accent)] text-[var(--color-text-on-accent)] rounded-[var(--radius-md)] hover:bg-[var(--color-accent-hover)] transition-colors"
+              >
+                {copied ? <IconCheck size={14} /> : <IconCopy size={14} />}
+                {copied ? "Copied" : "Copy"}
+              </button>
+            </div>
+          ) : (
+            <p className="text-xs text-[var(--color-text-tertiary)]">
+              Publish this notebook and its sub-notebooks as a read-only site with one link.
+            </p>
+          )}
+
+          {/* Options */}
+          <div className="space-y-2">
+            <label className="text-[11px] font-medium text-[var(--color-text-tertiary)] uppercase tracking-wider">
+              Options
+            </label>
+
+            <ToggleRow
+              icon={<IconEyeOff size={14} />}
+              label="Publish anonymously"
+              description="Hide your name on every page"
+              checked={isAnonymous}
+              onChange={setIsAnonymous}
+            />
+
+            <ToggleRow
+              icon={<IconLock size={14} />}
+              label="Password protect"
+              checked={usePassword}
+              onChange={(v) => {
+                setUsePassword(v);
+                if (!v) setPassword("");
+              }}
+            />
+            {usePassword && (
+              <input
+                type="password"
+                placeholder={publication?.hasPassword ? "Leave blank to keep current" : "Enter password"}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full h-9 px-3 text-xs bg-[var(--color-bg-primary)] border border-[var(--color-border-primary)] rounded-[var(--radius-md)] text-[var(--color-text-primary)] placeholder:text-[var(--color-text-tertiary)] focus:border-[var(--color-border-focus)] focus:outline-none"
+              />
+            )}
+
+            <ToggleRow
+              icon={<IconClock size={14} />}
+              label="Set expiration"
+              checked={useExpiry}
+              onChange={(v) => {
+                setUseExpiry(v);
+                if (!v) setExpiresAt("");
+              }}
+            />
+            {useExpiry && (
+              <input
+                type="date"
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+                min={new Date().toISOString().split("T")[0]}
+                className="w-full h-9 px-3 text-xs bg-[var(--color-bg-primary)] border border-[var(--color-border-primary)] rounded-[var(--radius-md)] text-[var(--color-text-primary)] focus:border-[var(--color-border-focus)] focus:outline-none"
+              />
+            )}
+          </div>
+
+          <p className="text-[10px] text-[var(--color-text-tertiary)] leading-snug">
+            Private and encrypted notes, and hidden sub-notebooks, are never published.
+          </p>
+
+          <button
+            onClick={handlePublish}
+            disabled={saving}
+            className="w-full h-9 text-xs font-medium bg-[var(--color-accent)] text-[var(--color-text-on-accent)] rounded-[var(--radius-md)] hover:bg-[var(--color-accent-hover)] transition-colors disabled:opacity-50"
+          >
+            {saving ? "Saving..." : publication ? "Update" : "Publish notebook"}
+          </button>
+
+          {/* Page views */}
+          {publication && publication.pageViews.length > 0 && (
+            <div className="space-y-2 pt-2 border-t border-[var(--color-border-secondary)]">
+              <label className="text-[11px] font-medium text-[var(--color-text-tertiary)] uppercase tracking-wider">
+                Page views
+              </label>
+              <ul className="space-y-1 max-h-40 overflow-y-auto scrollbar-thin">
+                {publication.pageViews.map((page) => (
+                  <li
+                    key={page.noteId}
+                    className="flex items-center justify-between gap-2 px-2.5 py-1.5 text-xs bg-[var(--color-bg-tertiary)] rounded-[var(--radius-md)]"
+                  >
+                    <span className="truncate text-[var(--color-text-primary)]">{page.title}</span>
+                    <span className="flex-shrink-0 text-[var(--color-text-tertiary)]">
+                      {page.viewCount.toLocaleString()}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Stats + unpublish */}
+          {publication && (
+            <div className="flex items-center justify-between pt-2 border-t border-[var(--color-border-secondary)]">
+              <span className="text-[10px] text-[var(--color-text-tertiary)]">
+                <IconEye size={11} className="inline mr-1" />
+                {publication.viewCount} view{publication.viewCount !== 1 ? "s" : ""}
+              </span>
+              <button
+                onClick={handleUnpublish}
+                className="flex items-center gap-1 text-[10px] text-[var(--color-danger)] hover:text-[var(--color-danger)]/80 transition-colors"
+              >
+                <IconTrash size={11} />
+                Unpublish
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+}
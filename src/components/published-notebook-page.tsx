@@ -0,0 +1,391 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  IconArrowLeft,
+  IconArrowRight,
+  IconBook,
+  IconList,
+  IconLock,
+  IconPrinter,
+} from "@tabler/icons-react";
+
+import { getPublishedPage, getPublishedSite } from "@/app/actions/publishingActions";
+import { renderNoteHtml } from "@/utils/sanitize";
+import {
+  buildHeadingTree,
+  findHeadingElement,
+  flattenHeadingTree,
+  parseHeadings,
+} from "@/lib/toc-parser";
+import type { PublishedPage, PublishedSite } from "@/types/publishing";
+
+interface PublishedNotebookPageProps {
+  shortcode: string;
+  /** The page being read; the contents page when absent */
+  noteId?: string;
+}
+
+// The password is asked for once per tab, not on every page of the site
+const passwordKey = (shortcode: string) => `justnoted_published_pw_${shortcode}`;
+
+const formatDate = (dateStr: string) =>
+  new Date(dateStr).toLocaleDateString("en-AU", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+/**
+ * Read-only site for a published notebook: a contents page listing every
+ * section, and one page per note with its own outline and prev/next links.
+ */
+export default function PublishedNotebookPage({ shortcode, noteId }: PublishedNotebookPageProps) {
+  const [site, setSite] = useState<PublishedSite | null>(null);
+  const [page, setPage] = useState<PublishedPage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [requiresPassword, setRequiresPassword] = useState(false);
+  const [password, setPassword] = useState("");
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  const [submittingPassword, setSubmittingPassword] = useState(false);
+  const [showContents, setShowContents] = useState(false);
+  const articleRef = useRef<HTMLDivElement>(null);
+
+  const load = useCallback(
+    async (pw: string | null) => {
+      try {
+        // Only the page view is counted when reading a page
+        const [siteResult, pageResult] = await Promise.all([
+          getPublishedSite(shortcode, { password: pw, countView: !noteId }),
+          noteId ? getPublishedPage(shortcode, noteId, { password: pw }) : null,
+        ]);
+        const failed = !siteResult.success ? siteResult : pageResult && !pageResult.success ? pageResult : null;
+
+        if (failed?.requiresPassword) {
+          sessionStorage.removeItem(passwordKey(shortcode));
+          setRequiresPassword(true);
+          if (pw) setPasswordError("Incorrect password");
+          return;
+        }
+        if (failed) {
+          setError(failed.error || "Failed to load notebook");
+          return;
+        }
+
+        if (pw) sessionStorage.setItem(passwordKey(shortcode), pw);
+        setSite(siteResult.site!);
+        setPage(pageResult?.page || null);
+        setRequiresPassword(false);
+        setError(null);
+      } catch {
+        setError("An unexpected error occurred");
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [shortcode, noteId],
+  );
+
+  useEffect(() => {
+    load(sessionStorage.getItem(passwordKey(shortcode)));
+  }, [load, shortcode]);
+
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmittingPassword(true);
+    setPasswordError(null);
+    await load(password);
+    setSubmittingPassword(false);
+  };
+
+  const headings = useMemo(
+    () =>
+      page
+        ? flattenHeadingTree(buildHeadingTree(parseHeadings(page.content, page.contentFormat)))
+        : [],
+    [page],
+  );
+
+  const scrollToHeading = (heading: (typeof headings)[number]) => {
+    if (!articleRef.current) return;
+    findHeadingElement(articleRef.current, heading.id, heading.text, heading.level)?.scrollIntoView({
+      behavior: "smooth",
+      block: "start",
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center">
+        <div className="text-sm text-[var(--color-text-tertiary)] animate-pulse">Loading...</div>
+      </div>
+    );
+  }
+
+  if (requiresPassword) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center px-4">
+        <div className="max-w-xs w-full text-center">
+          <div className="inline-flex items-center justify-center w-12 h-12 rounded-full bg-[var(--color-bg-tertiary)] mb-4">
+            <IconLock size={22} className="text-[var(--color-text-tertiary)]" />
+          </div>
+          <h1 className="text-lg font-semibold text-[var(--color-text-primary)] mb-1">
+            Password required
+          </h1>
+          <p className="text-sm text-[var(--color-text-secondary)] mb-6">
+            This notebook is password protected.
+          </p>
+          <form onSubmit={handlePasswordSubmit} className="space-y-3">
+            <input
+              type="password"
+              placeholder="Enter password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full h-10 px-3 text-sm bg-[var(--color-bg-primary)] border border-[var(--color-border-primary)] rounded-[var(--radius-md)] text-[var(--color-text-primary)] placeholder:text-[var(--color-text-tertiary)] focus:border-[var(--color-border-focus)] focus:ring-2 focus:ring-[var(--color-accent-subtle)] focus:outline-none"
+              autoFocus
+            />
+            {passwordError && (
+              <p className="text-xs text-[var(--color-danger)]">{passwordError}</p>
+            )}
+            <button
+              type="submit"
+              disabled={submittingPassword || !password}
+              className="w-full h-10 text-sm font-medium bg-[var(--color-accent)] text-[var(--color-text-on-accent)] rounded-[var(--radius-md)] hover:bg-[var(--color-accent-hover)] transition-colors disabled:opacity-50"
+            >
+              {submittingPassword ? "Checking..." : "View notebook"}
+            </button>
+          </form>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !site || (noteId && !page)) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center px-4">
+        <div className="max-w-xs w-full text-center">
+          <h1 className="text-lg font-semibold text-[var(--color-text-primary)] mb-2">
+            {error === "This shared link has expired" ? "Link expired" : "Can't open notebook"}
+          </h1>
+          <p className="text-sm text-[var(--color-text-secondary)] mb-6">
+            {error || "The requested page could not be found."}
+          </p>
+          {site && noteId ? (
+            <Link
+              href={`/p/${shortcode}`}
+              className="inline-flex items-center gap-1.5 px-4 py-2 text-sm font-medium bg-[var(--color-accent)] text-[var(--color-text-on-accent)] rounded-[var(--radius-md)] hover:bg-[var(--color-accent-hover)] transition-colors"
+            >
+              <IconBook size={14} />
+              Contents
+            </Link>
+          ) : (
+            <Link
+              href="/"
+              className="inline-flex items-center gap-1.5 px-4 py-2 text-sm font-medium bg-[var(--color-accent)] text-[var(--color-text-on-accent)] rounded-[var(--radius-md)] hover:bg-[var(--color-accent-hover)] transition-colors"
+            >
+              <IconArrowLeft size={14} />
+              Back to JustNoted
+            </Link>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const firstPage = site.sections.find((section) => section.pages.length > 0)?.pages[0];
+
+  const contents = (
+    <nav aria-label="Notebook contents" className="space-y-4">
+      {site.sections.map((section, i) =>
+        section.pages.length === 0 ? null : (
+          <div key={section.id}>
+            {i > 0 && (
+              <h3 className="mb-1 text-[11px] font-medium uppercase tracking-wider text-[var(--color-text-tertiary)]">
+                {section.name}
+              </h3>
+            )}
+            <ul className="space-y-0.5">
+              {section.pages.map((link) => (
+                <li key={link.id}>
+                  <Link
+                    href={`/p/${shortcode}/${link.id}`}
+                    onClick={() => setShowContents(false)}
+                    className={`block px-2 py-1 text-sm rounded-[var(--radius-sm)] truncate transition-colors ${
+                      link.id === noteId
+                        ? "bg-[var(--color-accent-subtle)] text-[var(--color-accent)] font-medium"
+                        : "text-[var(--color-text-secondary)] hover:bg-[var(--color-hover)] hover:text-[var(--color-text-primary)]"
+                    }`}
+                  >
+                    {link.title}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ),
+      )}
+    </nav>
+  );
+
+  return (
+    <main className="flex-grow pt-14 print:block print:pt-0">
+      {/* Top bar */}
+      <div className="max-w-6xl mx-auto px-4 md:px-8 py-3 flex items-center justify-between gap-3 print:hidden">
+        <Link
+          href={`/p/${shortcode}`}
+          className="inline-flex items-center gap-1.5 min-w-0 text-xs font-medium text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] transition-colors"
+        >
+          <IconBook size={14} className="flex-shrink-0" />
+          <span className="truncate">{site.name}</span>
+        </Link>
+        <div className="flex items-center gap-3">
+          {noteId && (
+            <button
+              onClick={() => setShowContents((v) => !v)}
+              className="lg:hidden inline-flex items-center gap-1.5 text-xs text-[var(--color-text-tertiary)] hover:text-[var(--color-text-secondary)] transition-colors"
+            >
+              <IconList size={14} />
+              Contents
+            </button>
+          )}
+          <button
+            onClick={() => window.print()}
+            className="inline-flex items-center gap-1.5 text-xs text-[var(--color-text-tertiary)] hover:text-[var(--color-text-secondary)] transition-colors"
+          >
+            <IconPrinter size={14} />
+            Print
+          </button>
+        </div>
+      </div>
+
+      {!noteId || !page ? (
+        /* Contents page */
+        <article className="max-w-[var(--content-width)] mx-auto px-4 md:px-8 pb-16">
+          <h1 className="text-2xl md:text-3xl font-bold text-[var(--color-text-primary)] mb-2">
+            {site.name}
+          </h1>
+          {!site.isAnonymous && (
+            <p className="text-[11px] text-[var(--color-text-tertiary)] mb-8">
+              By {site.authorUsername}
+            </p>
+          )}
+          {firstPage ? (
+            <>
+              {contents}
+              <Link
+                href={`/p/${shortcode}/${firstPage.id}`}
+                className="mt-8 inline-flex items-center gap-1.5 px-4 py-2 text-sm font-medium bg-[var(--color-accent)] text-[var(--color-text-on-accent)] rounded-[var(--radius-md)] hover:bg-[var(--color-accent-hover)] transition-colors print:hidden"
+              >
+                Start reading
+                <IconArrowRight size={14} />
+              </Link>
+            </>
+          ) : (
+            <p className="text-sm text-[var(--color-text-secondary)]">
+              There&apos;s nothing to read here yet.
+            </p>
+          )}
+        </article>
+      ) : (
+        /* Note page */
+        <div className="max-w-6xl mx-auto px-4 md:px-8 pb-16 flex gap-10">
+          <aside
+            className={`${
+              showContents ? "block" : "hidden"
+            } lg:block fixed lg:static inset-x-0 top-14 bottom-0 z-30 lg:z-auto w-full lg:w-56 flex-shrink-0 overflow-y-auto p-4 lg:p-0 bg-[var(--color-bg-primary)] print:hidden`}
+          >
+            <div className="lg:sticky lg:top-20">{contents}</div>
+          </aside>
+
+          <article className="flex-1 min-w-0 max-w-[var(--content-width)]">
+            <h1 className="text-2xl md:text-3xl font-bold text-[var(--color-text-primary)] mb-2">
+              {page.title}
+            </h1>
+            <div className="flex items-center gap-3 text-[11px] text-[var(--color-text-tertiary)] mb-6">
+              {!site.isAnonymous && (
+                <>
+                  <span>{site.authorUsername}</span>
+                  <span>·</span>
+                </>
+              )}
+              <span>{formatDate(page.updatedAt)}</span>
+            </div>
+
+            {/* On this page */}
+            {headings.length > 1 && (
+              <nav
+                aria-label="On this page"
+                className="mb-8 p-3 rounded-[var(--radius-md)] bg-[var(--color-bg-secondary)] print:hidden"
+              >
+                <p className="mb-1.5 text-[11px] font-medium uppercase tracking-wider text-[var(--color-text-tertiary)]">
+                  On this page
+                </p>
+                <ul className="space-y-0.5">
+                  {headings.map((heading) => (
+                    <li key={heading.id} style={{ paddingLeft: heading.depth * 12 }}>
+                      <button
+                        onClick={() => scrollToHeading(heading)}
+                        className="text-left text-sm text-[var(--color-text-secondary)] hover:text-[var(--color-accent)] transition-colors"
+                      >
+                        {heading.text}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </nav>
+            )}
+
+            <div
+              ref={articleRef}
+              className="milkdown"
+              dangerouslySetInnerHTML={{ __html: renderNoteHtml(page.content, page.contentFormat) }}
+            />
+
+            {/* Prev / next */}
+            <div className="mt-12 pt-4 grid grid-cols-2 gap-3 border-t border-[var(--color-border-secondary)] print:hidden">
+              {page.prev ? (
+                <Link
+                  href={`/p/${shortcode}/${page.prev.id}`}
+                  className="group p-3 rounded-[var(--radius-md)] border border-[var(--color-border-secondary)] hover:border-[var(--color-accent)] transition-colors"
+                >
+                  <span className="flex items-center gap-1 text-[11px] text-[var(--color-text-tertiary)]">
+                    <IconArrowLeft size={12} />
+                    Previous
+                  </span>
+                  <span className="block mt-0.5 text-sm font-medium text-[var(--color-text-primary)] truncate group-hover:text-[var(--color-accent)]">
+                    {page.prev.title}
+                  </span>
+                </Link>
+              ) : (
+                <span />
+              )}
+              {page.next && (
+                <Link
+                  href={`/p/${shortcode}/${page.next.id}`}
+                  className="group p-3 text-right rounded-[var(--radius-md)] border border-[var(--color-border-secondary)] hover:border-[var(--color-accent)] transition-colors"
+                >
+                  <span className="flex items-center justify-end gap-1 text-[11px] text-[var(--color-text-tertiary)]">
+                    Next
+                    <IconArrowRight size={12} />
+                  </span>
+                  <span className="block mt-0.5 text-sm font-medium text-[var(--color-text-primary)] truncate group-hover:text-[var(--color-accent)]">
+                    {page.next.title}
+                  </span>
+                </Link>
+              )}
+            </div>
+          </article>
+        </div>
+      )}
+
+      {/* Footer */}
+      <div className="max-w-6xl mx-auto px-4 md:px-8 py-4 border-t border-[var(--color-border-secondary)] print:hidden">
+        <div className="flex items-center justify-end text-[10px] text-[var(--color-text-tertiary)]">
+          <span>Published with JustNoted</span>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { IconSparkles, IconChevronDown, IconChevronRight, IconLayoutColumns } from "@tabler/icons-react";
+import { useNotesStore } from "@/stores/notes-store";
+import { getRelatedNotes } from "@/app/actions/embeddingActions";
+import type { RelatedNote } from "@/types/combined-notes";
+
+interface RelatedNotesPanelProps {
+  noteId: string;
+  /** Opens a related note; `beside` asks for the split-view reference pane */
+  onOpenNote: (noteId: string, beside: boolean) => void;
+}
+
+/** "Related" list: the user's cloud notes closest in meaning to this one. */
+export default function RelatedNotesPanel({ noteId, onOpenNote }: RelatedNotesPanelProps) {
+  const notes = useNotesStore((s) => s.notes);
+  const [related, setRelated] = useState<RelatedNote[]>([]);
+  const [expanded, setExpanded] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setRelated([]);
+    getRelatedNotes(noteId).then((result) => {
+      if (!cancelled && result.success) setRelated(result.notes || []);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [noteId]);
+
+  // Titles from the store are fresher than the server's; trashed notes drop out
+  const visible = related.flatMap((item) => {
+    const note = notes.find((n) => n.id === item.id);
+    if (note?.deletedAt) return [];
+    return [{ ...item, title: note ? note.title : item.title }];
+  });
+
+  if (visible.length === 0) return null;
+
+  return (
+    <section className="mt-6 pt-3 border-t border-[var(--color-border-secondary)]">
+      <button
+        onClick={() => setExpanded((e) => !e)}
+        className="flex items-center gap-1.5 text-[11px] font-medium text-[var(--color-text-tertiary)] uppercase tracking-wider hover:text-[var(--color-text-secondary)] transition-colors"
+      >
+        {expanded ? <IconChevronDown size={12} /> : <IconChevronRight size={12} />}
+        <IconSparkles size={12} />
+        Related notes
+      </button>
+
+      {expanded && (
+        <ul className="mt-2 flex flex-col gap-0.5">
+          {visible.map((note) => (
+            <li key={note.id} className="group flex items-start gap-1">
+              <button
+                onClick={() => onOpenNote(note.id, false)}
+                className="flex-1 min-w-0 flex items-center gap-2 text-left px-2 py-1.5 rounded-[var(--radius-md)] hover:bg-[var(--color-hover)] transition-colors"
+              >
+                <span className="flex-1 text-[13px] font-medium text-[var(--color-text-primary)] truncate">
+                  {note.title || "Untitled"}
+                </span>
+                <span className="text-[10px] tabular-nums text-[var(--color-text-tertiary)]">
+                  {Math.round(note.similarity * 100)}%
+                </span>
+              </button>
+              <button
+                onClick={() => onOpenNote(note.id, true)}
+                title="Open beside"
+                className="mt-1 p-1 text-[var(--color-text-tertiary)] hover:text-[var(--color-text-secondary)] hover:bg-[var(--color-hover)] rounded-[var(--radius-sm)] opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+              >
+                <IconLayoutColumns size={13} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -1,10 +1,17 @@
 "use client";
 
-import React, { useState, useCallback, useRef, useEffect, useMemo } from "react";
+import React, { useState, useCallback, useRef, useEffect, useMemo, useDeferredValue } from "react";
 import { createPortal } from "react-dom";
 import { useNotesStore } from "@/stores/notes-store";
-import { stripContentToText } from "@/utils/html-utils";
-import { IconSearch, IconFileText, IconCornerDownLeft } from "@tabler/icons-react";
+import { useSearchIndex } from "@/hooks/use-search-index";
+import type { HighlightedText, SearchResult } from "@/utils/search-index";
+import { searchNotesByMeaning } from "@/app/actions/embeddingActions";
+import { IconSearch, IconFileText, IconCornerDownLeft, IconPin, IconSparkles } from "@tabler/icons-react";
+
+const MAX_RESULTS = 50;
+const MEANING_SEARCH_DELAY = 400;
+
+const OPERATOR_HINTS = ['"exact phrase"', "tag:", "notebook:", "is:pinned", "before:2026-01-31", "after:yesterday"];
 
 interface SearchModalProps {
   open: boolean;
@@ -15,7 +22,19 @@ export default function SearchModal({ open, onClose }: SearchModalProps) {
   const [query, setQuery] = useState("");
   const [selectedIndex, setSelectedIndex] = useState(0);
   const inputRef = useRef<HTMLInputElement>(null);
-  const { notes, setActiveNoteId, notebooks } = useNotesStore();
+  const notes = useNotesStore((s) => s.notes);
+  const notebooks = useNotesStore((s) => s.notebooks);
+  const setActiveNoteId = useNotesStore((s) => s.setActiveNoteId);
+  const setSearchJumpTarget = useNotesStore((s) => s.setSearchJumpTarget);
+  const isAuthenticated = useNotesStore((s) => s.isAuthenticated);
+  const { search } = useSearchIndex(open);
+  const deferredQuery = useDeferredValue(query);
+  // Search by meaning runs on the server against note embeddings
+  const [byMeaning, setByMeaning] = useState(false);
+  const [meaningResults, setMeaningResults] = useState<SearchResult[]>([]);
+  const [meaningLoading, setMeaningLoading] = useState(false);
+  const [meaningError, setMeaningError] = useState<string | null>(null);
+  const meaningActive = byMeaning && isAuthenticated && !!query.trim();
 
   useEffect(() => {
     if (open) {
@@ -25,26 +44,69 @@ export default function SearchModal({ open, onClose }: SearchModalProps) {
     }
   }, [open]);
 
-  const results = useMemo(() => {
-    if (!query.trim()) return notes.slice(0, 8);
+  useEffect(() => {
+    if (!meaningActive) return;
 
-    const q = query.toLowerCase();
-    return notes
-      .filter((note) => {
-        const title = note.title?.toLowerCase() || "";
-        const isHtml = /<[a-z][\s\S]*>/i.test(note.content);
-        const content = stripContentToText(note.content, isHtml ? "html" : "markdown").toLowerCase();
-        return title.includes(q) || content.includes(q);
-      })
-      .slice(0, 10);
-  }, [query, notes]);
+    let cancelled = false;
+    setMeaningLoading(true);
+    setMeaningError(null);
+    const timer = setTimeout(() => {
+      searchNotesByMeaning(query, MAX_RESULTS).then((result) => {
+        if (cancelled) return;
+        setMeaningLoading(false);
+        if (!result.success) {
+          setMeaningResults([]);
+          setMeaningError(result.error || "Search failed");
+          return;
+        }
+        setMeaningResults(
+          (result.results || []).map((hit) => ({
+            id: hit.id,
+            score: hit.rank,
+            title: { text: hit.title, highlights: [] },
+            snippet: hit.snippet.text ? hit.snippet : null,
+            matchText: null,
+          })),
+        );
+        setSelectedIndex(0);
+      });
+    }, MEANING_SEARCH_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [meaningActive, query]);
+
+  const keywordResults = useMemo<SearchResult[]>(() => {
+    if (!deferredQuery.trim()) {
+      return notes
+        .filter((note) => !note.deletedAt)
+        .slice(0, 8)
+        .map((note) => ({
+          id: note.id,
+          score: 0,
+          title: { text: note.title, highlights: [] },
+          snippet: null,
+          matchText: null,
+        }));
+    }
+    return search(deferredQuery, MAX_RESULTS);
+  }, [deferredQuery, notes, search]);
+
+  const results = meaningActive ? meaningResults : keywordResults;
+
+  const noteById = useMemo(() => new Map(notes.map((note) => [note.id, note])), [notes]);
 
   const handleSelect = useCallback(
-    (noteId: string) => {
-      setActiveNoteId(noteId);
+    (result: SearchResult) => {
+      setActiveNoteId(result.id);
+      if (result.matchText) {
+        setSearchJumpTarget({ noteId: result.id, text: result.matchText });
+      }
       onClose();
     },
-    [setActiveNoteId, onClose],
+    [setActiveNoteId, setSearchJumpTarget, onClose],
   );
 
   const handleKeyDown = useCallback(
@@ -57,7 +119,7 @@ export default function SearchModal({ open, onClose }: SearchModalProps) {
         setSelectedIndex((i) => Math.max(i - 1, 0));
       } else if (e.key === "Enter" && results[selectedIndex]) {
         e.preventDefault();
-        handleSelect(results[selectedIndex].id);
+        handleSelect(results[selectedIndex]);
       } else if (e.key === "Escape") {
         onClose();
       }
@@ -72,17 +134,6 @@ export default function SearchModal({ open, onClose }: SearchModalProps) {
     return notebooks.find((nb) => nb.id === notebookId)?.name;
   };
 
-  const getMatchSnippet = (content: string, q: string) => {
-    if (!q.trim()) return "";
-    const isHtml = /<[a-z][\s\S]*>/i.test(content);
-    const text = stripContentToText(content, isHtml ? "html" : "markdown");
-    const idx = text.toLowerCase().indexOf(q.toLowerCase());
-    if (idx === -1) return "";
-    const start = Math.max(0, idx - 30);
-    const end = Math.min(text.length, idx + q.length + 40);
-    return (start > 0 ? "..." : "") + text.slice(start, end) + (end < text.length ? "..." : "");
-  };
-
   return createPortal(
     <div
       className="fixed inset-0 z-[9999] flex items-start justify-center pt-[15vh]"
@@ -96,12 +147,35 @@ export default function SearchModal({ open, onClose }: SearchModalProps) {
           <input
             ref={inputRef}
             type="text"
-            placeholder="Search notes..."
+            placeholder={
+              byMeaning && isAuthenticated
+                ? "Describe what you're looking for..."
+                : "Search notes, or try tag: notebook: is:pinned..."
+            }
             value={query}
             onChange={(e) => { setQuery(e.target.value); setSelectedIndex(0); }}
             onKeyDown={handleKeyDown}
             className="flex-1 text-sm bg-transparent text-[var(--color-text-primary)] placeholder:text-[var(--color-text-tertiary)] outline-none"
           />
+          {isAuthenticated && (
+            <button
+              onClick={() => {
+                setByMeaning((v) => !v);
+                setSelectedIndex(0);
+                inputRef.current?.focus();
+              }}
+              aria-pressed={byMeaning}
+              title="Find notes about the same thing, even in different words"
+              className={`flex items-center gap-1 px-1.5 py-0.5 text-[10px] font-medium rounded-[var(--radius-sm)] transition-colors shrink-0 ${
+                byMeaning
+                  ? "bg-[var(--color-accent-subtle)] text-[var(--color-accent)]"
+                  : "text-[var(--color-text-tertiary)] hover:text-[var(--color-text-secondary)] hover:bg-[var(--color-hover)]"
+              }`}
+            >
+              <IconSparkles size={11} />
+              By meaning
+            </button>
+          )}
           <kbd className="px-1.5 py-0.5 text-[9px] bg-[var(--color-bg-tertiary)] border border-[var(--color-border-primary)] rounded text-[var(--color-text-tertiary)] font-mono">
             ESC
           </kbd>
@@ -109,20 +183,36 @@ export default function SearchModal({ open, onClose }: SearchModalProps) {
 
         {/* Results */}
         <div className="max-h-[50vh] overflow-y-auto scrollbar-thin">
-          {results.length === 0 ? (
-            <div className="px-4 py-8 text-center text-sm text-[var(--color-text-tertiary)]">
-              No notes found
+          {meaningActive && results.length === 0 ? (
+            <div className="px-4 py-8 text-center">
+              <p className="text-sm text-[var(--color-text-tertiary)]">
+                {meaningLoading ? "Searching…" : meaningError || "No notes found"}
+              </p>
+            </div>
+          ) : results.length === 0 ? (
+            <div className="px-4 py-8 text-center">
+              <p className="text-sm text-[var(--color-text-tertiary)]">No notes found</p>
+              <div className="flex flex-wrap justify-center gap-1 mt-3">
+                {OPERATOR_HINTS.map((hint) => (
+                  <code
+                    key={hint}
+                    className="px-1.5 py-px text-[10px] bg-[var(--color-bg-tertiary)] rounded-[var(--radius-sm)] text-[var(--color-text-secondary)]"
+                  >
+                    {hint}
+                  </code>
+                ))}
+              </div>
             </div>
           ) : (
             <ul>
-              {results.map((note, i) => {
-                const nbName = getNotebookName(note.notebookId);
-                const snippet = query.trim() ? getMatchSnippet(note.content, query) : "";
+              {results.map((result, i) => {
+                const note = noteById.get(result.id);
+                const nbName = getNotebookName(note?.notebookId);
 
                 return (
-                  <li key={note.id}>
+                  <li key={result.id}>
                     <button
-                      onClick={() => handleSelect(note.id)}
+                      onClick={() => handleSelect(result)}
                       onMouseEnter={() => setSelectedIndex(i)}
                       className={`w-full text-left px-4 py-2.5 flex items-start gap-2.5 transition-colors ${
                         i === selectedIndex
@@ -134,17 +224,20 @@ export default function SearchModal({ open, onClose }: SearchModalProps) {
                       <div className="flex-1 min-w-0">
                         <div className="flex items-center gap-1.5">
                           <span className="text-[13px] font-medium text-[var(--color-text-primary)] truncate">
-                            {note.title}
+                            <Highlighted value={result.title} />
                           </span>
+                          {note?.isPinned && (
+                            <IconPin size={10} className="text-[var(--color-text-tertiary)] shrink-0" />
+                          )}
                           {nbName && (
                             <span className="px-1.5 py-px text-[8px] font-medium rounded-[var(--radius-sm)] bg-[var(--color-accent-subtle)] text-[var(--color-accent)] shrink-0">
                               {nbName}
                             </span>
                           )}
                         </div>
-                        {snippet && (
-                          <p className="text-[10px] text-[var(--color-text-tertiary)] truncate mt-0.5">
-                            {snippet}
+                        {result.snippet && (
+                          <p className="text-[10px] text-[var(--color-text-tertiary)] line-clamp-2 mt-0.5">
+                            <Highlighted value={result.snippet} />
                           </p>
                         )}
                       </div>
@@ -179,3 +272,25 @@ export default function SearchModal({ open, onClose }: SearchModalProps) {
     document.body,
   );
 }
+
+function Highlighted({ value }: { value: HighlightedText }) {
+  if (value.highlights.length === 0) return <>{value.text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  value.highlights.forEach(([start, end], i) => {
+    if (start > cursor) parts.push(value.text.slice(cursor, start));
+    parts.push(
+      <mark
+        key={i}
+        className="bg-[var(--color-accent-subtle)] text-[var(--color-text-primary)] rounded-[2px]"
+      >
+        {value.text.slice(start, end)}
+      </mark>,
+    );
+    cursor = end;
+  });
+  if (cursor < value.text.length) parts.push(value.text.slice(cursor));
+
+  return <>{parts}</>;
+}
@@ -0,0 +1,206 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { IconAlertCircle, IconDownload } from "@tabler/icons-react";
+import { getShareAnalytics } from "@/app/actions/shareAnalyticsActions";
+import {
+  SHARE_ANALYTICS_RANGES,
+  ShareAnalyticsRange,
+  ShareAnalyticsSummary,
+  shareAnalyticsToCsv,
+} from "@/types/share-analytics";
+
+interface ShareAnalyticsPanelProps {
+  sharedNoteId: string;
+  title: string;
+}
+
+const formatSeconds = (seconds: number) => {
+  const rounded = Math.round(seconds);
+  if (rounded < 60) return `${rounded}s`;
+  return `${Math.floor(rounded / 60)}m ${rounded % 60}s`;
+};
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+
+/**
+ * Per-share analytics shown inside a Manage Shared Notes card: a daily chart
+ * of views and unique readers, headline figures, top referrers and a CSV of
+ * the daily numbers.
+ */
+export default function ShareAnalyticsPanel({ sharedNoteId, title }: ShareAnalyticsPanelProps) {
+  const [range, setRange] = useState<ShareAnalyticsRange>(30);
+  const [summary, setSummary] = useState<ShareAnalyticsSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    getShareAnalytics(sharedNoteId, range).then((result) => {
+      if (cancelled) return;
+      if (result.success && result.summary) {
+        setSummary(result.summary);
+      } else {
+        setError(result.error || "Failed to load analytics");
+      }
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sharedNoteId, range]);
+
+  const handleExport = () => {
+    if (!summary) return;
+    const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "note";
+    const blob = new Blob([shareAnalyticsToCsv(summary)], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${slug}-analytics-${range}d.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const maxViews = Math.max(1, ...(summary?.days.map((day) => day.views) || []));
+
+  return (
+    <div className="mt-4 border-t pt-4 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex gap-1">
+          {SHARE_ANALYTICS_RANGES.map((days) => (
+            <button
+              key={days}
+              onClick={() => setRange(days)}
+              className={`px-2.5 py-1 text-xs font-medium rounded-[var(--radius-md)] transition-colors ${
+                range === days
+                  ? "bg-[var(--color-accent)] text-[var(--color-text-on-accent)]"
+                  : "bg-[var(--color-bg-tertiary)] text-[var(--color-text-secondary)] hover:bg-[var(--color-active)]"
+              }`}
+            >
+              {days} days
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={!summary || isLoading}
+          className="flex items-center gap-1.5 px-2.5 py-1 text-xs text-[var(--color-text-secondary)] border border-[var(--color-border-primary)] rounded-[var(--radius-md)] hover:text-[var(--color-accent)] hover:border-[var(--color-accent)] transition-colors disabled:opacity-50"
+        >
+          <IconDownload size={14} />
+          CSV
+        </button>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-[var(--color-danger)]">
+          <IconAlertCircle className="inline-block mr-1.5" size={16} />
+          {error}
+        </p>
+      ) : isLoading || !summary ? (
+        <div className="h-40 flex items-center justify-center text-sm text-[var(--color-text-tertiary)] animate-pulse">
+          Loading analytics...
+        </div>
+      ) : (
+        <>
+          {/* Headline figures */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {[
+              { label: "Views", value: summary.totalViews.toLocaleString() },
+              { label: "Unique readers", value: summary.uniqueReaders.toLocaleString() },
+              { label: "Avg. read", value: `${Math.round(summary.avgCompletion * 100)}%` },
+              { label: "Avg. time", value: formatSeconds(summary.avgSeconds) },
+            ].map((stat) => (
+              <div
+                key={stat.label}
+                className="px-3 py-2 bg-[var(--color-bg-secondary)] rounded-[var(--radius-md)]"
+              >
+                <p className="text-[11px] text-[var(--color-text-tertiary)]">{stat.label}</p>
+                <p className="text-sm font-semibold text-[var(--color-text-primary)]">{stat.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {/* Daily chart */}
+          <div>
+            <div className="flex items-end gap-px h-32" role="img" aria-label={`Daily views over the last ${range} days`}>
+              {summary.days.map((day) => (
+                <div
+                  key={day.date}
+                  className="group relative flex-1 h-full flex items-end"
+                  title={`${formatDay(day.date)}: ${day.views} view${day.views !== 1 ? "s" : ""}, ${day.uniqueReaders} reader${day.uniqueReaders !== 1 ? "s" : ""}, ${Math.round(day.avgCompletion * 100)}% read`}
+                >
+                  <div
+                    className="relative w-full rounded-t-sm bg-[var(--color-accent)]/25 group-hover:bg-[var(--color-accent)]/40 transition-colors"
+                    style={{ height: `${(day.views / maxViews) * 100}%` }}
+                  >
+                    <div
+                      className="absolute bottom-0 inset-x-0 rounded-t-sm bg-[var(--color-accent)]"
+                      style={{ height: day.views ? `${(day.uniqueReaders / day.views) * 100}%` : 0 }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between mt-1 text-[10px] text-[var(--color-text-tertiary)]">
+              <span>{formatDay(summary.days[0].date)}</span>
+              <span className="flex items-center gap-3">
+                <span className="flex items-center gap-1">
+                  <span className="inline-block w-2 h-2 rounded-sm bg-[var(--color-accent)]/25" />
+                  Views
+                </span>
+                <span className="flex items-center gap-1">
+                  <span className="inline-block w-2 h-2 rounded-sm bg-[var(--color-accent)]" />
+                  Unique readers
+                </span>
+              </span>
+              <span>{formatDay(summary.days[summary.days.length - 1].date)}</span>
+            </div>
+          </div>
+
+          {/* Referrers */}
+          {summary.referrers.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-[var(--color-text-primary)] mb-2">
+                Referrers
+              </h4>
+              <ul className="space-y-1">
+                {summary.referrers.slice(0, 5).map((referrer) => (
+                  <li
+                    key={referrer.domain}
+                    className="relative flex items-center justify-between text-sm px-3 py-1.5 rounded-[var(--radius-md)] overflow-hidden"
+                  >
+                    <span
+                      className="absolute inset-y-0 left-0 bg-[var(--color-bg-secondary)]"
+                      style={{ width: `${(referrer.views / summary.totalViews) * 100}%` }}
+                    />
+                    <span className="relative text-[var(--color-text-primary)] truncate">
+                      {referrer.domain}
+                    </span>
+                    <span className="relative text-[var(--color-text-secondary)]">
+                      {referrer.views.toLocaleString()}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <p className="text-[11px] text-[var(--color-text-tertiary)]">
+            Collected without cookies or third-party trackers. Readers are counted once per day,
+            and your own visits aren&apos;t included.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,291 @@
+"use client";
+
+import { RefObject, useCallback, useEffect, useMemo, useState } from "react";
+import { IconMessageCircle, IconPencil, IconX } from "@tabler/icons-react";
+import { addShareComment, getShareComments } from "@/app/actions/commentActions";
+import { findAnchorRange, getRangeAnchor } from "@/utils/html-utils";
+import { useCommentHighlights } from "@/hooks/use-comment-highlights";
+import CommentThreadCard from "@/components/comment-thread";
+import {
+  COMMENT_LIMITS,
+  CommentAnchor,
+  CommentKind,
+  NoteComment,
+  buildCommentThreads,
+} from "@/types/comments";
+
+const GUEST_NAME_KEY = "justnoted_comment_name";
+
+interface ShareCommentsProps {
+  shortcode: string;
+  password: string | null;
+  /** The rendered note content readers select passages in */
+  contentRef: RefObject<HTMLElement | null>;
+  /** Signed-in reader's username; anonymous readers are asked for a name */
+  viewerName: string | null;
+}
+
+interface SelectionPrompt {
+  anchor: CommentAnchor;
+  top: number;
+  left: number;
+}
+
+/**
+ * Comments on a shared note: select a passage to comment on it or suggest
+ * an edit, and read and reply to the open threads below the note.
+ */
+export default function ShareComments({ shortcode, password, contentRef, viewerName }: ShareCommentsProps) {
+  const [comments, setComments] = useState<NoteComment[]>([]);
+  const [canComment, setCanComment] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [prompt, setPrompt] = useState<SelectionPrompt | null>(null);
+  const [draft, setDraft] = useState<{ anchor: CommentAnchor; kind: CommentKind } | null>(null);
+  const [body, setBody] = useState("");
+  const [suggestedText, setSuggestedText] = useState("");
+  const [guestName, setGuestName] = useState("");
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    setGuestName(localStorage.getItem(GUEST_NAME_KEY) || "");
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    getShareComments(shortcode, password).then((result) => {
+      if (cancelled) return;
+      if (result.success) {
+        setComments(result.comments || []);
+        setCanComment(!!result.canComment);
+      } else {
+        setError(result.error || "Failed to load comments");
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [shortcode, password]);
+
+  const threads = useMemo(() => buildCommentThreads(comments), [comments]);
+  const anchors = useMemo(() => threads.map((thread) => thread.comment), [threads]);
+  useCommentHighlights(contentRef, anchors);
+
+  // Offer to comment on whatever the reader selects in the note
+  useEffect(() => {
+    if (!canComment) return;
+
+    const handleSelection = () => {
+      const root = contentRef.current;
+      const selection = window.getSelection();
+      if (!root || !selection || selection.isCollapsed || selection.rangeCount === 0) {
+        setPrompt(null);
+        return;
+      }
+      const range = selection.getRangeAt(0);
+      const anchor = getRangeAnchor(root, range);
+      if (!anchor || anchor.quote.length > COMMENT_LIMITS.quote) {
+        setPrompt(null);
+        return;
+      }
+      const rect = range.getBoundingClientRect();
+      setPrompt({ anchor, top: rect.top, left: rect.left + rect.width / 2 });
+    };
+    const hidePrompt = () => setPrompt(null);
+
+    document.addEventListener("mouseup", handleSelection);
+    document.addEventListener("keyup", handleSelection);
+    window.addEventListener("scroll", hidePrompt, { passive: true });
+    return () => {
+      document.removeEventListener("mouseup", handleSelection);
+      document.removeEventListener("keyup", handleSelection);
+      window.removeEventListener("scroll", hidePrompt);
+    };
+  }, [canComment, contentRef]);
+
+  const startDraft = (kind: CommentKind) => {
+    if (!prompt) return;
+    setDraft({ anchor: prompt.anchor, kind });
+    setSuggestedText(kind === "suggestion" ? prompt.anchor.quote : "");
+    setBody("");
+    setPrompt(null);
+    requestAnimationFrame(() =>
+      document.getElementById("share-comment-draft")?.scrollIntoView({ behavior: "smooth", block: "center" }),
+    );
+  };
+
+  const post = useCallback(
+    async (input: Parameters<typeof addShareComment>[2]) => {
+      if (!viewerName && guestName.trim()) {
+        localStorage.setItem(GUEST_NAME_KEY, guestName.trim());
+      }
+      const result = await addShareComment(shortcode, password, {
+        ...input,
+        guestName: viewerName ? undefined : guestName,
+      });
+      if (result.success && result.comment) {
+        setComments((prev) => [...prev, result.comment!]);
+        setError(null);
+        return true;
+      }
+      setError(result.error || "Failed to add comment");
+      return false;
+    },
+    [shortcode, password, viewerName, guestName],
+  );
+
+  const handleSubmitDraft = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    setSending(true);
+    const posted = await post({
+      kind: draft.kind,
+      anchor: draft.anchor,
+      body,
+      suggestedText: draft.kind === "suggestion" ? suggestedText : null,
+    });
+    setSending(false);
+    if (posted) {
+      setDraft(null);
+      window.getSelection()?.removeAllRanges();
+    }
+  };
+
+  const selectPassage = (anchor: CommentAnchor) => {
+    const root = contentRef.current;
+    const range = root && findAnchorRange(root, anchor);
+    if (!range) return;
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+    range.startContainer.parentElement?.scrollIntoView({ behavior: "smooth", block: "center" });
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 text-xs bg-[var(--color-bg-primary)] border border-[var(--color-border-primary)] rounded-[var(--radius-md)] text-[var(--color-text-primary)] placeholder:text-[var(--color-text-tertiary)] focus:border-[var(--color-border-focus)] focus:outline-none";
+
+  return (
+    <section className="max-w-[var(--content-width)] mx-auto px-4 md:px-8 pb-12 print:hidden">
+      {/* Floating prompt over the selection */}
+      {prompt && (
+        <div
+          className="fixed z-50 flex -translate-x-1/2 -translate-y-full -mt-2 p-1 gap-1 bg-[var(--color-bg-elevated)] border border-[var(--color-border-primary)] rounded-[var(--radius-md)] shadow-[var(--shadow-lg)]"
+          style={{ top: prompt.top, left: prompt.left }}
+          // Keep the selection while the buttons are pressed
+          onMouseDown={(e) => e.preventDefault()}
+          onMouseUp={(e) => e.stopPropagation()}
+        >
+          <button
+            onClick={() => startDraft("comment")}
+            className="flex items-center gap-1 px-2 py-1 text-xs text-[var(--color-text-secondary)] rounded-[var(--radius-sm)] hover:bg-[var(--color-hover)] hover:text-[var(--color-text-primary)] transition-colors"
+          >
+            <IconMessageCircle size={13} />
+            Comment
+          </button>
+          <button
+            onClick={() => startDraft("suggestion")}
+            className="flex items-center gap-1 px-2 py-1 text-xs text-[var(--color-text-secondary)] rounded-[var(--radius-sm)] hover:bg-[var(--color-hover)] hover:text-[var(--color-text-primary)] transition-colors"
+          >
+            <IconPencil size={13} />
+            Suggest edit
+          </button>
+        </div>
+      )}
+
+      <div className="pt-6 border-t border-[var(--color-border-secondary)] space-y-3">
+        <h2 className="flex items-center gap-1.5 text-sm font-semibold text-[var(--color-text-primary)]">
+          <IconMessageCircle size={16} />
+          Comments
+          {threads.length > 0 && (
+            <span className="text-xs font-normal text-[var(--color-text-tertiary)]">{threads.length}</span>
+          )}
+        </h2>
+
+        {error && <p className="text-xs text-[var(--color-danger)]">{error}</p>}
+
+        {draft && (
+          <form
+            id="share-comment-draft"
+            onSubmit={handleSubmitDraft}
+            className="p-3 space-y-2 bg-[var(--color-bg-secondary)] rounded-[var(--radius-md)]"
+          >
+            <div className="flex items-start justify-between gap-2">
+              <p className="pl-2 border-l-2 border-[var(--color-accent)] text-[11px] text-[var(--color-text-tertiary)] line-clamp-2">
+                {draft.anchor.quote}
+              </p>
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                aria-label="Cancel"
+                className="text-[var(--color-text-tertiary)] hover:text-[var(--color-text-primary)] transition-colors"
+              >
+                <IconX size={14} />
+              </button>
+            </div>
+            {draft.kind === "suggestion" && (
+              <textarea
+                value={suggestedText}
+                onChange={(e) => setSuggestedText(e.target.value)}
+                maxLength={COMMENT_LIMITS.suggestedText}
+                rows={3}
+                placeholder="Suggested text (leave empty to suggest removing it)"
+                className={inputClass}
+                autoFocus
+              />
+            )}
+            <textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              maxLength={COMMENT_LIMITS.body}
+              rows={2}
+              placeholder={draft.kind === "suggestion" ? "Why? (optional)" : "Add a comment"}
+              className={inputClass}
+              autoFocus={draft.kind === "comment"}
+            />
+            <div className="flex items-center gap-2">
+              {!viewerName && (
+                <input
+                  type="text"
+                  value={guestName}
+                  onChange={(e) => setGuestName(e.target.value)}
+                  maxLength={COMMENT_LIMITS.name}
+                  placeholder="Your name (optional)"
+                  className={`${inputClass} flex-1 h-8 py-0`}
+                />
+              )}
+              <button
+                type="submit"
+                disabled={sending || (draft.kind === "comment" && !body.trim())}
+                className="ml-auto h-8 px-3 text-xs font-medium bg-[var(--color-accent)] text-[var(--color-text-on-accent)] rounded-[var(--radius-md)] hover:bg-[var(--color-accent-hover)] transition-colors disabled:opacity-50"
+              >
+                {sending ? "Posting..." : draft.kind === "suggestion" ? "Suggest" : "Comment"}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {threads.length === 0 && !draft ? (
+          <p className="text-xs text-[var(--color-text-tertiary)]">
+            {canComment
+              ? "Select a passage to comment on it or suggest an edit."
+              : "Sign in to comment on this note."}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {threads.map((thread) => (
+              <CommentThreadCard
+                key={thread.comment.id}
+                thread={thread}
+                onSelect={() => selectPassage(thread.comment)}
+                onReply={
+                  canComment
+                    ? (reply) => post({ parentId: thread.comment.id, kind: "comment", body: reply })
+                    : undefined
+                }
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -14,11 +14,14 @@ import {
   IconX,
   IconUserPlus,
   IconTrash,
+  IconMessageCircle,
+  IconUserQuestion,
+  IconMail,
 } from "@tabler/icons-react";
 import { Modal } from "@/components/ds/modal";
 import { IconButton } from "@/components/ds/icon-button";
 import { useToast } from "@/components/ui/toast";
-import { sharingOperation } from "@/app/actions/sharing";
+import { sharingOperation, ShareInvite } from "@/app/actions/sharing";
 
 interface ShareNoteButtonProps {
   noteId: string;
@@ -33,10 +36,13 @@ interface ShareInfo {
   isPublic: boolean;
   shortcode: string | null;
   users: string[];
+  invites: ShareInvite[];
   isAnonymous: boolean;
   hasPassword: boolean;
   expiresAt: string | null;
   viewCount: number;
+  allowComments: boolean;
+  allowAnonymousComments: boolean;
 }
 
 export default function ShareNoteButton({
@@ -55,10 +61,13 @@ export default function ShareNoteButton({
     isPublic: true,
     shortcode: null,
     users: [],
+    invites: [],
     isAnonymous: false,
     hasPassword: false,
     expiresAt: null,
     viewCount: 0,
+    allowComments: false,
+    allowAnonymousComments: false,
   });
 
   // Form state
@@ -68,6 +77,8 @@ export default function ShareNoteButton({
   const [usePassword, setUsePassword] = useState(false);
   const [expiresAt, setExpiresAt] = useState("");
   const [useExpiry, setUseExpiry] = useState(false);
+  const [allowComments, setAllowComments] = useState(false);
+  const [allowAnonymousComments, setAllowAnonymousComments] = useState(false);
   const [newUsername, setNewUsername] = useState("");
 
   const toast = useToast();
@@ -86,14 +97,19 @@ export default function ShareNoteButton({
           isPublic: data.isPublic ?? true,
           shortcode: data.shortcode ?? null,
           users: data.users ?? [],
+          invites: data.invites ?? [],
           isAnonymous: data.isAnonymous ?? false,
           hasPassword: data.hasPassword ?? false,
           expiresAt: data.expiresAt ?? null,
           viewCount: data.viewCount ?? 0,
+          allowComments: data.allowComments ?? false,
+          allowAnonymousComments: data.allowAnonymousComments ?? false,
         });
         setIsPublic(data.isPublic ?? true);
         setIsAnonymous(data.isAnonymous ?? false);
         setUsePassword(data.hasPassword ?? false);
+        setAllowComments(data.allowComments ?? false);
+        setAllowAnonymousComments(data.allowAnonymousComments ?? false);
         if (data.expiresAt) {
           setUseExpiry(true);
           setExpiresAt(data.expiresAt.split("T")[0]);
@@ -120,6 +136,8 @@ export default function ShareNoteButton({
         isAnonymous,
         password: usePassword ? password : null,
         expiresAt: useExpiry && expiresAt ? new Date(expiresAt).toISOString() : null,
+        allowComments,
+        allowAnonymousComments: allowComments && allowAnonymousComments,
       });
       if (result.success) {
         toast.showSuccess("Share settings updated");
@@ -131,22 +149,27 @@ export default function ShareNoteButton({
     } finally {
       setSaving(false);
     }
-  }, [noteId, isPublic, userId, noteSource, isAnonymous, usePassword, password, useExpiry, expiresAt, toast, loadShareInfo]);
+  }, [noteId, isPublic, userId, noteSource, isAnonymous, usePassword, password, useExpiry, expiresAt, allowComments, allowAnonymousComments, toast, loadShareInfo]);
 
   const handleAddUser = useCallback(async () => {
-    if (!newUsername.trim()) return;
+    const reader = newUsername.trim();
+    if (!reader) return;
+    const isEmail = reader.includes("@");
     setSaving(true);
     try {
       const result = await sharingOperation({
         operation: "share",
         noteId,
         isPublic: false,
-        username: newUsername.trim(),
+        username: isEmail ? null : reader,
+        email: isEmail ? reader : null,
         currentUserId: userId,
         storage: noteSource,
+        isAnonymous,
       });
       if (result.success) {
         setNewUsername("");
+        if (isEmail) toast.showSuccess(`Invite sent to ${reader}`);
         await loadShareInfo();
       } else {
         toast.showError((result as any).error || "Failed to add user");
@@ -154,7 +177,7 @@ export default function ShareNoteButton({
     } finally {
       setSaving(false);
     }
-  }, [noteId, newUsername, userId, noteSource, toast, loadShareInfo]);
+  }, [noteId, newUsername, userId, noteSource, isAnonymous, toast, loadShareInfo]);
 
   const handleRemoveUser = useCallback(async (username: string) => {
     const result = await sharingOperation({
@@ -177,7 +200,7 @@ export default function ShareNoteButton({
       currentUserId: userId,
     });
     if (result.success) {
-      setInfo((prev) => ({ ...prev, shortcode: null, users: [] }));
+      setInfo((prev) => ({ ...prev, shortcode: null, users: [], invites: [] }));
       toast.showSuccess("Sharing stopped");
       setOpen(false);
     }
@@ -324,6 +347,24 @@ export default function ShareNoteButton({
                   className="w-full h-9 px-3 text-xs bg-[var(--color-bg-primary)] border border-[var(--color-border-primary)] rounded-[var(--radius-md)] text-[var(--color-text-primary)] focus:border-[var(--color-border-focus)] focus:outline-none"
                 />
               )}
+
+              {/* Comments */}
+              <ToggleRow
+                icon={<IconMessageCircle size={14} />}
+                label="Allow comments"
+                description="Readers can comment on passages and suggest edits"
+                checked={allowComments}
+                onChange={setAllowComments}
+              />
+              {allowComments && (
+                <ToggleRow
+                  icon={<IconUserQuestion size={14} />}
+                  label="Anonymous comments"
+                  description="Let readers comment without signing in"
+                  checked={allowAnonymousComments}
+                  onChange={setAllowAnonymousComments}
+                />
+              )}
             </div>
 
             {/* Save button */}
@@ -344,7 +385,7 @@ export default function ShareNoteButton({
                 <div className="flex gap-1.5">
                   <input
                     type="text"
-                    placeholder="Username"
+                    placeholder="Email or username"
                     value={newUsername}
                     onChange={(e) => setNewUsername(e.target.value)}
                     onKeyDown={(e) => e.key === "Enter" && handleAddUser()}
@@ -359,6 +400,29 @@ export default function ShareNoteButton({
                     Add
                   </button>
                 </div>
+                {info.invites.length > 0 && (
+                  <ul className="space-y-1">
+                    {info.invites.map((invite) => (
+                      <li
+                        key={invite.email}
+                        className="flex items-center justify-between gap-2 px-2.5 py-1.5 text-xs bg-[var(--color-bg-tertiary)] rounded-[var(--radius-md)]"
+                      >
+                        <span className="flex items-center gap-1.5 min-w-0 text-[var(--color-text-secondary)]">
+                          <IconMail size={12} className="shrink-0" />
+                          <span className="truncate">{invite.email}</span>
+                        </span>
+                        <span className="ml-auto text-[10px] text-[var(--color-text-tertiary)]">Invited</span>
+                        <button
+                          onClick={() => handleRemoveUser(invite.email)}
+                          aria-label={`Revoke invite for ${invite.email}`}
+                          className="text-[var(--color-text-tertiary)] hover:text-[var(--color-danger)] transition-colors"
+                        >
+                          <IconX size={12} />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
                 {info.users.length > 0 && (
                   <ul className="space-y-1">
                     {info.users.map((user) => (
@@ -403,7 +467,7 @@ export default function ShareNoteButton({
   );
 }
 
-function ToggleRow({
+export function ToggleRow({
   icon,
   label,
   description,
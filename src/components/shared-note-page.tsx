@@ -1,10 +1,9 @@
 "use client";
 
 import Link from "next/link";
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useParams } from "next/navigation";
-import { sanitizeHtml } from "@/utils/sanitize";
-import { marked } from "marked";
+import { renderNoteHtml } from "@/utils/sanitize";
 import {
   IconArrowLeft,
   IconLock,
@@ -14,6 +13,8 @@ import {
 
 import { sharingOperation } from "@/app/actions/sharing";
 import { createClient } from "@/utils/supabase/client";
+import { useReadTracking } from "@/hooks/use-read-tracking";
+import ShareComments from "@/components/share-comments";
 
 interface SharedNote {
   id: string;
@@ -28,6 +29,7 @@ interface SharedNote {
   is_private?: boolean;
   shareInfo?: {
     isAnonymous?: boolean;
+    allowComments?: boolean;
   };
 }
 
@@ -49,6 +51,9 @@ export default function SharedNotePage({
   const [password, setPassword] = useState("");
   const [passwordError, setPasswordError] = useState<string | null>(null);
   const [submittingPassword, setSubmittingPassword] = useState(false);
+  const [visitId, setVisitId] = useState<string | null>(null);
+  const articleRef = useRef<HTMLElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
 
   const supabase = createClient();
 
@@ -61,15 +66,6 @@ export default function SharedNotePage({
     });
   };
 
-  const renderContent = (content: string, format?: string): string => {
-    const looksLikeHtml = /<[a-z][\s\S]*>/i.test(content.trim());
-    if (format === "html" && looksLikeHtml) {
-      return sanitizeHtml(content);
-    }
-    const html = marked.parse(content, { async: false, gfm: true, breaks: false }) as string;
-    return sanitizeHtml(html);
-  };
-
   const fetchNote = async (pw?: string | null) => {
     let username = null;
 
@@ -92,10 +88,12 @@ export default function SharedNotePage({
         shortcode,
         currentUsername: username,
         password: pw || null,
+        trackVisit: { referrer: document.referrer || null },
       }) as any;
 
       if (result.success && result.note) {
         setNote(result.note as SharedNote);
+        setVisitId(result.visitId || null);
         setRequiresPassword(false);
         setError(null);
       } else if (result.requiresPassword) {
@@ -129,6 +127,8 @@ export default function SharedNotePage({
     setSubmittingPassword(false);
   };
 
+  useReadTracking(visitId, articleRef);
+
   const handlePrint = () => window.print();
 
   // Loading
@@ -239,7 +239,7 @@ export default function SharedNotePage({
       </div>
 
       {/* Note content */}
-      <article className="max-w-[var(--content-width)] mx-auto px-4 md:px-8 pb-16">
+      <article ref={articleRef} className="max-w-[var(--content-width)] mx-auto px-4 md:px-8 pb-16">
         {/* Title */}
         <h1 className="text-2xl md:text-3xl font-bold text-[var(--color-text-primary)] mb-2">
           {note.title}
@@ -269,13 +269,23 @@ export default function SharedNotePage({
 
         {/* Content */}
         <div
+          ref={contentRef}
           className="milkdown"
           dangerouslySetInnerHTML={{
-            __html: renderContent(note.content, note.content_format),
+            __html: renderNoteHtml(note.content, note.content_format),
           }}
         />
       </article>
 
+      {note.shareInfo?.allowComments && (
+        <ShareComments
+          shortcode={shortcode}
+          password={password || null}
+          contentRef={contentRef}
+          viewerName={currentUsername}
+        />
+      )}
+
       {/* Footer */}
       <div className="max-w-[var(--content-width)] mx-auto px-4 md:px-8 py-4 border-t border-[var(--color-border-secondary)] print:hidden">
         <div className="flex items-center justify-between text-[10px] text-[var(--color-text-tertiary)]">
@@ -14,12 +14,19 @@ import { uploadNotebookCover } from "@/utils/storage/cover-upload";
 import NotebookNavList from "@/components/notebook-nav-list";
 import NotebookModal from "@/components/notebook-modal";
 import TagFilter from "@/components/tag-filter";
+import JournalCalendar from "@/components/journal-calendar";
+import ImportModal from "@/components/import-modal";
+import PublishNotebookModal from "@/components/publish-notebook-modal";
 import WritingSessionIndicator from "@/components/writing-session-indicator";
 import { getTags, bulkGetNoteTags } from "@/app/actions/tagActions";
+import { getTemplates } from "@/app/actions/templateActions";
+import { getWritingGoals } from "@/app/actions/writingGoalActions";
+import { searchNotes } from "@/app/actions/supabaseActions";
 import BulkActionBar from "@/components/bulk-action-bar";
 import { getCoverPreviewStyle } from "@/lib/notebook-covers";
 import { getPlainTextPreview as getPlainTextPreviewUtil } from "@/utils/html-utils";
 import NotebookMoveMenu from "@/components/notebook-move-menu";
+import { isLockedNote } from "@/utils/note-encryption";
 import {
   IconX,
   IconSearch,
@@ -31,8 +38,10 @@ import {
   IconSquare,
   IconSquareCheck,
   IconDeviceDesktop,
+  IconUsers,
   IconDots,
   IconTrash,
+  IconLock,
   IconNotebook,
   IconGripVertical,
   IconPlus,
@@ -40,6 +49,8 @@ import {
   IconAdjustmentsHorizontal,
   IconNote,
   IconTag,
+  IconTemplate,
+  IconCalendar,
 } from "@tabler/icons-react";
 import { Dropdown, DropdownItem, DropdownSeparator, DropdownLabel } from "@/components/ds/dropdown";
 import { ConfirmModal } from "@/components/ds/modal";
@@ -65,9 +76,11 @@ interface SidebarProps {
   onMoveNote?: (noteId: string, notebookId: string | null) => void;
   onOpenTrash?: () => void;
   onNewNote?: () => void;
+  onOpenDailyNote?: (date: Date) => void;
+  onOpenEncryption?: () => void;
 }
 
-export default function Sidebar({ onNoteClick, onBulkDelete, onDeleteNote, onMoveNote, onOpenTrash, onNewNote }: SidebarProps) {
+export default function Sidebar({ onNoteClick, onBulkDelete, onDeleteNote, onMoveNote, onOpenTrash, onNewNote, onOpenDailyNote, onOpenEncryption }: SidebarProps) {
   const {
     sidebarOpen,
     setSidebarOpen,
@@ -102,6 +115,10 @@ export default function Sidebar({ onNoteClick, onBulkDelete, onDeleteNote, onMov
     setNoteTagMap,
     setTagsLoading,
     filterTagIds,
+    setServerSearchHitIds,
+    setTemplates,
+    setTemplatePickerOpen,
+    setWritingGoals,
   } = useNotesStore();
 
   const sidebarRef = useRef<HTMLDivElement>(null);
@@ -121,8 +138,12 @@ export default function Sidebar({ onNoteClick, onBulkDelete, onDeleteNote, onMov
   // Delete confirmation
   const [deleteNoteId, setDeleteNoteId] = useState<string | null>(null);
 
+  // Bulk import
+  const [importOpen, setImportOpen] = useState(false);
+  const [publishingNotebook, setPublishingNotebook] = useState<Notebook | null>(null);
+
   // Rail navigation: which panel the content column shows
-  const [railView, setRailView] = useState<"notes" | "notebooks" | "tags">("notes");
+  const [railView, setRailView] = useState<"notes" | "notebooks" | "tags" | "journal">("notes");
   // Filters live in a slide-up sheet, out of the list's way
   const [filterSheetOpen, setFilterSheetOpen] = useState(false);
 
@@ -151,12 +172,14 @@ export default function Sidebar({ onNoteClick, onBulkDelete, onDeleteNote, onMov
     }
   }, [sidebarOpen]);
 
-  // Load notebooks and tags when authenticated (once)
+  // Load notebooks, tags, templates and goals when authenticated (once)
   useEffect(() => {
     if (isAuthenticated && !hasLoadedNotebooks.current && !notebooksLoading) {
       hasLoadedNotebooks.current = true;
       loadNotebooks();
       loadTags();
+      loadTemplates();
+      loadWritingGoals();
     }
     if (!isAuthenticated) {
       hasLoadedNotebooks.current = false;
@@ -205,6 +228,28 @@ export default function Sidebar({ onNoteClick, onBulkDelete, onDeleteNote, onMov
     }
   };
 
+  const loadTemplates = async () => {
+    try {
+      const result = await getTemplates();
+      if (result.success && result.templates) {
+        setTemplates(result.templates);
+      }
+    } catch (error) {
+      console.error("Failed to load templates:", error);
+    }
+  };
+
+  const loadWritingGoals = async () => {
+    try {
+      const result = await getWritingGoals();
+      if (result.success && result.goals) {
+        setWritingGoals(result.goals);
+      }
+    } catch (error) {
+      console.error("Failed to load writing goals:", error);
+    }
+  };
+
   // Load note-tag assignments when supabase notes change
   const supabaseNoteIds = notes
     .filter((n) => n.source === "supabase")
@@ -297,6 +342,23 @@ export default function Sidebar({ onNoteClick, onBulkDelete, onDeleteNote, onMov
     [setSearchQuery]
   );
 
+  // Cloud note content is loaded lazily, so also ask Postgres which notes
+  // match; hits count as matches even before their content arrives
+  useEffect(() => {
+    setServerSearchHitIds([]);
+    if (!isAuthenticated || !searchQuery.trim()) return;
+
+    let cancelled = false;
+    searchNotes(searchQuery, { limit: 100 }).then((result) => {
+      if (!cancelled && result.success && result.results) {
+        setServerSearchHitIds(result.results.map((hit) => hit.id));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [searchQuery, isAuthenticated, setServerSearchHitIds]);
+
   // Cleanup debounce on unmount
   useEffect(() => {
     return () => {
@@ -544,6 +606,15 @@ export default function Sidebar({ onNoteClick, onBulkDelete, onDeleteNote, onMov
                 <IconTag size={20} />
               </RailButton>
             )}
+            {onOpenDailyNote && (
+              <RailButton
+                label="Journal"
+                active={railView === "journal"}
+                onClick={() => setRailView("journal")}
+              >
+                <IconCalendar size={20} />
+              </RailButton>
+            )}
             <div className="flex-1" />
             <RailButton label="Filters & sort" badge={activeFilterCount} onClick={() => setFilterSheetOpen(true)}>
               <IconAdjustmentsHorizontal size={20} />
@@ -551,6 +622,11 @@ export default function Sidebar({ onNoteClick, onBulkDelete, onDeleteNote, onMov
             <RailButton label="New note (Ctrl+J)" accent onClick={onNewNote}>
               <IconPlus size={20} />
             </RailButton>
+            {isAuthenticated && (
+              <RailButton label="New note from template" onClick={() => setTemplatePickerOpen(true)}>
+                <IconTemplate size={20} />
+              </RailButton>
+            )}
           </nav>
 
           {/* Content column */}
@@ -558,7 +634,13 @@ export default function Sidebar({ onNoteClick, onBulkDelete, onDeleteNote, onMov
             {/* View header */}
             <div className="flex items-center justify-between px-3 h-[52px] flex-none border-b border-[var(--color-border-secondary)]">
               <h2 className="text-sm font-semibold text-[var(--color-text-primary)] tracking-tight truncate">
-                {railView === "notebooks" ? "Notebooks" : railView === "tags" ? "Tags" : viewContextName}
+                {railView === "notebooks"
+                  ? "Notebooks"
+                  : railView === "tags"
+                    ? "Tags"
+                    : railView === "journal"
+                      ? "Journal"
+                      : viewContextName}
               </h2>
               {railView === "notes" && hasActiveFilters && (
                 <button
@@ -730,7 +812,7 @@ export default function Sidebar({ onNoteClick, onBulkDelete, onDeleteNote, onMov
                             return null;
                           })()}
                           <p className="text-[11px] text-[var(--color-text-tertiary)] truncate mt-0.5 leading-relaxed">
-                            {getPreview(note.content) || "Empty note"}
+                            {isLockedNote(note) ? "Encrypted" : getPreview(note.content) || "Empty note"}
                           </p>
                           <div className="flex items-center gap-1.5 mt-1">
                             {note.source === "supabase" ? (
@@ -738,6 +820,11 @@ export default function Sidebar({ onNoteClick, onBulkDelete, onDeleteNote, onMov
                             ) : (
                               <IconDeviceDesktop size={12} className="text-[var(--color-warning)] flex-shrink-0" />
                             )}
+                            {note.collaboratorRole && (
+                              <span title={`Shared with you (${note.collaboratorRole})`} className="inline-flex">
+                                <IconUsers size={12} className="text-[var(--color-accent)] flex-shrink-0" />
+                              </span>
+                            )}
                             <p className="text-[12px] text-[var(--color-text-tertiary)]">
                               {relativeTime(note.updatedAt)}
                             </p>
@@ -846,7 +933,7 @@ export default function Sidebar({ onNoteClick, onBulkDelete, onDeleteNote, onMov
                 <button
                   onClick={() => {
                     import("@/utils/export-notes").then(({ exportAsMarkdownZip }) => {
-                      exportAsMarkdownZip(notes);
+                      exportAsMarkdownZip(notes, { notebooks, tags, noteTagMap });
                     });
                   }}
                   className="hover:text-[var(--color-text-secondary)] transition-colors"
@@ -854,6 +941,27 @@ export default function Sidebar({ onNoteClick, onBulkDelete, onDeleteNote, onMov
                 >
                   Export
                 </button>
+                {isAuthenticated && (
+                  <>
+                    <span>·</span>
+                    <button
+                      onClick={() => setImportOpen(true)}
+                      className="hover:text-[var(--color-text-secondary)] transition-colors"
+                      title="Import notes from a vault, export or backup"
+                    >
+                      Import
+                    </button>
+                    <span>·</span>
+                    <button
+                      onClick={() => onOpenEncryption?.()}
+                      className="hover:text-[var(--color-text-secondary)] transition-colors flex items-center gap-0.5"
+                      title="Encrypted notes"
+                    >
+                      <IconLock size={10} />
+                      Encryption
+                    </button>
+                  </>
+                )}
               </div>
             </div>
           )}
@@ -866,6 +974,7 @@ export default function Sidebar({ onNoteClick, onBulkDelete, onDeleteNote, onMov
                 onNewNotebook={handleNewNotebook}
                 onEditNotebook={handleEditNotebook}
                 onDeleteNotebook={handleDeleteNotebookFromSwitcher}
+                onPublishNotebook={setPublishingNotebook}
                 onSelected={() => setRailView("notes")}
               />
             )}
@@ -878,6 +987,11 @@ export default function Sidebar({ onNoteClick, onBulkDelete, onDeleteNote, onMov
               </div>
             )}
 
+            {/* ===== JOURNAL VIEW ===== */}
+            {railView === "journal" && onOpenDailyNote && (
+              <JournalCalendar onOpenDay={onOpenDailyNote} />
+            )}
+
             {/* ===== FILTER SHEET (mobile) / MODAL (desktop) ===== */}
             <div
               className={`fixed inset-0 z-50 flex items-end md:items-center justify-center ${filterSheetOpen ? "" : "pointer-events-none"}`}
@@ -1017,6 +1131,17 @@ export default function Sidebar({ onNoteClick, onBulkDelete, onDeleteNote, onMov
         confirmText="Delete"
         destructive
       />
+
+      {isAuthenticated && (
+        <ImportModal open={importOpen} onClose={() => setImportOpen(false)} />
+      )}
+
+      {isAuthenticated && (
+        <PublishNotebookModal
+          notebook={publishingNotebook}
+          onClose={() => setPublishingNotebook(null)}
+        />
+      )}
     </>
   );
 }
@@ -0,0 +1,396 @@
+"use client";
+
+import React, { useState, useMemo, useCallback, useEffect } from "react";
+import {
+  IconTemplate,
+  IconFile,
+  IconPlus,
+  IconPencil,
+  IconTrash,
+  IconSearch,
+  IconDeviceFloppy,
+} from "@tabler/icons-react";
+import { Modal, ConfirmModal } from "@/components/ds/modal";
+import { Button } from "@/components/ds/button";
+import { Input, Textarea } from "@/components/ds/input";
+import { useToast } from "@/components/ui/toast";
+import { useNotesStore } from "@/stores/notes-store";
+import { createTemplate, updateTemplate, deleteTemplate } from "@/app/actions/templateActions";
+import { fillTemplate, getTemplatePrompts } from "@/utils/note-templates";
+import { htmlToMarkdown } from "@/utils/html-to-markdown";
+import type { NoteTemplate } from "@/types/template";
+
+interface TemplatePickerProps {
+  open: boolean;
+  onClose: () => void;
+  /** Creates a note from the filled-in template */
+  onCreateNote: (title: string, content: string) => void;
+}
+
+type TemplateDraft = Pick<NoteTemplate, "name" | "title" | "content"> & { id?: string };
+
+type PickerView =
+  | { kind: "list" }
+  | { kind: "fill"; template: NoteTemplate }
+  | { kind: "edit"; draft: TemplateDraft };
+
+const VARIABLE_HELP =
+  "{{date}}, {{time}}, {{weekday}} and {{title}} fill themselves in — dates take a format, e.g. {{date:YYYY-MM-DD}}. Anything else, like {{Attendees}}, is asked for when you create the note.";
+
+/** Title for a note created from `template` before the user edits it. */
+function defaultNoteTitle(template: NoteTemplate, answers: Record<string, string>): string {
+  return fillTemplate(template.title, { title: "", answers }).trim() || template.name;
+}
+
+export default function TemplatePicker({ open, onClose, onCreateNote }: TemplatePickerProps) {
+  const templates = useNotesStore((s) => s.templates);
+  const activeNoteId = useNotesStore((s) => s.activeNoteId);
+  const notes = useNotesStore((s) => s.notes);
+  const [view, setView] = useState<PickerView>({ kind: "list" });
+  const [filter, setFilter] = useState("");
+  const [confirmDelete, setConfirmDelete] = useState<NoteTemplate | null>(null);
+  const toast = useToast();
+
+  const activeNote = notes.find((n) => n.id === activeNoteId && !n.deletedAt);
+
+  useEffect(() => {
+    if (!open) {
+      setView({ kind: "list" });
+      setFilter("");
+    }
+  }, [open]);
+
+  const filtered = useMemo(() => {
+    const q = filter.trim().toLowerCase();
+    if (!q) return templates;
+    return templates.filter(
+      (t) => t.name.toLowerCase().includes(q) || t.content.toLowerCase().includes(q),
+    );
+  }, [templates, filter]);
+
+  const handleCreate = useCallback(
+    (title: string, content: string) => {
+      onCreateNote(title, content);
+      onClose();
+    },
+    [onCreateNote, onClose],
+  );
+
+  const handleChoose = useCallback(
+    (template: NoteTemplate) => {
+      if (getTemplatePrompts(template.title, template.content).length > 0) {
+        setView({ kind: "fill", template });
+        return;
+      }
+      const title = defaultNoteTitle(template, {});
+      handleCreate(title, fillTemplate(template.content, { title, answers: {} }));
+    },
+    [handleCreate],
+  );
+
+  const handleDelete = useCallback(async () => {
+    if (!confirmDelete) return;
+    const result = await deleteTemplate(confirmDelete.id);
+    if (result.success) {
+      useNotesStore.getState().removeTemplate(confirmDelete.id);
+    } else {
+      toast.showError(result.error || "Failed to delete template");
+    }
+    setConfirmDelete(null);
+  }, [confirmDelete, toast]);
+
+  const handleSaveActiveNote = useCallback(() => {
+    if (!activeNote) return;
+    const content =
+      activeNote.contentFormat === "markdown" ? activeNote.content : htmlToMarkdown(activeNote.content);
+    setView({
+      kind: "edit",
+      draft: { name: activeNote.title || "Untitled", title: "", content },
+    });
+  }, [activeNote]);
+
+  const title =
+    view.kind === "fill"
+      ? view.template.name
+      : view.kind === "edit"
+        ? view.draft.id ? "Edit template" : "New template"
+        : "New note from template";
+
+  return (
+    <>
+      <Modal open={open} onClose={onClose} title={title} size="lg">
+        {view.kind === "list" && (
+          <div className="space-y-3">
+            {templates.length > 5 && (
+              <div className="relative">
+                <IconSearch
+                  size={14}
+                  className="absolute left-3 top-1/2 -translate-y-1/2 text-[var(--color-text-tertiary)]"
+                />
+                <Input
+                  value={filter}
+                  onChange={(e) => setFilter(e.target.value)}
+                  placeholder="Filter templates..."
+                  className="pl-8"
+                />
+              </div>
+            )}
+
+            <ul className="flex flex-col gap-0.5 max-h-[50vh] overflow-y-auto -mx-2">
+              {!filter && (
+                <li>
+                  <button
+                    onClick={() => handleCreate("", "")}
+                    className="w-full flex items-center gap-2.5 px-2 py-2 rounded-[var(--radius-md)] text-left hover:bg-[var(--color-hover)] transition-colors"
+                  >
+                    <IconFile size={16} className="text-[var(--color-text-tertiary)] shrink-0" />
+                    <span className="text-sm text-[var(--color-text-primary)]">Blank note</span>
+                  </button>
+                </li>
+              )}
+              {filtered.map((template) => (
+                <li key={template.id} className="group flex items-center gap-1">
+                  <button
+                    onClick={() => handleChoose(template)}
+                    className="flex-1 min-w-0 flex items-center gap-2.5 px-2 py-2 rounded-[var(--radius-md)] text-left hover:bg-[var(--color-hover)] transition-colors"
+                  >
+                    <IconTemplate size={16} className="text-[var(--color-accent)] shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-sm text-[var(--color-text-primary)] truncate">{template.name}</p>
+                      {template.title && (
+                        <p className="text-[11px] text-[var(--color-text-tertiary)] truncate">
+                          {template.title}
+                        </p>
+                      )}
+                    </div>
+                  </button>
+                  <button
+                    onClick={() => setView({ kind: "edit", draft: template })}
+                    title="Edit template"
+                    className="p-1.5 text-[var(--color-text-tertiary)] hover:text-[var(--color-text-secondary)] hover:bg-[var(--color-hover)] rounded-[var(--radius-sm)] opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                  >
+                    <IconPencil size={14} />
+                  </button>
+                  <button
+                    onClick={() => setConfirmDelete(template)}
+                    title="Delete template"
+                    className="p-1.5 text-[var(--color-text-tertiary)] hover:text-[var(--color-danger)] hover:bg-[var(--color-hover)] rounded-[var(--radius-sm)] opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                  >
+                    <IconTrash size={14} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {templates.length === 0 && (
+              <p className="text-xs text-[var(--color-text-tertiary)]">
+                Templates you create appear here. Pattern detection can also save a note&apos;s
+                repeating structure as a template.
+              </p>
+            )}
+
+            <div className="flex flex-wrap justify-end gap-2 pt-2 border-t border-[var(--color-border-secondary)]">
+              {activeNote && (
+                <Button variant="ghost" size="sm" onClick={handleSaveActiveNote}>
+                  <IconDeviceFloppy size={14} />
+                  Save current note as template
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setView({ kind: "edit", draft: { name: "", title: "", content: "" } })}
+              >
+                <IconPlus size={14} />
+                New template
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {view.kind === "fill" && (
+          <TemplateFillForm
+            template={view.template}
+            submitLabel="Create note"
+            onSubmit={handleCreate}
+            onCancel={() => setView({ kind: "list" })}
+          />
+        )}
+
+        {view.kind === "edit" && (
+          <TemplateEditor
+            draft={view.draft}
+            onSaved={() => setView({ kind: "list" })}
+            onCancel={() => setView({ kind: "list" })}
+          />
+        )}
+      </Modal>
+
+      <ConfirmModal
+        open={!!confirmDelete}
+        onClose={() => setConfirmDelete(null)}
+        onConfirm={handleDelete}
+        title="Delete template"
+        message={`Delete "${confirmDelete?.name}"? Notes created from it are not affected.`}
+        confirmText="Delete"
+        destructive
+      />
+    </>
+  );
+}
+
+/**
+ * Asks for a template's custom prompts, then hands back the filled-in title
+ * and content. With `noteTitle` set the title is fixed (used when inserting a
+ * template into an existing note) and no title field is shown.
+ */
+export function TemplateFillForm({
+  template,
+  noteTitle,
+  submitLabel,
+  cancelLabel = "Back",
+  onSubmit,
+  onCancel,
+}: {
+  template: NoteTemplate;
+  noteTitle?: string;
+  submitLabel: string;
+  cancelLabel?: string;
+  onSubmit: (title: string, content: string) => void;
+  onCancel: () => void;
+}) {
+  const prompts = useMemo(
+    () => getTemplatePrompts(noteTitle === undefined ? template.title : "", template.content),
+    [template, noteTitle],
+  );
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [customTitle, setCustomTitle] = useState<string | null>(null);
+
+  const computedTitle = noteTitle ?? defaultNoteTitle(template, answers);
+  const title = customTitle ?? computedTitle;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(title, fillTemplate(template.content, { title, answers }));
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      {prompts.map((prompt, i) => (
+        <label key={prompt.label} className="block">
+          <span className="block mb-1 text-xs font-medium text-[var(--color-text-secondary)]">
+            {prompt.label}
+          </span>
+          <Input
+            autoFocus={i === 0}
+            value={answers[prompt.label] || ""}
+            placeholder={prompt.hint}
+            onChange={(e) => setAnswers((prev) => ({ ...prev, [prompt.label]: e.target.value }))}
+          />
+        </label>
+      ))}
+
+      {noteTitle === undefined && (
+        <label className="block">
+          <span className="block mb-1 text-xs font-medium text-[var(--color-text-secondary)]">
+            Note title
+          </span>
+          <Input value={title} onChange={(e) => setCustomTitle(e.target.value)} />
+        </label>
+      )}
+
+      <div className="flex justify-end gap-2 pt-1">
+        <Button type="button" variant="outline" size="md" onClick={onCancel}>
+          {cancelLabel}
+        </Button>
+        <Button type="submit" size="md">
+          {submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+function TemplateEditor({
+  draft,
+  onSaved,
+  onCancel,
+}: {
+  draft: TemplateDraft;
+  onSaved: () => void;
+  onCancel: () => void;
+}) {
+  const [name, setName] = useState(draft.name);
+  const [title, setTitle] = useState(draft.title);
+  const [content, setContent] = useState(draft.content);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const toast = useToast();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    const result = draft.id
+      ? await updateTemplate(draft.id, { name, title, content })
+      : await createTemplate({ name, title, content });
+
+    setSaving(false);
+    if (!result.success || !result.template) {
+      setError(result.error || "Failed to save template");
+      return;
+    }
+
+    const { addTemplate, updateTemplateInStore } = useNotesStore.getState();
+    if (draft.id) {
+      updateTemplateInStore(draft.id, result.template);
+    } else {
+      addTemplate(result.template);
+    }
+    toast.showSuccess(`Template "${result.template.name}" saved`);
+    onSaved();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <label className="block">
+        <span className="block mb-1 text-xs font-medium text-[var(--color-text-secondary)]">Name</span>
+        <Input autoFocus value={name} maxLength={80} onChange={(e) => setName(e.target.value)} />
+      </label>
+      <label className="block">
+        <span className="block mb-1 text-xs font-medium text-[var(--color-text-secondary)]">
+          Note title
+        </span>
+        <Input
+          value={title}
+          maxLength={200}
+          placeholder="e.g. Meeting — {{date}}"
+          onChange={(e) => setTitle(e.target.value)}
+        />
+      </label>
+      <label className="block">
+        <span className="block mb-1 text-xs font-medium text-[var(--color-text-secondary)]">
+          Content (markdown)
+        </span>
+        <Textarea
+          value={content}
+          rows={10}
+          className="font-mono text-xs"
+          onChange={(e) => setContent(e.target.value)}
+        />
+      </label>
+      <p className="text-[11px] text-[var(--color-text-tertiary)]">{VARIABLE_HELP}</p>
+      {error && <p className="text-xs text-[var(--color-danger)]">{error}</p>}
+
+      <div className="flex justify-end gap-2 pt-1">
+        <Button type="button" variant="outline" size="md" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button type="submit" size="md" loading={saving} disabled={!name.trim()}>
+          Save template
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -13,9 +13,13 @@ import {
   IconCheck,
   IconChevronUp,
   IconChevronDown,
+  IconTemplate,
 } from "@tabler/icons-react";
 import { useAIAnalysis, AIAnalysisResult } from "@/hooks/use-ai-analysis";
 import { CombinedNote } from "@/types/combined-notes";
+import { createTemplate } from "@/app/actions/templateActions";
+import { useNotesStore } from "@/stores/notes-store";
+import { patternToTemplate } from "@/utils/note-templates";
 
 interface AIAnalysisButtonProps {
   userId: string | null;
@@ -38,6 +42,7 @@ export default function AIAnalysisButton({
   const [showModal, setShowModal] = useState(false);
   const [patternResult, setPatternResult] = useState<AIAnalysisResult | null>(null);
   const [isReversing, setIsReversing] = useState(false);
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
   const [actionFeedback, setActionFeedback] = useState<string | null>(null);
 
   const {
@@ -52,6 +57,9 @@ export default function AIAnalysisButton({
     dailyLimit,
   } = useAIAnalysis(userId);
 
+  // Encrypted content must never be sent to the AI provider
+  const isEncrypted = !!note.isEncrypted;
+
   // Update pattern result when analysis completes
   useEffect(() => {
     if (result) {
@@ -71,6 +79,7 @@ export default function AIAnalysisButton({
   };
 
   const handleAnalyze = async () => {
+    if (isEncrypted) return;
     const analysisResult = await analyzeNote(note);
     if (analysisResult?.patternFound) {
       // Keep modal open briefly to show success, then close
@@ -110,6 +119,31 @@ export default function AIAnalysisButton({
     setTimeout(() => setActionFeedback(null), 2000);
   };
 
+  // Save the detected pattern as a reusable template; [Field] placeholders
+  // become prompts that are asked for when a note is created from it
+  const handleSaveAsTemplate = async (analysis: AIAnalysisResult | null = patternResult) => {
+    if (!userId || !analysis?.template) return;
+
+    setIsSavingTemplate(true);
+    try {
+      const result = await createTemplate({
+        name: analysis.patternName || `${note.title || "Untitled"} pattern`,
+        content: patternToTemplate(analysis.template, analysis.fields),
+      });
+
+      if (result.success && result.template) {
+        useNotesStore.getState().addTemplate(result.template);
+        setActionFeedback("Saved as template!");
+        setTimeout(() => setActionFeedback(null), 2000);
+      } else {
+        setActionFeedback(result.error || "Failed to save template");
+        setTimeout(() => setActionFeedback(null), 3000);
+      }
+    } finally {
+      setIsSavingTemplate(false);
+    }
+  };
+
   // Reverse order of entries
   const handleReverseOrder = async () => {
     if (!userId || !onReplaceContent || !patternResult) return;
@@ -161,11 +195,17 @@ export default function AIAnalysisButton({
       {/* Main AI Button */}
       <button
         onClick={handleOpenModal}
-        disabled={!userId}
+        disabled={!userId || isEncrypted}
         className={`${buttonBaseClass} min-w-10 ${
           isPrivate ? privateButtonClass : defaultButtonClass
-        } ${!userId ? "opacity-50 cursor-not-allowed" : ""}`}
-        title={userId ? "Detect patterns in this note" : "Sign in to use AI features"}
+        } ${!userId || isEncrypted ? "opacity-50 cursor-not-allowed" : ""}`}
+        title={
+          isEncrypted
+            ? "AI features aren't available for encrypted notes"
+            : userId
+              ? "Detect patterns in this note"
+              : "Sign in to use AI features"
+        }
       >
         <IconSparkles size={20} strokeWidth={2} />
         <span className="hidden sm:inline text-sm">
@@ -223,6 +263,27 @@ export default function AIAnalysisButton({
             <span className="hidden md:inline">Reverse</span>
           </button>
 
+          {/* Save as Template */}
+          {patternResult.template && (
+            <button
+              onClick={() => handleSaveAsTemplate()}
+              disabled={isSavingTemplate}
+              className={`${buttonBaseClass} text-sm px-3 ${
+                isPrivate
+                  ? "border-[var(--color-accent)] hover:bg-[var(--color-accent-hover)] hover:text-white text-[var(--color-accent)]"
+                  : "border-purple-500 hover:bg-purple-500 hover:text-white text-purple-600"
+              } disabled:opacity-50`}
+              title="Save detected pattern as template"
+            >
+              {isSavingTemplate ? (
+                <IconLoader size={16} className="animate-spin" />
+              ) : (
+                <IconTemplate size={16} />
+              )}
+              <span className="hidden md:inline">Template</span>
+            </button>
+          )}
+
           {/* Clear Pattern */}
           <button
             onClick={handleClearPattern}
@@ -292,7 +353,11 @@ export default function AIAnalysisButton({
                   canRetry={remaining > 0}
                 />
               ) : result ? (
-                <ResultsView result={result} />
+                <ResultsView
+                  result={result}
+                  onSaveAsTemplate={() => handleSaveAsTemplate(result)}
+                  isSavingTemplate={isSavingTemplate}
+                />
               ) : null}
             </div>
 
@@ -358,7 +423,7 @@ function PreAnalysisView({
         </li>
         <li className="flex items-start gap-2">
           <IconPlus size={16} className="text-purple-500 flex-shrink-0 mt-0.5" />
-          <span>Enables quick actions: repeat at top/bottom, reverse order</span>
+          <span>Enables quick actions: repeat at top/bottom, reverse order, save as template</span>
         </li>
       </ul>
 
@@ -425,7 +490,15 @@ function ErrorView({
 }
 
 // Results view (simplified - just shows info, actions are in toolbar)
-function ResultsView({ result }: { result: AIAnalysisResult }) {
+function ResultsView({
+  result,
+  onSaveAsTemplate,
+  isSavingTemplate,
+}: {
+  result: AIAnalysisResult;
+  onSaveAsTemplate: () => void;
+  isSavingTemplate: boolean;
+}) {
   const [showIndex, setShowIndex] = useState(false);
 
   if (!result.patternFound) {
@@ -506,6 +579,18 @@ function ResultsView({ result }: { result: AIAnalysisResult }) {
           <pre className="bg-[var(--color-bg-secondary)] border border-[var(--color-border-primary)] rounded-[var(--radius-lg)] p-2 text-xs text-[var(--color-text-secondary)] whitespace-pre-wrap overflow-x-auto max-h-24">
             {result.template}
           </pre>
+          <button
+            onClick={onSaveAsTemplate}
+            disabled={isSavingTemplate}
+            className="mt-2 w-full p-2 border border-purple-300 text-purple-700 rounded-[var(--radius-lg)] hover:bg-purple-50 transition-colors flex items-center justify-center gap-2 text-sm disabled:opacity-50"
+          >
+            {isSavingTemplate ? (
+              <IconLoader size={16} className="animate-spin" />
+            ) : (
+              <IconTemplate size={16} />
+            )}
+            Save detected pattern as template
+          </button>
         </div>
       )}
 
@@ -1,23 +1,48 @@
 "use client";
 
-import React, { useState, useEffect, useCallback } from "react";
-import { getVersions } from "@/app/actions/versionActions";
-import { IconHistory, IconX, IconArrowBackUp } from "@tabler/icons-react";
+import React, { useState, useEffect, useCallback, useMemo } from "react";
+import {
+  getVersions,
+  getVersion,
+  createCheckpoint,
+  setVersionLabel,
+} from "@/app/actions/versionActions";
+import { IconHistory, IconX, IconArrowBackUp, IconBookmark, IconBookmarkOff } from "@tabler/icons-react";
 import { ConfirmModal } from "@/components/ds/modal";
-
-interface Version {
-  id: string;
-  title: string;
-  content: string;
-  content_format: string;
-  created_at: string;
-}
+import { useToast } from "@/components/ui/toast";
+import { htmlToMarkdown } from "@/utils/html-to-markdown";
+import {
+  diffVersions,
+  getDiffStats,
+  revertHunks,
+  type VersionDiffHunk,
+} from "@/utils/text-diff";
+import { migrateLegacyVersions } from "@/utils/legacy-versions";
+import type { ContentFormat, NoteSource } from "@/types/combined-notes";
+import type {
+  NoteVersion as Version,
+  NoteVersionSummary,
+  VersionTarget,
+} from "@/types/note-versions";
 
 interface VersionHistoryPanelProps {
   noteId: string;
+  source: NoteSource;
+  /** Owner of Redis notes; Supabase notes use the signed-in user */
+  userId: string;
   open: boolean;
   onClose: () => void;
   onRestore: (content: string, title: string) => void;
+  currentContent: string;
+  currentContentFormat: ContentFormat;
+  currentTitle: string;
+}
+
+const CURRENT = "current";
+
+function toMarkdown(content: string, format: string): string {
+  if (!content) return "";
+  return format === "html" ? htmlToMarkdown(content) : content;
 }
 
 function relativeTime(dateStr: string): string {
@@ -32,27 +57,139 @@ function relativeTime(dateStr: string): string {
   return new Date(dateStr).toLocaleDateString("en-AU", { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
 }
 
-export default function VersionHistoryPanel({ noteId, open, onClose, onRestore }: VersionHistoryPanelProps) {
-  const [versions, setVersions] = useState<Version[]>([]);
+export default function VersionHistoryPanel({
+  noteId,
+  source,
+  userId,
+  open,
+  onClose,
+  onRestore,
+  currentContent,
+  currentContentFormat,
+  currentTitle,
+}: VersionHistoryPanelProps) {
+  const [versions, setVersions] = useState<NoteVersionSummary[]>([]);
+  // Full versions, fetched as they're previewed or compared
+  const [contents, setContents] = useState<Record<string, Version>>({});
   const [loading, setLoading] = useState(false);
   const [previewId, setPreviewId] = useState<string | null>(null);
   const [confirmRestore, setConfirmRestore] = useState<Version | null>(null);
+  const [compareId, setCompareId] = useState<string>(CURRENT);
+  const [viewMode, setViewMode] = useState<"changes" | "full">("changes");
+  const [selectedHunks, setSelectedHunks] = useState<Set<number>>(new Set());
+  const [confirmPartial, setConfirmPartial] = useState(false);
+  // null = closed, otherwise the version being named ("" for a new checkpoint)
+  const [namingId, setNamingId] = useState<string | null>(null);
+  const [labelDraft, setLabelDraft] = useState("");
+  const [savingLabel, setSavingLabel] = useState(false);
+  const toast = useToast();
+
+  const target = useMemo<VersionTarget>(() => ({ noteId, source, userId }), [noteId, source, userId]);
 
   const loadVersions = useCallback(async () => {
     setLoading(true);
     try {
-      const result = await getVersions(noteId);
+      await migrateLegacyVersions(target);
+      const result = await getVersions(target);
       if (result.success) setVersions(result.versions);
     } finally {
       setLoading(false);
     }
-  }, [noteId]);
+  }, [target]);
 
   useEffect(() => {
     if (open) loadVersions();
   }, [open, loadVersions]);
 
   const previewVersion = previewId ? versions.find((v) => v.id === previewId) : null;
+  const compareVersion = compareId !== CURRENT ? versions.find((v) => v.id === compareId) : null;
+  const comparingCurrent = !compareVersion;
+  const previewFull = previewId ? contents[previewId] : undefined;
+  const compareFull = compareVersion ? contents[compareVersion.id] : undefined;
+  const contentLoaded = !!previewFull && (comparingCurrent || !!compareFull);
+
+  useEffect(() => {
+    if (!open) setContents({});
+  }, [open]);
+
+  useEffect(() => {
+    const missing = [previewId, compareId !== CURRENT ? compareId : null].filter(
+      (id): id is string => !!id && !contents[id],
+    );
+    for (const id of missing) {
+      getVersion(target, id).then((result) => {
+        if (result.success && result.version) {
+          const version = result.version;
+          setContents((prev) => ({ ...prev, [version.id]: version }));
+        } else {
+          toast.showError(result.error || "Failed to load version");
+        }
+      });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [previewId, compareId, target]);
+
+  useEffect(() => {
+    setSelectedHunks(new Set());
+  }, [previewId, compareId]);
+
+  // Older side first so insertions read as "what changed since"
+  const hunks = useMemo<VersionDiffHunk[]>(() => {
+    if (!previewFull) return [];
+    const previewMd = toMarkdown(previewFull.content, previewFull.content_format);
+    if (comparingCurrent) {
+      return diffVersions(previewMd, toMarkdown(currentContent, currentContentFormat));
+    }
+    if (!compareFull) return [];
+    const compareMd = toMarkdown(compareFull.content, compareFull.content_format);
+    return new Date(compareFull.created_at) < new Date(previewFull.created_at)
+      ? diffVersions(compareMd, previewMd)
+      : diffVersions(previewMd, compareMd);
+  }, [previewFull, compareFull, comparingCurrent, currentContent, currentContentFormat]);
+
+  const stats = useMemo(() => getDiffStats(hunks), [hunks]);
+
+  const startNaming = (id: string, label: string | null) => {
+    setNamingId(id);
+    setLabelDraft(label || "");
+  };
+
+  const submitLabel = async () => {
+    if (namingId === null || !labelDraft.trim()) return;
+    setSavingLabel(true);
+    try {
+      const result =
+        namingId === ""
+          ? await createCheckpoint(target, labelDraft, currentTitle, currentContent, currentContentFormat)
+          : await setVersionLabel(target, namingId, labelDraft);
+      if (!result.success) {
+        toast.showError(result.error || "Failed to save checkpoint");
+        return;
+      }
+      setNamingId(null);
+      await loadVersions();
+    } finally {
+      setSavingLabel(false);
+    }
+  };
+
+  const removeLabel = async (version: NoteVersionSummary) => {
+    const result = await setVersionLabel(target, version.id, "");
+    if (!result.success) {
+      toast.showError(result.error || "Failed to update version");
+      return;
+    }
+    await loadVersions();
+  };
+
+  const toggleHunk = (index: number) => {
+    setSelectedHunks((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
 
   if (!open) return null;
 
@@ -78,40 +215,197 @@ export default function VersionHistoryPanel({ noteId, open, onClose, onRestore }
             <>
               {/* Preview */}
               <div className="px-4 py-2 border-b border-[var(--color-border-secondary)] flex items-center justify-between">
-                <div>
-                  <p className="text-xs font-medium text-[var(--color-text-primary)]">{previewVersion.title}</p>
+                <div className="min-w-0">
+                  {previewVersion.is_checkpoint && previewVersion.label && (
+                    <CheckpointBadge label={previewVersion.label} />
+                  )}
+                  <p className="text-xs font-medium text-[var(--color-text-primary)] truncate">{previewVersion.title}</p>
                   <p className="text-[10px] text-[var(--color-text-tertiary)]">{relativeTime(previewVersion.created_at)}</p>
                 </div>
-                <div className="flex items-center gap-1">
+                <div className="flex items-center gap-1 shrink-0">
+                  {previewVersion.is_checkpoint ? (
+                    <button
+                      onClick={() => removeLabel(previewVersion)}
+                      title="Remove checkpoint name"
+                      className="p-1 text-[var(--color-text-tertiary)] hover:text-[var(--color-text-secondary)] hover:bg-[var(--color-hover)] rounded-[var(--radius-sm)] transition-colors"
+                    >
+                      <IconBookmarkOff size={14} />
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => startNaming(previewVersion.id, previewVersion.label)}
+                      title="Name this version"
+                      className="p-1 text-[var(--color-text-tertiary)] hover:text-[var(--color-text-secondary)] hover:bg-[var(--color-hover)] rounded-[var(--radius-sm)] transition-colors"
+                    >
+                      <IconBookmark size={14} />
+                    </button>
+                  )}
                   <button
-                    onClick={() => setConfirmRestore(previewVersion)}
-                    className="flex items-center gap-1 px-2 py-1 text-[10px] font-medium bg-[var(--color-accent)] text-[var(--color-text-on-accent)] rounded-[var(--radius-sm)] hover:bg-[var(--color-accent-hover)] transition-colors"
+                    onClick={() => previewFull && setConfirmRestore(previewFull)}
+                    disabled={!previewFull}
+                    className="flex items-center gap-1 px-2 py-1 text-[10px] font-medium bg-[var(--color-accent)] text-[var(--color-text-on-accent)] rounded-[var(--radius-sm)] hover:bg-[var(--color-accent-hover)] disabled:opacity-50 transition-colors"
                   >
                     <IconArrowBackUp size={12} />
                     Restore
                   </button>
                   <button
-                    onClick={() => setPreviewId(null)}
+                    onClick={() => {
+                      setPreviewId(null);
+                      setNamingId(null);
+                    }}
                     className="px-2 py-1 text-[10px] text-[var(--color-text-secondary)] hover:bg-[var(--color-hover)] rounded-[var(--radius-sm)] transition-colors"
                   >
                     Back
                   </button>
                 </div>
               </div>
-              <div className="flex-1 overflow-y-auto scrollbar-thin p-4">
-                <div className="milkdown text-sm whitespace-pre-wrap text-[var(--color-text-secondary)]">
-                  {previewVersion.content}
+              {namingId === previewVersion.id && (
+                <CheckpointNameForm
+                  value={labelDraft}
+                  onChange={setLabelDraft}
+                  onSubmit={submitLabel}
+                  onCancel={() => setNamingId(null)}
+                  saving={savingLabel}
+                />
+              )}
+              {/* Compare controls */}
+              <div className="px-4 py-2 border-b border-[var(--color-border-secondary)] flex items-center justify-between gap-2">
+                <div className="flex items-center gap-1.5 min-w-0">
+                  <label className="text-[10px] text-[var(--color-text-tertiary)] shrink-0">Compare with</label>
+                  <select
+                    value={compareId}
+                    onChange={(e) => setCompareId(e.target.value)}
+                    className="min-w-0 h-6 px-1.5 text-[10px] bg-[var(--color-bg-tertiary)] border border-[var(--color-border-primary)] rounded-[var(--radius-sm)] text-[var(--color-text-secondary)] focus:border-[var(--color-border-focus)] focus:outline-none"
+                  >
+                    <option value={CURRENT}>Current note</option>
+                    {versions
+                      .filter((v) => v.id !== previewVersion.id)
+                      .map((v) => (
+                        <option key={v.id} value={v.id}>
+                          {relativeTime(v.created_at)} · {v.label || v.title}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+                <div className="flex items-center shrink-0 rounded-[var(--radius-sm)] bg-[var(--color-bg-tertiary)] p-0.5">
+                  {(["changes", "full"] as const).map((mode) => (
+                    <button
+                      key={mode}
+                      onClick={() => setViewMode(mode)}
+                      className={`px-2 py-0.5 text-[10px] rounded-[var(--radius-sm)] transition-colors ${
+                        viewMode === mode
+                          ? "bg-[var(--color-bg-elevated)] text-[var(--color-text-primary)] shadow-xs"
+                          : "text-[var(--color-text-tertiary)] hover:text-[var(--color-text-secondary)]"
+                      }`}
+                    >
+                      {mode === "changes" ? "Changes" : "Full text"}
+                    </button>
+                  ))}
                 </div>
               </div>
+
+              <div className="flex-1 overflow-y-auto scrollbar-thin p-4">
+                {!contentLoaded ? (
+                  <p className="py-8 text-center text-sm text-[var(--color-text-tertiary)]">Loading...</p>
+                ) : viewMode === "full" ? (
+                  <div className="milkdown text-sm whitespace-pre-wrap text-[var(--color-text-secondary)]">
+                    {toMarkdown(previewFull!.content, previewFull!.content_format)}
+                  </div>
+                ) : stats.hunks === 0 ? (
+                  <p className="py-8 text-center text-sm text-[var(--color-text-tertiary)]">No differences</p>
+                ) : (
+                  <div className="space-y-2">
+                    <p className="text-[10px] text-[var(--color-text-tertiary)]">
+                      <span className="text-[var(--color-success)]">+{stats.wordsAdded}</span>{" "}
+                      <span className="text-[var(--color-danger)]">−{stats.wordsRemoved}</span> words ·{" "}
+                      {stats.hunks} change{stats.hunks === 1 ? "" : "s"}
+                      {comparingCurrent && " · tick changes to undo them in the current note"}
+                    </p>
+                    {hunks.map((hunk, i) =>
+                      hunk.type === "equal" ? (
+                        <UnchangedBlocks key={i} blocks={hunk.blocks} />
+                      ) : (
+                        <div
+                          key={i}
+                          className={`flex gap-2 p-2 rounded-[var(--radius-md)] border transition-colors ${
+                            selectedHunks.has(i)
+                              ? "border-[var(--color-accent)] bg-[var(--color-accent-subtle)]"
+                              : "border-[var(--color-border-secondary)]"
+                          }`}
+                        >
+                          {comparingCurrent && (
+                            <input
+                              type="checkbox"
+                              checked={selectedHunks.has(i)}
+                              onChange={() => toggleHunk(i)}
+                              aria-label="Restore this change"
+                              className="mt-0.5 shrink-0 accent-[var(--color-accent)]"
+                            />
+                          )}
+                          <p className="text-xs leading-relaxed whitespace-pre-wrap font-mono text-[var(--color-text-secondary)] min-w-0">
+                            {hunk.words.map((part, j) =>
+                              part.type === "insert" ? (
+                                <ins key={j} className="no-underline bg-[var(--color-success)]/15 text-[var(--color-text-primary)]">
+                                  {part.text}
+                                </ins>
+                              ) : part.type === "delete" ? (
+                                <del key={j} className="bg-[var(--color-danger)]/15 text-[var(--color-text-tertiary)]">
+                                  {part.text}
+                                </del>
+                              ) : (
+                                <span key={j}>{part.text}</span>
+                              ),
+                            )}
+                          </p>
+                        </div>
+                      ),
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {comparingCurrent && selectedHunks.size > 0 && (
+                <div className="px-4 py-2 border-t border-[var(--color-border-secondary)] flex items-center justify-between">
+                  <span className="text-[10px] text-[var(--color-text-tertiary)]">
+                    {selectedHunks.size} change{selectedHunks.size === 1 ? "" : "s"} selected
+                  </span>
+                  <button
+                    onClick={() => setConfirmPartial(true)}
+                    className="flex items-center gap-1 px-2 py-1 text-[10px] font-medium bg-[var(--color-accent)] text-[var(--color-text-on-accent)] rounded-[var(--radius-sm)] hover:bg-[var(--color-accent-hover)] transition-colors"
+                  >
+                    <IconArrowBackUp size={12} />
+                    Restore selected
+                  </button>
+                </div>
+              )}
             </>
           ) : (
             <div className="flex-1 overflow-y-auto scrollbar-thin">
+              {namingId === "" ? (
+                <CheckpointNameForm
+                  value={labelDraft}
+                  onChange={setLabelDraft}
+                  onSubmit={submitLabel}
+                  onCancel={() => setNamingId(null)}
+                  saving={savingLabel}
+                />
+              ) : (
+                <div className="px-4 py-2 border-b border-[var(--color-border-secondary)]">
+                  <button
+                    onClick={() => startNaming("", null)}
+                    className="flex items-center gap-1 px-2 py-1 text-[10px] font-medium text-[var(--color-text-secondary)] hover:bg-[var(--color-hover)] rounded-[var(--radius-sm)] transition-colors"
+                  >
+                    <IconBookmark size={12} />
+                    Save checkpoint
+                  </button>
+                </div>
+              )}
               {loading ? (
                 <div className="py-8 text-center text-sm text-[var(--color-text-tertiary)]">Loading...</div>
               ) : versions.length === 0 ? (
                 <div className="py-8 text-center">
                   <p className="text-sm text-[var(--color-text-tertiary)]">No versions yet</p>
-                  <p className="text-[10px] text-[var(--color-text-tertiary)] mt-1">Versions are saved automatically as you edit</p>
+                  <p className="text-[10px] text-[var(--color-text-tertiary)] mt-1">Versions are saved automatically as you edit. Named checkpoints are kept forever.</p>
                 </div>
               ) : (
                 <ul>
@@ -121,11 +415,11 @@ export default function VersionHistoryPanel({ noteId, open, onClose, onRestore }
                         onClick={() => setPreviewId(version.id)}
                         className="w-full text-left px-4 py-3 border-b border-[var(--color-border-secondary)] hover:bg-[var(--color-hover)] transition-colors"
                       >
+                        {version.is_checkpoint && version.label && (
+                          <CheckpointBadge label={version.label} />
+                        )}
                         <p className="text-[13px] font-medium text-[var(--color-text-primary)] truncate">{version.title}</p>
                         <p className="text-[10px] text-[var(--color-text-tertiary)] mt-0.5">{relativeTime(version.created_at)}</p>
-                        <p className="text-[10px] text-[var(--color-text-tertiary)] truncate mt-1">
-                          {version.content?.slice(0, 100)}
-                        </p>
                       </button>
                     </li>
                   ))}
@@ -140,7 +434,7 @@ export default function VersionHistoryPanel({ noteId, open, onClose, onRestore }
           onClose={() => setConfirmRestore(null)}
           onConfirm={() => {
             if (confirmRestore) {
-              onRestore(confirmRestore.content, confirmRestore.title);
+              onRestore(toMarkdown(confirmRestore.content, confirmRestore.content_format), confirmRestore.title);
               setConfirmRestore(null);
               onClose();
             }
@@ -149,7 +443,100 @@ export default function VersionHistoryPanel({ noteId, open, onClose, onRestore }
           message="This will replace your current note content with this version. Continue?"
           confirmText="Restore"
         />
+
+        <ConfirmModal
+          open={confirmPartial}
+          onClose={() => setConfirmPartial(false)}
+          onConfirm={() => {
+            onRestore(revertHunks(hunks, selectedHunks), currentTitle);
+            setConfirmPartial(false);
+            onClose();
+          }}
+          title="Restore selected changes"
+          message={`Undo ${selectedHunks.size} change${selectedHunks.size === 1 ? "" : "s"} in the current note? Everything else you've written since this version is kept.`}
+          confirmText="Restore"
+        />
       </div>
     </div>
   );
 }
+
+function CheckpointBadge({ label }: { label: string }) {
+  return (
+    <span className="inline-flex items-center gap-1 max-w-full mb-0.5 text-[10px] font-medium text-[var(--color-accent)]">
+      <IconBookmark size={11} className="shrink-0" />
+      <span className="truncate">{label}</span>
+    </span>
+  );
+}
+
+function CheckpointNameForm({
+  value,
+  onChange,
+  onSubmit,
+  onCancel,
+  saving,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  onCancel: () => void;
+  saving: boolean;
+}) {
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit();
+      }}
+      className="px-4 py-2 border-b border-[var(--color-border-secondary)] flex items-center gap-1.5"
+    >
+      <input
+        autoFocus
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") onCancel();
+        }}
+        maxLength={100}
+        placeholder="e.g. Draft sent to editor"
+        className="flex-1 min-w-0 h-7 px-2 text-xs bg-[var(--color-bg-tertiary)] border border-[var(--color-border-primary)] rounded-[var(--radius-sm)] text-[var(--color-text-primary)] placeholder:text-[var(--color-text-tertiary)] focus:border-[var(--color-border-focus)] focus:outline-none"
+      />
+      <button
+        type="submit"
+        disabled={saving || !value.trim()}
+        className="px-2 py-1 text-[10px] font-medium bg-[var(--color-accent)] text-[var(--color-text-on-accent)] rounded-[var(--radius-sm)] hover:bg-[var(--color-accent-hover)] disabled:opacity-50 transition-colors"
+      >
+        {saving ? "Saving..." : "Save"}
+      </button>
+      <button
+        type="button"
+        onClick={onCancel}
+        className="px-2 py-1 text-[10px] text-[var(--color-text-secondary)] hover:bg-[var(--color-hover)] rounded-[var(--radius-sm)] transition-colors"
+      >
+        Cancel
+      </button>
+    </form>
+  );
+}
+
+function UnchangedBlocks({ blocks }: { blocks: string[] }) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (expanded || blocks.length === 1) {
+    return (
+      <p className="px-2 text-xs leading-relaxed whitespace-pre-wrap font-mono text-[var(--color-text-tertiary)]">
+        {blocks.join("\n\n")}
+      </p>
+    );
+  }
+
+  return (
+    <button
+      onClick={() => setExpanded(true)}
+      className="w-full px-2 py-1 text-left text-[10px] text-[var(--color-text-tertiary)] hover:bg-[var(--color-hover)] rounded-[var(--radius-sm)] transition-colors"
+    >
+      {blocks.length} unchanged paragraphs
+    </button>
+  );
+}
@@ -0,0 +1,321 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { IconAlertCircle, IconArrowLeft, IconDownload } from "@tabler/icons-react";
+import {
+  getWritingActivity,
+  getWritingSessions,
+  getWritingStreak,
+} from "@/app/actions/writingSessionActions";
+import WritingGoalsPanel from "@/components/writing-goals-panel";
+import {
+  summarizeWritingActivity,
+  writingActivityToCsv,
+  WritingActivityEntry,
+  WritingActivityLabels,
+  WritingBreakdownItem,
+  WritingDay,
+} from "@/types/writing-analytics";
+
+const HEATMAP_WEEKS = 53;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const HEAT_LEVELS = [
+  "bg-[var(--color-bg-tertiary)]",
+  "bg-[var(--color-accent)]/25",
+  "bg-[var(--color-accent)]/50",
+  "bg-[var(--color-accent)]/75",
+  "bg-[var(--color-accent)]",
+];
+
+const toDateKey = (date: Date) => date.toISOString().split("T")[0];
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 1) return "<1m";
+  if (minutes < 60) return `${minutes}m`;
+  const rest = minutes % 60;
+  return rest > 0 ? `${Math.floor(minutes / 60)}h ${rest}m` : `${Math.floor(minutes / 60)}h`;
+};
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+
+/** Columns of seven UTC days, Sunday first, ending with the current week. */
+function buildHeatmap(days: WritingDay[], now: Date = new Date()) {
+  const words = new Map(days.map((day) => [day.date, day.words]));
+  const today = new Date(`${toDateKey(now)}T00:00:00Z`);
+  const start = new Date(today.getTime() - ((HEATMAP_WEEKS - 1) * 7 + today.getUTCDay()) * DAY_MS);
+
+  const weeks: { date: string; words: number; future: boolean }[][] = [];
+  for (let w = 0; w < HEATMAP_WEEKS; w++) {
+    const week = [];
+    for (let d = 0; d < 7; d++) {
+      const date = new Date(start.getTime() + (w * 7 + d) * DAY_MS);
+      const key = toDateKey(date);
+      week.push({ date: key, words: words.get(key) || 0, future: date > today });
+    }
+    weeks.push(week);
+  }
+  return weeks;
+}
+
+/**
+ * Writing stats for the last year: goals and their pace, a daily heatmap,
+ * when the user writes, how long sessions last, and where the words went,
+ * with a CSV of the underlying entries.
+ */
+export default function WritingDashboard() {
+  const [days, setDays] = useState<WritingDay[]>([]);
+  const [entries, setEntries] = useState<WritingActivityEntry[]>([]);
+  const [labels, setLabels] = useState<WritingActivityLabels>({ notes: {}, notebooks: {} });
+  const [streak, setStreak] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const from = new Date(Date.now() - HEATMAP_WEEKS * 7 * DAY_MS);
+
+    Promise.all([
+      getWritingSessions({ from: toDateKey(from) }),
+      getWritingActivity(from.toISOString()),
+      getWritingStreak(),
+    ]).then(([sessionsResult, activityResult, streakResult]) => {
+      if (cancelled) return;
+      if (!sessionsResult.success || !activityResult.success) {
+        setError(sessionsResult.error || activityResult.error || "Failed to load writing stats");
+      } else {
+        setDays(
+          (sessionsResult.sessions || []).map((session) => ({
+            date: session.date,
+            words: session.wordsWritten,
+          })),
+        );
+        setEntries(activityResult.entries || []);
+        setLabels(activityResult.labels || { notes: {}, notebooks: {} });
+        setStreak(streakResult.streak || 0);
+      }
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const summary = useMemo(() => summarizeWritingActivity(days, entries, labels), [days, entries, labels]);
+  const heatmap = useMemo(() => buildHeatmap(days), [days]);
+  const maxDayWords = Math.max(1, ...days.map((day) => day.words));
+
+  const handleExport = () => {
+    const blob = new Blob([writingActivityToCsv(entries, labels)], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `writing-activity-${toDateKey(new Date())}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Link
+            href="/"
+            className="inline-flex items-center gap-1 mb-2 text-xs text-[var(--color-text-tertiary)] hover:text-[var(--color-text-secondary)] transition-colors"
+          >
+            <IconArrowLeft size={12} />
+            Back to notes
+          </Link>
+          <h1 className="text-lg font-semibold text-[var(--color-text-primary)]">Writing stats</h1>
+          <p className="text-xs text-[var(--color-text-tertiary)]">The last 12 months</p>
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={isLoading || entries.length === 0}
+          className="flex items-center gap-1.5 px-2.5 py-1 text-xs text-[var(--color-text-secondary)] border border-[var(--color-border-primary)] rounded-[var(--radius-md)] hover:text-[var(--color-accent)] hover:border-[var(--color-accent)] transition-colors disabled:opacity-50"
+        >
+          <IconDownload size={14} />
+          CSV
+        </button>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-[var(--color-danger)]">
+          <IconAlertCircle className="inline-block mr-1.5" size={16} />
+          {error}
+        </p>
+      ) : isLoading ? (
+        <div className="h-40 flex items-center justify-center text-sm text-[var(--color-text-tertiary)] animate-pulse">
+          Loading writing stats...
+        </div>
+      ) : (
+        <>
+          {/* Headline figures */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {[
+              { label: "Words written", value: summary.totalWords.toLocaleString() },
+              { label: "Days written", value: summary.activeDays.toLocaleString() },
+              { label: "Current streak", value: `${streak} day${streak !== 1 ? "s" : ""}` },
+              {
+                label: "Avg. session",
+                value: summary.sessions ? formatDuration(summary.avgSessionSeconds) : "—",
+              },
+            ].map((stat) => (
+              <div
+                key={stat.label}
+                className="px-3 py-2 bg-[var(--color-bg-secondary)] rounded-[var(--radius-md)]"
+              >
+                <p className="text-[11px] text-[var(--color-text-tertiary)]">{stat.label}</p>
+                <p className="text-sm font-semibold text-[var(--color-text-primary)]">{stat.value}</p>
+              </div>
+            ))}
+          </div>
+
+          <section>
+            <SectionTitle>Goals</SectionTitle>
+            <WritingGoalsPanel noteLabels={labels.notes} />
+          </section>
+
+          {/* Yearly heatmap */}
+          <section>
+            <SectionTitle>Daily words</SectionTitle>
+            <div className="overflow-x-auto pb-1">
+              <div className="inline-flex gap-[3px]" role="img" aria-label="Words written per day over the last year">
+                <div className="flex flex-col gap-[3px] mr-1 text-[9px] leading-[11px] text-[var(--color-text-tertiary)]">
+                  {WEEKDAYS.map((day, i) => (
+                    <span key={day} className="h-[11px]">
+                      {i % 2 === 1 ? day : ""}
+                    </span>
+                  ))}
+                </div>
+                {heatmap.map((week) => (
+                  <div key={week[0].date} className="flex flex-col gap-[3px]">
+                    {week.map((day) => (
+                      <div
+                        key={day.date}
+                        title={day.future ? undefined : `${formatDay(day.date)}: ${day.words.toLocaleString()} words`}
+                        className={`w-[11px] h-[11px] rounded-[2px] ${
+                          day.future
+                            ? "opacity-0"
+                            : HEAT_LEVELS[day.words ? Math.min(4, Math.ceil((day.words / maxDayWords) * 4)) : 0]
+                        }`}
+                      />
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center justify-end gap-1 mt-1 text-[10px] text-[var(--color-text-tertiary)]">
+              Less
+              {HEAT_LEVELS.map((level) => (
+                <span key={level} className={`inline-block w-[9px] h-[9px] rounded-[2px] ${level}`} />
+              ))}
+              More
+            </div>
+          </section>
+
+          {entries.length === 0 ? (
+            <p className="text-sm text-[var(--color-text-tertiary)]">
+              Once you write in your notes, you&apos;ll see when you write best and which notes and
+              notebooks you spend your words on.
+            </p>
+          ) : (
+            <>
+              <div className="grid md:grid-cols-2 gap-8">
+                <section>
+                  <SectionTitle>By day of the week</SectionTitle>
+                  <BarChart values={summary.wordsByWeekday} labels={WEEKDAYS} />
+                </section>
+                <section>
+                  <SectionTitle>By hour of the day</SectionTitle>
+                  <BarChart
+                    values={summary.wordsByHour}
+                    labels={summary.wordsByHour.map((_, hour) => (hour % 6 === 0 ? `${hour}:00` : ""))}
+                  />
+                </section>
+              </div>
+
+              <p className="text-xs text-[var(--color-text-tertiary)]">
+                {summary.sessions.toLocaleString()} writing session{summary.sessions !== 1 ? "s" : ""},
+                averaging {formatDuration(summary.avgSessionSeconds)} of writing each.
+              </p>
+
+              <div className="grid md:grid-cols-2 gap-8">
+                <section>
+                  <SectionTitle>By notebook</SectionTitle>
+                  <Breakdown items={summary.byNotebook} />
+                </section>
+                <section>
+                  <SectionTitle>By note</SectionTitle>
+                  <Breakdown items={summary.byNote.slice(0, 10)} />
+                </section>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function SectionTitle({ children }: { children: React.ReactNode }) {
+  return <h2 className="text-sm font-medium text-[var(--color-text-primary)] mb-2">{children}</h2>;
+}
+
+function BarChart({ values, labels }: { values: number[]; labels: string[] }) {
+  const max = Math.max(1, ...values);
+  return (
+    <div>
+      <div className="flex items-end gap-px h-28">
+        {values.map((value, i) => (
+          <div key={i} className="group flex-1 h-full flex items-end" title={`${value.toLocaleString()} words`}>
+            <div
+              className="w-full rounded-t-sm bg-[var(--color-accent)]/60 group-hover:bg-[var(--color-accent)] transition-colors"
+              style={{ height: `${(value / max) * 100}%` }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-px mt-1 text-[10px] text-[var(--color-text-tertiary)]">
+        {labels.map((label, i) => (
+          <span key={i} className="flex-1 whitespace-nowrap">
+            {label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function Breakdown({ items }: { items: WritingBreakdownItem[] }) {
+  const max = Math.max(1, ...items.map((item) => item.words));
+  return (
+    <ul className="space-y-1">
+      {items.map((item) => (
+        <li
+          key={item.id ?? "none"}
+          className="relative flex items-center justify-between gap-2 text-sm px-3 py-1.5 rounded-[var(--radius-md)] overflow-hidden"
+          title={`${formatDuration(item.activeSeconds)} writing`}
+        >
+          <span
+            className="absolute inset-y-0 left-0 bg-[var(--color-bg-secondary)]"
+            style={{ width: `${(item.words / max) * 100}%` }}
+          />
+          <span className="relative text-[var(--color-text-primary)] truncate">{item.label}</span>
+          <span className="relative text-[var(--color-text-secondary)] tabular-nums">
+            {item.words.toLocaleString()}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,338 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { IconPlus, IconTrash } from "@tabler/icons-react";
+import { Badge } from "@/components/ds/badge";
+import { useToast } from "@/components/ui/toast";
+import { useNotesStore } from "@/stores/notes-store";
+import { getNotebooks } from "@/app/actions/notebookActions";
+import {
+  createWritingGoal,
+  deleteWritingGoal,
+  getWritingGoals,
+} from "@/app/actions/writingGoalActions";
+import {
+  addDays,
+  GOAL_CADENCES,
+  GOAL_STATUS_LABELS,
+  GoalCadence,
+  GoalScope,
+  GoalStatus,
+  MAX_WRITING_GOALS,
+  toUTCDateKey,
+  WritingGoalStatus,
+} from "@/types/writing-goals";
+
+const STATUS_VARIANTS: Record<GoalStatus, "success" | "default" | "warning" | "danger" | "secondary"> = {
+  met: "success",
+  ahead: "success",
+  "on-track": "default",
+  behind: "warning",
+  missed: "danger",
+  "in-progress": "secondary",
+};
+
+const inputClass =
+  "h-8 px-2 text-xs bg-[var(--color-bg-primary)] border border-[var(--color-border-primary)] rounded-[var(--radius-md)] text-[var(--color-text-secondary)] focus:border-[var(--color-border-focus)] focus:outline-none";
+
+/** Reload goal progress into the store, e.g. after adding or removing a goal. */
+export async function refreshWritingGoals() {
+  const result = await getWritingGoals();
+  if (result.success && result.goals) {
+    useNotesStore.getState().setWritingGoals(result.goals);
+  }
+  return result;
+}
+
+export function GoalStatusBadge({ goal }: { goal: WritingGoalStatus }) {
+  return (
+    <Badge variant={STATUS_VARIANTS[goal.progress.status]} size="sm">
+      {GOAL_STATUS_LABELS[goal.progress.status]}
+    </Badge>
+  );
+}
+
+/** One line on where a goal stands, e.g. "1,667 words/day to finish · 2 days ahead". */
+export function describeGoalPace(goal: WritingGoalStatus): string {
+  const { progress } = goal;
+  if (progress.status === "met") {
+    return goal.cadence === "deadline" ? "Target reached" : `Done for ${goal.cadence === "daily" ? "today" : "this week"}`;
+  }
+  if (progress.status === "missed") {
+    return `${progress.remaining.toLocaleString()} words short`;
+  }
+  if (goal.cadence !== "deadline") {
+    return `${progress.remaining.toLocaleString()} words to go ${goal.cadence === "daily" ? "today" : "this week"}`;
+  }
+
+  const parts = [`${progress.requiredPace.toLocaleString()} words/day to finish`];
+  if (progress.periodStart > toUTCDateKey(new Date())) {
+    parts.push(`starts ${formatDate(progress.periodStart)}`);
+  } else if (progress.daysAhead !== 0) {
+    const days = Math.abs(progress.daysAhead);
+    parts.push(`${days} day${days !== 1 ? "s" : ""} ${progress.daysAhead > 0 ? "ahead" : "behind"}`);
+  }
+  return parts.join(" · ");
+}
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+
+interface WritingGoalsPanelProps {
+  /** Titles for notes that may not be loaded on this page */
+  noteLabels?: Record<string, { title: string }>;
+}
+
+/**
+ * Word goals with a date or a daily/weekly rhythm, for all writing, a
+ * notebook or a note, with the pace each one needs.
+ */
+export default function WritingGoalsPanel({ noteLabels = {} }: WritingGoalsPanelProps) {
+  const goals = useNotesStore((s) => s.writingGoals);
+  const notebooks = useNotesStore((s) => s.notebooks);
+  const notes = useNotesStore((s) => s.notes);
+  const { showError } = useToast();
+
+  const [isLoading, setIsLoading] = useState(true);
+  const [formOpen, setFormOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [scope, setScope] = useState<GoalScope>("all");
+  const [scopeId, setScopeId] = useState("");
+  const [cadence, setCadence] = useState<GoalCadence>("deadline");
+  const [target, setTarget] = useState("");
+  const [dueDate, setDueDate] = useState(() => addDays(toUTCDateKey(new Date()), 30));
+  const [label, setLabel] = useState("");
+
+  useEffect(() => {
+    refreshWritingGoals().finally(() => setIsLoading(false));
+
+    // Outside the notes page the store may not have notebooks yet
+    if (useNotesStore.getState().notebooks.length === 0) {
+      getNotebooks().then((result) => {
+        if (result.success && result.notebooks) {
+          useNotesStore.getState().setNotebooks(result.notebooks);
+        }
+      });
+    }
+  }, []);
+
+  const scopeName = (goal: WritingGoalStatus) => {
+    if (goal.scope === "notebook") {
+      return notebooks.find((nb) => nb.id === goal.notebookId)?.name || "Notebook";
+    }
+    if (goal.scope === "note") {
+      const note = notes.find((n) => n.id === goal.noteId);
+      return note?.title || noteLabels[goal.noteId || ""]?.title || "Untitled note";
+    }
+    return "All writing";
+  };
+
+  const resetForm = () => {
+    setFormOpen(false);
+    setScope("all");
+    setScopeId("");
+    setCadence("deadline");
+    setTarget("");
+    setLabel("");
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const result = await createWritingGoal({
+      scope,
+      noteId: scope === "note" ? scopeId : null,
+      notebookId: scope === "notebook" ? scopeId : null,
+      cadence,
+      targetWords: parseInt(target, 10),
+      dueDate: cadence === "deadline" ? dueDate : null,
+      label,
+    });
+    setIsSaving(false);
+
+    if (!result.success) {
+      showError(result.error || "Failed to create goal");
+      return;
+    }
+    resetForm();
+    await refreshWritingGoals();
+  };
+
+  const handleDelete = async (id: string) => {
+    const result = await deleteWritingGoal(id);
+    if (!result.success) {
+      showError(result.error || "Failed to delete goal");
+      return;
+    }
+    useNotesStore.getState().setWritingGoals(goals.filter((goal) => goal.id !== id));
+  };
+
+  return (
+    <div className="space-y-2">
+      {isLoading && goals.length === 0 ? (
+        <p className="text-xs text-[var(--color-text-tertiary)] animate-pulse">Loading goals...</p>
+      ) : goals.length === 0 && !formOpen ? (
+        <p className="text-xs text-[var(--color-text-tertiary)]">
+          Set a target like 50,000 words in a notebook by the end of the month, or a daily habit.
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {goals.map((goal) => {
+            const pct = Math.min(100, Math.round((goal.progress.written / goal.targetWords) * 100));
+            return (
+              <li
+                key={goal.id}
+                className="group px-3 py-2 bg-[var(--color-bg-secondary)] rounded-[var(--radius-md)]"
+              >
+                <div className="flex items-center gap-2">
+                  <span className="flex-1 min-w-0 text-sm text-[var(--color-text-primary)] truncate">
+                    {goal.label || scopeName(goal)}
+                  </span>
+                  <GoalStatusBadge goal={goal} />
+                  <button
+                    onClick={() => handleDelete(goal.id)}
+                    className="p-1 text-[var(--color-text-tertiary)] hover:text-[var(--color-danger)] rounded opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity"
+                    title="Delete goal"
+                    aria-label="Delete goal"
+                  >
+                    <IconTrash size={14} />
+                  </button>
+                </div>
+                <div className="mt-1.5 h-1 rounded-full bg-[var(--color-border-primary)] overflow-hidden">
+                  <div
+                    className="h-full rounded-full bg-[var(--color-accent)]"
+                    style={{ width: `${pct}%` }}
+                  />
+                </div>
+                <div className="flex items-center justify-between gap-2 mt-1 text-[11px] text-[var(--color-text-tertiary)]">
+                  <span className="truncate">
+                    {goal.label ? `${scopeName(goal)} · ` : ""}
+                    {goal.progress.written.toLocaleString()} / {goal.targetWords.toLocaleString()} words
+                    {goal.cadence === "deadline"
+                      ? ` by ${formatDate(goal.progress.periodEnd)}`
+                      : goal.cadence === "daily"
+                        ? " today"
+                        : " this week"}
+                  </span>
+                  <span className="flex-shrink-0">{describeGoalPace(goal)}</span>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {formOpen ? (
+        <form
+          onSubmit={handleCreate}
+          className="flex flex-wrap items-center gap-2 p-3 border border-[var(--color-border-primary)] rounded-[var(--radius-md)]"
+        >
+          <input
+            type="number"
+            min={1}
+            required
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            placeholder="Words"
+            className={`${inputClass} w-24`}
+          />
+          <span className="text-xs text-[var(--color-text-tertiary)]">words in</span>
+          <select
+            value={scope}
+            onChange={(e) => {
+              setScope(e.target.value as GoalScope);
+              setScopeId("");
+            }}
+            className={inputClass}
+          >
+            <option value="all">all my writing</option>
+            <option value="notebook">a notebook</option>
+            {notes.length > 0 && <option value="note">a note</option>}
+          </select>
+          {scope !== "all" && (
+            <select
+              value={scopeId}
+              required
+              onChange={(e) => setScopeId(e.target.value)}
+              className={`${inputClass} max-w-[12rem]`}
+            >
+              <option value="">Choose...</option>
+              {scope === "notebook"
+                ? notebooks.map((nb) => (
+                    <option key={nb.id} value={nb.id}>
+                      {nb.name}
+                    </option>
+                  ))
+                : notes
+                    .filter((n) => !n.deletedAt)
+                    .map((n) => (
+                      <option key={n.id} value={n.id}>
+                        {n.title || "Untitled"}
+                      </option>
+                    ))}
+            </select>
+          )}
+          <select
+            value={cadence}
+            onChange={(e) => setCadence(e.target.value as GoalCadence)}
+            className={inputClass}
+          >
+            {GOAL_CADENCES.map((c) => (
+              <option key={c.value} value={c.value}>
+                {c.label.toLowerCase()}
+              </option>
+            ))}
+          </select>
+          {cadence === "deadline" && (
+            <input
+              type="date"
+              required
+              min={toUTCDateKey(new Date())}
+              value={dueDate}
+              onChange={(e) => setDueDate(e.target.value)}
+              className={inputClass}
+            />
+          )}
+          <input
+            type="text"
+            value={label}
+            maxLength={80}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Name (optional)"
+            className={`${inputClass} flex-1 min-w-[8rem]`}
+          />
+          <div className="flex items-center gap-1 ml-auto">
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-2.5 py-1 text-xs text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving || !target}
+              className="px-2.5 py-1 text-xs text-white bg-[var(--color-accent)] rounded-[var(--radius-md)] hover:opacity-90 transition-opacity disabled:opacity-50"
+            >
+              {isSaving ? "Saving..." : "Add goal"}
+            </button>
+          </div>
+        </form>
+      ) : (
+        goals.length < MAX_WRITING_GOALS && (
+          <button
+            onClick={() => setFormOpen(true)}
+            className="flex items-center gap-1 text-xs text-[var(--color-text-tertiary)] hover:text-[var(--color-accent)] transition-colors"
+          >
+            <IconPlus size={14} />
+            New goal
+          </button>
+        )
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import React from "react";
+import Link from "next/link";
 import { useWritingSession } from "@/hooks/use-writing-session";
 import { IconFlame, IconPencil } from "@tabler/icons-react";
 
@@ -17,7 +18,11 @@ export default function WritingSessionIndicator() {
   const { todayWordCount, streak, sessionDuration } = useWritingSession();
 
   return (
-    <div className="flex items-center gap-3 text-[10px] text-[var(--color-text-tertiary)]">
+    <Link
+      href="/writing-stats"
+      title="Writing stats"
+      className="flex items-center gap-3 text-[10px] text-[var(--color-text-tertiary)] hover:text-[var(--color-text-secondary)] transition-colors"
+    >
       <span className="flex items-center gap-1" title="Words written today">
         <IconPencil size={11} />
         {todayWordCount.toLocaleString()}w today
@@ -32,6 +37,6 @@ export default function WritingSessionIndicator() {
         </span>
       )}
       <span title="Session duration">{formatDuration(sessionDuration)}</span>
-    </div>
+    </Link>
   );
 }
@@ -16,6 +16,11 @@ export const NOTES_KEY_PREFIX = "notes:";
 export const USER_ACTIVITY_PREFIX = "user:activity:";
 export const GLOBAL_NOTE_COUNTER_KEY = "global:note:counter";
 export const USER_NOTE_COUNT_KEY = "justNoted_user_note_count";
+// Version snapshots for Redis notes, one key per note, expiring like the notes
+export const VERSIONS_KEY_PREFIX = "versions:";
+export const REDIS_MAX_VERSIONS = 20; // automatic snapshots per note
+export const REDIS_MAX_CHECKPOINTS = 10; // named checkpoints per note
+export const REDIS_VERSIONS_MAX_BYTES = 900_000; // stays under Upstash's 1MB request limit
 
 // Backup Constants
 export const DB_NAME = "NotesBackupDB";
@@ -26,8 +31,12 @@ export const ENCRYPTION_KEY_NAME = "notes-backup-key";
 
 // IDB Cache Constants (separate DB from backups — different purpose/lifecycle)
 export const IDB_CACHE_DB_NAME = "NotesCacheDB";
-export const IDB_CACHE_DB_VERSION = 1;
+export const IDB_CACHE_DB_VERSION = 2;
 export const IDB_CACHE_STORE_NAME = "notes";
+// Last server-acknowledged content per note — the common ancestor for merges
+export const IDB_CACHE_BASES_STORE_NAME = "bases";
+// Unresolved edit conflicts, kept until the user picks a version
+export const IDB_CACHE_CONFLICTS_STORE_NAME = "conflicts";
 
 // Validation Constants
 export const VALID_GOAL_TYPES = ["words", "characters", ""] as const;
@@ -24,21 +24,24 @@ export interface AIAnalysisState {
   result: AIAnalysisResult | null;
   error: string | null;
   remaining: number;
+  dailyLimit: number;
   resetAt: number | null;
 }
 
-const DAILY_LIMIT = 5;
+// Until the server reports the user's quota
+const DEFAULT_DAILY_LIMIT = 5;
 
 /**
  * Hook for AI-powered pattern detection in notes
- * Rate limited to 5 analyses per day
+ * Rate limited per day, by plan
  */
 export function useAIAnalysis(userId: string | null) {
   const [state, setState] = useState<AIAnalysisState>({
     isAnalyzing: false,
     result: null,
     error: null,
-    remaining: DAILY_LIMIT,
+    remaining: DEFAULT_DAILY_LIMIT,
+    dailyLimit: DEFAULT_DAILY_LIMIT,
     resetAt: null,
   });
 
@@ -52,7 +55,8 @@ export function useAIAnalysis(userId: string | null) {
 
       setState((prev) => ({
         ...prev,
-        remaining: data.remaining ?? DAILY_LIMIT,
+        remaining: data.remaining ?? prev.remaining,
+        dailyLimit: data.limit ?? prev.dailyLimit,
         resetAt: data.resetAt ?? null,
       }));
     } catch (error) {
@@ -114,13 +118,14 @@ export function useAIAnalysis(userId: string | null) {
           return null;
         }
 
-        setState({
+        setState((prev) => ({
+          ...prev,
           isAnalyzing: false,
           result: data.analysis,
           error: null,
           remaining: data.remaining ?? 0,
           resetAt: data.resetAt ?? null,
-        });
+        }));
 
         return data.analysis as AIAnalysisResult;
       } catch (error) {
@@ -169,6 +174,5 @@ export function useAIAnalysis(userId: string | null) {
     checkRateLimit,
     clearResult,
     getResetTimeDisplay,
-    dailyLimit: DAILY_LIMIT,
   };
 }
@@ -0,0 +1,86 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { AssistRequest } from "@/types/ai-assist";
+
+export type AssistStatus = "idle" | "streaming" | "done" | "error";
+
+/**
+ * Streams a writing-assistant reply from /api/ai/assist. `output` grows as
+ * chunks arrive; nothing touches the note until the caller applies it.
+ */
+export function useAIAssist() {
+  const [status, setStatus] = useState<AssistStatus>("idle");
+  const [output, setOutput] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const stop = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+  }, []);
+
+  const reset = useCallback(() => {
+    stop();
+    setStatus("idle");
+    setOutput("");
+    setError(null);
+  }, [stop]);
+
+  const run = useCallback(
+    async (request: AssistRequest) => {
+      stop();
+      const controller = new AbortController();
+      abortRef.current = controller;
+
+      setStatus("streaming");
+      setOutput("");
+      setError(null);
+
+      try {
+        const response = await fetch("/api/ai/assist", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(request),
+          signal: controller.signal,
+        });
+
+        if (!response.ok || !response.body) {
+          const data = await response.json().catch(() => ({}));
+          setError(data.error || "The writing assistant failed");
+          setStatus("error");
+          return;
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          const text = decoder.decode(value, { stream: true });
+          setOutput((prev) => prev + text);
+        }
+        setStatus("done");
+      } catch (err) {
+        if (controller.signal.aborted) {
+          // Stopped by the user: keep what arrived so far. A reset or a newer
+          // run has already moved the status on.
+          if (abortRef.current === null) {
+            setStatus((prev) => (prev === "streaming" ? "done" : prev));
+          }
+          return;
+        }
+        console.error("AI assist error:", err);
+        setError("The reply was cut off. Please try again.");
+        setStatus("error");
+      } finally {
+        if (abortRef.current === controller) abortRef.current = null;
+      }
+    },
+    [stop],
+  );
+
+  useEffect(() => stop, [stop]);
+
+  return { status, output, error, run, stop, reset };
+}
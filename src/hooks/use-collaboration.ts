@@ -0,0 +1,96 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { createClient } from "@/utils/supabase/client";
+import { getCollaborationSession } from "@/app/actions/collaborationActions";
+import { SupabaseYjsProvider, CollabPeer } from "@/utils/collab-provider";
+import type { CombinedNote } from "@/types/combined-notes";
+import type { CollaborationSession } from "@/types/subscription";
+import type { CollabBinding } from "@/components/editor/milkdown-editor";
+
+/**
+ * Joins the live collaboration room for a cloud note when it is shared with
+ * anyone. Solo notes (and all Redis notes) never open a channel, so the
+ * regular save path stays exactly as it was.
+ */
+export function useCollaboration(note: CombinedNote, isAuthenticated: boolean) {
+  const [session, setSession] = useState<CollaborationSession | null>(null);
+  const [provider, setProvider] = useState<SupabaseYjsProvider | null>(null);
+  const [peers, setPeers] = useState<CollabPeer[]>([]);
+
+  // Live editing would relay an encrypted note's plaintext through the server
+  const eligible = isAuthenticated && note.source === "supabase" && !note.isEncrypted;
+
+  const refresh = useCallback(async () => {
+    if (!eligible) return;
+    const result = await getCollaborationSession(note.id);
+    setSession(result.success && result.session ? result.session : null);
+  }, [eligible, note.id]);
+
+  useEffect(() => {
+    setSession(null);
+    refresh();
+  }, [refresh]);
+
+  const isShared =
+    !!session && (session.role !== "owner" || session.collaborators.length > 0);
+
+  // Only the owner and editors may change the document
+  const writers = useMemo(
+    () =>
+      session
+        ? [
+            session.ownerId,
+            ...session.collaborators.filter((c) => c.role === "editor").map((c) => c.odId),
+          ]
+        : [],
+    [session],
+  );
+
+  useEffect(() => {
+    if (!isShared || !session) return;
+
+    const next = new SupabaseYjsProvider(createClient(), note.id, {
+      userId: session.self.userId,
+      displayName: session.self.displayName,
+      avatarUrl: session.self.avatarUrl,
+      role: session.role,
+    }, writers);
+    const unsubscribe = next.onPeersChange(setPeers);
+    next.connect();
+    setProvider(next);
+
+    return () => {
+      unsubscribe();
+      next.destroy();
+      setProvider(null);
+      setPeers([]);
+    };
+    // Reconnect only when sharing toggles or our role changes
+  }, [isShared, session?.role, session?.self.userId, note.id]);
+
+  useEffect(() => {
+    provider?.setWriters(writers);
+  }, [provider, writers]);
+
+  const collab = useMemo<CollabBinding | undefined>(
+    () =>
+      provider
+        ? {
+            doc: provider.doc,
+            awareness: provider.awareness,
+            whenSynced: () => provider.whenSynced(),
+          }
+        : undefined,
+    [provider],
+  );
+
+  return {
+    session,
+    collab,
+    peers,
+    isShared,
+    readOnly: session?.role === "viewer",
+    refresh,
+  };
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import { useEffect, RefObject } from "react";
+import { findAnchorRange } from "@/utils/html-utils";
+import type { CommentAnchor } from "@/types/comments";
+
+const HIGHLIGHT_NAME = "jn-comments";
+
+/**
+ * Marks the passages open comment threads are anchored to, using the CSS
+ * Custom Highlight API so the note's own markup is never touched (the
+ * editor would otherwise treat the marks as edits). Passages are found again
+ * whenever the content under `rootRef` changes. Browsers without the API
+ * simply show no highlights.
+ */
+export function useCommentHighlights(
+  rootRef: RefObject<HTMLElement | null>,
+  anchors: CommentAnchor[],
+) {
+  useEffect(() => {
+    const root = rootRef.current;
+    if (!root || typeof CSS === "undefined" || !("highlights" in CSS)) return;
+
+    let frame: number | null = null;
+
+    const paint = () => {
+      frame = null;
+      const ranges = anchors
+        .map((anchor) => findAnchorRange(root, anchor))
+        .filter((range): range is Range => range !== null);
+      if (ranges.length > 0) {
+        CSS.highlights.set(HIGHLIGHT_NAME, new Highlight(...ranges));
+      } else {
+        CSS.highlights.delete(HIGHLIGHT_NAME);
+      }
+    };
+
+    const observer = new MutationObserver(() => {
+      if (frame === null) frame = requestAnimationFrame(paint);
+    });
+    observer.observe(root, { childList: true, subtree: true, characterData: true });
+    paint();
+
+    return () => {
+      observer.disconnect();
+      if (frame !== null) cancelAnimationFrame(frame);
+      CSS.highlights.delete(HIGHLIGHT_NAME);
+    };
+  }, [rootRef, anchors]);
+}
@@ -10,6 +10,7 @@ interface KeyboardShortcutsOptions {
   onToggleDistractionFree?: () => void;
   onToggleSplitView?: () => void;
   onSearch?: () => void;
+  onOpenToday?: () => void;
 }
 
 export function useKeyboardShortcuts({
@@ -18,6 +19,7 @@ export function useKeyboardShortcuts({
   onToggleDistractionFree,
   onToggleSplitView,
   onSearch,
+  onOpenToday,
 }: KeyboardShortcutsOptions) {
   const { toggleSidebar, setSidebarOpen, toggleToc } = useNotesStore();
 
@@ -94,6 +96,13 @@ export function useKeyboardShortcuts({
           return;
         }
 
+        // Ctrl/Cmd + Shift + D - Today's daily note
+        if (e.shiftKey && (e.key === "d" || e.key === "D")) {
+          e.preventDefault();
+          onOpenToday?.();
+          return;
+        }
+
         // Ctrl/Cmd + J - New note
         if (e.key === "j" || e.key === "J") {
           e.preventDefault();
@@ -116,7 +125,7 @@ export function useKeyboardShortcuts({
         }
       }
     },
-    [onNewNote, onSave, onToggleDistractionFree, onToggleSplitView, onSearch, toggleSidebar, setSidebarOpen, toggleToc]
+    [onNewNote, onSave, onToggleDistractionFree, onToggleSplitView, onSearch, onOpenToday, toggleSidebar, setSidebarOpen, toggleToc]
   );
 
   useEffect(() => {
@@ -134,6 +143,7 @@ export const KEYBOARD_SHORTCUTS = [
   { keys: ["Ctrl", "Shift", "F"], description: "Distraction-free mode" },
   { keys: ["Ctrl", "Shift", "T"], description: "Table of Contents" },
   { keys: ["Ctrl", "Shift", "S"], description: "Split view" },
+  { keys: ["Ctrl", "Shift", "D"], description: "Open today's note" },
   { keys: ["Ctrl", "Alt", "1-9, 0"], description: "Jump to note 1-10" },
   { keys: ["Ctrl", "Alt", "↑/↓"], description: "Previous/next note" },
   { keys: ["Esc"], description: "Close sidebar/modal" },
@@ -0,0 +1,30 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { getNoteComments } from "@/app/actions/commentActions";
+import type { NoteComment } from "@/types/comments";
+
+/**
+ * Comments readers have left on the user's shared note. Loaded when the
+ * note opens so the toolbar can show how many threads are waiting.
+ */
+export function useNoteComments(noteId: string, enabled: boolean) {
+  const [comments, setComments] = useState<NoteComment[]>([]);
+
+  const reload = useCallback(async () => {
+    const result = await getNoteComments(noteId);
+    if (result.success) setComments(result.comments || []);
+  }, [noteId]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setComments([]);
+      return;
+    }
+    reload();
+  }, [enabled, reload]);
+
+  const openCount = comments.filter((c) => !c.parentId && c.status === "open").length;
+
+  return { comments, setComments, reload, openCount };
+}
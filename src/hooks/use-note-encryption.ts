@@ -0,0 +1,260 @@
+"use client";
+
+import { useCallback } from "react";
+import { useNotesStore } from "@/stores/notes-store";
+import {
+  createNoteKeyring,
+  getNoteKeyring,
+  updateNoteKeyring,
+} from "@/app/actions/encryptionActions";
+import {
+  getTrashedNotes,
+  updateNote as updateSupabaseNote,
+} from "@/app/actions/supabaseActions";
+import {
+  addNoteKey,
+  cachedSealedContent,
+  createKeyring,
+  decryptContent,
+  encryptContent,
+  endSession,
+  generateRecoveryCode,
+  rewrapKeyring,
+  startSession,
+  unlockKeyring,
+} from "@/utils/note-encryption";
+import { saveNoteBase, saveNoteToLocal } from "@/utils/notes-idb-cache";
+import { isEncryptedContent, NoteKeyring } from "@/types/encryption";
+
+async function fetchKeyring(): Promise<NoteKeyring> {
+  const result = await getNoteKeyring();
+  if (!result.success) throw new Error(result.error);
+  if (!result.keyring) throw new Error("Encryption isn't set up for your account");
+  return result.keyring;
+}
+
+async function saveKeyring(keyring: NoteKeyring) {
+  const result = await updateNoteKeyring(keyring);
+  if (!result.success) throw new Error(result.error);
+}
+
+// Saves already in flight were encrypted with the current session; let them
+// land before the keys change underneath them
+async function waitForSaves(timeoutMs = 5000) {
+  const start = Date.now();
+  while (useNotesStore.getState().isSaving.size > 0 && Date.now() - start < timeoutMs) {
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
+/** Decrypt every note in the store that's still ciphertext. */
+async function openStoreNotes() {
+  const { notes, swapNoteContents } = useNotesStore.getState();
+  const swaps = [];
+  for (const note of notes) {
+    if (!isEncryptedContent(note.content)) continue;
+    try {
+      swaps.push({ id: note.id, from: note.content, to: await decryptContent(note.id, note.content) });
+    } catch (error) {
+      console.error(`Failed to decrypt note ${note.id}:`, error);
+    }
+  }
+  swapNoteContents(swaps);
+}
+
+/** Save a note's content under the current key, in the cloud and the local cache. */
+async function storeSealed(noteId: string, plain: string, goal = 0, goalType = "") {
+  const sealed = await encryptContent(noteId, plain);
+  const result = await updateSupabaseNote(noteId, sealed, goal, goalType);
+  if (!result.success) throw new Error(result.error);
+  saveNoteBase(noteId, sealed).catch(() => {});
+  return sealed;
+}
+
+/**
+ * Set-up, unlock and key management for encrypted notes. Keys are only ever
+ * held in memory (see note-encryption), so every new session starts locked.
+ */
+export function useNoteEncryption() {
+  const status = useNotesStore((state) => state.encryptionStatus);
+  const setEncryptionStatus = useNotesStore((state) => state.setEncryptionStatus);
+
+  const loadStatus = useCallback(async () => {
+    const result = await getNoteKeyring();
+    if (!result.success) return;
+    if (useNotesStore.getState().encryptionStatus === "unlocked") return;
+    setEncryptionStatus(result.keyring ? "locked" : "off");
+  }, [setEncryptionStatus]);
+
+  /** Set up encryption and encrypt existing private cloud notes. Returns the recovery code. */
+  const setUp = useCallback(
+    async (passphrase: string): Promise<string> => {
+      const { keyring, keys, recoveryCode } = await createKeyring(passphrase);
+      const result = await createNoteKeyring(keyring);
+      if (!result.success) throw new Error(result.error);
+
+      startSession(keys, keyring.currentVersion);
+      setEncryptionStatus("unlocked");
+
+      const { notes, optimisticUpdateNote } = useNotesStore.getState();
+      const toEncrypt = notes.filter(
+        (note) =>
+          note.source === "supabase" && note.isPrivate && !note.isEncrypted && !note.collaboratorRole,
+      );
+
+      for (const note of toEncrypt) {
+        try {
+          await storeSealed(note.id, note.content, note.goal, note.goal_type);
+          optimisticUpdateNote(note.id, { isEncrypted: true });
+          saveNoteToLocal({ ...note, isEncrypted: true }).catch(() => {});
+        } catch (error) {
+          // Left as plaintext; it's encrypted on its next save
+          console.error(`Failed to encrypt note ${note.id}:`, error);
+        }
+      }
+
+      return recoveryCode;
+    },
+    [setEncryptionStatus],
+  );
+
+  const unlock = useCallback(
+    async (passphrase: string) => {
+      const keyring = await fetchKeyring();
+      const keys = await unlockKeyring(keyring, passphrase, "passphrase");
+      startSession(keys, keyring.currentVersion);
+      await openStoreNotes();
+      setEncryptionStatus("unlocked");
+    },
+    [setEncryptionStatus],
+  );
+
+  /** Unlock with the recovery code and replace the forgotten passphrase. */
+  const recover = useCallback(
+    async (recoveryCode: string, newPassphrase: string) => {
+      const keyring = await fetchKeyring();
+      const keys = await unlockKeyring(keyring, recoveryCode, "recovery");
+      await saveKeyring(await rewrapKeyring(keyring, keys, { passphrase: newPassphrase }));
+      startSession(keys, keyring.currentVersion);
+      await openStoreNotes();
+      setEncryptionStatus("unlocked");
+    },
+    [setEncryptionStatus],
+  );
+
+  const lock = useCallback(async () => {
+    await waitForSaves();
+
+    const { notes, swapNoteContents } = useNotesStore.getState();
+    const swaps = [];
+    for (const note of notes) {
+      if (!note.isEncrypted || isEncryptedContent(note.content)) continue;
+      try {
+        const sealed =
+          cachedSealedContent(note.id, note.content) ?? (await encryptContent(note.id, note.content));
+        swaps.push({ id: note.id, from: note.content, to: sealed });
+      } catch (error) {
+        console.error(`Failed to seal note ${note.id}:`, error);
+      }
+    }
+    swapNoteContents(swaps);
+
+    endSession();
+    setEncryptionStatus("locked");
+  }, [setEncryptionStatus]);
+
+  const changePassphrase = useCallback(async (current: string, next: string) => {
+    const keyring = await fetchKeyring();
+    const keys = await unlockKeyring(keyring, current, "passphrase");
+    await saveKeyring(await rewrapKeyring(keyring, keys, { passphrase: next }));
+  }, []);
+
+  /** Replace the recovery code; the old one stops working. Returns the new code. */
+  const newRecoveryCode = useCallback(async (passphrase: string): Promise<string> => {
+    const keyring = await fetchKeyring();
+    const keys = await unlockKeyring(keyring, passphrase, "passphrase");
+    const recoveryCode = generateRecoveryCode();
+    await saveKeyring(await rewrapKeyring(keyring, keys, { recoveryCode }));
+    return recoveryCode;
+  }, []);
+
+  /**
+   * Re-encrypt every encrypted note (trashed ones included) under a new key
+   * and issue a new recovery code. Old keys are only dropped once every note
+   * has moved over, so an interrupted rotation can simply be run again.
+   */
+  const rotateKey = useCallback(
+    async (passphrase: string): Promise<string> => {
+      await waitForSaves();
+
+      const keyring = await fetchKeyring();
+      const oldKeys = await unlockKeyring(keyring, passphrase, "passphrase");
+      const { keys, version } = await addNoteKey(oldKeys);
+      const recoveryCode = generateRecoveryCode();
+
+      const rotated = await rewrapKeyring(
+        { ...keyring, currentVersion: version },
+        keys,
+        { passphrase, recoveryCode },
+      );
+      await saveKeyring(rotated);
+      startSession(keys, version);
+      await openStoreNotes();
+      setEncryptionStatus("unlocked");
+
+      let failed = 0;
+      const { notes } = useNotesStore.getState();
+      for (const note of notes) {
+        if (!note.isEncrypted || note.collaboratorRole) continue;
+        if (isEncryptedContent(note.content)) {
+          failed++;
+          continue;
+        }
+        try {
+          await storeSealed(note.id, note.content, note.goal, note.goal_type);
+          saveNoteToLocal(note).catch(() => {});
+        } catch (error) {
+          failed++;
+          console.error(`Failed to re-encrypt note ${note.id}:`, error);
+        }
+      }
+
+      const trashed = await getTrashedNotes();
+      if (!trashed.success) failed++;
+      for (const row of trashed.notes) {
+        if (!isEncryptedContent(row.content)) continue;
+        try {
+          const plain = await decryptContent(row.id, row.content);
+          await storeSealed(row.id, plain, row.goal ?? 0, row.goal_type ?? "");
+        } catch (error) {
+          failed++;
+          console.error(`Failed to re-encrypt trashed note ${row.id}:`, error);
+        }
+      }
+
+      if (failed === 0) {
+        const current = new Map([[version, keys.get(version)!]]);
+        await saveKeyring({
+          ...rotated,
+          keys: rotated.keys.filter((entry) => entry.version === version),
+        });
+        startSession(current, version);
+      }
+
+      return recoveryCode;
+    },
+    [setEncryptionStatus],
+  );
+
+  return {
+    status,
+    loadStatus,
+    setUp,
+    unlock,
+    recover,
+    lock,
+    changePassphrase,
+    newRecoveryCode,
+    rotateKey,
+  };
+}
@@ -29,11 +29,28 @@ import {
   CombinedNote,
 } from "@/types/combined-notes";
 import { generateNoteId } from "@/utils/general/notes";
-import { saveNoteToLocal, saveAllNotesToLocal, deleteLocalNote } from "@/utils/notes-idb-cache";
+import { saveNoteToLocal, saveAllNotesToLocal, deleteLocalNote, saveNoteBase } from "@/utils/notes-idb-cache";
 import { enqueue } from "@/utils/offline-queue";
+import { updateSharedNoteContent, updateSharedNoteTitle } from "@/app/actions/collaborationActions";
+import { renameNoteLinks } from "@/utils/note-links";
+import { dailyNoteTitle, findDailyNote, resolveJournalSettings } from "@/utils/daily-notes";
+import { fillTemplate } from "@/utils/note-templates";
+import {
+  encryptContent,
+  forgetSealedContent,
+  isLockedNote,
+  openNote,
+  sealContent,
+  shouldEncrypt,
+} from "@/utils/note-encryption";
 
 export interface NotesOperations {
-  addNote: (templateContent?: string, templateTitle?: string) => Promise<void>;
+  addNote: (
+    templateContent?: string,
+    templateTitle?: string,
+    notebookId?: string | null,
+  ) => Promise<void>;
+  openDailyNote: (date?: Date) => Promise<void>;
   updatePinStatus: (noteId: string, isPinned: boolean) => Promise<void>;
   updatePrivacyStatus: (noteId: string, isPrivate: boolean) => Promise<void>;
   deleteNote: (noteId: string) => Promise<void>;
@@ -49,6 +66,13 @@ export interface NotesOperations {
 }
 import { USER_NOTE_COUNT_KEY, HAS_INITIALISED_KEY } from "@/constants/app";
 
+// Resolves once a flushed save has finished (or after 5s)
+async function waitForSave(noteId: string) {
+  for (let i = 0; i < 100 && useNotesStore.getState().isSaving.has(noteId); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
 export function useNotesOperations(
   userId: string | null,
   isAuthenticated: boolean,
@@ -75,8 +99,13 @@ export function useNotesOperations(
   const newNoteTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const debouncedTimeouts = useRef<Map<string, NodeJS.Timeout>>(new Map());
 
-  // Add Note (with optional template content)
-  const addNote = useCallback(async (templateContent?: string, templateTitle?: string) => {
+  // Add Note (with optional template content). Without an explicit notebook
+  // the note joins the notebook being viewed.
+  const addNote = useCallback(async (
+    templateContent?: string,
+    templateTitle?: string,
+    notebookId?: string | null,
+  ) => {
     if (!userId) return;
 
     const noteSource: NoteSource = isAuthenticated ? "supabase" : "redis";
@@ -104,8 +133,12 @@ export function useNotesOperations(
 
     // Auto-assign to active notebook if viewing one
     const { activeNotebookId } = useNotesStore.getState();
-    if (activeNotebookId && activeNotebookId !== "loose" && noteSource === "supabase") {
-      newNote.notebookId = activeNotebookId;
+    if (noteSource === "supabase") {
+      if (notebookId !== undefined) {
+        newNote.notebookId = notebookId;
+      } else if (activeNotebookId && activeNotebookId !== "loose") {
+        newNote.notebookId = activeNotebookId;
+      }
     }
 
     // Optimistic update - note will be at the top
@@ -176,6 +209,28 @@ export function useNotesOperations(
     setNewNoteId,
   ]);
 
+  // Open the daily note for `date` (default today), creating it in the
+  // journal notebook from the journal template if it doesn't exist yet.
+  // Template prompts aren't asked for here and are left empty.
+  const openDailyNote = useCallback(async (date: Date = new Date()) => {
+    const { notes, notebooks, templates, isLoading, setActiveNoteId } = useNotesStore.getState();
+    // Until notes have loaded we can't tell whether the day already has a note
+    if (isLoading) return;
+    const settings = resolveJournalSettings(useNotesStore.getState().journalSettings, notebooks);
+
+    const existing = findDailyNote(notes, date, settings);
+    if (existing) {
+      setActiveNoteId(existing.id);
+      return;
+    }
+
+    const title = dailyNoteTitle(date, settings);
+    const template = templates.find((t) => t.id === settings.templateId);
+    const content = template ? fillTemplate(template.content, { title, answers: {}, now: date }) : "";
+
+    await addNote(content, title, settings.notebookId);
+  }, [addNote]);
+
   // Update Pin Status
   const updatePinStatus = useCallback(
     async (noteId: string, isPinned: boolean) => {
@@ -226,6 +281,47 @@ export function useNotesOperations(
     [userId, notes, optimisticUpdateNote, optimisticReorderNotes],
   );
 
+  // Encrypt (making private) or decrypt (making public) a cloud note's stored
+  // content along with its privacy flag. Pending edits are flushed first so
+  // they're saved under the note's old mode, not lost.
+  const updateEncryptedPrivacy = useCallback(
+    async (note: CombinedNote, isPrivate: boolean) => {
+      if (!userId) return;
+
+      noteFlushFunctions.current.get(note.id)?.();
+      await waitForSave(note.id);
+      const targetNote = useNotesStore.getState().notes.find((n) => n.id === note.id) || note;
+      const { content, goal = 0, goal_type: goalType = "" } = targetNote;
+
+      let stored = content;
+      try {
+        if (isPrivate) {
+          stored = await encryptContent(note.id, content);
+        } else {
+          forgetSealedContent(note.id);
+        }
+      } catch (error) {
+        console.error("Failed to encrypt note:", error);
+        return;
+      }
+
+      optimisticUpdateNote(note.id, { isPrivate, isEncrypted: isPrivate });
+      saveNoteToLocal({ ...targetNote, isPrivate, isEncrypted: isPrivate, updatedAt: Date.now() }).catch(() => {});
+
+      try {
+        const result = await updateSupabaseNote(note.id, stored, goal, goalType);
+        if (!result.success) throw new Error(result.error);
+        saveNoteBase(note.id, stored).catch(() => {});
+        await updateSupabaseNotePrivacyStatus(note.id, isPrivate);
+      } catch (error) {
+        console.error("Failed to update note encryption, queuing for retry:", error);
+        enqueue({ type: "update", noteId: note.id, source: "supabase", userId, content: stored, goal, goalType });
+        enqueue({ type: "updatePrivacy", noteId: note.id, source: "supabase", userId, isPrivate });
+      }
+    },
+    [userId, noteFlushFunctions, optimisticUpdateNote],
+  );
+
   // Update Privacy Status
   const updatePrivacyStatus = useCallback(
     async (noteId: string, isPrivate: boolean) => {
@@ -234,6 +330,22 @@ export function useNotesOperations(
       const targetNote = notes.find((note) => note.id === noteId);
       if (!targetNote) return;
 
+      // With encryption set up, privacy decides whether the cloud copy is
+      // ciphertext, so toggling it re-saves the content too
+      const { encryptionStatus } = useNotesStore.getState();
+      const encryptionChanges =
+        shouldEncrypt({ ...targetNote, isPrivate, isEncrypted: false }, encryptionStatus) !==
+        !!targetNote.isEncrypted;
+
+      if (encryptionChanges) {
+        if (encryptionStatus !== "unlocked" || isLockedNote(targetNote)) {
+          console.warn("Unlock encrypted notes to change this note's privacy");
+          return;
+        }
+        await updateEncryptedPrivacy(targetNote, isPrivate);
+        return;
+      }
+
       // Optimistic update
       optimisticUpdateNote(noteId, { isPrivate });
 
@@ -263,7 +375,7 @@ export function useNotesOperations(
         });
       }
     },
-    [userId, notes, optimisticUpdateNote],
+    [userId, notes, optimisticUpdateNote, updateEncryptedPrivacy],
   );
 
   // Update Collapsed Status
@@ -671,7 +783,11 @@ export function useNotesOperations(
           note: combiToRedis(restoredNote),
         });
       } else {
-        await createSupabaseNote(restoredNote);
+        await createSupabaseNote(
+          restoredNote.isEncrypted && !isLockedNote(restoredNote)
+            ? { ...restoredNote, content: await sealContent(restoredNote.id, restoredNote.content) }
+            : restoredNote,
+        );
       }
     } catch (error) {
       console.error("Failed to restore note:", error);
@@ -698,22 +814,68 @@ export function useNotesOperations(
       }
 
       // Get store methods
-      const { setSaving, setEditing, setSaveError } = useNotesStore.getState();
+      const { setSaving, setEditing, setSaveError, encryptionStatus } = useNotesStore.getState();
+
+      // Encrypted notes only ever leave the browser as ciphertext
+      const encrypt = shouldEncrypt(targetNote, encryptionStatus);
+      if (encrypt && encryptionStatus !== "unlocked") {
+        console.error("Can't save an encrypted note while locked:", noteId);
+        setSaveError(noteId, true);
+        return { success: false };
+      }
 
       // Mark as saving (and stop editing since we're saving now)
       setSaving(noteId, true);
       setEditing(noteId, false);
 
       // Optimistic update — mark as markdown since the editor always emits markdown
-      optimisticUpdateNote(noteId, { content, goal, goal_type: goalType, contentFormat: "markdown" });
+      optimisticUpdateNote(noteId, {
+        content,
+        goal,
+        goal_type: goalType,
+        contentFormat: "markdown",
+        ...(encrypt && { isEncrypted: true }),
+      });
+
+      let stored = content;
+      if (encrypt) {
+        try {
+          stored = await sealContent(noteId, content);
+        } catch (error) {
+          console.error("Failed to encrypt note:", error);
+          setSaveError(noteId, true);
+          setSaving(noteId, false);
+          return { success: false };
+        }
+      }
 
       // Persist to IDB cache immediately
-      saveNoteToLocal({ ...targetNote, content, goal, goal_type: goalType, contentFormat: "markdown", updatedAt: Date.now() }).catch(() => {});
+      saveNoteToLocal({
+        ...targetNote,
+        content,
+        goal,
+        goal_type: goalType,
+        contentFormat: "markdown",
+        updatedAt: Date.now(),
+        ...(encrypt && { isEncrypted: true }),
+      }).catch(() => {});
+
+      // Viewers only mirror the live document locally; it's never theirs to persist
+      if (targetNote.collaboratorRole === "viewer") {
+        setSaving(noteId, false);
+        return { success: true };
+      }
 
       // Background save
       try {
         let result;
-        if (targetNote.source === "redis") {
+        if (targetNote.collaboratorRole === "editor") {
+          // Shared notes aren't queued: the collab channel already carries the
+          // edit to the owner, who will persist it on their next save
+          result = await updateSharedNoteContent(noteId, content);
+          setSaveError(noteId, !result.success);
+          return result;
+        } else if (targetNote.source === "redis") {
           result = await noteOperation("redis", {
             operation: "update",
             userId,
@@ -723,13 +885,14 @@ export function useNotesOperations(
             goalType,
           });
         } else {
-          result = await updateSupabaseNote(noteId, content, goal, goalType);
+          result = await updateSupabaseNote(noteId, stored, goal, goalType);
         }
 
         // Clear error on success; on a non-throwing failure, flag it AND
         // queue for retry so the edit isn't lost to a later refresh.
         if (result.success) {
           setSaveError(noteId, false);
+          saveNoteBase(noteId, stored).catch(() => {});
         } else {
           setSaveError(noteId, true);
           enqueue({
@@ -737,7 +900,7 @@ export function useNotesOperations(
             noteId,
             source: targetNote.source,
             userId,
-            content,
+            content: stored,
             goal,
             goalType,
           });
@@ -752,7 +915,7 @@ export function useNotesOperations(
           noteId,
           source: targetNote.source,
           userId,
-          content,
+          content: stored,
           goal,
           goalType,
         });
@@ -773,7 +936,7 @@ export function useNotesOperations(
       // Read notes from store directly to avoid stale closure
       const currentNotes = useNotesStore.getState().notes;
       const targetNote = currentNotes.find((note) => note.id === noteId);
-      if (!targetNote) return { success: false };
+      if (!targetNote || targetNote.collaboratorRole === "viewer") return { success: false };
 
       // Mark as saving
       setSaving(noteId, true);
@@ -781,9 +944,43 @@ export function useNotesOperations(
       // Optimistic update
       optimisticUpdateNote(noteId, { title });
 
+      // Another user's note: no links of ours to rewrite, and like shared
+      // content it isn't queued for retry
+      if (targetNote.collaboratorRole === "editor") {
+        const { setSaveError } = useNotesStore.getState();
+        try {
+          const result = await updateSharedNoteTitle(noteId, title);
+          setSaveError(noteId, !result.success);
+          return result;
+        } catch (error) {
+          console.error("Failed to save shared note title:", error);
+          setSaveError(noteId, true);
+          return { success: false };
+        } finally {
+          setSaving(noteId, false);
+        }
+      }
+
       // Persist to IDB cache
       saveNoteToLocal({ ...targetNote, title, updatedAt: Date.now() }).catch(() => {});
 
+      // Keep [[links]] to this note reading as its title. When both notes are
+      // in the cloud, updateNoteTitle rewrites the link server-side, so the
+      // change is only mirrored locally.
+      if (targetNote.title !== title) {
+        for (const other of currentNotes) {
+          if (other.id === noteId || other.collaboratorRole) continue;
+          const content = renameNoteLinks(other.content, noteId, targetNote.title, title);
+          if (content === other.content) continue;
+          // The server can't rewrite links inside encrypted notes
+          if (targetNote.source === "supabase" && other.source === "supabase" && !other.isEncrypted) {
+            optimisticUpdateNote(other.id, { content });
+          } else {
+            saveNoteContent(other.id, content, other.goal || 0, other.goal_type || "");
+          }
+        }
+      }
+
       // Background save
       try {
         let result;
@@ -824,7 +1021,7 @@ export function useNotesOperations(
         setSaving(noteId, false);
       }
     },
-    [userId, optimisticUpdateNote, setSaving],
+    [userId, optimisticUpdateNote, setSaving, saveNoteContent],
   );
 
   const refreshSingleNote = useCallback(
@@ -854,7 +1051,7 @@ export function useNotesOperations(
           // Supabase — fetch just this one note
           const result = await getSupabaseNoteById(noteId);
           if (result.success && result.note) {
-            updatedNote = result.note;
+            updatedNote = await openNote(result.note);
           }
         }
 
@@ -885,6 +1082,7 @@ export function useNotesOperations(
 
   return useMemo(() => ({
     addNote,
+    openDailyNote,
     updatePinStatus,
     updatePrivacyStatus,
     deleteNote,
@@ -892,5 +1090,5 @@ export function useNotesOperations(
     saveNoteContent,
     saveNoteTitle,
     refreshSingleNote,
-  }), [addNote, updatePinStatus, updatePrivacyStatus, deleteNote, restoreNote, saveNoteContent, saveNoteTitle, refreshSingleNote]);
+  }), [addNote, openDailyNote, updatePinStatus, updatePrivacyStatus, deleteNote, restoreNote, saveNoteContent, saveNoteTitle, refreshSingleNote]);
 }
@@ -11,16 +11,36 @@ import {
   getNotesByUserId as getSupabaseNotesByUserId,
   updateNote as updateSupabaseNote,
 } from "@/app/actions/supabaseActions";
+import {
+  getSharedWithMeNotes,
+  updateSharedNoteContent,
+} from "@/app/actions/collaborationActions";
 import {
   CombinedNote,
+  NoteConflict,
   NoteSource,
   SupabaseNote,
   redisToCombi,
   supabaseToCombi,
 } from "@/types/combined-notes";
-import { getAllLocalNotes, saveAllNotesToLocal, clearLocalNotes } from "@/utils/notes-idb-cache";
-import { clearQueue } from "@/utils/offline-queue";
+import {
+  getAllLocalNotes,
+  saveAllNotesToLocal,
+  clearLocalNotes,
+  getAllNoteBases,
+  saveNoteBase,
+  saveNoteBases,
+  getAllNoteConflicts,
+  saveNoteConflict,
+  deleteNoteConflict,
+} from "@/utils/notes-idb-cache";
+import { clearQueue, subscribeReconcile } from "@/utils/offline-queue";
+import { reconcileContent } from "@/utils/three-way-merge";
 import { stripHtmlToText } from "@/utils/html-utils";
+import { openNote, openNotes } from "@/utils/note-encryption";
+import { normalizePreferences } from "@/types/preferences";
+import { usePreferencesSync } from "@/hooks/use-preferences-sync";
+import { isEncryptedContent } from "@/types/encryption";
 import {
   HAS_INITIALISED_KEY,
   ACTIVITY_TIMEOUT,
@@ -46,7 +66,10 @@ function isEmptyDefaultNote(note: CombinedNote): boolean {
 
 /**
  * Merge local IDB cache with server notes.
- * Server wins on tie (>=). Local wins only if strictly newer.
+ * When both copies changed since their last common version (`bases`), the
+ * edits are merged paragraph-by-paragraph; overlapping edits keep the server
+ * copy in place and are returned as conflicts for the user to resolve.
+ * Without a common version: server wins on tie (>=), local only if strictly newer.
  * Local-only notes created within 24h are kept (assumed offline-created).
  * Local-only notes older than 24h are dropped (assumed deleted on server).
  * Returns the merged note list and queues server pushes for local-winning notes.
@@ -54,20 +77,53 @@ function isEmptyDefaultNote(note: CombinedNote): boolean {
 function mergeLocalWithServer(
   serverNotes: CombinedNote[],
   localNotes: CombinedNote[],
+  bases: Map<string, string>,
+  pendingConflicts: Set<string>,
   userId: string,
   isAuthenticated: boolean,
-): CombinedNote[] {
+): { notes: CombinedNote[]; conflicts: NoteConflict[] } {
   const serverMap = new Map(serverNotes.map((n) => [n.id, n]));
   const localMap = new Map(localNotes.map((n) => [n.id, n]));
   const merged: CombinedNote[] = [];
+  const conflicts: NoteConflict[] = [];
   const now = Date.now();
 
   // Process all server notes
   for (const serverNote of serverNotes) {
     const localNote = localMap.get(serverNote.id);
+    const base = bases.get(serverNote.id);
     if (!localNote) {
       // No local version — use server
       merged.push(serverNote);
+    } else if (
+      base !== undefined &&
+      localNote.content !== serverNote.content &&
+      !serverNote.collaboratorRole &&
+      // Ciphertext can't be merged; newest wins below
+      !isEncryptedContent(serverNote.content) &&
+      // An unresolved conflict already holds this device's version
+      !pendingConflicts.has(serverNote.id)
+    ) {
+      const result = reconcileContent(base, localNote.content, serverNote.content);
+      if (result.outcome === "server") {
+        merged.push(serverNote);
+      } else if (result.outcome === "local" || result.outcome === "merged") {
+        const content = result.outcome === "merged" ? result.content : localNote.content;
+        const note = { ...serverNote, content, contentFormat: "markdown" as const, updatedAt: now };
+        merged.push(note);
+        pushNoteToServer(note, userId, isAuthenticated).catch(() => {});
+      } else {
+        // Overlapping edits — show the server copy, keep ours for resolution
+        merged.push(serverNote);
+        conflicts.push({
+          noteId: serverNote.id,
+          source: serverNote.source,
+          base,
+          local: localNote.content,
+          server: serverNote.content,
+          detectedAt: now,
+        });
+      }
     } else if (localNote.updatedAt > serverNote.updatedAt) {
       // Local is strictly newer — use local, push to server in background
       merged.push(localNote);
@@ -91,7 +147,7 @@ function mergeLocalWithServer(
     }
   }
 
-  return merged;
+  return { notes: merged, conflicts };
 }
 
 /**
@@ -103,8 +159,9 @@ async function pushNoteToServer(
   isAuthenticated: boolean,
 ): Promise<void> {
   try {
+    let result: { success: boolean } | undefined;
     if (note.source === "redis") {
-      await noteOperation("redis", {
+      result = await noteOperation("redis", {
         operation: "update",
         userId,
         noteId: note.id,
@@ -112,8 +169,13 @@ async function pushNoteToServer(
         goal: note.goal,
         goalType: note.goal_type,
       });
-    } else if (isAuthenticated) {
-      await updateSupabaseNote(note.id, note.content, note.goal ?? 0, note.goal_type ?? "");
+    } else if (note.collaboratorRole === "editor") {
+      result = await updateSharedNoteContent(note.id, note.content);
+    } else if (isAuthenticated && !note.collaboratorRole) {
+      result = await updateSupabaseNote(note.id, note.content, note.goal ?? 0, note.goal_type ?? "");
+    }
+    if (result?.success) {
+      await saveNoteBase(note.id, note.content);
     }
   } catch (error) {
     console.error("Failed to push local note to server:", error);
@@ -174,9 +236,17 @@ export function useNotesSync() {
     if (!currentIsAuthenticated) return [];
 
     try {
-      const result = await getSupabaseNotesByUserId();
+      const [result, shared] = await Promise.all([
+        getSupabaseNotesByUserId(),
+        // Shared notes are best-effort: failing to load them shouldn't block our own
+        getSharedWithMeNotes().catch(() => ({ success: false, notes: [] })),
+      ]);
       if (result.success && result.notes) {
-        return result.notes;
+        // Encrypted notes arrive as ciphertext; open them if the session is unlocked
+        const notes = await openNotes(result.notes);
+        return shared.success && shared.notes
+          ? [...notes, ...shared.notes]
+          : notes;
       }
       if (result.success) return [];
       console.error("Supabase load returned failure:", result.error);
@@ -270,7 +340,12 @@ export function useNotesSync() {
         // Persist the merged store result (not the raw server list) so an
         // in-flight local edit preserved by mergeWithBackend isn't clobbered
         // in the cache by stale server content.
-        saveAllNotesToLocal(useNotesStore.getState().notes).catch(() => {});
+        const storeNotes = useNotesStore.getState().notes;
+        saveAllNotesToLocal(storeNotes).catch(() => {});
+        const storeById = new Map(storeNotes.map((n) => [n.id, n]));
+        saveNoteBases(
+          sortedNotes.filter((n) => storeById.get(n.id)?.content === n.content),
+        ).catch(() => {});
       }
     } catch (error) {
       console.error("Failed to refresh notes:", error);
@@ -326,7 +401,7 @@ export function useNotesSync() {
         const [redisResult, supabaseResult] = await Promise.allSettled([
           noteOperation("redis", { operation: "getAll", userId: newUserId }),
           authenticated
-            ? getSupabaseNotesByUserId()
+            ? loadNotesFromSupabase().then((notes) => ({ success: notes !== null, notes }))
             : Promise.resolve({ success: true, notes: [] }),
         ]);
 
@@ -371,12 +446,37 @@ export function useNotesSync() {
 
         const normalizedNotes = normaliseOrdering(allNotes);
         const sortedNotes = sortNotes(normalizedNotes, null);
-        const mergedNotes = mergeLocalWithServer(sortedNotes, cachedNotes, newUserId, authenticated);
+        const [bases, storedConflicts] = await Promise.all([
+          getAllNoteBases(),
+          getAllNoteConflicts(),
+        ]);
+        const { notes: mergedNotes, conflicts: newConflicts } = mergeLocalWithServer(
+          sortedNotes,
+          cachedNotes,
+          bases,
+          new Set(storedConflicts.map((c) => c.noteId)),
+          newUserId,
+          authenticated,
+        );
 
         syncFromBackend(mergedNotes);
         recalculateNotebookCounts();
         saveAllNotesToLocal(mergedNotes).catch(() => {});
 
+        // Whatever we now show straight from the server is the new common base
+        const mergedById = new Map(mergedNotes.map((n) => [n.id, n]));
+        saveNoteBases(
+          sortedNotes.filter((n) => mergedById.get(n.id)?.content === n.content),
+        ).catch(() => {});
+
+        // Conflicts for notes that no longer exist can't be resolved — drop them
+        const liveConflicts = storedConflicts.filter((c) => mergedById.has(c.noteId));
+        storedConflicts
+          .filter((c) => !mergedById.has(c.noteId))
+          .forEach((c) => deleteNoteConflict(c.noteId).catch(() => {}));
+        newConflicts.forEach((c) => saveNoteConflict(c).catch(() => {}));
+        useNotesStore.getState().setConflicts([...liveConflicts, ...newConflicts]);
+
         // Mark as initialised only after successful completion
         hasInitialisedRef.current = true;
         initRetryCount.current = 0;
@@ -409,7 +509,7 @@ export function useNotesSync() {
         clearTimeout(initRetryTimer.current);
       }
     };
-  }, [supabase, syncFromBackend, setLoading, setUserId, setAuthenticated, recalculateNotebookCounts]);
+  }, [supabase, syncFromBackend, setLoading, setUserId, setAuthenticated, recalculateNotebookCounts, loadNotesFromSupabase]);
 
   // Auth change listener
   useEffect(() => {
@@ -454,7 +554,9 @@ export function useNotesSync() {
     };
   }, [supabase, refreshNotes, setAuthenticated, syncFromBackend, recalculateNotebookCounts]);
 
-  // Supabase Realtime — listen for cross-device changes to cloud notes
+  usePreferencesSync(isAuthenticated ? userId : null);
+
+  // Supabase Realtime — listen for cross-device changes to cloud notes and preferences
   useEffect(() => {
     if (!isAuthenticated || !userId) return;
 
@@ -487,15 +589,19 @@ export function useNotesSync() {
 
             // Only apply if the server version is newer
             if (combiNote.updatedAt > existing.updatedAt) {
-              optimisticUpdateNote(updated.id, combiNote);
+              saveNoteBase(updated.id, combiNote.content).catch(() => {});
+              openNote(combiNote).then((opened) => {
+                if (isMounted.current) optimisticUpdateNote(updated.id, opened);
+              });
             }
           } else if (payload.eventType === "INSERT") {
             const inserted = payload.new as SupabaseNote;
             // Skip if we already have this note (our own create)
             if (notes.some((n) => n.id === inserted.id)) return;
 
-            const combiNote = supabaseToCombi(inserted);
-            optimisticAddNote(combiNote);
+            openNote(supabaseToCombi(inserted)).then((opened) => {
+              if (isMounted.current) optimisticAddNote(opened);
+            });
           } else if (payload.eventType === "DELETE") {
             const deleted = payload.old as { id: string };
             if (!deleted?.id) return;
@@ -506,6 +612,19 @@ export function useNotesSync() {
           }
         },
       )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "user_preferences",
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload: any) => {
+          if (!isMounted.current || !payload.new?.preferences) return;
+          useNotesStore.getState().applyPreferences(normalizePreferences(payload.new.preferences));
+        },
+      )
       .subscribe((status: string, err?: Error) => {
         if (status === "SUBSCRIBED") {
         } else if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
@@ -526,6 +645,20 @@ export function useNotesSync() {
     };
   }, [supabase, isAuthenticated, userId]);
 
+  // Offline edits replayed against newer server content: show the merge, or
+  // surface the conflict (the server copy stays in place until resolved)
+  useEffect(() => {
+    return subscribeReconcile((event) => {
+      const { optimisticUpdateNote, upsertConflict } = useNotesStore.getState();
+      if (event.type === "merged") {
+        optimisticUpdateNote(event.noteId, { content: event.content, contentFormat: "markdown" });
+      } else {
+        optimisticUpdateNote(event.conflict.noteId, { content: event.conflict.server });
+        upsertConflict(event.conflict);
+      }
+    });
+  }, []);
+
   // Periodic refresh - only when user is not actively editing
   useEffect(() => {
     if (!hasInitialisedRef.current) return;
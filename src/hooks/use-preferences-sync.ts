@@ -0,0 +1,59 @@
+// src/hooks/use-preferences-sync.ts
+"use client";
+
+import { useEffect } from "react";
+import { useNotesStore } from "@/stores/notes-store";
+import { getPreferences } from "@/app/actions/preferencesActions";
+import { pickPreferences } from "@/types/preferences";
+import { startPreferenceSync, stopPreferenceSync, queuePreferenceSync } from "@/utils/preferences-sync";
+
+/**
+ * Keep a signed-in user's preferences in step with the server. On sign-in
+ * the stored preferences win over this device's; a user with nothing
+ * stored yet has this device's settings uploaded. Later changes on other
+ * devices arrive through the notes realtime channel (use-notes-sync).
+ * Pass null for anonymous users, whose settings stay in localStorage.
+ */
+export function usePreferencesSync(userId: string | null) {
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    startPreferenceSync();
+
+    getPreferences().then((result) => {
+      if (cancelled) return;
+      if (!result.success) {
+        console.error("Failed to load preferences:", result.error);
+        return;
+      }
+
+      const store = useNotesStore.getState();
+
+      if (!result.preferences) {
+        queuePreferenceSync(pickPreferences(store));
+        return;
+      }
+
+      const restoredNoteId = store.lastNoteId;
+      store.applyPreferences(result.preferences);
+
+      // Open the note last used on another device, unless the user has
+      // already moved on from the one restored here
+      const { lastNoteId, activeNoteId, notes, setActiveNoteId } = useNotesStore.getState();
+      if (
+        lastNoteId &&
+        lastNoteId !== restoredNoteId &&
+        activeNoteId === restoredNoteId &&
+        notes.some((n) => n.id === lastNoteId)
+      ) {
+        setActiveNoteId(lastNoteId);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      stopPreferenceSync();
+    };
+  }, [userId]);
+}
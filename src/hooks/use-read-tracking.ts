@@ -0,0 +1,65 @@
+"use client";
+
+import { useEffect, RefObject } from "react";
+
+/**
+ * Reports how far a shared note was read and for how long the page was
+ * visible. Progress is sent with sendBeacon whenever the page is hidden or
+ * left, so it survives tab closes; the server keeps the furthest values.
+ */
+export function useReadTracking(
+  visitId: string | null | undefined,
+  articleRef: RefObject<HTMLElement | null>,
+) {
+  useEffect(() => {
+    if (!visitId) return;
+
+    let completion = 0;
+    let seconds = 0;
+    let visibleSince: number | null = document.visibilityState === "visible" ? Date.now() : null;
+
+    const measure = () => {
+      const article = articleRef.current;
+      if (!article) return;
+      const rect = article.getBoundingClientRect();
+      if (rect.height <= 0) return;
+      const seen = (window.innerHeight - rect.top) / rect.height;
+      completion = Math.max(completion, Math.min(Math.max(seen, 0), 1));
+    };
+
+    const visibleSeconds = () =>
+      seconds + (visibleSince !== null ? (Date.now() - visibleSince) / 1000 : 0);
+
+    const send = () => {
+      const body = JSON.stringify({ visitId, completion, seconds: visibleSeconds() });
+      navigator.sendBeacon?.("/api/share-analytics", new Blob([body], { type: "application/json" }));
+    };
+
+    const handleVisibility = () => {
+      if (document.visibilityState === "hidden") {
+        if (visibleSince !== null) {
+          seconds += (Date.now() - visibleSince) / 1000;
+          visibleSince = null;
+        }
+        send();
+      } else if (visibleSince === null) {
+        visibleSince = Date.now();
+      }
+    };
+
+    measure();
+    window.addEventListener("scroll", measure, { passive: true });
+    window.addEventListener("resize", measure);
+    document.addEventListener("visibilitychange", handleVisibility);
+    window.addEventListener("pagehide", send);
+
+    return () => {
+      window.removeEventListener("scroll", measure);
+      window.removeEventListener("resize", measure);
+      document.removeEventListener("visibilitychange", handleVisibility);
+      window.removeEventListener("pagehide", send);
+      // Navigating away within the app
+      send();
+    };
+  }, [visitId, articleRef]);
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { useRef, useMemo, useCallback } from "react";
+import { useNotesStore } from "@/stores/notes-store";
+import { stripContentToText } from "@/utils/html-utils";
+import { SearchIndex, SearchResult } from "@/utils/search-index";
+import { isLockedNote } from "@/utils/note-encryption";
+
+/**
+ * Keeps a full-text index of every live note (Redis and Supabase alike) in
+ * step with the store. Only notes whose content or metadata changed since
+ * the last sync are re-indexed, so typing a query never re-strips markup.
+ * Indexing is skipped entirely while `enabled` is false.
+ */
+export function useSearchIndex(enabled: boolean) {
+  const notes = useNotesStore((state) => state.notes);
+  const notebooks = useNotesStore((state) => state.notebooks);
+  const tags = useNotesStore((state) => state.tags);
+  const noteTagMap = useNotesStore((state) => state.noteTagMap);
+  const indexRef = useRef<SearchIndex | null>(null);
+
+  // A fresh wrapper per sync so consumers re-run their queries
+  const synced = useMemo(() => {
+    if (!enabled) return null;
+    if (!indexRef.current) indexRef.current = new SearchIndex();
+
+    const notebookNames = new Map(notebooks.map((nb) => [nb.id, nb.name]));
+    const tagNames = new Map(tags.map((tag) => [tag.id, tag.name]));
+    const liveNotes = notes.filter((note) => !note.deletedAt);
+    const byId = new Map(liveNotes.map((note) => [note.id, note]));
+
+    const noteTags = (noteId: string) =>
+      (noteTagMap[noteId] || [])
+        .map((tagId) => tagNames.get(tagId))
+        .filter((name): name is string => !!name);
+
+    indexRef.current.sync(
+      liveNotes.map((note) => ({
+        id: note.id,
+        signature: [
+          note.updatedAt,
+          note.content.length,
+          note.title,
+          note.isPinned,
+          notebookNames.get(note.notebookId || "") || "",
+          noteTags(note.id).join(","),
+        ].join("|"),
+      })),
+      (id) => {
+        const note = byId.get(id)!;
+        return {
+          id: note.id,
+          title: note.title || "",
+          // Locked notes are found by title until they're unlocked
+          text: isLockedNote(note) ? "" : stripContentToText(note.content, note.contentFormat),
+          tags: noteTags(note.id),
+          notebook: notebookNames.get(note.notebookId || "") || null,
+          isPinned: note.isPinned,
+          createdAt: note.createdAt,
+          updatedAt: note.updatedAt,
+        };
+      },
+    );
+
+    return { index: indexRef.current };
+  }, [enabled, notes, notebooks, tags, noteTagMap]);
+
+  const search = useCallback(
+    (query: string, limit?: number): SearchResult[] =>
+      synced ? synced.index.search(query, limit) : [],
+    [synced],
+  );
+
+  return { search };
+}
@@ -6,23 +6,42 @@ import { countWordsInContent } from "@/utils/word-count";
 import {
   getTodaySession,
   getWritingStreak,
-  upsertWritingSession,
+  saveWritingActivity,
 } from "@/app/actions/writingSessionActions";
+import { getWritingGoals } from "@/app/actions/writingGoalActions";
+import { IDLE_GAP_SECONDS, WritingActivityEntry } from "@/types/writing-analytics";
 
 const FLUSH_INTERVAL = 5 * 60 * 1000;
-const SESSION_BASELINE_KEY = "justnoted_session_baseline";
+const SESSION_WORDS_KEY = "justnoted_session_words";
 const SESSION_START_KEY = "justnoted_session_start";
 
-function getTotalWordCount(notes: { content: string }[]): number {
-  return notes.reduce((sum, n) => sum + countWordsInContent(n.content), 0);
+function mergeEntry(into: WritingActivityEntry, entry: WritingActivityEntry): WritingActivityEntry {
+  return {
+    ...into,
+    startedAt: entry.startedAt < into.startedAt ? entry.startedAt : into.startedAt,
+    endedAt: entry.endedAt > into.endedAt ? entry.endedAt : into.endedAt,
+    wordsAdded: into.wordsAdded + entry.wordsAdded,
+    wordsRemoved: into.wordsRemoved + entry.wordsRemoved,
+    activeSeconds: into.activeSeconds + entry.activeSeconds,
+  };
 }
 
+/**
+ * Today's words, streak and session length for signed-in users, and the
+ * recording behind the writing stats dashboard. Words are counted per note
+ * as this device saves it (not from the total across all notes), so edits
+ * synced in from other devices aren't counted twice. Entries are flushed
+ * every few minutes and when the page is closed.
+ */
 export function useWritingSession() {
   const isAuthenticated = useNotesStore((s) => s.isAuthenticated);
-  const notes = useNotesStore((s) => s.notes);
 
-  const [sessionWordCount, setSessionWordCount] = useState(0);
-  const [todayWordCount, setTodayWordCount] = useState(0);
+  const [sessionWordCount, setSessionWordCount] = useState(() => {
+    if (typeof window === "undefined") return 0;
+    return parseInt(sessionStorage.getItem(SESSION_WORDS_KEY) || "0", 10) || 0;
+  });
+  const [todayBase, setTodayBase] = useState(0);
+  const [wordsSinceLoad, setWordsSinceLoad] = useState(0);
   const [streak, setStreak] = useState(0);
   const [sessionStart] = useState(() => {
     if (typeof window === "undefined") return Date.now();
@@ -33,35 +52,17 @@ export function useWritingSession() {
     return now;
   });
 
-  const baselineRef = useRef<number | null>(null);
-  const lastFlushedDeltaRef = useRef(0);
-  const todayBaseRef = useRef(0);
+  // Unsent entries by note id
+  const pendingRef = useRef(new Map<string, WritingActivityEntry>());
+  const lastEditAtRef = useRef<number | null>(null);
 
-  // Initialize baseline and load today's stats
+  // Load today's stats
   useEffect(() => {
     if (!isAuthenticated) return;
 
-    const currentTotal = getTotalWordCount(notes);
-
-    if (baselineRef.current === null) {
-      const storedBaseline = sessionStorage.getItem(SESSION_BASELINE_KEY);
-      if (storedBaseline) {
-        baselineRef.current = parseInt(storedBaseline, 10);
-      } else {
-        baselineRef.current = currentTotal;
-        sessionStorage.setItem(SESSION_BASELINE_KEY, String(currentTotal));
-      }
-    }
-
-    const delta = Math.max(0, currentTotal - (baselineRef.current || 0));
-    setSessionWordCount(delta);
-
     getTodaySession().then((result) => {
       if (result.success && result.session) {
-        todayBaseRef.current = result.session.wordsWritten;
-        setTodayWordCount(result.session.wordsWritten + delta);
-      } else {
-        setTodayWordCount(delta);
+        setTodayBase(result.session.wordsWritten);
       }
     });
 
@@ -70,33 +71,97 @@ export function useWritingSession() {
         setStreak(result.streak || 0);
       }
     });
-  }, [isAuthenticated, notes.length]);
+  }, [isAuthenticated]);
 
-  // Track word count changes
   useEffect(() => {
-    if (!isAuthenticated || baselineRef.current === null) return;
-    const currentTotal = getTotalWordCount(notes);
-    const delta = Math.max(0, currentTotal - (baselineRef.current || 0));
-    setSessionWordCount(delta);
-    setTodayWordCount(todayBaseRef.current + delta);
-  }, [isAuthenticated, notes]);
-
-  // Flush to DB periodically
-  const flushToDb = useCallback(async () => {
-    if (!isAuthenticated) return;
-    const delta = sessionWordCount - lastFlushedDeltaRef.current;
-    if (delta <= 0) return;
+    sessionStorage.setItem(SESSION_WORDS_KEY, String(sessionWordCount));
+  }, [sessionWordCount]);
 
-    const elapsed = Math.round((Date.now() - sessionStart) / 1000);
-    const durationDelta = elapsed - (lastFlushedDeltaRef.current > 0 ? elapsed : 0);
+  // Attribute word changes to the notes this device is saving
+  useEffect(() => {
+    if (!isAuthenticated) return;
 
-    lastFlushedDeltaRef.current = sessionWordCount;
+    return useNotesStore.subscribe(
+      (s) => s.notes,
+      (notes, prevNotes) => {
+        const { isSaving } = useNotesStore.getState();
+        const previous = new Map(prevNotes.map((note) => [note.id, note]));
+        const now = Date.now();
+        let added = 0;
+
+        for (const note of notes) {
+          if (!isSaving.has(note.id)) continue;
+          const prev = previous.get(note.id);
+          if (!prev || prev.content === note.content) continue;
+
+          const diff = countWordsInContent(note.content) - countWordsInContent(prev.content);
+          if (diff === 0) continue;
+
+          const sinceLastEdit =
+            lastEditAtRef.current === null ? 0 : (now - lastEditAtRef.current) / 1000;
+          const at = new Date(now).toISOString();
+          const entry = pendingRef.current.get(note.id) || {
+            noteId: note.id,
+            notebookId: note.notebookId ?? null,
+            startedAt: at,
+            endedAt: at,
+            wordsAdded: 0,
+            wordsRemoved: 0,
+            activeSeconds: 0,
+          };
+
+          entry.endedAt = at;
+          if (sinceLastEdit <= IDLE_GAP_SECONDS) entry.activeSeconds += sinceLastEdit;
+          if (diff > 0) entry.wordsAdded += diff;
+          else entry.wordsRemoved -= diff;
+
+          pendingRef.current.set(note.id, entry);
+          lastEditAtRef.current = now;
+          if (diff > 0) added += diff;
+        }
+
+        if (added > 0) {
+          setSessionWordCount((count) => count + added);
+          setWordsSinceLoad((count) => count + added);
+        }
+      },
+    );
+  }, [isAuthenticated]);
+
+  const takePending = useCallback(() => {
+    const entries = Array.from(pendingRef.current.values()).map((entry) => ({
+      ...entry,
+      activeSeconds: Math.round(entry.activeSeconds),
+    }));
+    pendingRef.current.clear();
+    return entries;
+  }, []);
+
+  // Flush to DB periodically; failed entries go back in the queue
+  const flushToDb = useCallback(async () => {
+    if (!isAuthenticated) return;
+    const entries = takePending();
+    if (entries.length === 0) return;
+
+    const result = await saveWritingActivity(entries);
+    if (!result.success) {
+      console.error("Failed to save writing activity:", result.error);
+      for (const entry of entries) {
+        const key = entry.noteId || "";
+        const current = pendingRef.current.get(key);
+        pendingRef.current.set(key, current ? mergeEntry(current, entry) : entry);
+      }
+      return;
+    }
 
-    await upsertWritingSession({
-      wordsWritten: delta,
-      durationSeconds: Math.max(0, durationDelta),
-    });
-  }, [isAuthenticated, sessionWordCount, sessionStart]);
+    // Goal progress counts saved activity, so refresh it with the new words
+    if (useNotesStore.getState().writingGoals.length > 0) {
+      const goals = await getWritingGoals();
+      if (goals.success && goals.goals) {
+        useNotesStore.getState().setWritingGoals(goals.goals);
+      }
+    }
+  }, [isAuthenticated, takePending]);
 
   useEffect(() => {
     if (!isAuthenticated) return;
@@ -109,28 +174,20 @@ export function useWritingSession() {
     if (!isAuthenticated) return;
 
     const handleUnload = () => {
-      const delta = sessionWordCount - lastFlushedDeltaRef.current;
-      if (delta <= 0) return;
-
-      const elapsed = Math.round((Date.now() - sessionStart) / 1000);
-      navigator.sendBeacon(
-        "/api/writing-session",
-        JSON.stringify({
-          wordsWritten: delta,
-          durationSeconds: elapsed,
-        }),
-      );
+      const entries = takePending();
+      if (entries.length === 0) return;
+      navigator.sendBeacon("/api/writing-session", JSON.stringify({ entries }));
     };
 
     window.addEventListener("beforeunload", handleUnload);
     return () => window.removeEventListener("beforeunload", handleUnload);
-  }, [isAuthenticated, sessionWordCount, sessionStart]);
+  }, [isAuthenticated, takePending]);
 
   const sessionDuration = Math.round((Date.now() - sessionStart) / 1000);
 
   return {
     sessionWordCount,
-    todayWordCount,
+    todayWordCount: todayBase + wordsSinceLoad,
     streak,
     sessionDuration,
   };
@@ -134,6 +134,24 @@ export function getCoverPreviewColor(
   }
 }
 
+// Helper to get the flat colors behind a color or gradient cover
+// (for drawing the cover outside CSS, e.g. an e-book cover image)
+export function getCoverColors(
+  coverType: CoverType,
+  coverValue: string,
+): string[] {
+  switch (coverType) {
+    case "color":
+      return [coverValue];
+    case "gradient": {
+      const colors = coverValue.match(/#[a-fA-F0-9]{6}/g);
+      return colors?.length ? colors : [DEFAULT_COVER_VALUE];
+    }
+    default:
+      return [getCoverPreviewColor(coverType, coverValue)];
+  }
+}
+
 // Helper to get preview styles for notebook marker/indicator
 // Returns styles that can show photos as mini thumbnails
 export function getCoverPreviewStyle(
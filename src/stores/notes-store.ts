@@ -1,11 +1,24 @@
 // src/stores/notes-store.ts
 import { create } from "zustand";
 import { subscribeWithSelector } from "zustand/middleware";
-import { CombinedNote, NoteSource } from "@/types/combined-notes";
+import { CombinedNote, NoteConflict, NoteSource } from "@/types/combined-notes";
 import { Notebook } from "@/types/notebook";
 import { Tag } from "@/types/tag";
+import { NoteTemplate } from "@/types/template";
+import { WritingGoalStatus } from "@/types/writing-goals";
+import { EncryptionStatus } from "@/types/encryption";
 import { TocHeading } from "@/lib/toc-parser";
 import { sortNotes } from "@/utils/notes-utils";
+import { JournalSettings, JOURNAL_SETTINGS_KEY, loadJournalSettings } from "@/utils/daily-notes";
+import {
+  NoteSortOrder,
+  PREFERENCE_KEYS,
+  SplitViewDirection,
+  ThemePreference,
+  UserPreferences,
+} from "@/types/preferences";
+import { readLocalPreferences, writeLocalPreferences } from "@/utils/preferences";
+import { hasUnsyncedPreference, queuePreferenceSync } from "@/utils/preferences-sync";
 
 // Deleted note with timestamp for undo functionality
 interface DeletedNote {
@@ -35,6 +48,7 @@ interface NotesStore {
   isSaving: Map<string, boolean>;
   isEditing: Map<string, boolean>;
   saveError: Map<string, boolean>;
+  conflicts: Map<string, NoteConflict>;
 
   // ========== Notebook State ==========
   notebooks: Notebook[];
@@ -50,19 +64,28 @@ interface NotesStore {
 
   // ========== Split View State ==========
   splitViewEnabled: boolean;
-  splitViewDirection: "horizontal" | "vertical";
+  splitViewDirection: SplitViewDirection;
   referenceNoteId: string | null;
   referenceNoteEditable: boolean;
   splitPaneSizes: [number, number]; // percentages [main, reference]
 
+  // ========== Preferences State ==========
+  // Also synced: tocVisible, split view settings and sortBy above
+  theme: ThemePreference;
+  wideViewDefault: boolean;
+  wideViewNotes: Record<string, boolean>;
+  lastNoteId: string | null;
+
   // ========== UI State ==========
   sidebarOpen: boolean;
   activeNoteId: string | null;
   searchQuery: string;
+  searchJumpTarget: { noteId: string; text: string } | null; // set by search, consumed by the editor
+  serverSearchHitIds: Set<string>; // cloud notes matching searchQuery server-side (content may not be loaded)
   filterSource: "all" | "local" | "cloud";
   filterPinned: "all" | "pinned" | "unpinned";
-  sortBy: "manual" | "edited" | "created" | "title" | "notebook";
-  setSortBy: (sort: NotesStore["sortBy"]) => void;
+  sortBy: NoteSortOrder;
+  setSortBy: (sort: NoteSortOrder) => void;
 
   // ========== Tags State ==========
   tags: Tag[];
@@ -70,6 +93,19 @@ interface NotesStore {
   tagsLoading: boolean;
   filterTagIds: string[];
 
+  // ========== Templates State ==========
+  templates: NoteTemplate[];
+  templatePickerOpen: boolean;
+
+  // ========== Writing Goals State ==========
+  writingGoals: WritingGoalStatus[];
+
+  // ========== Journal State ==========
+  journalSettings: JournalSettings;
+
+  // ========== Encryption State ==========
+  encryptionStatus: EncryptionStatus;
+
   // ========== Undo Delete ==========
   recentlyDeleted: DeletedNote | null;
 
@@ -90,12 +126,17 @@ interface NotesStore {
   setSaving: (noteId: string, saving: boolean) => void;
   setEditing: (noteId: string, editing: boolean) => void;
   setSaveError: (noteId: string, hasError: boolean) => void;
+  setConflicts: (conflicts: NoteConflict[]) => void;
+  upsertConflict: (conflict: NoteConflict) => void;
+  removeConflict: (noteId: string) => void;
 
   // ========== UI Actions ==========
   toggleSidebar: () => void;
   setSidebarOpen: (open: boolean) => void;
   setActiveNoteId: (id: string | null) => void;
   setSearchQuery: (query: string) => void;
+  setSearchJumpTarget: (target: { noteId: string; text: string } | null) => void;
+  setServerSearchHitIds: (ids: string[]) => void;
   setFilterSource: (filter: "all" | "local" | "cloud") => void;
   setFilterPinned: (filter: "all" | "pinned" | "unpinned") => void;
   clearFilters: () => void;
@@ -119,11 +160,15 @@ interface NotesStore {
   // ========== Split View Actions ==========
   setSplitViewEnabled: (enabled: boolean) => void;
   toggleSplitView: () => void;
-  setSplitViewDirection: (direction: "horizontal" | "vertical") => void;
+  setSplitViewDirection: (direction: SplitViewDirection) => void;
   setReferenceNoteId: (noteId: string | null) => void;
   setReferenceNoteEditable: (editable: boolean) => void;
   setSplitPaneSizes: (sizes: [number, number]) => void;
 
+  // ========== Preferences Actions ==========
+  setPreferences: (changes: Partial<UserPreferences>) => void; // a change made on this device
+  applyPreferences: (preferences: Partial<UserPreferences>) => void; // from the server
+
   // ========== Optimistic Updates ==========
   optimisticUpdateNote: (noteId: string, updates: Partial<CombinedNote>) => void;
   optimisticAddNote: (note: CombinedNote) => void;
@@ -146,6 +191,23 @@ interface NotesStore {
   setFilterTagIds: (tagIds: string[]) => void;
   setTagsLoading: (loading: boolean) => void;
 
+  // ========== Templates Actions ==========
+  setTemplates: (templates: NoteTemplate[]) => void;
+  addTemplate: (template: NoteTemplate) => void;
+  updateTemplateInStore: (id: string, updates: Partial<NoteTemplate>) => void;
+  removeTemplate: (id: string) => void;
+  setTemplatePickerOpen: (open: boolean) => void;
+
+  // ========== Writing Goals Actions ==========
+  setWritingGoals: (goals: WritingGoalStatus[]) => void;
+
+  // ========== Journal Actions ==========
+  setJournalSettings: (updates: Partial<JournalSettings>) => void;
+
+  // ========== Encryption Actions ==========
+  setEncryptionStatus: (status: EncryptionStatus) => void;
+  swapNoteContents: (swaps: { id: string; from: string; to: string }[]) => void;
+
   // ========== Sync ==========
   syncFromBackend: (notes: CombinedNote[]) => void;
   mergeWithBackend: (notes: CombinedNote[]) => void;
@@ -154,6 +216,8 @@ interface NotesStore {
   getFilteredNotes: () => CombinedNote[];
 }
 
+const initialPreferences = readLocalPreferences();
+
 export const useNotesStore = create<NotesStore>()(
   subscribeWithSelector((set, get) => ({
     // ========== Initial User State ==========
@@ -173,6 +237,7 @@ export const useNotesStore = create<NotesStore>()(
     isSaving: new Map(),
     isEditing: new Map(),
     saveError: new Map(),
+    conflicts: new Map(),
 
     // ========== Initial Notebook State ==========
     notebooks: [],
@@ -182,44 +247,33 @@ export const useNotesStore = create<NotesStore>()(
     looseNotesCount: 0,
 
     // ========== Initial ToC State ==========
-    tocVisible: typeof window !== "undefined"
-      ? localStorage.getItem("tocVisible") === "true"
-      : false,
+    tocVisible: initialPreferences.tocVisible,
     tocHeadings: [],
     activeHeadingId: null,
 
     // ========== Initial Split View State ==========
     splitViewEnabled: false,
-    splitViewDirection: typeof window !== "undefined"
-      ? (localStorage.getItem("splitViewDirection") as "horizontal" | "vertical") || "horizontal"
-      : "horizontal",
-    referenceNoteId: typeof window !== "undefined"
-      ? localStorage.getItem("referenceNoteId")
-      : null,
-    referenceNoteEditable: typeof window !== "undefined"
-      ? localStorage.getItem("referenceNoteEditable") === "true"
-      : false,
-    splitPaneSizes: typeof window !== "undefined"
-      ? (() => {
-          try {
-            return JSON.parse(localStorage.getItem("splitPaneSizes") || "[50, 50]") as [number, number];
-          } catch {
-            return [50, 50] as [number, number];
-          }
-        })()
-      : [50, 50],
+    splitViewDirection: initialPreferences.splitViewDirection,
+    referenceNoteId: initialPreferences.referenceNoteId,
+    referenceNoteEditable: initialPreferences.referenceNoteEditable,
+    splitPaneSizes: initialPreferences.splitPaneSizes,
+
+    // ========== Initial Preferences State ==========
+    theme: initialPreferences.theme,
+    wideViewDefault: initialPreferences.wideViewDefault,
+    wideViewNotes: initialPreferences.wideViewNotes,
+    lastNoteId: initialPreferences.lastNoteId,
 
     // ========== Initial UI State ==========
     sidebarOpen: true,
     activeNoteId: null,
     searchQuery: "",
+    searchJumpTarget: null,
+    serverSearchHitIds: new Set(),
     filterSource: "all",
     filterPinned: "all",
-    sortBy: (typeof window !== "undefined" && localStorage.getItem("justnoted_sort") as any) || "manual",
-    setSortBy: (sort) => {
-      localStorage.setItem("justnoted_sort", sort);
-      set({ sortBy: sort });
-    },
+    sortBy: initialPreferences.sortBy,
+    setSortBy: (sort) => get().setPreferences({ sortBy: sort }),
 
     // ========== Initial Tags State ==========
     tags: [],
@@ -227,6 +281,19 @@ export const useNotesStore = create<NotesStore>()(
     tagsLoading: false,
     filterTagIds: [],
 
+    // ========== Initial Templates State ==========
+    templates: [],
+    templatePickerOpen: false,
+
+    // ========== Initial Writing Goals State ==========
+    writingGoals: [],
+
+    // ========== Initial Journal State ==========
+    journalSettings: loadJournalSettings(),
+
+    // ========== Initial Encryption State ==========
+    encryptionStatus: "unknown",
+
     // ========== Initial Undo State ==========
     recentlyDeleted: null,
 
@@ -301,11 +368,34 @@ export const useNotesStore = create<NotesStore>()(
       });
     },
 
+    setConflicts: (conflicts) => {
+      set({ conflicts: new Map(conflicts.map((c) => [c.noteId, c])) });
+    },
+
+    upsertConflict: (conflict) => {
+      set((state) => {
+        const newConflicts = new Map(state.conflicts);
+        newConflicts.set(conflict.noteId, conflict);
+        return { conflicts: newConflicts };
+      });
+    },
+
+    removeConflict: (noteId) => {
+      set((state) => {
+        if (!state.conflicts.has(noteId)) return state;
+        const newConflicts = new Map(state.conflicts);
+        newConflicts.delete(noteId);
+        return { conflicts: newConflicts };
+      });
+    },
+
     // ========== UI Actions ==========
     toggleSidebar: () => set((state) => ({ sidebarOpen: !state.sidebarOpen })),
     setSidebarOpen: (sidebarOpen) => set({ sidebarOpen }),
     setActiveNoteId: (activeNoteId) => set({ activeNoteId }),
     setSearchQuery: (searchQuery) => set({ searchQuery }),
+    setSearchJumpTarget: (searchJumpTarget) => set({ searchJumpTarget }),
+    setServerSearchHitIds: (ids) => set({ serverSearchHitIds: new Set(ids) }),
     setFilterSource: (filterSource) => set({ filterSource }),
     setFilterPinned: (filterPinned) => set({ filterPinned }),
     clearFilters: () => set({ searchQuery: "", filterSource: "all", filterPinned: "all", activeNotebookId: null, filterTagIds: [] }),
@@ -361,52 +451,37 @@ export const useNotesStore = create<NotesStore>()(
     },
 
     // ========== ToC Actions ==========
-    setTocVisible: (tocVisible) => {
-      if (typeof window !== "undefined") {
-        localStorage.setItem("tocVisible", String(tocVisible));
-      }
-      set({ tocVisible });
-    },
-    toggleToc: () => {
-      const newValue = !get().tocVisible;
-      if (typeof window !== "undefined") {
-        localStorage.setItem("tocVisible", String(newValue));
-      }
-      set({ tocVisible: newValue });
-    },
+    setTocVisible: (tocVisible) => get().setPreferences({ tocVisible }),
+    toggleToc: () => get().setPreferences({ tocVisible: !get().tocVisible }),
     setTocHeadings: (tocHeadings) => set({ tocHeadings }),
     setActiveHeadingId: (activeHeadingId) => set({ activeHeadingId }),
 
     // ========== Split View Actions ==========
     setSplitViewEnabled: (splitViewEnabled) => set({ splitViewEnabled }),
     toggleSplitView: () => set((state) => ({ splitViewEnabled: !state.splitViewEnabled })),
-    setSplitViewDirection: (splitViewDirection) => {
-      if (typeof window !== "undefined") {
-        localStorage.setItem("splitViewDirection", splitViewDirection);
-      }
-      set({ splitViewDirection });
+    setSplitViewDirection: (splitViewDirection) => get().setPreferences({ splitViewDirection }),
+    setReferenceNoteId: (referenceNoteId) => get().setPreferences({ referenceNoteId }),
+    setReferenceNoteEditable: (referenceNoteEditable) =>
+      get().setPreferences({ referenceNoteEditable }),
+    setSplitPaneSizes: (splitPaneSizes) => get().setPreferences({ splitPaneSizes }),
+
+    // ========== Preferences Actions ==========
+    setPreferences: (changes) => {
+      writeLocalPreferences(changes);
+      queuePreferenceSync(changes);
+      set(changes);
     },
-    setReferenceNoteId: (referenceNoteId) => {
-      if (typeof window !== "undefined") {
-        if (referenceNoteId) {
-          localStorage.setItem("referenceNoteId", referenceNoteId);
-        } else {
-          localStorage.removeItem("referenceNoteId");
+
+    applyPreferences: (preferences) => {
+      // Keep local changes the server hasn't confirmed yet
+      const changes: Partial<UserPreferences> = {};
+      for (const key of PREFERENCE_KEYS) {
+        if (preferences[key] !== undefined && !hasUnsyncedPreference(key)) {
+          (changes as Record<string, unknown>)[key] = preferences[key];
         }
       }
-      set({ referenceNoteId });
-    },
-    setReferenceNoteEditable: (referenceNoteEditable) => {
-      if (typeof window !== "undefined") {
-        localStorage.setItem("referenceNoteEditable", String(referenceNoteEditable));
-      }
-      set({ referenceNoteEditable });
-    },
-    setSplitPaneSizes: (splitPaneSizes) => {
-      if (typeof window !== "undefined") {
-        localStorage.setItem("splitPaneSizes", JSON.stringify(splitPaneSizes));
-      }
-      set({ splitPaneSizes });
+      writeLocalPreferences(changes);
+      set(changes);
     },
 
     // ========== Optimistic Updates ==========
@@ -537,6 +612,46 @@ export const useNotesStore = create<NotesStore>()(
     setFilterTagIds: (filterTagIds) => set({ filterTagIds }),
     setTagsLoading: (tagsLoading) => set({ tagsLoading }),
 
+    // ========== Templates Actions ==========
+    setTemplates: (templates) => set({ templates }),
+    addTemplate: (template) =>
+      set((state) => ({
+        templates: [...state.templates, template].sort((a, b) => a.name.localeCompare(b.name)),
+      })),
+    updateTemplateInStore: (id, updates) =>
+      set((state) => ({
+        templates: state.templates.map((t) => (t.id === id ? { ...t, ...updates } : t)),
+      })),
+    removeTemplate: (id) =>
+      set((state) => ({ templates: state.templates.filter((t) => t.id !== id) })),
+    setTemplatePickerOpen: (templatePickerOpen) => set({ templatePickerOpen }),
+
+    // ========== Writing Goals Actions ==========
+    setWritingGoals: (writingGoals) => set({ writingGoals }),
+
+    // ========== Journal Actions ==========
+    setJournalSettings: (updates) => {
+      const journalSettings = { ...get().journalSettings, ...updates };
+      localStorage.setItem(JOURNAL_SETTINGS_KEY, JSON.stringify(journalSettings));
+      set({ journalSettings });
+    },
+
+    // ========== Encryption Actions ==========
+    setEncryptionStatus: (encryptionStatus) => set({ encryptionStatus }),
+
+    // Decrypting or re-sealing on unlock/lock isn't an edit, so updatedAt is
+    // left alone, and a note edited in the meantime keeps its newer content
+    swapNoteContents: (swaps) => {
+      const byId = new Map(swaps.map((swap) => [swap.id, swap]));
+      set((state) => ({
+        notes: state.notes.map((note) => {
+          const swap = byId.get(note.id);
+          return swap && note.content === swap.from ? { ...note, content: swap.to } : note;
+        }),
+        lastUpdateTimestamp: Date.now(),
+      }));
+    },
+
     // ========== Sync ==========
     syncFromBackend: (notes) => {
       set({
@@ -577,7 +692,7 @@ export const useNotesStore = create<NotesStore>()(
 
     // ========== Computed/Selectors ==========
     getFilteredNotes: () => {
-      const { notes, searchQuery, filterSource, filterPinned, activeNotebookId, filterTagIds, noteTagMap, notebooks } = get();
+      const { notes, searchQuery, serverSearchHitIds, filterSource, filterPinned, activeNotebookId, filterTagIds, noteTagMap, notebooks } = get();
 
       // Exclude trashed notes from main view
       let filtered = notes.filter((n) => !n.deletedAt);
@@ -637,7 +752,8 @@ export const useNotesStore = create<NotesStore>()(
         filtered = filtered.filter(
           (note) =>
             note.title.toLowerCase().includes(query) ||
-            note.content.toLowerCase().includes(query)
+            note.content.toLowerCase().includes(query) ||
+            serverSearchHitIds.has(note.id)
         );
       }
 
@@ -699,14 +815,16 @@ let _filteredNotesCacheKey = "";
 function computeFilteredNotesCacheKey(state: {
   notes: CombinedNote[];
   searchQuery: string;
+  serverSearchHitIds: Set<string>;
   filterSource: string;
   filterPinned: string;
   activeNotebookId: string | null;
   filterTagIds: string[];
   noteTagMap: Record<string, string[]>;
+  encryptionStatus: string;
 }): string {
   const noteTagFingerprint = Object.keys(state.noteTagMap).length;
-  return `${state.notes.length}:${state.notes.map((n) => n.id + n.isPinned + n.source + n.notebookId + n.updatedAt).join(",")}:${state.searchQuery}:${state.filterSource}:${state.filterPinned}:${state.activeNotebookId}:${state.filterTagIds.join(",")}:${noteTagFingerprint}`;
+  return `${state.notes.length}:${state.notes.map((n) => n.id + n.isPinned + n.source + n.notebookId + n.updatedAt).join(",")}:${state.searchQuery}:${Array.from(state.serverSearchHitIds).join(",")}:${state.filterSource}:${state.filterPinned}:${state.activeNotebookId}:${state.filterTagIds.join(",")}:${noteTagFingerprint}:${state.encryptionStatus}`;
 }
 
 // Selector hooks for better performance
@@ -723,6 +841,8 @@ export const useFilteredNotes = () =>
   });
 export const useNoteById = (noteId: string) =>
   useNotesStore((state) => state.notes.find((n) => n.id === noteId));
+export const useNoteConflict = (noteId: string) =>
+  useNotesStore((state) => state.conflicts.get(noteId));
 export const useNotebooks = () => useNotesStore((state) => state.notebooks);
 export const useActiveNotebook = () =>
   useNotesStore((state) =>
@@ -0,0 +1,58 @@
+export type AssistAction =
+  | "summarize"
+  | "rewrite"
+  | "expand"
+  | "shorten"
+  | "fix-grammar"
+  | "continue"
+  | "translate";
+
+export const ASSIST_ACTIONS: { action: AssistAction; label: string }[] = [
+  { action: "summarize", label: "Summarize" },
+  { action: "rewrite", label: "Rewrite in a tone" },
+  { action: "expand", label: "Expand" },
+  { action: "shorten", label: "Shorten" },
+  { action: "fix-grammar", label: "Fix spelling & grammar" },
+  { action: "continue", label: "Continue writing" },
+  { action: "translate", label: "Translate" },
+];
+
+export const ASSIST_TONES = [
+  "Professional",
+  "Casual",
+  "Friendly",
+  "Confident",
+  "Academic",
+  "Playful",
+] as const;
+
+export const ASSIST_LANGUAGES = [
+  "English",
+  "Spanish",
+  "French",
+  "German",
+  "Italian",
+  "Portuguese",
+  "Dutch",
+  "Japanese",
+  "Korean",
+  "Chinese (Simplified)",
+] as const;
+
+/** Longest selection sent to the model, in characters */
+export const MAX_ASSIST_TEXT_LENGTH = 8000;
+
+export interface AssistRequest {
+  action: AssistAction;
+  /** The selected passage, as Markdown */
+  text: string;
+  /** rewrite only */
+  tone?: (typeof ASSIST_TONES)[number];
+  /** translate only */
+  language?: (typeof ASSIST_LANGUAGES)[number];
+}
+
+/** `continue` adds after the selection; everything else replaces it */
+export function assistReplacesSelection(action: AssistAction): boolean {
+  return action !== "continue";
+}
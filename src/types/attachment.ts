@@ -0,0 +1,62 @@
+export interface NoteAttachment {
+  id: string;
+  owner: string;
+  /** Null once the note has been permanently deleted */
+  noteId: string | null;
+  path: string;
+  url: string;
+  fileName: string;
+  mimeType: string;
+  sizeBytes: number;
+  createdAt: number;
+}
+
+export interface NoteAttachmentRow {
+  id: string;
+  owner: string;
+  note_id: string | null;
+  path: string;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  created_at: string;
+}
+
+export const ATTACHMENT_BUCKET = "note-attachments";
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10MB per file
+
+export const ATTACHMENT_TYPES: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "application/pdf": "pdf",
+};
+
+/** Accept attribute for attachment file pickers. */
+export const ATTACHMENT_ACCEPT = Object.keys(ATTACHMENT_TYPES).join(",");
+
+export function isAttachmentType(mimeType: string): boolean {
+  return Object.prototype.hasOwnProperty.call(ATTACHMENT_TYPES, mimeType);
+}
+
+export function isImageAttachment(mimeType: string): boolean {
+  return mimeType.startsWith("image/");
+}
+
+export function attachmentRowToAttachment(
+  row: NoteAttachmentRow,
+  url: string,
+): NoteAttachment {
+  return {
+    id: row.id,
+    owner: row.owner,
+    noteId: row.note_id,
+    path: row.path,
+    url,
+    fileName: row.file_name,
+    mimeType: row.mime_type,
+    sizeBytes: Number(row.size_bytes),
+    createdAt: new Date(row.created_at).getTime(),
+  };
+}
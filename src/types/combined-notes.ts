@@ -1,4 +1,7 @@
 ﻿import { Tables } from "../../database.types";
+import type { CollaboratorRole } from "./subscription";
+import type { HighlightedText } from "@/utils/search-index";
+import { isEncryptedContent } from "./encryption";
 
 export type NoteSource = "redis" | "supabase";
 export type ContentFormat = "html" | "markdown";
@@ -21,6 +24,11 @@ export interface CombinedNote {
   notebookId?: string | null;
   contentFormat: ContentFormat;
   deletedAt?: number | null;
+  // Content is stored end-to-end encrypted (cloud notes only); the
+  // in-memory copy may already be decrypted
+  isEncrypted?: boolean;
+  // Set only on notes owned by someone else and shared with the current user
+  collaboratorRole?: Exclude<CollaboratorRole, "owner">;
 }
 
 // Redis note format (matches your current Redis structure)
@@ -43,6 +51,36 @@ export interface RedisNote {
 // Supabase note type (from your database)
 export type SupabaseNote = Tables<"notes">;
 
+// Divergent edits to the same note that couldn't be merged automatically.
+// Both versions are kept until the user chooses how to combine them.
+export interface NoteConflict {
+  noteId: string;
+  source: NoteSource;
+  base: string; // last version both sides agreed on
+  local: string; // this device's version
+  server: string; // the version another device saved
+  detectedAt: number;
+}
+
+// A cloud note matched by server-side full-text search (content not loaded)
+export interface NoteSearchHit {
+  id: string;
+  title: string;
+  notebookId: string | null;
+  isPinned: boolean;
+  updatedAt: number;
+  rank: number;
+  snippet: HighlightedText;
+}
+
+// A cloud note whose embedding is close to another note's
+export interface RelatedNote {
+  id: string;
+  title: string;
+  notebookId: string | null;
+  similarity: number;
+}
+
 // Create note input interface
 export interface CreateNoteInput {
   id: string;
@@ -139,6 +177,7 @@ export function supabaseToCombi(note: SupabaseNote): CombinedNote {
     notebookId: note.notebook_id ?? null,
     contentFormat: (note.content_format as ContentFormat) || "html",
     deletedAt: note.deleted_at ? new Date(note.deleted_at).getTime() : null,
+    isEncrypted: note.is_encrypted ?? false,
   };
 }
 
@@ -159,6 +198,7 @@ export function combiToSupabase(note: CombinedNote): Partial<SupabaseNote> {
     updated_at: new Date(note.updatedAt).toISOString(),
     notebook_id: note.notebookId,
     content_format: note.contentFormat,
+    is_encrypted: isEncryptedContent(note.content),
   } as Partial<SupabaseNote>;
 }
 
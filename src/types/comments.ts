@@ -0,0 +1,124 @@
+export type CommentKind = "comment" | "suggestion";
+export type CommentStatus = "open" | "resolved" | "accepted" | "rejected";
+
+/**
+ * Where a thread is anchored: the quoted passage plus a little of the text
+ * either side, so a phrase that appears more than once can still be found.
+ */
+export interface CommentAnchor {
+  quote: string;
+  contextBefore: string;
+  contextAfter: string;
+}
+
+export interface NoteComment extends CommentAnchor {
+  id: string;
+  parentId: string | null;
+  kind: CommentKind;
+  body: string;
+  /** Replacement for the quoted passage; suggestions only */
+  suggestedText: string | null;
+  status: CommentStatus;
+  authorName: string;
+  /** Written by the note's owner */
+  isOwner: boolean;
+  createdAt: string;
+}
+
+export interface CommentThread {
+  comment: NoteComment;
+  replies: NoteComment[];
+}
+
+/** A reader's new thread or reply, as sent from the shared note page. */
+export interface NewShareComment {
+  parentId?: string | null;
+  kind: CommentKind;
+  anchor?: CommentAnchor;
+  body: string;
+  suggestedText?: string | null;
+  /** Name shown for anonymous readers */
+  guestName?: string;
+}
+
+export interface NoteCommentRow {
+  id: string;
+  shared_note: string;
+  parent_id: string | null;
+  kind: string;
+  quote: string;
+  context_before: string;
+  context_after: string;
+  body: string;
+  suggested_text: string | null;
+  status: string;
+  author_id: string | null;
+  author_name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export const COMMENT_LIMITS = {
+  body: 2000,
+  quote: 1000,
+  context: 40,
+  suggestedText: 5000,
+  name: 40,
+} as const;
+
+export function commentRowToComment(row: NoteCommentRow, ownerId: string | null): NoteComment {
+  return {
+    id: row.id,
+    parentId: row.parent_id,
+    kind: row.kind as CommentKind,
+    quote: row.quote,
+    contextBefore: row.context_before,
+    contextAfter: row.context_after,
+    body: row.body,
+    suggestedText: row.suggested_text,
+    status: row.status as CommentStatus,
+    authorName: row.author_name,
+    isOwner: !!ownerId && row.author_id === ownerId,
+    createdAt: row.created_at,
+  };
+}
+
+/** Group comments into threads, oldest first, replies in the order written. */
+export function buildCommentThreads(comments: NoteComment[]): CommentThread[] {
+  const threads = new Map<string, CommentThread>();
+  for (const comment of comments) {
+    if (!comment.parentId) threads.set(comment.id, { comment, replies: [] });
+  }
+  for (const comment of comments) {
+    if (comment.parentId) threads.get(comment.parentId)?.replies.push(comment);
+  }
+  return Array.from(threads.values()).sort((a, b) =>
+    a.comment.createdAt.localeCompare(b.comment.createdAt),
+  );
+}
+
+/**
+ * Apply a suggested edit to the note's source text. The quoted passage is
+ * matched with as much of its context as still lines up, and only replaced
+ * when that match is unambiguous. Returns null when it can't be placed (the
+ * passage was edited since, or spans formatting in the source).
+ */
+export function applySuggestedEdit(content: string, suggestion: NoteComment): string | null {
+  const { quote, contextBefore, contextAfter, suggestedText } = suggestion;
+  if (!quote || suggestedText === null) return null;
+
+  const candidates: [string, string][] = [
+    [contextBefore, contextAfter],
+    [contextBefore, ""],
+    ["", contextAfter],
+    ["", ""],
+  ];
+  for (const [before, after] of candidates) {
+    const needle = before + quote + after;
+    const index = content.indexOf(needle);
+    if (index === -1 || content.indexOf(needle, index + 1) !== -1) continue;
+    const start = index + before.length;
+    return content.slice(0, start) + suggestedText + content.slice(start + quote.length);
+  }
+  return null;
+}
@@ -0,0 +1,62 @@
+/**
+ * A note key wrapped twice: once with the key derived from the user's
+ * passphrase and once with the key derived from their recovery code. Each
+ * wrapped value is "<iv>.<ciphertext>" in base64.
+ */
+export interface WrappedNoteKey {
+  version: number;
+  passphrase: string;
+  recovery: string;
+}
+
+/** Everything the server stores about a user's encryption. None of it is secret on its own. */
+export interface NoteKeyring {
+  kdfIterations: number;
+  passphraseSalt: string;
+  recoverySalt: string;
+  /** Version of the key new content is encrypted with */
+  currentVersion: number;
+  keys: WrappedNoteKey[];
+}
+
+export interface NoteKeyringRow {
+  user_id: string;
+  kdf: string;
+  kdf_iterations: number;
+  passphrase_salt: string;
+  recovery_salt: string;
+  current_version: number;
+  keys: WrappedNoteKey[];
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * "unknown" until the keyring has been looked up; "off" when the user hasn't
+ * set up encryption; "locked" until the passphrase is entered this session.
+ */
+export type EncryptionStatus = "unknown" | "off" | "locked" | "unlocked";
+
+export const MIN_PASSPHRASE_LENGTH = 10;
+export const MAX_WRAPPED_KEYS = 10;
+
+/**
+ * Encrypted note content is stored as
+ * "jn-e2e:<key version>:<iv>:<ciphertext>" so it can be recognised (and left
+ * alone) anywhere that only sees the text.
+ */
+export const ENCRYPTED_CONTENT_PREFIX = "jn-e2e:";
+
+export function isEncryptedContent(content: string | null | undefined): boolean {
+  return !!content && content.startsWith(ENCRYPTED_CONTENT_PREFIX);
+}
+
+export function keyringRowToKeyring(row: NoteKeyringRow): NoteKeyring {
+  return {
+    kdfIterations: row.kdf_iterations,
+    passphraseSalt: row.passphrase_salt,
+    recoverySalt: row.recovery_salt,
+    currentVersion: row.current_version,
+    keys: row.keys || [],
+  };
+}
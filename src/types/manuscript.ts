@@ -0,0 +1,74 @@
+export type ManuscriptFormat = "docx" | "epub" | "pdf" | "md";
+
+export type ChapterNumbering = "none" | "numeric" | "words";
+
+/** What goes between scenes; "blank" is an empty line in place of a glyph */
+export type SceneBreakStyle = "#" | "* * *" | "⁂" | "blank";
+
+export interface ManuscriptCompileOptions {
+  title: string;
+  author: string;
+  /** Contact lines for the manuscript title page (address, email…) */
+  contact: string;
+  /** Notes to include, in chapter order */
+  noteIds: string[];
+  chapterNumbering: ChapterNumbering;
+  /** Use each note's title as its chapter title */
+  includeChapterTitles: boolean;
+  sceneBreak: SceneBreakStyle;
+}
+
+/** A stretch of text sharing one set of styles. */
+export interface ManuscriptRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+}
+
+export type ManuscriptBlock =
+  | { type: "paragraph"; runs: ManuscriptRun[] }
+  | { type: "heading"; level: number; runs: ManuscriptRun[] }
+  | { type: "quote"; runs: ManuscriptRun[] }
+  | { type: "list"; ordered: boolean; start: number; items: ManuscriptRun[][] }
+  | { type: "code"; text: string }
+  | { type: "sceneBreak" };
+
+export interface ManuscriptChapter {
+  noteId: string;
+  /** "Chapter One", "Chapter 1" or "" */
+  label: string;
+  /** Note title, when chapter titles are on */
+  title: string;
+  blocks: ManuscriptBlock[];
+}
+
+export interface CompiledManuscript {
+  title: string;
+  author: string;
+  contact: string;
+  sceneBreak: SceneBreakStyle;
+  chapters: ManuscriptChapter[];
+  wordCount: number;
+}
+
+export const SCENE_BREAK_STYLES: { value: SceneBreakStyle; label: string }[] = [
+  { value: "#", label: "#" },
+  { value: "* * *", label: "* * *" },
+  { value: "⁂", label: "⁂" },
+  { value: "blank", label: "Blank line" },
+];
+
+export const CHAPTER_NUMBERING_OPTIONS: { value: ChapterNumbering; label: string }[] = [
+  { value: "words", label: "Chapter One" },
+  { value: "numeric", label: "Chapter 1" },
+  { value: "none", label: "No numbers" },
+];
+
+export const MANUSCRIPT_FORMATS: { value: ManuscriptFormat; label: string; description: string }[] = [
+  { value: "docx", label: "Word", description: ".docx - Standard manuscript format" },
+  { value: "epub", label: "EPUB", description: ".epub - E-book with chapters and cover" },
+  { value: "pdf", label: "PDF", description: ".pdf - Standard manuscript format" },
+  { value: "md", label: "Markdown", description: ".md - Single combined file" },
+];
@@ -0,0 +1,38 @@
+import type { NoteSource } from "@/types/combined-notes";
+
+/**
+ * A saved copy of a note. Supabase notes keep these in note_versions;
+ * Redis notes keep them in Redis next to the notes, with the same TTL.
+ */
+export interface NoteVersion {
+  id: string;
+  title: string;
+  content: string;
+  content_format: string;
+  created_at: string;
+  label: string | null;
+  is_checkpoint: boolean;
+}
+
+/** A version as listed in the history panel; content is fetched on demand */
+export type NoteVersionSummary = Omit<NoteVersion, "content">;
+
+/** Which note's history to use. `userId` is the Redis owner for Redis notes. */
+export interface VersionTarget {
+  noteId: string;
+  source: NoteSource;
+  userId: string;
+}
+
+/** Shape of the versions NoteBlock used to keep in localStorage */
+export interface LegacyNoteVersion {
+  id: string;
+  noteId: string;
+  content: string;
+  title: string;
+  createdAt: number;
+  wordCount: number;
+  changeDescription?: string;
+}
+
+export const LEGACY_VERSIONS_KEY_PREFIX = "note_versions_";
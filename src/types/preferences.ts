@@ -0,0 +1,121 @@
+export type ThemePreference = "light" | "dark" | "system";
+export type NoteSortOrder = "manual" | "edited" | "created" | "title" | "notebook";
+export type SplitViewDirection = "horizontal" | "vertical";
+
+/**
+ * Per-user settings that follow the user between devices. Signed-in users
+ * keep them in `user_preferences`; everyone keeps a copy in localStorage.
+ * Field names match the notes store, so a patch can be applied as-is.
+ */
+export interface UserPreferences {
+  theme: ThemePreference;
+  sortBy: NoteSortOrder;
+  tocVisible: boolean;
+  splitViewDirection: SplitViewDirection;
+  splitPaneSizes: [number, number]; // percentages [main, reference]
+  referenceNoteId: string | null;
+  referenceNoteEditable: boolean;
+  wideViewDefault: boolean;
+  wideViewNotes: Record<string, boolean>; // per-note overrides, only stored when on
+  lastNoteId: string | null;
+}
+
+export type PreferenceKey = keyof UserPreferences;
+
+export const PREFERENCE_KEYS: PreferenceKey[] = [
+  "theme",
+  "sortBy",
+  "tocVisible",
+  "splitViewDirection",
+  "splitPaneSizes",
+  "referenceNoteId",
+  "referenceNoteEditable",
+  "wideViewDefault",
+  "wideViewNotes",
+  "lastNoteId",
+];
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  theme: "system",
+  sortBy: "manual",
+  tocVisible: false,
+  splitViewDirection: "horizontal",
+  splitPaneSizes: [50, 50],
+  referenceNoteId: null,
+  referenceNoteEditable: false,
+  wideViewDefault: false,
+  wideViewNotes: {},
+  lastNoteId: null,
+};
+
+export const THEME_PREFERENCES: ThemePreference[] = ["light", "dark", "system"];
+
+export const NOTE_SORT_ORDERS: { value: NoteSortOrder; label: string }[] = [
+  { value: "manual", label: "Manual" },
+  { value: "edited", label: "Last edited" },
+  { value: "created", label: "Date created" },
+  { value: "title", label: "Title" },
+  { value: "notebook", label: "Notebook" },
+];
+
+/** The preference fields of a wider object, e.g. the notes store state. */
+export function pickPreferences(source: UserPreferences): UserPreferences {
+  return Object.fromEntries(
+    PREFERENCE_KEYS.map((key) => [key, source[key]]),
+  ) as unknown as UserPreferences;
+}
+
+const MAX_NOTE_ID_LENGTH = 100;
+const MAX_WIDE_VIEW_NOTES = 500;
+
+function isNoteId(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0 && value.length <= MAX_NOTE_ID_LENGTH;
+}
+
+/**
+ * Keep only the well-formed fields of an untrusted preferences object
+ * (a stored row, a realtime payload or a client patch). Unknown keys and
+ * bad values are dropped rather than reset, so a partial patch stays partial.
+ */
+export function normalizePreferences(value: unknown): Partial<UserPreferences> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  const input = value as Record<string, unknown>;
+  const result: Partial<UserPreferences> = {};
+
+  if (THEME_PREFERENCES.includes(input.theme as ThemePreference)) {
+    result.theme = input.theme as ThemePreference;
+  }
+  if (NOTE_SORT_ORDERS.some((order) => order.value === input.sortBy)) {
+    result.sortBy = input.sortBy as NoteSortOrder;
+  }
+  if (typeof input.tocVisible === "boolean") result.tocVisible = input.tocVisible;
+  if (input.splitViewDirection === "horizontal" || input.splitViewDirection === "vertical") {
+    result.splitViewDirection = input.splitViewDirection;
+  }
+  if (
+    Array.isArray(input.splitPaneSizes) &&
+    input.splitPaneSizes.length === 2 &&
+    input.splitPaneSizes.every((size) => typeof size === "number" && size > 0 && size < 100)
+  ) {
+    result.splitPaneSizes = [input.splitPaneSizes[0], input.splitPaneSizes[1]];
+  }
+  if (input.referenceNoteId === null || isNoteId(input.referenceNoteId)) {
+    result.referenceNoteId = input.referenceNoteId;
+  }
+  if (typeof input.referenceNoteEditable === "boolean") {
+    result.referenceNoteEditable = input.referenceNoteEditable;
+  }
+  if (typeof input.wideViewDefault === "boolean") result.wideViewDefault = input.wideViewDefault;
+  if (input.wideViewNotes && typeof input.wideViewNotes === "object" && !Array.isArray(input.wideViewNotes)) {
+    const ids = Object.entries(input.wideViewNotes as Record<string, unknown>)
+      .filter(([id, on]) => on === true && isNoteId(id))
+      .slice(-MAX_WIDE_VIEW_NOTES)
+      .map(([id]) => id);
+    result.wideViewNotes = Object.fromEntries(ids.map((id) => [id, true]));
+  }
+  if (input.lastNoteId === null || isNoteId(input.lastNoteId)) {
+    result.lastNoteId = input.lastNoteId;
+  }
+
+  return result;
+}
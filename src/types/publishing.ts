@@ -0,0 +1,72 @@
+/** A published notebook as its owner sees it. */
+export interface NotebookPublication {
+  shortcode: string;
+  isAnonymous: boolean;
+  hasPassword: boolean;
+  expiresAt: string | null;
+  /** Visits to any page of the site, contents page included */
+  viewCount: number;
+  /** Views per published note, most viewed first */
+  pageViews: { noteId: string; title: string; viewCount: number }[];
+  createdAt: string;
+}
+
+export interface PublishNotebookInput {
+  isAnonymous: boolean;
+  /** undefined keeps the current password, null removes it */
+  password?: string | null;
+  expiresAt: string | null;
+}
+
+export interface PublishedPageLink {
+  id: string;
+  title: string;
+}
+
+/**
+ * One notebook's pages in note order. The first section is the published
+ * notebook itself; sub-notebooks follow in their display order.
+ */
+export interface PublishedSection {
+  id: string;
+  name: string;
+  pages: PublishedPageLink[];
+}
+
+export interface PublishedSite {
+  shortcode: string;
+  name: string;
+  authorUsername: string;
+  authorAvatar: string | null;
+  isAnonymous: boolean;
+  sections: PublishedSection[];
+}
+
+export interface PublishedPage {
+  id: string;
+  title: string;
+  content: string;
+  contentFormat?: "html" | "markdown";
+  updatedAt: string;
+  prev: PublishedPageLink | null;
+  next: PublishedPageLink | null;
+}
+
+export interface CollectionRow {
+  id: string;
+  owner: string | null;
+  name: string | null;
+  shortcode: string | null;
+  notebook_id: string | null;
+  is_anonymous: boolean;
+  password_hash: string | null;
+  expires_at: string | null;
+  view_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Every page of the site in reading order, for prev/next. */
+export function flattenPublishedPages(sections: PublishedSection[]): PublishedPageLink[] {
+  return sections.flatMap((section) => section.pages);
+}
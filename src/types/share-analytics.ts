@@ -0,0 +1,103 @@
+/** What is stored per visit in shared_notes_analytics.analytics. */
+export interface ShareVisitAnalytics {
+  /** Hash of the visitor that changes every day, so readers can't be followed across days */
+  visitor: string;
+  /** Referring site's domain; null for direct visits */
+  referrer: string | null;
+  /** Furthest point of the note that was scrolled into view, 0-1 */
+  completion: number;
+  /** Seconds the page was visible */
+  seconds: number;
+}
+
+export interface ShareVisit extends ShareVisitAnalytics {
+  id: string;
+  createdAt: string;
+}
+
+export interface ShareAnalyticsDay {
+  /** YYYY-MM-DD, UTC */
+  date: string;
+  views: number;
+  uniqueReaders: number;
+  /** Averages over the day's visits; 0 when there were none */
+  avgCompletion: number;
+  avgSeconds: number;
+}
+
+export interface ShareAnalyticsSummary {
+  days: ShareAnalyticsDay[];
+  totalViews: number;
+  /** Sum of each day's unique readers (the visitor hash rotates daily) */
+  uniqueReaders: number;
+  avgCompletion: number;
+  avgSeconds: number;
+  /** Most common first; direct visits are "Direct" */
+  referrers: { domain: string; views: number }[];
+}
+
+export const SHARE_ANALYTICS_RANGES = [7, 30, 90] as const;
+export type ShareAnalyticsRange = (typeof SHARE_ANALYTICS_RANGES)[number];
+
+/** Longest visit that is counted; anything longer is a tab left open. */
+export const MAX_VISIT_SECONDS = 4 * 60 * 60;
+
+const average = (values: number[]) =>
+  values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+/** Daily and overall figures for the last `rangeDays` days, oldest day first. */
+export function summarizeShareVisits(
+  visits: ShareVisit[],
+  rangeDays: number,
+  now: Date = new Date(),
+): ShareAnalyticsSummary {
+  const byDate = new Map<string, ShareVisit[]>();
+  for (let i = rangeDays - 1; i >= 0; i--) {
+    const day = new Date(now.getTime() - i * 24 * 60 * 60 * 1000);
+    byDate.set(day.toISOString().split("T")[0], []);
+  }
+  for (const visit of visits) {
+    byDate.get(visit.createdAt.split("T")[0])?.push(visit);
+  }
+
+  const days = Array.from(byDate, ([date, dayVisits]) => ({
+    date,
+    views: dayVisits.length,
+    uniqueReaders: new Set(dayVisits.map((visit) => visit.visitor)).size,
+    avgCompletion: average(dayVisits.map((visit) => visit.completion)),
+    avgSeconds: average(dayVisits.map((visit) => visit.seconds)),
+  }));
+
+  const counted = Array.from(byDate.values()).flat();
+  const referrers = new Map<string, number>();
+  for (const visit of counted) {
+    const domain = visit.referrer || "Direct";
+    referrers.set(domain, (referrers.get(domain) || 0) + 1);
+  }
+
+  return {
+    days,
+    totalViews: counted.length,
+    uniqueReaders: days.reduce((sum, day) => sum + day.uniqueReaders, 0),
+    avgCompletion: average(counted.map((visit) => visit.completion)),
+    avgSeconds: average(counted.map((visit) => visit.seconds)),
+    referrers: Array.from(referrers, ([domain, views]) => ({ domain, views })).sort(
+      (a, b) => b.views - a.views,
+    ),
+  };
+}
+
+/** One row per day, for spreadsheets. */
+export function shareAnalyticsToCsv(summary: ShareAnalyticsSummary): string {
+  const rows = [
+    ["date", "views", "unique_readers", "avg_completion_percent", "avg_seconds"],
+    ...summary.days.map((day) => [
+      day.date,
+      String(day.views),
+      String(day.uniqueReaders),
+      String(Math.round(day.avgCompletion * 100)),
+      String(Math.round(day.avgSeconds)),
+    ]),
+  ];
+  return rows.map((row) => row.join(",")).join("\n") + "\n";
+}
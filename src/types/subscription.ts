@@ -22,6 +22,7 @@ export interface SubscriptionLimits {
   canUseTemplates: boolean;
   maxVersionHistory: number;
   canCollaborate: boolean;
+  maxAttachmentStorage: number; // bytes
 }
 
 export const SUBSCRIPTION_LIMITS: Record<SubscriptionTier, SubscriptionLimits> = {
@@ -33,6 +34,7 @@ export const SUBSCRIPTION_LIMITS: Record<SubscriptionTier, SubscriptionLimits> =
     canUseTemplates: true,
     maxVersionHistory: 10,
     canCollaborate: false,
+    maxAttachmentStorage: 100 * 1024 * 1024, // 100MB
   },
   pro: {
     maxNotes: -1, // Unlimited
@@ -42,6 +44,7 @@ export const SUBSCRIPTION_LIMITS: Record<SubscriptionTier, SubscriptionLimits> =
     canUseTemplates: true,
     maxVersionHistory: 100,
     canCollaborate: true,
+    maxAttachmentStorage: 5 * 1024 * 1024 * 1024, // 5GB
   },
   team: {
     maxNotes: -1, // Unlimited
@@ -51,6 +54,7 @@ export const SUBSCRIPTION_LIMITS: Record<SubscriptionTier, SubscriptionLimits> =
     canUseTemplates: true,
     maxVersionHistory: -1, // Unlimited
     canCollaborate: true,
+    maxAttachmentStorage: 25 * 1024 * 1024 * 1024, // 25GB
   },
 };
 
@@ -60,8 +64,9 @@ export type CollaboratorRole = "viewer" | "editor" | "owner";
 export interface NoteCollaborator {
   noteId: string;
   odId: string;
-  email: string;
+  email?: string;
   displayName?: string;
+  avatarUrl?: string | null;
   role: CollaboratorRole;
   addedAt: number;
   addedBy: string;
@@ -72,7 +77,23 @@ export interface NoteShareSettings {
   isPublic: boolean;
   publicLinkId?: string; // For public sharing via link
   allowComments: boolean;
+  /** Readers may comment without signing in */
+  allowAnonymousComments: boolean;
+  collaborators: NoteCollaborator[];
+}
+
+// What the editor needs to join a note's collaboration session
+export interface CollaborationSession {
+  noteId: string;
+  role: CollaboratorRole;
+  ownerId: string;
+  self: {
+    userId: string;
+    displayName: string;
+    avatarUrl?: string | null;
+  };
   collaborators: NoteCollaborator[];
+  maxCollaborators: number;
 }
 
 // Presence types for real-time collaboration
@@ -0,0 +1,32 @@
+export interface NoteTemplate {
+  id: string;
+  owner: string;
+  name: string;
+  /** Title for notes created from this template; may contain variables */
+  title: string;
+  content: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface NoteTemplateRow {
+  id: string;
+  owner: string;
+  name: string;
+  title: string;
+  content: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export function templateRowToTemplate(row: NoteTemplateRow): NoteTemplate {
+  return {
+    id: row.id,
+    owner: row.owner,
+    name: row.name,
+    title: row.title,
+    content: row.content,
+    createdAt: new Date(row.created_at).getTime(),
+    updatedAt: new Date(row.updated_at).getTime(),
+  };
+}
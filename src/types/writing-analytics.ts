@@ -0,0 +1,158 @@
+/**
+ * One stretch of writing in one note, as recorded in writing_activity. The
+ * client sends one per note it changed since the last flush.
+ */
+export interface WritingActivityEntry {
+  /** Cloud note uuid or local note id; null once unknown */
+  noteId: string | null;
+  /** Notebook the note was in while being written */
+  notebookId: string | null;
+  startedAt: string;
+  endedAt: string;
+  wordsAdded: number;
+  wordsRemoved: number;
+  /** Time spent typing, with pauses longer than IDLE_GAP_SECONDS left out */
+  activeSeconds: number;
+}
+
+/** Titles and notebook names for the notes in a set of entries. */
+export interface WritingActivityLabels {
+  notes: Record<string, { title: string; notebookId: string | null }>;
+  notebooks: Record<string, string>;
+}
+
+export interface WritingDay {
+  /** YYYY-MM-DD, UTC, as stored in writing_sessions */
+  date: string;
+  words: number;
+}
+
+export interface WritingBreakdownItem {
+  id: string | null;
+  label: string;
+  words: number;
+  activeSeconds: number;
+}
+
+export interface WritingAnalyticsSummary {
+  totalWords: number;
+  activeDays: number;
+  sessions: number;
+  avgSessionSeconds: number;
+  /** Sunday first, in the viewer's time zone */
+  wordsByWeekday: number[];
+  /** Midnight first, in the viewer's time zone */
+  wordsByHour: number[];
+  byNotebook: WritingBreakdownItem[];
+  byNote: WritingBreakdownItem[];
+}
+
+/** A pause this long between edits isn't counted as writing time. */
+export const IDLE_GAP_SECONDS = 5 * 60;
+
+/** A break this long between entries starts a new session. */
+export const SESSION_GAP_SECONDS = 30 * 60;
+
+/** Caps for one entry, so a crafted request can't skew the stats. */
+export const MAX_ENTRY_WORDS = 100_000;
+export const MAX_ENTRY_SECONDS = 24 * 60 * 60;
+
+function breakdown(
+  entries: WritingActivityEntry[],
+  keyOf: (entry: WritingActivityEntry) => string | null,
+  labelOf: (key: string | null) => string,
+): WritingBreakdownItem[] {
+  const totals = new Map<string | null, { words: number; activeSeconds: number }>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    const total = totals.get(key) || { words: 0, activeSeconds: 0 };
+    total.words += entry.wordsAdded;
+    total.activeSeconds += entry.activeSeconds;
+    totals.set(key, total);
+  }
+  return Array.from(totals, ([id, total]) => ({ id, label: labelOf(id), ...total }))
+    .filter((item) => item.words > 0)
+    .sort((a, b) => b.words - a.words);
+}
+
+/**
+ * Figures for the dashboard. Day totals come from writing_sessions, which
+ * predates per-note entries; everything else is worked out from entries.
+ */
+export function summarizeWritingActivity(
+  days: WritingDay[],
+  entries: WritingActivityEntry[],
+  labels: WritingActivityLabels,
+): WritingAnalyticsSummary {
+  const wordsByWeekday = new Array(7).fill(0);
+  const wordsByHour = new Array(24).fill(0);
+  for (const entry of entries) {
+    const started = new Date(entry.startedAt);
+    wordsByWeekday[started.getDay()] += entry.wordsAdded;
+    wordsByHour[started.getHours()] += entry.wordsAdded;
+  }
+
+  const sorted = [...entries].sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+  const sessionLengths: number[] = [];
+  let lastEnded = -Infinity;
+  for (const entry of sorted) {
+    const started = new Date(entry.startedAt).getTime();
+    if (started - lastEnded > SESSION_GAP_SECONDS * 1000) sessionLengths.push(0);
+    sessionLengths[sessionLengths.length - 1] += entry.activeSeconds;
+    lastEnded = Math.max(lastEnded, new Date(entry.endedAt).getTime());
+  }
+
+  const notebookOf = (entry: WritingActivityEntry) =>
+    (entry.noteId && labels.notes[entry.noteId]?.notebookId) || entry.notebookId;
+
+  return {
+    totalWords: days.reduce((sum, day) => sum + day.words, 0),
+    activeDays: days.filter((day) => day.words > 0).length,
+    sessions: sessionLengths.length,
+    avgSessionSeconds: sessionLengths.length
+      ? sessionLengths.reduce((sum, seconds) => sum + seconds, 0) / sessionLengths.length
+      : 0,
+    wordsByWeekday,
+    wordsByHour,
+    byNotebook: breakdown(entries, notebookOf, (id) =>
+      id ? labels.notebooks[id] || "Deleted notebook" : "No notebook",
+    ),
+    byNote: breakdown(
+      entries,
+      (entry) => entry.noteId,
+      (id) => {
+        if (!id) return "Deleted note";
+        const note = labels.notes[id];
+        return note ? note.title || "Untitled" : "Local or deleted note";
+      },
+    ),
+  };
+}
+
+const csvField = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/** One row per entry, for spreadsheets. */
+export function writingActivityToCsv(
+  entries: WritingActivityEntry[],
+  labels: WritingActivityLabels,
+): string {
+  const rows = [
+    ["started_at", "ended_at", "note", "notebook", "words_added", "words_removed", "active_seconds"],
+    ...[...entries]
+      .sort((a, b) => a.startedAt.localeCompare(b.startedAt))
+      .map((entry) => {
+        const note = entry.noteId ? labels.notes[entry.noteId] : undefined;
+        const notebookId = note?.notebookId || entry.notebookId;
+        return [
+          entry.startedAt,
+          entry.endedAt,
+          note ? note.title || "Untitled" : "",
+          notebookId ? labels.notebooks[notebookId] || "" : "",
+          String(entry.wordsAdded),
+          String(entry.wordsRemoved),
+          String(Math.round(entry.activeSeconds)),
+        ];
+      }),
+  ];
+  return rows.map((row) => row.map(csvField).join(",")).join("\n") + "\n";
+}
@@ -0,0 +1,197 @@
+export type GoalScope = "all" | "notebook" | "note";
+
+/** "deadline" runs from startDate to dueDate; the others repeat each day or week */
+export type GoalCadence = "deadline" | "daily" | "weekly";
+
+/**
+ * A words-written target. Progress counts words written during the goal's
+ * period (see useWritingSession), not the size of the note or notebook.
+ * Dates are YYYY-MM-DD in UTC, like writing_sessions.
+ */
+export interface WritingGoal {
+  id: string;
+  scope: GoalScope;
+  noteId: string | null;
+  notebookId: string | null;
+  cadence: GoalCadence;
+  targetWords: number;
+  startDate: string;
+  dueDate: string | null;
+  label: string;
+  createdAt: number;
+}
+
+export interface WritingGoalRow {
+  id: string;
+  user_id: string;
+  scope: GoalScope;
+  note_id: string | null;
+  notebook_id: string | null;
+  cadence: GoalCadence;
+  target_words: number;
+  start_date: string;
+  due_date: string | null;
+  label: string;
+  created_at: string;
+}
+
+export function writingGoalRowToGoal(row: WritingGoalRow): WritingGoal {
+  return {
+    id: row.id,
+    scope: row.scope,
+    noteId: row.note_id,
+    notebookId: row.notebook_id,
+    cadence: row.cadence,
+    targetWords: row.target_words,
+    startDate: row.start_date,
+    dueDate: row.due_date,
+    label: row.label,
+    createdAt: new Date(row.created_at).getTime(),
+  };
+}
+
+export type GoalStatus =
+  | "met"
+  | "ahead" // today's share is done
+  | "on-track" // caught up to the end of yesterday
+  | "behind"
+  | "missed" // deadline passed short of the target
+  | "in-progress"; // recurring goal not yet met this period, or a deadline not yet started
+
+export interface GoalProgress {
+  /** Current period: the whole deadline window, today, or this week (Monday first) */
+  periodStart: string;
+  periodEnd: string;
+  written: number;
+  remaining: number;
+  /** Days left in the period, counting today */
+  daysLeft: number;
+  /** Words per day needed from today to finish on time */
+  requiredPace: number;
+  /** Average words per day over the last RECENT_PACE_DAYS days */
+  recentPace: number;
+  /** Deadline goals: days of pace ahead (+) or behind (-) the even schedule */
+  daysAhead: number;
+  /** Deadline goals: finish date at the recent pace; null if there's no pace */
+  projectedDate: string | null;
+  status: GoalStatus;
+}
+
+export interface WritingGoalStatus extends WritingGoal {
+  progress: GoalProgress;
+}
+
+export const MAX_WRITING_GOALS = 20;
+export const MAX_GOAL_WORDS = 10_000_000;
+export const RECENT_PACE_DAYS = 14;
+
+export const GOAL_CADENCES: { value: GoalCadence; label: string }[] = [
+  { value: "deadline", label: "By a date" },
+  { value: "daily", label: "Every day" },
+  { value: "weekly", label: "Every week" },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const toUTCDateKey = (date: Date) => date.toISOString().split("T")[0];
+
+export const addDays = (dateKey: string, days: number) =>
+  toUTCDateKey(new Date(Date.parse(`${dateKey}T00:00:00Z`) + days * DAY_MS));
+
+/** Whole days from `from` to `to`; negative when `to` is earlier. */
+export const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+
+export function goalPeriod(goal: WritingGoal, today: string): { start: string; end: string } {
+  switch (goal.cadence) {
+    case "daily":
+      return { start: today, end: today };
+    case "weekly": {
+      const weekday = (new Date(`${today}T00:00:00Z`).getUTCDay() + 6) % 7; // Monday = 0
+      const start = addDays(today, -weekday);
+      return { start, end: addDays(start, 6) };
+    }
+    default:
+      return { start: goal.startDate, end: goal.dueDate || goal.startDate };
+  }
+}
+
+/**
+ * Where a goal stands. `written` is the words written in the current
+ * period up to today; `recentPace` is the user's recent words per day in
+ * the goal's scope.
+ */
+export function computeGoalProgress(
+  goal: WritingGoal,
+  written: number,
+  recentPace: number,
+  today: string,
+): GoalProgress {
+  const { start, end } = goalPeriod(goal, today);
+  const remaining = Math.max(0, goal.targetWords - written);
+  const daysLeft = Math.max(0, daysBetween(today, end) + 1);
+  const requiredPace = daysLeft > 0 ? Math.ceil(remaining / daysLeft) : remaining;
+
+  const progress: GoalProgress = {
+    periodStart: start,
+    periodEnd: end,
+    written,
+    remaining,
+    daysLeft,
+    requiredPace,
+    recentPace,
+    daysAhead: 0,
+    projectedDate: null,
+    status: remaining === 0 ? "met" : "in-progress",
+  };
+
+  if (goal.cadence !== "deadline" || remaining === 0) return progress;
+
+  if (daysLeft === 0) return { ...progress, status: "missed" };
+
+  // Even schedule: the same share of the target every day of the window
+  const totalDays = daysBetween(start, end) + 1;
+  const perDay = goal.targetWords / totalDays;
+
+  if (today < start) return { ...progress, requiredPace: Math.ceil(remaining / totalDays) };
+
+  const daysBeforeToday = Math.min(totalDays, Math.max(0, daysBetween(start, today)));
+  const expectedByYesterday = perDay * daysBeforeToday;
+  const expectedByToday = perDay * Math.min(totalDays, daysBeforeToday + 1);
+
+  return {
+    ...progress,
+    daysAhead: Math.round((written - expectedByToday) / perDay),
+    projectedDate:
+      recentPace > 0 ? addDays(today, Math.ceil(remaining / recentPace) - 1) : null,
+    status:
+      written >= expectedByToday ? "ahead" : written >= expectedByYesterday ? "on-track" : "behind",
+  };
+}
+
+export const GOAL_STATUS_LABELS: Record<GoalStatus, string> = {
+  met: "Done",
+  ahead: "Ahead",
+  "on-track": "On track",
+  behind: "Behind",
+  missed: "Missed",
+  "in-progress": "In progress",
+};
+
+/** Date-window presets, e.g. NaNoWriMo's November. Months are 1-12. */
+export interface GoalWindow {
+  month: number;
+  firstDay: number;
+  lastDay: number;
+}
+
+/** This year's window, or next year's once this year's has ended. */
+export function nextGoalWindow(window: GoalWindow, today: string): { startDate: string; dueDate: string } {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  let year = parseInt(today.slice(0, 4), 10);
+  if (`${year}-${pad(window.month)}-${pad(window.lastDay)}` < today) year++;
+  return {
+    startDate: `${year}-${pad(window.month)}-${pad(window.firstDay)}`,
+    dueDate: `${year}-${pad(window.month)}-${pad(window.lastDay)}`,
+  };
+}
@@ -0,0 +1,61 @@
+import type { AICompletionRequest, AIProvider } from "./types";
+import { readEventStream } from "./sse";
+
+const API_URL = "https://api.anthropic.com/v1/messages";
+const API_VERSION = "2023-06-01";
+
+export const DEFAULT_ANTHROPIC_MODEL = "claude-3-haiku-20240307";
+
+export function createAnthropicProvider(
+  apiKey: string,
+  model: string = DEFAULT_ANTHROPIC_MODEL,
+): AIProvider {
+  const send = async (request: AICompletionRequest, stream: boolean) => {
+    const response = await fetch(API_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": apiKey,
+        "anthropic-version": API_VERSION,
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: request.maxTokens,
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        system: request.system,
+        messages: [{ role: "user", content: request.prompt }],
+        stream,
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new Error(`Anthropic API error ${response.status}: ${detail.slice(0, 200)}`);
+    }
+    return response;
+  };
+
+  return {
+    name: "anthropic",
+    model,
+
+    async complete(request) {
+      const response = await send(request, false);
+      const data = await response.json();
+      return data.content?.[0]?.text || "";
+    },
+
+    async *stream(request) {
+      const response = await send(request, true);
+      for await (const data of readEventStream(response)) {
+        const event = JSON.parse(data);
+        if (event.type === "content_block_delta" && event.delta?.type === "text_delta") {
+          yield event.delta.text as string;
+        } else if (event.type === "error") {
+          throw new Error(`Anthropic stream error: ${event.error?.message || "unknown"}`);
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,73 @@
+import type { AICompletionRequest } from "./types";
+import {
+  ASSIST_ACTIONS,
+  ASSIST_LANGUAGES,
+  ASSIST_TONES,
+  AssistRequest,
+  MAX_ASSIST_TEXT_LENGTH,
+} from "@/types/ai-assist";
+
+const SYSTEM_PROMPT = `You are a writing assistant inside a note-taking app. You are given a passage from the user's note, written in Markdown, and one instruction.
+
+IMPORTANT RULES:
+1. Follow the instruction for the passage only
+2. Reply with the resulting text and nothing else: no preamble, no explanation, no quotation marks around it
+3. Write Markdown, keeping the passage's own formatting (headings, lists, links, emphasis) where it still applies
+4. Never invent facts, names or figures that aren't in the passage`;
+
+function instructionFor(request: AssistRequest): string {
+  switch (request.action) {
+    case "summarize":
+      return "Summarize the passage in a few sentences, keeping its key points.";
+    case "rewrite":
+      return `Rewrite the passage in a ${request.tone!.toLowerCase()} tone. Keep the meaning and roughly the same length.`;
+    case "expand":
+      return "Expand the passage with more detail and explanation, in the same voice. Roughly double its length.";
+    case "shorten":
+      return "Shorten the passage to about half its length, keeping the meaning and voice.";
+    case "fix-grammar":
+      return "Fix spelling, grammar and punctuation in the passage. Change nothing else; if it is already correct, return it unchanged.";
+    case "continue":
+      return "Continue writing from where the passage ends, in the same voice and format, for one or two paragraphs. Reply with the new text only, not the passage.";
+    case "translate":
+      return `Translate the passage into ${request.language}. Keep names, code and URLs as they are.`;
+  }
+}
+
+/**
+ * Check an incoming assist request, returning the problem as a message
+ * suitable for the response body.
+ */
+export function validateAssistRequest(body: unknown): { request: AssistRequest } | { error: string } {
+  const { action, text, tone, language } = (body || {}) as Partial<AssistRequest>;
+
+  if (!ASSIST_ACTIONS.some((a) => a.action === action)) {
+    return { error: "Unknown action" };
+  }
+  if (typeof text !== "string" || !text.trim()) {
+    return { error: "Select some text first" };
+  }
+  if (text.length > MAX_ASSIST_TEXT_LENGTH) {
+    return { error: `Select less text (up to ${MAX_ASSIST_TEXT_LENGTH.toLocaleString()} characters)` };
+  }
+  if (action === "rewrite" && !ASSIST_TONES.includes(tone!)) {
+    return { error: "Choose a tone" };
+  }
+  if (action === "translate" && !ASSIST_LANGUAGES.includes(language!)) {
+    return { error: "Choose a language" };
+  }
+
+  return { request: { action: action!, text, tone, language } };
+}
+
+export function buildAssistPrompt(request: AssistRequest): AICompletionRequest {
+  // Room for "expand" to double a long selection; a token is ~4 characters
+  const maxTokens = Math.min(4096, Math.max(512, Math.ceil(request.text.length / 2)));
+
+  return {
+    system: SYSTEM_PROMPT,
+    prompt: `${instructionFor(request)}\n\n${request.text}`,
+    maxTokens,
+    temperature: request.action === "fix-grammar" || request.action === "translate" ? 0 : 0.7,
+  };
+}
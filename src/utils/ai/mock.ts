@@ -0,0 +1,74 @@
+import { EMBEDDING_DIMENSIONS } from "./types";
+import type { AICompletionRequest, AIProvider, EmbeddingProvider } from "./types";
+
+/**
+ * The text a prompt is about: everything after its first blank line, which
+ * is how every AI route lays out "instruction\n\ncontent".
+ */
+function promptSubject(prompt: string): string {
+  const split = prompt.indexOf("\n\n");
+  return split === -1 ? prompt : prompt.slice(split + 2);
+}
+
+/**
+ * A provider that never leaves the server. It replies with `response` when
+ * given (AI_MOCK_RESPONSE), otherwise echoes the text it was asked about, so
+ * the same request always gets the same answer. For tests, local development
+ * and self-hosted installs without a model.
+ */
+export function createMockProvider(response?: string): AIProvider {
+  const reply = (request: AICompletionRequest) =>
+    (response ?? promptSubject(request.prompt)).slice(0, request.maxTokens * 4);
+
+  return {
+    name: "mock",
+    model: "mock",
+
+    async complete(request) {
+      return reply(request);
+    },
+
+    async *stream(request) {
+      // Word-sized chunks, like a real model's deltas
+      for (const chunk of reply(request).match(/\S+\s*|\s+/g) || []) {
+        if (request.signal?.aborted) return;
+        yield chunk;
+      }
+    },
+  };
+}
+
+/** FNV-1a, to spread words across the vector */
+function hashWord(word: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < word.length; i++) {
+    hash ^= word.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Bag-of-words vectors: each word (crudely singularised) bumps one
+ * dimension. Notes sharing vocabulary come out similar, which is enough to
+ * exercise search and related notes without a model.
+ */
+export function createMockEmbedder(): EmbeddingProvider {
+  return {
+    name: "mock",
+    model: "mock",
+
+    async embed(texts) {
+      return texts.map((text) => {
+        const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+        for (const word of text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) || []) {
+          vector[hashWord(word.replace(/s$/, "")) % EMBEDDING_DIMENSIONS] += 1;
+        }
+        const norm = Math.hypot(...vector);
+        // pgvector can't take the cosine of a zero vector
+        if (norm === 0) vector[0] = 1;
+        return vector.map((v) => v / (norm || 1));
+      });
+    },
+  };
+}
@@ -0,0 +1,129 @@
+import { EMBEDDING_DIMENSIONS } from "./types";
+import type { AICompletionRequest, AIProvider, EmbeddingProvider } from "./types";
+import { readEventStream } from "./sse";
+
+/** Ollama's OpenAI-compatible endpoint; llama.cpp's server is usually :8080/v1 */
+export const DEFAULT_OPENAI_COMPATIBLE_URL = "http://localhost:11434/v1";
+export const DEFAULT_OPENAI_COMPATIBLE_MODEL = "llama3.2";
+export const DEFAULT_OPENAI_COMPATIBLE_EMBEDDING_MODEL = "nomic-embed-text";
+
+/**
+ * Any server speaking the OpenAI chat completions API: OpenAI itself, or a
+ * local model behind Ollama, llama.cpp, LM Studio or vLLM. Local servers
+ * don't need an API key.
+ */
+export function createOpenAICompatibleProvider({
+  baseUrl = DEFAULT_OPENAI_COMPATIBLE_URL,
+  apiKey,
+  model = DEFAULT_OPENAI_COMPATIBLE_MODEL,
+}: {
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+}): AIProvider {
+  const url = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  const send = async (request: AICompletionRequest, stream: boolean) => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: request.maxTokens,
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        messages: [
+          { role: "system", content: request.system },
+          { role: "user", content: request.prompt },
+        ],
+        stream,
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new Error(`AI endpoint error ${response.status}: ${detail.slice(0, 200)}`);
+    }
+    return response;
+  };
+
+  return {
+    name: "openai-compatible",
+    model,
+
+    async complete(request) {
+      const response = await send(request, false);
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content || "";
+    },
+
+    async *stream(request) {
+      const response = await send(request, true);
+      for await (const data of readEventStream(response)) {
+        if (data === "[DONE]") return;
+        const chunk = JSON.parse(data);
+        const text = chunk.choices?.[0]?.delta?.content;
+        if (text) yield text as string;
+      }
+    },
+  };
+}
+
+/**
+ * Embeddings from any server speaking the OpenAI embeddings API. The default
+ * model, nomic-embed-text, is 768-dimensional; OpenAI's text-embedding-3
+ * models honour the `dimensions` request.
+ */
+export function createOpenAICompatibleEmbedder({
+  baseUrl = DEFAULT_OPENAI_COMPATIBLE_URL,
+  apiKey,
+  model = DEFAULT_OPENAI_COMPATIBLE_EMBEDDING_MODEL,
+}: {
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+}): EmbeddingProvider {
+  const url = `${baseUrl.replace(/\/+$/, "")}/embeddings`;
+
+  return {
+    name: "openai-compatible",
+    model,
+
+    async embed(texts) {
+      if (texts.length === 0) return [];
+
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model, input: texts, dimensions: EMBEDDING_DIMENSIONS }),
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => "");
+        throw new Error(`Embedding endpoint error ${response.status}: ${detail.slice(0, 200)}`);
+      }
+
+      const data = await response.json();
+      const vectors = ((data.data || []) as { index: number; embedding: number[] }[])
+        .sort((a, b) => a.index - b.index)
+        .map((item) => item.embedding);
+
+      if (vectors.length !== texts.length) {
+        throw new Error(`Embedding endpoint returned ${vectors.length} vectors for ${texts.length} inputs`);
+      }
+      const wrong = vectors.find((v) => v.length !== EMBEDDING_DIMENSIONS);
+      if (wrong) {
+        throw new Error(
+          `${model} returns ${wrong.length}-dimensional vectors; configure a ${EMBEDDING_DIMENSIONS}-dimensional model`,
+        );
+      }
+      return vectors;
+    },
+  };
+}
@@ -0,0 +1,75 @@
+import type { AIProvider, AIProviderName, EmbeddingProvider } from "./types";
+import { createAnthropicProvider } from "./anthropic";
+import { createOpenAICompatibleEmbedder, createOpenAICompatibleProvider } from "./openai-compatible";
+import { createMockEmbedder, createMockProvider } from "./mock";
+
+const PROVIDER_NAMES: AIProviderName[] = ["anthropic", "openai-compatible", "mock"];
+
+/**
+ * The configured AI provider, or null when AI features are switched off.
+ *
+ * AI_PROVIDER picks one explicitly; without it, Anthropic is used when
+ * ANTHROPIC_API_KEY is set. AI_MODEL overrides the provider's default model,
+ * and AI_BASE_URL / AI_API_KEY point openai-compatible at a server.
+ */
+export function getAIProvider(): AIProvider | null {
+  const configured = process.env.AI_PROVIDER?.trim().toLowerCase();
+  const model = process.env.AI_MODEL || undefined;
+
+  if (configured && !PROVIDER_NAMES.includes(configured as AIProviderName)) {
+    console.error(`Unknown AI_PROVIDER "${configured}"`);
+    return null;
+  }
+
+  const name = (configured || (process.env.ANTHROPIC_API_KEY ? "anthropic" : null)) as AIProviderName | null;
+
+  switch (name) {
+    case "anthropic": {
+      const apiKey = process.env.ANTHROPIC_API_KEY;
+      if (!apiKey) {
+        console.error("AI_PROVIDER is anthropic but ANTHROPIC_API_KEY is missing");
+        return null;
+      }
+      return createAnthropicProvider(apiKey, model);
+    }
+    case "openai-compatible":
+      return createOpenAICompatibleProvider({
+        baseUrl: process.env.AI_BASE_URL || undefined,
+        apiKey: process.env.AI_API_KEY || undefined,
+        model,
+      });
+    case "mock":
+      return createMockProvider(process.env.AI_MOCK_RESPONSE);
+    default:
+      return null;
+  }
+}
+
+/**
+ * The configured embedding provider, or null when semantic search is off.
+ *
+ * Anthropic has no embeddings API, so this is set up separately:
+ * AI_EMBEDDING_PROVIDER is openai-compatible or mock. AI_EMBEDDING_MODEL,
+ * AI_EMBEDDING_BASE_URL and AI_EMBEDDING_API_KEY fall back to AI_BASE_URL and
+ * AI_API_KEY, so one local server can do both.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider | null {
+  const configured = process.env.AI_EMBEDDING_PROVIDER?.trim().toLowerCase();
+
+  switch (configured) {
+    case "openai-compatible":
+      return createOpenAICompatibleEmbedder({
+        baseUrl: process.env.AI_EMBEDDING_BASE_URL || process.env.AI_BASE_URL || undefined,
+        apiKey: process.env.AI_EMBEDDING_API_KEY || process.env.AI_API_KEY || undefined,
+        model: process.env.AI_EMBEDDING_MODEL || undefined,
+      });
+    case "mock":
+      return createMockEmbedder();
+    case undefined:
+    case "":
+      return null;
+    default:
+      console.error(`Unknown AI_EMBEDDING_PROVIDER "${configured}"`);
+      return null;
+  }
+}
@@ -0,0 +1,69 @@
+import { checkRateLimit, getRateLimitStatus } from "@/utils/rate-limit";
+import { getSubscriptionLimits } from "@/utils/supabase/subscription";
+
+type SupabaseLike = Parameters<typeof getSubscriptionLimits>[0];
+
+export type AIFeature = "analyze" | "reverse" | "assist" | "search";
+
+interface AIFeatureQuota {
+  /** Rate-limit key; unchanged from before quotas were tiered so counts carry over */
+  key: string;
+  /** Used in limit messages: "Daily {label} limit reached" */
+  label: string;
+  /** Uses per day without SUBSCRIPTION_LIMITS.canUseAI (0 = paid plans only) */
+  free: number;
+  /** Uses per day with canUseAI */
+  paid: number;
+}
+
+export const AI_FEATURES: Record<AIFeature, AIFeatureQuota> = {
+  analyze: { key: "ai-analyze", label: "AI analysis", free: 5, paid: 50 },
+  reverse: { key: "ai-reverse", label: "entry reversal", free: 5, paid: 50 },
+  assist: { key: "ai-assist", label: "AI writing help", free: 10, paid: 200 },
+  search: { key: "ai-search", label: "search by meaning", free: 50, paid: 1000 },
+};
+
+const QUOTA_WINDOW = 24 * 60 * 60 * 1000; // 24 hours
+
+export interface AIQuota {
+  allowed: boolean;
+  remaining: number;
+  resetAt: number;
+  limit: number;
+}
+
+async function getDailyLimit(supabase: SupabaseLike, userId: string, feature: AIFeature) {
+  const { canUseAI } = await getSubscriptionLimits(supabase, userId);
+  const quota = AI_FEATURES[feature];
+  return canUseAI ? quota.paid : quota.free;
+}
+
+/** Count one use of `feature` against the user's daily quota for their plan. */
+export async function consumeAIQuota(
+  supabase: SupabaseLike,
+  userId: string,
+  feature: AIFeature,
+): Promise<AIQuota> {
+  const limit = await getDailyLimit(supabase, userId, feature);
+  if (limit === 0) {
+    return { allowed: false, remaining: 0, resetAt: Date.now(), limit };
+  }
+
+  const result = await checkRateLimit(userId, AI_FEATURES[feature].key, limit, QUOTA_WINDOW);
+  return { ...result, limit };
+}
+
+/** The user's quota for `feature` without using any of it. */
+export async function getAIQuotaStatus(
+  supabase: SupabaseLike,
+  userId: string,
+  feature: AIFeature,
+): Promise<AIQuota> {
+  const limit = await getDailyLimit(supabase, userId, feature);
+  if (limit === 0) {
+    return { allowed: false, remaining: 0, resetAt: Date.now(), limit };
+  }
+
+  const result = await getRateLimitStatus(userId, AI_FEATURES[feature].key, limit, QUOTA_WINDOW);
+  return { ...result, limit };
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/utils/supabase/server";
+import { getAIProvider } from "./provider";
+import { AI_FEATURES, AIFeature, AIQuota } from "./quota";
+import type { AIProvider } from "./types";
+
+/**
+ * The checks every /api/ai route starts with: a signed-in user and a
+ * configured provider. Returns the response to send when either is missing.
+ */
+export async function authorizeAIRequest(): Promise<
+  | { response: NextResponse }
+  | { supabase: Awaited<ReturnType<typeof createClient>>; userId: string; provider: AIProvider }
+> {
+  const supabase = await createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return {
+      response: NextResponse.json({ error: "Authentication required" }, { status: 401 }),
+    };
+  }
+
+  const provider = getAIProvider();
+  if (!provider) {
+    return {
+      response: NextResponse.json({ error: "AI features are not configured." }, { status: 503 }),
+    };
+  }
+
+  return { supabase, userId: user.id, provider };
+}
+
+/** The response for a request the user's quota doesn't allow. */
+export function aiQuotaExceededResponse(feature: AIFeature, quota: AIQuota): NextResponse {
+  const { label } = AI_FEATURES[feature];
+
+  if (quota.limit === 0) {
+    return NextResponse.json(
+      {
+        error: `${label.charAt(0).toUpperCase()}${label.slice(1)} is available on Pro and Team plans.`,
+        upgradeRequired: true,
+      },
+      { status: 403 },
+    );
+  }
+
+  const resetIn = Math.max(1, Math.ceil((quota.resetAt - Date.now()) / (60 * 60 * 1000)));
+  return NextResponse.json(
+    {
+      error: `Daily ${label} limit reached (${quota.limit}/day). Resets in ${resetIn} hours.`,
+      rateLimitExceeded: true,
+      resetAt: quota.resetAt,
+    },
+    { status: 429 },
+  );
+}
@@ -0,0 +1,37 @@
+export type AIProviderName = "anthropic" | "openai-compatible" | "mock";
+
+export interface AICompletionRequest {
+  system: string;
+  prompt: string;
+  maxTokens: number;
+  /** Provider default when omitted */
+  temperature?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * A language model the AI routes can talk to. Providers throw on transport
+ * or API errors; callers turn that into their own response.
+ */
+export interface AIProvider {
+  name: AIProviderName;
+  model: string;
+  /** The whole reply as one string */
+  complete(request: AICompletionRequest): Promise<string>;
+  /** The reply as text deltas, in order */
+  stream(request: AICompletionRequest): AsyncIterable<string>;
+}
+
+/**
+ * Width of the vectors stored in note_chunks.embedding. Embedding models
+ * must produce (or be asked for) exactly this many dimensions.
+ */
+export const EMBEDDING_DIMENSIONS = 768;
+
+/** Turns text into vectors for semantic search and related notes. */
+export interface EmbeddingProvider {
+  name: Exclude<AIProviderName, "anthropic">;
+  model: string;
+  /** One vector of EMBEDDING_DIMENSIONS per input, in order */
+  embed(texts: string[]): Promise<number[][]>;
+}
@@ -0,0 +1,809 @@
+// src/utils/bulk-import.ts
+// Bulk import of whole collections: ZIP archives or picked folders of
+// markdown (Obsidian vaults, Notion exports, Just Noted exports), Evernote
+// ENEX files and Just Noted JSON exports/backups.
+//
+// Reading and writing are separate steps. `readImportSources` parses
+// everything into notes with a notebook path, and `planImport` matches those
+// against what the user already has. The preview can then show exactly what
+// will be created, reused or skipped before anything is saved.
+
+import { unzipSync } from "fflate";
+import type { CombinedNote, ContentFormat } from "@/types/combined-notes";
+import type { CoverType, Notebook } from "@/types/notebook";
+import type { Tag } from "@/types/tag";
+import { EXPORT_MANIFEST_FILE, type ExportManifest } from "@/utils/export-notes";
+import { htmlToMarkdown } from "@/utils/html-to-markdown";
+import { VALIDATION_LIMITS, validateNoteContentLength } from "@/utils/validation";
+
+// ===========================
+// TYPES
+// ===========================
+
+export type ImportFormat = "markdown" | "justnoted" | "enex" | "backup";
+
+export interface ImportedNote {
+  /** Where the note came from, shown in the preview */
+  source: string;
+  /** Id in the app it came from (Just Noted exports and backups) */
+  originalId?: string;
+  /** Notebook id carried by Just Noted JSON; used if that notebook still exists */
+  notebookId?: string | null;
+  title: string;
+  content: string;
+  contentFormat: ContentFormat;
+  /** Notebook path, outermost first; empty for loose notes */
+  folder: string[];
+  tags: string[];
+  isPinned: boolean;
+  isPrivate: boolean;
+  goal: number;
+  goalType: "words" | "characters" | "";
+  createdAt: number | null;
+  updatedAt: number | null;
+}
+
+export interface SkippedImport {
+  source: string;
+  reason: string;
+}
+
+export interface ParsedImport {
+  formats: ImportFormat[];
+  notes: ImportedNote[];
+  skipped: SkippedImport[];
+  /** Tag colours from a Just Noted export, keyed by lowercase name */
+  tagColors: Record<string, string>;
+  /** Notebook covers from a Just Noted export, keyed by notebook path */
+  notebookCovers: Record<string, { coverType: CoverType; coverValue: string }>;
+}
+
+export type DuplicateStrategy = "skip" | "keep";
+
+export interface PlannedNotebook {
+  /** Notebook path joined with "/" */
+  key: string;
+  name: string;
+  parentKey: string | null;
+  /** Set when the notebook already exists and will be reused */
+  existingId: string | null;
+  cover?: { coverType: CoverType; coverValue: string };
+}
+
+export interface PlannedTag {
+  name: string;
+  color?: string;
+  existingId: string | null;
+}
+
+export interface PlannedNote extends ImportedNote {
+  notebookKey: string | null;
+  /** Conflicts and changes worth showing in the preview */
+  issues: string[];
+  skip: boolean;
+}
+
+export interface ImportPlan {
+  notebooks: PlannedNotebook[];
+  tags: PlannedTag[];
+  notes: PlannedNote[];
+  skipped: SkippedImport[];
+}
+
+interface ArchiveEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+type EntryKind = "markdown" | "html" | "enex" | "json" | "attachment" | "ignored";
+
+type FrontMatterValue = string | number | boolean | string[] | null;
+
+type JsonNote = Partial<Omit<CombinedNote, "createdAt" | "updatedAt">> & {
+  pinned?: boolean;
+  goalType?: string;
+  createdAt?: string | number;
+  updatedAt?: string | number;
+};
+
+// ===========================
+// CONSTANTS
+// ===========================
+
+/** Accept attribute for the bulk import file picker. */
+export const BULK_IMPORT_ACCEPT =
+  ".zip,.enex,.json,.md,.markdown,.mdown,.mkd,.txt,.text,.html,.htm";
+
+const MAX_SOURCE_SIZE = 100 * 1024 * 1024; // 100 MB per picked file or archive
+// Archives are capped by what they expand to, not just their compressed size.
+// fflate sizes each entry's output from the central directory, so the sizes
+// checked here are the most that will be decompressed.
+const MAX_EXTRACTED_SIZE = 200 * 1024 * 1024; // 200 MB across one archive's entries
+const MAX_NOTEBOOK_DEPTH = 2; // notebooks nest parent > child only
+const MAX_TAG_NAME_LENGTH = 50;
+
+const MARKDOWN_FILE = /\.(md|markdown|mdown|mkd|txt|text)$/i;
+const HTML_FILE = /\.html?$/i;
+// Notion appends a 32-character id to every exported page and folder name
+const NOTION_ID = /\s+[0-9a-f]{32}$/i;
+// .obsidian, .trash, .DS_Store, __MACOSX and friends
+const IGNORED_SEGMENT = /^(\.|__MACOSX$)/;
+
+// ===========================
+// HELPERS
+// ===========================
+
+function emptyParsedImport(): ParsedImport {
+  return { formats: [], notes: [], skipped: [], tagColors: {}, notebookCovers: {} };
+}
+
+function addFormat(result: ParsedImport, format: ImportFormat) {
+  if (!result.formats.includes(format)) result.formats.push(format);
+}
+
+function splitPath(path: string): string[] {
+  return path.replace(/\\/g, "/").split("/").filter(Boolean);
+}
+
+function stripExtension(name: string): string {
+  return name.replace(/\.[^/.]+$/, "").trim();
+}
+
+function cleanName(name: string): string {
+  return name.replace(NOTION_ID, "").trim();
+}
+
+function decode(data: Uint8Array): string {
+  return new TextDecoder().decode(data);
+}
+
+function entryKind(path: string): EntryKind {
+  const segments = splitPath(path);
+  if (segments.length === 0 || path.endsWith("/")) return "ignored";
+  if (segments.some((segment) => IGNORED_SEGMENT.test(segment))) return "ignored";
+
+  const name = segments[segments.length - 1];
+  if (MARKDOWN_FILE.test(name)) return "markdown";
+  if (HTML_FILE.test(name)) return "html";
+  if (/\.enex$/i.test(name)) return "enex";
+  if (/\.json$/i.test(name)) return "json";
+  return "attachment";
+}
+
+/** Single folder every path sits in (a vault or archive wrapper), if any. */
+function commonRoot(paths: string[]): string | null {
+  let root: string | null = null;
+  for (const path of paths) {
+    const segments = splitPath(path);
+    if (segments.length < 2) return null;
+    if (root === null) root = segments[0];
+    else if (segments[0] !== root) return null;
+  }
+  return root;
+}
+
+function parseTime(value: unknown): number | null {
+  if (typeof value !== "string" && typeof value !== "number") return null;
+  const time = typeof value === "number" ? value : Date.parse(value);
+  return Number.isFinite(time) ? time : null;
+}
+
+function asString(value: FrontMatterValue | undefined): string {
+  return typeof value === "string" || typeof value === "number" ? String(value).trim() : "";
+}
+
+function asGoalType(value: unknown): ImportedNote["goalType"] {
+  return value === "words" || value === "characters" ? value : "";
+}
+
+/** Tags from front matter: a list, or a comma/space separated string. */
+function asTags(value: FrontMatterValue | undefined): string[] {
+  const raw = Array.isArray(value)
+    ? value
+    : typeof value === "string"
+      ? value.split(/[,\s]+/)
+      : [];
+  return uniqueTags(raw);
+}
+
+function uniqueTags(names: string[]): string[] {
+  const seen = new Set<string>();
+  const tags: string[] = [];
+  for (const name of names) {
+    const tag = String(name).trim().replace(/^#/, "");
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    tags.push(tag);
+  }
+  return tags;
+}
+
+// ===========================
+// FRONT MATTER
+// ===========================
+
+function yamlScalar(raw: string): FrontMatterValue {
+  const value = raw.trim();
+  if (value.startsWith('"') && value.endsWith('"') && value.length > 1) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length > 1) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (/^(true|yes)$/i.test(value)) return true;
+  if (/^(false|no)$/i.test(value)) return false;
+  if (value === "" || value === "~" || /^null$/i.test(value)) return null;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  return value;
+}
+
+function yamlInlineList(raw: string): string[] {
+  const items = raw.slice(1, -1).match(/\s*"(?:[^"\\]|\\.)*"|\s*'(?:[^']|'')*'|[^,]+/g) || [];
+  return items
+    .map((item) => yamlScalar(item))
+    .filter((item) => item !== null && item !== "")
+    .map(String);
+}
+
+/**
+ * Split YAML front matter off a markdown file. Only the flat subset note
+ * apps write is understood: `key: value`, inline `[a, b]` lists and `- item`
+ * block lists. Keys are lowercased.
+ */
+export function parseFrontMatter(text: string): {
+  data: Record<string, FrontMatterValue>;
+  body: string;
+} {
+  const match = text.match(/^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) return { data: {}, body: text };
+
+  const data: Record<string, FrontMatterValue> = {};
+  let listKey: string | null = null;
+
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && listKey) {
+      const value = yamlScalar(item[1]);
+      if (value !== null) (data[listKey] as string[]).push(String(value));
+      continue;
+    }
+
+    const pair = line.match(/^([\w-]+)\s*:\s*(.*)$/);
+    if (!pair) {
+      listKey = null;
+      continue;
+    }
+
+    const key = pair[1].toLowerCase();
+    const raw = pair[2].trim();
+    listKey = null;
+    if (raw === "") {
+      data[key] = [];
+      listKey = key;
+    } else if (raw.startsWith("[") && raw.endsWith("]")) {
+      data[key] = yamlInlineList(raw);
+    } else {
+      data[key] = yamlScalar(raw);
+    }
+  }
+
+  return { data, body: text.slice(match[0].length).replace(/^\s*\n/, "") };
+}
+
+// ===========================
+// READERS
+// ===========================
+
+function markdownNote(path: string, text: string): ImportedNote {
+  const segments = splitPath(path);
+  const filename = segments.pop() || "";
+  const { data, body } = parseFrontMatter(text);
+
+  return {
+    source: path,
+    originalId: asString(data.id) || undefined,
+    title: asString(data.title) || cleanName(stripExtension(filename)) || "Imported note",
+    content: body,
+    contentFormat: "markdown",
+    folder: segments.map(cleanName).filter(Boolean),
+    tags: asTags(data.tags ?? data.tag),
+    isPinned: data.pinned === true,
+    isPrivate: data.private === true,
+    goal: typeof data.goal === "number" ? data.goal : 0,
+    goalType: asGoalType(data.goal_type),
+    createdAt: parseTime(data.created ?? data.date ?? data.created_at),
+    updatedAt: parseTime(data.updated ?? data.modified ?? data.updated_at),
+  };
+}
+
+function htmlNote(path: string, html: string): ImportedNote {
+  const segments = splitPath(path);
+  const filename = segments.pop() || "";
+  const doc = new DOMParser().parseFromString(html, "text/html");
+
+  return {
+    source: path,
+    title: doc.title.trim() || cleanName(stripExtension(filename)) || "Imported note",
+    content: htmlToMarkdown(doc.body.innerHTML),
+    contentFormat: "markdown",
+    folder: segments.map(cleanName).filter(Boolean),
+    tags: [],
+    isPinned: false,
+    isPrivate: false,
+    goal: 0,
+    goalType: "",
+    createdAt: null,
+    updatedAt: null,
+  };
+}
+
+/** ENEX timestamps look like `20240131T093000Z`. */
+function parseEnexTime(value: string): number | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s] = match.map(Number);
+  return Date.UTC(y, mo - 1, d, h, mi, s);
+}
+
+function enmlToMarkdown(enml: string): string {
+  const doc = new DOMParser().parseFromString(enml, "text/html");
+  doc.querySelectorAll("en-todo").forEach((todo) => {
+    const checked = todo.getAttribute("checked") === "true";
+    todo.replaceWith(doc.createTextNode(checked ? "[x] " : "[ ] "));
+  });
+  doc.querySelectorAll("en-media, en-crypt").forEach((el) => el.remove());
+  return htmlToMarkdown(doc.body.innerHTML);
+}
+
+function readEnex(path: string, xml: string, result: ParsedImport) {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    result.skipped.push({ source: path, reason: "Not a valid Evernote export" });
+    return;
+  }
+
+  // Evernote exports one notebook per file, named after the notebook
+  const notebook = cleanName(stripExtension(splitPath(path).pop() || ""));
+  const childText = (el: Element, tag: string) =>
+    el.getElementsByTagName(tag)[0]?.textContent?.trim() || "";
+
+  for (const el of Array.from(doc.getElementsByTagName("note"))) {
+    const title = childText(el, "title") || "Untitled";
+    const source = `${path} › ${title}`;
+
+    result.notes.push({
+      source,
+      title,
+      content: enmlToMarkdown(childText(el, "content")),
+      contentFormat: "markdown",
+      folder: notebook ? [notebook] : [],
+      tags: uniqueTags(
+        Array.from(el.getElementsByTagName("tag")).map((tag) => tag.textContent || ""),
+      ),
+      isPinned: false,
+      isPrivate: false,
+      goal: 0,
+      goalType: "",
+      createdAt: parseEnexTime(childText(el, "created")),
+      updatedAt: parseEnexTime(childText(el, "updated")),
+    });
+
+    const attachments = el.getElementsByTagName("resource").length;
+    if (attachments > 0) {
+      result.skipped.push({
+        source,
+        reason: `${attachments} attachment${attachments === 1 ? "" : "s"} not imported`,
+      });
+    }
+  }
+  addFormat(result, "enex");
+}
+
+/** A note as written by the JSON export or inside a backup's `fullNote`. */
+function jsonNote(source: string, note: JsonNote, content: string): ImportedNote {
+  return {
+    source,
+    originalId: typeof note.id === "string" ? note.id : undefined,
+    notebookId: note.notebookId ?? null,
+    title: (typeof note.title === "string" && note.title.trim()) || "Untitled",
+    content,
+    contentFormat: note.contentFormat === "markdown" ? "markdown" : "html",
+    folder: [],
+    tags: [],
+    isPinned: !!(note.isPinned ?? note.pinned),
+    isPrivate: !!note.isPrivate,
+    goal: typeof note.goal === "number" ? note.goal : 0,
+    goalType: asGoalType(note.goal_type ?? note.goalType),
+    createdAt: parseTime(note.createdAt),
+    updatedAt: parseTime(note.updatedAt),
+  };
+}
+
+interface BackupRecord {
+  noteId: string;
+  timestamp: number;
+  title?: string;
+  content: string;
+  fullNote?: Partial<CombinedNote>;
+}
+
+function isBackupRecord(value: unknown): value is BackupRecord {
+  const record = value as BackupRecord;
+  return (
+    !!record &&
+    typeof record.noteId === "string" &&
+    typeof record.timestamp === "number" &&
+    typeof record.content === "string"
+  );
+}
+
+/** `NotesBackupManager.exportBackups`: the latest snapshot of each note. */
+function readBackups(path: string, backups: unknown[], result: ParsedImport) {
+  const latest = new Map<string, BackupRecord>();
+  let unreadable = 0;
+
+  for (const backup of backups) {
+    if (!isBackupRecord(backup) || backup.content === "[DECRYPTION_FAILED]") {
+      unreadable++;
+      continue;
+    }
+    const previous = latest.get(backup.noteId);
+    if (!previous || backup.timestamp > previous.timestamp) latest.set(backup.noteId, backup);
+  }
+
+  latest.forEach((backup) => {
+    const note = jsonNote(
+      `${path} › ${backup.title || backup.noteId}`,
+      { ...backup.fullNote, id: backup.noteId, title: backup.fullNote?.title ?? backup.title },
+      backup.content,
+    );
+    // Backups can predate the note's last edit, so prefer the snapshot time
+    note.updatedAt = backup.timestamp;
+    result.notes.push(note);
+  });
+
+  if (unreadable > 0) {
+    result.skipped.push({
+      source: path,
+      reason: `${unreadable} backup${unreadable === 1 ? "" : "s"} could not be read`,
+    });
+  }
+  addFormat(result, "backup");
+}
+
+function readJson(path: string, text: string, result: ParsedImport) {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    result.skipped.push({ source: path, reason: "Not valid JSON" });
+    return;
+  }
+
+  const backups = (data as { backups?: unknown }).backups;
+  if (Array.isArray(backups)) {
+    readBackups(path, backups, result);
+    return;
+  }
+
+  // Older versions of "Export" wrote a plain array of notes
+  if (Array.isArray(data) && data.every((item) => item && typeof item.content === "string")) {
+    data.forEach((item, i) => {
+      result.notes.push(jsonNote(`${path} › ${item.title || `#${i + 1}`}`, item, item.content));
+    });
+    addFormat(result, "justnoted");
+    return;
+  }
+
+  result.skipped.push({ source: path, reason: "Not a Just Noted export or backup" });
+}
+
+function isManifest(value: unknown): value is ExportManifest {
+  const manifest = value as ExportManifest;
+  return (
+    !!manifest &&
+    manifest.app === "justnoted" &&
+    Array.isArray(manifest.notes) &&
+    Array.isArray(manifest.notebooks)
+  );
+}
+
+/** Notes listed in a Just Noted export's manifest, with their real notebook names. */
+function readManifest(
+  manifest: ExportManifest,
+  files: Map<string, Uint8Array>,
+  handled: Set<string>,
+  result: ParsedImport,
+) {
+  const byId = new Map(manifest.notebooks.map((nb) => [nb.id, nb]));
+  const notebookPath = (id: string | null): string[] => {
+    const notebook = id ? byId.get(id) : undefined;
+    if (!notebook) return [];
+    const parent = notebook.parentId ? byId.get(notebook.parentId) : undefined;
+    return parent ? [parent.name, notebook.name] : [notebook.name];
+  };
+
+  for (const notebook of manifest.notebooks) {
+    result.notebookCovers[notebookPath(notebook.id).join("/")] = {
+      coverType: notebook.coverType,
+      coverValue: notebook.coverValue,
+    };
+  }
+  for (const tag of manifest.tags || []) {
+    result.tagColors[tag.name.toLowerCase()] = tag.color;
+  }
+
+  for (const entry of manifest.notes) {
+    const data = files.get(entry.file);
+    if (!data) {
+      result.skipped.push({ source: entry.file, reason: "Listed in manifest.json but missing" });
+      continue;
+    }
+    handled.add(entry.file);
+
+    result.notes.push({
+      source: entry.file,
+      originalId: entry.id,
+      title: entry.title || "Untitled",
+      content: parseFrontMatter(decode(data)).body,
+      contentFormat: "markdown",
+      folder: notebookPath(entry.notebookId),
+      tags: uniqueTags(entry.tags || []),
+      isPinned: !!entry.isPinned,
+      isPrivate: !!entry.isPrivate,
+      goal: entry.goal || 0,
+      goalType: asGoalType(entry.goalType),
+      createdAt: parseTime(entry.createdAt),
+      updatedAt: parseTime(entry.updatedAt),
+    });
+  }
+  addFormat(result, "justnoted");
+}
+
+function readEntries(entries: ArchiveEntry[], result: ParsedImport) {
+  // Drop the vault or wrapper folder everything sits in, so its subfolders
+  // become top-level notebooks
+  const root = commonRoot(entries.map((entry) => entry.path));
+  const relative = entries.map((entry) => ({
+    ...entry,
+    path: splitPath(entry.path).slice(root ? 1 : 0).join("/"),
+  }));
+
+  const files = new Map(relative.map((entry) => [entry.path, entry.data]));
+  const handled = new Set<string>();
+
+  const manifestData = files.get(EXPORT_MANIFEST_FILE);
+  if (manifestData) {
+    let manifest: unknown = null;
+    try {
+      manifest = JSON.parse(decode(manifestData));
+    } catch {
+      // Not ours; read the archive as plain markdown
+    }
+    if (isManifest(manifest)) {
+      handled.add(EXPORT_MANIFEST_FILE);
+      readManifest(manifest, files, handled, result);
+    }
+  }
+
+  for (const entry of relative) {
+    if (handled.has(entry.path)) continue;
+
+    switch (entryKind(entry.path)) {
+      case "markdown":
+        result.notes.push(markdownNote(entry.path, decode(entry.data)));
+        addFormat(result, "markdown");
+        break;
+      case "html":
+        result.notes.push(htmlNote(entry.path, decode(entry.data)));
+        addFormat(result, "markdown");
+        break;
+      case "enex":
+        readEnex(entry.path, decode(entry.data), result);
+        break;
+      case "json":
+        readJson(entry.path, decode(entry.data), result);
+        break;
+      case "attachment":
+        result.skipped.push({ source: entry.path, reason: "Attachments aren't imported" });
+        break;
+    }
+  }
+}
+
+/**
+ * Parse picked files into importable notes. Accepts ZIP archives, the files
+ * of a picked folder (paths from `webkitRelativePath`), ENEX, JSON and loose
+ * markdown/HTML files. Nothing is saved.
+ */
+export async function readImportSources(files: FileList | File[]): Promise<ParsedImport> {
+  const result = emptyParsedImport();
+  const loose: ArchiveEntry[] = [];
+
+  for (const file of Array.from(files)) {
+    const path = file.webkitRelativePath || file.name;
+
+    if (/\.zip$/i.test(file.name)) {
+      if (file.size > MAX_SOURCE_SIZE) {
+        result.skipped.push({ source: path, reason: "Larger than 100 MB" });
+        continue;
+      }
+      try {
+        // Attachments and oversized entries are skipped without being decompressed
+        let extracted = 0;
+        const unzipped = unzipSync(new Uint8Array(await file.arrayBuffer()), {
+          filter: (info) => {
+            const kind = entryKind(info.name);
+            if (kind === "ignored") return false;
+            if (kind === "attachment") {
+              result.skipped.push({ source: info.name, reason: "Attachments aren't imported" });
+              return false;
+            }
+            if (info.originalSize > MAX_SOURCE_SIZE) {
+              result.skipped.push({ source: info.name, reason: "Larger than 100 MB" });
+              return false;
+            }
+            if (extracted + info.originalSize > MAX_EXTRACTED_SIZE) {
+              result.skipped.push({
+                source: info.name,
+                reason: "Archive expands to more than 200 MB",
+              });
+              return false;
+            }
+            extracted += info.originalSize;
+            return true;
+          },
+        });
+        readEntries(
+          Object.entries(unzipped).map(([name, data]) => ({ path: name, data })),
+          result,
+        );
+      } catch {
+        result.skipped.push({ source: path, reason: "Not a valid ZIP archive" });
+      }
+      continue;
+    }
+
+    const kind = entryKind(path);
+    if (kind === "ignored") continue;
+    if (kind === "attachment") {
+      result.skipped.push({ source: path, reason: "Attachments aren't imported" });
+      continue;
+    }
+    if (file.size > MAX_SOURCE_SIZE) {
+      result.skipped.push({ source: path, reason: "Larger than 100 MB" });
+      continue;
+    }
+    loose.push({ path, data: new Uint8Array(await file.arrayBuffer()) });
+  }
+
+  if (loose.length > 0) readEntries(loose, result);
+  return result;
+}
+
+// ===========================
+// PLANNING
+// ===========================
+
+/**
+ * Dry run: decide which notebooks and tags to create or reuse and which
+ * notes conflict with existing ones. Existing notebooks and tags are matched
+ * by name (case-insensitive). A note is a duplicate if it has the same
+ * original id as an existing note, or the same title in the same notebook.
+ */
+export function planImport(
+  parsed: ParsedImport,
+  existing: { notes: CombinedNote[]; notebooks: Notebook[]; tags: Tag[] },
+  duplicates: DuplicateStrategy,
+): ImportPlan {
+  const liveNotes = existing.notes.filter((note) => !note.deletedAt);
+  const existingIds = new Set(liveNotes.map((note) => note.id));
+  const notebookById = new Map(existing.notebooks.map((nb) => [nb.id, nb]));
+  const findNotebook = (name: string, parentId: string | null) =>
+    existing.notebooks.find(
+      (nb) => (nb.parentId || null) === parentId && nb.name.toLowerCase() === name.toLowerCase(),
+    );
+
+  const notebooks = new Map<string, PlannedNotebook>();
+  const ensureNotebook = (path: string[]): PlannedNotebook => {
+    const key = path.join("/");
+    const planned = notebooks.get(key);
+    if (planned) return planned;
+
+    const parent = path.length > 1 ? ensureNotebook(path.slice(0, -1)) : null;
+    const name = path[path.length - 1];
+    const match = !parent || parent.existingId ? findNotebook(name, parent?.existingId ?? null) : undefined;
+    const notebook: PlannedNotebook = {
+      key,
+      name: match?.name ?? name,
+      parentKey: parent?.key ?? null,
+      existingId: match?.id ?? null,
+      cover: parsed.notebookCovers[key],
+    };
+    notebooks.set(key, notebook);
+    return notebook;
+  };
+
+  const notes: PlannedNote[] = parsed.notes.map((note) => {
+    const issues: string[] = [];
+    let skip = false;
+
+    // A notebook id from Just Noted JSON only counts if it's still around
+    const knownNotebook = note.notebookId ? notebookById.get(note.notebookId) : undefined;
+    let folder = knownNotebook
+      ? [
+          ...(knownNotebook.parentId && notebookById.get(knownNotebook.parentId)
+            ? [notebookById.get(knownNotebook.parentId)!.name]
+            : []),
+          knownNotebook.name,
+        ]
+      : note.folder.map((name) => name.slice(0, VALIDATION_LIMITS.NOTEBOOK_NAME_MAX).trim());
+    if (folder.length > MAX_NOTEBOOK_DEPTH) {
+      folder = folder.slice(0, MAX_NOTEBOOK_DEPTH);
+      issues.push(`Folders nest deeper than notebooks can; goes into "${folder.join(" / ")}"`);
+    }
+
+    const notebook = folder.length > 0 ? ensureNotebook(folder) : null;
+    const targetNotebookId = notebook ? notebook.existingId : null;
+    const title = note.title.slice(0, VALIDATION_LIMITS.NOTE_TITLE_MAX);
+
+    const sameTitle =
+      (!notebook || notebook.existingId) &&
+      liveNotes.some(
+        (existingNote) =>
+          (existingNote.notebookId || null) === targetNotebookId &&
+          existingNote.title.trim().toLowerCase() === title.trim().toLowerCase(),
+      );
+    if ((note.originalId && existingIds.has(note.originalId)) || sameTitle) {
+      issues.push(
+        sameTitle ? `A note titled "${title}" already exists here` : "Already in your notes",
+      );
+      skip = duplicates === "skip";
+    }
+
+    if (!validateNoteContentLength(note.content).valid) {
+      issues.push("Too long to import");
+      skip = true;
+    }
+
+    const tags = note.tags.filter((tag) => tag.length <= MAX_TAG_NAME_LENGTH);
+    if (tags.length < note.tags.length) {
+      issues.push(`Tags longer than ${MAX_TAG_NAME_LENGTH} characters are left off`);
+    }
+
+    return { ...note, title, tags, notebookKey: notebook?.key ?? null, issues, skip };
+  });
+
+  const imported = notes.filter((note) => !note.skip);
+
+  // Only notebooks something lands in (and their parents); parents come first
+  const usedKeys = new Set<string>();
+  for (const note of imported) {
+    for (let key = note.notebookKey; key; key = notebooks.get(key)?.parentKey ?? null) {
+      usedKeys.add(key);
+    }
+  }
+
+  const tags = new Map<string, PlannedTag>();
+  for (const name of imported.flatMap((note) => note.tags)) {
+    const lower = name.toLowerCase();
+    if (tags.has(lower)) continue;
+    const match = existing.tags.find((tag) => tag.name.toLowerCase() === lower);
+    tags.set(lower, {
+      name: match?.name ?? name,
+      color: parsed.tagColors[lower],
+      existingId: match?.id ?? null,
+    });
+  }
+
+  return {
+    notebooks: Array.from(notebooks.values()).filter((nb) => usedKeys.has(nb.key)),
+    tags: Array.from(tags.values()),
+    notes,
+    skipped: parsed.skipped,
+  };
+}
@@ -0,0 +1,295 @@
+// src/utils/collab-provider.ts
+// Yjs provider that relays document and awareness updates over private
+// Supabase Realtime broadcast channels. Each note has two: `collab:<id>`
+// carries document updates and only the owner and editors may send on it;
+// `collab-presence:<id>` carries presence, cursors and sync requests from
+// everyone with access, viewers included.
+
+import * as Y from "yjs";
+import {
+  Awareness,
+  applyAwarenessUpdate,
+  encodeAwarenessUpdate,
+  removeAwarenessStates,
+} from "y-protocols/awareness";
+import type { RealtimeChannel, SupabaseClient } from "@supabase/supabase-js";
+import type { CollaboratorRole, UserPresence } from "@/types/subscription";
+
+// ===========================
+// TYPES
+// ===========================
+
+export interface CollabUser {
+  userId: string;
+  displayName: string;
+  avatarUrl?: string | null;
+  role: CollaboratorRole;
+}
+
+export interface CollabPeer extends UserPresence {
+  role: CollaboratorRole;
+  color: string;
+}
+
+type PeersListener = (peers: CollabPeer[]) => void;
+
+const REMOTE_ORIGIN = "remote";
+const SYNC_TIMEOUT = 1500;
+
+const CURSOR_COLORS = [
+  "#ef4444",
+  "#f97316",
+  "#eab308",
+  "#22c55e",
+  "#06b6d4",
+  "#3b82f6",
+  "#8b5cf6",
+  "#ec4899",
+];
+
+// ===========================
+// HELPERS
+// ===========================
+
+export function colorForUser(userId: string): string {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return CURSOR_COLORS[Math.abs(hash) % CURSOR_COLORS.length];
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// ===========================
+// PROVIDER
+// ===========================
+
+export class SupabaseYjsProvider {
+  readonly doc: Y.Doc;
+  readonly awareness: Awareness;
+
+  private channel: RealtimeChannel;
+  private room: RealtimeChannel;
+  private user: CollabUser;
+  private writers: Set<string>;
+  private synced = false;
+  private syncWaiters: Array<() => void> = [];
+  private peersListeners = new Set<PeersListener>();
+
+  /** `writers` are the user ids allowed to change the document: the owner and editors. */
+  constructor(supabase: SupabaseClient, noteId: string, user: CollabUser, writers: string[]) {
+    this.doc = new Y.Doc();
+    this.awareness = new Awareness(this.doc);
+    this.user = user;
+    this.writers = new Set(writers);
+
+    const color = colorForUser(user.userId);
+    this.awareness.setLocalStateField("user", {
+      name: user.displayName,
+      color,
+    });
+
+    this.channel = supabase.channel(`collab:${noteId}`, {
+      config: { private: true, broadcast: { self: false } },
+    });
+    this.room = supabase.channel(`collab-presence:${noteId}`, {
+      config: {
+        private: true,
+        broadcast: { self: false },
+        presence: { key: user.userId },
+      },
+    });
+
+    this.channel
+      .on("broadcast", { event: "update" }, ({ payload }) => {
+        if (!this.isWriter(payload.from)) return;
+        Y.applyUpdate(this.doc, fromBase64(payload.update), REMOTE_ORIGIN);
+      })
+      .on("broadcast", { event: "sync-response" }, ({ payload }) => {
+        if (!this.isWriter(payload.from)) return;
+        Y.applyUpdate(this.doc, fromBase64(payload.update), REMOTE_ORIGIN);
+        this.markSynced();
+      });
+
+    this.room
+      .on("broadcast", { event: "sync-request" }, ({ payload }) => {
+        // Writers reply with whatever the requester is missing
+        if (this.canWrite()) {
+          const diff = Y.encodeStateAsUpdate(this.doc, fromBase64(payload.stateVector));
+          this.send("sync-response", { update: toBase64(diff) });
+        }
+        this.broadcastAwareness();
+      })
+      .on("broadcast", { event: "awareness" }, ({ payload }) => {
+        applyAwarenessUpdate(this.awareness, fromBase64(payload.update), REMOTE_ORIGIN);
+      })
+      .on("presence", { event: "sync" }, () => {
+        this.notifyPeers();
+      });
+
+    this.doc.on("update", this.handleDocUpdate);
+    this.awareness.on("update", this.handleAwarenessUpdate);
+  }
+
+  connect(): void {
+    // Viewers can't send here, but still receive everyone's changes
+    this.channel.subscribe((status) => {
+      if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+        console.error("Collaboration channel error:", status);
+        this.markSynced();
+      }
+    });
+
+    this.room.subscribe(async (status) => {
+      if (status !== "SUBSCRIBED") {
+        if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+          console.error("Collaboration channel error:", status);
+          // Let the editor fall back to whatever content it already has
+          this.markSynced();
+        }
+        return;
+      }
+
+      const presence: UserPresence & { role: CollaboratorRole } = {
+        odId: this.user.userId,
+        email: "",
+        displayName: this.user.displayName,
+        avatarUrl: this.user.avatarUrl ?? undefined,
+        noteId: this.room.topic.replace(/^realtime:collab-presence:/, ""),
+        lastActiveAt: Date.now(),
+        isEditing: false,
+        role: this.user.role,
+      };
+      await this.room.track(presence);
+
+      this.sendToRoom("sync-request", {
+        stateVector: toBase64(Y.encodeStateVector(this.doc)),
+      });
+      this.broadcastAwareness();
+
+      // If nobody else is in the room there's no one to answer
+      setTimeout(() => this.markSynced(), SYNC_TIMEOUT);
+    });
+  }
+
+  /** Refresh who may change the document, e.g. after a collaborator's role changes. */
+  setWriters(writers: string[]): void {
+    this.writers = new Set(writers);
+  }
+
+  /** Resolves once initial state has been exchanged with peers (or timed out). */
+  whenSynced(): Promise<void> {
+    if (this.synced) return Promise.resolve();
+    return new Promise((resolve) => this.syncWaiters.push(resolve));
+  }
+
+  onPeersChange(cb: PeersListener): () => void {
+    this.peersListeners.add(cb);
+    cb(this.getPeers());
+    return () => {
+      this.peersListeners.delete(cb);
+    };
+  }
+
+  getPeers(): CollabPeer[] {
+    const state = this.room.presenceState<UserPresence & { role: CollaboratorRole }>();
+    const peers: CollabPeer[] = [];
+    for (const [key, entries] of Object.entries(state)) {
+      if (key === this.user.userId || entries.length === 0) continue;
+      const latest = entries[entries.length - 1];
+      peers.push({ ...latest, color: colorForUser(latest.odId) });
+    }
+    return peers;
+  }
+
+  destroy(): void {
+    removeAwarenessStates(this.awareness, [this.doc.clientID], "local");
+    this.doc.off("update", this.handleDocUpdate);
+    this.awareness.off("update", this.handleAwarenessUpdate);
+    this.room.untrack().catch(() => {});
+    this.room.unsubscribe();
+    this.channel.unsubscribe();
+    this.awareness.destroy();
+    this.doc.destroy();
+    this.peersListeners.clear();
+  }
+
+  // ===========================
+  // INTERNALS
+  // ===========================
+
+  private handleDocUpdate = (update: Uint8Array, origin: unknown) => {
+    if (origin === REMOTE_ORIGIN) return;
+    // Viewers never publish document changes (and couldn't send them if they did)
+    if (!this.canWrite()) return;
+    this.send("update", { update: toBase64(update) });
+  };
+
+  private handleAwarenessUpdate = (
+    { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+    origin: unknown,
+  ) => {
+    if (origin === REMOTE_ORIGIN) return;
+    const changed = added.concat(updated, removed);
+    this.sendToRoom("awareness", {
+      update: toBase64(encodeAwarenessUpdate(this.awareness, changed)),
+    });
+  };
+
+  private broadcastAwareness() {
+    this.sendToRoom("awareness", {
+      update: toBase64(encodeAwarenessUpdate(this.awareness, [this.doc.clientID])),
+    });
+  }
+
+  private canWrite() {
+    return this.user.role !== "viewer";
+  }
+
+  /**
+   * Realtime policies already stop viewers sending document updates; this
+   * also drops anything from a peer we don't know to be a writer.
+   */
+  private isWriter(userId: unknown) {
+    return typeof userId === "string" && this.writers.has(userId);
+  }
+
+  /** Document updates, tagged with the sender so peers can check them */
+  private send(event: string, payload: Record<string, string>) {
+    this.channel
+      .send({ type: "broadcast", event, payload: { ...payload, from: this.user.userId } })
+      .catch(() => {});
+  }
+
+  private sendToRoom(event: string, payload: Record<string, string>) {
+    this.room.send({ type: "broadcast", event, payload }).catch(() => {});
+  }
+
+  private markSynced() {
+    if (this.synced) return;
+    this.synced = true;
+    this.syncWaiters.forEach((resolve) => resolve());
+    this.syncWaiters = [];
+  }
+
+  private notifyPeers() {
+    const peers = this.getPeers();
+    this.peersListeners.forEach((cb) => cb(peers));
+  }
+}
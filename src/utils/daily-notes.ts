@@ -0,0 +1,116 @@
+// src/utils/daily-notes.ts
+// Daily notes ("journal mode").
+//
+// A daily note is an ordinary note whose title is the day's date in the
+// configured format, kept in the journal notebook when one is set. Days are
+// matched by title rather than creation time so notes written by hand before
+// journal mode existed are picked up too.
+
+import type { CombinedNote } from "@/types/combined-notes";
+import type { Notebook } from "@/types/notebook";
+import { formatTemplateDate } from "@/utils/note-templates";
+
+// ===========================
+// TYPES
+// ===========================
+
+export interface JournalSettings {
+  /** Notebook new daily notes go into; null keeps them loose */
+  notebookId: string | null;
+  /** Template applied to new daily notes */
+  templateId: string | null;
+  titleFormat: string;
+}
+
+// ===========================
+// CONSTANTS
+// ===========================
+
+export const JOURNAL_SETTINGS_KEY = "justnoted_journal";
+
+export const JOURNAL_TITLE_FORMATS = [
+  "YYYY-MM-DD",
+  "dddd, DD MMMM YYYY",
+  "ddd DD MMM YYYY",
+  "DD/MM/YYYY",
+  "MM/DD/YYYY",
+] as const;
+
+export const DEFAULT_JOURNAL_SETTINGS: JournalSettings = {
+  notebookId: null,
+  templateId: null,
+  titleFormat: JOURNAL_TITLE_FORMATS[0],
+};
+
+// ===========================
+// HELPERS
+// ===========================
+
+export function loadJournalSettings(): JournalSettings {
+  if (typeof window === "undefined") return DEFAULT_JOURNAL_SETTINGS;
+  try {
+    const stored = JSON.parse(localStorage.getItem(JOURNAL_SETTINGS_KEY) || "{}");
+    return { ...DEFAULT_JOURNAL_SETTINGS, ...stored };
+  } catch {
+    return DEFAULT_JOURNAL_SETTINGS;
+  }
+}
+
+/** Drop a journal notebook that no longer exists (or isn't loaded, e.g. signed out). */
+export function resolveJournalSettings(
+  settings: JournalSettings,
+  notebooks: Notebook[],
+): JournalSettings {
+  return notebooks.some((nb) => nb.id === settings.notebookId)
+    ? settings
+    : { ...settings, notebookId: null };
+}
+
+/** Local-time `YYYY-MM-DD`, the key used for calendar days. */
+export function toDateKey(date: Date): string {
+  return formatTemplateDate(date, "YYYY-MM-DD");
+}
+
+export function dailyNoteTitle(date: Date, settings: JournalSettings): string {
+  return formatTemplateDate(date, settings.titleFormat);
+}
+
+/** Live notes that can be daily notes: the journal notebook's, or all of them. */
+function journalNotes(notes: CombinedNote[], settings: JournalSettings): CombinedNote[] {
+  return notes.filter(
+    (note) => !note.deletedAt && (!settings.notebookId || note.notebookId === settings.notebookId),
+  );
+}
+
+export function findDailyNote(
+  notes: CombinedNote[],
+  date: Date,
+  settings: JournalSettings,
+): CombinedNote | null {
+  const title = dailyNoteTitle(date, settings).toLowerCase();
+  return (
+    journalNotes(notes, settings).find((note) => (note.title || "").trim().toLowerCase() === title) ||
+    null
+  );
+}
+
+/** Daily notes for every day of `month`'s month, keyed by `toDateKey`. */
+export function getDailyNotesForMonth(
+  notes: CombinedNote[],
+  month: Date,
+  settings: JournalSettings,
+): Map<string, CombinedNote> {
+  const byTitle = new Map(
+    journalNotes(notes, settings).map((note) => [(note.title || "").trim().toLowerCase(), note]),
+  );
+  const days = new Map<string, CombinedNote>();
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+
+  for (let day = 1; day <= daysInMonth; day++) {
+    const date = new Date(month.getFullYear(), month.getMonth(), day);
+    const note = byTitle.get(dailyNoteTitle(date, settings).toLowerCase());
+    if (note) days.set(toDateKey(date), note);
+  }
+
+  return days;
+}
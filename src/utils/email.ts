@@ -0,0 +1,76 @@
+// ===========================
+// EMAIL (RESEND)
+// ===========================
+//
+// Server-only. Kept out of the "use server" action files so the sending
+// helper can't be called directly from the browser.
+
+export const EMAIL_CONFIG = {
+  FROM: "Just Noted <hello@justnoted.app>",
+  TO_ADMIN: "hello@justnoted.app",
+  NO_REPLY: "Just Noted <no-reply@justnoted.app>",
+} as const;
+
+export function escapeHtml(text: string): string {
+  const map: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#039;',
+  };
+  return text.replace(/[&<>"']/g, (char) => map[char]);
+}
+
+// Accept either RESEND_API_KEY or the shorter RESEND env var name.
+export function getResendApiKey(): string | null {
+  return process.env.RESEND_API_KEY || process.env.RESEND || null;
+}
+
+export async function sendEmail({
+  to,
+  subject,
+  html,
+  from = EMAIL_CONFIG.FROM,
+  replyTo,
+}: {
+  to: string;
+  subject: string;
+  html: string;
+  from?: string;
+  replyTo?: string;
+}): Promise<{ success: boolean; error?: string }> {
+  const apiKey = getResendApiKey();
+  if (!apiKey) {
+    console.error("RESEND_API_KEY / RESEND is missing");
+    return { success: false, error: "Email is not configured" };
+  }
+
+  try {
+    const response = await fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from,
+        to: [to],
+        ...(replyTo ? { reply_to: replyTo } : {}),
+        subject,
+        html,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      console.error("Resend API error:", errorData);
+      return { success: false, error: `Resend API error: ${JSON.stringify(errorData)}` };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Email send failed:", error);
+    return { success: false, error: "Failed to send email" };
+  }
+}
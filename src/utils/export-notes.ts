@@ -1,59 +1,219 @@
+import { zipSync, strToU8, type Zippable } from "fflate";
 import type { CombinedNote } from "@/types/combined-notes";
+import type { Notebook } from "@/types/notebook";
+import type { Tag } from "@/types/tag";
+import { getSortedNotebookTree } from "@/utils/notebook-tree";
+import { htmlToMarkdown } from "@/utils/html-to-markdown";
 
-function sanitizeFilename(name: string): string {
-  return name
-    .replace(/[^a-zA-Z0-9\s\-_]/g, "")
-    .replace(/\s+/g, "-")
-    .toLowerCase()
-    .slice(0, 50) || "untitled";
-}
-
-export function exportAsMarkdownZip(notes: CombinedNote[]) {
-  // We'll create a simple concatenated file since we can't use JSZip without adding a dep.
-  // Instead, export as a single JSON file with all notes, or individual downloads.
-  // For a proper ZIP, we'd need the 'fflate' or 'jszip' package.
-  // For now: export as a single JSON backup file.
-
-  const exportData = notes.map((note) => ({
-    title: note.title,
-    content: note.content,
-    contentFormat: note.contentFormat,
-    isPinned: note.isPinned,
-    isPrivate: note.isPrivate,
-    notebookId: note.notebookId,
-    goal: note.goal,
-    goalType: note.goal_type,
-    createdAt: new Date(note.createdAt).toISOString(),
-    updatedAt: new Date(note.updatedAt).toISOString(),
-  }));
-
-  const json = JSON.stringify(exportData, null, 2);
-  const blob = new Blob([json], { type: "application/json" });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url;
-  a.download = `justnoted-export-${new Date().toISOString().split("T")[0]}.json`;
-  a.click();
-  URL.revokeObjectURL(url);
+// ===========================
+// TYPES
+// ===========================
+
+/**
+ * `manifest.json` at the root of an export archive. Paths are relative to
+ * the archive root; notebooks are listed parents-first so an importer can
+ * recreate them in order.
+ */
+export interface ExportManifest {
+  app: "justnoted";
+  version: 1;
+  exportedAt: string;
+  notebooks: {
+    id: string;
+    name: string;
+    parentId: string | null;
+    folder: string;
+    coverType: Notebook["coverType"];
+    coverValue: string;
+    wordGoal: number;
+  }[];
+  tags: { name: string; color: string }[];
+  notes: {
+    id: string;
+    file: string;
+    title: string;
+    notebookId: string | null;
+    tags: string[];
+    isPinned: boolean;
+    isPrivate: boolean;
+    goal: number;
+    goalType: "words" | "characters" | "";
+    createdAt: string;
+    updatedAt: string;
+  }[];
+}
+
+export interface ExportContext {
+  notebooks: Notebook[];
+  tags: Tag[];
+  noteTagMap: Record<string, string[]>;
+}
+
+// ===========================
+// CONSTANTS
+// ===========================
+
+export const EXPORT_MANIFEST_FILE = "manifest.json";
+
+// ===========================
+// HELPERS
+// ===========================
+
+/** A file or folder name that is safe on every OS but still readable. */
+function safePathSegment(name: string): string {
+  return (
+    name
+      .replace(/[\\/]/g, "-")
+      .replace(/[:*?"<>|\u0000-\u001f]/g, "")
+      .replace(/\s+/g, " ")
+      .replace(/^[.\s]+|[.\s]+$/g, "")
+      .slice(0, 80) || "Untitled"
+  );
+}
+
+/** `name`, or `name (2)`, `name (3)`… if already taken in `used`. */
+function uniqueName(name: string, used: Set<string>): string {
+  let candidate = name;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    candidate = `${name} (${n})`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+function yamlValue(value: string | number | boolean | string[]): string {
+  if (Array.isArray(value)) return `[${value.map((v) => JSON.stringify(v)).join(", ")}]`;
+  // JSON strings are valid YAML double-quoted scalars
+  return typeof value === "string" ? JSON.stringify(value) : String(value);
+}
+
+function frontMatter(fields: Record<string, string | number | boolean | string[] | null | undefined>): string {
+  const lines = Object.entries(fields)
+    .filter(([, value]) => value !== null && value !== undefined && value !== "")
+    .map(([key, value]) => `${key}: ${yamlValue(value!)}`);
+  return `---\n${lines.join("\n")}\n---\n\n`;
 }
 
-export function exportAllAsMarkdownFiles(notes: CombinedNote[]) {
-  // Download each note as a separate .md file
-  // Browsers don't support multi-file download natively, so we concatenate into one .md
-  const content = notes
-    .map((note) => {
-      const header = `# ${note.title}\n\n`;
-      const meta = `> Created: ${new Date(note.createdAt).toLocaleDateString()} | Updated: ${new Date(note.updatedAt).toLocaleDateString()}\n\n`;
-      const separator = "\n\n---\n\n";
-      return header + meta + note.content + separator;
-    })
-    .join("");
+function toMarkdown(note: CombinedNote): string {
+  return note.contentFormat === "markdown" ? note.content : htmlToMarkdown(note.content);
+}
 
-  const blob = new Blob([content], { type: "text/markdown" });
+function downloadBlob(blob: Blob, filename: string) {
   const url = URL.createObjectURL(blob);
   const a = document.createElement("a");
   a.href = url;
-  a.download = `justnoted-all-notes-${new Date().toISOString().split("T")[0]}.md`;
+  a.download = filename;
   a.click();
   URL.revokeObjectURL(url);
 }
+
+/** Folder path for every notebook, mirroring the notebook tree. */
+function notebookFolders(notebooks: Notebook[]): Map<string, string> {
+  const folders = new Map<string, string>();
+  const usedNames = new Map<string, Set<string>>();
+
+  for (const { notebook } of getSortedNotebookTree(notebooks)) {
+    const parentFolder = notebook.parentId ? folders.get(notebook.parentId) : undefined;
+    const siblingsKey = parentFolder ?? "";
+    if (!usedNames.has(siblingsKey)) usedNames.set(siblingsKey, new Set());
+
+    const name = uniqueName(safePathSegment(notebook.name), usedNames.get(siblingsKey)!);
+    folders.set(notebook.id, parentFolder ? `${parentFolder}/${name}` : name);
+  }
+
+  return folders;
+}
+
+// ===========================
+// EXPORT
+// ===========================
+
+/**
+ * Build a ZIP with one markdown file per note, in folders mirroring the
+ * notebook tree. Each file starts with YAML front matter, and
+ * `manifest.json` carries everything needed to import the archive again.
+ */
+export function buildMarkdownZip(
+  notes: CombinedNote[],
+  { notebooks, tags, noteTagMap }: ExportContext,
+): Uint8Array {
+  const folders = notebookFolders(notebooks);
+  const tagNames = new Map(tags.map((tag) => [tag.id, tag.name]));
+  const usedFiles = new Map<string, Set<string>>();
+  const files: Zippable = {};
+
+  const manifest: ExportManifest = {
+    app: "justnoted",
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    notebooks: getSortedNotebookTree(notebooks)
+      .filter(({ notebook }) => folders.has(notebook.id))
+      .map(({ notebook }) => ({
+        id: notebook.id,
+        name: notebook.name,
+        parentId: notebook.parentId || null,
+        folder: folders.get(notebook.id)!,
+        coverType: notebook.coverType,
+        coverValue: notebook.coverValue,
+        wordGoal: notebook.wordGoal,
+      })),
+    tags: tags.map((tag) => ({ name: tag.name, color: tag.color })),
+    notes: [],
+  };
+
+  for (const note of notes) {
+    if (note.deletedAt) continue;
+
+    const folder = (note.notebookId && folders.get(note.notebookId)) || "";
+    if (!usedFiles.has(folder)) usedFiles.set(folder, new Set());
+    const filename = `${uniqueName(safePathSegment(note.title || "Untitled"), usedFiles.get(folder)!)}.md`;
+    const path = folder ? `${folder}/${filename}` : filename;
+
+    const noteTags = (noteTagMap[note.id] || [])
+      .map((tagId) => tagNames.get(tagId))
+      .filter((name): name is string => !!name);
+    const createdAt = new Date(note.createdAt).toISOString();
+    const updatedAt = new Date(note.updatedAt).toISOString();
+
+    const header = frontMatter({
+      id: note.id,
+      title: note.title || "Untitled",
+      notebook: folder || null,
+      tags: noteTags.length > 0 ? noteTags : null,
+      pinned: note.isPinned,
+      private: note.isPrivate,
+      goal: note.goal || null,
+      goal_type: note.goal ? note.goal_type : null,
+      created: createdAt,
+      updated: updatedAt,
+    });
+
+    files[path] = [strToU8(header + toMarkdown(note)), { mtime: new Date(note.updatedAt) }];
+
+    manifest.notes.push({
+      id: note.id,
+      file: path,
+      title: note.title,
+      notebookId: folders.has(note.notebookId || "") ? note.notebookId! : null,
+      tags: noteTags,
+      isPinned: note.isPinned,
+      isPrivate: note.isPrivate,
+      goal: note.goal || 0,
+      goalType: note.goal_type || "",
+      createdAt,
+      updatedAt,
+    });
+  }
+
+  files[EXPORT_MANIFEST_FILE] = strToU8(JSON.stringify(manifest, null, 2));
+  return zipSync(files, { level: 6 });
+}
+
+export function exportAsMarkdownZip(
+  notes: CombinedNote[],
+  context: ExportContext,
+  filename = `justnoted-export-${new Date().toISOString().split("T")[0]}.zip`,
+) {
+  const zip = buildMarkdownZip(notes, context);
+  downloadBlob(new Blob([zip as BlobPart], { type: "application/zip" }), filename);
+}
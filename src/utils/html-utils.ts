@@ -1,4 +1,5 @@
 import type { ContentFormat } from "@/types/combined-notes";
+import type { CommentAnchor } from "@/types/comments";
 
 /**
  * Fast regex-based HTML → plain text.
@@ -17,6 +18,27 @@ export function stripHtmlToText(html: string): string {
     .trim();
 }
 
+/**
+ * HTML → plain text that keeps paragraph, line and list structure, for
+ * handing note content to a language model.
+ */
+export function htmlToPlainText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/p>/gi, "\n\n")
+    .replace(/<\/div>/gi, "\n")
+    .replace(/<h[1-6][^>]*>/gi, "\n")
+    .replace(/<\/h[1-6]>/gi, "\n")
+    .replace(/<li[^>]*>/gi, "\n• ")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
 /**
  * Fast regex-based Markdown → plain text.
  * Safe to call on every keystroke (no DOM allocation).
@@ -66,3 +88,94 @@ export function getPlainTextPreview(
   if (!text) return "";
   return text.length > maxLength ? text.slice(0, maxLength) + "..." : text;
 }
+
+/** All text under `root` as one string, with where each text node starts in it. */
+function indexText(root: Node): { nodes: { node: Text; start: number }[]; text: string } {
+  const nodes: { node: Text; start: number }[] = [];
+  let text = "";
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  let node: Node | null;
+  while ((node = walker.nextNode())) {
+    nodes.push({ node: node as Text, start: text.length });
+    text += node.textContent || "";
+  }
+  return { nodes, text };
+}
+
+function rangeAt(nodes: { node: Text; start: number }[], index: number, length: number): Range | null {
+  // An end offset on a node boundary belongs to the earlier node
+  const locate = (offset: number, isEnd: boolean) => {
+    for (let i = nodes.length - 1; i >= 0; i--) {
+      const { node: textNode, start } = nodes[i];
+      if (isEnd ? start < offset : start <= offset) {
+        return { node: textNode, offset: offset - start };
+      }
+    }
+    return null;
+  };
+
+  const from = locate(index, false);
+  const to = locate(index + length, true);
+  if (!from || !to) return null;
+
+  const range = document.createRange();
+  range.setStart(from.node, from.offset);
+  range.setEnd(to.node, to.offset);
+  return range;
+}
+
+/**
+ * Case-insensitive search for `text` in the rendered text under `root`.
+ * Matches may span several text nodes (e.g. across bold or link marks).
+ */
+export function findTextRange(root: Node, text: string): Range | null {
+  const needle = text.toLowerCase();
+  if (!needle) return null;
+
+  const { nodes, text: combined } = indexText(root);
+  const index = combined.toLowerCase().indexOf(needle);
+  if (index === -1) return null;
+
+  return rangeAt(nodes, index, needle.length);
+}
+
+/**
+ * Find a comment's anchored passage under `root`. The surrounding context
+ * picks the right occurrence of a repeated phrase; when the text around it
+ * has since changed, the first occurrence of the passage itself is used.
+ */
+export function findAnchorRange(root: Node, anchor: CommentAnchor): Range | null {
+  if (!anchor.quote) return null;
+
+  const { nodes, text } = indexText(root);
+  const candidates = [
+    [anchor.contextBefore, anchor.contextAfter],
+    [anchor.contextBefore, ""],
+    ["", anchor.contextAfter],
+    ["", ""],
+  ];
+  for (const [before, after] of candidates) {
+    const index = text.indexOf(before + anchor.quote + after);
+    if (index !== -1) return rangeAt(nodes, index + before.length, anchor.quote.length);
+  }
+  return null;
+}
+
+/** Describe a selection under `root` as an anchor that can be found again later. */
+export function getRangeAnchor(root: Node, range: Range, contextLength = 40): CommentAnchor | null {
+  if (!root.contains(range.commonAncestorContainer)) return null;
+
+  const { text } = indexText(root);
+  const lead = document.createRange();
+  lead.setStart(root, 0);
+  lead.setEnd(range.startContainer, range.startOffset);
+  const start = lead.toString().length;
+  const quote = range.toString();
+  if (!quote.trim()) return null;
+
+  return {
+    quote,
+    contextBefore: text.slice(Math.max(0, start - contextLength), start),
+    contextAfter: text.slice(start + quote.length, start + quote.length + contextLength),
+  };
+}
@@ -0,0 +1,46 @@
+import { importLegacyVersions } from "@/app/actions/versionActions";
+import {
+  LEGACY_VERSIONS_KEY_PREFIX,
+  LegacyNoteVersion,
+  VersionTarget,
+} from "@/types/note-versions";
+
+const inFlight = new Map<string, Promise<void>>();
+
+/**
+ * Move a note's localStorage versions (from before history was kept on the
+ * server) into its server history, then drop the local copy. Runs once per
+ * note; a failed import leaves the local copy for the next try.
+ */
+export function migrateLegacyVersions(target: VersionTarget): Promise<void> {
+  if (typeof window === "undefined") return Promise.resolve();
+
+  const key = `${LEGACY_VERSIONS_KEY_PREFIX}${target.noteId}`;
+  const existing = inFlight.get(key);
+  if (existing) return existing;
+
+  let legacy: LegacyNoteVersion[];
+  try {
+    const stored = localStorage.getItem(key);
+    if (!stored) return Promise.resolve();
+    legacy = JSON.parse(stored);
+  } catch {
+    localStorage.removeItem(key);
+    return Promise.resolve();
+  }
+
+  if (!Array.isArray(legacy) || legacy.length === 0) {
+    localStorage.removeItem(key);
+    return Promise.resolve();
+  }
+
+  const migration = importLegacyVersions(target, legacy)
+    .then((result) => {
+      if (result.success) localStorage.removeItem(key);
+    })
+    .catch((error) => console.error("Failed to migrate local versions:", error))
+    .finally(() => inFlight.delete(key));
+
+  inFlight.set(key, migration);
+  return migration;
+}
@@ -0,0 +1,266 @@
+import { marked, type Token, type Tokens } from "marked";
+import type { CombinedNote } from "@/types/combined-notes";
+import type {
+  CompiledManuscript,
+  ManuscriptBlock,
+  ManuscriptCompileOptions,
+  ManuscriptRun,
+} from "@/types/manuscript";
+import { htmlToMarkdown } from "@/utils/html-to-markdown";
+
+// ===========================
+// CONSTANTS
+// ===========================
+
+// Paragraphs that are only a scene-break glyph: #, * * *, ***, ⁂, ~~~
+const SCENE_BREAK_PATTERN = /^\s*(#|(\*\s*){3}|⁂|~{3}|(-\s*){3})\s*$/;
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+const ONES = [
+  "", "One", "Two", "Three", "Four", "Five", "Six", "Seven", "Eight", "Nine", "Ten",
+  "Eleven", "Twelve", "Thirteen", "Fourteen", "Fifteen", "Sixteen", "Seventeen", "Eighteen", "Nineteen",
+];
+const TENS = ["", "", "Twenty", "Thirty", "Forty", "Fifty", "Sixty", "Seventy", "Eighty", "Ninety"];
+
+// ===========================
+// HELPERS
+// ===========================
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (match, code: string) => {
+    if (code[0] === "#") {
+      const n = code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      // Out-of-range and lone surrogate code points are left as written
+      const valid = Number.isFinite(n) && n <= 0x10ffff && (n < 0xd800 || n > 0xdfff);
+      return valid ? String.fromCodePoint(n) : match;
+    }
+    return ENTITIES[code.toLowerCase()] ?? match;
+  });
+}
+
+/** 1 → "One", 42 → "Forty-Two"; beyond 999 falls back to digits. */
+export function numberToWords(n: number): string {
+  if (n < 1 || n > 999) return String(n);
+  if (n < 20) return ONES[n];
+  if (n < 100) return TENS[Math.floor(n / 10)] + (n % 10 ? `-${ONES[n % 10]}` : "");
+  const rest = n % 100;
+  return `${ONES[Math.floor(n / 100)]} Hundred${rest ? ` ${numberToWords(rest)}` : ""}`;
+}
+
+/**
+ * Word count as a manuscript title page gives it: to the nearest hundred
+ * for short fiction and the nearest thousand past 20,000.
+ */
+export function roundedWordCount(words: number): number {
+  const unit = words >= 20000 ? 1000 : 100;
+  return Math.max(unit, Math.round(words / unit) * unit);
+}
+
+export const runsToText = (runs: ManuscriptRun[]) => runs.map((run) => run.text).join("");
+
+const sameStyle = (a: ManuscriptRun, b: ManuscriptRun) =>
+  !!a.bold === !!b.bold && !!a.italic === !!b.italic && !!a.strike === !!b.strike && !!a.code === !!b.code;
+
+function mergeRuns(runs: ManuscriptRun[]): ManuscriptRun[] {
+  const merged: ManuscriptRun[] = [];
+  for (const run of runs) {
+    if (!run.text) continue;
+    const last = merged[merged.length - 1];
+    if (last && sameStyle(last, run)) last.text += run.text;
+    else merged.push({ ...run });
+  }
+  return merged;
+}
+
+type RunStyle = Omit<ManuscriptRun, "text">;
+
+function inlineRuns(tokens: Token[] | undefined, style: RunStyle = {}): ManuscriptRun[] {
+  const runs: ManuscriptRun[] = [];
+  for (const token of tokens || []) {
+    switch (token.type) {
+      case "strong":
+        runs.push(...inlineRuns((token as Tokens.Strong).tokens, { ...style, bold: true }));
+        break;
+      case "em":
+        runs.push(...inlineRuns((token as Tokens.Em).tokens, { ...style, italic: true }));
+        break;
+      case "del":
+        runs.push(...inlineRuns((token as Tokens.Del).tokens, { ...style, strike: true }));
+        break;
+      case "link":
+        runs.push(...inlineRuns((token as Tokens.Link).tokens, style));
+        break;
+      case "codespan":
+        runs.push({ ...style, code: true, text: decodeEntities((token as Tokens.Codespan).text) });
+        break;
+      case "br":
+        runs.push({ ...style, text: "\n" });
+        break;
+      case "html":
+        if (/^<br\s*\/?>$/i.test((token as Tokens.HTML).text.trim())) runs.push({ ...style, text: "\n" });
+        break;
+      case "image":
+        break;
+      case "text": {
+        const text = token as Tokens.Text;
+        if (text.tokens?.length) runs.push(...inlineRuns(text.tokens, style));
+        // Soft line breaks inside a paragraph read as spaces
+        else runs.push({ ...style, text: decodeEntities(text.text).replace(/\s*\n\s*/g, " ") });
+        break;
+      }
+      default:
+        if ("text" in token && typeof token.text === "string") {
+          runs.push({ ...style, text: decodeEntities(token.text) });
+        }
+    }
+  }
+  return runs;
+}
+
+function toBlocks(tokens: Token[]): ManuscriptBlock[] {
+  const blocks: ManuscriptBlock[] = [];
+
+  for (const token of tokens) {
+    switch (token.type) {
+      case "hr":
+        blocks.push({ type: "sceneBreak" });
+        break;
+      case "heading": {
+        const heading = token as Tokens.Heading;
+        const runs = mergeRuns(inlineRuns(heading.tokens));
+        // A bare "#" line is a scene break, not an empty heading
+        if (!runsToText(runs).trim()) blocks.push({ type: "sceneBreak" });
+        else blocks.push({ type: "heading", level: heading.depth, runs });
+        break;
+      }
+      case "paragraph": {
+        const paragraph = token as Tokens.Paragraph;
+        if (SCENE_BREAK_PATTERN.test(paragraph.text)) {
+          blocks.push({ type: "sceneBreak" });
+          break;
+        }
+        const runs = mergeRuns(inlineRuns(paragraph.tokens));
+        if (runsToText(runs).trim()) blocks.push({ type: "paragraph", runs });
+        break;
+      }
+      case "blockquote":
+        for (const block of toBlocks((token as Tokens.Blockquote).tokens)) {
+          blocks.push(block.type === "paragraph" ? { type: "quote", runs: block.runs } : block);
+        }
+        break;
+      case "list": {
+        const list = token as Tokens.List;
+        blocks.push({
+          type: "list",
+          ordered: list.ordered,
+          start: typeof list.start === "number" ? list.start : 1,
+          items: list.items.map((item) =>
+            mergeRuns(
+              item.tokens
+                .filter((t) => t.type === "text" || t.type === "paragraph")
+                .flatMap((t, i) => [
+                  ...(i > 0 ? [{ text: " " }] : []),
+                  ...inlineRuns((t as Tokens.Text).tokens ?? [t]),
+                ]),
+            ),
+          ),
+        });
+        break;
+      }
+      case "code":
+        blocks.push({ type: "code", text: (token as Tokens.Code).text });
+        break;
+      case "table": {
+        const table = token as Tokens.Table;
+        for (const row of [table.header, ...table.rows]) {
+          const runs = mergeRuns(row.flatMap((cell, i) => [...(i > 0 ? [{ text: " | " }] : []), ...inlineRuns(cell.tokens)]));
+          blocks.push({ type: "paragraph", runs });
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  // No scene break at a chapter's edges or twice in a row
+  return blocks.filter(
+    (block, i) =>
+      block.type !== "sceneBreak" ||
+      (i > 0 && i < blocks.length - 1 && blocks[i - 1].type !== "sceneBreak"),
+  );
+}
+
+function blockWords(block: ManuscriptBlock): number {
+  const text =
+    block.type === "sceneBreak"
+      ? ""
+      : block.type === "code"
+        ? block.text
+        : block.type === "list"
+          ? block.items.map(runsToText).join(" ")
+          : runsToText(block.runs);
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+// ===========================
+// PUBLIC API
+// ===========================
+
+/** Parse a note's body into manuscript blocks, keeping inline formatting. */
+export function noteToBlocks(note: Pick<CombinedNote, "content" | "contentFormat">): ManuscriptBlock[] {
+  const markdown = note.contentFormat === "html" ? htmlToMarkdown(note.content) : note.content || "";
+  return toBlocks(marked.lexer(markdown));
+}
+
+/** The chosen notes as numbered chapters, in the chosen order. */
+export function compileManuscript(
+  notes: CombinedNote[],
+  options: ManuscriptCompileOptions,
+): CompiledManuscript {
+  const byId = new Map(notes.map((note) => [note.id, note]));
+  const included = options.noteIds.flatMap((id) => (byId.has(id) ? [byId.get(id)!] : []));
+
+  const chapters = included.map((note, i) => ({
+    noteId: note.id,
+    label:
+      options.chapterNumbering === "words"
+        ? `Chapter ${numberToWords(i + 1)}`
+        : options.chapterNumbering === "numeric"
+          ? `Chapter ${i + 1}`
+          : "",
+    title: options.includeChapterTitles ? note.title || "Untitled" : "",
+    blocks: noteToBlocks(note),
+  }));
+
+  return {
+    title: options.title.trim() || "Untitled",
+    author: options.author.trim(),
+    contact: options.contact.trim(),
+    sceneBreak: options.sceneBreak,
+    chapters,
+    wordCount: chapters.reduce(
+      (total, chapter) => total + chapter.blocks.reduce((sum, block) => sum + blockWords(block), 0),
+      0,
+    ),
+  };
+}
+
+/** The glyph printed at a scene break; blank breaks print nothing. */
+export const sceneBreakText = (manuscript: CompiledManuscript) =>
+  manuscript.sceneBreak === "blank" ? "" : manuscript.sceneBreak;
+
+/** The author's surname, for running headers. */
+const authorSurname = (author: string) => author.trim().split(/\s+/).pop() || "";
+
+/** "Surname / Title", the running header before the page number. */
+export const runningHeader = (manuscript: CompiledManuscript) =>
+  [authorSurname(manuscript.author), manuscript.title].filter(Boolean).join(" / ");
@@ -0,0 +1,162 @@
+import { zipSync, strToU8 } from "fflate";
+import type { CompiledManuscript, ManuscriptBlock, ManuscriptRun } from "@/types/manuscript";
+import { roundedWordCount, runningHeader, sceneBreakText } from "./compile";
+
+// ===========================
+// CONSTANTS
+// ===========================
+
+// Word measures in twentieths of a point: 1440 = 1 inch
+const INCH = 1440;
+const PAGE_WIDTH = 12240; // US Letter
+const PAGE_HEIGHT = 15840;
+const TEXT_WIDTH = PAGE_WIDTH - 2 * INCH;
+// Chapter headings start about a third of the way down the page
+const CHAPTER_DROP = 3 * INCH;
+
+const W_NS =
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+
+// ===========================
+// HELPERS
+// ===========================
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+function run(r: ManuscriptRun): string {
+  const props = [
+    r.code ? '<w:rFonts w:ascii="Courier New" w:hAnsi="Courier New"/>' : "",
+    r.bold ? "<w:b/>" : "",
+    r.italic ? "<w:i/>" : "",
+    r.strike ? "<w:strike/>" : "",
+  ].join("");
+  const body = r.text
+    .split("\n")
+    .map((line) => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`)
+    .join("<w:br/>");
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ""}${body}</w:r>`;
+}
+
+const paragraph = (runs: ManuscriptRun[], props = "") =>
+  `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ""}${runs.map(run).join("")}</w:p>`;
+
+const CENTERED = '<w:jc w:val="center"/><w:ind w:firstLine="0"/>';
+
+function blockXml(block: ManuscriptBlock, manuscript: CompiledManuscript): string {
+  switch (block.type) {
+    case "paragraph":
+      return paragraph(block.runs);
+    case "heading":
+      return paragraph(
+        block.runs.map((r) => ({ ...r, bold: true })),
+        '<w:keepNext/><w:ind w:firstLine="0"/>',
+      );
+    case "quote":
+      return paragraph(block.runs, `<w:ind w:left="${INCH}" w:right="${INCH}" w:firstLine="0"/>`);
+    case "list":
+      return block.items
+        .map((item, i) =>
+          paragraph(
+            [{ text: block.ordered ? `${block.start + i}.\t` : "•\t" }, ...item],
+            `<w:tabs><w:tab w:val="left" w:pos="${INCH}"/></w:tabs><w:ind w:left="${INCH}" w:hanging="${INCH / 2}"/>`,
+          ),
+        )
+        .join("");
+    case "code":
+      return paragraph(
+        [{ text: block.text, code: true }],
+        '<w:spacing w:line="240" w:lineRule="auto"/><w:ind w:firstLine="0"/>',
+      );
+    case "sceneBreak":
+      return paragraph([{ text: sceneBreakText(manuscript) }], CENTERED);
+  }
+}
+
+function titlePageXml(manuscript: CompiledManuscript): string {
+  const words = `about ${roundedWordCount(manuscript.wordCount).toLocaleString("en-US")} words`;
+  const single = '<w:spacing w:line="240" w:lineRule="auto"/><w:ind w:firstLine="0"/>';
+  const contactLines = [manuscript.author, ...manuscript.contact.split("\n")].filter((line) => line.trim());
+
+  // Contact block top left, word count top right on the first line
+  const header = (contactLines.length ? contactLines : [""]).map((line, i) =>
+    paragraph(
+      [{ text: line }, ...(i === 0 ? [{ text: `\t${words}` }] : [])],
+      `<w:tabs><w:tab w:val="right" w:pos="${TEXT_WIDTH}"/></w:tabs>${single}`,
+    ),
+  );
+
+  return [
+    ...header,
+    paragraph([{ text: manuscript.title }], `<w:spacing w:before="${CHAPTER_DROP}"/>${CENTERED}`),
+    manuscript.author ? paragraph([{ text: `by ${manuscript.author}` }], CENTERED) : "",
+  ].join("");
+}
+
+function documentXml(manuscript: CompiledManuscript): string {
+  const body = manuscript.chapters
+    .map((chapter) => {
+      const heading = [chapter.label, chapter.title].filter(Boolean);
+      const headingXml = (heading.length ? heading : [""])
+        .map((line, i) =>
+          paragraph(
+            [{ text: line }],
+            `${i === 0 ? `<w:pageBreakBefore/><w:spacing w:before="${CHAPTER_DROP}"/>` : ""}<w:keepNext/>${CENTERED}`,
+          ),
+        )
+        .join("");
+      return headingXml + chapter.blocks.map((block) => blockXml(block, manuscript)).join("");
+    })
+    .join("");
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document ${W_NS}><w:body>${titlePageXml(manuscript)}${body}<w:sectPr><w:headerReference w:type="default" r:id="rIdHeader"/><w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}"/><w:pgMar w:top="${INCH}" w:right="${INCH}" w:bottom="${INCH}" w:left="${INCH}" w:header="${INCH / 2}" w:footer="${INCH / 2}" w:gutter="0"/><w:pgNumType w:start="0"/><w:titlePg/></w:sectPr></w:body></w:document>`;
+}
+
+/** Running header: Surname / Title / page, flush right. The title page has none. */
+function headerXml(manuscript: CompiledManuscript): string {
+  const label = runningHeader(manuscript);
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:hdr ${W_NS}><w:p><w:pPr><w:jc w:val="right"/><w:spacing w:line="240" w:lineRule="auto"/><w:ind w:firstLine="0"/></w:pPr><w:r><w:t xml:space="preserve">${escapeXml(label)} / </w:t></w:r><w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText xml:space="preserve"> PAGE </w:instrText></w:r><w:r><w:fldChar w:fldCharType="separate"/></w:r><w:r><w:t>1</w:t></w:r><w:r><w:fldChar w:fldCharType="end"/></w:r></w:p></w:hdr>`;
+}
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles ${W_NS}><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Times New Roman" w:hAnsi="Times New Roman" w:cs="Times New Roman"/><w:sz w:val="24"/><w:szCs w:val="24"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="0" w:line="480" w:lineRule="auto"/><w:ind w:firstLine="${INCH / 2}"/></w:pPr></w:pPrDefault></w:docDefaults><w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style></w:styles>`;
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/><Override PartName="/word/header1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/><Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/></Types>`;
+
+const ROOT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/></Relationships>`;
+
+const DOCUMENT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/><Relationship Id="rIdHeader" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/header" Target="header1.xml"/></Relationships>`;
+
+const coreXml = (manuscript: CompiledManuscript) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><dc:title>${escapeXml(manuscript.title)}</dc:title><dc:creator>${escapeXml(manuscript.author)}</dc:creator><dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().split(".")[0]}Z</dcterms:created></cp:coreProperties>`;
+
+// ===========================
+// PUBLIC API
+// ===========================
+
+/**
+ * A Word document in standard manuscript format: Times New Roman 12pt,
+ * double spaced, one-inch margins, a title page with contact details and
+ * word count, a running header with page numbers (the title page is
+ * unnumbered), and each chapter on a new page.
+ */
+export function buildManuscriptDocx(manuscript: CompiledManuscript): Uint8Array {
+  return zipSync({
+    "[Content_Types].xml": strToU8(CONTENT_TYPES_XML),
+    "_rels/.rels": strToU8(ROOT_RELS_XML),
+    "docProps/core.xml": strToU8(coreXml(manuscript)),
+    "word/document.xml": strToU8(documentXml(manuscript)),
+    "word/styles.xml": strToU8(STYLES_XML),
+    "word/header1.xml": strToU8(headerXml(manuscript)),
+    "word/_rels/document.xml.rels": strToU8(DOCUMENT_RELS_XML),
+  });
+}
@@ -0,0 +1,271 @@
+import { zipSync, strToU8, type Zippable } from "fflate";
+import type { CoverType } from "@/types/notebook";
+import type { CompiledManuscript, ManuscriptBlock, ManuscriptChapter, ManuscriptRun } from "@/types/manuscript";
+import { DEFAULT_COVER_VALUE, getCoverColors } from "@/lib/notebook-covers";
+import { sceneBreakText } from "./compile";
+
+export interface EpubCover {
+  coverType: CoverType;
+  coverValue: string;
+}
+
+interface CoverImage {
+  path: string;
+  mediaType: string;
+  data: Uint8Array;
+}
+
+// ===========================
+// CONSTANTS
+// ===========================
+
+const COVER_WIDTH = 1600;
+const COVER_HEIGHT = 2400;
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+};
+
+const STYLE_CSS = `body { font-family: Georgia, serif; line-height: 1.5; margin: 0 5%; }
+h1 { text-align: center; margin: 3em 0 2em; font-weight: normal; }
+h1 .label { display: block; font-size: 0.7em; letter-spacing: 0.1em; text-transform: uppercase; }
+p { margin: 0; text-indent: 1.5em; }
+h1 + p, h2 + p, h3 + p, h4 + p, h5 + p, h6 + p, .scene-break + p, blockquote + p, ul + p, ol + p, pre + p { text-indent: 0; }
+.scene-break { text-align: center; text-indent: 0; margin: 1em 0; }
+blockquote { margin: 1em 2em; font-style: italic; }
+blockquote p { text-indent: 0; }
+pre { white-space: pre-wrap; font-size: 0.85em; }
+.title-page { text-align: center; margin-top: 30%; }
+.title-page p { text-indent: 0; }
+.cover { margin: 0; padding: 0; text-align: center; }
+.cover img { max-width: 100%; max-height: 100%; }
+`;
+
+// ===========================
+// HELPERS
+// ===========================
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+function runsXhtml(runs: ManuscriptRun[]): string {
+  return runs
+    .map((run) => {
+      let html = run.text.split("\n").map(escapeXml).join("<br/>");
+      if (run.code) html = `<code>${html}</code>`;
+      if (run.strike) html = `<del>${html}</del>`;
+      if (run.italic) html = `<em>${html}</em>`;
+      if (run.bold) html = `<strong>${html}</strong>`;
+      return html;
+    })
+    .join("");
+}
+
+function blockXhtml(block: ManuscriptBlock, manuscript: CompiledManuscript): string {
+  switch (block.type) {
+    case "paragraph":
+      return `<p>${runsXhtml(block.runs)}</p>`;
+    case "heading": {
+      // The chapter heading is the h1, so note headings sit below it
+      const level = Math.min(block.level + 1, 6);
+      return `<h${level}>${runsXhtml(block.runs)}</h${level}>`;
+    }
+    case "quote":
+      return `<blockquote><p>${runsXhtml(block.runs)}</p></blockquote>`;
+    case "list": {
+      const items = block.items.map((item) => `<li>${runsXhtml(item)}</li>`).join("");
+      return block.ordered
+        ? `<ol${block.start !== 1 ? ` start="${block.start}"` : ""}>${items}</ol>`
+        : `<ul>${items}</ul>`;
+    }
+    case "code":
+      return `<pre><code>${escapeXml(block.text)}</code></pre>`;
+    case "sceneBreak":
+      return `<p class="scene-break">${escapeXml(sceneBreakText(manuscript)) || "&#160;"}</p>`;
+  }
+}
+
+const chapterName = (chapter: ManuscriptChapter, index: number) =>
+  [chapter.label, chapter.title].filter(Boolean).join(": ") || `Chapter ${index + 1}`;
+
+function xhtmlPage(title: string, body: string, bodyAttributes = ""): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="en" lang="en">
+<head><meta charset="UTF-8"/><title>${escapeXml(title)}</title><link rel="stylesheet" type="text/css" href="style.css"/></head>
+<body${bodyAttributes}>${body}</body>
+</html>`;
+}
+
+function chapterXhtml(chapter: ManuscriptChapter, index: number, manuscript: CompiledManuscript): string {
+  const heading =
+    chapter.label && chapter.title
+      ? `<span class="label">${escapeXml(chapter.label)}</span>${escapeXml(chapter.title)}`
+      : escapeXml(chapter.label || chapter.title);
+  const body = chapter.blocks.map((block) => blockXhtml(block, manuscript)).join("\n");
+  return xhtmlPage(
+    chapterName(chapter, index),
+    `<section epub:type="chapter">${heading ? `<h1>${heading}</h1>` : ""}\n${body}</section>`,
+  );
+}
+
+/** Wrap the title into lines of roughly `width` characters for the SVG cover. */
+function wrapWords(text: string, width: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + word.length + 1 > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.slice(0, 5);
+}
+
+/** A typeset cover in the notebook's colour or gradient. */
+function svgCover(manuscript: CompiledManuscript, colors: string[]): string {
+  const stops = colors
+    .map((color, i) => `<stop offset="${colors.length > 1 ? i / (colors.length - 1) : 0}" stop-color="${color}"/>`)
+    .join("");
+  const titleLines = wrapWords(manuscript.title, 16);
+  const titleText = titleLines
+    .map(
+      (line, i) =>
+        `<text x="50%" y="${900 + i * 150}" text-anchor="middle" font-family="Georgia, serif" font-size="130" fill="#ffffff">${escapeXml(line)}</text>`,
+    )
+    .join("");
+  const authorText = manuscript.author
+    ? `<text x="50%" y="${COVER_HEIGHT - 300}" text-anchor="middle" font-family="Georgia, serif" font-size="80" fill="#ffffff">${escapeXml(manuscript.author)}</text>`
+    : "";
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${COVER_WIDTH}" height="${COVER_HEIGHT}" viewBox="0 0 ${COVER_WIDTH} ${COVER_HEIGHT}"><defs><linearGradient id="cover" x1="0" y1="0" x2="1" y2="1">${stops}</linearGradient></defs><rect width="100%" height="100%" fill="url(#cover)"/>${titleText}${authorText}</svg>`;
+}
+
+/**
+ * The notebook cover as an image file. Photo and custom covers are fetched;
+ * colour and gradient covers (or a photo that can't be fetched) are drawn
+ * as SVG with the title and author.
+ */
+async function coverImage(manuscript: CompiledManuscript, cover?: EpubCover): Promise<CoverImage> {
+  if (cover && (cover.coverType === "photo" || cover.coverType === "custom")) {
+    try {
+      const response = await fetch(cover.coverValue);
+      const extension = new URL(cover.coverValue, window.location.href).pathname.split(".").pop()?.toLowerCase() || "";
+      const mediaType = response.headers.get("content-type")?.split(";")[0] || IMAGE_TYPES[extension];
+      const imageExtension = Object.keys(IMAGE_TYPES).find((key) => IMAGE_TYPES[key] === mediaType);
+      if (response.ok && imageExtension) {
+        return {
+          path: `cover.${imageExtension}`,
+          mediaType,
+          data: new Uint8Array(await response.arrayBuffer()),
+        };
+      }
+    } catch (error) {
+      console.error("Failed to fetch notebook cover:", error);
+    }
+  }
+
+  return {
+    path: "cover.svg",
+    mediaType: "image/svg+xml",
+    data: strToU8(
+      svgCover(manuscript, cover ? getCoverColors(cover.coverType, cover.coverValue) : [DEFAULT_COVER_VALUE]),
+    ),
+  };
+}
+
+// ===========================
+// PUBLIC API
+// ===========================
+
+/**
+ * An EPUB 3 book: one XHTML file per chapter, a navigation document listing
+ * them, a title page, and the notebook's cover as the cover image.
+ */
+export async function buildManuscriptEpub(
+  manuscript: CompiledManuscript,
+  cover?: EpubCover,
+): Promise<Uint8Array> {
+  const image = await coverImage(manuscript, cover);
+  const chapterFiles = manuscript.chapters.map((_, i) => `chapter-${i + 1}.xhtml`);
+  const modified = `${new Date().toISOString().split(".")[0]}Z`;
+
+  const titlePage = xhtmlPage(
+    manuscript.title,
+    `<section class="title-page" epub:type="titlepage"><h1>${escapeXml(manuscript.title)}</h1>${
+      manuscript.author ? `<p>${escapeXml(manuscript.author)}</p>` : ""
+    }</section>`,
+  );
+
+  const coverPage = xhtmlPage(
+    "Cover",
+    `<div class="cover"><img src="${image.path}" alt="${escapeXml(manuscript.title)}"/></div>`,
+    ' epub:type="cover"',
+  );
+
+  const nav = xhtmlPage(
+    "Contents",
+    `<nav epub:type="toc" id="toc"><h1>Contents</h1><ol>${manuscript.chapters
+      .map((chapter, i) => `<li><a href="${chapterFiles[i]}">${escapeXml(chapterName(chapter, i))}</a></li>`)
+      .join("")}</ol></nav><nav epub:type="landmarks" hidden=""><ol><li><a epub:type="cover" href="cover.xhtml">Cover</a></li><li><a epub:type="bodymatter" href="${
+      chapterFiles[0] || "title.xhtml"
+    }">Start</a></li></ol></nav>`,
+  );
+
+  const opf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="en">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">urn:uuid:${crypto.randomUUID()}</dc:identifier>
+<dc:title>${escapeXml(manuscript.title)}</dc:title>
+${manuscript.author ? `<dc:creator>${escapeXml(manuscript.author)}</dc:creator>\n` : ""}<dc:language>en</dc:language>
+<meta property="dcterms:modified">${modified}</meta>
+<meta name="cover" content="cover-image"/>
+</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+<item id="style" href="style.css" media-type="text/css"/>
+<item id="cover-image" href="${image.path}" media-type="${image.mediaType}" properties="cover-image"/>
+<item id="cover" href="cover.xhtml" media-type="application/xhtml+xml"/>
+<item id="title" href="title.xhtml" media-type="application/xhtml+xml"/>
+${chapterFiles.map((file, i) => `<item id="chapter-${i + 1}" href="${file}" media-type="application/xhtml+xml"/>`).join("\n")}
+</manifest>
+<spine>
+<itemref idref="cover" linear="no"/>
+<itemref idref="title"/>
+<itemref idref="nav"/>
+${chapterFiles.map((_, i) => `<itemref idref="chapter-${i + 1}"/>`).join("\n")}
+</spine>
+</package>`;
+
+  const files: Zippable = {
+    // Must be the first entry and stored uncompressed
+    mimetype: [strToU8("application/epub+zip"), { level: 0 }],
+    "META-INF/container.xml": strToU8(`<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container"><rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles></container>`),
+    "OEBPS/content.opf": strToU8(opf),
+    "OEBPS/nav.xhtml": strToU8(nav),
+    "OEBPS/style.css": strToU8(STYLE_CSS),
+    [`OEBPS/${image.path}`]: image.data,
+    "OEBPS/cover.xhtml": strToU8(coverPage),
+    "OEBPS/title.xhtml": strToU8(titlePage),
+  };
+
+  manuscript.chapters.forEach((chapter, i) => {
+    files[`OEBPS/${chapterFiles[i]}`] = strToU8(chapterXhtml(chapter, i, manuscript));
+  });
+
+  return zipSync(files);
+}
@@ -0,0 +1,259 @@
+import type { jsPDF } from "jspdf";
+import type { CompiledManuscript, ManuscriptBlock, ManuscriptRun } from "@/types/manuscript";
+import { roundedWordCount, runningHeader, sceneBreakText } from "./compile";
+
+// ===========================
+// CONSTANTS
+// ===========================
+
+// Points on US Letter: 72pt = 1 inch
+const INCH = 72;
+const FONT = "courier";
+const FONT_SIZE = 12;
+const SINGLE = FONT_SIZE;
+const DOUBLE = FONT_SIZE * 2;
+const INDENT = INCH / 2;
+
+type FontStyle = "normal" | "bold" | "italic" | "bolditalic";
+
+interface Segment {
+  text: string;
+  style: FontStyle;
+  strike: boolean;
+}
+
+/** A word made of one or more differently styled pieces ("**bold**ly") */
+interface Word {
+  segments: Segment[];
+  /** A hard line break follows this word */
+  breakAfter: boolean;
+}
+
+interface LineLayout {
+  firstIndent: number;
+  indent: number;
+  rightIndent: number;
+  align?: "left" | "center";
+}
+
+// ===========================
+// HELPERS
+// ===========================
+
+const styleOf = (run: ManuscriptRun): FontStyle =>
+  run.bold && run.italic ? "bolditalic" : run.bold ? "bold" : run.italic ? "italic" : "normal";
+
+/** Split styled runs into words, keeping each piece's style. */
+function toWords(runs: ManuscriptRun[]): Word[] {
+  const words: Word[] = [];
+  let current: Segment[] = [];
+
+  const endWord = (breakAfter: boolean) => {
+    if (current.length) words.push({ segments: current, breakAfter });
+    else if (breakAfter && words.length) words[words.length - 1].breakAfter = true;
+    current = [];
+  };
+
+  for (const run of runs) {
+    for (const piece of run.text.split(/(\s+)/)) {
+      if (!piece) continue;
+      if (/^\s+$/.test(piece)) endWord(piece.includes("\n"));
+      else current.push({ text: piece, style: styleOf(run), strike: !!run.strike });
+    }
+  }
+  endWord(false);
+  return words;
+}
+
+/**
+ * Standard manuscript format, after William Shunn: Courier 12pt, double
+ * spaced, one-inch margins, a title page with contact details and word
+ * count, "Surname / Title / page" at the top right of every later page, and
+ * chapters starting a third of the way down a new page.
+ */
+class ManuscriptWriter {
+  private readonly pageWidth: number;
+  private readonly pageHeight: number;
+  private y = INCH;
+
+  constructor(
+    private readonly doc: jsPDF,
+    private readonly manuscript: CompiledManuscript,
+  ) {
+    this.pageWidth = doc.internal.pageSize.getWidth();
+    this.pageHeight = doc.internal.pageSize.getHeight();
+    doc.setFont(FONT, "normal");
+    doc.setFontSize(FONT_SIZE);
+  }
+
+  private get right() {
+    return this.pageWidth - INCH;
+  }
+
+  private width(segment: Segment) {
+    this.doc.setFont(FONT, segment.style);
+    return this.doc.getTextWidth(segment.text);
+  }
+
+  private wordWidth(word: Word) {
+    return word.segments.reduce((sum, segment) => sum + this.width(segment), 0);
+  }
+
+  private newPage(top = INCH) {
+    this.doc.addPage();
+    // The title page is unnumbered, so the first chapter page is page 1
+    const pageNumber = this.doc.getNumberOfPages() - 1;
+    this.doc.setFont(FONT, "normal");
+    this.doc.text(`${runningHeader(this.manuscript)} / ${pageNumber}`, this.right, INCH / 2, {
+      align: "right",
+    });
+    this.y = top;
+  }
+
+  private ensureSpace(lineHeight: number) {
+    if (this.y + lineHeight > this.pageHeight - INCH) this.newPage();
+  }
+
+  private drawLine(words: Word[], x: number) {
+    const space = this.doc.getTextWidth(" ");
+    words.forEach((word, i) => {
+      for (const segment of word.segments) {
+        const width = this.width(segment);
+        this.doc.text(segment.text, x, this.y);
+        if (segment.strike) {
+          const strikeY = this.y - FONT_SIZE * 0.3;
+          this.doc.line(x, strikeY, x + width, strikeY);
+        }
+        x += width;
+      }
+      if (i < words.length - 1) x += space;
+    });
+  }
+
+  /** Word-wrap styled runs between the margins. */
+  private writeRuns(runs: ManuscriptRun[], layout: LineLayout, lineHeight = DOUBLE) {
+    const words = toWords(runs);
+    const space = this.doc.getTextWidth(" ");
+    let line: Word[] = [];
+    let lineWidth = 0;
+    let first = true;
+
+    const flush = () => {
+      const left = INCH + (first ? layout.firstIndent : layout.indent);
+      const x = layout.align === "center" ? (left + this.right - layout.rightIndent - lineWidth) / 2 : left;
+      this.ensureSpace(lineHeight);
+      this.y += lineHeight;
+      this.drawLine(line, x);
+      line = [];
+      lineWidth = 0;
+      first = false;
+    };
+
+    for (const word of words) {
+      const available = this.right - layout.rightIndent - INCH - (first ? layout.firstIndent : layout.indent);
+      const width = this.wordWidth(word);
+      if (line.length && lineWidth + space + width > available) flush();
+      lineWidth += (line.length ? space : 0) + width;
+      line.push(word);
+      if (word.breakAfter) flush();
+    }
+    if (line.length || first) flush();
+  }
+
+  private writeBlock(block: ManuscriptBlock) {
+    switch (block.type) {
+      case "paragraph":
+        this.writeRuns(block.runs, { firstIndent: INDENT, indent: 0, rightIndent: 0 });
+        break;
+      case "heading":
+        this.writeRuns(
+          block.runs.map((run) => ({ ...run, bold: true })),
+          { firstIndent: 0, indent: 0, rightIndent: 0 },
+        );
+        break;
+      case "quote":
+        this.writeRuns(block.runs, { firstIndent: INCH, indent: INCH, rightIndent: INCH });
+        break;
+      case "list":
+        block.items.forEach((item, i) => {
+          const marker = block.ordered ? `${block.start + i}.` : "-";
+          const hang = this.doc.getTextWidth(`${marker} `);
+          this.writeRuns([{ text: `${marker} ` }, ...item], {
+            firstIndent: INDENT,
+            indent: INDENT + hang,
+            rightIndent: 0,
+          });
+        });
+        break;
+      case "code": {
+        this.y += SINGLE;
+        const lines = block.text
+          .split("\n")
+          .flatMap((line) => this.doc.splitTextToSize(line || " ", this.right - INCH) as string[]);
+        this.doc.setFont(FONT, "normal");
+        for (const line of lines) {
+          this.ensureSpace(SINGLE);
+          this.y += SINGLE;
+          this.doc.text(line, INCH, this.y);
+        }
+        break;
+      }
+      case "sceneBreak":
+        // Courier here has no ⁂; asterisms print as the usual three stars
+        this.writeRuns(
+          [{ text: this.manuscript.sceneBreak === "⁂" ? "* * *" : sceneBreakText(this.manuscript) }],
+          { firstIndent: 0, indent: 0, rightIndent: 0, align: "center" },
+        );
+        break;
+    }
+  }
+
+  private writeTitlePage() {
+    const { doc, manuscript } = this;
+    const contactLines = [manuscript.author, ...manuscript.contact.split("\n")].filter((line) => line.trim());
+
+    doc.setFont(FONT, "normal");
+    doc.text(`about ${roundedWordCount(manuscript.wordCount).toLocaleString("en-US")} words`, this.right, INCH, {
+      align: "right",
+    });
+    contactLines.forEach((line, i) => doc.text(line, INCH, INCH + i * SINGLE));
+
+    this.y = this.pageHeight / 2 - DOUBLE;
+    this.writeRuns([{ text: manuscript.title }], { firstIndent: 0, indent: 0, rightIndent: 0, align: "center" });
+    if (manuscript.author) {
+      this.writeRuns([{ text: `by ${manuscript.author}` }], {
+        firstIndent: 0,
+        indent: 0,
+        rightIndent: 0,
+        align: "center",
+      });
+    }
+  }
+
+  write() {
+    this.writeTitlePage();
+
+    for (const chapter of this.manuscript.chapters) {
+      this.newPage(this.pageHeight / 3 - DOUBLE);
+      for (const heading of [chapter.label, chapter.title].filter(Boolean)) {
+        this.writeRuns([{ text: heading }], { firstIndent: 0, indent: 0, rightIndent: 0, align: "center" });
+      }
+      this.y += DOUBLE;
+      chapter.blocks.forEach((block) => this.writeBlock(block));
+    }
+  }
+}
+
+// ===========================
+// PUBLIC API
+// ===========================
+
+export async function buildManuscriptPdf(manuscript: CompiledManuscript): Promise<Uint8Array> {
+  const { jsPDF } = await import("jspdf");
+  const doc = new jsPDF({ unit: "pt", format: "letter" });
+  doc.setProperties({ title: manuscript.title, author: manuscript.author });
+  doc.setLineWidth(0.75);
+
+  new ManuscriptWriter(doc, manuscript).write();
+  return new Uint8Array(doc.output("arraybuffer"));
+}
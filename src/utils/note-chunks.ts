@@ -0,0 +1,47 @@
+import { htmlToPlainText } from "@/utils/html-utils";
+import { isHtmlContent } from "@/utils/html-to-markdown";
+
+/** Passages are built up to about this many characters */
+const TARGET_CHUNK_LENGTH = 1000;
+/** Very long notes are only embedded this far */
+const MAX_CHUNKS = 200;
+
+function splitLongBlock(block: string): string[] {
+  const pieces: string[] = [];
+  for (const sentence of block.split(/(?<=[.!?])\s+/)) {
+    for (let i = 0; i < sentence.length; i += TARGET_CHUNK_LENGTH) {
+      pieces.push(sentence.slice(i, i + TARGET_CHUNK_LENGTH));
+    }
+  }
+  return pieces;
+}
+
+/**
+ * Split a note into passages for embedding: paragraphs are grouped up to
+ * TARGET_CHUNK_LENGTH, and oversized paragraphs split at sentence ends. An
+ * edit only changes the passages around it, so the rest keep their
+ * embeddings.
+ */
+export function chunkNoteContent(content: string): string[] {
+  const text = isHtmlContent(content) ? htmlToPlainText(content) : content;
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const block of text.split(/\n{2,}/)) {
+    const trimmed = block.trim();
+    if (!trimmed) continue;
+
+    const pieces = trimmed.length > TARGET_CHUNK_LENGTH ? splitLongBlock(trimmed) : [trimmed];
+    for (const piece of pieces) {
+      if (current && current.length + piece.length + 2 > TARGET_CHUNK_LENGTH) {
+        chunks.push(current);
+        current = piece;
+      } else {
+        current = current ? `${current}\n\n${piece}` : piece;
+      }
+    }
+  }
+  if (current) chunks.push(current);
+
+  return chunks.slice(0, MAX_CHUNKS);
+}
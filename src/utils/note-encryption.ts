@@ -0,0 +1,329 @@
+import { CombinedNote } from "@/types/combined-notes";
+import {
+  ENCRYPTED_CONTENT_PREFIX,
+  EncryptionStatus,
+  NoteKeyring,
+  isEncryptedContent,
+} from "@/types/encryption";
+
+// ===========================
+// ENCODING
+// ===========================
+const PBKDF2_ITERATIONS = 600_000;
+const IV_BYTES = 12;
+const SALT_BYTES = 16;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  // Chunked: spreading a whole large note into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function randomBytes(length: number): Uint8Array<ArrayBuffer> {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+// ===========================
+// KEYS
+// ===========================
+
+/** Key used to wrap note keys, derived from a passphrase or recovery code. */
+async function deriveWrappingKey(
+  secret: string,
+  salt: string,
+  iterations: number,
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret.normalize("NFKC")),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt: fromBase64(salt), iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["wrapKey", "unwrapKey"],
+  );
+}
+
+// Note keys stay extractable so they can be re-wrapped when the passphrase
+// or recovery code changes; they only ever live in memory.
+function generateNoteKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+async function wrapNoteKey(key: CryptoKey, wrappingKey: CryptoKey): Promise<string> {
+  const iv = randomBytes(IV_BYTES);
+  const wrapped = await crypto.subtle.wrapKey("raw", key, wrappingKey, { name: "AES-GCM", iv });
+  return `${toBase64(iv)}.${toBase64(new Uint8Array(wrapped))}`;
+}
+
+async function unwrapNoteKey(wrapped: string, wrappingKey: CryptoKey): Promise<CryptoKey> {
+  const [iv, data] = wrapped.split(".");
+  return crypto.subtle.unwrapKey(
+    "raw",
+    fromBase64(data),
+    wrappingKey,
+    { name: "AES-GCM", iv: fromBase64(iv) },
+    { name: "AES-GCM" },
+    true,
+    ["encrypt", "decrypt"],
+  );
+}
+
+// ===========================
+// RECOVERY CODES
+// ===========================
+
+// Crockford base32: no I, L, O or U, so codes survive being read aloud or retyped
+const RECOVERY_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+
+/** 160 random bits as eight dash-separated groups, e.g. "7KQ2-…-M0XD". */
+export function generateRecoveryCode(): string {
+  const chars = Array.from(randomBytes(32), (b) => RECOVERY_ALPHABET[b % 32]).join("");
+  return chars.match(/.{4}/g)!.join("-");
+}
+
+export function normaliseRecoveryCode(code: string): string {
+  return code
+    .toUpperCase()
+    .replace(/[^0-9A-Z]/g, "")
+    .replace(/O/g, "0")
+    .replace(/[IL]/g, "1");
+}
+
+// ===========================
+// KEYRING
+// ===========================
+
+/** Set up encryption: a first note key, wrapped by the passphrase and a new recovery code. */
+export async function createKeyring(passphrase: string): Promise<{
+  keyring: NoteKeyring;
+  keys: Map<number, CryptoKey>;
+  recoveryCode: string;
+}> {
+  const keys = new Map([[1, await generateNoteKey()]]);
+  const recoveryCode = generateRecoveryCode();
+  const empty: NoteKeyring = {
+    kdfIterations: PBKDF2_ITERATIONS,
+    passphraseSalt: "",
+    recoverySalt: "",
+    currentVersion: 1,
+    keys: [],
+  };
+
+  const keyring = await rewrapKeyring(empty, keys, { passphrase, recoveryCode });
+  return { keyring, keys, recoveryCode };
+}
+
+/**
+ * Unwrap every note key in the keyring. A wrong passphrase or recovery code
+ * fails AES-GCM's integrity check, which is reported as a plain error.
+ */
+export async function unlockKeyring(
+  keyring: NoteKeyring,
+  secret: string,
+  using: "passphrase" | "recovery",
+): Promise<Map<number, CryptoKey>> {
+  const wrappingKey = await deriveWrappingKey(
+    using === "recovery" ? normaliseRecoveryCode(secret) : secret,
+    using === "recovery" ? keyring.recoverySalt : keyring.passphraseSalt,
+    keyring.kdfIterations,
+  );
+
+  const keys = new Map<number, CryptoKey>();
+  try {
+    for (const entry of keyring.keys) {
+      keys.set(entry.version, await unwrapNoteKey(entry[using], wrappingKey));
+    }
+  } catch {
+    throw new Error(using === "recovery" ? "Incorrect recovery code" : "Incorrect passphrase");
+  }
+  return keys;
+}
+
+/**
+ * Re-wrap `keys` under a new passphrase and/or recovery code, each with a
+ * fresh salt. Whichever isn't given keeps its existing wrapping, so keys
+ * must already have entries for it.
+ */
+export async function rewrapKeyring(
+  keyring: NoteKeyring,
+  keys: Map<number, CryptoKey>,
+  { passphrase, recoveryCode }: { passphrase?: string; recoveryCode?: string },
+): Promise<NoteKeyring> {
+  const passphraseSalt = passphrase ? toBase64(randomBytes(SALT_BYTES)) : keyring.passphraseSalt;
+  const recoverySalt = recoveryCode ? toBase64(randomBytes(SALT_BYTES)) : keyring.recoverySalt;
+  const [passphraseKey, recoveryKey] = await Promise.all([
+    passphrase ? deriveWrappingKey(passphrase, passphraseSalt, keyring.kdfIterations) : null,
+    recoveryCode
+      ? deriveWrappingKey(normaliseRecoveryCode(recoveryCode), recoverySalt, keyring.kdfIterations)
+      : null,
+  ]);
+
+  const existing = new Map(keyring.keys.map((entry) => [entry.version, entry]));
+  const entries = [];
+  for (const [version, key] of keys) {
+    const previous = existing.get(version);
+    if ((!passphraseKey || !recoveryKey) && !previous) {
+      throw new Error(`Key ${version} can't be re-wrapped without both secrets`);
+    }
+    entries.push({
+      version,
+      passphrase: passphraseKey ? await wrapNoteKey(key, passphraseKey) : previous!.passphrase,
+      recovery: recoveryKey ? await wrapNoteKey(key, recoveryKey) : previous!.recovery,
+    });
+  }
+
+  return {
+    ...keyring,
+    passphraseSalt,
+    recoverySalt,
+    keys: entries.sort((a, b) => a.version - b.version),
+  };
+}
+
+export async function addNoteKey(
+  keys: Map<number, CryptoKey>,
+): Promise<{ keys: Map<number, CryptoKey>; version: number }> {
+  const version = Math.max(0, ...keys.keys()) + 1;
+  return { keys: new Map([...keys, [version, await generateNoteKey()]]), version };
+}
+
+// ===========================
+// SESSION
+// ===========================
+
+// Unlocked keys live here for the session only — never in storage — so a
+// reload or "Lock" asks for the passphrase again.
+let sessionKeys: Map<number, CryptoKey> | null = null;
+let sessionVersion = 0;
+
+// Ciphertext each decrypted note came from, so unchanged content written
+// back to the local cache keeps its exact server form instead of being
+// re-encrypted (which would look like an edit).
+const sealedContent = new Map<string, { plain: string; sealed: string }>();
+
+export function startSession(keys: Map<number, CryptoKey>, currentVersion: number) {
+  sessionKeys = keys;
+  sessionVersion = currentVersion;
+}
+
+export function endSession() {
+  sessionKeys = null;
+  sessionVersion = 0;
+  sealedContent.clear();
+}
+
+export function getSessionKeys(): Map<number, CryptoKey> | null {
+  return sessionKeys;
+}
+
+/**
+ * Whether a note's content is (or should be) stored encrypted: the owner's
+ * cloud notes that are already encrypted, or private ones once encryption
+ * is set up.
+ */
+export function shouldEncrypt(note: CombinedNote, status: EncryptionStatus): boolean {
+  if (note.source !== "supabase" || note.collaboratorRole) return false;
+  return !!note.isEncrypted || (note.isPrivate && (status === "locked" || status === "unlocked"));
+}
+
+/** Encrypted content not yet opened this session. */
+export function isLockedNote(note: CombinedNote): boolean {
+  return isEncryptedContent(note.content);
+}
+
+// The note id is authenticated with the content, so the server can't swap
+// one note's ciphertext into another.
+export async function encryptContent(noteId: string, plain: string): Promise<string> {
+  const key = sessionKeys?.get(sessionVersion);
+  if (!key) throw new Error("Unlock encrypted notes first");
+
+  const iv = randomBytes(IV_BYTES);
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: new TextEncoder().encode(noteId) },
+    key,
+    new TextEncoder().encode(plain),
+  );
+
+  const sealed = `${ENCRYPTED_CONTENT_PREFIX}${sessionVersion}:${toBase64(iv)}:${toBase64(new Uint8Array(data))}`;
+  sealedContent.set(noteId, { plain, sealed });
+  return sealed;
+}
+
+export async function decryptContent(noteId: string, sealed: string): Promise<string> {
+  const [version, iv, data] = sealed.slice(ENCRYPTED_CONTENT_PREFIX.length).split(":");
+  const key = sessionKeys?.get(Number(version));
+  if (!key) throw new Error(`No key for encrypted content (version ${version})`);
+
+  const plain = new TextDecoder().decode(
+    await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64(iv), additionalData: new TextEncoder().encode(noteId) },
+      key,
+      fromBase64(data),
+    ),
+  );
+  sealedContent.set(noteId, { plain, sealed });
+  return plain;
+}
+
+/** Ciphertext for `plain`, reusing the server's copy when the content hasn't changed. */
+export async function sealContent(noteId: string, plain: string): Promise<string> {
+  return cachedSealedContent(noteId, plain) ?? encryptContent(noteId, plain);
+}
+
+export function cachedSealedContent(noteId: string, plain: string): string | null {
+  const entry = sealedContent.get(noteId);
+  return entry && entry.plain === plain ? entry.sealed : null;
+}
+
+/** Drop the remembered ciphertext once a note is stored as plaintext again. */
+export function forgetSealedContent(noteId: string) {
+  sealedContent.delete(noteId);
+}
+
+/** Decrypt a note if the session is unlocked; otherwise (or on failure) return it as-is. */
+export async function openNote(note: CombinedNote): Promise<CombinedNote> {
+  if (!sessionKeys || !isEncryptedContent(note.content)) return note;
+  try {
+    return { ...note, content: await decryptContent(note.id, note.content) };
+  } catch (error) {
+    console.error(`Failed to decrypt note ${note.id}:`, error);
+    return note;
+  }
+}
+
+export function openNotes(notes: CombinedNote[]): Promise<CombinedNote[]> {
+  return sessionKeys ? Promise.all(notes.map(openNote)) : Promise.resolve(notes);
+}
+
+/**
+ * The form of a note to keep in the local cache: decrypted content goes back
+ * to ciphertext. Returns null when that isn't possible (session locked), so
+ * plaintext is never written to disk.
+ */
+export async function sealForCache(note: CombinedNote): Promise<CombinedNote | null> {
+  if (!note.isEncrypted || isEncryptedContent(note.content)) return note;
+  const cached = cachedSealedContent(note.id, note.content);
+  if (cached) return { ...note, content: cached };
+  if (!sessionKeys) return null;
+  return { ...note, content: await encryptContent(note.id, note.content) };
+}
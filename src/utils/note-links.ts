@@ -0,0 +1,126 @@
+// src/utils/note-links.ts
+// Wiki-style links between notes.
+//
+// A note link is a regular markdown link whose href is `note://<noteId>`,
+// e.g. `[Chapter One](note://3f2c…)`. Linking by id keeps links working when
+// the target is renamed or moved between storage backends; the link text is
+// rewritten on rename so it keeps reading as the target's title.
+
+import type { CombinedNote } from "@/types/combined-notes";
+import { stripContentToText } from "@/utils/html-utils";
+
+// ===========================
+// TYPES
+// ===========================
+
+export interface Backlink {
+  note: CombinedNote;
+  /** Plain-text context around the first link to the target */
+  context: string;
+}
+
+// ===========================
+// CONSTANTS
+// ===========================
+
+export const NOTE_LINK_PROTOCOL = "note://";
+
+const CONTEXT_RADIUS = 60;
+
+// ===========================
+// HELPERS
+// ===========================
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Escape text for use inside markdown link brackets. */
+function escapeLinkText(text: string): string {
+  return text.replace(/([\\[\]])/g, "\\$1");
+}
+
+export function noteLinkHref(noteId: string): string {
+  return `${NOTE_LINK_PROTOCOL}${noteId}`;
+}
+
+export function parseNoteLinkHref(href: string | null | undefined): string | null {
+  if (!href || !href.startsWith(NOTE_LINK_PROTOCOL)) return null;
+  const id = href.slice(NOTE_LINK_PROTOCOL.length).replace(/\/$/, "");
+  return id || null;
+}
+
+export function linksToNote(content: string, noteId: string): boolean {
+  return !!content && content.includes(noteLinkHref(noteId));
+}
+
+// ===========================
+// BACKLINKS
+// ===========================
+
+/** Notes (other than the target) that link to `noteId`, most recent first. */
+export function findBacklinks(notes: CombinedNote[], noteId: string): Backlink[] {
+  const href = noteLinkHref(noteId);
+
+  return notes
+    .filter((note) => note.id !== noteId && !note.deletedAt && linksToNote(note.content, noteId))
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .map((note) => {
+      // Swap the link for its text so the context reads naturally
+      const markdownLink = new RegExp(`\\[((?:\\\\.|[^\\]\\\\])*)\\]\\(${escapeRegExp(href)}\\)`);
+      const htmlLink = new RegExp(`<a[^>]*href="${escapeRegExp(href)}"[^>]*>(.*?)</a>`, "i");
+      const marked = note.content
+        .replace(markdownLink, (_match, text: string) => `\u0001${text.replace(/\\(.)/g, "$1")}\u0001`)
+        .replace(htmlLink, "\u0001$1\u0001");
+
+      const text = stripContentToText(marked, note.contentFormat);
+      const at = text.indexOf("\u0001");
+      const start = Math.max(0, at - CONTEXT_RADIUS);
+      const end = Math.min(text.length, at + CONTEXT_RADIUS * 2);
+      const context =
+        at === -1
+          ? ""
+          : (start > 0 ? "…" : "") +
+            text.slice(start, end).replace(/\u0001/g, "") +
+            (end < text.length ? "…" : "");
+
+      return { note, context };
+    });
+}
+
+// ===========================
+// RENAMING
+// ===========================
+
+/**
+ * Update the text of links to `noteId` that still read as the old title.
+ * Links given custom text are left alone. Returns the content unchanged when
+ * nothing matched.
+ */
+export function renameNoteLinks(
+  content: string,
+  noteId: string,
+  oldTitle: string,
+  newTitle: string,
+): string {
+  if (!linksToNote(content, noteId) || oldTitle === newTitle) return content;
+
+  const href = escapeRegExp(noteLinkHref(noteId));
+  const oldMarkdown = escapeRegExp(escapeLinkText(oldTitle));
+  const oldHtml = escapeRegExp(oldTitle);
+
+  const htmlTitle = newTitle
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+
+  return content
+    .replace(
+      new RegExp(`\\[${oldMarkdown}\\]\\(${href}\\)`, "g"),
+      () => `[${escapeLinkText(newTitle)}](${noteLinkHref(noteId)})`,
+    )
+    .replace(
+      new RegExp(`(<a[^>]*href="${href}"[^>]*>)${oldHtml}(</a>)`, "gi"),
+      (_match, open: string, close: string) => `${open}${htmlTitle}${close}`,
+    );
+}
@@ -0,0 +1,137 @@
+// src/utils/note-templates.ts
+// Variables in note templates.
+//
+// `{{date}}`, `{{time}}`, `{{weekday}}` and `{{title}}` are filled in
+// automatically when a note is created; date and time take an optional
+// format, e.g. `{{date:YYYY-MM-DD}}`. Any other `{{Name}}` is a prompt the
+// user answers at creation time, and `{{Name:hint}}` shows the hint as the
+// prompt's placeholder.
+
+// ===========================
+// TYPES
+// ===========================
+
+export interface TemplatePrompt {
+  /** As first written in the template; answers are keyed by this */
+  label: string;
+  hint: string;
+}
+
+export interface TemplateValues {
+  title: string;
+  /** Answers keyed by prompt label */
+  answers: Record<string, string>;
+  now?: Date;
+}
+
+// ===========================
+// CONSTANTS
+// ===========================
+
+const VARIABLE = /\{\{\s*([^{}:]+?)\s*(?::\s*([^{}]*?)\s*)?\}\}/g;
+const BUILTINS = new Set(["date", "time", "weekday", "title"]);
+const DATE_TOKEN = /YYYY|MMMM|MMM|MM|DD|dddd|ddd|HH|mm/g;
+
+const MONTHS = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// ===========================
+// HELPERS
+// ===========================
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+export function formatTemplateDate(date: Date, format: string): string {
+  return format.replace(DATE_TOKEN, (token) => {
+    switch (token) {
+      case "YYYY": return String(date.getFullYear());
+      case "MMMM": return MONTHS[date.getMonth()];
+      case "MMM": return MONTHS[date.getMonth()].slice(0, 3);
+      case "MM": return pad(date.getMonth() + 1);
+      case "DD": return pad(date.getDate());
+      case "dddd": return WEEKDAYS[date.getDay()];
+      case "ddd": return WEEKDAYS[date.getDay()].slice(0, 3);
+      case "HH": return pad(date.getHours());
+      default: return pad(date.getMinutes());
+    }
+  });
+}
+
+// ===========================
+// VARIABLES
+// ===========================
+
+/** Custom prompts across the given texts, de-duplicated case-insensitively. */
+export function getTemplatePrompts(...texts: string[]): TemplatePrompt[] {
+  const prompts = new Map<string, TemplatePrompt>();
+
+  for (const text of texts) {
+    for (const match of Array.from(text.matchAll(VARIABLE))) {
+      const key = match[1].toLowerCase();
+      if (BUILTINS.has(key)) continue;
+      const existing = prompts.get(key);
+      if (!existing) {
+        prompts.set(key, { label: match[1], hint: match[2] || "" });
+      } else if (!existing.hint && match[2]) {
+        existing.hint = match[2];
+      }
+    }
+  }
+
+  return Array.from(prompts.values());
+}
+
+export function fillTemplate(text: string, values: TemplateValues): string {
+  const now = values.now || new Date();
+  const answers = new Map(
+    Object.entries(values.answers).map(([label, answer]) => [label.toLowerCase(), answer]),
+  );
+
+  return text.replace(VARIABLE, (_match, name: string, format?: string) => {
+    switch (name.toLowerCase()) {
+      case "date":
+        return format
+          ? formatTemplateDate(now, format)
+          : now.toLocaleDateString(undefined, { year: "numeric", month: "long", day: "numeric" });
+      case "time":
+        return format
+          ? formatTemplateDate(now, format)
+          : now.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+      case "weekday":
+        return WEEKDAYS[now.getDay()];
+      case "title":
+        return values.title;
+      default:
+        return answers.get(name.toLowerCase()) || "";
+    }
+  });
+}
+
+// ===========================
+// AI PATTERNS
+// ===========================
+
+/**
+ * Turn a detected pattern's `[Field]` placeholders into template prompts.
+ * With a field list only those placeholders are converted, so task boxes and
+ * other bracketed text survive; without one any bracketed label is.
+ */
+export function patternToTemplate(pattern: string, fields: string[] = []): string {
+  const toVariable = (field: string) => `{{${field.replace(/[{}:]/g, "").trim()}}}`;
+
+  if (fields.length === 0) {
+    return pattern.replace(/\[([^[\]\n]*[^[\]\n\sx][^[\]\n]*)\](?!\()/gi, (_match, field: string) =>
+      toVariable(field),
+    );
+  }
+
+  return fields.reduce((text, field) => {
+    const escaped = field.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    return text.replace(new RegExp(`\\[${escaped}\\](?!\\()`, "g"), () => toVariable(field));
+  }, pattern);
+}
@@ -1,9 +1,18 @@
-import { CombinedNote } from "@/types/combined-notes";
+import { CombinedNote, NoteConflict } from "@/types/combined-notes";
 import {
   IDB_CACHE_DB_NAME,
   IDB_CACHE_DB_VERSION,
   IDB_CACHE_STORE_NAME,
+  IDB_CACHE_BASES_STORE_NAME,
+  IDB_CACHE_CONFLICTS_STORE_NAME,
 } from "@/constants/app";
+import { cachedSealedContent, sealForCache } from "@/utils/note-encryption";
+
+export interface NoteBase {
+  id: string;
+  content: string;
+  savedAt: number;
+}
 
 let dbInstance: IDBDatabase | null = null;
 let dbPromise: Promise<IDBDatabase> | null = null;
@@ -35,18 +44,27 @@ function getDB(): Promise<IDBDatabase> {
       if (!db.objectStoreNames.contains(IDB_CACHE_STORE_NAME)) {
         db.createObjectStore(IDB_CACHE_STORE_NAME, { keyPath: "id" });
       }
+      if (!db.objectStoreNames.contains(IDB_CACHE_BASES_STORE_NAME)) {
+        db.createObjectStore(IDB_CACHE_BASES_STORE_NAME, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(IDB_CACHE_CONFLICTS_STORE_NAME)) {
+        db.createObjectStore(IDB_CACHE_CONFLICTS_STORE_NAME, { keyPath: "noteId" });
+      }
     };
   });
 
   return dbPromise;
 }
 
+// Decrypted notes are cached in their encrypted form; see sealForCache
 export async function saveNoteToLocal(note: CombinedNote): Promise<void> {
   try {
+    const cached = await sealForCache(note);
+    if (!cached) return;
     const db = await getDB();
     const tx = db.transaction(IDB_CACHE_STORE_NAME, "readwrite");
     const store = tx.objectStore(IDB_CACHE_STORE_NAME);
-    store.put(note);
+    store.put(cached);
     await new Promise<void>((resolve, reject) => {
       tx.oncomplete = () => resolve();
       tx.onerror = () => reject(tx.error);
@@ -60,12 +78,13 @@ export async function saveAllNotesToLocal(
   notes: CombinedNote[],
 ): Promise<void> {
   try {
+    const cached = await Promise.all(notes.map(sealForCache));
     const db = await getDB();
     const tx = db.transaction(IDB_CACHE_STORE_NAME, "readwrite");
     const store = tx.objectStore(IDB_CACHE_STORE_NAME);
     store.clear();
-    for (const note of notes) {
-      store.put(note);
+    for (const note of cached) {
+      if (note) store.put(note);
     }
     await new Promise<void>((resolve, reject) => {
       tx.oncomplete = () => resolve();
@@ -128,9 +147,13 @@ export async function deleteLocalNote(id: string): Promise<void> {
 export async function clearLocalNotes(): Promise<void> {
   try {
     const db = await getDB();
-    const tx = db.transaction(IDB_CACHE_STORE_NAME, "readwrite");
-    const store = tx.objectStore(IDB_CACHE_STORE_NAME);
-    store.clear();
+    const tx = db.transaction(
+      [IDB_CACHE_STORE_NAME, IDB_CACHE_BASES_STORE_NAME, IDB_CACHE_CONFLICTS_STORE_NAME],
+      "readwrite",
+    );
+    tx.objectStore(IDB_CACHE_STORE_NAME).clear();
+    tx.objectStore(IDB_CACHE_BASES_STORE_NAME).clear();
+    tx.objectStore(IDB_CACHE_CONFLICTS_STORE_NAME).clear();
     await new Promise<void>((resolve, reject) => {
       tx.oncomplete = () => resolve();
       tx.onerror = () => reject(tx.error);
@@ -139,3 +162,116 @@ export async function clearLocalNotes(): Promise<void> {
     console.error("Failed to clear IDB cache:", error);
   }
 }
+
+// ===========================
+// MERGE BASES
+// ===========================
+
+/**
+ * Record the content the server has acknowledged for each note. These are the
+ * common ancestors used to tell a one-sided edit from a real conflict.
+ */
+export async function saveNoteBases(
+  entries: { id: string; content: string }[],
+): Promise<void> {
+  if (entries.length === 0) return;
+  try {
+    const db = await getDB();
+    const tx = db.transaction(IDB_CACHE_BASES_STORE_NAME, "readwrite");
+    const store = tx.objectStore(IDB_CACHE_BASES_STORE_NAME);
+    const savedAt = Date.now();
+    for (const { id, content } of entries) {
+      // Decrypted content is recorded as the ciphertext the server holds
+      const base = cachedSealedContent(id, content) ?? content;
+      store.put({ id, content: base, savedAt } satisfies NoteBase);
+    }
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (error) {
+    console.error("Failed to save note bases to IDB cache:", error);
+  }
+}
+
+export async function saveNoteBase(id: string, content: string): Promise<void> {
+  return saveNoteBases([{ id, content }]);
+}
+
+export async function getNoteBase(id: string): Promise<NoteBase | undefined> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction(IDB_CACHE_BASES_STORE_NAME, "readonly");
+    const request = tx.objectStore(IDB_CACHE_BASES_STORE_NAME).get(id);
+    return await new Promise<NoteBase | undefined>((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as NoteBase | undefined);
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.error("Failed to get note base from IDB cache:", error);
+    return undefined;
+  }
+}
+
+export async function getAllNoteBases(): Promise<Map<string, string>> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction(IDB_CACHE_BASES_STORE_NAME, "readonly");
+    const request = tx.objectStore(IDB_CACHE_BASES_STORE_NAME).getAll();
+    const bases = await new Promise<NoteBase[]>((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as NoteBase[]);
+      request.onerror = () => reject(request.error);
+    });
+    return new Map(bases.map((b) => [b.id, b.content]));
+  } catch (error) {
+    console.error("Failed to get note bases from IDB cache:", error);
+    return new Map();
+  }
+}
+
+// ===========================
+// CONFLICTS
+// ===========================
+
+export async function saveNoteConflict(conflict: NoteConflict): Promise<void> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction(IDB_CACHE_CONFLICTS_STORE_NAME, "readwrite");
+    tx.objectStore(IDB_CACHE_CONFLICTS_STORE_NAME).put(conflict);
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (error) {
+    console.error("Failed to save note conflict to IDB cache:", error);
+  }
+}
+
+export async function getAllNoteConflicts(): Promise<NoteConflict[]> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction(IDB_CACHE_CONFLICTS_STORE_NAME, "readonly");
+    const request = tx.objectStore(IDB_CACHE_CONFLICTS_STORE_NAME).getAll();
+    return await new Promise<NoteConflict[]>((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as NoteConflict[]);
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.error("Failed to get note conflicts from IDB cache:", error);
+    return [];
+  }
+}
+
+export async function deleteNoteConflict(noteId: string): Promise<void> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction(IDB_CACHE_CONFLICTS_STORE_NAME, "readwrite");
+    tx.objectStore(IDB_CACHE_CONFLICTS_STORE_NAME).delete(noteId);
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (error) {
+    console.error("Failed to delete note conflict from IDB cache:", error);
+  }
+}
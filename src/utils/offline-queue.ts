@@ -10,8 +10,12 @@ import {
   updateNote as updateSupabaseNote,
   updateNoteTitle as updateSupabaseNoteTitle,
   createNote as createSupabaseNote,
+  getNoteById as getSupabaseNoteById,
 } from "@/app/actions/supabaseActions";
-import type { RedisNote, CombinedNote } from "@/types/combined-notes";
+import type { RedisNote, CombinedNote, NoteConflict } from "@/types/combined-notes";
+import { getNoteBase, saveNoteBase, saveNoteConflict } from "@/utils/notes-idb-cache";
+import { isEncryptedContent } from "@/types/encryption";
+import { reconcileContent } from "@/utils/three-way-merge";
 import {
   OFFLINE_QUEUE_DB_NAME,
   OFFLINE_QUEUE_DB_VERSION,
@@ -48,6 +52,8 @@ interface QueuedUpdateOp {
   content: string;
   goal: number;
   goalType: "" | "words" | "characters";
+  // Server content this offline edit started from; filled in on enqueue
+  baseContent?: string;
 }
 
 interface QueuedUpdateTitleOp {
@@ -139,6 +145,25 @@ export function subscribeDrops(cb: DropListener): () => void {
   };
 }
 
+// Reconcile channel — fires when a replayed update met newer server content
+export type ReconcileEvent =
+  | { type: "merged"; noteId: string; content: string }
+  | { type: "conflict"; conflict: NoteConflict };
+
+type ReconcileListener = (event: ReconcileEvent) => void;
+const reconcileListeners = new Set<ReconcileListener>();
+
+function notifyReconcileListeners(event: ReconcileEvent) {
+  reconcileListeners.forEach((cb) => cb(event));
+}
+
+export function subscribeReconcile(cb: ReconcileListener): () => void {
+  reconcileListeners.add(cb);
+  return () => {
+    reconcileListeners.delete(cb);
+  };
+}
+
 // ===========================
 // IDB HELPERS
 // ===========================
@@ -319,8 +344,16 @@ export async function enqueue(payload: QueuedOperationPayload): Promise<void> {
     // Rule 1: Same noteId + same type → replace older
     const sameTypeOp = existing.find((op) => op.payload.type === payload.type);
     if (sameTypeOp) {
+      // Keep the base the first queued edit started from, not an intermediate
+      if (payload.type === "update" && sameTypeOp.payload.type === "update") {
+        payload.baseContent ??= sameTypeOp.payload.baseContent;
+      }
       await deleteOp(sameTypeOp.id);
     }
+
+    if (payload.type === "update" && payload.baseContent === undefined) {
+      payload.baseContent = (await getNoteBase(noteId))?.content;
+    }
   }
 
   // Add new op
@@ -350,6 +383,63 @@ function throwIfFailed(result: { success: boolean; error?: string }, fallback: s
   }
 }
 
+/** Current server content for a note, or null if it no longer exists there. */
+async function fetchServerContent(
+  source: "redis" | "supabase",
+  userId: string,
+  noteId: string,
+): Promise<string | null> {
+  if (source === "redis") {
+    const result = await noteOperation("redis", { operation: "getAll", userId });
+    throwIfFailed(result, "Fetch failed");
+    const note = result.notes?.find((n: RedisNote) => n.id === noteId);
+    return note ? note.content : null;
+  }
+
+  const result = await getSupabaseNoteById(noteId);
+  return result.success && result.note ? result.note.content : null;
+}
+
+/**
+ * Check a queued update against what's on the server now. Returns the content
+ * to push, or null when there's nothing to push (already in sync, or held as
+ * a conflict for the user to resolve).
+ */
+async function reconcileQueuedUpdate(payload: QueuedUpdateOp): Promise<string | null> {
+  const { source, userId, noteId, content, baseContent } = payload;
+  // Encrypted content can't be merged, so the queued edit simply wins
+  if (baseContent === undefined || isEncryptedContent(content)) return content;
+
+  const serverContent = await fetchServerContent(source, userId, noteId);
+  if (serverContent === null || serverContent === baseContent) return content;
+
+  const result = reconcileContent(baseContent, content, serverContent);
+  switch (result.outcome) {
+    case "local":
+      return content;
+    case "merged":
+      notifyReconcileListeners({ type: "merged", noteId, content: result.content });
+      return result.content;
+    case "server":
+      await saveNoteBase(noteId, serverContent);
+      return null;
+    case "conflict": {
+      const conflict: NoteConflict = {
+        noteId,
+        source,
+        base: baseContent,
+        local: content,
+        server: serverContent,
+        detectedAt: Date.now(),
+      };
+      await saveNoteConflict(conflict);
+      await saveNoteBase(noteId, serverContent);
+      notifyReconcileListeners({ type: "conflict", conflict });
+      return null;
+    }
+  }
+}
+
 async function executeOp(payload: QueuedOperationPayload): Promise<void> {
   const { type, source, userId, noteId } = payload;
 
@@ -364,12 +454,15 @@ async function executeOp(payload: QueuedOperationPayload): Promise<void> {
       break;
     }
     case "update": {
-      const { content, goal, goalType } = payload;
+      const { goal, goalType } = payload;
+      const content = await reconcileQueuedUpdate(payload);
+      if (content === null) break;
       if (source === "redis") {
         throwIfFailed(await noteOperation("redis", { operation: "update", userId, noteId, content, goal, goalType }), "Update failed");
       } else {
         throwIfFailed(await updateSupabaseNote(noteId, content, goal, goalType), "Update failed");
       }
+      await saveNoteBase(noteId, content);
       break;
     }
     case "updateTitle": {
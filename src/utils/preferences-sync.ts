@@ -0,0 +1,67 @@
+// src/utils/preferences-sync.ts
+// Debounced upload of preference changes for signed-in users. Changes are
+// batched so dragging a split pane or toggling quickly costs one write.
+
+import { updatePreferences } from "@/app/actions/preferencesActions";
+import { PreferenceKey, UserPreferences } from "@/types/preferences";
+
+const SYNC_DELAY_MS = 800;
+
+let enabled = false;
+let pending: Partial<UserPreferences> = {};
+let timer: ReturnType<typeof setTimeout> | null = null;
+// Keys sent but not yet acknowledged, counted per request
+const inFlight = new Map<PreferenceKey, number>();
+
+function flush() {
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+
+  const changes = pending;
+  const keys = Object.keys(changes) as PreferenceKey[];
+  if (keys.length === 0) return;
+  pending = {};
+
+  keys.forEach((key) => inFlight.set(key, (inFlight.get(key) || 0) + 1));
+
+  updatePreferences(changes)
+    .then((result) => {
+      if (!result.success) console.error("Failed to sync preferences:", result.error);
+    })
+    .catch((error) => console.error("Failed to sync preferences:", error))
+    .finally(() => {
+      keys.forEach((key) => {
+        const count = (inFlight.get(key) || 1) - 1;
+        if (count > 0) inFlight.set(key, count);
+        else inFlight.delete(key);
+      });
+    });
+}
+
+/** Start uploading changes; called once a signed-in user is known. */
+export function startPreferenceSync() {
+  enabled = true;
+}
+
+/** Send anything still queued, then stop uploading. */
+export function stopPreferenceSync() {
+  flush();
+  enabled = false;
+}
+
+export function queuePreferenceSync(changes: Partial<UserPreferences>) {
+  if (!enabled) return;
+  pending = { ...pending, ...changes };
+  if (timer) clearTimeout(timer);
+  timer = setTimeout(flush, SYNC_DELAY_MS);
+}
+
+/**
+ * Whether this device has a change to `key` the server hasn't confirmed.
+ * Incoming values for such keys are stale and must not overwrite it.
+ */
+export function hasUnsyncedPreference(key: PreferenceKey): boolean {
+  return key in pending || inFlight.has(key);
+}
@@ -0,0 +1,71 @@
+// src/utils/preferences.ts
+// localStorage copy of the user's preferences. Anonymous users only have
+// this; signed-in users keep it as a cache so the app starts with their
+// settings before the server answers. Each setting keeps the key it had
+// before preferences were synced, so existing settings carry over.
+
+import {
+  DEFAULT_PREFERENCES,
+  normalizePreferences,
+  PreferenceKey,
+  UserPreferences,
+} from "@/types/preferences";
+
+const STORAGE_KEYS: Record<PreferenceKey, string> = {
+  theme: "justnoted_theme",
+  sortBy: "justnoted_sort",
+  tocVisible: "tocVisible",
+  splitViewDirection: "splitViewDirection",
+  splitPaneSizes: "splitPaneSizes",
+  referenceNoteId: "referenceNoteId",
+  referenceNoteEditable: "referenceNoteEditable",
+  wideViewDefault: "justnoted.wideView.default",
+  wideViewNotes: "justnoted.wideView.notes",
+  lastNoteId: "justnoted_last_note",
+};
+
+// Strings were stored bare; everything else as JSON
+const STRING_KEYS: PreferenceKey[] = [
+  "theme",
+  "sortBy",
+  "splitViewDirection",
+  "referenceNoteId",
+  "lastNoteId",
+];
+
+function readRaw(key: PreferenceKey): unknown {
+  const stored = localStorage.getItem(STORAGE_KEYS[key]);
+  if (stored === null) return undefined;
+  if (STRING_KEYS.includes(key)) return stored;
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return undefined;
+  }
+}
+
+export function readLocalPreferences(): UserPreferences {
+  if (typeof window === "undefined") return { ...DEFAULT_PREFERENCES };
+
+  const raw = Object.fromEntries(
+    (Object.keys(STORAGE_KEYS) as PreferenceKey[]).map((key) => [key, readRaw(key)]),
+  );
+  return { ...DEFAULT_PREFERENCES, ...normalizePreferences(raw) };
+}
+
+export function writeLocalPreferences(changes: Partial<UserPreferences>): void {
+  if (typeof window === "undefined") return;
+
+  for (const [key, value] of Object.entries(changes) as [PreferenceKey, unknown][]) {
+    const storageKey = STORAGE_KEYS[key];
+    if (!storageKey) continue;
+
+    if (value === null || value === undefined) {
+      localStorage.removeItem(storageKey);
+    } else if (STRING_KEYS.includes(key)) {
+      localStorage.setItem(storageKey, String(value));
+    } else {
+      localStorage.setItem(storageKey, JSON.stringify(value));
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import redis from "@/utils/redis";
+import { selectVersionsToPrune } from "@/utils/version-retention";
+import { NoteVersion } from "@/types/note-versions";
+import {
+  NOTES_KEY_PREFIX,
+  REDIS_MAX_CHECKPOINTS,
+  REDIS_MAX_VERSIONS,
+  REDIS_VERSIONS_MAX_BYTES,
+  TWO_MONTHS_IN_SECONDS,
+  VERSIONS_KEY_PREFIX,
+} from "@/constants/app";
+
+const versionsKey = (userId: string, noteId: string) =>
+  `${VERSIONS_KEY_PREFIX}${userId}:${noteId}`;
+
+/** Whether the note is one of this Redis user's notes. */
+export async function redisNoteExists(userId: string, noteId: string): Promise<boolean> {
+  const notes = (await redis.get(`${NOTES_KEY_PREFIX}${userId}`)) as { id: string }[] | null;
+  return !!notes?.some((note) => note?.id === noteId);
+}
+
+/** A note's versions, newest first. */
+export async function getRedisVersions(userId: string, noteId: string): Promise<NoteVersion[]> {
+  const versions = (await redis.get(versionsKey(userId, noteId))) as NoteVersion[] | null;
+  return (versions || []).sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+/**
+ * Store a note's versions, thinned like Supabase history and capped by
+ * count and size. Oldest automatic snapshots go first, then the oldest
+ * checkpoints. Each write restarts the TTL.
+ */
+export async function setRedisVersions(userId: string, noteId: string, versions: NoteVersion[]) {
+  const newestFirst = [...versions].sort((a, b) => b.created_at.localeCompare(a.created_at));
+  const pruned = new Set(selectVersionsToPrune(newestFirst, REDIS_MAX_VERSIONS));
+  const checkpoints = new Set(
+    newestFirst.filter((v) => v.is_checkpoint).slice(0, REDIS_MAX_CHECKPOINTS).map((v) => v.id),
+  );
+
+  const kept = newestFirst.filter((v) => (v.is_checkpoint ? checkpoints.has(v.id) : !pruned.has(v.id)));
+  while (kept.length > 1 && JSON.stringify(kept).length > REDIS_VERSIONS_MAX_BYTES) {
+    const oldestAutomatic = kept.map((v) => v.is_checkpoint).lastIndexOf(false);
+    kept.splice(oldestAutomatic === -1 ? kept.length - 1 : oldestAutomatic, 1);
+  }
+
+  const key = versionsKey(userId, noteId);
+  if (kept.length === 0) {
+    await redis.del(key);
+  } else {
+    await redis.setex(key, TWO_MONTHS_IN_SECONDS, kept);
+  }
+}
+
+export async function deleteRedisVersions(userId: string, noteId: string) {
+  await redis.del(versionsKey(userId, noteId));
+}
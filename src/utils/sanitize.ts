@@ -1,4 +1,5 @@
 import DOMPurify from "dompurify";
+import { marked } from "marked";
 
 const ALLOWED_TAGS = [
   "p", "br", "strong", "em", "u", "s", "del",
@@ -56,3 +57,17 @@ export function sanitizeHtml(dirty: string): string {
     ALLOWED_ATTR,
   });
 }
+
+/**
+ * Note content as safe HTML for read-only pages (shared notes, published
+ * notebooks). Markdown is rendered first; legacy HTML notes pass straight
+ * through the sanitizer.
+ */
+export function renderNoteHtml(content: string, format?: string): string {
+  const looksLikeHtml = /<[a-z][\s\S]*>/i.test(content.trim());
+  if (format === "html" && looksLikeHtml) {
+    return sanitizeHtml(content);
+  }
+  const html = marked.parse(content, { async: false, gfm: true, breaks: false }) as string;
+  return sanitizeHtml(html);
+}
@@ -0,0 +1,520 @@
+// src/utils/search-index.ts
+// In-memory full-text index for note search.
+//
+// Notes from both storage backends are indexed together. Queries support
+// quoted phrases, `tag:`, `notebook:`, `is:pinned`, `before:` / `after:`
+// operators, prefix matching while typing and typo-tolerant (edit distance)
+// matching. Results are ranked with BM25, title matches weighted higher.
+
+// ===========================
+// TYPES
+// ===========================
+
+export interface SearchDocument {
+  id: string;
+  title: string;
+  /** Plain-text body (markup already stripped) */
+  text: string;
+  tags: string[];
+  notebook: string | null;
+  isPinned: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ParsedSearchQuery {
+  terms: string[];
+  phrases: string[][];
+  tags: string[];
+  notebooks: string[];
+  pinned: boolean | null;
+  /** Only notes last edited before this timestamp */
+  before: number | null;
+  /** Only notes last edited on or after this timestamp */
+  after: number | null;
+}
+
+export interface HighlightedText {
+  text: string;
+  /** [start, end) character ranges into `text` */
+  highlights: [number, number][];
+}
+
+export interface SearchResult {
+  id: string;
+  score: number;
+  title: HighlightedText;
+  snippet: HighlightedText | null;
+  /** First matching passage in the body, used to scroll the editor to it */
+  matchText: string | null;
+}
+
+interface Posting {
+  title: number;
+  body: number;
+}
+
+interface IndexedDocument {
+  doc: SearchDocument;
+  signature: string;
+  titleLength: number;
+  bodyLength: number;
+  /** Normalised tokens joined by single spaces, for phrase checks */
+  titleTokens: string;
+  bodyTokens: string;
+}
+
+// ===========================
+// CONSTANTS
+// ===========================
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const TITLE_WEIGHT = 3;
+const PREFIX_WEIGHT = 0.7;
+const FUZZY_WEIGHT = 0.5;
+const PHRASE_BONUS = 1.5;
+const PINNED_BOOST = 1.1;
+const MAX_EXPANSIONS = 20;
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Letters and digits in any script
+const TOKEN_PATTERN = "[\\p{L}\\p{N}]+";
+
+// ===========================
+// TOKENISING
+// ===========================
+
+function normaliseToken(token: string): string {
+  return token
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+export function tokenize(text: string): string[] {
+  return (text.match(new RegExp(TOKEN_PATTERN, "gu")) || []).map(normaliseToken);
+}
+
+/** Tokens with their character offsets in the original text. */
+function tokenizeWithOffsets(text: string) {
+  const tokens: { term: string; start: number; end: number }[] = [];
+  const pattern = new RegExp(TOKEN_PATTERN, "gu");
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    tokens.push({
+      term: normaliseToken(match[0]),
+      start: match.index,
+      end: match.index + match[0].length,
+    });
+  }
+  return tokens;
+}
+
+// ===========================
+// QUERY PARSING
+// ===========================
+
+/** Start of the named local day, or null if `value` isn't a date. */
+function parseDay(value: string): number | null {
+  const lower = value.toLowerCase();
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  if (lower === "today") return today.getTime();
+  if (lower === "yesterday") return today.getTime() - DAY_MS;
+
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (!iso) return null;
+  const date = new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+  return Number.isNaN(date.getTime()) ? null : date.getTime();
+}
+
+function unquote(value: string): string {
+  return value.replace(/^"|"$/g, "").trim();
+}
+
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = {
+    terms: [],
+    phrases: [],
+    tags: [],
+    notebooks: [],
+    pinned: null,
+    before: null,
+    after: null,
+  };
+
+  const parts = query.match(/[a-z]+:"[^"]*"?|"[^"]*"?|\S+/gi) || [];
+
+  for (const part of parts) {
+    const operator = part.match(/^([a-z]+):(.+)$/i);
+    if (operator) {
+      const key = operator[1].toLowerCase();
+      const value = unquote(operator[2]);
+
+      if (key === "tag" && value) {
+        parsed.tags.push(value.replace(/^#/, "").toLowerCase());
+        continue;
+      }
+      if (key === "notebook" && value) {
+        parsed.notebooks.push(value.toLowerCase());
+        continue;
+      }
+      if (key === "is" && (value === "pinned" || value === "unpinned")) {
+        parsed.pinned = value === "pinned";
+        continue;
+      }
+      if (key === "before" || key === "after") {
+        const day = parseDay(value);
+        if (day !== null) {
+          // Both bounds exclude the named day itself
+          if (key === "before") parsed.before = day;
+          else parsed.after = day + DAY_MS;
+          continue;
+        }
+      }
+      // Unknown operators fall through and are searched as text
+    }
+
+    if (part.startsWith('"')) {
+      const tokens = tokenize(unquote(part));
+      if (tokens.length > 1) parsed.phrases.push(tokens);
+      else parsed.terms.push(...tokens);
+      continue;
+    }
+
+    parsed.terms.push(...tokenize(part));
+  }
+
+  return parsed;
+}
+
+// ===========================
+// FUZZY MATCHING
+// ===========================
+
+function maxEditsFor(term: string): number {
+  if (term.length >= 8) return 2;
+  if (term.length >= 4) return 1;
+  return 0;
+}
+
+/** Damerau-Levenshtein (optimal string alignment), bailing out above `max`. */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = current;
+  }
+
+  return prev[b.length];
+}
+
+// ===========================
+// SNIPPETS
+// ===========================
+
+function highlightMatches(
+  text: string,
+  matched: Set<string>,
+  phrases: string[][],
+): [number, number][] {
+  const tokens = tokenizeWithOffsets(text);
+  const ranges: [number, number][] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const phrase = phrases.find((p) =>
+      p.every((term, k) => tokens[i + k]?.term === term),
+    );
+    if (phrase) {
+      ranges.push([tokens[i].start, tokens[i + phrase.length - 1].end]);
+      i += phrase.length - 1;
+    } else if (matched.has(tokens[i].term)) {
+      ranges.push([tokens[i].start, tokens[i].end]);
+    }
+  }
+
+  return ranges;
+}
+
+function buildSnippet(text: string, ranges: [number, number][]): HighlightedText {
+  const [firstStart] = ranges[0];
+  let start = Math.max(0, firstStart - SNIPPET_LEAD);
+  if (start > 0) {
+    const space = text.indexOf(" ", start);
+    if (space !== -1 && space < firstStart) start = space + 1;
+  }
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end);
+    if (space > ranges[0][1]) end = space;
+  }
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+  const highlights = ranges
+    .filter(([s, e]) => s >= start && e <= end)
+    .map(([s, e]) => [s - start + prefix.length, e - start + prefix.length] as [number, number]);
+
+  return { text: prefix + text.slice(start, end) + suffix, highlights };
+}
+
+/**
+ * Turn a Postgres ts_headline result (matches wrapped in \x01 ... \x02, see
+ * the search_notes RPC) into text plus highlight ranges.
+ */
+export function parseHeadline(headline: string): HighlightedText {
+  const highlights: [number, number][] = [];
+  let text = "";
+  let start = -1;
+
+  for (const char of headline) {
+    if (char === "\u0001") {
+      start = text.length;
+    } else if (char === "\u0002") {
+      if (start !== -1) highlights.push([start, text.length]);
+      start = -1;
+    } else {
+      text += char;
+    }
+  }
+
+  return { text, highlights };
+}
+
+// ===========================
+// INDEX
+// ===========================
+
+export class SearchIndex {
+  private documents = new Map<string, IndexedDocument>();
+  private postings = new Map<string, Map<string, Posting>>();
+  private totalTitleLength = 0;
+  private totalBodyLength = 0;
+
+  get size() {
+    return this.documents.size;
+  }
+
+  /**
+   * Bring the index in line with `entries`. Documents whose signature is
+   * unchanged are left alone; `build` is only called for new or changed ones.
+   */
+  sync(
+    entries: { id: string; signature: string }[],
+    build: (id: string) => SearchDocument,
+  ) {
+    const live = new Set<string>();
+    for (const { id, signature } of entries) {
+      live.add(id);
+      if (this.documents.get(id)?.signature === signature) continue;
+      this.remove(id);
+      this.add(build(id), signature);
+    }
+    for (const id of Array.from(this.documents.keys())) {
+      if (!live.has(id)) this.remove(id);
+    }
+  }
+
+  private add(doc: SearchDocument, signature: string) {
+    const titleTokens = tokenize(doc.title);
+    const bodyTokens = tokenize(doc.text);
+
+    const counts = new Map<string, Posting>();
+    for (const term of titleTokens) {
+      const posting = counts.get(term) || { title: 0, body: 0 };
+      posting.title++;
+      counts.set(term, posting);
+    }
+    for (const term of bodyTokens) {
+      const posting = counts.get(term) || { title: 0, body: 0 };
+      posting.body++;
+      counts.set(term, posting);
+    }
+    counts.forEach((posting, term) => {
+      let docs = this.postings.get(term);
+      if (!docs) {
+        docs = new Map();
+        this.postings.set(term, docs);
+      }
+      docs.set(doc.id, posting);
+    });
+
+    this.documents.set(doc.id, {
+      doc,
+      signature,
+      titleLength: titleTokens.length,
+      bodyLength: bodyTokens.length,
+      titleTokens: ` ${titleTokens.join(" ")} `,
+      bodyTokens: ` ${bodyTokens.join(" ")} `,
+    });
+    this.totalTitleLength += titleTokens.length;
+    this.totalBodyLength += bodyTokens.length;
+  }
+
+  remove(id: string) {
+    const entry = this.documents.get(id);
+    if (!entry) return;
+
+    for (const term of new Set([...tokenize(entry.doc.title), ...tokenize(entry.doc.text)])) {
+      const docs = this.postings.get(term);
+      if (!docs) continue;
+      docs.delete(id);
+      if (docs.size === 0) this.postings.delete(term);
+    }
+
+    this.documents.delete(id);
+    this.totalTitleLength -= entry.titleLength;
+    this.totalBodyLength -= entry.bodyLength;
+  }
+
+  /** Vocabulary terms a query term should match, with their score weight. */
+  private expand(term: string, allowPrefix: boolean): Map<string, number> {
+    const expansions = new Map<string, number>();
+    if (this.postings.has(term)) expansions.set(term, 1);
+
+    const maxEdits = maxEditsFor(term);
+    for (const candidate of this.postings.keys()) {
+      if (expansions.size >= MAX_EXPANSIONS) break;
+      if (candidate === term) continue;
+      if (allowPrefix && term.length >= 2 && candidate.startsWith(term)) {
+        expansions.set(candidate, PREFIX_WEIGHT);
+      } else if (maxEdits > 0 && editDistance(term, candidate, maxEdits) <= maxEdits) {
+        expansions.set(candidate, FUZZY_WEIGHT);
+      }
+    }
+
+    return expansions;
+  }
+
+  private passesFilters(doc: SearchDocument, query: ParsedSearchQuery): boolean {
+    if (query.pinned !== null && doc.isPinned !== query.pinned) return false;
+    if (query.before !== null && doc.updatedAt >= query.before) return false;
+    if (query.after !== null && doc.updatedAt < query.after) return false;
+    if (query.tags.length > 0) {
+      const tags = doc.tags.map((t) => t.toLowerCase());
+      if (!query.tags.every((t) => tags.includes(t))) return false;
+    }
+    if (query.notebooks.length > 0) {
+      const notebook = (doc.notebook || "").toLowerCase();
+      if (!query.notebooks.every((n) => notebook.includes(n))) return false;
+    }
+    return true;
+  }
+
+  search(query: string, limit = 50): SearchResult[] {
+    const parsed = parseSearchQuery(query);
+    const candidates = Array.from(this.documents.values()).filter((entry) =>
+      this.passesFilters(entry.doc, parsed),
+    );
+
+    // Filters only: most recently edited first
+    if (parsed.terms.length === 0 && parsed.phrases.length === 0) {
+      return candidates
+        .sort((a, b) => b.doc.updatedAt - a.doc.updatedAt)
+        .slice(0, limit)
+        .map((entry) => ({
+          id: entry.doc.id,
+          score: 0,
+          title: { text: entry.doc.title, highlights: [] },
+          snippet: null,
+          matchText: null,
+        }));
+    }
+
+    const docCount = Math.max(this.documents.size, 1);
+    const avgTitle = this.totalTitleLength / docCount || 1;
+    const avgBody = this.totalBodyLength / docCount || 1;
+    const endsWithSpace = /\s$/.test(query);
+
+    // Each term must match somewhere; phrase words are scored as exact terms
+    const termGroups = [
+      ...parsed.terms.map((term, i) =>
+        this.expand(term, i === parsed.terms.length - 1 && !endsWithSpace),
+      ),
+      ...parsed.phrases.flat().map((term) => new Map([[term, 1]])),
+    ];
+
+    const scored: { entry: IndexedDocument; score: number; matched: Set<string> }[] = [];
+
+    for (const entry of candidates) {
+      const { doc } = entry;
+      if (
+        !parsed.phrases.every((phrase) => {
+          const needle = ` ${phrase.join(" ")} `;
+          return entry.bodyTokens.includes(needle) || entry.titleTokens.includes(needle);
+        })
+      ) {
+        continue;
+      }
+
+      let score = 0;
+      const matched = new Set<string>();
+      let allMatched = true;
+
+      for (const group of termGroups) {
+        let best = 0;
+        group.forEach((weight, term) => {
+          const posting = this.postings.get(term)?.get(doc.id);
+          if (!posting) return;
+          const df = this.postings.get(term)!.size;
+          const idf = Math.log(1 + (docCount - df + 0.5) / (df + 0.5));
+          const tf =
+            (TITLE_WEIGHT * posting.title) /
+              (1 - BM25_B + (BM25_B * entry.titleLength) / avgTitle) +
+            posting.body / (1 - BM25_B + (BM25_B * entry.bodyLength) / avgBody);
+          best = Math.max(best, weight * idf * ((tf * (BM25_K1 + 1)) / (tf + BM25_K1)));
+          matched.add(term);
+        });
+        if (best === 0) {
+          allMatched = false;
+          break;
+        }
+        score += best;
+      }
+      if (!allMatched) continue;
+
+      score += parsed.phrases.length * PHRASE_BONUS;
+      if (doc.isPinned) score *= PINNED_BOOST;
+
+      scored.push({ entry, score, matched });
+    }
+
+    // Highlights are only worked out for the page of results returned
+    return scored
+      .sort((a, b) => b.score - a.score || b.entry.doc.updatedAt - a.entry.doc.updatedAt)
+      .slice(0, limit)
+      .map(({ entry: { doc }, score, matched }) => {
+        const titleRanges = highlightMatches(doc.title, matched, parsed.phrases);
+        const bodyRanges = highlightMatches(doc.text, matched, parsed.phrases);
+
+        return {
+          id: doc.id,
+          score,
+          title: { text: doc.title, highlights: titleRanges },
+          snippet: bodyRanges.length > 0 ? buildSnippet(doc.text, bodyRanges) : null,
+          matchText:
+            bodyRanges.length > 0 ? doc.text.slice(bodyRanges[0][0], bodyRanges[0][1]) : null,
+        };
+      });
+  }
+}
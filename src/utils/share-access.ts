@@ -0,0 +1,124 @@
+import bcrypt from "bcryptjs";
+import { createServiceRoleClient } from "@/utils/supabase/server";
+import { notifyOwnerOfFirstOpen } from "@/utils/share-invites";
+
+/**
+ * Server-side gate for anything a reader does through a share link: the link
+ * must exist and not have expired, the password (if any) must match, and
+ * private shares are limited to the readers the owner added. The viewer is
+ * always the server-verified user, never a client-supplied name. A named
+ * reader's first visit is recorded and the owner told about it.
+ */
+
+export interface SharedNoteRecord {
+  id: string;
+  note_id: string;
+  note_owner_id: string;
+  shortcode: string;
+  is_public: boolean | null;
+  is_anonymous: boolean | null;
+  allow_comments: boolean;
+  allow_anonymous_comments: boolean;
+  password_hash: string | null;
+  storage: string | null;
+  view_count: number | null;
+  expires_at: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export type ShareAccessResult =
+  | { share: SharedNoteRecord; error?: undefined; requiresPassword?: undefined }
+  | { share?: undefined; error: string; requiresPassword?: boolean };
+
+export async function checkShareAccess(
+  shortcode: string,
+  password: string | null | undefined,
+  viewerId: string | null,
+): Promise<ShareAccessResult> {
+  // Use service role — viewers aren't the owner, RLS would block
+  const viewClient = createServiceRoleClient();
+  const { data, error } = await viewClient
+    .from("shared_notes")
+    .select("*")
+    .eq("shortcode", shortcode)
+    .single();
+
+  const share = data as SharedNoteRecord | null;
+  if (error || !share) {
+    return { error: "Shared note not found" };
+  }
+
+  if (share.expires_at && new Date(share.expires_at) < new Date()) {
+    return { error: "This shared link has expired" };
+  }
+
+  if (share.password_hash) {
+    if (!password) {
+      return { error: "PASSWORD_REQUIRED", requiresPassword: true };
+    }
+    if (!(await bcrypt.compare(password, share.password_hash))) {
+      return { error: "Incorrect password", requiresPassword: true };
+    }
+  }
+
+  // Public shares are open to anyone with the link. Private (specific-user)
+  // shares are gated on the viewer's authenticated identity.
+  if (!share.is_public) {
+    if (!viewerId) {
+      return { error: "You need to sign in to access this shared note" };
+    }
+
+    const { data: viewerAuthor } = await viewClient
+      .from("authors")
+      .select("username")
+      .eq("id", viewerId)
+      .maybeSingle();
+    const viewerUsername = viewerAuthor?.username || null;
+
+    // Readers invited by email are matched on their account; older rows
+    // only have the username they were added by. Two plain lookups: the
+    // username is user-supplied and mustn't end up in a filter string.
+    const findReader = async (column: "reader_id" | "reader_username", value: string) => {
+      const { data } = await viewClient
+        .from("shared_notes_readers")
+        .select("id, reader_id, reader_username, reader_email, first_viewed_at")
+        .eq("shared_note", share.id)
+        .eq(column, value)
+        .limit(1);
+      return data?.[0] || null;
+    };
+
+    const reader =
+      (await findReader("reader_id", viewerId)) ||
+      (viewerUsername ? await findReader("reader_username", viewerUsername) : null);
+    if (!reader) {
+      return { error: "You don't have access to this note" };
+    }
+
+    if (!reader.first_viewed_at) {
+      const now = new Date().toISOString();
+      // Only the request that claims the first view sends the notification
+      const { data: claimed } = await viewClient
+        .from("shared_notes_readers")
+        .update({
+          first_viewed_at: now,
+          last_viewed_at: now,
+          reader_id: viewerId,
+          reader_username: reader.reader_username || viewerUsername,
+        })
+        .eq("id", reader.id)
+        .is("first_viewed_at", null)
+        .select("id");
+
+      if (claimed?.length) {
+        await notifyOwnerOfFirstOpen(
+          share,
+          viewerUsername || reader.reader_username || reader.reader_email || "A reader",
+        ).catch((e) => console.error("First-open notification failed:", e));
+      }
+    }
+  }
+
+  return { share };
+}
@@ -0,0 +1,72 @@
+import { createHash } from "crypto";
+import { headers } from "next/headers";
+import { createServiceRoleClient } from "@/utils/supabase/server";
+import { ShareVisitAnalytics } from "@/types/share-analytics";
+
+/**
+ * Server-side recording of shared-note visits. Nothing identifying is kept:
+ * the visitor is a hash of the day, the share, the IP and the user agent, so
+ * the same reader is only recognised within one day on one share. Without
+ * SHARE_ANALYTICS_SALT the hash could be reversed, so no visits are recorded.
+ */
+
+function visitorHash(sharedNoteId: string, ip: string, userAgent: string, salt: string): string {
+  const day = new Date().toISOString().split("T")[0];
+  return createHash("sha256")
+    .update(`${day}|${sharedNoteId}|${ip}|${userAgent}|${salt}`)
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/** Domain of the referring page, or null for direct visits and links within the app. */
+export function referrerDomain(referrer: string | null | undefined, ownHost: string | null): string | null {
+  if (!referrer) return null;
+  try {
+    const host = new URL(referrer).hostname.replace(/^www\./, "");
+    if (!host || (ownHost && host === ownHost.replace(/^www\./, "").split(":")[0])) return null;
+    return host.slice(0, 253);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Log a visit to a shared note once access has been granted.
+ * Returns the visit's id, used to report how far it was read.
+ */
+export async function recordShareVisit(
+  sharedNoteId: string,
+  referrer: string | null,
+): Promise<string | null> {
+  const salt = process.env.SHARE_ANALYTICS_SALT;
+  if (!salt) return null;
+
+  try {
+    const hdrs = await headers();
+    if (hdrs.get("x-is-bot") === "true") return null;
+
+    const ip =
+      (hdrs.get("x-forwarded-for") || "").split(",")[0].trim() ||
+      hdrs.get("x-real-ip") ||
+      "unknown";
+
+    const analytics: ShareVisitAnalytics = {
+      visitor: visitorHash(sharedNoteId, ip, hdrs.get("user-agent") || "", salt),
+      referrer: referrerDomain(referrer, hdrs.get("host")),
+      completion: 0,
+      seconds: 0,
+    };
+
+    const { data, error } = await createServiceRoleClient()
+      .from("shared_notes_analytics")
+      .insert({ shared_note: sharedNoteId, analytics })
+      .select("id")
+      .single();
+
+    if (error) throw error;
+    return data.id;
+  } catch (error) {
+    console.error("Failed to record shared note visit:", error);
+    return null;
+  }
+}
@@ -0,0 +1,136 @@
+import { createServiceRoleClient } from "@/utils/supabase/server";
+import { escapeHtml, sendEmail } from "@/utils/email";
+import type { SharedNoteRecord } from "@/utils/share-access";
+
+/**
+ * Emails for readers invited to a private share by address: the invite
+ * itself (with a magic sign-in link) and the owner's notice the first time
+ * an invited or named reader opens the note. Server-only.
+ */
+
+const SITE_URL = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3045";
+
+/**
+ * A one-click sign-in link that lands on `next`. It's the same token the
+ * get-access sign-in (signInWithOtp) emails, verified by /auth/confirm, but
+ * generated here so it can go out in our own invite email. Invitees without
+ * an account get one created, so they can be added as readers straight away.
+ */
+export async function createMagicLink(
+  email: string,
+  next: string,
+): Promise<{ userId: string; link: string } | { error: string }> {
+  const { data, error } = await createServiceRoleClient().auth.admin.generateLink({
+    type: "magiclink",
+    email,
+    options: { redirectTo: `${SITE_URL}/auth/confirm` },
+  });
+
+  if (error || !data.user || !data.properties?.hashed_token) {
+    console.error("Failed to generate magic link:", error);
+    return { error: "Couldn't create an invite for that address" };
+  }
+
+  const params = new URLSearchParams({
+    token_hash: data.properties.hashed_token,
+    type: data.properties.verification_type,
+    next,
+  });
+  return { userId: data.user.id, link: `${SITE_URL}/auth/confirm?${params}` };
+}
+
+export function shareUrl(shortcode: string): string {
+  return `${SITE_URL}/n/${shortcode}`;
+}
+
+async function getNoteTitle(share: Pick<SharedNoteRecord, "note_id" | "storage">) {
+  if ((share.storage || "supabase") !== "supabase") return null;
+  const { data } = await createServiceRoleClient()
+    .from("notes")
+    .select("title")
+    .eq("id", share.note_id)
+    .maybeSingle();
+  return data?.title || null;
+}
+
+function emailHtml(heading: string, body: string, button?: { href: string; label: string }, footer?: string) {
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${heading}</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #03BFB5 0%, #029e96 100%); padding: 30px; border-radius: 12px 12px 0 0; text-align: center;">
+    <h1 style="color: white; margin: 0; font-size: 28px;">Just Noted</h1>
+  </div>
+
+  <div style="background: #f8f9fa; padding: 30px; border-radius: 0 0 12px 12px; border: 1px solid #e9ecef; border-top: none;">
+    <h2 style="color: #03BFB5; margin-top: 0;">${heading}</h2>
+
+    ${body}
+    ${button ? `
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${button.href}" style="display: inline-block; background: #03BFB5; color: white; padding: 12px 30px; border-radius: 8px; text-decoration: none; font-weight: 600;">
+        ${button.label}
+      </a>
+    </div>
+    ` : ""}
+    ${footer ? `<p style="color: #6c757d; font-size: 14px;">${footer}</p>` : ""}
+  </div>
+</body>
+</html>
+  `;
+}
+
+export async function sendShareInviteEmail({
+  to,
+  ownerName,
+  share,
+  signInLink,
+}: {
+  to: string;
+  ownerName: string;
+  share: Pick<SharedNoteRecord, "note_id" | "storage" | "shortcode">;
+  signInLink: string;
+}) {
+  const title = await getNoteTitle(share);
+  const note = title ? `&ldquo;${escapeHtml(title)}&rdquo;` : "a note";
+
+  return sendEmail({
+    to,
+    subject: `${ownerName} shared a note with you on Just Noted`,
+    html: emailHtml(
+      `${escapeHtml(ownerName)} shared ${note} with you`,
+      "<p>You've been invited to read a note on Just Noted. The button below signs you in with this email address and opens it.</p>",
+      { href: signInLink, label: "Open the note" },
+      `The button works once and expires after a while. You can always sign in with ${escapeHtml(to)} at <a href="${SITE_URL}/get-access" style="color: #03BFB5;">justnoted.app</a> and open <a href="${shareUrl(share.shortcode)}" style="color: #03BFB5;">${shareUrl(share.shortcode)}</a>.`,
+    ),
+  });
+}
+
+/** Tell the owner a named reader has opened their private share for the first time. */
+export async function notifyOwnerOfFirstOpen(share: SharedNoteRecord, readerName: string) {
+  const { data } = await createServiceRoleClient().auth.admin.getUserById(share.note_owner_id);
+  const ownerEmail = data.user?.email;
+  if (!ownerEmail) return;
+
+  const title = (await getNoteTitle(share)) || "your shared note";
+
+  const result = await sendEmail({
+    to: ownerEmail,
+    subject: `${readerName} opened ${title}`,
+    html: emailHtml(
+      `${escapeHtml(readerName)} opened &ldquo;${escapeHtml(title)}&rdquo;`,
+      "<p>Someone you shared a note with has opened it for the first time.</p>",
+      { href: shareUrl(share.shortcode), label: "View the note" },
+      "You're notified once per reader. Manage who can read your notes from your profile.",
+    ),
+  });
+
+  if (!result.success) {
+    console.error("Failed to notify owner of first open:", result.error);
+  }
+}
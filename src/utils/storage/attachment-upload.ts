@@ -0,0 +1,41 @@
+import { createClient } from "@/utils/supabase/client";
+import {
+  createAttachmentUpload,
+  confirmAttachmentUpload,
+} from "@/app/actions/attachmentActions";
+import { ATTACHMENT_BUCKET, type NoteAttachment } from "@/types/attachment";
+
+/**
+ * Upload an image or PDF into a cloud note. The server hands out a signed
+ * upload URL (after type, size and quota checks), the file goes straight to
+ * storage from the browser, and the server then records it.
+ */
+export async function uploadAttachment(
+  noteId: string,
+  file: File,
+): Promise<{ success: boolean; attachment?: NoteAttachment; error?: string }> {
+  try {
+    const upload = await createAttachmentUpload(noteId, file.type, file.size);
+    if (!upload.success || !upload.path || !upload.token) {
+      return { success: false, error: upload.error || "Upload failed" };
+    }
+
+    const supabase = createClient();
+    const { error: uploadError } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .uploadToSignedUrl(upload.path, upload.token, file, {
+        cacheControl: "31536000",
+        contentType: file.type,
+      });
+
+    if (uploadError) {
+      console.error("Attachment upload error:", uploadError.message);
+      return { success: false, error: "Upload failed" };
+    }
+
+    return await confirmAttachmentUpload(noteId, upload.path, file.name);
+  } catch (error) {
+    console.error("Attachment upload failed:", error);
+    return { success: false, error: "Upload failed" };
+  }
+}
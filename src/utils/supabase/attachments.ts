@@ -0,0 +1,78 @@
+import type { createClient } from "@/utils/supabase/server";
+import { ATTACHMENT_BUCKET } from "@/types/attachment";
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Total bytes the signed-in user has in attachment storage, read from the
+ * stored objects themselves so unconfirmed uploads count too.
+ */
+export async function getAttachmentStorageUsed(supabase: ServerClient): Promise<number> {
+  const { data, error } = await supabase.rpc("attachment_storage_used");
+  if (error) throw error;
+  return Number(data ?? 0);
+}
+
+/**
+ * Delete the signed-in user's uploads that were never confirmed (the upload
+ * was abandoned, or the file went straight to storage with a signed URL).
+ */
+export async function removeUnconfirmedUploads(supabase: ServerClient): Promise<void> {
+  const { data: paths, error } = await supabase.rpc("stale_attachment_uploads");
+  if (error) throw error;
+  if (!paths?.length) return;
+
+  const { error: storageError } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .remove(paths);
+  if (storageError) throw storageError;
+}
+
+/**
+ * Delete attachments left behind by a permanently deleted note. A file is
+ * kept (and moved to the note that uses it) if its URL was copied into
+ * another of the owner's notes. Returns the number of files removed.
+ */
+export async function removeOrphanedAttachments(
+  supabase: ServerClient,
+  userId: string,
+  attachments: { id: string; path: string }[],
+): Promise<number> {
+  const orphans: { id: string; path: string }[] = [];
+
+  for (const attachment of attachments) {
+    const { data: referencing } = await supabase
+      .from("notes")
+      .select("id")
+      .eq("author", userId)
+      .ilike("content", `%${attachment.path}%`)
+      .limit(1)
+      .maybeSingle();
+
+    if (referencing) {
+      await supabase
+        .from("note_attachments")
+        .update({ note_id: referencing.id })
+        .eq("id", attachment.id)
+        .eq("owner", userId);
+    } else {
+      orphans.push(attachment);
+    }
+  }
+
+  if (orphans.length === 0) return 0;
+
+  const { error: storageError } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .remove(orphans.map((a) => a.path));
+  if (storageError) throw storageError;
+
+  const { error } = await supabase
+    .from("note_attachments")
+    .delete()
+    .in("id", orphans.map((a) => a.id))
+    .eq("owner", userId);
+  if (error) throw error;
+
+  return orphans.length;
+}
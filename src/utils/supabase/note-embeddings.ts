@@ -0,0 +1,106 @@
+import { createHash } from "crypto";
+import type { createClient } from "@/utils/supabase/server";
+import type { EmbeddingProvider } from "@/utils/ai/types";
+import { chunkNoteContent } from "@/utils/note-chunks";
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/** Inputs per embeddings request */
+const EMBED_BATCH_SIZE = 32;
+
+function hashChunk(text: string): string {
+  return createHash("sha256").update(text).digest("hex").slice(0, 32);
+}
+
+/**
+ * Bring a note's stored passages in line with its content. Passages whose
+ * text (and model) are unchanged keep their embedding and are only
+ * renumbered; new ones are embedded; the rest are removed.
+ */
+export async function indexNoteEmbeddings(
+  supabase: ServerClient,
+  userId: string,
+  noteId: string,
+  content: string,
+  embedder: EmbeddingProvider,
+): Promise<{ embedded: number; removed: number }> {
+  const chunks = chunkNoteContent(content);
+  const hashes = chunks.map(hashChunk);
+
+  const { data: existing, error } = await supabase
+    .from("note_chunks")
+    .select("id, chunk_index, content_hash, model")
+    .eq("note_id", noteId)
+    .eq("author", userId);
+
+  if (error) throw error;
+
+  // Reusable rows by hash; duplicates of a passage queue up in order
+  const reusable = new Map<string, { id: string; chunk_index: number }[]>();
+  const stale: string[] = [];
+  for (const row of existing || []) {
+    if (row.model !== embedder.model) {
+      stale.push(row.id);
+      continue;
+    }
+    const rows = reusable.get(row.content_hash) || [];
+    rows.push(row);
+    reusable.set(row.content_hash, rows);
+  }
+
+  const renumber: { id: string; index: number }[] = [];
+  const toEmbed: number[] = [];
+  hashes.forEach((hash, index) => {
+    const row = reusable.get(hash)?.shift();
+    if (!row) toEmbed.push(index);
+    else if (row.chunk_index !== index) renumber.push({ id: row.id, index });
+  });
+  for (const rows of reusable.values()) stale.push(...rows.map((row) => row.id));
+
+  // Embed before touching anything, so a provider failure leaves the old index
+  const inserts: Record<string, string | number>[] = [];
+  for (let i = 0; i < toEmbed.length; i += EMBED_BATCH_SIZE) {
+    const batch = toEmbed.slice(i, i + EMBED_BATCH_SIZE);
+    const vectors = await embedder.embed(batch.map((index) => chunks[index]));
+    batch.forEach((index, j) => {
+      inserts.push({
+        note_id: noteId,
+        author: userId,
+        chunk_index: index,
+        content: chunks[index],
+        content_hash: hashes[index],
+        model: embedder.model,
+        embedding: JSON.stringify(vectors[j]),
+      });
+    });
+  }
+
+  if (stale.length > 0) {
+    const { error: deleteError } = await supabase.from("note_chunks").delete().in("id", stale);
+    if (deleteError) throw deleteError;
+  }
+
+  await Promise.all(
+    renumber.map(({ id, index }) =>
+      supabase.from("note_chunks").update({ chunk_index: index }).eq("id", id),
+    ),
+  );
+
+  if (inserts.length > 0) {
+    const { error: insertError } = await supabase.from("note_chunks").insert(inserts);
+    if (insertError) throw insertError;
+  }
+
+  return { embedded: inserts.length, removed: stale.length };
+}
+
+/** Drop a note's passages, e.g. once it is encrypted. */
+export async function clearNoteEmbeddings(supabase: ServerClient, userId: string, noteId: string) {
+  const { error } = await supabase
+    .from("note_chunks")
+    .delete()
+    .eq("note_id", noteId)
+    .eq("author", userId);
+
+  if (error) throw error;
+}
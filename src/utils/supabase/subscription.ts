@@ -0,0 +1,43 @@
+import {
+  SUBSCRIPTION_LIMITS,
+  SubscriptionLimits,
+  SubscriptionTier,
+} from "@/types/subscription";
+
+type SupabaseLike = {
+  from: (table: string) => any;
+};
+
+const ENTITLED_STATUSES = ["active", "trialing"];
+
+/**
+ * Resolve a user's effective tier from the `subscriptions` table.
+ * Missing rows, unknown tiers and lapsed subscriptions all fall back to "free".
+ */
+export async function getSubscriptionTier(
+  supabase: SupabaseLike,
+  userId: string,
+): Promise<SubscriptionTier> {
+  try {
+    const { data } = await supabase
+      .from("subscriptions")
+      .select("tier, status")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (!data || !ENTITLED_STATUSES.includes(data.status)) return "free";
+    return data.tier in SUBSCRIPTION_LIMITS
+      ? (data.tier as SubscriptionTier)
+      : "free";
+  } catch {
+    return "free";
+  }
+}
+
+export async function getSubscriptionLimits(
+  supabase: SupabaseLike,
+  userId: string,
+): Promise<SubscriptionLimits & { tier: SubscriptionTier }> {
+  const tier = await getSubscriptionTier(supabase, userId);
+  return { tier, ...SUBSCRIPTION_LIMITS[tier] };
+}
@@ -0,0 +1,143 @@
+import type { createClient } from "@/utils/supabase/server";
+import {
+  MAX_ENTRY_SECONDS,
+  MAX_ENTRY_WORDS,
+  WritingActivityEntry,
+} from "@/types/writing-analytics";
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
+
+const ACTIVITY_PAGE_SIZE = 1000;
+const MAX_ACTIVITY_ROWS = 50_000;
+
+/** Entries accepted per request; one flush covers the notes edited since the last */
+const MAX_ENTRIES = 50;
+const MAX_NOTE_ID_LENGTH = 100;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const clamp = (value: unknown, max: number) =>
+  typeof value === "number" && Number.isFinite(value)
+    ? Math.min(Math.max(0, Math.floor(value)), max)
+    : 0;
+
+/**
+ * Well-formed entries from an untrusted request body. Counts are clamped,
+ * and entries with nothing written or with unreadable times are dropped.
+ */
+export function parseWritingActivity(input: unknown): WritingActivityEntry[] {
+  if (!Array.isArray(input)) return [];
+
+  return input.slice(0, MAX_ENTRIES).flatMap((raw): WritingActivityEntry[] => {
+    if (!raw || typeof raw !== "object") return [];
+    const entry = raw as Record<string, unknown>;
+
+    const started = new Date(String(entry.startedAt));
+    const ended = new Date(String(entry.endedAt));
+    if (isNaN(started.getTime()) || isNaN(ended.getTime()) || ended < started) return [];
+
+    const wordsAdded = clamp(entry.wordsAdded, MAX_ENTRY_WORDS);
+    const wordsRemoved = clamp(entry.wordsRemoved, MAX_ENTRY_WORDS);
+    if (wordsAdded === 0 && wordsRemoved === 0) return [];
+
+    const noteId =
+      typeof entry.noteId === "string" && entry.noteId.length <= MAX_NOTE_ID_LENGTH
+        ? entry.noteId
+        : null;
+    const notebookId =
+      typeof entry.notebookId === "string" && UUID_PATTERN.test(entry.notebookId)
+        ? entry.notebookId
+        : null;
+
+    return [
+      {
+        noteId,
+        notebookId,
+        startedAt: started.toISOString(),
+        endedAt: ended.toISOString(),
+        wordsAdded,
+        wordsRemoved,
+        activeSeconds: clamp(entry.activeSeconds, MAX_ENTRY_SECONDS),
+      },
+    ];
+  });
+}
+
+/**
+ * Store entries and add them to the daily totals in writing_sessions, which
+ * streaks and the journal calendar read.
+ */
+export async function recordWritingActivity(
+  supabase: ServerClient,
+  userId: string,
+  entries: WritingActivityEntry[],
+) {
+  if (entries.length === 0) return;
+
+  const { error } = await supabase.from("writing_activity").insert(
+    entries.map((entry) => ({
+      user_id: userId,
+      note_id: entry.noteId,
+      notebook_id: entry.notebookId,
+      started_at: entry.startedAt,
+      ended_at: entry.endedAt,
+      words_added: entry.wordsAdded,
+      words_removed: entry.wordsRemoved,
+      active_seconds: entry.activeSeconds,
+    })),
+  );
+
+  if (error) throw error;
+
+  const byDate = new Map<string, { words: number; seconds: number }>();
+  for (const entry of entries) {
+    const date = entry.startedAt.split("T")[0];
+    const total = byDate.get(date) || { words: 0, seconds: 0 };
+    total.words += entry.wordsAdded;
+    total.seconds += entry.activeSeconds;
+    byDate.set(date, total);
+  }
+
+  // Added in the database so concurrent flushes can't overwrite each other
+  for (const [date, total] of byDate) {
+    const { error: totalError } = await supabase.rpc("add_writing_session_totals", {
+      p_date: date,
+      p_words: total.words,
+      p_seconds: total.seconds,
+      p_max_seconds: MAX_ENTRY_SECONDS,
+    });
+
+    if (totalError) throw totalError;
+  }
+}
+
+/** The user's entries since `from` (an ISO timestamp), oldest first. */
+export async function loadWritingActivity(
+  supabase: ServerClient,
+  userId: string,
+  from: string,
+): Promise<WritingActivityEntry[]> {
+  const rows: any[] = [];
+  while (rows.length < MAX_ACTIVITY_ROWS) {
+    const { data, error } = await supabase
+      .from("writing_activity")
+      .select("note_id, notebook_id, started_at, ended_at, words_added, words_removed, active_seconds")
+      .eq("user_id", userId)
+      .gte("started_at", from)
+      .order("started_at", { ascending: true })
+      .range(rows.length, rows.length + ACTIVITY_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < ACTIVITY_PAGE_SIZE) break;
+  }
+
+  return rows.map((row) => ({
+    noteId: row.note_id,
+    notebookId: row.notebook_id,
+    startedAt: row.started_at,
+    endedAt: row.ended_at,
+    wordsAdded: row.words_added,
+    wordsRemoved: row.words_removed,
+    activeSeconds: row.active_seconds,
+  }));
+}
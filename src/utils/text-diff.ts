@@ -0,0 +1,246 @@
+// src/utils/text-diff.ts
+// Markdown-aware diffing for version history.
+//
+// Content is compared paragraph by paragraph first (so a long chapter stays
+// cheap to diff and each change is a self-contained hunk that can be restored
+// on its own), then changed paragraphs are diffed word by word for display.
+
+import { splitBlocks, joinBlocks } from "@/utils/three-way-merge";
+
+// ===========================
+// TYPES
+// ===========================
+
+export type DiffOpType = "equal" | "insert" | "delete";
+
+export interface DiffOp<T> {
+  type: DiffOpType;
+  items: T[];
+}
+
+export interface WordDiffPart {
+  type: DiffOpType;
+  text: string;
+}
+
+export type VersionDiffHunk =
+  | { type: "equal"; blocks: string[] }
+  | {
+      type: "change";
+      /** Blocks only in the older side */
+      removed: string[];
+      /** Blocks only in the newer side */
+      added: string[];
+      words: WordDiffPart[];
+    };
+
+export interface VersionDiffStats {
+  wordsAdded: number;
+  wordsRemoved: number;
+  hunks: number;
+}
+
+// ===========================
+// SEQUENCE DIFF (Myers)
+// ===========================
+
+// The backtracking trace grows with the square of the edit distance; past
+// this many cells the changed middle is shown as one replacement instead
+const MAX_TRACE_CELLS = 4_000_000;
+
+function pushOp<T>(result: DiffOp<T>[], type: DiffOpType, items: T[]) {
+  if (items.length === 0) return;
+  const last = result[result.length - 1];
+  if (last && last.type === type) {
+    for (const item of items) last.items.push(item);
+  } else {
+    result.push({ type, items: items.slice() });
+  }
+}
+
+/**
+ * Myers edit script for sequences with no common prefix or suffix, or null
+ * when it would take more than MAX_TRACE_CELLS to recover.
+ */
+function myers<T>(a: T[], b: T[]): { type: DiffOpType; item: T }[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] keeps only diagonals -d..d of v as it was before step d
+  const trace: Int32Array[] = [];
+  let cells = 0;
+
+  outer: for (let d = 0; d <= max; d++) {
+    cells += 2 * d + 1;
+    if (cells > MAX_TRACE_CELLS) return null;
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) break outer;
+    }
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const ops: { type: DiffOpType; item: T }[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && vd[k - 1 + d] < vd[k + 1 + d])
+        ? k + 1
+        : k - 1;
+    const prevX = vd[prevK + d];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: "equal", item: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: "insert", item: b[y - 1] });
+        y--;
+      } else {
+        ops.push({ type: "delete", item: a[x - 1] });
+        x--;
+      }
+    }
+  }
+  return ops.reverse();
+}
+
+/**
+ * Myers O(ND) shortest edit script between two sequences, coalesced into
+ * runs of equal / deleted / inserted items. Very different inputs fall back
+ * to a single delete-and-insert of everything between the common prefix and
+ * suffix.
+ */
+export function diffSequences<T>(a: T[], b: T[]): DiffOp<T>[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const result: DiffOp<T>[] = [];
+
+  pushOp(result, "equal", a.slice(0, start));
+  const ops = myers(midA, midB);
+  if (ops) {
+    for (const op of ops) pushOp(result, op.type, [op.item]);
+  } else {
+    pushOp(result, "delete", midA);
+    pushOp(result, "insert", midB);
+  }
+  pushOp(result, "equal", a.slice(endA));
+
+  return result;
+}
+
+// ===========================
+// WORD DIFF
+// ===========================
+
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) || [];
+}
+
+export function diffWords(before: string, after: string): WordDiffPart[] {
+  return diffSequences(tokenize(before), tokenize(after)).map((op) => ({
+    type: op.type,
+    text: op.items.join(""),
+  }));
+}
+
+// ===========================
+// VERSION DIFF
+// ===========================
+
+/** Diff two markdown documents into restorable paragraph-level hunks. */
+export function diffVersions(before: string, after: string): VersionDiffHunk[] {
+  const ops = diffSequences(splitBlocks(before), splitBlocks(after));
+  const hunks: VersionDiffHunk[] = [];
+
+  for (let i = 0; i < ops.length; i++) {
+    const op = ops[i];
+    if (op.type === "equal") {
+      hunks.push({ type: "equal", blocks: op.items });
+      continue;
+    }
+
+    // A delete followed by an insert is one replacement hunk
+    let removed: string[] = [];
+    let added: string[] = [];
+    if (op.type === "delete") {
+      removed = op.items;
+      if (ops[i + 1]?.type === "insert") added = ops[++i].items;
+    } else {
+      added = op.items;
+    }
+
+    hunks.push({
+      type: "change",
+      removed,
+      added,
+      words: diffWords(joinBlocks(removed), joinBlocks(added)),
+    });
+  }
+
+  return hunks;
+}
+
+export function getDiffStats(hunks: VersionDiffHunk[]): VersionDiffStats {
+  let wordsAdded = 0;
+  let wordsRemoved = 0;
+  let changes = 0;
+
+  for (const hunk of hunks) {
+    if (hunk.type !== "change") continue;
+    changes++;
+    for (const part of hunk.words) {
+      if (part.type === "equal" || !part.text.trim()) continue;
+      const count = part.text.trim().split(/\s+/).length;
+      if (part.type === "insert") wordsAdded += count;
+      else wordsRemoved += count;
+    }
+  }
+
+  return { wordsAdded, wordsRemoved, hunks: changes };
+}
+
+/**
+ * Rebuild the newer document with the selected change hunks reverted to the
+ * older side. `selected` holds indexes into `hunks`.
+ */
+export function revertHunks(hunks: VersionDiffHunk[], selected: Set<number>): string {
+  const blocks: string[] = [];
+  hunks.forEach((hunk, i) => {
+    if (hunk.type === "equal") {
+      blocks.push(...hunk.blocks);
+    } else if (selected.has(i)) {
+      blocks.push(...hunk.removed);
+    } else {
+      blocks.push(...hunk.added);
+    }
+  });
+  return joinBlocks(blocks);
+}
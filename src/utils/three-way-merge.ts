@@ -0,0 +1,233 @@
+// src/utils/three-way-merge.ts
+// Paragraph-level three-way merge (diff3) for note content.
+//
+// Notes are split into markdown blocks separated by blank lines. Each side is
+// diffed against the common base; blocks changed on only one side are taken
+// from that side, and blocks changed differently on both sides become a
+// conflict hunk for the user to resolve.
+
+// ===========================
+// TYPES
+// ===========================
+
+export type MergeHunk =
+  | { type: "stable"; blocks: string[] }
+  | { type: "conflict"; base: string[]; local: string[]; server: string[] };
+
+export interface ThreeWayMergeResult {
+  /** True when every change could be merged without user input */
+  clean: boolean;
+  /** Merged content; conflict hunks fall back to the server side */
+  content: string;
+  hunks: MergeHunk[];
+}
+
+export type ConflictChoice = "local" | "server" | "both";
+
+// Beyond this many cells the LCS table gets too large to build in the browser
+const MAX_LCS_CELLS = 4_000_000;
+
+// ===========================
+// HELPERS
+// ===========================
+
+export function splitBlocks(content: string): string[] {
+  const normalised = (content || "").replace(/\r\n/g, "\n").trim();
+  if (!normalised) return [];
+  return normalised.split(/\n{2,}/);
+}
+
+export function joinBlocks(blocks: string[]): string {
+  return blocks.join("\n\n");
+}
+
+function sameBlocks(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((block, i) => block === b[i]);
+}
+
+/**
+ * Longest-common-subsequence matching from base indices to other indices.
+ * Returns null when the inputs are too large to diff.
+ */
+function matchBlocks(base: string[], other: string[]): Map<number, number> | null {
+  const n = base.length;
+  const m = other.length;
+  if (n * m > MAX_LCS_CELLS) return null;
+
+  const table: Uint32Array[] = [];
+  for (let i = 0; i <= n; i++) table.push(new Uint32Array(m + 1));
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i][j] =
+        base[i] === other[j]
+          ? table[i + 1][j + 1] + 1
+          : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const matches = new Map<number, number>();
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (base[i] === other[j]) {
+      matches.set(i, j);
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+function pushStable(hunks: MergeHunk[], blocks: string[]) {
+  if (blocks.length === 0) return;
+  const last = hunks[hunks.length - 1];
+  if (last?.type === "stable") {
+    last.blocks.push(...blocks);
+  } else {
+    hunks.push({ type: "stable", blocks: [...blocks] });
+  }
+}
+
+function resolveChunk(
+  hunks: MergeHunk[],
+  base: string[],
+  local: string[],
+  server: string[],
+) {
+  if (sameBlocks(local, base)) {
+    pushStable(hunks, server);
+  } else if (sameBlocks(server, base) || sameBlocks(local, server)) {
+    pushStable(hunks, local);
+  } else {
+    hunks.push({ type: "conflict", base, local, server });
+  }
+}
+
+// ===========================
+// PUBLIC API
+// ===========================
+
+export function mergeThreeWay(
+  base: string,
+  local: string,
+  server: string,
+): ThreeWayMergeResult {
+  const baseBlocks = splitBlocks(base);
+  const localBlocks = splitBlocks(local);
+  const serverBlocks = splitBlocks(server);
+
+  const localMatches = matchBlocks(baseBlocks, localBlocks);
+  const serverMatches = matchBlocks(baseBlocks, serverBlocks);
+
+  const hunks: MergeHunk[] = [];
+
+  if (!localMatches || !serverMatches) {
+    resolveChunk(hunks, baseBlocks, localBlocks, serverBlocks);
+  } else {
+    let o = 0;
+    let a = 0;
+    let b = 0;
+
+    while (true) {
+      // Next base block kept unchanged by both sides
+      let j = o;
+      while (
+        j < baseBlocks.length &&
+        !(localMatches.has(j) && serverMatches.has(j))
+      ) {
+        j++;
+      }
+
+      if (j >= baseBlocks.length) {
+        resolveChunk(
+          hunks,
+          baseBlocks.slice(o),
+          localBlocks.slice(a),
+          serverBlocks.slice(b),
+        );
+        break;
+      }
+
+      const aj = localMatches.get(j)!;
+      const bj = serverMatches.get(j)!;
+      const baseChunk = baseBlocks.slice(o, j);
+      const localChunk = localBlocks.slice(a, aj);
+      const serverChunk = serverBlocks.slice(b, bj);
+
+      if (baseChunk.length || localChunk.length || serverChunk.length) {
+        resolveChunk(hunks, baseChunk, localChunk, serverChunk);
+      }
+      pushStable(hunks, [baseBlocks[j]]);
+
+      o = j + 1;
+      a = aj + 1;
+      b = bj + 1;
+    }
+  }
+
+  const clean = hunks.every((h) => h.type === "stable");
+  return {
+    clean,
+    content: applyConflictChoices(hunks, []),
+    hunks,
+  };
+}
+
+/**
+ * Build final content from merge hunks. `choices` is indexed by conflict
+ * order; unresolved conflicts keep the server side.
+ */
+export function applyConflictChoices(
+  hunks: MergeHunk[],
+  choices: (ConflictChoice | undefined)[],
+): string {
+  const blocks: string[] = [];
+  let conflictIndex = 0;
+
+  for (const hunk of hunks) {
+    if (hunk.type === "stable") {
+      blocks.push(...hunk.blocks);
+      continue;
+    }
+
+    const choice = choices[conflictIndex++] ?? "server";
+    if (choice === "local") {
+      blocks.push(...hunk.local);
+    } else if (choice === "both") {
+      blocks.push(...hunk.local, ...hunk.server);
+    } else {
+      blocks.push(...hunk.server);
+    }
+  }
+
+  return joinBlocks(blocks);
+}
+
+export type ReconcileResult =
+  | { outcome: "server" }
+  | { outcome: "local" }
+  | { outcome: "merged"; content: string }
+  | { outcome: "conflict" };
+
+/**
+ * Decide how two copies of a note relate to their common base: one-sided
+ * edits win outright, two-sided edits are merged when they don't overlap.
+ */
+export function reconcileContent(
+  base: string,
+  local: string,
+  server: string,
+): ReconcileResult {
+  if (local === server || local === base) return { outcome: "server" };
+  if (server === base) return { outcome: "local" };
+
+  const result = mergeThreeWay(base, local, server);
+  return result.clean
+    ? { outcome: "merged", content: result.content }
+    : { outcome: "conflict" };
+}
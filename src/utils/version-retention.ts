@@ -0,0 +1,74 @@
+// src/utils/version-retention.ts
+// Age-based thinning for automatic version snapshots.
+//
+// Snapshots are taken every few minutes while writing. Recent history keeps
+// the newest snapshot per hour, the last month one per day, and anything
+// older one per week. Named checkpoints are never thinned or counted.
+
+// ===========================
+// TYPES
+// ===========================
+
+export interface RetentionCandidate {
+  id: string;
+  created_at: string;
+  is_checkpoint?: boolean | null;
+}
+
+// ===========================
+// CONSTANTS
+// ===========================
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+
+const HOURLY_WINDOW_MS = DAY_MS;
+const DAILY_WINDOW_MS = 30 * DAY_MS;
+
+// ===========================
+// PUBLIC API
+// ===========================
+
+function retentionBucket(createdAt: number, now: number): string {
+  const age = now - createdAt;
+  if (age < HOURLY_WINDOW_MS) return `h:${Math.floor(createdAt / HOUR_MS)}`;
+  if (age < DAILY_WINDOW_MS) return `d:${Math.floor(createdAt / DAY_MS)}`;
+  return `w:${Math.floor(createdAt / WEEK_MS)}`;
+}
+
+/**
+ * Ids of automatic snapshots to delete. Keeps the newest snapshot in each
+ * hourly / daily / weekly bucket, then caps the survivors at `maxVersions`
+ * (-1 for unlimited). Checkpoints are always kept.
+ */
+export function selectVersionsToPrune(
+  versions: RetentionCandidate[],
+  maxVersions: number,
+  now: number = Date.now(),
+): string[] {
+  const automatic = versions
+    .filter((v) => !v.is_checkpoint)
+    .map((v) => ({ id: v.id, time: new Date(v.created_at).getTime() }))
+    .sort((a, b) => b.time - a.time);
+
+  const seenBuckets = new Set<string>();
+  const kept: string[] = [];
+  const pruned: string[] = [];
+
+  for (const version of automatic) {
+    const bucket = retentionBucket(version.time, now);
+    if (seenBuckets.has(bucket)) {
+      pruned.push(version.id);
+    } else {
+      seenBuckets.add(bucket);
+      kept.push(version.id);
+    }
+  }
+
+  if (maxVersions !== -1 && kept.length > maxVersions) {
+    pruned.push(...kept.slice(Math.max(maxVersions, 0)));
+  }
+
+  return pruned;
+}
@@ -0,0 +1,132 @@
+-- Migration: 20261019_note_attachments.sql
+--
+-- Image and PDF attachments pasted or dropped into cloud notes.
+--
+-- 1. `note-attachments` storage bucket. Like notebook covers it is public
+--    (notes embed the public URL); files sit under the owner's folder with
+--    random names. The bucket caps size and type itself, and files only
+--    arrive through signed upload URLs the server hands out after checking
+--    the quota; there is no direct INSERT policy.
+-- 2. note_attachments table recording each confirmed file's note and size.
+--    `note_id` is cleared when the note is permanently deleted so the file
+--    can be collected.
+-- 3. RLS so users only see and remove their own attachments.
+-- 4. Quota helpers that read real object sizes from storage, counting
+--    uploads that were never confirmed, and list stale unconfirmed uploads
+--    for cleanup.
+
+-- ============================================================
+-- STEP 1: Storage bucket and policies
+-- ============================================================
+
+-- Keep in step with MAX_ATTACHMENT_SIZE and ATTACHMENT_TYPES in src/types/attachment.ts
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'note-attachments',
+  'note-attachments',
+  true,
+  10485760,
+  ARRAY['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'application/pdf']
+)
+ON CONFLICT (id) DO UPDATE SET
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- Uploads go through signed URLs created by the service role
+DROP POLICY IF EXISTS "Users can upload attachments" ON storage.objects;
+
+DROP POLICY IF EXISTS "Users can delete attachments" ON storage.objects;
+CREATE POLICY "Users can delete attachments" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (
+    bucket_id = 'note-attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+DROP POLICY IF EXISTS "Public read attachments" ON storage.objects;
+CREATE POLICY "Public read attachments" ON storage.objects
+  FOR SELECT TO public
+  USING (bucket_id = 'note-attachments');
+
+-- ============================================================
+-- STEP 2: Attachments table
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.note_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  note_id UUID REFERENCES notes(id) ON DELETE SET NULL,
+  path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  size_bytes BIGINT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_note_attachments_owner ON public.note_attachments(owner);
+CREATE INDEX IF NOT EXISTS idx_note_attachments_note_id ON public.note_attachments(note_id);
+
+-- ============================================================
+-- STEP 3: RLS
+-- ============================================================
+
+ALTER TABLE public.note_attachments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own attachments" ON public.note_attachments;
+CREATE POLICY "Users can view own attachments" ON public.note_attachments
+  FOR SELECT USING (auth.uid() = owner);
+
+DROP POLICY IF EXISTS "Users can create own attachments" ON public.note_attachments;
+CREATE POLICY "Users can create own attachments" ON public.note_attachments
+  FOR INSERT WITH CHECK (auth.uid() = owner);
+
+DROP POLICY IF EXISTS "Users can update own attachments" ON public.note_attachments;
+CREATE POLICY "Users can update own attachments" ON public.note_attachments
+  FOR UPDATE USING (auth.uid() = owner) WITH CHECK (auth.uid() = owner);
+
+DROP POLICY IF EXISTS "Users can delete own attachments" ON public.note_attachments;
+CREATE POLICY "Users can delete own attachments" ON public.note_attachments
+  FOR DELETE USING (auth.uid() = owner);
+
+DROP POLICY IF EXISTS "Service role full access to note_attachments" ON public.note_attachments;
+CREATE POLICY "Service role full access to note_attachments" ON public.note_attachments
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- ============================================================
+-- STEP 4: Quota helpers
+-- ============================================================
+
+-- Bytes in the caller's attachment folder, confirmed or not
+CREATE OR REPLACE FUNCTION public.attachment_storage_used()
+RETURNS BIGINT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, storage
+AS $$
+  SELECT COALESCE(SUM((metadata->>'size')::BIGINT), 0)
+  FROM storage.objects
+  WHERE bucket_id = 'note-attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text;
+$$;
+
+-- The caller's uploads that were never confirmed, older than `p_older_than`
+CREATE OR REPLACE FUNCTION public.stale_attachment_uploads(p_older_than INTERVAL DEFAULT '1 hour')
+RETURNS SETOF TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, storage
+AS $$
+  SELECT o.name
+  FROM storage.objects o
+  WHERE o.bucket_id = 'note-attachments'
+    AND (storage.foldername(o.name))[1] = auth.uid()::text
+    AND o.created_at < now() - p_older_than
+    AND NOT EXISTS (
+      SELECT 1 FROM public.note_attachments a WHERE a.path = o.name
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.attachment_storage_used() FROM anon;
+REVOKE EXECUTE ON FUNCTION public.stale_attachment_uploads(INTERVAL) FROM anon;
@@ -0,0 +1,198 @@
+-- Migration: 20261019_note_collaborators.sql
+--
+-- Real-time collaboration on cloud notes.
+--
+-- 1. note_collaborators: who besides the author may open a note, and as what role
+-- 2. Collaborator-scoped SELECT/UPDATE policies on notes; editors may only
+--    change title and content
+-- 3. Realtime authorization for the private `collab:<note_id>` (document) and
+--    `collab-presence:<note_id>` (presence) broadcast channels
+--
+-- The helper functions are SECURITY DEFINER so the notes policies can consult
+-- note_collaborators (and vice versa) without recursive RLS evaluation.
+
+-- ============================================================
+-- STEP 1: Collaborators table
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.note_collaborators (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  note_id UUID NOT NULL REFERENCES public.notes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer', 'editor')),
+  added_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(note_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_note_collaborators_note_id ON public.note_collaborators(note_id);
+CREATE INDEX IF NOT EXISTS idx_note_collaborators_user_id ON public.note_collaborators(user_id);
+
+-- ============================================================
+-- STEP 2: Access helpers
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.is_note_owner(p_note_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.notes WHERE id = p_note_id AND author = p_user_id
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.note_collaborator_role(p_note_id UUID, p_user_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.note_collaborators
+  WHERE note_id = p_note_id AND user_id = p_user_id;
+$$;
+
+-- ============================================================
+-- STEP 3: RLS for note_collaborators
+-- ============================================================
+
+ALTER TABLE public.note_collaborators ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Owners can view collaborators" ON public.note_collaborators;
+CREATE POLICY "Owners can view collaborators" ON public.note_collaborators
+  FOR SELECT USING (public.is_note_owner(note_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Collaborators can view fellow collaborators" ON public.note_collaborators;
+CREATE POLICY "Collaborators can view fellow collaborators" ON public.note_collaborators
+  FOR SELECT USING (public.note_collaborator_role(note_id, auth.uid()) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Owners can add collaborators" ON public.note_collaborators;
+CREATE POLICY "Owners can add collaborators" ON public.note_collaborators
+  FOR INSERT WITH CHECK (
+    public.is_note_owner(note_id, auth.uid()) AND added_by = auth.uid()
+  );
+
+DROP POLICY IF EXISTS "Owners can update collaborators" ON public.note_collaborators;
+CREATE POLICY "Owners can update collaborators" ON public.note_collaborators
+  FOR UPDATE USING (public.is_note_owner(note_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Owners and collaborators can remove access" ON public.note_collaborators;
+CREATE POLICY "Owners and collaborators can remove access" ON public.note_collaborators
+  FOR DELETE USING (
+    public.is_note_owner(note_id, auth.uid()) OR user_id = auth.uid()
+  );
+
+DROP POLICY IF EXISTS "Service role full access to note_collaborators" ON public.note_collaborators;
+CREATE POLICY "Service role full access to note_collaborators" ON public.note_collaborators
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- ============================================================
+-- STEP 4: Collaborator access to notes
+-- ============================================================
+
+DROP POLICY IF EXISTS "Collaborators can view shared notes" ON public.notes;
+CREATE POLICY "Collaborators can view shared notes" ON public.notes
+  FOR SELECT USING (public.note_collaborator_role(id, auth.uid()) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Editors can update shared notes" ON public.notes;
+CREATE POLICY "Editors can update shared notes" ON public.notes
+  FOR UPDATE
+  USING (public.note_collaborator_role(id, auth.uid()) = 'editor')
+  WITH CHECK (public.note_collaborator_role(id, auth.uid()) = 'editor');
+
+-- The policy decides which rows an editor may update; this decides which
+-- columns. Anyone but the author (and the service role, which has no
+-- auth.uid()) may only change the title and content, so an editor can't
+-- take the note over, move it, make it public or delete it.
+CREATE OR REPLACE FUNCTION public.restrict_collaborator_note_updates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  editable TEXT[] := ARRAY['title', 'content', 'content_format', 'updated_at', 'search_vector'];
+BEGIN
+  IF auth.uid() IS NULL OR OLD.author = auth.uid() THEN
+    RETURN NEW;
+  END IF;
+
+  IF (to_jsonb(NEW) - editable) IS DISTINCT FROM (to_jsonb(OLD) - editable) THEN
+    RAISE EXCEPTION 'Collaborators can only edit a note''s title and content'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS restrict_collaborator_note_updates ON public.notes;
+CREATE TRIGGER restrict_collaborator_note_updates
+  BEFORE UPDATE ON public.notes
+  FOR EACH ROW EXECUTE FUNCTION public.restrict_collaborator_note_updates();
+
+-- ============================================================
+-- STEP 5: Realtime authorization for collab channels
+-- ============================================================
+--
+-- Each note has two private broadcast topics:
+--   collab:<note_id>           document updates; the author and editors send,
+--                              everyone with access receives
+--   collab-presence:<note_id>  presence, cursors and sync requests; everyone
+--                              with access sends and receives
+-- Realtime authorizes a topic once, when the client joins, so viewers are kept
+-- off the document topic by topic rather than by event.
+
+CREATE OR REPLACE FUNCTION public.collab_topic_note_id(p_topic TEXT)
+RETURNS UUID
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN split_part(p_topic, ':', 2) ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      THEN split_part(p_topic, ':', 2)::uuid
+  END;
+$$;
+
+DROP POLICY IF EXISTS "Collaborators can receive collab messages" ON realtime.messages;
+CREATE POLICY "Collaborators can receive collab messages" ON realtime.messages
+  FOR SELECT TO authenticated
+  USING (
+    split_part(realtime.topic(), ':', 1) IN ('collab', 'collab-presence')
+    AND (
+      public.is_note_owner(public.collab_topic_note_id(realtime.topic()), auth.uid())
+      OR public.note_collaborator_role(public.collab_topic_note_id(realtime.topic()), auth.uid()) IS NOT NULL
+    )
+  );
+
+DROP POLICY IF EXISTS "Collaborators can send collab messages" ON realtime.messages;
+DROP POLICY IF EXISTS "Writers can send collab document updates" ON realtime.messages;
+CREATE POLICY "Writers can send collab document updates" ON realtime.messages
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    split_part(realtime.topic(), ':', 1) = 'collab'
+    AND (
+      public.is_note_owner(public.collab_topic_note_id(realtime.topic()), auth.uid())
+      OR public.note_collaborator_role(public.collab_topic_note_id(realtime.topic()), auth.uid()) = 'editor'
+    )
+  );
+
+DROP POLICY IF EXISTS "Collaborators can send collab presence" ON realtime.messages;
+CREATE POLICY "Collaborators can send collab presence" ON realtime.messages
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    split_part(realtime.topic(), ':', 1) = 'collab-presence'
+    AND (
+      public.is_note_owner(public.collab_topic_note_id(realtime.topic()), auth.uid())
+      OR public.note_collaborator_role(public.collab_topic_note_id(realtime.topic()), auth.uid()) IS NOT NULL
+    )
+  );
+
+-- ============================================================
+-- VERIFICATION: Run after migration to confirm
+-- ============================================================
+--
+-- SELECT policyname, cmd FROM pg_policies
+--   WHERE schemaname = 'public' AND tablename IN ('notes', 'note_collaborators');
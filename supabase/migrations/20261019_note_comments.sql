@@ -0,0 +1,103 @@
+-- Migration: 20261019_note_comments.sql
+--
+-- Comments and suggested edits on shared notes.
+--
+-- 1. shared_notes gains the owner's comment settings: whether readers may
+--    comment at all, and whether they need to be signed in to do so
+-- 2. note_comments: threaded comments anchored to a quoted passage of the
+--    note. A "suggestion" also carries the text proposed in its place.
+--    Replies point at the thread's first comment.
+-- 3. RLS: the note's owner reads, replies to, resolves and deletes comments.
+--    Readers never touch the table directly - their comments go through
+--    server actions that check the share link first (service role).
+--
+-- Comments belong to the share, so they are removed when sharing stops.
+
+-- ============================================================
+-- STEP 1: Comment settings
+-- ============================================================
+
+ALTER TABLE public.shared_notes
+  ADD COLUMN IF NOT EXISTS allow_comments BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS allow_anonymous_comments BOOLEAN NOT NULL DEFAULT false;
+
+-- ============================================================
+-- STEP 2: Comments table
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.note_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shared_note UUID NOT NULL REFERENCES public.shared_notes(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES public.note_comments(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL DEFAULT 'comment' CHECK (kind IN ('comment', 'suggestion')),
+  -- The passage the thread is anchored to, with a little text either side
+  -- to tell repeated passages apart. Empty on replies.
+  quote TEXT NOT NULL DEFAULT '',
+  context_before TEXT NOT NULL DEFAULT '',
+  context_after TEXT NOT NULL DEFAULT '',
+  body TEXT NOT NULL DEFAULT '',
+  suggested_text TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'accepted', 'rejected')),
+  -- Null for anonymous readers
+  author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  author_name TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (kind = 'comment' OR suggested_text IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_note_comments_shared_note
+  ON public.note_comments(shared_note, created_at);
+CREATE INDEX IF NOT EXISTS idx_note_comments_parent_id
+  ON public.note_comments(parent_id);
+
+-- ============================================================
+-- STEP 3: RLS
+-- ============================================================
+
+ALTER TABLE public.note_comments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Note owners can view comments" ON public.note_comments;
+CREATE POLICY "Note owners can view comments" ON public.note_comments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.shared_notes
+      WHERE shared_notes.id = note_comments.shared_note
+      AND shared_notes.note_owner_id = auth.uid()::text
+    )
+  );
+
+DROP POLICY IF EXISTS "Note owners can reply to comments" ON public.note_comments;
+CREATE POLICY "Note owners can reply to comments" ON public.note_comments
+  FOR INSERT WITH CHECK (
+    author_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.shared_notes
+      WHERE shared_notes.id = shared_note
+      AND shared_notes.note_owner_id = auth.uid()::text
+    )
+  );
+
+DROP POLICY IF EXISTS "Note owners can update comments" ON public.note_comments;
+CREATE POLICY "Note owners can update comments" ON public.note_comments
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.shared_notes
+      WHERE shared_notes.id = note_comments.shared_note
+      AND shared_notes.note_owner_id = auth.uid()::text
+    )
+  );
+
+DROP POLICY IF EXISTS "Note owners can delete comments" ON public.note_comments;
+CREATE POLICY "Note owners can delete comments" ON public.note_comments
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM public.shared_notes
+      WHERE shared_notes.id = note_comments.shared_note
+      AND shared_notes.note_owner_id = auth.uid()::text
+    )
+  );
+
+DROP POLICY IF EXISTS "Service role full access to note_comments" ON public.note_comments;
+CREATE POLICY "Service role full access to note_comments" ON public.note_comments
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
@@ -0,0 +1,166 @@
+-- Migration: 20261019_note_embeddings.sql
+--
+-- Embeddings of cloud notes for "search by meaning" and related notes.
+--
+-- 1. pgvector.
+-- 2. note_chunks: each note is split into passages on save; each passage is
+--    embedded once and keyed by a hash of its text and the model, so only
+--    changed passages are re-embedded. Passage text is kept for snippets.
+--    Rows go with the note, and are cleared when a note is encrypted.
+-- 3. RLS so users only see and write their own chunks.
+-- 4. related_notes(): notes closest to a note's average embedding.
+-- 5. search_notes_by_meaning(): notes closest to a query embedding, with the
+--    best-matching passage as the snippet.
+
+-- ============================================================
+-- STEP 1: pgvector
+-- ============================================================
+
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+-- ============================================================
+-- STEP 2: Chunks
+-- ============================================================
+
+-- The dimension must match EMBEDDING_DIMENSIONS in src/utils/ai/types.ts
+CREATE TABLE IF NOT EXISTS public.note_chunks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  note_id UUID NOT NULL REFERENCES public.notes(id) ON DELETE CASCADE,
+  author UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  chunk_index INT NOT NULL,
+  content TEXT NOT NULL,
+  content_hash TEXT NOT NULL,
+  model TEXT NOT NULL,
+  embedding extensions.vector(768) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_note_chunks_note
+  ON public.note_chunks(note_id, chunk_index);
+
+CREATE INDEX IF NOT EXISTS idx_note_chunks_author
+  ON public.note_chunks(author);
+
+CREATE INDEX IF NOT EXISTS idx_note_chunks_embedding
+  ON public.note_chunks USING hnsw (embedding extensions.vector_cosine_ops);
+
+-- ============================================================
+-- STEP 3: RLS
+-- ============================================================
+
+ALTER TABLE public.note_chunks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own note chunks" ON public.note_chunks;
+CREATE POLICY "Users can read own note chunks" ON public.note_chunks
+  FOR SELECT USING (auth.uid() = author);
+
+DROP POLICY IF EXISTS "Users can insert own note chunks" ON public.note_chunks;
+CREATE POLICY "Users can insert own note chunks" ON public.note_chunks
+  FOR INSERT WITH CHECK (
+    auth.uid() = author
+    AND EXISTS (
+      SELECT 1 FROM public.notes n
+      WHERE n.id = note_id AND n.author = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can update own note chunks" ON public.note_chunks;
+CREATE POLICY "Users can update own note chunks" ON public.note_chunks
+  FOR UPDATE USING (auth.uid() = author) WITH CHECK (auth.uid() = author);
+
+DROP POLICY IF EXISTS "Users can delete own note chunks" ON public.note_chunks;
+CREATE POLICY "Users can delete own note chunks" ON public.note_chunks
+  FOR DELETE USING (auth.uid() = author);
+
+-- ============================================================
+-- STEP 4: Related notes RPC
+-- ============================================================
+
+-- Runs as the caller. A note's closeness is its best passage's similarity
+-- to the source note's average embedding.
+CREATE OR REPLACE FUNCTION public.related_notes(
+  p_note_id UUID,
+  p_limit INT DEFAULT 5
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  notebook_id UUID,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+AS $$
+  WITH source AS (
+    SELECT avg(c.embedding) AS embedding
+    FROM public.note_chunks c
+    WHERE c.note_id = p_note_id AND c.author = auth.uid()
+  )
+  SELECT
+    n.id,
+    n.title,
+    n.notebook_id,
+    max(1 - (c.embedding <=> source.embedding)) AS similarity
+  FROM public.note_chunks c
+  JOIN public.notes n ON n.id = c.note_id
+  CROSS JOIN source
+  WHERE source.embedding IS NOT NULL
+    AND c.author = auth.uid()
+    AND c.note_id <> p_note_id
+    AND n.deleted_at IS NULL
+  GROUP BY n.id, n.title, n.notebook_id
+  ORDER BY similarity DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 20);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.related_notes(UUID, INT) TO authenticated;
+
+-- ============================================================
+-- STEP 5: Semantic search RPC
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.search_notes_by_meaning(
+  p_embedding extensions.vector(768),
+  p_limit INT DEFAULT 20
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  notebook_id UUID,
+  is_pinned BOOLEAN,
+  updated_at TIMESTAMPTZ,
+  similarity DOUBLE PRECISION,
+  snippet TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+AS $$
+  WITH best AS (
+    SELECT DISTINCT ON (c.note_id)
+      c.note_id,
+      c.content,
+      1 - (c.embedding <=> p_embedding) AS similarity
+    FROM public.note_chunks c
+    WHERE c.author = auth.uid()
+    ORDER BY c.note_id, c.embedding <=> p_embedding
+  )
+  SELECT
+    n.id,
+    n.title,
+    n.notebook_id,
+    n.is_pinned,
+    n.updated_at,
+    best.similarity,
+    left(best.content, 300) AS snippet
+  FROM best
+  JOIN public.notes n ON n.id = best.note_id
+  WHERE n.deleted_at IS NULL
+  ORDER BY best.similarity DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_notes_by_meaning(extensions.vector, INT) TO authenticated;
@@ -0,0 +1,60 @@
+-- Migration: 20261019_note_encryption.sql
+--
+-- Opt-in end-to-end encryption for private cloud notes. Content is encrypted
+-- in the browser; the server only stores ciphertext and wrapped keys.
+--
+-- 1. notes.is_encrypted flag, set whenever the stored content is ciphertext
+-- 2. note_encryption_keys: one row per user holding their note keys, each
+--    wrapped by a passphrase-derived key and a recovery-code-derived key,
+--    plus the salts and KDF parameters needed to derive them again
+-- 3. RLS so users only ever see their own keyring
+--
+-- Ciphertext is kept out of full-text search by note_search_text() in
+-- 20261019_notes_search.sql, which runs after this migration.
+
+-- ============================================================
+-- STEP 1: Encrypted flag on notes
+-- ============================================================
+
+ALTER TABLE public.notes
+  ADD COLUMN IF NOT EXISTS is_encrypted BOOLEAN NOT NULL DEFAULT false;
+
+-- ============================================================
+-- STEP 2: Keyrings
+-- ============================================================
+
+-- `keys` is an array of {version, passphrase, recovery}, where the last two
+-- are "<iv>.<ciphertext>" (base64) of the same AES-256 note key.
+CREATE TABLE IF NOT EXISTS public.note_encryption_keys (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  kdf TEXT NOT NULL DEFAULT 'PBKDF2-SHA256',
+  kdf_iterations INT NOT NULL CHECK (kdf_iterations >= 100000),
+  passphrase_salt TEXT NOT NULL,
+  recovery_salt TEXT NOT NULL,
+  current_version INT NOT NULL DEFAULT 1,
+  keys JSONB NOT NULL CHECK (jsonb_typeof(keys) = 'array'),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- ============================================================
+-- STEP 3: RLS
+-- ============================================================
+
+ALTER TABLE public.note_encryption_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own keyring" ON public.note_encryption_keys;
+CREATE POLICY "Users can view own keyring" ON public.note_encryption_keys
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can create own keyring" ON public.note_encryption_keys;
+CREATE POLICY "Users can create own keyring" ON public.note_encryption_keys
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own keyring" ON public.note_encryption_keys;
+CREATE POLICY "Users can update own keyring" ON public.note_encryption_keys
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Service role full access to note_encryption_keys" ON public.note_encryption_keys;
+CREATE POLICY "Service role full access to note_encryption_keys" ON public.note_encryption_keys
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
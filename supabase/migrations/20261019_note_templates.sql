@@ -0,0 +1,50 @@
+-- Migration: 20261019_note_templates.sql
+--
+-- Per-user note templates.
+--
+-- 1. note_templates table. `title` and `content` may contain {{variables}}
+--    that are filled in when a note is created from the template.
+-- 2. RLS so users only ever see and change their own templates.
+
+-- ============================================================
+-- STEP 1: Templates table
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.note_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name VARCHAR(80) NOT NULL,
+  title TEXT NOT NULL DEFAULT '',
+  content TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(owner, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_note_templates_owner ON public.note_templates(owner);
+
+-- ============================================================
+-- STEP 2: RLS
+-- ============================================================
+
+ALTER TABLE public.note_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own templates" ON public.note_templates;
+CREATE POLICY "Users can view own templates" ON public.note_templates
+  FOR SELECT USING (auth.uid() = owner);
+
+DROP POLICY IF EXISTS "Users can create own templates" ON public.note_templates;
+CREATE POLICY "Users can create own templates" ON public.note_templates
+  FOR INSERT WITH CHECK (auth.uid() = owner);
+
+DROP POLICY IF EXISTS "Users can update own templates" ON public.note_templates;
+CREATE POLICY "Users can update own templates" ON public.note_templates
+  FOR UPDATE USING (auth.uid() = owner) WITH CHECK (auth.uid() = owner);
+
+DROP POLICY IF EXISTS "Users can delete own templates" ON public.note_templates;
+CREATE POLICY "Users can delete own templates" ON public.note_templates
+  FOR DELETE USING (auth.uid() = owner);
+
+DROP POLICY IF EXISTS "Service role full access to note_templates" ON public.note_templates;
+CREATE POLICY "Service role full access to note_templates" ON public.note_templates
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
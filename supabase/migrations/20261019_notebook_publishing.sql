@@ -0,0 +1,101 @@
+-- Migration: 20261019_notebook_publishing.sql
+--
+-- Publish a whole notebook (and its sub-notebooks) as a read-only site under
+-- one shortcode. Reuses the long-unused collections tables:
+--
+-- 1. collections becomes "a published notebook": the notebook it points at,
+--    plus the same password / expiry / anonymity options as shared_notes
+-- 2. collections_notes becomes per-page analytics: one row per published
+--    note that has been viewed, with its view count
+-- 3. record_collection_view() bumps both counters atomically
+-- 4. RLS: owners manage their own collections and read their page stats;
+--    viewers never touch these tables directly, only via server actions
+
+-- ============================================================
+-- STEP 1: Published notebooks
+-- ============================================================
+
+ALTER TABLE public.collections
+  ADD COLUMN IF NOT EXISTS notebook_id UUID REFERENCES public.notebooks(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS is_anonymous BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS password_hash TEXT,
+  ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS view_count INT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+-- A notebook is published at most once; its shortcode is the site's address
+CREATE UNIQUE INDEX IF NOT EXISTS idx_collections_notebook_id
+  ON public.collections(notebook_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_collections_shortcode
+  ON public.collections(shortcode);
+
+-- ============================================================
+-- STEP 2: Per-page views
+-- ============================================================
+
+ALTER TABLE public.collections_notes
+  ADD COLUMN IF NOT EXISTS view_count INT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_viewed_at TIMESTAMPTZ;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_collections_notes_collection_note
+  ON public.collections_notes(collection_id, note_id);
+
+-- Unpublishing, or deleting a note, takes its page stats with it
+ALTER TABLE public.collections_notes
+  DROP CONSTRAINT IF EXISTS collections_notes_collection_id_fkey,
+  ADD CONSTRAINT collections_notes_collection_id_fkey
+    FOREIGN KEY (collection_id) REFERENCES public.collections(id) ON DELETE CASCADE;
+
+ALTER TABLE public.collections_notes
+  DROP CONSTRAINT IF EXISTS collections_notes_note_id_fkey,
+  ADD CONSTRAINT collections_notes_note_id_fkey
+    FOREIGN KEY (note_id) REFERENCES public.notes(id) ON DELETE CASCADE;
+
+-- ============================================================
+-- STEP 3: View counting
+-- ============================================================
+
+-- Called with the service role after access has been checked, once per page
+-- view. A null note counts a visit to the contents page only.
+CREATE OR REPLACE FUNCTION public.record_collection_view(p_collection_id UUID, p_note_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.collections
+  SET view_count = view_count + 1
+  WHERE id = p_collection_id;
+
+  IF p_note_id IS NOT NULL THEN
+    INSERT INTO public.collections_notes (collection_id, note_id, view_count, last_viewed_at)
+    VALUES (p_collection_id, p_note_id, 1, now())
+    ON CONFLICT (collection_id, note_id)
+    DO UPDATE SET
+      view_count = public.collections_notes.view_count + 1,
+      last_viewed_at = now();
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_collection_view(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_collection_view(UUID, UUID) TO service_role;
+
+-- ============================================================
+-- STEP 4: RLS
+-- ============================================================
+
+-- Owner select/insert/update/delete on collections and select/delete on
+-- collections_notes already exist (20260205_rls_policies_revised.sql).
+-- Page stats are only ever written by record_collection_view().
+
+DROP POLICY IF EXISTS "Users can add notes to own collections" ON public.collections_notes;
+
+DROP POLICY IF EXISTS "Service role full access to collections" ON public.collections;
+CREATE POLICY "Service role full access to collections" ON public.collections
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Service role full access to collections_notes" ON public.collections_notes;
+CREATE POLICY "Service role full access to collections_notes" ON public.collections_notes
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
@@ -0,0 +1,122 @@
+-- Migration: 20261019_notes_search.sql
+--
+-- Server-side full-text search over cloud notes, so large archives can be
+-- searched without downloading every note's content to the client.
+--
+-- 1. note_search_text(): markup-stripped plain text used for both indexing
+--    and snippets; encrypted content (see 20261019_note_encryption.sql)
+--    indexes as nothing
+-- 2. notes.search_vector generated column (title weighted above body) + GIN
+-- 3. search_notes() RPC: ranked, paginated matches with ts_headline snippets
+
+-- ============================================================
+-- STEP 1: Plain-text helper
+-- ============================================================
+
+-- Notes are markdown (or legacy HTML). Tags and markdown punctuation are
+-- replaced by spaces; the text is capped so very large notes stay under the
+-- 1MB tsvector limit. Encrypted content is ciphertext, so it indexes as
+-- nothing and encrypted notes are only found by title server-side.
+CREATE OR REPLACE FUNCTION public.note_search_text(p_content TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT CASE
+    WHEN p_content LIKE 'jn-e2e:%' THEN ''
+    ELSE left(
+      regexp_replace(
+        regexp_replace(coalesce(p_content, ''), '<[^>]+>', ' ', 'g'),
+        '[*_#>`~=|\[\]]+', ' ', 'g'
+      ),
+      500000
+    )
+  END;
+$$;
+
+-- ============================================================
+-- STEP 2: Search vector
+-- ============================================================
+
+ALTER TABLE public.notes
+  ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', public.note_search_text(content)), 'B')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_notes_search_vector
+  ON public.notes USING GIN (search_vector);
+
+-- ============================================================
+-- STEP 3: Search RPC
+-- ============================================================
+
+-- Runs as the caller, so RLS on notes still applies. Query syntax is
+-- websearch_to_tsquery: "quoted phrases", OR, and -excluded words.
+-- Snippet matches are wrapped in \x01 ... \x02 for the client to highlight.
+CREATE OR REPLACE FUNCTION public.search_notes(
+  p_query TEXT,
+  p_limit INT DEFAULT 20,
+  p_offset INT DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  notebook_id UUID,
+  is_pinned BOOLEAN,
+  updated_at TIMESTAMPTZ,
+  rank REAL,
+  snippet TEXT,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', p_query) AS query
+  ),
+  page AS (
+    SELECT
+      n.id,
+      n.title,
+      n.notebook_id,
+      n.is_pinned,
+      n.updated_at,
+      n.content,
+      n.is_encrypted,
+      ts_rank_cd(n.search_vector, q.query, 32) AS rank,
+      count(*) OVER () AS total_count
+    FROM public.notes n, q
+    WHERE n.author = auth.uid()
+      AND n.deleted_at IS NULL
+      AND n.search_vector @@ q.query
+    ORDER BY rank DESC, n.updated_at DESC NULLS LAST
+    LIMIT LEAST(GREATEST(p_limit, 1), 100)
+    OFFSET GREATEST(p_offset, 0)
+  )
+  -- Headlines are expensive, so only build them for the returned page
+  SELECT
+    page.id,
+    page.title,
+    page.notebook_id,
+    page.is_pinned,
+    page.updated_at,
+    page.rank,
+    -- Never show anything from an encrypted note's stored content
+    CASE WHEN page.is_encrypted THEN '' ELSE ts_headline(
+      'english',
+      public.note_search_text(page.content),
+      q.query,
+      'StartSel=' || chr(1) || ', StopSel=' || chr(2) ||
+        ', MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+    ) END AS snippet,
+    page.total_count
+  FROM page, q
+  ORDER BY page.rank DESC, page.updated_at DESC NULLS LAST;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_notes(TEXT, INT, INT) TO authenticated;
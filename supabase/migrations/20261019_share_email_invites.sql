@@ -0,0 +1,32 @@
+-- Migration: 20261019_share_email_invites.sql
+--
+-- Invite readers of a private share by email address.
+--
+-- 1. shared_notes_readers gains the address the reader was invited at and
+--    when. Someone invited by email may not have picked a username yet, so
+--    reader_username becomes optional; access is checked on reader_id.
+-- 2. An invite is pending until first_viewed_at is set, the first time the
+--    reader opens the note (which is also when the owner is emailed).
+-- 3. One invite per address per share.
+
+-- ============================================================
+-- STEP 1: Invite columns
+-- ============================================================
+
+ALTER TABLE public.shared_notes_readers
+  ADD COLUMN IF NOT EXISTS reader_email TEXT,
+  ADD COLUMN IF NOT EXISTS invited_at TIMESTAMPTZ;
+
+ALTER TABLE public.shared_notes_readers
+  ALTER COLUMN reader_username DROP NOT NULL;
+
+-- ============================================================
+-- STEP 2: Indexes
+-- ============================================================
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shared_notes_readers_email
+  ON public.shared_notes_readers(shared_note, lower(reader_email))
+  WHERE reader_email IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_shared_notes_readers_reader_id
+  ON public.shared_notes_readers(shared_note, reader_id);
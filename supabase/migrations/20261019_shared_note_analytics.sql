@@ -0,0 +1,53 @@
+-- Migration: 20261019_shared_note_analytics.sql
+--
+-- Privacy-friendly analytics for shared notes, stored in the existing (until
+-- now unused) shared_notes_analytics table:
+--
+-- 1. One row per visit. The JSON `analytics` column holds a visitor hash that
+--    rotates daily, the referrer's domain, and how far / how long it was read.
+--    No IP address, user agent or cookie is ever stored.
+-- 2. Visits are listed per share by date, so they get a matching index
+-- 3. Stopping a share removes its analytics with it
+-- 4. RLS: owners read the analytics of their shares; writes only happen on
+--    the server with the service role, after access has been checked
+
+-- ============================================================
+-- STEP 1: Visit shape
+-- ============================================================
+
+-- analytics = {
+--   "visitor":    "<16 hex chars>",  -- sha256(day, share, ip, user agent, salt)
+--   "referrer":   "example.com",     -- null for direct visits
+--   "completion": 0.0 - 1.0,         -- furthest point of the note scrolled into view
+--   "seconds":    0 - 14400          -- time the page was visible
+-- }
+
+ALTER TABLE public.shared_notes_analytics
+  ALTER COLUMN created_at SET DEFAULT now();
+
+-- ============================================================
+-- STEP 2: Indexes
+-- ============================================================
+
+CREATE INDEX IF NOT EXISTS idx_shared_notes_analytics_share_created
+  ON public.shared_notes_analytics(shared_note, created_at DESC);
+
+-- ============================================================
+-- STEP 3: Cascade on stop sharing
+-- ============================================================
+
+ALTER TABLE public.shared_notes_analytics
+  DROP CONSTRAINT IF EXISTS shared_notes_analytics_shared_note_fkey,
+  ADD CONSTRAINT shared_notes_analytics_shared_note_fkey
+    FOREIGN KEY (shared_note) REFERENCES public.shared_notes(id) ON DELETE CASCADE;
+
+-- ============================================================
+-- STEP 4: RLS
+-- ============================================================
+
+-- "Note owners can view analytics" and the service role policy already exist
+-- (20260205_rls_policies_revised.sql). Direct inserts would let anyone with
+-- a public link forge visits, so they go.
+
+DROP POLICY IF EXISTS "Note owners can insert analytics" ON public.shared_notes_analytics;
+DROP POLICY IF EXISTS "Public notes can track analytics" ON public.shared_notes_analytics;
@@ -0,0 +1,67 @@
+-- Migration: 20261019_user_preferences.sql
+--
+-- Synced user preferences (theme, sort order, ToC, split view, wide view,
+-- last active note), so settings follow a signed-in user between devices.
+--
+-- 1. user_preferences: one row per user holding a JSON object. The shape is
+--    UserPreferences in src/types/preferences.ts; the app validates it on
+--    read and write, so new settings need no migration.
+-- 2. RLS so users only see and write their own row.
+-- 3. Realtime publication, so other open devices pick up changes.
+-- 4. merge_user_preferences(), which writes changed keys in one statement so
+--    concurrent saves from two devices can't drop each other's settings.
+
+-- ============================================================
+-- STEP 1: Preferences table
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.user_preferences (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  preferences JSONB NOT NULL DEFAULT '{}'::jsonb,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- ============================================================
+-- STEP 2: RLS
+-- ============================================================
+
+ALTER TABLE public.user_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own preferences" ON public.user_preferences;
+CREATE POLICY "Users can read own preferences" ON public.user_preferences
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own preferences" ON public.user_preferences;
+CREATE POLICY "Users can insert own preferences" ON public.user_preferences
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own preferences" ON public.user_preferences;
+CREATE POLICY "Users can update own preferences" ON public.user_preferences
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+-- ============================================================
+-- STEP 3: Enable Realtime
+-- ============================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.user_preferences;
+
+-- ============================================================
+-- STEP 4: Atomic merge
+-- ============================================================
+
+-- Runs as the caller, so the RLS policies above still apply
+CREATE OR REPLACE FUNCTION public.merge_user_preferences(p_patch JSONB)
+RETURNS JSONB
+LANGUAGE sql
+VOLATILE
+SET search_path = public
+AS $$
+  INSERT INTO public.user_preferences (user_id, preferences, updated_at)
+  VALUES (auth.uid(), p_patch, now())
+  ON CONFLICT (user_id) DO UPDATE
+    SET preferences = user_preferences.preferences || EXCLUDED.preferences,
+        updated_at = now()
+  RETURNING preferences;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_user_preferences(JSONB) FROM anon;
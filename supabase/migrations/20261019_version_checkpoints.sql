@@ -0,0 +1,26 @@
+-- Migration: 20261019_version_checkpoints.sql
+--
+-- Named version checkpoints.
+--
+-- 1. label / is_checkpoint columns on note_versions. Checkpoints are named by
+--    the user and are never removed by automatic retention.
+-- 2. UPDATE policy so users can name or un-name their own versions.
+
+-- ============================================================
+-- STEP 1: Checkpoint columns
+-- ============================================================
+
+ALTER TABLE public.note_versions
+  ADD COLUMN IF NOT EXISTS label TEXT,
+  ADD COLUMN IF NOT EXISTS is_checkpoint BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_note_versions_note_created
+  ON public.note_versions(note_id, created_at DESC);
+
+-- ============================================================
+-- STEP 2: Allow renaming
+-- ============================================================
+
+DROP POLICY IF EXISTS "Users can update own versions" ON public.note_versions;
+CREATE POLICY "Users can update own versions" ON public.note_versions
+  FOR UPDATE USING (auth.uid() = author) WITH CHECK (auth.uid() = author);
@@ -0,0 +1,83 @@
+-- Migration: 20261019_writing_activity.sql
+--
+-- Per-note writing activity for the writing stats dashboard.
+--
+-- 1. writing_activity: one row per note per flush from the editor, with the
+--    words added and removed and the time spent typing. writing_sessions
+--    keeps its one row per day (streaks and the journal calendar use it)
+--    and is still incremented alongside.
+--    note_id is text with no foreign key, since local notes are counted too
+--    and stats should outlive the note; notebook_id is the notebook the note
+--    was in at the time.
+-- 2. RLS so users only see and write their own activity.
+-- 3. add_writing_session_totals(), which adds a flush to the day's
+--    writing_sessions row in one statement, so simultaneous flushes (the
+--    unload beacon and the server action) can't lose words.
+
+-- ============================================================
+-- STEP 1: Activity table
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.writing_activity (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  note_id TEXT,
+  notebook_id UUID,
+  started_at TIMESTAMPTZ NOT NULL,
+  ended_at TIMESTAMPTZ NOT NULL,
+  words_added INTEGER NOT NULL DEFAULT 0 CHECK (words_added >= 0),
+  words_removed INTEGER NOT NULL DEFAULT 0 CHECK (words_removed >= 0),
+  active_seconds INTEGER NOT NULL DEFAULT 0 CHECK (active_seconds >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_writing_activity_user_started
+  ON public.writing_activity(user_id, started_at);
+
+-- ============================================================
+-- STEP 2: RLS
+-- ============================================================
+
+ALTER TABLE public.writing_activity ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own writing activity" ON public.writing_activity;
+CREATE POLICY "Users can read own writing activity" ON public.writing_activity
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own writing activity" ON public.writing_activity;
+CREATE POLICY "Users can insert own writing activity" ON public.writing_activity
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own writing activity" ON public.writing_activity;
+CREATE POLICY "Users can delete own writing activity" ON public.writing_activity
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- ============================================================
+-- STEP 3: Atomic daily totals
+-- ============================================================
+
+-- Runs as the caller, so the writing_sessions RLS policies still apply.
+-- The day's duration is capped at p_max_seconds.
+CREATE OR REPLACE FUNCTION public.add_writing_session_totals(
+  p_date DATE,
+  p_words INT,
+  p_seconds INT,
+  p_max_seconds INT
+)
+RETURNS VOID
+LANGUAGE sql
+VOLATILE
+SET search_path = public
+AS $$
+  INSERT INTO public.writing_sessions (user_id, date, words_written, duration_seconds)
+  VALUES (auth.uid(), p_date, GREATEST(p_words, 0), LEAST(GREATEST(p_seconds, 0), p_max_seconds))
+  ON CONFLICT (user_id, date) DO UPDATE
+    SET words_written = writing_sessions.words_written + EXCLUDED.words_written,
+        duration_seconds = LEAST(
+          writing_sessions.duration_seconds + EXCLUDED.duration_seconds,
+          p_max_seconds
+        ),
+        updated_at = now();
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.add_writing_session_totals(DATE, INT, INT, INT) FROM anon;
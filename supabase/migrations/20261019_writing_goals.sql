@@ -0,0 +1,57 @@
+-- Migration: 20261019_writing_goals.sql
+--
+-- Words-written goals: by a date (e.g. 50,000 words in a notebook by
+-- 30 November) or recurring every day or week, for all writing, a notebook
+-- or a note. Progress is worked out by the app from writing_sessions and
+-- writing_activity; only the goals themselves are stored.
+--
+-- 1. writing_goals, with checks that each scope and cadence has what it
+--    needs. note_id is text with no foreign key, like writing_activity,
+--    since local notes can have goals too.
+-- 2. RLS so users only see and change their own goals.
+
+-- ============================================================
+-- STEP 1: Goals table
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.writing_goals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  scope TEXT NOT NULL CHECK (scope IN ('all', 'notebook', 'note')),
+  note_id TEXT,
+  notebook_id UUID REFERENCES public.notebooks(id) ON DELETE CASCADE,
+  cadence TEXT NOT NULL CHECK (cadence IN ('deadline', 'daily', 'weekly')),
+  target_words INTEGER NOT NULL CHECK (target_words > 0),
+  start_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  due_date DATE,
+  label TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (scope <> 'note' OR note_id IS NOT NULL),
+  CHECK (scope <> 'notebook' OR notebook_id IS NOT NULL),
+  CHECK (cadence <> 'deadline' OR (due_date IS NOT NULL AND due_date >= start_date))
+);
+
+CREATE INDEX IF NOT EXISTS idx_writing_goals_user
+  ON public.writing_goals(user_id);
+
+-- ============================================================
+-- STEP 2: RLS
+-- ============================================================
+
+ALTER TABLE public.writing_goals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own writing goals" ON public.writing_goals;
+CREATE POLICY "Users can read own writing goals" ON public.writing_goals
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own writing goals" ON public.writing_goals;
+CREATE POLICY "Users can insert own writing goals" ON public.writing_goals
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own writing goals" ON public.writing_goals;
+CREATE POLICY "Users can update own writing goals" ON public.writing_goals
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own writing goals" ON public.writing_goals;
+CREATE POLICY "Users can delete own writing goals" ON public.writing_goals
+  FOR DELETE USING (auth.uid() = user_id);